@@ -93,3 +93,21 @@ for (const cmd of commands) {
     });
   });
 }
+
+describe("qualified account:thread-id references", () => {
+  test("rejects a reference for a different account than --account", async () => {
+    const { output, exitCode } = await getOutput(
+      spawnCli("read", "work@example.com:thread123", "--account=home@example.com")
+    );
+    expect(output).toContain("Thread reference is for work@example.com but --account is home@example.com");
+    expect(exitCode).not.toBe(0);
+  });
+
+  test("rejects references spanning several accounts", async () => {
+    const { output, exitCode } = await getOutput(
+      spawnCli("archive", "work@example.com:t1", "home@example.com:t2")
+    );
+    expect(output).toMatch(/span several accounts/);
+    expect(exitCode).not.toBe(0);
+  });
+});
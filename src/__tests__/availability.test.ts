@@ -0,0 +1,228 @@
+import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import { rm } from "node:fs/promises";
+
+const TEST_CONFIG_DIR = "/tmp/superhuman-cli-availability-test";
+process.env.SUPERHUMAN_CLI_CONFIG_DIR = TEST_CONFIG_DIR;
+
+import {
+  formatAvailability,
+  proposeAvailability,
+  placeHolds,
+  listHoldGroups,
+  releaseBookedHolds,
+} from "../availability";
+import { parseVars } from "../snippets";
+import type { ConnectionProvider } from "../connection-provider";
+import type { TokenInfo } from "../token-api";
+
+const token: TokenInfo = {
+  accessToken: "test-access-token",
+  email: "me@example.com",
+  expires: Date.now() + 3600000,
+  isMicrosoft: false,
+};
+
+const provider: ConnectionProvider = {
+  getToken: async () => token,
+  getCurrentEmail: async () => token.email,
+  getAccountInfo: async () => ({ email: token.email, isMicrosoft: false, provider: "google" }),
+  disconnect: async () => {},
+};
+
+interface Call {
+  url: string;
+  method: string;
+  body?: any;
+}
+
+/** Mock fetch answering by URL substring (first match); unmatched requests get {} */
+function mockRoutes(routes: Array<[string, unknown]>) {
+  const calls: Call[] = [];
+  globalThis.fetch = mock((url: string, init?: RequestInit) => {
+    const method = init?.method || "GET";
+    calls.push({ url, method, body: init?.body ? JSON.parse(init.body as string) : undefined });
+    if (method === "DELETE") {
+      return Promise.resolve(new Response(null, { status: 204 }));
+    }
+    const route = routes.find(([part]) => url.includes(part));
+    return Promise.resolve(new Response(JSON.stringify(route ? route[1] : {}), { status: 200 }));
+  }) as unknown as typeof fetch;
+  return calls;
+}
+
+describe("formatAvailability", () => {
+  test("groups slots by day in the given zone", () => {
+    const slots = [
+      { start: "2026-10-20T18:00:00.000Z", end: "2026-10-20T18:30:00.000Z", score: 100 },
+      { start: "2026-10-20T14:00:00.000Z", end: "2026-10-20T14:30:00.000Z", score: 110 },
+      { start: "2026-10-21T16:30:00.000Z", end: "2026-10-21T17:00:00.000Z", score: 90 },
+    ];
+
+    const { text, html } = formatAvailability(slots, "America/New_York");
+
+    expect(text).toBe(
+      [
+        "- Tue, Oct 20: 10:00 AM - 10:30 AM, 2:00 PM - 2:30 PM",
+        "- Wed, Oct 21: 12:30 PM - 1:00 PM",
+        "",
+        "Times in America/New_York",
+      ].join("\n")
+    );
+    expect(html).toBe(
+      "<ul><li>Tue, Oct 20: 10:00 AM - 10:30 AM, 2:00 PM - 2:30 PM</li><li>Wed, Oct 21: 12:30 PM - 1:00 PM</li></ul>" +
+        "<p>Times in America/New_York</p>"
+    );
+  });
+
+  test("availability blocks survive --vars parsing", () => {
+    expect(parseVars("first_name=Jane,times=Tue, Oct 20: 10:00 AM, 2:00 PM,room=4")).toEqual({
+      first_name: "Jane",
+      times: "Tue, Oct 20: 10:00 AM, 2:00 PM",
+      room: "4",
+    });
+  });
+});
+
+describe("proposeAvailability", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("proposes up to two slots a day around busy times, skipping the weekend", async () => {
+    const calls = mockRoutes([
+      [
+        "/freeBusy",
+        {
+          calendars: {
+            primary: {
+              // Friday 9:00-16:00 New York
+              busy: [{ start: "2026-10-23T13:00:00Z", end: "2026-10-23T20:00:00Z" }],
+            },
+          },
+        },
+      ],
+    ]);
+
+    // Friday 8:00 New York
+    const now = new Date("2026-10-23T12:00:00Z");
+    const proposal = await proposeAvailability(
+      provider,
+      { durationMinutes: 30, days: 2, timeZone: "America/New_York" },
+      now
+    );
+
+    expect(calls[0]!.body).toEqual({
+      timeMin: "2026-10-23T12:00:00.000Z",
+      // End of Monday in New York
+      timeMax: "2026-10-27T04:00:00.000Z",
+      items: [{ id: "primary" }],
+    });
+    expect(proposal.success).toBe(true);
+    expect(proposal.slots.map((s) => s.start)).toEqual([
+      "2026-10-23T20:00:00.000Z",
+      "2026-10-23T20:30:00.000Z",
+      "2026-10-26T14:00:00.000Z",
+      "2026-10-26T14:30:00.000Z",
+    ]);
+    expect(proposal.text.split("\n")[0]).toBe("- Fri, Oct 23: 4:00 PM - 4:30 PM, 4:30 PM - 5:00 PM");
+  });
+
+  test("rejects unknown time zones before calling the API", async () => {
+    const calls = mockRoutes([]);
+    const proposal = await proposeAvailability(provider, { durationMinutes: 30, timeZone: "Nowhere/Town" });
+    expect(proposal.success).toBe(false);
+    expect(proposal.error).toBe("Unknown time zone: Nowhere/Town");
+    expect(calls).toHaveLength(0);
+  });
+});
+
+describe("holds", () => {
+  const originalFetch = globalThis.fetch;
+  const slots = [
+    { start: "2099-10-20T14:00:00.000Z", end: "2099-10-20T14:30:00.000Z", score: 100 },
+    { start: "2099-10-21T15:00:00.000Z", end: "2099-10-21T15:30:00.000Z", score: 90 },
+  ];
+
+  beforeEach(async () => {
+    await rm(TEST_CONFIG_DIR, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    await rm(TEST_CONFIG_DIR, { recursive: true, force: true });
+  });
+
+  async function placeTwoHolds() {
+    let n = 0;
+    globalThis.fetch = mock(() =>
+      Promise.resolve(new Response(JSON.stringify({ id: `hold${++n}` }), { status: 200 }))
+    ) as unknown as typeof fetch;
+    return placeHolds(provider, slots, "Hold: Acme");
+  }
+
+  test("placeHolds creates tentative events and records them", async () => {
+    const calls: any[] = [];
+    globalThis.fetch = mock((_url: string, init: RequestInit) => {
+      calls.push(JSON.parse(init.body as string));
+      return Promise.resolve(new Response(JSON.stringify({ id: `hold${calls.length}` }), { status: 200 }));
+    }) as unknown as typeof fetch;
+
+    const result = await placeHolds(provider, slots, "Hold: Acme");
+
+    expect(result.success).toBe(true);
+    expect(calls.map((c) => [c.summary, c.status, c.start.dateTime])).toEqual([
+      ["Hold: Acme", "tentative", "2099-10-20T14:00:00.000Z"],
+      ["Hold: Acme", "tentative", "2099-10-21T15:00:00.000Z"],
+    ]);
+    const groups = await listHoldGroups("me@example.com");
+    expect(groups).toHaveLength(1);
+    expect(groups[0]!.holds.map((h) => h.eventId)).toEqual(["hold1", "hold2"]);
+  });
+
+  test("releaseBookedHolds deletes every hold once a held time is booked", async () => {
+    const placed = await placeTwoHolds();
+    const calls = mockRoutes([
+      [
+        "/events?timeMin",
+        {
+          items: [
+            { id: "hold1", summary: "Hold: Acme", start: { dateTime: "2099-10-20T14:00:00Z" }, end: { dateTime: "2099-10-20T14:30:00Z" } },
+            { id: "hold2", summary: "Hold: Acme", start: { dateTime: "2099-10-21T15:00:00Z" }, end: { dateTime: "2099-10-21T15:30:00Z" } },
+            { id: "meet1", summary: "Acme intro", start: { dateTime: "2099-10-21T15:00:00Z" }, end: { dateTime: "2099-10-21T15:30:00Z" } },
+          ],
+        },
+      ],
+    ]);
+
+    const released = await releaseBookedHolds(provider);
+
+    expect(released.map((r) => [r.group.id, r.booked.id])).toEqual([[placed.group!.id, "meet1"]]);
+    expect(calls.filter((c) => c.method === "DELETE").map((c) => c.url)).toEqual([
+      "https://www.googleapis.com/calendar/v3/calendars/primary/events/hold1",
+      "https://www.googleapis.com/calendar/v3/calendars/primary/events/hold2",
+    ]);
+    expect(await listHoldGroups()).toEqual([]);
+  });
+
+  test("releaseBookedHolds keeps holds when nothing starts at a held time", async () => {
+    await placeTwoHolds();
+    const calls = mockRoutes([
+      [
+        "/events?timeMin",
+        {
+          items: [
+            { id: "hold1", start: { dateTime: "2099-10-20T14:00:00Z" }, end: { dateTime: "2099-10-20T14:30:00Z" } },
+            // Overlaps a hold but starts later: not a booking of the proposal
+            { id: "other", start: { dateTime: "2099-10-20T14:15:00Z" }, end: { dateTime: "2099-10-20T15:00:00Z" } },
+          ],
+        },
+      ],
+    ]);
+
+    expect(await releaseBookedHolds(provider)).toEqual([]);
+    expect(calls.some((c) => c.method === "DELETE")).toBe(false);
+    expect(await listHoldGroups()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,242 @@
+import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+
+const TEST_CONFIG_DIR = "/tmp/superhuman-cli-batch-test";
+process.env.SUPERHUMAN_CLI_CONFIG_DIR = TEST_CONFIG_DIR;
+
+import { gmailBatch, msgraphBatch, parseGmailBatchResponse } from "../batch";
+import { configureHttpClient, resetHttpClient } from "../http-client";
+import { CachedTokenProvider } from "../connection-provider";
+import { snoozeThreadViaProvider } from "../snooze";
+import {
+  searchGmailDirect,
+  getThreadSummaryDirect,
+  clearTokenCache,
+  setTokenCacheForTest,
+  type TokenInfo,
+} from "../token-api";
+import { gmailBatchResponse } from "./gmail-batch-mock";
+
+function createTestToken(overrides: Partial<TokenInfo> = {}): TokenInfo {
+  return {
+    accessToken: "test-access-token",
+    email: "me@example.com",
+    expires: Date.now() + 3600000,
+    isMicrosoft: false,
+    ...overrides,
+  };
+}
+
+function response(body: unknown, status = 200) {
+  return Promise.resolve(new Response(JSON.stringify(body), { status }));
+}
+
+function gmailThread(id: string) {
+  return {
+    id,
+    messages: [
+      {
+        id: `${id}-m1`,
+        threadId: id,
+        labelIds: ["INBOX"],
+        snippet: `Snippet ${id}`,
+        payload: {
+          headers: [
+            { name: "Subject", value: `Subject ${id}` },
+            { name: "From", value: "Alice <alice@example.com>" },
+            { name: "Date", value: "Tue, 4 Feb 2025 10:00:00 +0000" },
+          ],
+        },
+      },
+    ],
+  };
+}
+
+describe("batch", () => {
+  const originalFetch = globalThis.fetch;
+  let sleeps: number[];
+
+  beforeEach(async () => {
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+    await mkdir(TEST_CONFIG_DIR, { recursive: true });
+    clearTokenCache();
+    resetHttpClient();
+    sleeps = [];
+    configureHttpClient({ sleep: async (ms) => { sleeps.push(ms); } });
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    resetHttpClient();
+    clearTokenCache();
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+  });
+
+  test("benchmark: search --limit 50 takes two round-trips against a local server", async () => {
+    const LATENCY_MS = 15;
+    const requests: string[] = [];
+    const server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const url = new URL(req.url);
+        requests.push(url.pathname);
+        await Bun.sleep(LATENCY_MS);
+
+        if (url.pathname === "/gmail/v1/users/me/messages") {
+          return Response.json({
+            messages: Array.from({ length: 50 }, (_, i) => ({ id: `m${i}`, threadId: `t${i}` })),
+          });
+        }
+        if (url.pathname === "/batch/gmail/v1") {
+          return gmailBatchResponse({ body: await req.text() }, (path) => ({
+            body: gmailThread(path.match(/\/threads\/(\w+)/)![1]!),
+          }));
+        }
+        const thread = url.pathname.match(/\/threads\/(\w+)$/);
+        if (thread) {
+          return Response.json(gmailThread(thread[1]!));
+        }
+        return new Response("{}", { status: 404 });
+      },
+    });
+
+    try {
+      globalThis.fetch = ((url: string, init?: RequestInit) =>
+        originalFetch(url.replace("https://www.googleapis.com", server.url.origin), init)) as typeof fetch;
+      const token = createTestToken();
+
+      // Before batching: list, then one request per thread
+      let start = performance.now();
+      const ids = Array.from({ length: 50 }, (_, i) => `t${i}`);
+      for (const id of ids) {
+        await getThreadSummaryDirect(token, id);
+      }
+      const sequentialMs = performance.now() - start;
+
+      requests.length = 0;
+      start = performance.now();
+      const threads = await searchGmailDirect(token, "from:alice", 50);
+      const batchedMs = performance.now() - start;
+
+      expect(threads).toHaveLength(50);
+      expect(threads[49]).toMatchObject({ id: "t49", subject: "Subject t49" });
+      expect(requests).toEqual(["/gmail/v1/users/me/messages", "/batch/gmail/v1"]);
+      expect(batchedMs).toBeLessThan(sequentialMs / 5);
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test("splits Gmail batches at 50 calls and keeps request order", async () => {
+    const batchSizes: number[] = [];
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      expect(url).toBe("https://www.googleapis.com/batch/gmail/v1");
+      batchSizes.push((String(init!.body).match(/^GET /gm) || []).length);
+      return gmailBatchResponse(init, (path) =>
+        path.includes("t7") ? { status: 404, body: { error: { code: 404 } } } : { body: { path } }
+      );
+    }) as unknown as typeof fetch;
+
+    const responses = await gmailBatch(
+      createTestToken(),
+      Array.from({ length: 70 }, (_, i) => ({ method: "GET" as const, path: `/threads/t${i}?format=minimal` }))
+    );
+
+    expect(batchSizes).toEqual([50, 20]);
+    expect(responses).toHaveLength(70);
+    expect(responses![7]!.status).toBe(404);
+    expect(responses![69]).toEqual({ status: 200, body: { path: "/threads/t69?format=minimal" } });
+  });
+
+  test("resends only throttled MS Graph items after Retry-After", async () => {
+    const token = createTestToken({ isMicrosoft: true });
+    const batches: string[][] = [];
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      const body = JSON.parse(init!.body as string);
+      batches.push(body.requests.map((r: { url: string }) => r.url));
+      return response({
+        responses: body.requests.map((r: { id: string; url: string }) =>
+          r.url !== "/me/messages/a" && batches.length === 1
+            ? { id: r.id, status: 429, headers: { "Retry-After": "3" }, body: { error: { code: "TooManyRequests" } } }
+            : { id: r.id, status: 200, body: { id: r.url.split("/").pop() } }
+        ),
+      });
+    }) as unknown as typeof fetch;
+
+    const responses = await msgraphBatch(
+      token,
+      ["a", "b", "c"].map((id) => ({ method: "GET" as const, path: `/me/messages/${id}` }))
+    );
+
+    expect(batches).toEqual([["/me/messages/a", "/me/messages/b", "/me/messages/c"], ["/me/messages/b", "/me/messages/c"]]);
+    expect(sleeps).toEqual([3000]);
+    expect(responses!.map((r) => r.body.id)).toEqual(["a", "b", "c"]);
+  });
+
+  test("snooze resolves MS Graph conversation messages in one $batch call", async () => {
+    const token = createTestToken({ email: "me@outlook.com", isMicrosoft: true, idToken: "sh-id-token" });
+    setTokenCacheForTest(token.email, token);
+    const graphCalls: string[] = [];
+    const reminders: any[] = [];
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      const body = init?.body ? JSON.parse(init.body as string) : undefined;
+      if (url.endsWith("/$batch")) {
+        graphCalls.push(url);
+        return response({
+          responses: body.requests.map((r: { id: string; url: string }) => {
+            const conversationId = decodeURIComponent(r.url).match(/conversationId eq '([^']+)'/)![1]!;
+            return { id: r.id, status: 200, body: { value: [{ id: `${conversationId}-m1` }, { id: `${conversationId}-m2` }] } };
+          }),
+        });
+      }
+      if (url.endsWith("/reminders/create")) {
+        reminders.push(body.reminder);
+        return response({});
+      }
+      graphCalls.push(url);
+      return response({}, 404);
+    }) as unknown as typeof fetch;
+
+    const results = await snoozeThreadViaProvider(
+      new CachedTokenProvider(token.email),
+      ["c1", "c2", "c3"],
+      new Date(Date.now() + 86400000)
+    );
+
+    expect(results.every((r) => r.success)).toBe(true);
+    expect(graphCalls).toHaveLength(1);
+    expect(reminders.map((r) => r.messageIds)).toEqual([
+      ["c1-m1", "c1-m2"],
+      ["c2-m1", "c2-m2"],
+      ["c3-m1", "c3-m2"],
+    ]);
+  });
+
+  test("parseGmailBatchResponse reads status, body and Retry-After per item", () => {
+    const text = [
+      "--batch_x",
+      "Content-Type: application/http",
+      "Content-ID: <response-item-1>",
+      "",
+      "HTTP/1.1 429 Too Many Requests",
+      "Retry-After: 2",
+      "Content-Type: application/json",
+      "",
+      '{"error":{"code":429}}',
+      "--batch_x",
+      "Content-Type: application/http",
+      "Content-ID: <response-item-0>",
+      "",
+      "HTTP/1.1 204 No Content",
+      "",
+      "",
+      "--batch_x--",
+      "",
+    ].join("\r\n");
+
+    const responses = parseGmailBatchResponse(text, "batch_x");
+
+    expect(responses.get(0)).toEqual({ status: 204, body: null, retryAfterMs: null });
+    expect(responses.get(1)).toEqual({ status: 429, body: { error: { code: 429 } }, retryAfterMs: 2000 });
+  });
+});
@@ -0,0 +1,334 @@
+import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+
+const TEST_CONFIG_DIR = "/tmp/superhuman-cli-bulk-test";
+process.env.SUPERHUMAN_CLI_CONFIG_DIR = TEST_CONFIG_DIR;
+
+import { CachedTokenProvider } from "../connection-provider";
+import { runBulkAction, resumeBulkRun, loadBulkRun, listBulkRuns } from "../bulk";
+import { findOperation, listOperations, loadBulkSnapshots, undoOperation } from "../history";
+import {
+  clearTokenCache,
+  setTokenCacheForTest,
+  type TokenInfo,
+} from "../token-api";
+import { gmailBatchResponse } from "./gmail-batch-mock";
+
+function createTestToken(overrides: Partial<TokenInfo> = {}): TokenInfo {
+  return {
+    accessToken: "test-access-token",
+    email: "me@example.com",
+    expires: Date.now() + 3600000,
+    isMicrosoft: false,
+    ...overrides,
+  };
+}
+
+function response(body: unknown, status = 200) {
+  return Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 500 ? "Internal Server Error" : "OK",
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as Response);
+}
+
+/** 1200 Gmail messages across three list pages */
+const GMAIL_PAGES: Record<string, { messages: Array<{ id: string }>; nextPageToken?: string }> = {
+  "": { messages: Array.from({ length: 500 }, (_, i) => ({ id: `m${i}` })), nextPageToken: "p2" },
+  p2: { messages: Array.from({ length: 500 }, (_, i) => ({ id: `m${500 + i}` })), nextPageToken: "p3" },
+  p3: { messages: Array.from({ length: 200 }, (_, i) => ({ id: `m${1000 + i}` })) },
+};
+
+type Call = { url: string; body?: any };
+
+/** $batch calls that apply the action (not the undo snapshot reads) */
+function actionBatches(calls: Call[]): Call[] {
+  return calls.filter((c) => c.url.endsWith("/$batch") && !c.body.requests[0].url.includes("internetMessageId"));
+}
+
+function mockGmail(options: { failBatch?: number } = {}) {
+  const calls: Call[] = [];
+  let batches = 0;
+  globalThis.fetch = mock((url: string, init?: RequestInit) => {
+    const body = init?.body ? JSON.parse(init.body as string) : undefined;
+    calls.push({ url, body });
+    if (url.includes("/messages?q=")) {
+      const token = new URL(url).searchParams.get("pageToken") || "";
+      return response(GMAIL_PAGES[token]);
+    }
+    if (url.endsWith("/messages/batchModify")) {
+      batches++;
+      return batches === options.failBatch ? response({}, 500) : response(undefined, 204);
+    }
+    if (url.includes("format=metadata")) {
+      const id = url.match(/messages\/([^?]+)/)![1];
+      return response({ id, payload: { headers: [{ name: "Subject", value: `Subject ${id}` }, { name: "From", value: "noreply@example.com" }] } });
+    }
+    return response({}, 404);
+  }) as unknown as typeof fetch;
+  return calls;
+}
+
+describe("bulk actions", () => {
+  const originalFetch = globalThis.fetch;
+  let provider: CachedTokenProvider;
+
+  beforeEach(async () => {
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+    await mkdir(TEST_CONFIG_DIR, { recursive: true });
+    clearTokenCache();
+    const token = createTestToken();
+    setTokenCacheForTest(token.email, token);
+    provider = new CachedTokenProvider(token.email);
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+    clearTokenCache();
+  });
+
+  test("pages through every match and batch-modifies 1000 at a time", async () => {
+    const calls = mockGmail();
+    const progress: string[] = [];
+
+    const result = await runBulkAction(provider, {
+      action: "archive",
+      query: "from:noreply older_than:30d",
+      onProgress: (p) => progress.push(`${p.phase}:${p.done}`),
+    });
+
+    expect(result).toMatchObject({ success: true, matched: 1200, succeeded: 1200, failed: 0 });
+    expect(calls[0]!.url).toBe(
+      "https://www.googleapis.com/gmail/v1/users/me/messages?q=from%3Anoreply%20older_than%3A30d&maxResults=500"
+    );
+
+    const batches = calls.filter((c) => c.url.endsWith("/batchModify"));
+    expect(batches.map((b) => b.body.ids.length)).toEqual([1000, 200]);
+    expect(batches[0]!.body).toMatchObject({ addLabelIds: [], removeLabelIds: ["INBOX"] });
+    expect(progress).toEqual(["listing:500", "listing:1000", "listing:1200", "applying:0", "applying:1000", "applying:1200"]);
+
+    const run = await loadBulkRun(result.runId!);
+    expect(run).toMatchObject({ action: "archive", account: "me@example.com", listed: true, finished: true });
+    expect(run!.succeeded).toHaveLength(1200);
+  });
+
+  test("dry run lists matches with a preview and writes no journal", async () => {
+    const calls = mockGmail();
+
+    const result = await runBulkAction(provider, { action: "delete", query: "from:noreply", dryRun: true });
+
+    expect(result.success).toBe(true);
+    expect(result.matched).toBe(1200);
+    expect(result.runId).toBeUndefined();
+    expect(result.sample).toHaveLength(10);
+    expect(result.sample![0]).toEqual({ id: "m0", from: "noreply@example.com", subject: "Subject m0" });
+    expect(calls.some((c) => c.url.endsWith("/batchModify"))).toBe(false);
+    expect(await listBulkRuns()).toEqual([]);
+  });
+
+  test("label actions require --label", async () => {
+    mockGmail();
+    const result = await runBulkAction(provider, { action: "label", query: "x" });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("--label is required");
+  });
+
+  test("a run that fails halfway resumes with only the remaining messages", async () => {
+    mockGmail({ failBatch: 2 });
+
+    const first = await runBulkAction(provider, { action: "label", labelId: "Label_7", query: "from:billing" });
+
+    expect(first.success).toBe(false);
+    expect(first.error).toContain("Gmail API error: 500");
+    expect(first).toMatchObject({ matched: 1200, succeeded: 1000, failed: 200 });
+
+    const calls = mockGmail();
+    const resumed = await resumeBulkRun(provider);
+
+    expect(resumed).toMatchObject({ success: true, runId: first.runId, matched: 1200, succeeded: 1200, failed: 0 });
+    // No re-listing, and only the 200 messages of the failed batch are retried
+    expect(calls.some((c) => c.url.includes("/messages?q="))).toBe(false);
+    const batches = calls.filter((c) => c.url.endsWith("/batchModify"));
+    expect(batches).toHaveLength(1);
+    expect(batches[0]!.body.ids[0]).toBe("m1000");
+    expect(batches[0]!.body.addLabelIds).toEqual(["Label_7"]);
+
+    const run = await loadBulkRun(first.runId!);
+    expect(run!.finished).toBe(true);
+    expect(run!.failed).toEqual([]);
+
+    const again = await resumeBulkRun(provider);
+    expect(again.error).toBe("No unfinished bulk run to resume");
+  });
+
+  test("MS Graph applies actions through $batch and tracks per-message failures", async () => {
+    const token = createTestToken({ email: "me@outlook.com", isMicrosoft: true });
+    setTokenCacheForTest(token.email, token);
+    const calls: Call[] = [];
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      const body = init?.body ? JSON.parse(init.body as string) : undefined;
+      calls.push({ url, body });
+      if (url.includes("/me/messages?$search=")) {
+        return response({ value: Array.from({ length: 25 }, (_, i) => ({ id: `AAMk${i}` })) });
+      }
+      if (url.endsWith("/me/mailFolders/archive")) {
+        return response({ id: "archive-folder-id", displayName: "Archive" });
+      }
+      if (url.endsWith("/$batch")) {
+        return response({
+          responses: body.requests.map((r: { id: string; method: string; url: string }) =>
+            r.method === "GET"
+              ? { id: r.id, status: 200, body: { internetMessageId: `<${r.url.split(/[/?]/)[3]}@example.com>`, parentFolderId: "inbox" } }
+              : { id: r.id, status: r.url.includes("AAMk3/") ? 404 : 201 }
+          ),
+        });
+      }
+      return response({}, 404);
+    }) as unknown as typeof fetch;
+
+    const result = await runBulkAction(new CachedTokenProvider(token.email), { action: "archive", query: "newsletter" });
+
+    expect(result).toMatchObject({ success: false, matched: 25, succeeded: 24, failed: 1 });
+    const batches = actionBatches(calls);
+    expect(batches.map((b) => b.body.requests.length)).toEqual([20, 5]);
+    expect(batches[0]!.body.requests[0]).toEqual({
+      id: "0",
+      method: "POST",
+      url: "/me/messages/AAMk0/move",
+      body: { destinationId: "archive-folder-id" },
+      headers: { "Content-Type": "application/json" },
+    });
+
+    const run = await loadBulkRun(result.runId!);
+    expect(run!.failed).toEqual(["AAMk3"]);
+    expect(run!.finished).toBe(false);
+
+    // Both batches land in one operation, without the failed message
+    const operations = await listOperations();
+    expect(operations).toHaveLength(1);
+    expect(operations[0]).toMatchObject({ id: result.operationId, kind: "archive", bulkRunId: result.runId, messageCount: 24 });
+    const snapshots = await loadBulkSnapshots(operations[0]!);
+    expect(snapshots).toHaveLength(24);
+    expect(snapshots[0]).toEqual({
+      messageId: "AAMk0",
+      state: { internetMessageId: "<AAMk0@example.com>", parentFolderId: "inbox", isRead: false, flagStatus: "notFlagged", categories: [] },
+    });
+  });
+
+  test("a Gmail bulk run is logged once and undo restores only what it changed", async () => {
+    const inbox = new Set(["m1", "m3"]);
+    const modifies: any[] = [];
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      if (url.includes("/messages?q=")) return response({ messages: [{ id: "m1" }, { id: "m2" }, { id: "m3" }] });
+      if (url.includes("/batch/gmail/v1")) {
+        return gmailBatchResponse(init, (path) => {
+          const id = path.match(/\/messages\/(\w+)/)![1]!;
+          return { body: { id, labelIds: inbox.has(id) ? ["INBOX", "UNREAD"] : ["UNREAD"] } };
+        });
+      }
+      if (url.endsWith("/messages/batchModify")) {
+        modifies.push(JSON.parse(init!.body as string));
+        return response(undefined, 204);
+      }
+      return response({}, 404);
+    }) as unknown as typeof fetch;
+
+    const result = await runBulkAction(provider, { action: "archive", query: "older_than:30d" });
+    expect(result.operationId).toBeDefined();
+
+    const operation = await findOperation(result.operationId!);
+    expect(await loadBulkSnapshots(operation!)).toEqual([
+      { messageId: "m1", labelIds: ["INBOX"] },
+      { messageId: "m2", labelIds: [] },
+      { messageId: "m3", labelIds: ["INBOX"] },
+    ]);
+
+    modifies.length = 0;
+    const undone = await undoOperation(provider, operation!);
+
+    expect(undone).toEqual({ success: true, restored: ["m1", "m3", "m2"] });
+    expect(modifies).toEqual([
+      { ids: ["m1", "m3"], addLabelIds: ["INBOX"], removeLabelIds: [] },
+      { ids: ["m2"], addLabelIds: [], removeLabelIds: ["INBOX"] },
+    ]);
+  });
+
+  /** Outlook account with a "Receipts" folder, a "Finance" category and one match per entry in categories */
+  function mockOutlookLabels(categories: Record<string, string[]>) {
+    const token = createTestToken({ email: "me@outlook.com", isMicrosoft: true });
+    setTokenCacheForTest(token.email, token);
+    const calls: Call[] = [];
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      const body = init?.body ? JSON.parse(init.body as string) : undefined;
+      calls.push({ url, body });
+      if (url.includes("/me/messages?$search=")) {
+        return response({ value: Object.keys(categories).map((id) => ({ id })) });
+      }
+      if (url.includes("/me/mailFolders?")) {
+        return response({ value: [{ id: "receipts-id", displayName: "Receipts", childFolderCount: 0 }] });
+      }
+      if (url.endsWith("/me/outlook/masterCategories")) {
+        return response({ value: [{ id: "cat-1", displayName: "Finance", color: "preset0" }] });
+      }
+      if (url.endsWith("/$batch")) {
+        return response({
+          responses: body.requests.map((r: { id: string; method: string; url: string }) => ({
+            id: r.id,
+            status: 200,
+            body: r.method === "GET" ? { categories: categories[r.url.match(/messages\/([^?]+)/)![1]!] } : {},
+          })),
+        });
+      }
+      return response({}, 404);
+    }) as unknown as typeof fetch;
+    return { provider: new CachedTokenProvider(token.email), calls };
+  }
+
+  test("MS Graph bulk label adds a category to each message's existing categories", async () => {
+    const { provider, calls } = mockOutlookLabels({ m1: [], m2: ["Finance"], m3: ["Travel"] });
+
+    const result = await runBulkAction(provider, { action: "label", query: "invoice", labelId: "cat-1" });
+
+    expect(result).toMatchObject({ success: true, matched: 3, succeeded: 3, failed: 0 });
+    const [reads, writes] = actionBatches(calls);
+    expect(reads!.body.requests.map((r: any) => r.url)).toEqual([
+      "/me/messages/m1?$select=categories",
+      "/me/messages/m2?$select=categories",
+      "/me/messages/m3?$select=categories",
+    ]);
+    // m2 already has the category and is left alone
+    expect(writes!.body.requests.map((r: any) => [r.method, r.url, r.body])).toEqual([
+      ["PATCH", "/me/messages/m1", { categories: ["Finance"] }],
+      ["PATCH", "/me/messages/m3", { categories: ["Travel", "Finance"] }],
+    ]);
+  });
+
+  test("MS Graph bulk unlabel removes a category; folder labels move messages", async () => {
+    const { provider, calls } = mockOutlookLabels({ m1: ["Finance", "Travel"], m2: [], m3: ["Finance"] });
+
+    const removed = await runBulkAction(provider, { action: "unlabel", query: "invoice", labelId: "Finance" });
+    expect(removed).toMatchObject({ success: true, succeeded: 3 });
+    const writes = actionBatches(calls)[1]!;
+    expect(writes.body.requests.map((r: any) => [r.url, r.body])).toEqual([
+      ["/me/messages/m1", { categories: ["Travel"] }],
+      ["/me/messages/m3", { categories: [] }],
+    ]);
+
+    calls.length = 0;
+    const moved = await runBulkAction(provider, { action: "label", query: "invoice", labelId: "receipts-id" });
+    expect(moved).toMatchObject({ success: true, succeeded: 3 });
+    const [batch] = actionBatches(calls);
+    expect(batch!.body.requests.map((r: any) => [r.method, r.url, r.body])).toEqual([
+      ["POST", "/me/messages/m1/move", { destinationId: "receipts-id" }],
+      ["POST", "/me/messages/m2/move", { destinationId: "receipts-id" }],
+      ["POST", "/me/messages/m3/move", { destinationId: "receipts-id" }],
+    ]);
+
+    const folderUnlabel = await runBulkAction(provider, { action: "unlabel", query: "invoice", labelId: "receipts-id" });
+    expect(folderUnlabel.success).toBe(false);
+    expect(folderUnlabel.error).toContain("always sit in a folder");
+  });
+});
@@ -0,0 +1,221 @@
+import { test, expect, describe, afterEach } from "bun:test";
+import { exportEvents, importIcs } from "../calendar";
+import { parseIcs } from "../ics";
+import { createTestToken, providerFor, mockRoutes, type Route } from "./calendar-mock";
+
+const window = { timeMin: new Date("2026-10-19T00:00:00Z"), timeMax: new Date("2026-11-18T00:00:00Z") };
+
+describe("exportEvents", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("Google: writes each series once from its master event", async () => {
+    const instance = (id: string, day: string) => ({
+      id,
+      iCalUID: "standup@google.com",
+      recurringEventId: "standup",
+      summary: "Standup",
+      start: { dateTime: `2026-10-${day}T09:00:00-04:00`, timeZone: "America/New_York" },
+      end: { dateTime: `2026-10-${day}T09:15:00-04:00`, timeZone: "America/New_York" },
+    });
+    const calls = mockRoutes([
+      [
+        "/events?timeMin",
+        {
+          items: [
+            instance("standup_20261020", "20"),
+            {
+              id: "lunch",
+              iCalUID: "lunch@google.com",
+              summary: "Lunch; with Sam",
+              start: { dateTime: "2026-10-21T16:00:00Z" },
+              end: { dateTime: "2026-10-21T17:00:00Z" },
+              attendees: [{ email: "sam@example.com", displayName: "Sam", responseStatus: "tentative" }],
+            },
+            { id: "gone", status: "cancelled", start: { date: "2026-10-22" }, end: { date: "2026-10-23" } },
+            instance("standup_20261027", "27"),
+          ],
+        },
+      ],
+      [
+        "/events/standup",
+        {
+          ...instance("standup", "20"),
+          recurringEventId: undefined,
+          recurrence: ["RRULE:FREQ=WEEKLY;BYDAY=TU"],
+        },
+      ],
+    ]);
+
+    const result = await exportEvents(providerFor(createTestToken()), window);
+
+    expect(result.success).toBe(true);
+    expect(result.count).toBe(2);
+    expect(calls.map((c) => c.url.split("?")[0])).toEqual([
+      "https://www.googleapis.com/calendar/v3/calendars/primary/events",
+      "https://www.googleapis.com/calendar/v3/calendars/primary/events/standup",
+    ]);
+
+    const events = parseIcs(result.ics).events;
+    expect(events.map((e) => [e.uid, e.start, e.recurrence])).toEqual([
+      ["standup@google.com", { dateTime: "2026-10-20T09:00:00", timeZone: "America/New_York" }, ["RRULE:FREQ=WEEKLY;BYDAY=TU"]],
+      ["lunch@google.com", { dateTime: "2026-10-21T16:00:00Z" }, undefined],
+    ]);
+    expect(events[1]!.summary).toBe("Lunch; with Sam");
+    expect(events[1]!.attendees).toEqual([{ email: "sam@example.com", name: "Sam", partstat: "TENTATIVE" }]);
+    expect(result.ics).toContain("BEGIN:VTIMEZONE\r\nTZID:America/New_York");
+  });
+
+  test("Microsoft: reads Graph's UTC times and converts its recurrence to an RRULE", async () => {
+    mockRoutes([
+      ["isDefaultCalendar", { value: [{ id: "cal1" }] }],
+      [
+        "/calendarView",
+        {
+          value: [
+            {
+              id: "ev1",
+              iCalUId: "040000008200E00074C5B7101A82E008",
+              subject: "Review",
+              start: { dateTime: "2026-10-20T14:00:00.0000000", timeZone: "UTC" },
+              end: { dateTime: "2026-10-20T15:00:00.0000000", timeZone: "UTC" },
+              recurrence: {
+                pattern: { type: "relativeMonthly", interval: 1, daysOfWeek: ["tuesday"], index: "third" },
+                range: { type: "numbered", startDate: "2026-10-20", numberOfOccurrences: 6 },
+              },
+            },
+          ],
+        },
+      ],
+    ]);
+
+    const result = await exportEvents(providerFor(createTestToken({ isMicrosoft: true })), window);
+
+    const [event] = parseIcs(result.ics).events;
+    expect(event!.uid).toBe("040000008200E00074C5B7101A82E008");
+    expect(event!.start).toEqual({ dateTime: "2026-10-20T14:00:00Z" });
+    expect(event!.recurrence).toEqual(["RRULE:FREQ=MONTHLY;BYDAY=3TU;COUNT=6"]);
+  });
+});
+
+describe("importIcs", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const ICS = [
+    "BEGIN:VCALENDAR",
+    "BEGIN:VEVENT",
+    "UID:new@example.com",
+    "SUMMARY:Kickoff",
+    "DTSTART;TZID=Europe/Berlin:20261020T100000",
+    "DTEND;TZID=Europe/Berlin:20261020T110000",
+    "RRULE:FREQ=WEEKLY;COUNT=4",
+    "ATTENDEE;CN=Sam:mailto:sam@example.com",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:moved@example.com",
+    "SUMMARY:Review",
+    "DTSTART:20261021T150000Z",
+    "DTEND:20261021T160000Z",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:same@example.com",
+    "SUMMARY:Lunch",
+    "DTSTART:20261022T120000Z",
+    "DTEND:20261022T130000Z",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:new@example.com",
+    "RECURRENCE-ID;TZID=Europe/Berlin:20261027T100000",
+    "SUMMARY:Kickoff (moved)",
+    "DTSTART;TZID=Europe/Berlin:20261027T140000",
+    "DTEND;TZID=Europe/Berlin:20261027T150000",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+  const existing = [
+    ["iCalUID=new%40example.com", { items: [] }],
+    [
+      "iCalUID=moved%40example.com",
+      { items: [{ id: "ev2", iCalUID: "moved@example.com", summary: "Review", start: { dateTime: "2026-10-21T14:00:00Z" }, end: { dateTime: "2026-10-21T15:00:00Z" } }] },
+    ],
+    [
+      "iCalUID=same%40example.com",
+      // Same instant, written with an offset
+      { items: [{ id: "ev3", iCalUID: "same@example.com", summary: "Lunch", start: { dateTime: "2026-10-22T14:00:00+02:00" }, end: { dateTime: "2026-10-22T15:00:00+02:00" } }] },
+    ],
+    ["/events/import", { id: "ev1" }],
+  ] as Route[];
+
+  test("Google: creates new events under their UID, updates changed ones and skips the rest", async () => {
+    const calls = mockRoutes(existing);
+
+    const result = await importIcs(providerFor(createTestToken()), ICS);
+
+    expect(result.success).toBe(true);
+    expect(result.changes.map((c) => [c.uid, c.action, c.eventId])).toEqual([
+      ["new@example.com", "create", "ev1"],
+      ["moved@example.com", "update", "ev2"],
+      ["same@example.com", "unchanged", "ev3"],
+      ["new@example.com", "skip", undefined],
+    ]);
+
+    const created = calls.find((c) => c.url.endsWith("/calendars/primary/events/import"))!;
+    expect(created.body).toEqual({
+      summary: "Kickoff",
+      start: { dateTime: "2026-10-20T10:00:00", timeZone: "Europe/Berlin" },
+      end: { dateTime: "2026-10-20T11:00:00", timeZone: "Europe/Berlin" },
+      attendees: [{ email: "sam@example.com", displayName: "Sam" }],
+      recurrence: ["RRULE:FREQ=WEEKLY;COUNT=4"],
+      iCalUID: "new@example.com",
+    });
+
+    const updated = calls.find((c) => c.method === "PATCH")!;
+    expect(updated.url).toBe("https://www.googleapis.com/calendar/v3/calendars/primary/events/ev2");
+    expect(updated.body.start).toEqual({ dateTime: "2026-10-21T15:00:00", timeZone: "UTC" });
+  });
+
+  test("dry run only looks events up", async () => {
+    const calls = mockRoutes(existing);
+
+    const result = await importIcs(providerFor(createTestToken()), ICS, { dryRun: true });
+
+    expect(result.changes.map((c) => c.action)).toEqual(["create", "update", "unchanged", "skip"]);
+    expect(calls.every((c) => c.method === "GET")).toBe(true);
+  });
+
+  test("Microsoft: stores the UID in an extended property and leaves attendees out", async () => {
+    const calls = mockRoutes([
+      ["/me/events?$filter", { value: [] }],
+      ["/me/calendars/cal1/events", { id: "ev1" }],
+      ["/me/calendar", { id: "cal1" }],
+    ]);
+
+    const result = await importIcs(providerFor(createTestToken({ isMicrosoft: true })), ICS.replace(/BEGIN:VEVENT\r\nUID:moved[\s\S]*(?=END:VCALENDAR)/, ""));
+
+    expect(result.changes.map((c) => [c.action, c.eventId])).toEqual([["create", "ev1"]]);
+    const created = calls.find((c) => c.method === "POST")!;
+    expect(created.body.attendees).toEqual([]);
+    expect(created.body.singleValueExtendedProperties).toEqual([
+      { id: "String {00020329-0000-0000-C000-000000000046} Name SuperhumanCliIcsUid", value: "new@example.com" },
+    ]);
+    expect(created.body.recurrence).toEqual({
+      pattern: { interval: 1, type: "weekly", daysOfWeek: ["tuesday"], firstDayOfWeek: "sunday" },
+      range: { type: "numbered", startDate: "2026-10-20", recurrenceTimeZone: "Europe/Berlin", numberOfOccurrences: 4 },
+    });
+  });
+
+  test("rejects files without events", async () => {
+    const calls = mockRoutes([]);
+    const result = await importIcs(providerFor(createTestToken()), "BEGIN:VCALENDAR\r\nEND:VCALENDAR");
+    expect(result).toEqual({ success: false, changes: [], error: "No events found in the file" });
+    expect(calls).toHaveLength(0);
+  });
+});
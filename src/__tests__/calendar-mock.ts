@@ -0,0 +1,62 @@
+/**
+ * Fixtures shared by the calendar tests: a token, a ConnectionProvider
+ * around it, and a fetch mock answering by URL.
+ */
+
+import { mock } from "bun:test";
+import type { ConnectionProvider } from "../connection-provider";
+import type { TokenInfo } from "../token-api";
+
+export function createTestToken(overrides: Partial<TokenInfo> = {}): TokenInfo {
+  return {
+    accessToken: "test-access-token",
+    email: "me@example.com",
+    expires: Date.now() + 3600000,
+    isMicrosoft: false,
+    ...overrides,
+  };
+}
+
+export function providerFor(token: TokenInfo): ConnectionProvider {
+  return {
+    getToken: async () => token,
+    getCurrentEmail: async () => token.email,
+    getAccountInfo: async () => ({ email: token.email, isMicrosoft: !!token.isMicrosoft, provider: token.isMicrosoft ? "microsoft" : "google" }),
+    disconnect: async () => {},
+  };
+}
+
+export interface Call {
+  url: string;
+  method: string;
+  body?: any;
+}
+
+/**
+ * A mocked response: the URL substring to match, optionally prefixed with
+ * the method ("GET /events/evt1"), the JSON data and the status (default 200)
+ */
+export type Route = [string, unknown, number?];
+
+/**
+ * Mock fetch answering by route (first match), recording every request.
+ * Unmatched DELETEs get 204 and anything else unmatched 200 with {}.
+ * 202 and 204 responses have no body.
+ */
+export function mockRoutes(routes: Route[]): Call[] {
+  const calls: Call[] = [];
+  globalThis.fetch = mock((url: string, init?: RequestInit) => {
+    const method = init?.method || "GET";
+    calls.push({ url, method, body: init?.body ? JSON.parse(init.body as string) : undefined });
+
+    const route = routes.find(([key]) => {
+      const [, routeMethod, part] = key.match(/^(?:([A-Z]+) )?(.*)$/)!;
+      return (!routeMethod || routeMethod === method) && url.includes(part!);
+    });
+    const [data, status] = route
+      ? [route[1], route[2] ?? 200]
+      : [{}, method === "DELETE" ? 204 : 200];
+    return Promise.resolve(new Response(status === 202 || status === 204 ? null : JSON.stringify(data), { status }));
+  }) as unknown as typeof fetch;
+  return calls;
+}
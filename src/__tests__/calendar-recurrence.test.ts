@@ -0,0 +1,213 @@
+import { test, expect, describe, afterEach, mock } from "bun:test";
+import { parseRepeat, createEvent, updateEventInScope, deleteEventInScope, toZonedDateTime } from "../calendar";
+import { createTestToken, providerFor, mockRoutes, type Route } from "./calendar-mock";
+
+describe("parseRepeat", () => {
+  test("parses frequencies, days and ends", () => {
+    expect(parseRepeat("weekly on Mon,Wed until 2026-12-31", { timeZone: "America/New_York" })).toEqual([
+      // The end of Dec 31 in New York
+      "RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20270101T045959Z",
+    ]);
+    expect(parseRepeat("weekly until 2026-12-31", { allDay: true })).toEqual(["RRULE:FREQ=WEEKLY;UNTIL=20261231"]);
+    expect(parseRepeat("Daily 10 times")).toEqual(["RRULE:FREQ=DAILY;COUNT=10"]);
+    expect(parseRepeat("weekdays")).toEqual(["RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"]);
+    expect(parseRepeat("every 2 weeks on tue and thu")).toEqual(["RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH"]);
+    expect(parseRepeat("every other month")).toEqual(["RRULE:FREQ=MONTHLY;INTERVAL=2"]);
+    expect(parseRepeat("every Monday")).toEqual(["RRULE:FREQ=WEEKLY;BYDAY=MO"]);
+    expect(parseRepeat("monthly on the 15th")).toEqual(["RRULE:FREQ=MONTHLY;BYMONTHDAY=15"]);
+    expect(parseRepeat("monthly on the last Friday for 6 times")).toEqual(["RRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=6"]);
+  });
+
+  test("rejects rules it doesn't understand", () => {
+    expect(parseRepeat("fortnightly")).toBeNull();
+    expect(parseRepeat("weekly on Funday")).toBeNull();
+    expect(parseRepeat("daily on Mon")).toBeNull();
+    expect(parseRepeat("monthly on the 32nd")).toBeNull();
+    expect(parseRepeat("yearly on the 15th")).toBeNull();
+    expect(parseRepeat("every 0 days")).toBeNull();
+  });
+
+  test("Outlook gets the Graph pattern, ending on the date in the series' zone", async () => {
+    const calls = mockRoutes([
+      ["POST /me/calendars/cal1/events", { id: "ev1" }],
+      ["GET /me/calendar", { id: "cal1" }],
+    ]);
+
+    const result = await createEvent(providerFor(createTestToken({ isMicrosoft: true })), {
+      summary: "Standup",
+      start: toZonedDateTime(new Date("2026-10-19T13:30:00Z"), "America/New_York"),
+      end: toZonedDateTime(new Date("2026-10-19T13:45:00Z"), "America/New_York"),
+      recurrence: parseRepeat("weekly on Mon,Wed until 2026-12-31", { timeZone: "America/New_York" })!,
+    });
+
+    expect(result.success).toBe(true);
+    const body = calls.find((c) => c.method === "POST")!.body;
+    expect(body.start).toEqual({ dateTime: "2026-10-19T09:30:00", timeZone: "America/New_York" });
+    expect(body.recurrence).toEqual({
+      pattern: { interval: 1, type: "weekly", daysOfWeek: ["monday", "wednesday"], firstDayOfWeek: "sunday" },
+      range: { type: "endDate", startDate: "2026-10-19", recurrenceTimeZone: "America/New_York", endDate: "2026-12-31" },
+    });
+  });
+});
+
+describe("scoped changes to recurring events", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  // Weekly on Mondays 9:00-9:30 New York, starting Oct 5
+  const series = {
+    id: "standup",
+    summary: "Standup",
+    start: { dateTime: "2026-10-05T09:00:00-04:00", timeZone: "America/New_York" },
+    end: { dateTime: "2026-10-05T09:30:00-04:00", timeZone: "America/New_York" },
+    recurrence: ["RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=10"],
+    attendees: [{ email: "sam@example.com", responseStatus: "accepted" }],
+  };
+  // The Oct 19 occurrence, already moved to 9:15
+  const occurrence = {
+    id: "standup_20261019T130000Z",
+    recurringEventId: "standup",
+    summary: "Standup",
+    start: { dateTime: "2026-10-19T09:15:00-04:00", timeZone: "America/New_York" },
+    end: { dateTime: "2026-10-19T09:45:00-04:00", timeZone: "America/New_York" },
+    originalStartTime: { dateTime: "2026-10-19T09:00:00-04:00", timeZone: "America/New_York" },
+  };
+  const googleRoutes: Route[] = [
+    ["GET /events/standup_20261019T130000Z", occurrence],
+    ["GET /events/standup/instances", {
+      items: [
+        { id: "standup_20261005T130000Z", start: { dateTime: "2026-10-05T09:00:00-04:00" } },
+        { id: "standup_20261012T130000Z", start: { dateTime: "2026-10-12T09:00:00-04:00" } },
+      ],
+    }],
+    ["GET /events/standup", series],
+    ["POST /calendars/primary/events", { id: "standup2" }],
+    ["PATCH /events/standup", { id: "standup" }],
+  ];
+
+  test("instance: patches just the occurrence", async () => {
+    const calls = mockRoutes(googleRoutes);
+
+    const result = await updateEventInScope(providerFor(createTestToken()), occurrence.id, { summary: "Demo day" }, "instance");
+
+    expect(result).toEqual({ success: true, eventId: occurrence.id });
+    expect(calls.filter((c) => c.method !== "GET").map((c) => [c.method, c.url])).toEqual([
+      ["PATCH", `https://www.googleapis.com/calendar/v3/calendars/primary/events/${occurrence.id}`],
+    ]);
+  });
+
+  test("instance: refuses the series ID", async () => {
+    mockRoutes(googleRoutes);
+    const result = await deleteEventInScope(providerFor(createTestToken()), "standup", "instance");
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("whole series");
+  });
+
+  test("series: moves the series by as much as the occurrence moves", async () => {
+    const calls = mockRoutes(googleRoutes);
+
+    // From 9:15 to 10:15 on Oct 19
+    const result = await updateEventInScope(providerFor(createTestToken()), occurrence.id, {
+      start: { dateTime: "2026-10-19T14:15:00.000Z" },
+      end: { dateTime: "2026-10-19T14:45:00.000Z" },
+    }, "series");
+
+    expect(result).toEqual({ success: true, eventId: "standup" });
+    const patch = calls.find((c) => c.method === "PATCH")!;
+    expect(patch.url).toBe("https://www.googleapis.com/calendar/v3/calendars/primary/events/standup");
+    expect(patch.body).toEqual({
+      start: { dateTime: "2026-10-05T10:00:00", timeZone: "America/New_York" },
+      end: { dateTime: "2026-10-05T10:30:00", timeZone: "America/New_York" },
+    });
+  });
+
+  test("following: ends the series before the occurrence and continues it as a new series", async () => {
+    const calls = mockRoutes(googleRoutes);
+
+    const result = await updateEventInScope(providerFor(createTestToken()), occurrence.id, { summary: "Sync" }, "following");
+
+    expect(result).toEqual({ success: true, eventId: "standup2" });
+    const writes = calls.filter((c) => c.method !== "GET");
+    expect(writes.map((c) => c.method)).toEqual(["POST", "PATCH"]);
+    // Two occurrences came before, so 8 of the 10 remain
+    expect(writes[0]!.body).toEqual({
+      summary: "Sync",
+      start: { dateTime: "2026-10-19T09:00:00", timeZone: "America/New_York" },
+      end: { dateTime: "2026-10-19T09:30:00", timeZone: "America/New_York" },
+      attendees: [{ email: "sam@example.com", displayName: "" }],
+      recurrence: ["RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=8"],
+    });
+    expect(writes[1]!.url).toBe("https://www.googleapis.com/calendar/v3/calendars/primary/events/standup");
+    // One second before the original 9:00 slot
+    expect(writes[1]!.body).toEqual({ recurrence: ["RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20261019T125959Z"] });
+  });
+
+  test("following: removes the new series if the original can't be ended", async () => {
+    const calls = mockRoutes(googleRoutes);
+    const fetchMock = globalThis.fetch;
+    globalThis.fetch = mock((url: string, init?: RequestInit) =>
+      init?.method === "PATCH" ? Promise.resolve(new Response("{}", { status: 401 })) : fetchMock(url, init)
+    ) as unknown as typeof fetch;
+
+    const result = await updateEventInScope(providerFor(createTestToken()), occurrence.id, { summary: "Sync" }, "following");
+
+    expect(result).toEqual({ success: false, error: "Failed to end the original series" });
+    expect(calls.filter((c) => c.method === "DELETE").map((c) => c.url)).toEqual([
+      "https://www.googleapis.com/calendar/v3/calendars/primary/events/standup2",
+    ]);
+  });
+
+  test("following on the first occurrence deletes the whole series", async () => {
+    const calls = mockRoutes([
+      ["GET /events/standup_20261005T130000Z", { ...occurrence, id: "standup_20261005T130000Z", originalStartTime: series.start }],
+      ["GET /events/standup", series],
+    ]);
+
+    const result = await deleteEventInScope(providerFor(createTestToken()), "standup_20261005T130000Z", "following");
+
+    expect(result).toEqual({ success: true, eventId: "standup" });
+    expect(calls.filter((c) => c.method === "DELETE").map((c) => c.url)).toEqual([
+      "https://www.googleapis.com/calendar/v3/calendars/primary/events/standup",
+    ]);
+  });
+
+  test("Microsoft: following ends the series on the previous day", async () => {
+    const calls = mockRoutes([
+      ["GET /me/events/occ1", {
+        id: "occ1",
+        seriesMasterId: "master1",
+        type: "occurrence",
+        subject: "Standup",
+        originalStart: "2026-10-19T13:00:00Z",
+        start: { dateTime: "2026-10-19T13:00:00.0000000", timeZone: "UTC" },
+        end: { dateTime: "2026-10-19T13:30:00.0000000", timeZone: "UTC" },
+      }],
+      ["GET /me/events/master1?$select=start", { start: { dateTime: "2026-10-05T09:00:00.0000000", timeZone: "America/New_York" } }],
+      ["GET /me/events/master1", {
+        id: "master1",
+        subject: "Standup",
+        start: { dateTime: "2026-10-05T09:00:00.0000000", timeZone: "America/New_York" },
+        end: { dateTime: "2026-10-05T09:30:00.0000000", timeZone: "America/New_York" },
+        recurrence: {
+          pattern: { type: "weekly", interval: 1, daysOfWeek: ["monday"] },
+          range: { type: "noEnd", startDate: "2026-10-05", recurrenceTimeZone: "America/New_York" },
+        },
+      }],
+      ["PATCH /me/events/master1", { id: "master1" }],
+    ]);
+
+    const result = await deleteEventInScope(providerFor(createTestToken({ isMicrosoft: true })), "occ1", "following");
+
+    expect(result).toEqual({ success: true, eventId: "master1" });
+    const patch = calls.find((c) => c.method === "PATCH")!;
+    expect(patch.body.recurrence.range).toEqual({
+      type: "endDate",
+      startDate: "2026-10-05",
+      recurrenceTimeZone: "America/New_York",
+      endDate: "2026-10-18",
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { test, expect, describe, afterEach } from "bun:test";
+import { respondToEvent, listInvitations, parseRsvpResponse } from "../calendar";
+import { createTestToken, providerFor, mockRoutes } from "./calendar-mock";
+
+function base64(text: string): string {
+  return Buffer.from(text).toString("base64url");
+}
+
+describe("calendar rsvp", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("parseRsvpResponse accepts commands and aliases", () => {
+    expect(parseRsvpResponse("accept")).toBe("accepted");
+    expect(parseRsvpResponse("Maybe")).toBe("tentative");
+    expect(parseRsvpResponse("no")).toBe("declined");
+    expect(parseRsvpResponse("later")).toBeNull();
+  });
+
+  test("Google: patches the user's attendee entry and notifies the organizer", async () => {
+    const calls = mockRoutes([
+      [
+        "/events/evt1",
+        {
+          id: "evt1",
+          organizer: { email: "sam@example.com" },
+          attendees: [
+            { email: "sam@example.com", organizer: true, responseStatus: "accepted" },
+            { email: "me@example.com", self: true, responseStatus: "needsAction" },
+          ],
+        },
+      ],
+    ]);
+
+    const result = await respondToEvent(providerFor(createTestToken()), "evt1", "declined", { comment: "Away" });
+
+    expect(result).toEqual({ success: true, eventId: "evt1" });
+    expect(calls).toHaveLength(2);
+    expect(calls[1]!.method).toBe("PATCH");
+    expect(calls[1]!.url).toBe("https://www.googleapis.com/calendar/v3/calendars/primary/events/evt1?sendUpdates=all");
+    expect(calls[1]!.body.attendees).toEqual([
+      { email: "sam@example.com", organizer: true, responseStatus: "accepted" },
+      { email: "me@example.com", self: true, responseStatus: "declined", comment: "Away" },
+    ]);
+  });
+
+  test("Google: refuses to RSVP to your own event", async () => {
+    mockRoutes([["/events/evt1", { id: "evt1", organizer: { email: "me@example.com", self: true } }]]);
+    const result = await respondToEvent(providerFor(createTestToken()), "evt1", "accepted");
+    expect(result).toEqual({ success: false, error: "You are the organizer of this event" });
+  });
+
+  test("Microsoft: posts to the tentativelyAccept action", async () => {
+    const calls = mockRoutes([["/me/events/evt2/tentativelyAccept", null, 202]]);
+
+    const result = await respondToEvent(providerFor(createTestToken({ isMicrosoft: true })), "evt2", "tentative", {
+      comment: "Maybe late",
+    });
+
+    expect(result.success).toBe(true);
+    expect(calls).toEqual([
+      {
+        url: "https://graph.microsoft.com/v1.0/me/events/evt2/tentativelyAccept",
+        method: "POST",
+        body: { comment: "Maybe late", sendResponse: true },
+      },
+    ]);
+  });
+});
+
+describe("listInvitations", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const ics = (uid: string, summary: string) =>
+    [
+      "BEGIN:VCALENDAR",
+      "METHOD:REQUEST",
+      "BEGIN:VEVENT",
+      `UID:${uid}`,
+      `SUMMARY:${summary}`,
+      "DTSTART:20991020T140000Z",
+      "DTEND:20991020T150000Z",
+      "ORGANIZER;CN=Sam:mailto:sam@example.com",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+  test("merges unanswered calendar events with emailed invitations", async () => {
+    mockRoutes([
+      // Calendar window: one unanswered, one accepted
+      [
+        "/calendars/primary/events?timeMin",
+        {
+          items: [
+            {
+              id: "evt1",
+              iCalUID: "uid-1",
+              summary: "Standup",
+              start: { dateTime: "2099-10-21T09:00:00Z" },
+              end: { dateTime: "2099-10-21T09:15:00Z" },
+              organizer: { email: "sam@example.com" },
+              attendees: [{ email: "me@example.com", self: true, responseStatus: "needsAction" }],
+            },
+            {
+              id: "evt2",
+              iCalUID: "uid-2",
+              summary: "Accepted already",
+              start: { dateTime: "2099-10-21T10:00:00Z" },
+              end: { dateTime: "2099-10-21T11:00:00Z" },
+              attendees: [{ email: "me@example.com", self: true, responseStatus: "accepted" }],
+            },
+          ],
+        },
+      ],
+      // Calendar lookups by UID
+      ["iCalUID=uid-3", { items: [] }],
+      ["iCalUID=uid-4", { items: [{ id: "evt4", iCalUID: "uid-4", organizer: { email: "x@example.com" }, attendees: [{ email: "me@example.com", self: true, responseStatus: "declined" }] }] }],
+      ["/messages?q=", { messages: [{ id: "m1", threadId: "t1" }] }],
+      [
+        "/threads/t1",
+        {
+          id: "t1",
+          messages: [
+            {
+              id: "m1",
+              internalDate: "4000000000000",
+              payload: {
+                mimeType: "multipart/alternative",
+                headers: [{ name: "Subject", value: "Invitation: Accepted already" }],
+                parts: [{ mimeType: "text/calendar", body: { data: base64(ics("uid-2", "Accepted already")) } }],
+              },
+            },
+            {
+              id: "m2",
+              internalDate: "4000000001000",
+              payload: {
+                mimeType: "multipart/alternative",
+                headers: [{ name: "Subject", value: "Invitation: Offsite" }],
+                parts: [
+                  { mimeType: "text/html", body: { data: base64("<p>Offsite</p>") } },
+                  { mimeType: "text/calendar", body: { data: base64(ics("uid-3", "Offsite")) } },
+                ],
+              },
+            },
+            {
+              id: "m3",
+              internalDate: "4000000002000",
+              payload: {
+                mimeType: "multipart/mixed",
+                headers: [{ name: "Subject", value: "Updated invitation" }],
+                parts: [
+                  { mimeType: "text/plain", body: { data: base64("see invite") } },
+                  { mimeType: "application/ics", filename: "invite.ics", body: { attachmentId: "att1", size: 100 } },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+      ["/attachments/att1", { data: base64(ics("uid-4", "Declined in calendar")), size: 100 }],
+    ]);
+
+    const invitations = await listInvitations(providerFor(createTestToken()));
+
+    expect(invitations.map((i) => [i.summary, i.source, i.eventId, i.threadId])).toEqual([
+      ["Offsite", "email", undefined, "t1"],
+      ["Standup", "calendar", "evt1", undefined],
+    ]);
+    expect(invitations[0]!.organizer).toEqual({ email: "sam@example.com", name: "Sam" });
+  });
+});
@@ -0,0 +1,239 @@
+import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import { mkdir, readdir, rm } from "node:fs/promises";
+
+const TEST_CONFIG_DIR = "/tmp/superhuman-cli-export-test";
+const OUTPUT_DIR = "/tmp/superhuman-cli-export-test-out";
+process.env.SUPERHUMAN_CLI_CONFIG_DIR = TEST_CONFIG_DIR;
+
+import { CachedTokenProvider } from "../connection-provider";
+import { composeMimeMessage } from "../mime";
+import { exportThreads, findThreadIds, toMboxEntry } from "../export";
+import {
+  clearTokenCache,
+  setTokenCacheForTest,
+  type TokenInfo,
+} from "../token-api";
+
+function createTestToken(overrides: Partial<TokenInfo> = {}): TokenInfo {
+  return {
+    accessToken: "test-access-token",
+    email: "me@example.com",
+    expires: Date.now() + 3600000,
+    isMicrosoft: false,
+    ...overrides,
+  };
+}
+
+const first = composeMimeMessage({
+  from: "Alice <alice@example.com>",
+  to: ["me@example.com"],
+  subject: "Contract",
+  text: "Please sign.\nFrom now on we use the new template.",
+  attachments: [{ filename: "contract.pdf", contentType: "application/pdf", data: new TextEncoder().encode("%PDF") }],
+}).replace("MIME-Version", "Date: Mon, 2 Feb 2026 10:00:00 +0000\r\nMIME-Version");
+
+const second = composeMimeMessage({
+  from: "me@example.com",
+  to: ["alice@example.com"],
+  subject: "Re: Contract",
+  html: '<p>Signed <b>copy</b></p><img src="cid:sig"><script>alert(1)</script>',
+  attachments: [{ filename: "sig.png", contentType: "image/png", data: new Uint8Array([137, 80, 78, 71]), contentId: "sig" }],
+}).replace("MIME-Version", "Date: Tue, 3 Feb 2026 09:30:00 +0000\r\nMIME-Version");
+
+function jsonResponse(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as Response;
+}
+
+function mockGmail(urls: string[] = []) {
+  globalThis.fetch = mock((url: string) => {
+    urls.push(url);
+    if (url.includes("/threads/t1?format=minimal")) {
+      return Promise.resolve(jsonResponse({ id: "t1", messages: [{ id: "m1" }, { id: "m2" }] }));
+    }
+    const raw = url.includes("/messages/m1?") ? first : second;
+    return Promise.resolve(jsonResponse({ id: "m", raw: Buffer.from(raw).toString("base64url") }));
+  }) as unknown as typeof fetch;
+  return urls;
+}
+
+describe("export", () => {
+  const originalFetch = globalThis.fetch;
+  let provider: CachedTokenProvider;
+
+  beforeEach(async () => {
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+    try { await rm(OUTPUT_DIR, { recursive: true }); } catch {}
+    await mkdir(TEST_CONFIG_DIR, { recursive: true });
+    clearTokenCache();
+    const token = createTestToken();
+    setTokenCacheForTest(token.email, token);
+    provider = new CachedTokenProvider(token.email);
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+    try { await rm(OUTPUT_DIR, { recursive: true }); } catch {}
+    clearTokenCache();
+  });
+
+  test("eml writes each raw message unchanged", async () => {
+    const urls = mockGmail();
+
+    const result = await exportThreads(provider, ["t1"], { format: "eml", outputDir: OUTPUT_DIR });
+
+    expect(result).toMatchObject({ success: true, threads: 1, messages: 2 });
+    expect(urls).toContain("https://www.googleapis.com/gmail/v1/users/me/messages/m1?format=raw");
+    expect(await readdir(`${OUTPUT_DIR}/t1`)).toEqual(["01.eml", "02.eml"]);
+    expect(await Bun.file(`${OUTPUT_DIR}/t1/01.eml`).text()).toBe(first);
+  });
+
+  test("mbox separates messages and quotes From lines", async () => {
+    mockGmail();
+
+    const result = await exportThreads(provider, ["t1"], { format: "mbox", outputDir: OUTPUT_DIR, name: "label:customers" });
+
+    expect(result.files).toEqual([`${OUTPUT_DIR}/label_customers.mbox`]);
+    const mbox = await Bun.file(result.files[0]!).text();
+    const separators = mbox.split("\n").filter((line) => line.startsWith("From "));
+    expect(separators).toEqual([
+      "From alice@example.com Mon Feb  2 10:00:00 2026",
+      "From me@example.com Tue Feb  3 09:30:00 2026",
+    ]);
+    expect(mbox).not.toContain("\r\n");
+    expect(mbox).toContain("\n\n");
+  });
+
+  test("toMboxEntry escapes existing >From quoting", () => {
+    const raw = "From: a@example.com\r\nDate: Mon, 2 Feb 2026 10:00:00 +0000\r\n\r\nFrom here\r\n>From there";
+    const entry = new TextDecoder().decode(
+      toMboxEntry({ id: "m", raw: new TextEncoder().encode(raw), parsed: { headers: { from: "a@example.com", date: "Mon, 2 Feb 2026 10:00:00 +0000" }, attachments: [] } })
+    );
+    expect(entry).toBe(
+      "From a@example.com Mon Feb  2 10:00:00 2026\nFrom: a@example.com\nDate: Mon, 2 Feb 2026 10:00:00 +0000\n\n>From here\n>>From there\n\n"
+    );
+  });
+
+  test("md renders headers, bodies and links to saved attachments", async () => {
+    mockGmail();
+
+    const result = await exportThreads(provider, ["t1"], { format: "md", outputDir: OUTPUT_DIR });
+
+    expect(result.files).toEqual([`${OUTPUT_DIR}/t1/thread.md`]);
+    const md = await Bun.file(result.files[0]!).text();
+    expect(md).toStartWith("# Contract\n\n**From:** Alice <alice@example.com>  \n");
+    expect(md).toContain("Please sign.\nFrom now on we use the new template.");
+    expect(md).toContain("- [contract.pdf](attachments/01-contract.pdf)");
+    expect(md).toContain("Signed copy");
+    expect(await Bun.file(`${OUTPUT_DIR}/t1/attachments/01-contract.pdf`).text()).toBe("%PDF");
+  });
+
+  test("attachments with the same name get numbered file names", async () => {
+    const scan = (text: string) => ({ filename: "scan.pdf", contentType: "application/pdf", data: new TextEncoder().encode(text) });
+    const raw = composeMimeMessage({
+      from: "Alice <alice@example.com>",
+      to: ["me@example.com"],
+      subject: "Scans",
+      text: "Both pages.",
+      attachments: [scan("page 1"), scan("page 2")],
+    });
+    globalThis.fetch = mock((url: string) => {
+      if (url.includes("format=minimal")) return Promise.resolve(jsonResponse({ id: "t1", messages: [{ id: "m1" }] }));
+      return Promise.resolve(jsonResponse({ id: "m1", raw: Buffer.from(raw).toString("base64url") }));
+    }) as unknown as typeof fetch;
+
+    const result = await exportThreads(provider, ["t1"], { format: "md", outputDir: OUTPUT_DIR });
+
+    const md = await Bun.file(result.files[0]!).text();
+    expect(md).toContain("- [scan.pdf](attachments/01-scan.pdf)");
+    expect(md).toContain("- [scan.pdf](attachments/01-scan-2.pdf)");
+    expect(await Bun.file(`${OUTPUT_DIR}/t1/attachments/01-scan.pdf`).text()).toBe("page 1");
+    expect(await Bun.file(`${OUTPUT_DIR}/t1/attachments/01-scan-2.pdf`).text()).toBe("page 2");
+  });
+
+  test("pdf-ready-html embeds inline images and strips scripts", async () => {
+    mockGmail();
+
+    const result = await exportThreads(provider, ["t1"], { format: "pdf-ready-html", outputDir: OUTPUT_DIR });
+
+    const html = await Bun.file(result.files[0]!).text();
+    expect(html).toStartWith("<!DOCTYPE html>");
+    expect(html).toContain("<title>Contract</title>");
+    expect(html).toContain("@page");
+    expect(html).toContain('<img src="data:image/png;base64,iVBORw==">');
+    expect(html).not.toContain("<script>");
+    expect(html).toContain("<pre>Please sign.");
+    expect(html).toContain('<a href="attachments/01-contract.pdf">contract.pdf</a>');
+    expect(await readdir(`${OUTPUT_DIR}/t1/attachments`)).toEqual(["01-contract.pdf"]);
+  });
+
+  test("MS Graph fetches raw messages via $value", async () => {
+    const token = createTestToken({ email: "me@outlook.com", isMicrosoft: true });
+    setTokenCacheForTest(token.email, token);
+    const urls: string[] = [];
+    globalThis.fetch = mock((url: string) => {
+      urls.push(url);
+      if (url.includes("$filter=conversationId")) {
+        return Promise.resolve(jsonResponse({ value: [{ id: "AAMk2" }, { id: "AAMk1" }] }));
+      }
+      const raw = url.includes("AAMk1") ? first : second;
+      return Promise.resolve({ ok: true, status: 200, arrayBuffer: () => Promise.resolve(new TextEncoder().encode(raw).buffer) } as Response);
+    }) as unknown as typeof fetch;
+
+    const result = await exportThreads(new CachedTokenProvider(token.email), ["AAQk="], { format: "eml", outputDir: OUTPUT_DIR });
+
+    expect(result.success).toBe(true);
+    expect(urls).toContain("https://graph.microsoft.com/v1.0/me/messages/AAMk1/$value");
+    // Sorted oldest first regardless of API order
+    expect(await Bun.file(`${OUTPUT_DIR}/AAQk=/01.eml`).text()).toBe(first);
+  });
+
+  test("reports missing threads", async () => {
+    globalThis.fetch = mock(() => Promise.resolve(jsonResponse({ id: "t9" }))) as unknown as typeof fetch;
+
+    const result = await exportThreads(provider, ["t9"], { format: "eml", outputDir: OUTPUT_DIR });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Thread t9 not found");
+  });
+
+  test("findThreadIds follows Gmail pages up to the limit", async () => {
+    const urls: string[] = [];
+    globalThis.fetch = mock((url: string) => {
+      urls.push(url);
+      return Promise.resolve(
+        url.includes("pageToken=p2")
+          ? jsonResponse({ threads: [{ id: "t3" }, { id: "t4" }] })
+          : jsonResponse({ threads: [{ id: "t1" }, { id: "t2" }], nextPageToken: "p2" })
+      );
+    }) as unknown as typeof fetch;
+
+    const ids = await findThreadIds(createTestToken(), "label:customers", 3);
+
+    expect(ids).toEqual(["t1", "t2", "t3"]);
+    expect(urls[0]).toBe("https://www.googleapis.com/gmail/v1/users/me/threads?q=label%3Acustomers&maxResults=3");
+    expect(urls[1]).toContain("maxResults=1&pageToken=p2");
+  });
+
+  test("findThreadIds without a cap reads every page", async () => {
+    const urls: string[] = [];
+    globalThis.fetch = mock((url: string) => {
+      urls.push(url);
+      return Promise.resolve(
+        url.includes("pageToken=p2")
+          ? jsonResponse({ threads: [{ id: "t3" }] })
+          : jsonResponse({ threads: [{ id: "t1" }, { id: "t2" }], nextPageToken: "p2" })
+      );
+    }) as unknown as typeof fetch;
+
+    const ids = await findThreadIds(createTestToken(), "label:customers", Infinity);
+
+    expect(ids).toEqual(["t1", "t2", "t3"]);
+    expect(urls.map((u) => u.match(/maxResults=\d+/)?.[0])).toEqual(["maxResults=500", "maxResults=500"]);
+  });
+});
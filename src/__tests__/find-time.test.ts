@@ -0,0 +1,200 @@
+import { test, expect, describe, afterEach } from "bun:test";
+import { findMeetingSlots, findMeetingTimes, parseWithin, parseWorkingHours, createEvent } from "../calendar";
+import type { AttendeeFreeBusy } from "../token-api";
+import { createTestToken, providerFor, mockRoutes } from "./calendar-mock";
+
+describe("parseWorkingHours", () => {
+  test("parses hour and minute ranges", () => {
+    expect(parseWorkingHours("9-17")).toEqual({ start: 540, end: 1020 });
+    expect(parseWorkingHours("9:30 - 17:45")).toEqual({ start: 570, end: 1065 });
+    expect(parseWorkingHours("17-9")).toBeNull();
+    expect(parseWorkingHours("nine to five")).toBeNull();
+  });
+});
+
+describe("parseWithin", () => {
+  // Wednesday afternoon
+  const now = new Date(2026, 9, 21, 15, 0);
+
+  test("parses named windows", () => {
+    expect(parseWithin("today", now)).toEqual({ timeMin: now, timeMax: new Date(2026, 9, 22) });
+    expect(parseWithin("this week", now)).toEqual({ timeMin: now, timeMax: new Date(2026, 9, 26) });
+    expect(parseWithin("Next Week", now)).toEqual({ timeMin: new Date(2026, 9, 26), timeMax: new Date(2026, 10, 2) });
+    expect(parseWithin("next 3 days", now)).toEqual({ timeMin: now, timeMax: new Date(2026, 9, 24) });
+  });
+
+  test("parses dates and date ranges", () => {
+    expect(parseWithin("2026-10-27", now)).toEqual({ timeMin: new Date(2026, 9, 27), timeMax: new Date(2026, 9, 28) });
+    expect(parseWithin("2026-10-21..2026-10-23", now)).toEqual({ timeMin: now, timeMax: new Date(2026, 9, 24) });
+    expect(parseWithin("2026-10-23..2026-10-21", now)).toBeNull();
+    expect(parseWithin("someday", now)).toBeNull();
+  });
+});
+
+describe("findMeetingSlots", () => {
+  // Monday 2026-10-19 to Monday 2026-10-26 in New York (UTC-4)
+  const window = { timeMin: new Date("2026-10-19T04:00:00Z"), timeMax: new Date("2026-10-26T04:00:00Z") };
+
+  test("ranks free slots inside working hours, sooner and mid-day first", () => {
+    const attendees: AttendeeFreeBusy[] = [
+      // 9:00-10:00 New York
+      { email: "me@example.com", busy: [{ start: "2026-10-19T13:00:00Z", end: "2026-10-19T14:00:00Z" }] },
+      // 10:00-12:00 New York
+      { email: "alice@example.com", busy: [{ start: "2026-10-19T14:00:00Z", end: "2026-10-19T16:00:00Z" }] },
+    ];
+
+    const slots = findMeetingSlots(attendees, {
+      attendees: ["alice@example.com"],
+      durationMinutes: 60,
+      ...window,
+      workingHours: { start: 9 * 60, end: 17 * 60 },
+      timeZone: "America/New_York",
+      limit: 3,
+    });
+
+    // 12:00 is free but right after Alice's meeting, so 12:30 ranks first
+    expect(slots).toEqual([
+      { start: "2026-10-19T16:30:00.000Z", end: "2026-10-19T17:30:00.000Z", score: 115 },
+      { start: "2026-10-19T17:30:00.000Z", end: "2026-10-19T18:30:00.000Z", score: 115 },
+      { start: "2026-10-19T18:30:00.000Z", end: "2026-10-19T19:30:00.000Z", score: 115 },
+    ]);
+  });
+
+  test("skips weekends and respects attendees' published working hours", () => {
+    const attendees: AttendeeFreeBusy[] = [
+      { email: "me@example.com", busy: [] },
+      {
+        email: "bob@example.co.uk",
+        busy: [],
+        // 9-17 London is 4:00-12:00 in New York
+        workingHours: {
+          daysOfWeek: ["monday", "tuesday", "wednesday", "thursday", "friday"],
+          startTime: "09:00:00.0000000",
+          endTime: "17:00:00.0000000",
+          timeZone: "Europe/London",
+        },
+      },
+    ];
+
+    const slots = findMeetingSlots(attendees, {
+      attendees: ["bob@example.co.uk"],
+      durationMinutes: 30,
+      ...window,
+      timeZone: "America/New_York",
+      limit: 50,
+    });
+
+    expect(slots.length).toBeGreaterThan(0);
+    for (const slot of slots) {
+      const start = new Date(slot.start);
+      expect([0, 6]).not.toContain(start.getUTCDay());
+      // 9:00 New York onwards, ending by 17:00 London
+      expect(start.getUTCHours()).toBeGreaterThanOrEqual(13);
+      expect(new Date(slot.end).getTime() - start.getTime()).toBe(30 * 60 * 1000);
+    }
+    // Last Monday slot ends at 12:00 New York (16:00Z, London still on summer time)
+    expect(slots.filter((s) => s.start.startsWith("2026-10-19")).map((s) => s.end).sort().at(-1)).toBe(
+      "2026-10-19T16:00:00.000Z"
+    );
+  });
+});
+
+describe("findMeetingTimes", () => {
+  const originalFetch = globalThis.fetch;
+  const options = {
+    attendees: ["alice@example.com", "ME@example.com"],
+    durationMinutes: 30,
+    timeMin: new Date("2026-10-19T13:00:00Z"),
+    timeMax: new Date("2026-10-19T21:00:00Z"),
+    timeZone: "America/New_York",
+  };
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("Google: queries freeBusy once for everyone and reports unreadable calendars", async () => {
+    const calls = mockRoutes([
+      ["/freeBusy", {
+        calendars: {
+          "me@example.com": { busy: [{ start: "2026-10-19T13:00:00Z", end: "2026-10-19T20:00:00Z" }] },
+          "alice@example.com": { errors: [{ domain: "global", reason: "notFound" }], busy: [] },
+        },
+      }],
+    ]);
+
+    const result = await findMeetingTimes(providerFor(createTestToken()), options);
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]!.url).toBe("https://www.googleapis.com/calendar/v3/freeBusy");
+    expect(calls[0]!.body).toEqual({
+      timeMin: "2026-10-19T13:00:00.000Z",
+      timeMax: "2026-10-19T21:00:00.000Z",
+      items: [{ id: "me@example.com" }, { id: "alice@example.com" }],
+    });
+    expect(result.success).toBe(true);
+    expect(result.attendees[1]).toEqual({ email: "alice@example.com", busy: [], error: "notFound" });
+    // Alice is treated as free; 4:30pm leaves a gap after my busy block so it ranks first
+    expect(result.slots.map((s) => s.start)).toEqual(["2026-10-19T20:30:00.000Z", "2026-10-19T20:00:00.000Z"]);
+  });
+
+  test("Microsoft: queries getSchedule in UTC and maps working hours", async () => {
+    const calls = mockRoutes([
+      ["/getSchedule", {
+        value: [
+          {
+            scheduleId: "me@example.com",
+            scheduleItems: [{ status: "busy", start: { dateTime: "2026-10-19T13:00:00.0000000" }, end: { dateTime: "2026-10-19T14:00:00.0000000" } }],
+          },
+          {
+            scheduleId: "alice@example.com",
+            scheduleItems: [{ status: "free", start: { dateTime: "2026-10-19T15:00:00.0000000" }, end: { dateTime: "2026-10-19T16:00:00.0000000" } }],
+            workingHours: { daysOfWeek: ["Monday"], startTime: "08:00:00.0000000", endTime: "16:00:00.0000000", timeZone: { name: "Pacific Standard Time" } },
+          },
+        ],
+      }],
+    ]);
+
+    const result = await findMeetingTimes(providerFor(createTestToken({ isMicrosoft: true })), options);
+
+    expect(calls[0]!.url).toBe("https://graph.microsoft.com/v1.0/me/calendar/getSchedule");
+    expect(calls[0]!.body).toEqual({
+      schedules: ["me@example.com", "alice@example.com"],
+      startTime: { dateTime: "2026-10-19T13:00:00.000", timeZone: "UTC" },
+      endTime: { dateTime: "2026-10-19T21:00:00.000", timeZone: "UTC" },
+      availabilityViewInterval: 15,
+    });
+    expect(result.attendees).toEqual([
+      { email: "me@example.com", busy: [{ start: "2026-10-19T13:00:00.0000000Z", end: "2026-10-19T14:00:00.0000000Z" }], workingHours: undefined },
+      {
+        email: "alice@example.com",
+        busy: [],
+        workingHours: { daysOfWeek: ["monday"], startTime: "08:00:00.0000000", endTime: "16:00:00.0000000", timeZone: "Pacific Standard Time" },
+      },
+    ]);
+    // Windows zone names can't be checked, so only the busy hour is excluded
+    expect(result.slots[0]!.start >= "2026-10-19T14:00:00.000Z").toBe(true);
+  });
+
+  test("rejects unknown time zones", async () => {
+    const calls = mockRoutes([]);
+    const result = await findMeetingTimes(providerFor(createTestToken()), { ...options, timeZone: "Mars/Olympus" });
+    expect(result).toEqual({ success: false, slots: [], attendees: [], error: "Unknown time zone: Mars/Olympus" });
+    expect(calls).toHaveLength(0);
+  });
+
+  test("booking with invites asks Google to email attendees", async () => {
+    const calls = mockRoutes([["/calendars/primary/events", { id: "evt9" }]]);
+    const result = await createEvent(providerFor(createTestToken()), {
+      summary: "Sync",
+      start: { dateTime: "2026-10-19T20:00:00.000Z" },
+      end: { dateTime: "2026-10-19T20:30:00.000Z" },
+      attendees: [{ email: "alice@example.com" }],
+      sendInvites: true,
+    });
+
+    expect(result).toEqual({ success: true, eventId: "evt9" });
+    expect(calls[0]!.url).toBe("https://www.googleapis.com/calendar/v3/calendars/primary/events?sendUpdates=all");
+    expect(calls[0]!.body.sendInvites).toBeUndefined();
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Answer a Gmail multipart/mixed batch request in fetch mocks.
+ *
+ * Each inner request is passed to `handler` with its path relative to
+ * /gmail/v1/users/me; the results are returned as a multipart batch response.
+ */
+export function gmailBatchResponse(
+  init: RequestInit | undefined,
+  handler: (path: string, method: string) => { status?: number; body?: unknown }
+): Promise<Response> {
+  const requestBody = String(init?.body ?? "");
+  const boundary = requestBody.match(/^--(\S+)/)?.[1] ?? "batch";
+
+  let body = "";
+  for (const part of requestBody.split(`--${boundary}`)) {
+    const id = part.match(/Content-ID:\s*<([^>]+)>/i)?.[1];
+    const request = part.match(/^(GET|POST|PUT|PATCH|DELETE) \/gmail\/v1\/users\/me(\S*) HTTP\/1\.1/m);
+    if (!id || !request) continue;
+
+    const result = handler(request[2]!, request[1]!);
+    const status = result.status ?? 200;
+    body += `--response_boundary\r\nContent-Type: application/http\r\nContent-ID: <response-${id}>\r\n\r\n`;
+    body += `HTTP/1.1 ${status} ${status === 200 ? "OK" : "Error"}\r\nContent-Type: application/json\r\n\r\n`;
+    body += `${JSON.stringify(result.body ?? {})}\r\n`;
+  }
+  body += "--response_boundary--\r\n";
+
+  return Promise.resolve(
+    new Response(body, { headers: { "Content-Type": "multipart/mixed; boundary=response_boundary" } })
+  );
+}
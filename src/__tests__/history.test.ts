@@ -0,0 +1,281 @@
+import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+
+const TEST_CONFIG_DIR = "/tmp/superhuman-cli-history-test";
+process.env.SUPERHUMAN_CLI_CONFIG_DIR = TEST_CONFIG_DIR;
+
+import { CachedTokenProvider } from "../connection-provider";
+import { archiveThread, deleteThread } from "../archive";
+import { unsnoozeThreadViaProvider } from "../snooze";
+import {
+  captureSnapshots,
+  recordOperation,
+  listOperations,
+  findOperation,
+  undoOperation,
+  withUndo,
+  getOperationLogPath,
+  recordBulkMessages,
+  loadBulkSnapshots,
+} from "../history";
+import {
+  clearTokenCache,
+  setTokenCacheForTest,
+  type TokenInfo,
+} from "../token-api";
+
+function createTestToken(overrides: Partial<TokenInfo> = {}): TokenInfo {
+  return {
+    accessToken: "test-access-token",
+    email: "me@example.com",
+    expires: Date.now() + 3600000,
+    isMicrosoft: false,
+    ...overrides,
+  };
+}
+
+function response(body: unknown, status = 200) {
+  return Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: "OK",
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as Response);
+}
+
+type Call = { url: string; method: string; body?: any };
+
+/** Gmail thread whose labels follow threads.modify calls */
+function mockGmailThread(labelIds: string[]) {
+  const labels = new Set(labelIds);
+  const calls: Call[] = [];
+  globalThis.fetch = mock((url: string, init?: RequestInit) => {
+    const body = init?.body ? JSON.parse(init.body as string) : undefined;
+    calls.push({ url, method: init?.method || "GET", body });
+    if (url.endsWith("/threads/t1?format=minimal")) {
+      return response({ id: "t1", messages: [{ id: "m1", labelIds: [...labels] }] });
+    }
+    if (url.endsWith("/threads/t1/modify")) {
+      for (const id of body.addLabelIds) labels.add(id);
+      for (const id of body.removeLabelIds) labels.delete(id);
+      return response({ id: "t1" });
+    }
+    return response({}, 404);
+  }) as unknown as typeof fetch;
+  return { calls, labels };
+}
+
+describe("history", () => {
+  const originalFetch = globalThis.fetch;
+  let provider: CachedTokenProvider;
+
+  beforeEach(async () => {
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+    await mkdir(TEST_CONFIG_DIR, { recursive: true });
+    clearTokenCache();
+    const token = createTestToken();
+    setTokenCacheForTest(token.email, token);
+    provider = new CachedTokenProvider(token.email);
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+    clearTokenCache();
+  });
+
+  test("undoing a Gmail archive puts INBOX back and leaves other labels alone", async () => {
+    const { calls, labels } = mockGmailThread(["INBOX", "UNREAD", "Label_1"]);
+
+    const threads = await captureSnapshots(provider, "archive", ["t1"]);
+    expect((await archiveThread(provider, "t1")).success).toBe(true);
+    const operation = await recordOperation({ account: "me@example.com", kind: "archive", threads });
+
+    // Changed after the archive; undo must not revert it
+    labels.delete("UNREAD");
+
+    const result = await undoOperation(provider, operation);
+
+    expect(result).toEqual({ success: true, restored: ["t1"] });
+    expect(calls.at(-1)!.body).toEqual({ addLabelIds: ["INBOX"], removeLabelIds: [] });
+    expect([...labels].sort()).toEqual(["INBOX", "Label_1"]);
+  });
+
+  test("undoing a Gmail delete removes TRASH", async () => {
+    const { labels } = mockGmailThread(["INBOX"]);
+
+    const threads = await captureSnapshots(provider, "delete", ["t1"]);
+    await deleteThread(provider, "t1");
+    expect([...labels]).toEqual(["TRASH"]);
+
+    await undoOperation(provider, await recordOperation({ account: "me@example.com", kind: "delete", threads }));
+
+    expect([...labels]).toEqual(["INBOX"]);
+  });
+
+  test("an operation can only be undone once", async () => {
+    mockGmailThread(["INBOX"]);
+    const threads = await captureSnapshots(provider, "archive", ["t1"]);
+    const operation = await recordOperation({ account: "me@example.com", kind: "archive", threads });
+
+    expect((await undoOperation(provider, operation)).success).toBe(true);
+
+    const reloaded = await findOperation(operation.id.slice(0, 10));
+    expect(reloaded!.undoneAt).toBeGreaterThan(0);
+    const again = await undoOperation(provider, reloaded!);
+    expect(again.error).toBe(`Operation ${operation.id} was already undone`);
+  });
+
+  test("lists operations newest first, per account", async () => {
+    await recordOperation({ account: "me@example.com", kind: "star", threads: [{ threadId: "t1" }] });
+    await recordOperation({ account: "other@example.com", kind: "archive", threads: [{ threadId: "t2" }] });
+    await recordOperation({ account: "me@example.com", kind: "label", labelId: "Label_1", threads: [{ threadId: "t3" }] });
+
+    const mine = await listOperations("ME@example.com");
+    expect(mine.map((o) => o.kind)).toEqual(["label", "star"]);
+    expect(await listOperations(undefined, 1)).toHaveLength(1);
+  });
+
+  test("withUndo logs the run only when it changed a thread", async () => {
+    mockGmailThread(["INBOX"]);
+
+    const failed = await withUndo(provider, "archive", ["t1"], async () => ({ done: [] }));
+    expect(failed.operation).toBeNull();
+    expect(await listOperations()).toEqual([]);
+
+    const archived = await withUndo(provider, "archive", ["t1"], async () => ({ done: ["t1"] }));
+    expect(archived.undoError).toBeUndefined();
+    const [operation] = await listOperations();
+    expect(operation).toMatchObject({ id: archived.operation!.id, account: "me@example.com", kind: "archive" });
+    expect(operation!.threads).toEqual([{ threadId: "t1", labelIds: ["INBOX"] }]);
+  });
+
+  test("withUndo doesn't fail the run when the log can't be written", async () => {
+    mockGmailThread(["INBOX"]);
+    // A directory in place of the log file makes the write fail
+    await mkdir(getOperationLogPath(), { recursive: true });
+
+    const result = await withUndo(provider, "archive", ["t1"], async () => ({ done: ["t1"], archived: true }));
+
+    expect(result.archived).toBe(true);
+    expect(result.operation).toBeNull();
+    expect(result.undoError).toBeDefined();
+  });
+
+  test("bulk snapshots are kept outside the log and dropped with their operation", async () => {
+    const entry = { account: "me@example.com", kind: "archive" as const, bulkRunId: "run1" };
+    await recordBulkMessages(entry, [{ messageId: "m1", labelIds: ["INBOX"] }]);
+    const operation = await recordBulkMessages(entry, [{ messageId: "m2", labelIds: ["INBOX"] }]);
+
+    expect(operation.messageCount).toBe(2);
+    expect(await Bun.file(getOperationLogPath()).text()).not.toContain("m1");
+    expect((await loadBulkSnapshots(operation)).map((m) => m.messageId)).toEqual(["m1", "m2"]);
+
+    for (let i = 0; i < 200; i++) {
+      await recordOperation({ account: "me@example.com", kind: "star", threads: [{ threadId: `t${i}` }] });
+    }
+    expect(await findOperation(operation.id)).toBeNull();
+    expect(await loadBulkSnapshots(operation)).toEqual([]);
+  });
+
+  test("MS Graph undo moves messages back by internetMessageId", async () => {
+    const token = createTestToken({ email: "me@outlook.com", isMicrosoft: true });
+    setTokenCacheForTest(token.email, token);
+    const outlook = new CachedTokenProvider(token.email);
+
+    // Moving a message gives it a new ID
+    let messages = [
+      { id: "AAMk1", internetMessageId: "<a@x>", parentFolderId: "inbox-id", isRead: true, flag: { flagStatus: "notFlagged" } },
+      { id: "AAMk2", internetMessageId: "<b@x>", parentFolderId: "sent-id", isRead: true, flag: { flagStatus: "notFlagged" } },
+    ];
+    const moves: Call[] = [];
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      const body = init?.body ? JSON.parse(init.body as string) : undefined;
+      if (url.includes("$filter=conversationId")) {
+        return response({ value: messages });
+      }
+      if (url.endsWith("/me/mailFolders/archive")) {
+        return response({ id: "archive-id" });
+      }
+      const move = url.match(/\/me\/messages\/([^/]+)\/move$/);
+      if (move) {
+        moves.push({ url, method: "POST", body });
+        messages = messages.map((m) =>
+          m.id === move[1] ? { ...m, id: `${m.id}-moved`, parentFolderId: body.destinationId } : m
+        );
+        return response({ id: `${move[1]}-moved` });
+      }
+      return response({}, 404);
+    }) as unknown as typeof fetch;
+
+    const threads = await captureSnapshots(outlook, "archive", ["AAQk="]);
+    expect(threads[0]!.messages![0]).toEqual({ internetMessageId: "<a@x>", parentFolderId: "inbox-id", isRead: true, flagStatus: "notFlagged", categories: [] });
+    await archiveThread(outlook, "AAQk=");
+    expect(messages.map((m) => m.parentFolderId)).toEqual(["archive-id", "archive-id"]);
+
+    moves.length = 0;
+    const result = await undoOperation(outlook, await recordOperation({ account: token.email, kind: "archive", threads }));
+
+    expect(result.success).toBe(true);
+    expect(moves.map((m) => [m.url.split("/messages/")[1], m.body.destinationId])).toEqual([
+      ["AAMk1-moved/move", "inbox-id"],
+      ["AAMk2-moved/move", "sent-id"],
+    ]);
+  });
+
+  test("MS Graph snapshots include every page of the conversation", async () => {
+    const token = createTestToken({ email: "me@outlook.com", isMicrosoft: true });
+    setTokenCacheForTest(token.email, token);
+    const message = (id: string) => ({ id, internetMessageId: `<${id}@x>`, parentFolderId: "inbox-id", isRead: true });
+    globalThis.fetch = mock((url: string) => {
+      if (url.includes("skiptoken=2")) return response({ value: [message("AAMk2")] });
+      return response({
+        value: [message("AAMk1")],
+        "@odata.nextLink": "https://graph.microsoft.com/v1.0/me/messages?$skiptoken=2",
+      });
+    }) as unknown as typeof fetch;
+
+    const [thread] = await captureSnapshots(new CachedTokenProvider(token.email), "archive", ["AAQk="]);
+
+    expect(thread!.messages!.map((m) => m.internetMessageId)).toEqual(["<AAMk1@x>", "<AAMk2@x>"]);
+  });
+
+  test("undoing an unsnooze snoozes again until the original time", async () => {
+    const token = createTestToken({ idToken: "sh-id-token" });
+    setTokenCacheForTest(token.email, token);
+    const until = new Date(Date.now() + 86400000).toISOString();
+    const reminders: any[] = [];
+    let snoozed = true;
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      const body = init?.body ? JSON.parse(init.body as string) : undefined;
+      if (url.endsWith("/v3/userdata.getThreads")) {
+        return response({
+          threadList: snoozed ? [{ thread: { reminder: { threadId: "t1", triggerAt: until, reminderId: "r1" } } }] : [],
+        });
+      }
+      if (url.endsWith("/reminders/cancel")) {
+        snoozed = false;
+        return response({});
+      }
+      if (url.endsWith("/reminders/create")) {
+        reminders.push(body.reminder);
+        return response({});
+      }
+      if (url.endsWith("/threads/t1?format=minimal")) {
+        return response({ id: "t1", messages: [{ id: "m1" }] });
+      }
+      return response({}, 404);
+    }) as unknown as typeof fetch;
+
+    const threads = await captureSnapshots(provider, "unsnooze", ["t1"]);
+    expect(threads).toEqual([{ threadId: "t1", snoozedUntil: until }]);
+    expect((await unsnoozeThreadViaProvider(provider, ["t1"]))[0]!.success).toBe(true);
+
+    const result = await undoOperation(provider, await recordOperation({ account: token.email, kind: "unsnooze", threads }));
+
+    expect(result.success).toBe(true);
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0]).toMatchObject({ threadId: "t1", messageIds: ["m1"], triggerAt: until });
+  });
+});
@@ -0,0 +1,193 @@
+import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+
+const TEST_CONFIG_DIR = "/tmp/superhuman-cli-http-client-test";
+process.env.SUPERHUMAN_CLI_CONFIG_DIR = TEST_CONFIG_DIR;
+
+import {
+  apiFetch,
+  configureHttpClient,
+  resetHttpClient,
+  parseRetryAfter,
+  ApiError,
+} from "../http-client";
+import {
+  gmailFetch,
+  msgraphFetch,
+  clearTokenCache,
+  setTokenCacheForTest,
+  getCachedToken,
+  type TokenInfo,
+} from "../token-api";
+
+function response(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return Promise.resolve(
+    new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+      statusText: { 200: "OK", 401: "Unauthorized", 404: "Not Found", 429: "Too Many Requests", 502: "Bad Gateway", 503: "Service Unavailable" }[status],
+      headers,
+    })
+  );
+}
+
+describe("http client", () => {
+  const originalFetch = globalThis.fetch;
+  let sleeps: number[];
+
+  beforeEach(async () => {
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+    await mkdir(TEST_CONFIG_DIR, { recursive: true });
+    clearTokenCache();
+    resetHttpClient();
+    sleeps = [];
+    configureHttpClient({ sleep: async (ms) => { sleeps.push(ms); } });
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    resetHttpClient();
+    clearTokenCache();
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+  });
+
+  test("refreshes the access token on 401 and retries", async () => {
+    const token: TokenInfo = {
+      accessToken: "stale",
+      email: "me@example.com",
+      expires: Date.now() + 3600000,
+      isMicrosoft: false,
+      refreshToken: "refresh-me",
+    };
+    setTokenCacheForTest(token.email, token);
+
+    const auths: string[] = [];
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      if (url === "https://oauth2.googleapis.com/token") {
+        return response({ access_token: "fresh", expires_in: 3600 });
+      }
+      const auth = new Headers(init?.headers).get("Authorization")!;
+      auths.push(auth);
+      return auth === "Bearer fresh" ? response({ emailAddress: "me@example.com" }) : response({}, 401);
+    }) as unknown as typeof fetch;
+
+    expect(await gmailFetch("stale", "/profile")).toEqual({ emailAddress: "me@example.com" });
+    expect(auths).toEqual(["Bearer stale", "Bearer fresh"]);
+    expect((await getCachedToken(token.email))!.accessToken).toBe("fresh");
+
+    // Later calls with the stale token go straight to the fresh one
+    await gmailFetch("stale", "/profile");
+    expect(auths.at(-1)).toBe("Bearer fresh");
+    expect(auths).toHaveLength(3);
+  });
+
+  test("returns null on 401 when the token cannot be refreshed", async () => {
+    let calls = 0;
+    globalThis.fetch = mock(() => {
+      calls++;
+      return response({}, 401);
+    }) as unknown as typeof fetch;
+
+    expect(await msgraphFetch("unknown-token", "/me")).toBeNull();
+    expect(calls).toBe(1);
+  });
+
+  test("honors Retry-After on 429", async () => {
+    let calls = 0;
+    globalThis.fetch = mock(() => {
+      calls++;
+      return calls === 1 ? response({}, 429, { "Retry-After": "7" }) : response({ ok: true });
+    }) as unknown as typeof fetch;
+
+    expect(await msgraphFetch("t", "/me")).toEqual({ ok: true });
+    expect(sleeps).toEqual([7000]);
+  });
+
+  test("backs off exponentially with jitter and gives up with a structured error", async () => {
+    let calls = 0;
+    globalThis.fetch = mock(() => {
+      calls++;
+      return response(
+        { error: { code: 503, message: "Backend Error", errors: [{ reason: "backendError" }] } },
+        503
+      );
+    }) as unknown as typeof fetch;
+
+    const error = await gmailFetch("t", "/messages").catch((e) => e);
+
+    expect(calls).toBe(5);
+    expect(sleeps).toHaveLength(4);
+    // Each wait is between half and all of 500ms * 2^attempt
+    sleeps.forEach((ms, attempt) => {
+      expect(ms).toBeGreaterThanOrEqual(250 * 2 ** attempt);
+      expect(ms).toBeLessThanOrEqual(500 * 2 ** attempt);
+    });
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ provider: "gmail", status: 503, code: "backendError", detail: "Backend Error" });
+    expect(error.message).toBe("Gmail API error: 503 Service Unavailable - Backend Error (backendError)");
+  });
+
+  test("retries Gmail rate limit 403s", async () => {
+    let calls = 0;
+    globalThis.fetch = mock(() => {
+      calls++;
+      return calls === 1
+        ? response({ error: { code: 403, errors: [{ reason: "userRateLimitExceeded" }] } }, 403)
+        : response({ id: "t1" });
+    }) as unknown as typeof fetch;
+
+    expect(await gmailFetch("t", "/threads/t1")).toEqual({ id: "t1" });
+    expect(calls).toBe(2);
+  });
+
+  test("does not resend a POST after a gateway error", async () => {
+    let calls = 0;
+    globalThis.fetch = mock(() => {
+      calls++;
+      return response({}, 502);
+    }) as unknown as typeof fetch;
+
+    const result = await apiFetch("msgraph", "https://graph.microsoft.com/v1.0/me/sendMail", { method: "POST" });
+
+    expect(result.status).toBe(502);
+    expect(calls).toBe(1);
+  });
+
+  test("MS Graph errors carry the error code and request id", async () => {
+    globalThis.fetch = mock(() =>
+      response(
+        { error: { code: "ErrorItemNotFound", message: "The specified object was not found in the store." } },
+        404,
+        { "request-id": "req-123" }
+      )
+    ) as unknown as typeof fetch;
+
+    const error = await msgraphFetch("t", "/me/messages/x").catch((e) => e);
+
+    expect(error).toMatchObject({ provider: "msgraph", status: 404, code: "ErrorItemNotFound", requestId: "req-123" });
+  });
+
+  test("caps concurrent requests per provider", async () => {
+    configureHttpClient({ concurrency: { gmail: 10, msgraph: 2, gcal: 10, superhuman: 6 } });
+    let inFlight = 0;
+    let peak = 0;
+    globalThis.fetch = mock(async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return response({ value: [] });
+    }) as unknown as typeof fetch;
+
+    await Promise.all(Array.from({ length: 8 }, () => msgraphFetch("t", "/me/messages")));
+
+    expect(peak).toBe(2);
+  });
+
+  test("parseRetryAfter accepts seconds and HTTP dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter(null)).toBeNull();
+    const ms = parseRetryAfter(new Date(Date.now() + 10000).toUTCString())!;
+    expect(ms).toBeGreaterThan(8000);
+    expect(ms).toBeLessThanOrEqual(10000);
+  });
+});
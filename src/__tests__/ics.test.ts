@@ -0,0 +1,149 @@
+import { test, expect, describe } from "bun:test";
+import { parseIcs, formatIcs, icsDateToDate } from "../ics";
+
+const INVITE = [
+  "BEGIN:VCALENDAR",
+  "PRODID:-//Google Inc//Google Calendar 70.9054//EN",
+  "METHOD:REQUEST",
+  "BEGIN:VTIMEZONE",
+  "TZID:America/New_York",
+  "BEGIN:STANDARD",
+  "DTSTART:19701101T020000",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+  "BEGIN:VEVENT",
+  "DTSTART;TZID=America/New_York:20261020T100000",
+  "DTEND;TZID=America/New_York:20261020T103000",
+  "UID:abc123@google.com",
+  'ORGANIZER;CN="Lee, Sam":mailto:sam@example.com',
+  "ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;CN=me@example.com:mailto:me@example.com",
+  "SUMMARY:Planning\\, Q4",
+  "DESCRIPTION:Agenda:\\n1. Budget\\n2. Hiring and a long line that is folded",
+  "  across two lines",
+  "LOCATION:Room 4",
+  "SEQUENCE:2",
+  "STATUS:CONFIRMED",
+  "RRULE:FREQ=WEEKLY;BYDAY=TU",
+  "BEGIN:VALARM",
+  "ACTION:DISPLAY",
+  "DESCRIPTION:Reminder",
+  "END:VALARM",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+describe("parseIcs", () => {
+  test("parses an invitation", () => {
+    const calendar = parseIcs(INVITE);
+    expect(calendar.method).toBe("REQUEST");
+    expect(calendar.events).toEqual([
+      {
+        uid: "abc123@google.com",
+        summary: "Planning, Q4",
+        description: "Agenda:\n1. Budget\n2. Hiring and a long line that is folded across two lines",
+        location: "Room 4",
+        start: { dateTime: "2026-10-20T10:00:00", timeZone: "America/New_York" },
+        end: { dateTime: "2026-10-20T10:30:00", timeZone: "America/New_York" },
+        organizer: { email: "sam@example.com", name: "Lee, Sam" },
+        attendees: [{ email: "me@example.com", name: "me@example.com", partstat: "NEEDS-ACTION" }],
+        status: "CONFIRMED",
+        sequence: 2,
+        recurrence: ["RRULE:FREQ=WEEKLY;BYDAY=TU"],
+      },
+    ]);
+  });
+
+  test("parses all-day and UTC times", () => {
+    const calendar = parseIcs(
+      "BEGIN:VCALENDAR\nBEGIN:VEVENT\nUID:1\nDTSTART;VALUE=DATE:20261020\nDTEND;VALUE=DATE:20261021\nEND:VEVENT\n" +
+        "BEGIN:VEVENT\nUID:2\nDTSTART:20261020T140000Z\nEND:VEVENT\nEND:VCALENDAR"
+    );
+    expect(calendar.method).toBeUndefined();
+    expect(calendar.events.map((e) => [e.uid, e.start, e.end])).toEqual([
+      ["1", { date: "2026-10-20" }, { date: "2026-10-21" }],
+      ["2", { dateTime: "2026-10-20T14:00:00Z" }, {}],
+    ]);
+  });
+});
+
+describe("icsDateToDate", () => {
+  test("converts zoned, UTC and all-day values", () => {
+    expect(icsDateToDate({ dateTime: "2026-10-20T10:00:00", timeZone: "America/New_York" })?.toISOString()).toBe(
+      "2026-10-20T14:00:00.000Z"
+    );
+    expect(icsDateToDate({ dateTime: "2026-10-20T14:00:00Z" })?.toISOString()).toBe("2026-10-20T14:00:00.000Z");
+    expect(icsDateToDate({ date: "2026-10-20" })).toEqual(new Date(2026, 9, 20));
+    expect(icsDateToDate({})).toBeNull();
+  });
+
+  test("treats unknown zone names as local time", () => {
+    expect(icsDateToDate({ dateTime: "2026-10-20T10:00:00", timeZone: "Pacific Standard Time" })).toEqual(
+      new Date(2026, 9, 20, 10, 0, 0)
+    );
+  });
+});
+
+describe("formatIcs", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+
+  test("writes events that parse back unchanged", () => {
+    const calendar = parseIcs(INVITE);
+    const text = formatIcs({ events: calendar.events }, now);
+
+    expect(text.endsWith("\r\n")).toBe(true);
+    expect(text).toContain("PRODID:-//superhuman-cli//Calendar Export//EN");
+    expect(text).toContain("DTSTAMP:20261019T120000Z");
+    expect(text).toContain("SUMMARY:Planning\\, Q4");
+    expect(parseIcs(text).events).toEqual(calendar.events);
+  });
+
+  test("folds long lines at 75 octets without splitting characters", () => {
+    const text = formatIcs(
+      {
+        events: [
+          {
+            uid: "1",
+            summary: "Caf\u00e9 ".repeat(30),
+            start: { dateTime: "2026-10-20T14:00:00Z" },
+            end: { dateTime: "2026-10-20T15:00:00Z" },
+            attendees: [],
+            sequence: 0,
+          },
+        ],
+      },
+      now
+    );
+
+    const lines = text.split("\r\n");
+    expect(lines.some((line) => line.startsWith(" "))).toBe(true);
+    for (const line of lines) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(parseIcs(text).events[0]!.summary).toBe("Caf\u00e9 ".repeat(30));
+  });
+
+  test("writes all-day dates, UTC times and a VTIMEZONE per zone", () => {
+    const text = formatIcs(
+      {
+        events: [
+          { uid: "1", summary: "Offsite", start: { date: "2026-10-20" }, end: { date: "2026-10-21" }, attendees: [], sequence: 0 },
+          {
+            uid: "2",
+            summary: "Sync",
+            start: { dateTime: "2026-10-20T10:00:00", timeZone: "Europe/Berlin" },
+            end: { dateTime: "2026-10-20T10:30:00", timeZone: "Europe/Berlin" },
+            attendees: [],
+            sequence: 0,
+          },
+        ],
+      },
+      now
+    );
+
+    expect(text).toContain("DTSTART;VALUE=DATE:20261020\r\n");
+    expect(text).toContain("DTSTART;TZID=Europe/Berlin:20261020T100000\r\n");
+    expect(text.match(/BEGIN:VTIMEZONE/g)).toHaveLength(1);
+    // Summer time ends on the last Sunday of October
+    expect(text).toContain("BEGIN:STANDARD\r\nDTSTART:20261025T030000\r\nTZOFFSETFROM:+0200\r\nTZOFFSETTO:+0100");
+  });
+});
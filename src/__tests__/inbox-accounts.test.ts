@@ -0,0 +1,105 @@
+import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+
+const TEST_CONFIG_DIR = "/tmp/superhuman-cli-inbox-accounts-test";
+process.env.SUPERHUMAN_CLI_CONFIG_DIR = TEST_CONFIG_DIR;
+
+import { listInboxAllAccounts, searchInboxAllAccounts, parseThreadRef, formatThreadRef } from "../inbox";
+import { clearTokenCache, setTokenCacheForTest } from "../token-api";
+
+function outlookAccount(email: string) {
+  setTokenCacheForTest(email, {
+    accessToken: `token-${email}`,
+    email,
+    expires: Date.now() + 3600000,
+    isMicrosoft: true,
+  });
+}
+
+function graphMessage(conversationId: string, subject: string, receivedDateTime: string) {
+  return {
+    id: `${conversationId}-m`,
+    conversationId,
+    subject,
+    from: { emailAddress: { address: "alice@example.com", name: "Alice" } },
+    receivedDateTime,
+    bodyPreview: "",
+    isRead: true,
+  };
+}
+
+const MAILBOXES: Record<string, unknown[]> = {
+  "token-work@example.com": [
+    graphMessage("AAQwork1", "Budget", "2025-02-04T09:00:00Z"),
+    graphMessage("AAQwork2", "Standup", "2025-02-02T09:00:00Z"),
+  ],
+  "token-home@example.com": [
+    graphMessage("AAQhome1", "Dinner", "2025-02-05T18:00:00Z"),
+    graphMessage("AAQhome2", "Invoice", "2025-02-03T12:00:00Z"),
+  ],
+};
+
+describe("multi-account inbox", () => {
+  const originalFetch = globalThis.fetch;
+  const requested: string[] = [];
+
+  beforeEach(async () => {
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+    await mkdir(TEST_CONFIG_DIR, { recursive: true });
+    clearTokenCache();
+    requested.length = 0;
+    outlookAccount("work@example.com");
+    outlookAccount("home@example.com");
+
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      const auth = String((init?.headers as Record<string, string>)?.Authorization || "").replace("Bearer ", "");
+      requested.push(decodeURIComponent(String(url)));
+      return Promise.resolve(
+        new Response(JSON.stringify({ value: MAILBOXES[auth] || [] }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        })
+      );
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+    clearTokenCache();
+  });
+
+  test("merges accounts by date and tags each thread", async () => {
+    const result = await listInboxAllAccounts(["work@example.com", "home@example.com"], { limit: 3 });
+
+    expect(result.errors).toEqual([]);
+    expect(result.threads.map((t) => [t.account, t.id])).toEqual([
+      ["home@example.com", "AAQhome1"],
+      ["work@example.com", "AAQwork1"],
+      ["home@example.com", "AAQhome2"],
+    ]);
+    expect(formatThreadRef(result.threads[0]!)).toBe("home@example.com:AAQhome1");
+  });
+
+  test("reports failing accounts without dropping the others", async () => {
+    const result = await searchInboxAllAccounts(["work@example.com", "gone@example.com"], {
+      query: "budget",
+      includeDone: true,
+    });
+
+    expect(result.threads.map((t) => t.id)).toEqual(["AAQwork1", "AAQwork2"]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]!.account).toBe("gone@example.com");
+    expect(result.errors[0]!.error).toContain("gone@example.com");
+    expect(requested.every((url) => url.includes('$search="budget"'))).toBe(true);
+  });
+
+  test("parseThreadRef splits qualified references", () => {
+    expect(parseThreadRef("me@example.com:19c2fbf72ffde347")).toEqual({
+      account: "me@example.com",
+      threadId: "19c2fbf72ffde347",
+    });
+    expect(parseThreadRef("AAQkAGI2TG93AAA=")).toEqual({ threadId: "AAQkAGI2TG93AAA=" });
+    expect(parseThreadRef("19c2fbf72ffde347")).toEqual({ threadId: "19c2fbf72ffde347" });
+  });
+});
@@ -0,0 +1,268 @@
+import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+
+const TEST_CONFIG_DIR = "/tmp/superhuman-cli-labels-test";
+process.env.SUPERHUMAN_CLI_CONFIG_DIR = TEST_CONFIG_DIR;
+
+import { CachedTokenProvider } from "../connection-provider";
+import {
+  listLabels,
+  resolveLabelIn,
+  createLabel,
+  renameLabel,
+  moveLabel,
+  deleteLabel,
+  getThreadLabels,
+  addLabel,
+  removeLabel,
+  type Label,
+} from "../labels";
+import {
+  clearTokenCache,
+  setTokenCacheForTest,
+  type TokenInfo,
+} from "../token-api";
+
+function createTestToken(overrides: Partial<TokenInfo> = {}): TokenInfo {
+  return {
+    accessToken: "test-access-token",
+    email: "me@example.com",
+    expires: Date.now() + 3600000,
+    isMicrosoft: false,
+    ...overrides,
+  };
+}
+
+function response(body: unknown, status = 200) {
+  return Promise.resolve(new Response(body === null ? null : JSON.stringify(body), { status }));
+}
+
+type Call = { method: string; url: string; body?: any };
+
+/** Gmail labels API backed by an in-memory label list */
+function mockGmailLabels(labels: Array<{ id: string; name: string; type: string }>) {
+  const calls: Call[] = [];
+  let nextId = 100;
+  globalThis.fetch = mock((url: string, init?: RequestInit) => {
+    const method = init?.method || "GET";
+    const body = init?.body ? JSON.parse(init.body as string) : undefined;
+    calls.push({ method, url, body });
+    if (url.endsWith("/labels") && method === "GET") {
+      return response({ labels });
+    }
+    if (url.endsWith("/labels") && method === "POST") {
+      const label = { id: `Label_${nextId++}`, name: body.name, type: "user" };
+      labels.push(label);
+      return response(label);
+    }
+    const match = url.match(/\/labels\/(\w+)$/);
+    const label = labels.find((l) => l.id === match?.[1]);
+    if (label && method === "PATCH") {
+      Object.assign(label, body);
+      return response(label);
+    }
+    if (label && method === "DELETE") {
+      labels.splice(labels.indexOf(label), 1);
+      return response(null, 204);
+    }
+    return response({}, 404);
+  }) as unknown as typeof fetch;
+  return calls;
+}
+
+describe("labels", () => {
+  const originalFetch = globalThis.fetch;
+  let provider: CachedTokenProvider;
+
+  beforeEach(async () => {
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+    await mkdir(TEST_CONFIG_DIR, { recursive: true });
+    clearTokenCache();
+    const token = createTestToken();
+    setTokenCacheForTest(token.email, token);
+    provider = new CachedTokenProvider(token.email);
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+    clearTokenCache();
+  });
+
+  test("resolveLabelIn matches IDs, paths and unambiguous names", () => {
+    const labels: Label[] = [
+      { id: "INBOX", name: "INBOX", type: "system" },
+      { id: "Label_1", name: "Clients", type: "user" },
+      { id: "Label_2", name: "Clients/Acme", type: "user" },
+      { id: "Label_3", name: "receipts", type: "user" },
+      { id: "Label_4", name: "Receipts", type: "user" },
+    ];
+
+    expect(resolveLabelIn(labels, "Label_2").label?.id).toBe("Label_2");
+    expect(resolveLabelIn(labels, "clients / acme").label?.id).toBe("Label_2");
+    expect(resolveLabelIn(labels, "Receipts").label?.id).toBe("Label_4");
+    expect(resolveLabelIn(labels, "RECEIPTS").error).toContain("ambiguous");
+    expect(resolveLabelIn(labels, "Missing")).toEqual({ success: false, error: 'Label "Missing" not found' });
+  });
+
+  test("creating a nested Gmail label creates its missing parent", async () => {
+    const calls = mockGmailLabels([{ id: "INBOX", name: "INBOX", type: "system" }]);
+
+    const result = await createLabel(provider, "Clients/Acme", { color: "#16a766" });
+
+    expect(result.success).toBe(true);
+    expect(result.label).toMatchObject({ name: "Clients/Acme" });
+    const posts = calls.filter((c) => c.method === "POST").map((c) => c.body);
+    expect(posts.map((b) => b.name)).toEqual(["Clients", "Clients/Acme"]);
+    expect(posts[1].color).toEqual({ backgroundColor: "#16a766", textColor: "#ffffff" });
+
+    const again = await createLabel(provider, "clients/acme");
+    expect(again.error).toBe('Label "clients/acme" already exists');
+  });
+
+  test("renaming and moving a Gmail label carries nested labels along", async () => {
+    const labels = [
+      { id: "Label_1", name: "Clients", type: "user" },
+      { id: "Label_2", name: "Clients/Acme", type: "user" },
+      { id: "Label_3", name: "Clients/Acme/Invoices", type: "user" },
+      { id: "Label_4", name: "Archive", type: "user" },
+    ];
+    mockGmailLabels(labels);
+
+    expect((await renameLabel(provider, "Clients/Acme", "Acme Corp")).label?.name).toBe("Clients/Acme Corp");
+    expect(labels.map((l) => l.name)).toEqual(["Clients", "Clients/Acme Corp", "Clients/Acme Corp/Invoices", "Archive"]);
+
+    expect((await moveLabel(provider, "Clients/Acme Corp", "archive")).label?.name).toBe("Archive/Acme Corp");
+    expect(labels.map((l) => l.name)).toEqual(["Clients", "Archive/Acme Corp", "Archive/Acme Corp/Invoices", "Archive"]);
+
+    expect((await moveLabel(provider, "Archive", "Archive/Acme Corp")).error).toBe("Cannot move Archive into itself");
+    expect((await renameLabel(provider, "Archive", "A/B")).success).toBe(false);
+  });
+
+  test("system labels cannot be deleted", async () => {
+    mockGmailLabels([{ id: "INBOX", name: "INBOX", type: "system" }]);
+
+    expect(await deleteLabel(provider, "inbox")).toEqual({ success: false, error: "System label INBOX cannot be deleted" });
+  });
+
+  test("Outlook folders are listed by path and moved with the move action", async () => {
+    const token = createTestToken({ email: "me@outlook.com", isMicrosoft: true });
+    setTokenCacheForTest(token.email, token);
+    const outlook = new CachedTokenProvider(token.email);
+    const calls: Call[] = [];
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      const method = init?.method || "GET";
+      calls.push({ method, url, body: init?.body ? JSON.parse(init.body as string) : undefined });
+      if (url.endsWith("/me/mailFolders?$top=100")) {
+        return response({
+          value: [
+            { id: "inbox-id", displayName: "Inbox", childFolderCount: 1 },
+            { id: "clients-id", displayName: "Clients", childFolderCount: 0 },
+          ],
+        });
+      }
+      if (url.endsWith("/me/mailFolders/inbox-id/childFolders?$top=100")) {
+        return response({ value: [{ id: "acme-id", displayName: "Acme", childFolderCount: 0 }] });
+      }
+      if (url.endsWith("/me/mailFolders/acme-id/move")) {
+        return response({ id: "acme-id", displayName: "Acme" });
+      }
+      if (url.endsWith("/me/outlook/masterCategories")) {
+        return response({ value: [] });
+      }
+      return response({}, 404);
+    }) as unknown as typeof fetch;
+
+    expect((await listLabels(outlook)).map((l) => l.name)).toEqual(["Inbox", "Inbox/Acme", "Clients"]);
+
+    const moved = await moveLabel(outlook, "Inbox/Acme", "Clients");
+
+    expect(moved.label).toEqual({ id: "acme-id", name: "Clients/Acme", type: "folder", kind: "folder" });
+    expect(calls.at(-1)!.body).toEqual({ destinationId: "clients-id" });
+  });
+
+  test("Outlook categories are labels next to folders", async () => {
+    const token = createTestToken({ email: "me@outlook.com", isMicrosoft: true });
+    setTokenCacheForTest(token.email, token);
+    const outlook = new CachedTokenProvider(token.email);
+    const messages = [
+      { id: "m1", parentFolderId: "inbox-id", categories: ["Red category"] },
+      { id: "m2", parentFolderId: "inbox-id", categories: [] as string[] },
+    ];
+    const patches: Call[] = [];
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      const method = init?.method || "GET";
+      const decoded = decodeURIComponent(url);
+      if (decoded.endsWith("/me/mailFolders?$top=100")) {
+        return response({ value: [{ id: "inbox-id", displayName: "Inbox", childFolderCount: 0 }] });
+      }
+      if (decoded.endsWith("/me/outlook/masterCategories")) {
+        return response({
+          value: [
+            { id: "cat-1", displayName: "Red category", color: "preset0" },
+            { id: "cat-2", displayName: "Clients", color: "preset4" },
+          ],
+        });
+      }
+      if (decoded.includes("conversationId eq 'conv-1'")) {
+        return response({ value: messages });
+      }
+      const message = messages.find((m) => url.endsWith(`/me/messages/${m.id}`));
+      if (message && method === "PATCH") {
+        const body = JSON.parse(init!.body as string);
+        patches.push({ method, url, body });
+        message.categories = body.categories;
+        return response(message);
+      }
+      return response({}, 404);
+    }) as unknown as typeof fetch;
+
+    expect((await listLabels(outlook)).map((l) => [l.name, l.kind])).toEqual([
+      ["Inbox", "folder"],
+      ["Red category", "category"],
+      ["Clients", "category"],
+    ]);
+    expect(await getThreadLabels(outlook, "conv-1")).toEqual([
+      { id: "inbox-id", name: "Inbox", type: "folder", kind: "folder" },
+      { id: "cat-1", name: "Red category", type: "category", kind: "category", color: "preset0" },
+    ]);
+
+    expect(await addLabel(outlook, "conv-1", "cat-2")).toEqual({ success: true });
+    expect(messages.map((m) => m.categories)).toEqual([["Red category", "Clients"], ["Clients"]]);
+
+    patches.length = 0;
+    expect(await removeLabel(outlook, "conv-1", "Red category")).toEqual({ success: true });
+    expect(patches.map((p) => p.url.split("/").pop())).toEqual(["m1"]);
+    expect(messages.map((m) => m.categories)).toEqual([["Clients"], ["Clients"]]);
+
+    expect((await removeLabel(outlook, "conv-1", "inbox-id")).error).toContain("always sit in a folder");
+  });
+
+  test("Outlook category changes reach every page of the conversation", async () => {
+    const token = createTestToken({ email: "me@outlook.com", isMicrosoft: true });
+    setTokenCacheForTest(token.email, token);
+    const patched: string[] = [];
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      if (url.endsWith("/me/outlook/masterCategories")) {
+        return response({ value: [{ id: "cat-2", displayName: "Clients", color: "preset4" }] });
+      }
+      if (url.includes("skiptoken=2")) {
+        return response({ value: [{ id: "m2", parentFolderId: "inbox-id", categories: [] }] });
+      }
+      if (decodeURIComponent(url).includes("conversationId eq 'conv-1'")) {
+        return response({
+          value: [{ id: "m1", parentFolderId: "inbox-id", categories: [] }],
+          "@odata.nextLink": "https://graph.microsoft.com/v1.0/me/messages?$skiptoken=2",
+        });
+      }
+      if (init?.method === "PATCH") {
+        patched.push(url.split("/").pop()!);
+        return response({});
+      }
+      return response({}, 404);
+    }) as unknown as typeof fetch;
+
+    expect(await addLabel(new CachedTokenProvider(token.email), "conv-1", "cat-2")).toEqual({ success: true });
+    expect(patched).toEqual(["m1", "m2"]);
+  });
+});
@@ -0,0 +1,329 @@
+import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import type { Database } from "bun:sqlite";
+
+import {
+  openMailCache,
+  syncMailCache,
+  getCachedInbox,
+  searchCachedThreads,
+  getCachedThreadMessages,
+  getSyncState,
+} from "../mail-cache";
+import type { TokenInfo } from "../token-api";
+import { gmailBatchResponse } from "./gmail-batch-mock";
+
+function createTestToken(overrides: Partial<TokenInfo> = {}): TokenInfo {
+  return {
+    accessToken: "test-access-token",
+    email: "test@example.com",
+    expires: Date.now() + 3600000,
+    isMicrosoft: false,
+    ...overrides,
+  };
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 404 ? "Not Found" : "OK",
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as Response);
+}
+
+function gmailThread(id: string, subject: string, from: string, date: string, labelIds: string[]) {
+  return {
+    id,
+    historyId: "1",
+    messages: [
+      {
+        id: `${id}-m1`,
+        threadId: id,
+        labelIds,
+        snippet: `${subject} snippet`,
+        internalDate: String(Date.parse(date)),
+        payload: {
+          mimeType: "text/plain",
+          headers: [
+            { name: "Subject", value: subject },
+            { name: "From", value: from },
+            { name: "To", value: "test@example.com" },
+            { name: "Date", value: date },
+          ],
+          body: { data: Buffer.from(`Body of ${subject}`).toString("base64url") },
+        },
+      },
+    ],
+  };
+}
+
+describe("mail cache", () => {
+  const originalFetch = globalThis.fetch;
+  let db: Database;
+
+  beforeEach(async () => {
+    db = await openMailCache(":memory:");
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    db.close();
+  });
+
+  test("full Gmail sync stores inbox threads and bodies", async () => {
+    const threads: Record<string, ReturnType<typeof gmailThread>> = {
+      t1: gmailThread("t1", "Quarterly report", "Alice <alice@example.com>", "2025-02-04T10:00:00Z", ["INBOX"]),
+      t2: gmailThread("t2", "Lunch?", "Bob <bob@example.com>", "2025-02-05T10:00:00Z", ["INBOX", "UNREAD"]),
+    };
+
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      if (url.includes("/profile")) return jsonResponse({ historyId: "100" });
+      if (url.includes("/messages?q=")) {
+        return jsonResponse({ messages: [{ id: "t1-m1", threadId: "t1" }, { id: "t2-m1", threadId: "t2" }] });
+      }
+      if (url.includes("/batch/gmail/v1")) {
+        return gmailBatchResponse(init, (path) => ({ body: threads[path.match(/\/threads\/(\w+)/)?.[1] ?? ""] }));
+      }
+      const id = url.match(/\/threads\/(\w+)/)?.[1] ?? "";
+      return jsonResponse(threads[id]);
+    }) as unknown as typeof fetch;
+
+    const result = await syncMailCache(db, createTestToken(), { limit: 10 });
+
+    expect(result.mode).toBe("full");
+    expect(result.threadsUpdated).toBe(2);
+    expect(getSyncState(db, "test@example.com")?.historyId).toBe("100");
+
+    const inbox = getCachedInbox(db, "test@example.com");
+    expect(inbox.map((t) => t.id)).toEqual(["t2", "t1"]);
+    expect(inbox[0]!.from).toEqual({ email: "bob@example.com", name: "Bob" });
+
+    const messages = getCachedThreadMessages(db, "test@example.com", "t1");
+    expect(messages).toHaveLength(1);
+    expect(messages[0]!.body).toBe("Body of Quarterly report");
+  });
+
+  test("incremental Gmail sync applies history changes", async () => {
+    const threads: Record<string, ReturnType<typeof gmailThread>> = {
+      t1: gmailThread("t1", "Quarterly report", "Alice <alice@example.com>", "2025-02-04T10:00:00Z", ["INBOX"]),
+    };
+
+    globalThis.fetch = mock((url: string) => {
+      if (url.includes("/profile")) return jsonResponse({ historyId: "100" });
+      if (url.includes("/messages?q=")) return jsonResponse({ messages: [{ id: "t1-m1", threadId: "t1" }] });
+      const id = url.match(/\/threads\/(\w+)/)?.[1] ?? "";
+      return jsonResponse(threads[id]);
+    }) as unknown as typeof fetch;
+
+    await syncMailCache(db, createTestToken());
+
+    // t1 archived, t3 arrives
+    threads.t1 = gmailThread("t1", "Quarterly report", "Alice <alice@example.com>", "2025-02-04T10:00:00Z", []);
+    threads.t3 = gmailThread("t3", "Invoice", "Carol <carol@example.com>", "2025-02-06T10:00:00Z", ["INBOX"]);
+
+    const fetchMock = mock((url: string) => {
+      if (url.includes("/history?startHistoryId=100")) {
+        return jsonResponse({
+          historyId: "105",
+          history: [
+            { labelsRemoved: [{ message: { id: "t1-m1", threadId: "t1" }, labelIds: ["INBOX"] }] },
+            { messagesAdded: [{ message: { id: "t3-m1", threadId: "t3", labelIds: ["INBOX"] } }] },
+          ],
+        });
+      }
+      const id = url.match(/\/threads\/(\w+)/)?.[1] ?? "";
+      return jsonResponse(threads[id]);
+    });
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const result = await syncMailCache(db, createTestToken());
+
+    expect(result.mode).toBe("incremental");
+    expect(result.threadsUpdated).toBe(2);
+    expect(getSyncState(db, "test@example.com")?.historyId).toBe("105");
+    expect(fetchMock.mock.calls.some(([url]) => String(url).includes("/messages?q="))).toBe(false);
+
+    expect(getCachedInbox(db, "test@example.com").map((t) => t.id)).toEqual(["t3"]);
+    expect(searchCachedThreads(db, "test@example.com", "report", { includeDone: true }).map((t) => t.id)).toEqual(["t1"]);
+  });
+
+  test("expired Gmail historyId falls back to a full sync", async () => {
+    const threads = {
+      t1: gmailThread("t1", "Hello", "Alice <alice@example.com>", "2025-02-04T10:00:00Z", ["INBOX"]),
+    };
+    let historyExpired = false;
+
+    globalThis.fetch = mock((url: string) => {
+      if (url.includes("/history")) return historyExpired ? jsonResponse({}, 404) : jsonResponse({ historyId: "100" });
+      if (url.includes("/profile")) return jsonResponse({ historyId: "200" });
+      if (url.includes("/messages?q=")) return jsonResponse({ messages: [{ id: "t1-m1", threadId: "t1" }] });
+      return jsonResponse(threads.t1);
+    }) as unknown as typeof fetch;
+
+    await syncMailCache(db, createTestToken());
+    historyExpired = true;
+    const result = await syncMailCache(db, createTestToken());
+
+    expect(result.mode).toBe("full");
+    expect(getSyncState(db, "test@example.com")?.historyId).toBe("200");
+  });
+
+  test("MS Graph delta sync groups messages and honors removals", async () => {
+    const token = createTestToken({ email: "user@outlook.com", isMicrosoft: true });
+
+    globalThis.fetch = mock((url: string) => {
+      if (url.includes("deltatoken=abc")) {
+        return jsonResponse({
+          value: [{ id: "m1", "@removed": { reason: "deleted" } }],
+          "@odata.deltaLink": "https://graph.microsoft.com/v1.0/me/mailFolders/Inbox/messages/delta?$deltatoken=def",
+        });
+      }
+      return jsonResponse({
+        value: [
+          {
+            id: "m1",
+            conversationId: "conv1",
+            subject: "Status",
+            body: { content: "<p>First</p>" },
+            bodyPreview: "First",
+            from: { emailAddress: { address: "dave@example.com", name: "Dave" } },
+            toRecipients: [{ emailAddress: { address: "user@outlook.com", name: "" } }],
+            ccRecipients: [],
+            receivedDateTime: "2025-02-04T10:00:00Z",
+            isRead: true,
+          },
+          {
+            id: "m2",
+            conversationId: "conv1",
+            subject: "RE: Status",
+            body: { content: "<p>Second</p>" },
+            bodyPreview: "Second",
+            from: { emailAddress: { address: "erin@example.com", name: "Erin" } },
+            toRecipients: [],
+            ccRecipients: [],
+            receivedDateTime: "2025-02-04T12:00:00Z",
+            isRead: false,
+          },
+        ],
+        "@odata.deltaLink": "https://graph.microsoft.com/v1.0/me/mailFolders/Inbox/messages/delta?$deltatoken=abc",
+      });
+    }) as unknown as typeof fetch;
+
+    const first = await syncMailCache(db, token);
+    expect(first.mode).toBe("full");
+
+    let inbox = getCachedInbox(db, "user@outlook.com");
+    expect(inbox).toHaveLength(1);
+    expect(inbox[0]!.messageCount).toBe(2);
+    expect(inbox[0]!.from.name).toBe("Erin");
+    expect(inbox[0]!.labelIds).toEqual(["UNREAD"]);
+
+    const second = await syncMailCache(db, token);
+    expect(second.mode).toBe("incremental");
+    expect(getSyncState(db, "user@outlook.com")?.deltaLink).toContain("deltatoken=def");
+
+    inbox = getCachedInbox(db, "user@outlook.com");
+    expect(inbox[0]!.messageCount).toBe(1);
+    expect(getCachedThreadMessages(db, "user@outlook.com", "conv1").map((m) => m.message_id)).toEqual(["m2"]);
+  });
+
+  test("MS Graph full sync lists only the newest --limit messages", async () => {
+    const token = createTestToken({ email: "user@outlook.com", isMicrosoft: true });
+    const urls: string[] = [];
+
+    globalThis.fetch = mock((url: string) => {
+      urls.push(url);
+      if (url.includes("/delta")) {
+        return jsonResponse({
+          value: [],
+          "@odata.deltaLink": "https://graph.microsoft.com/v1.0/me/mailFolders/Inbox/messages/delta?$deltatoken=abc",
+        });
+      }
+      return jsonResponse({
+        value: [
+          {
+            id: "m1",
+            conversationId: "conv1",
+            subject: "Status",
+            body: { content: "<p>First</p>" },
+            bodyPreview: "First",
+            from: { emailAddress: { address: "dave@example.com", name: "Dave" } },
+            receivedDateTime: "2025-02-04T10:00:00Z",
+            isRead: true,
+          },
+        ],
+      });
+    }) as unknown as typeof fetch;
+
+    const result = await syncMailCache(db, token, { limit: 5 });
+
+    expect(result).toEqual({ account: "user@outlook.com", mode: "full", threadsUpdated: 1, threadsRemoved: 0 });
+    expect(urls).toHaveLength(2);
+    expect(urls[0]).toContain("$deltatoken=latest");
+    expect(urls[1]).toContain("/me/mailFolders/Inbox/messages?$top=5&");
+    expect(getSyncState(db, "user@outlook.com")?.deltaLink).toContain("deltatoken=abc");
+  });
+
+  test("MS Graph full sync follows nextLink until --limit messages are listed", async () => {
+    const token = createTestToken({ email: "user@outlook.com", isMicrosoft: true });
+    const urls: string[] = [];
+    const message = (n: number) => ({
+      id: `m${n}`,
+      conversationId: `conv${n}`,
+      subject: `Message ${n}`,
+      body: { content: "<p>Hi</p>" },
+      bodyPreview: "Hi",
+      from: { emailAddress: { address: "dave@example.com", name: "Dave" } },
+      receivedDateTime: `2025-02-0${n}T10:00:00Z`,
+      isRead: true,
+    });
+
+    globalThis.fetch = mock((url: string) => {
+      urls.push(url);
+      if (url.includes("/delta")) {
+        return jsonResponse({
+          value: [],
+          "@odata.deltaLink": "https://graph.microsoft.com/v1.0/me/mailFolders/Inbox/messages/delta?$deltatoken=abc",
+        });
+      }
+      const page = url.includes("skiptoken=2") ? 2 : url.includes("skiptoken=3") ? 3 : 1;
+      return jsonResponse({
+        value: [message(page * 2 - 1), message(page * 2)],
+        "@odata.nextLink": `https://graph.microsoft.com/v1.0/me/mailFolders/Inbox/messages?$skiptoken=${page + 1}`,
+      });
+    }) as unknown as typeof fetch;
+
+    const result = await syncMailCache(db, token, { limit: 3 });
+
+    expect(result.threadsUpdated).toBe(3);
+    expect(urls).toHaveLength(3);
+    expect(urls[2]).toContain("$skiptoken=2");
+  });
+
+  test("searchCachedThreads supports from: and subject: operators", async () => {
+    const thread = (id: string) =>
+      id === "a"
+        ? gmailThread("a", "Meeting notes", "John <john@example.com>", "2025-02-04T10:00:00Z", ["INBOX"])
+        : gmailThread("b", "Meeting invite", "Jane <jane@example.com>", "2025-02-05T10:00:00Z", ["INBOX"]);
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      if (url.includes("/profile")) return jsonResponse({ historyId: "1" });
+      if (url.includes("/messages?q=")) {
+        return jsonResponse({ messages: [{ id: "a-m1", threadId: "a" }, { id: "b-m1", threadId: "b" }] });
+      }
+      if (url.includes("/batch/gmail/v1")) {
+        return gmailBatchResponse(init, (path) => ({ body: thread(path.match(/\/threads\/(\w+)/)?.[1] ?? "") }));
+      }
+      return jsonResponse(thread(url.match(/\/threads\/(\w+)/)?.[1] ?? ""));
+    }) as unknown as typeof fetch;
+
+    await syncMailCache(db, createTestToken());
+
+    expect(searchCachedThreads(db, "test@example.com", "subject:meeting").map((t) => t.id)).toEqual(["b", "a"]);
+    expect(searchCachedThreads(db, "test@example.com", "from:john meeting").map((t) => t.id)).toEqual(["a"]);
+    expect(searchCachedThreads(db, "test@example.com", "\"Body of Meeting invite\"").map((t) => t.id)).toEqual(["b"]);
+    // LIKE wildcards in the query match literally
+    expect(searchCachedThreads(db, "test@example.com", "meeting_notes")).toEqual([]);
+    expect(searchCachedThreads(db, "test@example.com", "meeting%")).toEqual([]);
+  });
+});
@@ -0,0 +1,309 @@
+import { test, expect, describe, afterEach, mock } from "bun:test";
+
+import {
+  composeMimeMessage,
+  encodeHeaderValue,
+  encodeAddress,
+  decodeHeaderValue,
+  parseMimeMessage,
+  type MimeAttachment,
+} from "../mime";
+import { sendEmailDirect, createDraftDirect, type TokenInfo } from "../token-api";
+
+function createTestToken(overrides: Partial<TokenInfo> = {}): TokenInfo {
+  return {
+    accessToken: "test-access-token",
+    email: "me@example.com",
+    expires: Date.now() + 3600000,
+    isMicrosoft: false,
+    ...overrides,
+  };
+}
+
+function decodeWords(value: string): string {
+  return value
+    .split(/\r\n /)
+    .map((w) => Buffer.from(w.replace(/^=\?UTF-8\?B\?|\?=$/g, ""), "base64").toString())
+    .join("");
+}
+
+function headerOf(raw: string, name: string): string | undefined {
+  const head = raw.slice(0, raw.indexOf("\r\n\r\n"));
+  const match = head.match(new RegExp(`^${name}: (.*(?:\\r\\n .*)*)`, "m"));
+  return match?.[1];
+}
+
+const pdf: MimeAttachment = {
+  filename: "report.pdf",
+  contentType: "application/pdf",
+  data: new TextEncoder().encode("%PDF-1.4 test"),
+};
+
+describe("header encoding", () => {
+  test("encodeHeaderValue leaves ASCII alone and encodes UTF-8 as RFC 2047 words", () => {
+    expect(encodeHeaderValue("Quarterly report")).toBe("Quarterly report");
+
+    const subject = "Résumé für Zoë — 季度报告 ".repeat(4);
+    const encoded = encodeHeaderValue(subject);
+    for (const word of encoded.split("\r\n ")) {
+      expect(word).toMatch(/^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/);
+      expect(word.length).toBeLessThanOrEqual(75);
+    }
+    expect(decodeWords(encoded)).toBe(subject);
+  });
+
+  test("encodeAddress encodes non-ASCII names and quotes specials", () => {
+    expect(encodeAddress("bob@example.com")).toBe("bob@example.com");
+    expect(encodeAddress("Bob Smith <bob@example.com>")).toBe("Bob Smith <bob@example.com>");
+    expect(encodeAddress("Smith, Bob <bob@example.com>")).toBe('"Smith, Bob" <bob@example.com>');
+    expect(encodeAddress("José <jose@example.com>")).toBe(`${encodeHeaderValue("José")} <jose@example.com>`);
+  });
+});
+
+describe("composeMimeMessage", () => {
+  test("HTML body becomes multipart/alternative with a plain-text part", () => {
+    const raw = composeMimeMessage({
+      from: "me@example.com",
+      to: ["you@example.com"],
+      subject: "Ünïcode",
+      html: "<p>Hello &amp; welcome</p><p>Line two</p>",
+    });
+
+    expect(decodeWords(headerOf(raw, "Subject")!)).toBe("Ünïcode");
+    expect(headerOf(raw, "Content-Type")).toMatch(/^multipart\/alternative; boundary="/);
+    expect(raw).toContain("Content-Type: text/plain; charset=utf-8\r\nContent-Transfer-Encoding: 7bit\r\n\r\nHello & welcome\r\nLine two");
+    expect(raw).toContain("Content-Type: text/html; charset=utf-8");
+    expect(raw.indexOf("text/plain")).toBeLessThan(raw.indexOf("text/html"));
+    expect(raw).not.toMatch(/[^\r]\n/);
+  });
+
+  test("non-ASCII bodies are base64 encoded", () => {
+    const raw = composeMimeMessage({
+      from: "me@example.com",
+      to: ["you@example.com"],
+      subject: "Hi",
+      text: "Grüße",
+    });
+
+    expect(headerOf(raw, "Content-Transfer-Encoding")).toBe("base64");
+    const body = raw.slice(raw.indexOf("\r\n\r\n") + 4);
+    expect(Buffer.from(body, "base64").toString()).toBe("Grüße");
+  });
+
+  test("attachments wrap the body in multipart/mixed with encoded filenames", () => {
+    const raw = composeMimeMessage({
+      from: "me@example.com",
+      to: ["you@example.com"],
+      subject: "Files",
+      html: "<p>See attached</p>",
+      attachments: [pdf, { filename: "überblick.txt", data: new TextEncoder().encode("hi") }],
+    });
+
+    expect(headerOf(raw, "Content-Type")).toMatch(/^multipart\/mixed; /);
+    expect(raw).toContain("multipart/alternative");
+    expect(raw).toContain('Content-Type: application/pdf; name="report.pdf"');
+    expect(raw).toContain('Content-Disposition: attachment; filename="report.pdf"');
+    expect(raw).toContain(Buffer.from("%PDF-1.4 test").toString("base64"));
+    expect(raw).toContain("Content-Type: application/octet-stream; name=\"=?UTF-8?B?");
+    expect(raw).toContain("filename*=UTF-8''%C3%BCberblick.txt");
+  });
+
+  test("inline images go in multipart/related with a Content-ID", () => {
+    const raw = composeMimeMessage({
+      from: "me@example.com",
+      to: ["you@example.com"],
+      subject: "Logo",
+      html: '<img src="cid:logo">',
+      attachments: [{ filename: "logo.png", contentType: "image/png", data: new Uint8Array([1, 2, 3]), contentId: "logo" }],
+    });
+
+    expect(headerOf(raw, "Content-Type")).toMatch(/^multipart\/related; /);
+    expect(raw).toContain("Content-Disposition: inline; filename=\"logo.png\"");
+    expect(raw).toContain("Content-ID: <logo>");
+    expect(raw).not.toContain("multipart/mixed");
+  });
+
+  test("adds Reply-To, threading and custom headers", () => {
+    const raw = composeMimeMessage({
+      from: "Me <me@example.com>",
+      to: ["you@example.com"],
+      cc: ["cc@example.com"],
+      replyTo: ["team@example.com"],
+      subject: "Re: Plan",
+      text: "ok",
+      inReplyTo: "abc@mail.example.com",
+      references: ["<root@mail.example.com>", "abc@mail.example.com"],
+      headers: { "X-Campaign": "q3" },
+    });
+
+    expect(headerOf(raw, "Reply-To")).toBe("team@example.com");
+    expect(headerOf(raw, "Cc")).toBe("cc@example.com");
+    expect(headerOf(raw, "In-Reply-To")).toBe("<abc@mail.example.com>");
+    expect(headerOf(raw, "References")).toBe("<root@mail.example.com> <abc@mail.example.com>");
+    expect(headerOf(raw, "X-Campaign")).toBe("q3");
+    expect(() =>
+      composeMimeMessage({ from: "me@example.com", to: [], subject: "", headers: { "Bad Header": "x" } })
+    ).toThrow("Invalid header name");
+  });
+
+  test("line breaks in the subject can't start a new header", () => {
+    const raw = composeMimeMessage({
+      from: "me@example.com",
+      to: ["you@example.com"],
+      subject: "Hello\r\nBcc: evil@example.com",
+      text: "ok",
+    });
+
+    expect(headerOf(raw, "Subject")).toBe("Hello Bcc: evil@example.com");
+    expect(headerOf(raw, "Bcc")).toBeUndefined();
+  });
+});
+
+describe("parseMimeMessage", () => {
+  test("round-trips a composed message", () => {
+    const raw = composeMimeMessage({
+      from: "José <jose@example.com>",
+      to: ["you@example.com"],
+      subject: "Résumé für Zoë — 季度报告",
+      html: '<p>Grüße</p><img src="cid:logo">',
+      attachments: [
+        { filename: "überblick.txt", data: new TextEncoder().encode("hello") },
+        { filename: "logo.png", contentType: "image/png", data: new Uint8Array([1, 2, 3]), contentId: "logo" },
+      ],
+    });
+
+    const parsed = parseMimeMessage(new TextEncoder().encode(raw));
+
+    expect(parsed.headers.subject).toBe("Résumé für Zoë — 季度报告");
+    expect(parsed.headers.from).toBe(`José <jose@example.com>`);
+    expect(parsed.text).toBe("Grüße");
+    expect(parsed.html).toBe('<p>Grüße</p><img src="cid:logo">');
+    expect(parsed.attachments.map((a) => [a.filename, a.contentType, a.contentId])).toEqual([
+      ["logo.png", "image/png", "logo"],
+      ["überblick.txt", "application/octet-stream", undefined],
+    ]);
+    expect(new TextDecoder().decode(parsed.attachments[1]!.data)).toBe("hello");
+  });
+
+  test("decodes quoted-printable bodies, legacy charsets and Q-encoded headers", () => {
+    const raw = [
+      "Subject: =?iso-8859-1?Q?Caf=E9?= =?UTF-8?B?IOKYlQ==?=",
+      "Content-Type: text/plain; charset=iso-8859-1",
+      "Content-Transfer-Encoding: quoted-printable",
+      "",
+      "Caf=E9 au lait, a long =",
+      "line",
+    ].join("\r\n");
+
+    const parsed = parseMimeMessage(new Uint8Array(Buffer.from(raw, "latin1")));
+
+    expect(parsed.headers.subject).toBe("Café ☕");
+    expect(parsed.text).toBe("Café au lait, a long line");
+    expect(decodeHeaderValue("plain value")).toBe("plain value");
+  });
+});
+
+describe("sending with attachments", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  function recordFetch(handler: (url: string, init: RequestInit) => Partial<Response>) {
+    const calls: Array<{ url: string; init: RequestInit }> = [];
+    globalThis.fetch = mock((url: string, init: RequestInit) => {
+      calls.push({ url, init });
+      const resp = handler(url, init);
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({}),
+        text: () => Promise.resolve(""),
+        ...resp,
+      } as Response);
+    }) as unknown as typeof fetch;
+    return calls;
+  }
+
+  test("Gmail sends small messages as base64url raw", async () => {
+    const calls = recordFetch(() => ({ json: () => Promise.resolve({ id: "m1", threadId: "t1" }) }));
+
+    const result = await sendEmailDirect(createTestToken(), {
+      to: ["you@example.com"],
+      subject: "Files",
+      body: "<p>Hi</p>",
+      isHtml: true,
+      attachments: [pdf],
+    });
+
+    expect(result).toEqual({ messageId: "m1", threadId: "t1" });
+    expect(calls[0]!.url).toBe("https://www.googleapis.com/gmail/v1/users/me/messages/send");
+    const { raw } = JSON.parse(calls[0]!.init.body as string);
+    const decoded = Buffer.from(raw, "base64url").toString();
+    expect(decoded).toContain('filename="report.pdf"');
+  });
+
+  test("Gmail uses resumable upload for messages over 5 MB", async () => {
+    const big: MimeAttachment = { filename: "big.bin", data: new Uint8Array(4 * 1024 * 1024) };
+    const calls = recordFetch((url) =>
+      url.includes("uploadType=resumable")
+        ? { headers: new Headers({ Location: "https://upload.example.com/session/1" }) }
+        : { json: () => Promise.resolve({ id: "d1", message: { id: "m1" } }) }
+    );
+
+    const result = await createDraftDirect(createTestToken(), {
+      to: ["you@example.com"],
+      subject: "Big",
+      body: "<p>Hi</p>",
+      isHtml: true,
+      threadId: "t1",
+      attachments: [big],
+    });
+
+    expect(result).toEqual({ draftId: "d1", messageId: "m1" });
+    expect(calls).toHaveLength(2);
+    expect(calls[0]!.url).toBe("https://www.googleapis.com/upload/gmail/v1/users/me/drafts?uploadType=resumable");
+    expect(JSON.parse(calls[0]!.init.body as string)).toEqual({ message: { threadId: "t1" } });
+    expect((calls[0]!.init.headers as Record<string, string>)["X-Upload-Content-Type"]).toBe("message/rfc822");
+    expect(calls[1]!.url).toBe("https://upload.example.com/session/1");
+    expect(calls[1]!.init.method).toBe("PUT");
+    expect(Buffer.from(calls[1]!.init.body as Uint8Array).toString()).toContain('filename="big.bin"');
+  });
+
+  test("MS Graph sends with attachments via draft, attachments, then send", async () => {
+    const calls = recordFetch((url) =>
+      url.endsWith("/me/messages") ? { json: () => Promise.resolve({ id: "AAMk1" }) } : { status: 202 }
+    );
+
+    const result = await sendEmailDirect(createTestToken({ isMicrosoft: true }), {
+      to: ["you@example.com"],
+      replyTo: ["team@example.com"],
+      subject: "Files",
+      body: "<p>Hi</p>",
+      isHtml: true,
+      headers: { "X-Campaign": "q3" },
+      attachments: [pdf],
+    });
+
+    expect(result?.messageId).toBe("AAMk1");
+    expect(calls.map((c) => c.url)).toEqual([
+      "https://graph.microsoft.com/v1.0/me/messages",
+      "https://graph.microsoft.com/v1.0/me/messages/AAMk1/attachments",
+      "https://graph.microsoft.com/v1.0/me/messages/AAMk1/send",
+    ]);
+
+    const message = JSON.parse(calls[0]!.init.body as string);
+    expect(message.replyTo).toEqual([{ emailAddress: { address: "team@example.com" } }]);
+    expect(message.internetMessageHeaders).toEqual([{ name: "X-Campaign", value: "q3" }]);
+
+    const attachment = JSON.parse(calls[1]!.init.body as string);
+    expect(attachment).toMatchObject({
+      "@odata.type": "#microsoft.graph.fileAttachment",
+      name: "report.pdf",
+      contentType: "application/pdf",
+      contentBytes: Buffer.from(pdf.data).toString("base64"),
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { test, expect, describe, afterEach, mock } from "bun:test";
+import {
+  createDraftWithUserInfo,
+  updateDraftWithUserInfo,
+  sendDraftSuperhuman,
+  getUserInfoFromCache,
+  type NativeDraft,
+} from "../draft-api";
+import { SuperhumanDraftProvider } from "../providers/superhuman-draft-provider";
+import type { TokenInfo } from "../token-api";
+
+const BACKEND = "https://mail.superhuman.com/~backend";
+
+/** Mock fetch answering every request with `data`, recording the calls */
+function mockBackend(data: unknown = {}) {
+  const calls: Array<{ url: string; init: RequestInit }> = [];
+  globalThis.fetch = mock((url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    return Promise.resolve(new Response(JSON.stringify(data), { status: 200 }));
+  }) as unknown as typeof fetch;
+  return calls;
+}
+
+function writtenDraft(call: { init: RequestInit }) {
+  const body = JSON.parse(call.init.body as string);
+  return { path: body.writes[0].path as string, value: body.writes[0].value };
+}
+
+describe("native drafts", () => {
+  const originalFetch = globalThis.fetch;
+  const userInfo = getUserInfoFromCache("user123", "me@example.com", "id-token");
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("create writes the draft in a single request", async () => {
+    const calls = mockBackend();
+
+    const result = await createDraftWithUserInfo(userInfo, {
+      to: ["bob@example.com"],
+      subject: "Invoice",
+      body: "<p>Details</p>",
+    });
+
+    expect(result.success).toBe(true);
+    expect(calls.map((c) => c.url)).toEqual([`${BACKEND}/v3/userdata.writeMessage`]);
+
+    const { path, value } = writtenDraft(calls[0]!);
+    expect(path).toBe(`users/user123/threads/${result.threadId}/messages/${result.draftId}/draft`);
+    expect(value).toMatchObject({ to: ["bob@example.com"], subject: "Invoice", attachments: [] });
+    expect(value.fingerprint.attachments).toBe("");
+  });
+
+  test("update keeps fields and attachments that are not passed", async () => {
+    const calls = mockBackend();
+    const existing: Partial<NativeDraft> = {
+      action: "reply",
+      to: ["bob@example.com"],
+      cc: ["carol@example.com"],
+      subject: "Re: Plan",
+      body: "<p>Old body</p>",
+      inReplyToRfc822Id: "<orig@example.com>",
+      references: ["<orig@example.com>"],
+      attachments: [{ uuid: "u1", name: "plan.pdf", type: "application/pdf", size: 10, inline: false, cid: null }],
+      clientCreatedAt: "2026-01-01T00:00:00.000Z",
+      rfc822Id: "<draft@we.are.superhuman.com>",
+    };
+
+    await updateDraftWithUserInfo(userInfo, "thread1", "draft00aaaaaaaaaaaaaa", { body: "<p>New body</p>" }, existing);
+
+    const { value } = writtenDraft(calls[0]!);
+    expect(value).toMatchObject({
+      action: "reply",
+      to: ["bob@example.com"],
+      cc: ["carol@example.com"],
+      subject: "Re: Plan",
+      body: "<p>New body</p>",
+      inReplyToRfc822Id: "<orig@example.com>",
+      references: ["<orig@example.com>"],
+      attachments: existing.attachments,
+      clientCreatedAt: "2026-01-01T00:00:00.000Z",
+      rfc822Id: "<draft@we.are.superhuman.com>",
+      scheduledFor: null,
+    });
+  });
+
+  test("send carries no attachments", async () => {
+    const calls = mockBackend({ send_at: 1 });
+
+    await sendDraftSuperhuman(userInfo, {
+      draftId: "draft00aaaaaaaaaaaaaa",
+      threadId: "thread1",
+      to: [{ email: "bob@example.com" }],
+      subject: "Plan",
+      htmlBody: "<p>Plan</p>",
+    });
+
+    expect(JSON.parse(calls[0]!.init.body as string).outgoing_message.attachments).toEqual([]);
+  });
+
+  test("provider returns the stored draft with its thread", async () => {
+    mockBackend({
+      threadList: [
+        {
+          thread: {
+            id: "thread1",
+            messages: {
+              draft00aaaaaaaaaaaaaa: {
+                draft: {
+                  id: "draft00aaaaaaaaaaaaaa",
+                  subject: "Plan",
+                  to: ["bob@example.com"],
+                  body: "<p>Plan</p>",
+                  attachments: [{ uuid: "u1", name: "plan.pdf", type: "application/pdf", size: 10, inline: false, cid: null }],
+                  scheduledFor: "2026-03-01T09:00:00.000Z",
+                },
+              },
+            },
+          },
+        },
+      ],
+    });
+    const token = {
+      accessToken: "access",
+      email: "me@example.com",
+      expires: Date.now() + 3600000,
+      isMicrosoft: false,
+      superhumanToken: { token: "sh-token", expires: Date.now() + 3600000 },
+    } as TokenInfo;
+
+    const provider = new SuperhumanDraftProvider(token);
+    const [listed] = await provider.listDrafts();
+    expect(listed).toMatchObject({ attachments: ["plan.pdf"], scheduledFor: "2026-03-01T09:00:00.000Z" });
+
+    const draft = await provider.getNativeDraft("draft00aaaaaaaaaaaaaa");
+    expect(draft).toMatchObject({ threadId: "thread1", body: "<p>Plan</p>", cc: [], subject: "Plan" });
+    expect(await provider.getNativeDraft("draft00bbbbbbbbbbbbbb")).toBeNull();
+  });
+});
@@ -157,4 +157,144 @@ describe("readThread direct API", () => {
     const messages = await readThread(provider, "thread404");
     expect(messages).toHaveLength(0);
   });
+
+  test("readThread pages through an MS Graph conversation across folders", async () => {
+    const token = createTestToken({ isMicrosoft: true });
+    setTokenCacheForTest(token.email, token);
+    const provider = new CachedTokenProvider(token.email);
+    const urls: string[] = [];
+
+    globalThis.fetch = mock((url: string) => {
+      urls.push(decodeURIComponent(url));
+      const page = url.includes("skiptoken")
+        ? {
+            value: [
+              {
+                id: "sent1",
+                conversationId: "convLong",
+                subject: "Re: Plan",
+                from: { emailAddress: { address: "me@outlook.com", name: "Me" } },
+                toRecipients: [],
+                receivedDateTime: "2025-02-04T11:00:00Z",
+                body: { contentType: "text", content: "Sounds good" },
+                importance: "normal",
+                isRead: true,
+                flag: { flagStatus: "notFlagged" },
+              },
+            ],
+          }
+        : {
+            value: [
+              {
+                id: "in2",
+                conversationId: "convLong",
+                subject: "Re: Plan",
+                from: { emailAddress: { address: "a@example.com", name: "A" } },
+                toRecipients: [],
+                receivedDateTime: "2025-02-04T12:00:00Z",
+                body: { contentType: "html", content: "<p>Final <b>plan</b></p>" },
+                importance: "high",
+                isRead: false,
+                flag: { flagStatus: "flagged" },
+                attachments: [{ id: "att1", name: "plan.pdf", contentType: "application/pdf", size: 1234, isInline: false }],
+              },
+              {
+                id: "in1",
+                conversationId: "convLong",
+                subject: "Plan",
+                from: { emailAddress: { address: "a@example.com", name: "A" } },
+                toRecipients: [],
+                receivedDateTime: "2025-02-04T10:00:00Z",
+                body: { contentType: "html", content: "<p>Draft</p>" },
+              },
+            ],
+            "@odata.nextLink": "https://graph.microsoft.com/v1.0/me/messages?$skiptoken=abc",
+          };
+      return Promise.resolve(new Response(JSON.stringify(page), { status: 200 }));
+    }) as unknown as typeof fetch;
+
+    const { readThread } = await import("../read");
+    const messages = await readThread(provider, "convLong");
+
+    expect(urls[0]).toContain("/me/messages?$filter=conversationId eq 'convLong'");
+    expect(urls[1]).toBe("https://graph.microsoft.com/v1.0/me/messages?$skiptoken=abc");
+    expect(messages.map((m) => m.id)).toEqual(["in1", "sent1", "in2"]);
+    expect(messages[1]).toMatchObject({ textBody: "Sounds good", htmlBody: "", isRead: true, flagged: false });
+    expect(messages[2]).toMatchObject({
+      date: "2025-02-04T12:00:00.000Z",
+      textBody: "Final plan",
+      htmlBody: "<p>Final <b>plan</b></p>",
+      importance: "high",
+      isRead: false,
+      flagged: true,
+      attachments: [{ id: "att1", filename: "plan.pdf", mimeType: "application/pdf", size: 1234, inline: false }],
+    });
+  });
+
+  test("readThread returns text and HTML bodies and attachments from Gmail", async () => {
+    const token = createTestToken();
+    setTokenCacheForTest(token.email, token);
+    const provider = new CachedTokenProvider(token.email);
+    const encode = (text: string) => Buffer.from(text).toString("base64url");
+
+    globalThis.fetch = mock(() =>
+      Promise.resolve(new Response(JSON.stringify({
+        id: "thread123",
+        messages: [
+          {
+            id: "msg1",
+            labelIds: ["INBOX", "UNREAD", "STARRED"],
+            internalDate: "1738663200000",
+            snippet: "Report attached",
+            payload: {
+              mimeType: "multipart/mixed",
+              headers: [
+                { name: "Subject", value: "Report" },
+                { name: "From", value: "Alice <alice@example.com>" },
+                { name: "Date", value: "Tue, 4 Feb 2025 10:00:00 +0000" },
+                { name: "X-Priority", value: "1 (Highest)" },
+              ],
+              parts: [
+                {
+                  mimeType: "multipart/alternative",
+                  parts: [
+                    { mimeType: "text/plain", body: { data: encode("Report attached") } },
+                    { mimeType: "text/html", body: { data: encode("<p>Report attached</p>") } },
+                  ],
+                },
+                {
+                  mimeType: "image/png",
+                  filename: "logo.png",
+                  headers: [{ name: "Content-ID", value: "<logo>" }],
+                  body: { attachmentId: "ANGjdJ_logo", size: 200 },
+                },
+                {
+                  mimeType: "application/pdf",
+                  filename: "report.pdf",
+                  headers: [{ name: "Content-Disposition", value: 'attachment; filename="report.pdf"' }],
+                  body: { attachmentId: "ANGjdJ_report", size: 5000 },
+                },
+              ],
+            },
+          },
+        ],
+      }), { status: 200 }))
+    ) as unknown as typeof fetch;
+
+    const { readThread } = await import("../read");
+    const [message] = await readThread(provider, "thread123");
+
+    expect(message).toMatchObject({
+      date: "2025-02-04T10:00:00.000Z",
+      textBody: "Report attached",
+      htmlBody: "<p>Report attached</p>",
+      importance: "high",
+      isRead: false,
+      flagged: true,
+    });
+    expect(message!.attachments).toEqual([
+      { id: "ANGjdJ_logo", filename: "logo.png", mimeType: "image/png", size: 200, inline: true },
+      { id: "ANGjdJ_report", filename: "report.pdf", mimeType: "application/pdf", size: 5000, inline: false },
+    ]);
+  });
 });
@@ -0,0 +1,108 @@
+import { test, expect, describe } from "bun:test";
+import { renderHtml, renderMessageBody, renderThreadMarkdown, collapseTextQuotes, wrapText } from "../render";
+import type { ThreadMessage } from "../read";
+
+describe("render", () => {
+  test("links become footnotes and text is wrapped", () => {
+    const html = `<p>See the <a href="https://example.com/report">quarterly report</a> and the
+      <a href="https://example.com/report">same link</a> before Friday, thanks!</p>
+      <p><a href="https://example.com">https://example.com</a> <a href="mailto:bob@example.com">bob@example.com</a></p>`;
+
+    expect(renderHtml(html, "text", { width: 40 })).toBe(
+      [
+        "See the quarterly report [1] and the",
+        "same link [1] before Friday, thanks!",
+        "",
+        "https://example.com bob@example.com",
+        "",
+        "[1] https://example.com/report",
+      ].join("\n")
+    );
+    expect(renderHtml(html, "markdown")).toContain("See the [quarterly report][1] and the [same link][1]");
+    expect(renderHtml(html, "markdown")).toEndWith("[1]: https://example.com/report");
+  });
+
+  test("collapses Gmail and Outlook reply history", () => {
+    const gmail = `<div dir="ltr">Sounds good.</div><br><div class="gmail_quote"><div class="gmail_attr">On Mon, Bob wrote:</div><blockquote>Earlier</blockquote></div>`;
+    const outlook = `<html><head><style>p{margin:0}</style></head><body><div>Thanks!</div><div id="appendonsend"></div><hr><div id="divRplyFwdMsg"><b>From:</b> Bob</div><div>Original message</div></body></html>`;
+
+    expect(renderHtml(gmail, "text")).toBe("Sounds good.\n\n[quoted text hidden]");
+    expect(renderHtml(outlook, "text")).toBe("Thanks!\n\n[quoted text hidden]");
+    expect(renderHtml(outlook, "text", { keepQuotes: true })).toContain("Original message");
+  });
+
+  test("renders lists, data tables, layout tables and images", () => {
+    const html = `<h2>Order</h2>
+      <ul><li>First</li><li><b>Second</b><ol start="3"><li>nested</li></ol></li></ul>
+      <table><tr><th>Item</th><th>Qty</th></tr><tr><td>Pears &amp; plums</td><td>12</td></tr></table>
+      <table width="600"><tr><td><p>Layout paragraph</p><img src="cid:logo" alt="Logo"><img src="https://t.example/p.gif" width="1" height="1"></td></tr></table>`;
+
+    expect(renderHtml(html, "markdown")).toBe(
+      [
+        "## Order",
+        "",
+        "- First",
+        "- **Second**",
+        "  3. nested",
+        "",
+        "| Item | Qty |",
+        "| --- | --- |",
+        "| Pears & plums | 12 |",
+        "",
+        "Layout paragraph",
+        "",
+        "[image: Logo]",
+      ].join("\n")
+    );
+    expect(renderHtml(html, "text")).toContain("Item           Qty\nPears & plums  12");
+    expect(renderHtml(html, "text")).toContain("Order\n-----");
+  });
+
+  test("plain-text bodies collapse quotes and wrap", () => {
+    expect(collapseTextQuotes("Sure.\n\nOn Mon, Feb 3, Bob wrote:\n> hi\n> there")).toEqual({ text: "Sure.", collapsed: true });
+    expect(collapseTextQuotes("Hi\n-----Original Message-----\nFrom: Bob").text).toBe("Hi");
+    expect(collapseTextQuotes("No quotes here").collapsed).toBe(false);
+    expect(wrapText("one two three https://example.com/a-very-long-url", 10)).toBe(
+      "one two\nthree\nhttps://example.com/a-very-long-url"
+    );
+    expect(renderMessageBody({ textBody: "Plain", htmlBody: "<p>Rich</p>" }, "html")).toBe("<p>Rich</p>");
+  });
+
+  test("renderThreadMarkdown lists headers, bodies and attachments", () => {
+    const message: ThreadMessage = {
+      id: "m1",
+      threadId: "t1",
+      subject: "Report",
+      from: { email: "alice@example.com", name: "Alice" },
+      to: [{ email: "bob@example.com", name: "" }],
+      cc: [],
+      date: "2025-02-04T10:00:00.000Z",
+      snippet: "",
+      textBody: "",
+      htmlBody: "<p>Attached.</p>",
+      attachments: [
+        { id: "a1", filename: "report.pdf", mimeType: "application/pdf", size: 20480, inline: false },
+        { id: "a2", filename: "logo.png", mimeType: "image/png", size: 300, inline: true },
+      ],
+      importance: "normal",
+      isRead: true,
+      flagged: false,
+    };
+
+    expect(renderThreadMarkdown([message])).toBe(
+      [
+        "# Report",
+        "",
+        "**From:** Alice <alice@example.com>  ",
+        "**To:** bob@example.com  ",
+        "**Date:** 2025-02-04T10:00:00.000Z  ",
+        "",
+        "Attached.",
+        "",
+        "**Attachments:**",
+        "- report.pdf (20 KB)",
+        "",
+      ].join("\n")
+    );
+  });
+});
@@ -127,6 +127,101 @@ describe("reply.ts with ConnectionProvider", () => {
     expect(result.success).toBe(true);
   });
 
+  describe("forward content", () => {
+    const pdf = Buffer.from("%PDF-1.4 invoice");
+
+    function gmailMessage(id: string, from: string, date: string, text: string, withAttachment: boolean) {
+      return {
+        id,
+        labelIds: ["INBOX"],
+        snippet: text,
+        payload: {
+          mimeType: "multipart/mixed",
+          headers: [
+            { name: "Subject", value: "Invoice 42" },
+            { name: "From", value: from },
+            { name: "To", value: "me@example.com" },
+            { name: "Cc", value: "Finance <finance@example.com>" },
+            { name: "Date", value: date },
+          ],
+          parts: [
+            { mimeType: "text/plain", body: { data: Buffer.from(text).toString("base64url") } },
+            ...(withAttachment
+              ? [{ mimeType: "application/pdf", filename: `${id}.pdf`, body: { attachmentId: `att-${id}`, size: pdf.length } }]
+              : []),
+          ],
+        },
+      };
+    }
+
+    function mockForwardThread() {
+      const sent: string[] = [];
+      const thread = {
+        id: "thread1",
+        messages: [
+          gmailMessage("msg1", "Alice <alice@example.com>", "Tue, 4 Feb 2025 10:00:00 +0000", "Please pay", true),
+          gmailMessage("msg2", "Bob <bob@example.com>", "Wed, 5 Feb 2025 09:30:00 +0000", "Paid, thanks", false),
+        ],
+      };
+      globalThis.fetch = mock((url: string, init?: RequestInit) => {
+        const json = (data: unknown) =>
+          Promise.resolve(new Response(JSON.stringify(data), { status: 200 }));
+        if (url.includes("/threads/thread1")) return json(thread);
+        const att = url.match(/\/messages\/(\w+)\/attachments\//);
+        if (att) return json({ data: pdf.toString("base64url"), size: pdf.length });
+        if (url.endsWith("/messages/send")) {
+          sent.push(Buffer.from(JSON.parse(init!.body as string).raw, "base64url").toString("latin1"));
+          return json({ id: "sent1", threadId: "sent-thread" });
+        }
+        return Promise.resolve(new Response("{}", { status: 404 }));
+      }) as unknown as typeof fetch;
+      return sent;
+    }
+
+    test("quotes the original sender, date and Cc and carries its attachments", async () => {
+      const token = createTestToken();
+      setTokenCacheForTest(token.email, token);
+      const sent = mockForwardThread();
+
+      const { forwardThread } = await import("../reply");
+      const { parseMimeMessage } = await import("../mime");
+      const result = await forwardThread(new CachedTokenProvider(token.email), "thread1", "carol@example.com", "FYI", true, {
+        messageId: "msg1",
+      });
+
+      expect(result.success).toBe(true);
+      const message = parseMimeMessage(new Uint8Array(Buffer.from(sent[0]!, "latin1")));
+      expect(message.headers.subject).toBe("Fwd: Invoice 42");
+      expect(message.html).toContain("From: Alice &lt;alice@example.com&gt;");
+      expect(message.html).toContain("Date: Tue, 4 Feb 2025 10:00:00 +0000");
+      expect(message.html).toContain("Cc: Finance &lt;finance@example.com&gt;");
+      expect(message.html).toContain("Please pay");
+      expect(message.html).not.toContain("Paid, thanks");
+      expect(message.attachments.map((a) => a.filename)).toEqual(["msg1.pdf"]);
+      expect(Buffer.from(message.attachments[0]!.data).toString()).toBe("%PDF-1.4 invoice");
+    });
+
+    test("forwards the latest message by default and the whole thread with all", async () => {
+      const token = createTestToken();
+      const { buildForwardContent } = await import("../reply");
+      mockForwardThread();
+
+      const latest = await buildForwardContent(token, "thread1", "");
+      expect(latest.content!.body).toContain("Paid, thanks");
+      expect(latest.content!.body).not.toContain("Please pay");
+      expect(latest.content!.attachments).toEqual([]);
+
+      const digest = await buildForwardContent(token, "thread1", "", { all: true });
+      const body = digest.content!.body;
+      expect(body.match(/Forwarded message/g)).toHaveLength(2);
+      expect(body.indexOf("Please pay")).toBeLessThan(body.indexOf("Paid, thanks"));
+      expect(digest.content!.attachments.map((a) => a.filename)).toEqual(["msg1.pdf"]);
+
+      const missing = await buildForwardContent(token, "thread1", "", { messageId: "nope" });
+      expect(missing).toEqual({ success: false, error: "Message nope not found in thread thread1" });
+    });
+  });
+
   test("replyToThread creates draft when send=false", async () => {
     const token = createTestToken();
     setTokenCacheForTest(token.email, token);
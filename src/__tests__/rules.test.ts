@@ -0,0 +1,255 @@
+import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+
+const TEST_CONFIG_DIR = "/tmp/superhuman-cli-rules-test";
+process.env.SUPERHUMAN_CLI_CONFIG_DIR = TEST_CONFIG_DIR;
+
+import { CachedTokenProvider } from "../connection-provider";
+import { clearTokenCache, setTokenCacheForTest, type TokenInfo } from "../token-api";
+import { loadRules, validateRules, evaluateRules, runRules, type Rule } from "../rules";
+import { listOperations } from "../history";
+
+function createTestToken(overrides: Partial<TokenInfo> = {}): TokenInfo {
+  return {
+    accessToken: "test-access-token",
+    email: "me@example.com",
+    expires: Date.now() + 3600000,
+    isMicrosoft: false,
+    ...overrides,
+  };
+}
+
+function jsonResponse(body: unknown) {
+  return Promise.resolve({
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as Response);
+}
+
+const gmailThread = {
+  id: "t1",
+  messages: [
+    {
+      id: "m1",
+      snippet: "Your weekly digest",
+      payload: {
+        mimeType: "text/plain",
+        headers: [
+          { name: "Subject", value: "Weekly digest #12" },
+          { name: "From", value: "News <noreply@news.example.com>" },
+          { name: "To", value: "Me <me@example.com>" },
+          { name: "Date", value: "Tue, 4 Feb 2025 10:00:00 +0000" },
+        ],
+        body: { data: Buffer.from("Unsubscribe at any time").toString("base64url") },
+      },
+    },
+  ],
+};
+
+const newsletterRule: Rule = {
+  name: "Newsletters",
+  match: { from: "noreply@", body: "unsubscribe" },
+  actions: ["archive"],
+};
+
+describe("rules", () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(async () => {
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+    await mkdir(TEST_CONFIG_DIR, { recursive: true });
+    clearTokenCache();
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+    clearTokenCache();
+  });
+
+  test("loadRules parses YAML from the config dir", async () => {
+    await Bun.write(
+      `${TEST_CONFIG_DIR}/rules.yaml`,
+      [
+        "rules:",
+        "  - name: Receipts",
+        "    match:",
+        "      subject: /receipt|invoice/",
+        "      hasAttachment: true",
+        "    actions:",
+        "      - markRead",
+        "      - addLabel: Receipts",
+        "    stop: true",
+      ].join("\n")
+    );
+
+    const { path, rules } = await loadRules();
+
+    expect(path).toBe(`${TEST_CONFIG_DIR}/rules.yaml`);
+    expect(rules).toEqual([
+      {
+        name: "Receipts",
+        match: { subject: "/receipt|invoice/", hasAttachment: true },
+        actions: ["markRead", { addLabel: "Receipts" }],
+        stop: true,
+      },
+    ]);
+  });
+
+  test("validateRules rejects unknown conditions and actions", () => {
+    expect(() => validateRules({})).toThrow("top-level 'rules' list");
+    expect(() =>
+      validateRules({ rules: [{ name: "x", match: { sender: "a" }, actions: ["archive"] }] })
+    ).toThrow("unknown condition 'sender'");
+    expect(() =>
+      validateRules({ rules: [{ name: "x", match: { from: "a" }, actions: ["explode"] }] })
+    ).toThrow("unknown action");
+    expect(() =>
+      validateRules({ rules: [{ name: "x", match: { body: "(" }, actions: ["archive"] }] })
+    ).toThrow("invalid regular expression");
+  });
+
+  test("evaluateRules reports each condition", async () => {
+    const token = createTestToken();
+    setTokenCacheForTest(token.email, token);
+    const provider = new CachedTokenProvider(token.email);
+    globalThis.fetch = mock(() => jsonResponse(gmailThread)) as unknown as typeof fetch;
+
+    const rules: Rule[] = [
+      newsletterRule,
+      { name: "From boss", match: { from: "boss@example.com" }, actions: ["star"] },
+    ];
+    const evaluations = await evaluateRules(provider, rules, "t1");
+
+    expect(evaluations.map((e) => [e.rule.name, e.matched])).toEqual([
+      ["Newsletters", true],
+      ["From boss", false],
+    ]);
+    expect(evaluations[0]!.conditions).toEqual([
+      { condition: "from", matched: true },
+      { condition: "body", matched: true },
+    ]);
+  });
+
+  test("runRules applies actions once and dry-run changes nothing", async () => {
+    const token = createTestToken();
+    setTokenCacheForTest(token.email, token);
+    const provider = new CachedTokenProvider(token.email);
+
+    const fetchMock = mock((url: string) => {
+      if (url.includes("/modify")) return jsonResponse({ id: "t1" });
+      return jsonResponse(gmailThread);
+    });
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    const modifyCalls = () => fetchMock.mock.calls.filter(([url]) => String(url).includes("/modify")).length;
+
+    const threads = [{ id: "t1", subject: "Weekly digest #12" }];
+
+    const dryRun = await runRules(provider, [newsletterRule], threads, { dryRun: true });
+    expect(dryRun).toEqual([
+      { threadId: "t1", subject: "Weekly digest #12", rule: "Newsletters", actions: [{ action: "archive", success: true }] },
+    ]);
+    expect(modifyCalls()).toBe(0);
+
+    const first = await runRules(provider, [newsletterRule], threads);
+    expect(first[0]!.actions).toEqual([{ action: "archive", success: true, error: undefined, operationId: expect.any(String) }]);
+    expect(modifyCalls()).toBe(1);
+    const [operation] = await listOperations();
+    expect(operation).toMatchObject({ id: first[0]!.actions[0]!.operationId, kind: "archive", account: "me@example.com" });
+    expect(operation!.threads.map((t) => t.threadId)).toEqual(["t1"]);
+
+    const second = await runRules(provider, [newsletterRule], threads);
+    expect(second).toEqual([]);
+    expect(modifyCalls()).toBe(1);
+  });
+
+  test("runRules retries a rule whose action failed", async () => {
+    const token = createTestToken();
+    setTokenCacheForTest(token.email, token);
+    const provider = new CachedTokenProvider(token.email);
+
+    let modifyCalls = 0;
+    globalThis.fetch = mock((url: string) => {
+      if (url.includes("/modify")) {
+        modifyCalls++;
+        if (modifyCalls === 1) return Promise.resolve(new Response(JSON.stringify({ error: { message: "Backend Error" } }), { status: 400 }));
+        return jsonResponse({ id: "t1" });
+      }
+      return jsonResponse(gmailThread);
+    }) as unknown as typeof fetch;
+
+    const threads = [{ id: "t1", subject: "Weekly digest #12" }];
+
+    const first = await runRules(provider, [newsletterRule], threads);
+    expect(first[0]!.actions[0]!.success).toBe(false);
+
+    const second = await runRules(provider, [newsletterRule], threads);
+    expect(second[0]!.actions[0]!.success).toBe(true);
+    expect(modifyCalls).toBe(2);
+
+    expect(await runRules(provider, [newsletterRule], threads)).toEqual([]);
+  });
+
+  test("reply rules fill recipient variables and refuse to send unfilled ones", async () => {
+    const token = createTestToken({ userId: "user123", idToken: "id-token" });
+    setTokenCacheForTest(token.email, token);
+    const provider = new CachedTokenProvider(token.email);
+
+    const snippetThreads = {
+      threadList: [
+        {
+          thread: {
+            id: "snippet-thread",
+            messages: {
+              draft00snippet: {
+                draft: { id: "draft00snippet", action: "snippet", name: "Intro", body: "<p>Hi {first_name} from {team}</p>" },
+              },
+            },
+          },
+        },
+      ],
+    };
+    const fetchMock = mock((url: string, _init?: RequestInit) => {
+      if (url.includes("userdata.getThreads")) return jsonResponse(snippetThreads);
+      if (url.includes("/messages/send")) return jsonResponse({ id: "sent1", threadId: "t1" });
+      return jsonResponse(gmailThread);
+    });
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    const sends = () => fetchMock.mock.calls.filter(([url]) => String(url).includes("/messages/send"));
+
+    const rule = (vars?: Record<string, string>): Rule => ({
+      name: vars ? "Intro with team" : "Intro",
+      match: { from: "noreply@" },
+      actions: [{ reply: { snippet: "Intro", send: true, vars } }],
+    });
+    const threads = [{ id: "t1", subject: "Weekly digest #12" }];
+
+    const [missing] = await runRules(provider, [rule()], threads);
+    expect(missing!.actions[0]).toMatchObject({ success: false, error: expect.stringContaining("Missing snippet variables: team") });
+    expect(sends()).toHaveLength(0);
+
+    const [sent] = await runRules(provider, [rule({ team: "Sales" })], threads);
+    expect(sent!.actions[0]!.success).toBe(true);
+    const raw = JSON.parse(sends()[0]![1]!.body as string).raw as string;
+    const mime = Buffer.from(raw, "base64url").toString();
+    expect(mime).toContain("Hi News from Sales");
+    expect(mime).not.toContain("{first_name}");
+  });
+
+  test("stop prevents later rules from running on the same thread", async () => {
+    const token = createTestToken();
+    setTokenCacheForTest(token.email, token);
+    const provider = new CachedTokenProvider(token.email);
+    globalThis.fetch = mock(() => jsonResponse(gmailThread)) as unknown as typeof fetch;
+
+    const rules: Rule[] = [
+      { ...newsletterRule, stop: true },
+      { name: "Everything", match: { subject: "digest" }, actions: ["star"] },
+    ];
+    const results = await runRules(provider, rules, [{ id: "t1", subject: "Weekly digest #12" }], { dryRun: true });
+
+    expect(results.map((r) => r.rule)).toEqual(["Newsletters"]);
+  });
+});
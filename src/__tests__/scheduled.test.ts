@@ -0,0 +1,129 @@
+import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+
+const TEST_CONFIG_DIR = "/tmp/superhuman-cli-scheduled-test";
+process.env.SUPERHUMAN_CLI_CONFIG_DIR = TEST_CONFIG_DIR;
+
+import { getUserInfoFromCache } from "../draft-api";
+import {
+  parseDuration,
+  parseSendAt,
+  parseSendTime,
+  scheduleDraftSend,
+  listScheduledSends,
+  getScheduledSendsPath,
+} from "../scheduled";
+
+function jsonResponse(body: unknown) {
+  return Promise.resolve({
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as Response);
+}
+
+const userInfo = getUserInfoFromCache("user123", "me@example.com", "token123");
+
+const draft = {
+  draftId: "draft00abcdef123456",
+  threadId: "draft00abcdef123456",
+  to: [{ email: "you@example.com" }],
+  subject: "Report",
+  htmlBody: "<p>Hi</p>",
+};
+
+describe("send time parsing", () => {
+  // Wednesday 4 Feb 2026, 10:00 local time
+  const now = new Date(2026, 1, 4, 10, 0);
+
+  test("parseDuration handles units and combinations", () => {
+    expect(parseDuration("30m")).toBe(30 * 60 * 1000);
+    expect(parseDuration("2h")).toBe(2 * 60 * 60 * 1000);
+    expect(parseDuration("1h30m")).toBe(90 * 60 * 1000);
+    expect(parseDuration("3 days")).toBe(3 * 24 * 60 * 60 * 1000);
+    expect(parseDuration("45min")).toBe(45 * 60 * 1000);
+    expect(() => parseDuration("soon")).toThrow("Invalid duration");
+    expect(() => parseDuration("2h later")).toThrow("Invalid duration");
+  });
+
+  test("parseSendAt resolves day and time phrases", () => {
+    expect(parseSendAt("tomorrow 9am", now)).toEqual(new Date(2026, 1, 5, 9, 0));
+    expect(parseSendAt("5pm", now)).toEqual(new Date(2026, 1, 4, 17, 0));
+    expect(parseSendAt("9am", now)).toEqual(new Date(2026, 1, 5, 9, 0));
+    expect(parseSendAt("friday 14:30", now)).toEqual(new Date(2026, 1, 6, 14, 30));
+    expect(parseSendAt("wed 9am", now)).toEqual(new Date(2026, 1, 11, 9, 0));
+    expect(parseSendAt("monday", now)).toEqual(new Date(2026, 1, 9, 9, 0));
+    expect(parseSendAt("2026-03-01 08:15", now)).toEqual(new Date(2026, 2, 1, 8, 15));
+    expect(parseSendAt("2026-03-01T08:15:00Z", now)).toEqual(new Date("2026-03-01T08:15:00Z"));
+    expect(() => parseSendAt("whenever", now)).toThrow("Invalid send time");
+  });
+
+  test("parseSendTime rejects past times and conflicting options", () => {
+    expect(parseSendTime({}, now)).toBeNull();
+    expect(parseSendTime({ in: "2h" }, now)).toEqual(new Date(2026, 1, 4, 12, 0));
+    expect(() => parseSendTime({ at: "2026-01-01 09:00" }, now)).toThrow("in the past");
+    expect(() => parseSendTime({ at: "5pm", in: "2h" }, now)).toThrow("either --at or --in");
+  });
+});
+
+describe("scheduled sends", () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(async () => {
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+    await mkdir(TEST_CONFIG_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    try { await rm(TEST_CONFIG_DIR, { recursive: true }); } catch {}
+  });
+
+  test("scheduleDraftSend sends with a delay and records the send", async () => {
+    const sendAt = new Date(Date.now() + 2 * 60 * 60 * 1000);
+    const fetchMock = mock(() => jsonResponse({ send_at: sendAt.getTime() }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const result = await scheduleDraftSend(userInfo, draft, sendAt);
+
+    expect(result.success).toBe(true);
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const body = JSON.parse(init.body as string);
+    expect(body.delay).toBeGreaterThan(7190);
+    expect(body.delay).toBeLessThanOrEqual(7200);
+    expect(result.scheduled).toMatchObject({
+      id: body.outgoing_message.superhuman_id,
+      account: "me@example.com",
+      draftId: draft.draftId,
+      to: ["you@example.com"],
+      subject: "Report",
+      sendAt: sendAt.getTime(),
+    });
+
+    expect(await listScheduledSends()).toEqual([result.scheduled!]);
+    expect(await listScheduledSends("other@example.com")).toEqual([]);
+  });
+
+  test("listScheduledSends drops sends whose time has passed", async () => {
+    const entry = {
+      account: "me@example.com",
+      draftId: "draft00a",
+      threadId: "draft00a",
+      to: ["you@example.com"],
+      subject: "x",
+      createdAt: Date.now() - 60000,
+    };
+    await Bun.write(
+      getScheduledSendsPath(),
+      JSON.stringify([
+        { ...entry, id: "later", sendAt: Date.now() + 60000 },
+        { ...entry, id: "sent", sendAt: Date.now() - 1000 },
+      ])
+    );
+
+    expect((await listScheduledSends()).map((e) => e.id)).toEqual(["later"]);
+    const ledger = await Bun.file(getScheduledSendsPath()).json();
+    expect(ledger.map((e: { id: string }) => e.id)).toEqual(["later"]);
+  });
+});
@@ -0,0 +1,248 @@
+import { test, expect, describe, afterEach, mock } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  applyVars,
+  createSnippet,
+  exportSnippets,
+  findVariables,
+  formatSnippetFile,
+  importSnippets,
+  markdownToHtml,
+  missingVariables,
+  parseSnippetFile,
+  readSnippetDir,
+  recipientVars,
+  resolveSnippetVars,
+  snippetFileName,
+  type Snippet,
+} from "../snippets";
+import { getUserInfoFromCache } from "../draft-api";
+import type { ConnectionProvider } from "../connection-provider";
+import type { TokenInfo } from "../token-api";
+
+function snippet(overrides: Partial<Snippet> = {}): Snippet {
+  return {
+    id: "draft001",
+    threadId: "draft001",
+    name: "Zoom link",
+    body: "<p>Join at https://zoom.us/j/123</p>",
+    subject: "Join our call",
+    snippet: "Join at https://zoom.us/j/123",
+    to: [],
+    cc: ["team@example.com"],
+    bcc: [],
+    shared: true,
+    sends: 4,
+    lastSentAt: null,
+    ...overrides,
+  };
+}
+
+/** Mock fetch answering every request with {}, recording the written draft values */
+function mockBackend() {
+  const writes: Array<{ path: string; value: any }> = [];
+  globalThis.fetch = mock((_url: string, init: RequestInit) => {
+    const body = JSON.parse(init.body as string);
+    writes.push(...body.writes);
+    return Promise.resolve(new Response("{}", { status: 200 }));
+  }) as unknown as typeof fetch;
+  return writes;
+}
+
+describe("template variables", () => {
+  const now = new Date(2026, 9, 19, 15, 30);
+
+  test("findVariables lists each variable once with its format and default", () => {
+    expect(findVariables("Hi {first_name:title}", "<p>{first_name} on {date:weekday|tomorrow}, {date}</p>")).toEqual([
+      { name: "first_name", format: "title", default: undefined },
+      { name: "date", format: "weekday", default: "tomorrow" },
+    ]);
+    // CSS and unknown formatters are not placeholders
+    expect(findVariables("<style>p {margin:0}</style>{x:bogus}")).toEqual([]);
+  });
+
+  test("applyVars applies values, defaults and formatters", () => {
+    const text = "{first_name:title}, see you {date:weekday|tomorrow} ({date|today}) at {company|our office} {missing}";
+    expect(applyVars(text, { first_name: "jANE" }, now)).toBe(
+      "Jane, see you Tuesday (October 19, 2026) at our office {missing}"
+    );
+    expect(applyVars("{date:iso} / {date:date} / {date:upper}", { date: "2026-02-05" })).toBe(
+      "2026-02-05 / February 5, 2026 / 2026-02-05"
+    );
+    expect(applyVars("{name:upper}", { name: "Bob" })).toBe("BOB");
+  });
+
+  test("missingVariables skips given values and defaults", () => {
+    const variables = findVariables("{a} {b|x} {c}");
+    expect(missingVariables(variables, { a: "1" }).map((v) => v.name)).toEqual(["c"]);
+  });
+
+  test("recipientVars splits the contact name", () => {
+    expect(recipientVars({ email: "jane@example.com", name: "Jane van Doe" })).toEqual({
+      email: "jane@example.com",
+      name: "Jane van Doe",
+      first_name: "Jane",
+      last_name: "van Doe",
+    });
+    expect(recipientVars({ email: "x@example.com", name: "" })).toEqual({ email: "x@example.com" });
+  });
+
+  describe("resolveSnippetVars", () => {
+    const originalFetch = globalThis.fetch;
+    const token: TokenInfo = { accessToken: "t", email: "me@example.com", expires: Date.now() + 3600000, isMicrosoft: false };
+    const provider: ConnectionProvider = {
+      getToken: async () => token,
+      getCurrentEmail: async () => token.email,
+      getAccountInfo: async () => ({ email: token.email, isMicrosoft: false, provider: "google" }),
+      disconnect: async () => {},
+    };
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    function mockPeople() {
+      const urls: string[] = [];
+      globalThis.fetch = mock((url: string) => {
+        urls.push(url);
+        const results = [
+          { person: { names: [{ displayName: "Janet Roe" }], emailAddresses: [{ value: "janet@example.com" }] } },
+          { person: { names: [{ displayName: "Jane Doe" }], emailAddresses: [{ value: "Jane@example.com" }] } },
+        ];
+        return Promise.resolve(new Response(JSON.stringify({ results }), { status: 200 }));
+      }) as unknown as typeof fetch;
+      return urls;
+    }
+
+    test("fills recipient variables from the matching contact; given values win", async () => {
+      const urls = mockPeople();
+      const vars = await resolveSnippetVars(provider, findVariables("Hi {first_name} {last_name}"), { last_name: "D." }, "jane@example.com");
+      expect(vars).toEqual({ email: "jane@example.com", name: "Jane Doe", first_name: "Jane", last_name: "D." });
+      expect(urls).toHaveLength(1);
+    });
+
+    test("skips the lookup when no recipient variable is needed", async () => {
+      const urls = mockPeople();
+      const vars = await resolveSnippetVars(provider, findVariables("{first_name} {date}"), { first_name: "Al" }, "jane@example.com");
+      expect(vars).toEqual({ first_name: "Al" });
+      expect(urls).toHaveLength(0);
+    });
+  });
+});
+
+describe("snippet files", () => {
+  test("format and parse round trip", () => {
+    const original = snippet({ name: " #1 reply", to: ["a@example.com", "b@example.com"] });
+    const file = parseSnippetFile(formatSnippetFile(original), "reply.md");
+
+    expect(file.id).toBe("draft001");
+    expect(file.input).toEqual({
+      name: " #1 reply",
+      subject: "Join our call",
+      body: "<p>Join at https://zoom.us/j/123</p>",
+      to: ["a@example.com", "b@example.com"],
+      cc: ["team@example.com"],
+      bcc: [],
+      shared: true,
+    });
+  });
+
+  test("parse converts markdown bodies and requires a name", () => {
+    const file = parseSnippetFile("---\nname: Intro\nshared: no\n---\nHi {first_name},\n\n- **one**\n- two\n");
+    expect(file.id).toBeUndefined();
+    expect(file.input.shared).toBe(false);
+    expect(file.input.body).toBe("<p>Hi {first_name},</p><ul><li><strong>one</strong></li><li>two</li></ul>");
+
+    expect(() => parseSnippetFile("no front-matter", "x.md")).toThrow("x.md: missing front-matter");
+    expect(() => parseSnippetFile("---\nsubject: Hi\n---\nbody", "y.md")).toThrow("y.md: front-matter has no name");
+  });
+
+  test("markdownToHtml handles inline formatting and numbered lists", () => {
+    expect(markdownToHtml("See [docs](https://x.io) and `code`, *now*\nthanks")).toBe(
+      '<p>See <a href="https://x.io">docs</a> and <code>code</code>, <em>now</em><br>thanks</p>'
+    );
+    expect(markdownToHtml("1. a < b\n2. c")).toBe("<ol><li>a &lt; b</li><li>c</li></ol>");
+  });
+
+  test("export writes one file per snippet and import reads them back", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "snippets-test-"));
+    try {
+      const paths = await exportSnippets([snippet(), snippet({ id: "draft002", name: "Zoom Link!" })], dir);
+      expect(paths).toEqual([join(dir, "zoom-link.md"), join(dir, "zoom-link-2.md")]);
+      expect(snippetFileName("???")).toBe("snippet.md");
+
+      const files = await readSnippetDir(dir);
+      expect(files.map((f) => f.id)).toEqual(["draft002", "draft001"]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("snippet authoring", () => {
+  const originalFetch = globalThis.fetch;
+  const userInfo = getUserInfoFromCache("user123", "me@example.com", "id-token");
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("create writes a snippet draft with name and sharing", async () => {
+    const writes = mockBackend();
+
+    const result = await createSnippet(userInfo, {
+      name: " Zoom link ",
+      body: "<p>Join</p>",
+      cc: ["team@example.com"],
+      shared: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.snippet?.name).toBe("Zoom link");
+    expect(writes).toHaveLength(1);
+    expect(writes[0]!.value).toMatchObject({
+      action: "snippet",
+      name: "Zoom link",
+      body: "<p>Join</p>",
+      cc: ["team@example.com"],
+      sharedWithTeam: true,
+    });
+  });
+
+  test("create rejects an empty name", async () => {
+    const writes = mockBackend();
+    const result = await createSnippet(userInfo, { name: "  " });
+    expect(result).toEqual({ success: false, error: "Snippet name is required" });
+    expect(writes).toHaveLength(0);
+  });
+
+  test("import creates, updates and skips unchanged snippets", async () => {
+    const writes = mockBackend();
+    const existing = [snippet(), snippet({ id: "draft002", threadId: "draft002", name: "Follow up", shared: false })];
+    const files = [
+      // Unchanged, matched by id
+      parseSnippetFile(formatSnippetFile(existing[0]!), "zoom-link.md"),
+      // Changed body, matched by name
+      parseSnippetFile("---\nname: follow up\n---\n<p>New</p>", "follow-up.md"),
+      // New
+      parseSnippetFile("---\nname: Thanks\n---\nThanks!", "thanks.md"),
+    ];
+
+    const dryRun = await importSnippets(userInfo, files, existing, { dryRun: true });
+    expect(dryRun.map((c) => c.action)).toEqual(["unchanged", "update", "create"]);
+    expect(writes).toHaveLength(0);
+
+    const changes = await importSnippets(userInfo, files, existing);
+    expect(changes.map((c) => [c.name, c.action, c.error])).toEqual([
+      ["Zoom link", "unchanged", undefined],
+      ["follow up", "update", undefined],
+      ["Thanks", "create", undefined],
+    ]);
+    expect(writes).toHaveLength(2);
+    expect(writes[0]!.path).toBe("users/user123/threads/draft002/messages/draft002/draft");
+    expect(writes[0]!.value).toMatchObject({ action: "snippet", name: "follow up", body: "<p>New</p>" });
+    expect(writes[1]!.value).toMatchObject({ action: "snippet", name: "Thanks", body: "<p>Thanks!</p>" });
+  });
+});
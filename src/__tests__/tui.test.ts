@@ -0,0 +1,168 @@
+import { test, expect, describe } from "bun:test";
+import {
+  createTuiState,
+  handleKey,
+  loadInbox,
+  loadSelectedThread,
+  renderScreen,
+  splitKeys,
+  type TuiActions,
+} from "../tui";
+import type { InboxThread } from "../inbox";
+import type { ThreadMessage } from "../read";
+
+function thread(id: string, subject: string, unread = false): InboxThread {
+  return {
+    id,
+    subject,
+    from: { email: `${id}@example.com`, name: `Sender ${id}` },
+    date: "2025-02-04T10:00:00Z",
+    snippet: "",
+    labelIds: unread ? ["INBOX", "UNREAD"] : ["INBOX"],
+    messageCount: 1,
+  };
+}
+
+function message(threadId: string, flagged = false): ThreadMessage {
+  return {
+    id: `${threadId}-m1`,
+    threadId,
+    subject: `Subject ${threadId}`,
+    from: { email: "alice@example.com", name: "Alice" },
+    to: [],
+    cc: [],
+    date: "2025-02-04T10:00:00.000Z",
+    snippet: "",
+    textBody: `Body of ${threadId}`,
+    htmlBody: "",
+    attachments: [],
+    importance: "normal",
+    isRead: true,
+    flagged,
+  };
+}
+
+/** Fake mail backend recording every call */
+function fakeActions(inboxes: Record<string, InboxThread[]>) {
+  const calls: string[] = [];
+  const ok = async () => ({ success: true });
+  const actions: TuiActions = {
+    listInbox: async (account) => {
+      calls.push(`list ${account}`);
+      return [...(inboxes[account] || [])];
+    },
+    readThread: async (_account, threadId) => [message(threadId, threadId === "t2")],
+    archive: async (account, threadId) => {
+      calls.push(`archive ${account} ${threadId}`);
+      return ok();
+    },
+    snooze: async (_account, threadId, until) => {
+      calls.push(`snooze ${threadId} ${until.toISOString()}`);
+      return ok();
+    },
+    reply: async (_account, threadId, body) => {
+      calls.push(`reply ${threadId} ${body}`);
+      return ok();
+    },
+    label: async (_account, threadId, label) => {
+      calls.push(`label ${threadId} ${label}`);
+      return label === "Missing" ? { success: false, error: 'Label "Missing" not found' } : ok();
+    },
+    star: async (_account, threadId, starred) => {
+      calls.push(`${starred ? "star" : "unstar"} ${threadId}`);
+      return ok();
+    },
+  };
+  return { actions, calls };
+}
+
+async function press(state: ReturnType<typeof createTuiState>, actions: TuiActions, keys: string) {
+  for (const key of splitKeys(keys)) {
+    await handleKey(state, key, actions);
+  }
+}
+
+describe("tui", () => {
+  test("navigates, archives and stars the selected thread", async () => {
+    const { actions, calls } = fakeActions({
+      "me@example.com": [thread("t1", "First", true), thread("t2", "Second"), thread("t3", "Third")],
+    });
+    const state = createTuiState(["me@example.com"]);
+    await loadInbox(state, actions);
+
+    await press(state, actions, "jj\x1b[A");
+    expect(state.selected).toBe(1);
+
+    await press(state, actions, "s");
+    expect(state.status).toBe("Unstarred");
+
+    await press(state, actions, "e");
+    expect(state.threads.map((t) => t.id)).toEqual(["t1", "t3"]);
+    expect(state.threads[state.selected]!.id).toBe("t3");
+
+    await press(state, actions, "s");
+    expect(calls.slice(1)).toEqual(["unstar t2", "archive me@example.com t2", "star t3"]);
+  });
+
+  test("snooze, reply and label prompt for input", async () => {
+    const { actions, calls } = fakeActions({ "me@example.com": [thread("t1", "First"), thread("t2", "Second")] });
+    const state = createTuiState(["me@example.com"]);
+    await loadInbox(state, actions);
+
+    await press(state, actions, "rThanks, on it\x7f\x7f\x7f\x7f\x7fdone!\r");
+    expect(calls).toContain("reply t1 Thanks, done!");
+    expect(state.status).toBe("Reply sent");
+
+    await press(state, actions, "lMissing\r");
+    expect(state.status).toBe('Failed to label: Label "Missing" not found');
+
+    await press(state, actions, "hsoon\r");
+    expect(state.status).toBe("Failed to snooze: Invalid snooze time: soon");
+
+    await press(state, actions, "h2030-01-02T09:00:00Z\r");
+    expect(calls.at(-1)).toBe("snooze t1 2030-01-02T09:00:00.000Z");
+    expect(state.threads.map((t) => t.id)).toEqual(["t2"]);
+
+    await press(state, actions, "lReceipts\x1b");
+    expect(state.prompt).toBeNull();
+    expect(calls.at(-1)).toBe("snooze t1 2030-01-02T09:00:00.000Z");
+  });
+
+  test("tab switches accounts and reloads the inbox", async () => {
+    const { actions, calls } = fakeActions({
+      "me@example.com": [thread("t1", "Personal")],
+      "work@example.com": [thread("w1", "Work"), thread("w2", "More work")],
+    });
+    const state = createTuiState(["me@example.com", "work@example.com"], "work@example.com");
+    await loadInbox(state, actions);
+    expect(state.threads.map((t) => t.id)).toEqual(["w1", "w2"]);
+
+    await press(state, actions, "\t");
+    expect(calls).toEqual(["list work@example.com", "list me@example.com"]);
+    expect(state.threads.map((t) => t.id)).toEqual(["t1"]);
+
+    await press(state, actions, "q");
+    expect(state.quit).toBe(true);
+  });
+
+  test("renders the thread list, reading pane and prompt", async () => {
+    const { actions } = fakeActions({ "me@example.com": [thread("t1", "Quarterly report", true), thread("t2", "Lunch")] });
+    const state = createTuiState(["me@example.com"]);
+    await loadInbox(state, actions);
+    await loadSelectedThread(state, actions);
+
+    const plain = (rows: string[]) => rows.map((row) => row.replace(/\x1b\[[0-9;]*m/g, ""));
+    const rows = plain(renderScreen(state, 100, 10));
+
+    expect(rows).toHaveLength(10);
+    expect(rows[0]).toStartWith(" superhuman  me@example.com");
+    expect(rows[1]).toContain("● Sender t1");
+    expect(rows[1]).toContain("Quarterly report");
+    expect(rows[1]).toContain("│ Quarterly report");
+    expect(rows.some((row) => row.includes("│ Body of t1"))).toBe(true);
+    expect(rows[9]).toContain("2 threads");
+
+    await press(state, actions, "r");
+    expect(plain(renderScreen(state, 100, 10))[9]).toBe("Reply (Enter sends): █");
+  });
+});
@@ -0,0 +1,298 @@
+import { test, expect, describe, afterEach, mock } from "bun:test";
+
+import { getWatchCursor, pollInboxChanges, watchInbox } from "../watch";
+import { threadMatchesQuery, type InboxThread } from "../inbox";
+import type { ConnectionProvider } from "../connection-provider";
+import type { TokenInfo } from "../token-api";
+import { gmailBatchResponse } from "./gmail-batch-mock";
+
+function createTestToken(overrides: Partial<TokenInfo> = {}): TokenInfo {
+  return {
+    accessToken: "test-access-token",
+    email: "test@example.com",
+    expires: Date.now() + 3600000,
+    isMicrosoft: false,
+    ...overrides,
+  };
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 404 ? "Not Found" : "OK",
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as Response);
+}
+
+function gmailThread(id: string, subject: string, from: string) {
+  return {
+    id,
+    historyId: "1",
+    messages: [
+      {
+        id: `${id}-m1`,
+        threadId: id,
+        labelIds: ["INBOX", "UNREAD"],
+        snippet: `${subject} snippet`,
+        internalDate: "1738663200000",
+        payload: {
+          headers: [
+            { name: "Subject", value: subject },
+            { name: "From", value: from },
+            { name: "Date", value: "Tue, 4 Feb 2025 10:00:00 +0000" },
+          ],
+        },
+      },
+    ],
+  };
+}
+
+describe("watch", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("Gmail poll reports threads from INBOX history and advances historyId", async () => {
+    const fetchMock = mock((url: string) => {
+      if (url.includes("/history?startHistoryId=10")) {
+        return jsonResponse({
+          historyId: "12",
+          history: [{ messagesAdded: [{ message: { id: "t1-m1", threadId: "t1", labelIds: ["INBOX"] } }] }],
+        });
+      }
+      return jsonResponse(gmailThread("t1", "Hello", "Alice <alice@example.com>"));
+    });
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const result = await pollInboxChanges(createTestToken(), { kind: "gmail", historyId: "10" });
+
+    expect(String(fetchMock.mock.calls[0]![0])).toContain("labelId=INBOX");
+    expect(result.cursor).toEqual({ kind: "gmail", historyId: "12" });
+    expect(result.threads).toHaveLength(1);
+    expect(result.threads[0]).toMatchObject({
+      id: "t1",
+      subject: "Hello",
+      from: { email: "alice@example.com", name: "Alice" },
+      labelIds: ["INBOX", "UNREAD"],
+      messageCount: 1,
+    });
+  });
+
+  test("expired Gmail historyId resets the cursor without reporting threads", async () => {
+    globalThis.fetch = mock((url: string) => {
+      if (url.includes("/history")) return jsonResponse({}, 404);
+      return jsonResponse({ historyId: "99" });
+    }) as unknown as typeof fetch;
+
+    const result = await pollInboxChanges(createTestToken(), { kind: "gmail", historyId: "1" });
+
+    expect(result.threads).toEqual([]);
+    expect(result.cursor).toEqual({ kind: "gmail", historyId: "99" });
+  });
+
+  test("Gmail poll throws when a changed thread can't be fetched", async () => {
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      if (url.includes("/history")) {
+        return jsonResponse({
+          historyId: "12",
+          history: [
+            { messagesAdded: [{ message: { id: "t1-m1", threadId: "t1", labelIds: ["INBOX"] } }] },
+            { messagesAdded: [{ message: { id: "t2-m1", threadId: "t2", labelIds: ["INBOX"] } }] },
+          ],
+        });
+      }
+      return gmailBatchResponse(init, (path) =>
+        path.includes("/threads/t1") ? { body: gmailThread("t1", "Hello", "Alice <alice@example.com>") } : { status: 404, body: {} }
+      );
+    }) as unknown as typeof fetch;
+
+    await expect(pollInboxChanges(createTestToken(), { kind: "gmail", historyId: "10" })).rejects.toThrow("t2");
+  });
+
+  test("MS Graph cursor starts at the latest delta token", async () => {
+    const fetchMock = mock(() =>
+      jsonResponse({ value: [], "@odata.deltaLink": "https://graph.microsoft.com/v1.0/me/mailFolders/Inbox/messages/delta?$deltatoken=x1" })
+    );
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const cursor = await getWatchCursor(createTestToken({ isMicrosoft: true }));
+
+    expect(String((fetchMock.mock.calls[0] as unknown[])[0])).toContain("$deltatoken=latest");
+    expect(cursor).toEqual({
+      kind: "msgraph",
+      deltaLink: "https://graph.microsoft.com/v1.0/me/mailFolders/Inbox/messages/delta?$deltatoken=x1",
+    });
+  });
+
+  test("MS Graph poll groups changed messages by conversation", async () => {
+    globalThis.fetch = mock((url: string) => {
+      if (url.includes("delta")) {
+        return jsonResponse({
+          value: [
+            {
+              id: "m1",
+              conversationId: "conv1",
+              subject: "Plan",
+              bodyPreview: "first",
+              from: { emailAddress: { address: "a@example.com", name: "A" } },
+              receivedDateTime: "2025-02-04T10:00:00Z",
+              isRead: true,
+            },
+            {
+              id: "m2",
+              conversationId: "conv1",
+              subject: "RE: Plan",
+              bodyPreview: "second",
+              from: { emailAddress: { address: "b@example.com", name: "B" } },
+              receivedDateTime: "2025-02-04T11:00:00Z",
+              isRead: false,
+            },
+            { id: "m0", "@removed": { reason: "deleted" } },
+          ],
+          "@odata.deltaLink": "https://graph.microsoft.com/v1.0/me/mailFolders/Inbox/messages/delta?$deltatoken=x2",
+        });
+      }
+      return jsonResponse({ value: [{ id: "m1" }, { id: "m2" }, { id: "m3" }] });
+    }) as unknown as typeof fetch;
+
+    const result = await pollInboxChanges(createTestToken({ isMicrosoft: true }), {
+      kind: "msgraph",
+      deltaLink: "https://graph.microsoft.com/v1.0/me/mailFolders/Inbox/messages/delta?$deltatoken=x1",
+    });
+
+    expect(result.threads).toEqual([
+      {
+        id: "conv1",
+        subject: "RE: Plan",
+        from: { email: "b@example.com", name: "B" },
+        date: "2025-02-04T11:00:00Z",
+        snippet: "second",
+        labelIds: ["UNREAD"],
+        messageCount: 3,
+      },
+    ]);
+    expect(result.cursor).toEqual({
+      kind: "msgraph",
+      deltaLink: "https://graph.microsoft.com/v1.0/me/mailFolders/Inbox/messages/delta?$deltatoken=x2",
+    });
+  });
+
+  test("watchInbox filters by query and stops when aborted", async () => {
+    let historyCalls = 0;
+    const thread = (id: string) =>
+      id === "a"
+        ? gmailThread("a", "Invoice 42", "Billing <billing@example.com>")
+        : gmailThread("b", "Lunch", "Bob <bob@example.com>");
+    globalThis.fetch = mock((url: string, init?: RequestInit) => {
+      if (url.includes("/profile")) return jsonResponse({ historyId: "1" });
+      if (url.includes("/history")) {
+        historyCalls++;
+        return jsonResponse({
+          historyId: String(1 + historyCalls),
+          history: [
+            { messagesAdded: [{ message: { id: "a-m1", threadId: "a", labelIds: ["INBOX"] } }] },
+            { messagesAdded: [{ message: { id: "b-m1", threadId: "b", labelIds: ["INBOX"] } }] },
+          ],
+        });
+      }
+      if (url.includes("/batch/gmail/v1")) {
+        return gmailBatchResponse(init, (path) => ({ body: thread(path.match(/\/threads\/(\w+)/)?.[1] ?? "") }));
+      }
+      return jsonResponse(thread(url.match(/\/threads\/(\w+)/)?.[1] ?? ""));
+    }) as unknown as typeof fetch;
+
+    const token = createTestToken();
+    const provider: ConnectionProvider = {
+      getToken: async () => token,
+      getCurrentEmail: async () => token.email,
+      getAccountInfo: async () => ({ email: token.email, isMicrosoft: false, provider: "google" }),
+      disconnect: async () => {},
+    };
+
+    const controller = new AbortController();
+    const seen: InboxThread[] = [];
+    await watchInbox(provider, {
+      query: "from:billing",
+      intervalMs: 1,
+      signal: controller.signal,
+      onThread: (thread) => {
+        seen.push(thread);
+        controller.abort();
+      },
+    });
+
+    expect(seen.map((t) => t.id)).toEqual(["a"]);
+    expect(historyCalls).toBe(1);
+  });
+
+  test("watchInbox keeps the cursor when a poll fails", async () => {
+    const historyIds: string[] = [];
+    let failNext = true;
+    globalThis.fetch = mock((url: string) => {
+      if (url.includes("/profile")) return jsonResponse({ historyId: "1" });
+      if (url.includes("/history")) {
+        historyIds.push(new URL(url).searchParams.get("startHistoryId")!);
+        return jsonResponse({
+          historyId: String(historyIds.length + 1),
+          history: [{ messagesAdded: [{ message: { id: "a-m1", threadId: "a", labelIds: ["INBOX"] } }] }],
+        });
+      }
+      const status = failNext ? 404 : 200;
+      failNext = false;
+      return jsonResponse(gmailThread("a", "Hi", "Al <al@example.com>"), status);
+    }) as unknown as typeof fetch;
+
+    const token = createTestToken();
+    const provider: ConnectionProvider = {
+      getToken: async () => token,
+      getCurrentEmail: async () => token.email,
+      getAccountInfo: async () => ({ email: token.email, isMicrosoft: false, provider: "google" }),
+      disconnect: async () => {},
+    };
+
+    const controller = new AbortController();
+    const errors: Error[] = [];
+    const seen: string[] = [];
+    await watchInbox(provider, {
+      intervalMs: 1,
+      signal: controller.signal,
+      onThread: (thread) => {
+        seen.push(thread.id);
+        controller.abort();
+      },
+      onError: (err) => errors.push(err),
+    });
+
+    expect(errors).toHaveLength(1);
+    expect(historyIds).toEqual(["1", "1"]);
+    expect(seen).toEqual(["a"]);
+  });
+});
+
+describe("threadMatchesQuery", () => {
+  const thread: InboxThread = {
+    id: "t1",
+    subject: "Quarterly report",
+    from: { email: "alice@example.com", name: "Alice Smith" },
+    date: "2025-02-04T10:00:00Z",
+    snippet: "Numbers attached",
+    labelIds: ["INBOX", "IMPORTANT"],
+    messageCount: 2,
+  };
+
+  test("matches operators and free text case-insensitively", () => {
+    expect(threadMatchesQuery(thread, "from:alice")).toBe(true);
+    expect(threadMatchesQuery(thread, "subject:\"quarterly report\"")).toBe(true);
+    expect(threadMatchesQuery(thread, "label:important numbers")).toBe(true);
+    expect(threadMatchesQuery(thread, "from:bob")).toBe(false);
+    expect(threadMatchesQuery(thread, "report invoice")).toBe(false);
+  });
+
+  test("ignores unsupported operators", () => {
+    expect(threadMatchesQuery(thread, "older_than:30d from:alice")).toBe(true);
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * Availability Module
+ *
+ * Proposes meeting times from the user's own free/busy and formats them as
+ * a block of text or HTML to paste into a reply or snippet. Proposed slots
+ * can be held with tentative calendar events; holds are recorded in a local
+ * ledger (holds.json) and released once one of the proposed times is booked.
+ */
+
+import { mkdir } from "node:fs/promises";
+import type { ConnectionProvider } from "./connection-provider";
+import {
+  createEvent,
+  deleteEvent,
+  findMeetingSlots,
+  isTimeZone,
+  listEvents,
+  zonedParts,
+  type CalendarEvent,
+  type MeetingSlot,
+  type WorkingHours,
+} from "./calendar";
+import { getConfigDirPath, getFreeBusyDirect } from "./token-api";
+import { icsDateToDate } from "./ics";
+
+/**
+ * Options for proposing meeting times
+ */
+export interface ProposeOptions {
+  durationMinutes: number;
+  /** Working days to cover, starting today (default: 5) */
+  days?: number;
+  /** IANA zone for working hours and the formatted times (default: the system zone) */
+  timeZone?: string;
+  /** Default: 9-17 */
+  workingHours?: WorkingHours;
+  /** Slots to propose (default: 6) */
+  limit?: number;
+  /** Slots per day (default: 2) */
+  perDay?: number;
+}
+
+/**
+ * Proposed times, ready to paste into an email
+ */
+export interface ProposalResult {
+  success: boolean;
+  slots: MeetingSlot[];
+  timeZone: string;
+  text: string;
+  html: string;
+  error?: string;
+}
+
+/**
+ * A tentative event holding one proposed slot
+ */
+export interface Hold {
+  eventId: string;
+  start: string;
+  end: string;
+}
+
+/**
+ * Holds placed together for one proposal
+ */
+export interface HoldGroup {
+  id: string;
+  /** Account whose calendar has the holds */
+  account: string;
+  title: string;
+  holds: Hold[];
+  /** Unix timestamp (ms) when the holds were placed */
+  createdAt: number;
+}
+
+/**
+ * A hold group released because one of its slots was booked
+ */
+export interface ReleasedHolds {
+  group: HoldGroup;
+  /** The event that booked one of the slots */
+  booked: CalendarEvent;
+}
+
+// ============================================================================
+// Proposals
+// ============================================================================
+
+const DEFAULT_WORKING_HOURS: WorkingHours = { start: 9 * 60, end: 17 * 60 };
+
+/**
+ * Window from now to the end of the Nth working day in a zone. Today only
+ * counts if there is still room for a meeting before the end of the day.
+ */
+function workingDaysWindow(
+  days: number,
+  timeZone: string,
+  hours: WorkingHours,
+  durationMinutes: number,
+  now: Date
+): { timeMin: Date; timeMax: Date } {
+  const today = zonedParts(now, timeZone);
+  const [y, m, d] = today.date.split("-").map(Number) as [number, number, number];
+  const roomToday = today.minutes + durationMinutes <= hours.end;
+
+  let counted = 0;
+  let offset = 0;
+  while (counted < days) {
+    const weekday = new Date(Date.UTC(y, m - 1, d + offset)).getUTCDay();
+    if (weekday !== 0 && weekday !== 6 && (offset > 0 || roomToday)) counted++;
+    offset++;
+  }
+
+  const end = new Date(Date.UTC(y, m - 1, d + offset)).toISOString().slice(0, 10);
+  return { timeMin: now, timeMax: icsDateToDate({ dateTime: `${end}T00:00:00`, timeZone })! };
+}
+
+function formatClock(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  const suffix = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 || 12}:${String(minutes % 60).padStart(2, "0")} ${suffix}`;
+}
+
+/**
+ * Format slots as one line per day, e.g.
+ * "Tue, Oct 20: 10:00 AM - 10:30 AM, 2:00 PM - 2:30 PM", followed by the zone.
+ *
+ * @param slots - Slots to list (any order)
+ * @param timeZone - IANA zone to show the times in
+ * @returns Plain text and HTML versions of the same block
+ */
+export function formatAvailability(slots: MeetingSlot[], timeZone: string): { text: string; html: string } {
+  const dayLabel = new Intl.DateTimeFormat("en-US", { timeZone, weekday: "short", month: "short", day: "numeric" });
+  const days = new Map<string, { label: string; times: string[] }>();
+
+  for (const slot of [...slots].sort((a, b) => a.start.localeCompare(b.start))) {
+    const start = zonedParts(new Date(slot.start), timeZone);
+    const end = zonedParts(new Date(slot.end), timeZone);
+    const day = days.get(start.date) ?? { label: dayLabel.format(new Date(slot.start)), times: [] };
+    day.times.push(`${formatClock(start.minutes)} - ${formatClock(end.minutes)}`);
+    days.set(start.date, day);
+  }
+
+  const lines = [...days.values()].map((day) => `${day.label}: ${day.times.join(", ")}`);
+  const zone = `Times in ${timeZone}`;
+  return {
+    text: [...lines.map((line) => `- ${line}`), "", zone].join("\n"),
+    html: `<ul>${lines.map((line) => `<li>${line}</li>`).join("")}</ul><p>${zone}</p>`,
+  };
+}
+
+/**
+ * Propose times the user is free, spread over the next working days.
+ *
+ * @param provider - The connection provider
+ * @param options - Duration, days, working hours and time zone
+ * @param now - Current time (for tests)
+ * @returns The slots in time order and an availability block as text and HTML
+ */
+export async function proposeAvailability(
+  provider: ConnectionProvider,
+  options: ProposeOptions,
+  now: Date = new Date()
+): Promise<ProposalResult> {
+  const timeZone = options.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const empty = { slots: [], timeZone, text: "", html: "" };
+
+  try {
+    if (!isTimeZone(timeZone)) {
+      return { success: false, ...empty, error: `Unknown time zone: ${timeZone}` };
+    }
+
+    const hours = options.workingHours || DEFAULT_WORKING_HOURS;
+    const window = workingDaysWindow(options.days || 5, timeZone, hours, options.durationMinutes, now);
+
+    // getFreeBusy() reports failures as "no busy time", which would propose everything
+    const token = await provider.getToken();
+    const busy = await getFreeBusyDirect(token, window.timeMin.toISOString(), window.timeMax.toISOString());
+
+    const slots = findMeetingSlots([{ email: token.email, busy }], {
+      attendees: [],
+      durationMinutes: options.durationMinutes,
+      ...window,
+      workingHours: hours,
+      timeZone,
+      limit: options.limit || 6,
+      perDay: options.perDay || 2,
+    }).sort((a, b) => a.start.localeCompare(b.start));
+
+    return { success: true, slots, timeZone, ...formatAvailability(slots, timeZone) };
+  } catch (e: any) {
+    return { success: false, ...empty, error: e.message || "Unknown error" };
+  }
+}
+
+// ============================================================================
+// Holds Ledger
+// ============================================================================
+
+/**
+ * Get the path of the holds ledger
+ */
+export function getHoldsPath(): string {
+  return `${getConfigDirPath()}/holds.json`;
+}
+
+async function loadHolds(): Promise<HoldGroup[]> {
+  const file = Bun.file(getHoldsPath());
+  if (!(await file.exists())) return [];
+  try {
+    return (await file.json()) as HoldGroup[];
+  } catch {
+    return [];
+  }
+}
+
+async function saveHolds(groups: HoldGroup[]): Promise<void> {
+  await mkdir(getConfigDirPath(), { recursive: true });
+  await Bun.write(getHoldsPath(), JSON.stringify(groups, null, 2));
+}
+
+function newHoldGroupId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * List hold groups that still have a slot in the future, newest first.
+ * Groups whose slots have all passed are dropped from the ledger.
+ *
+ * @param account - Only list holds in this account's calendar
+ */
+export async function listHoldGroups(account?: string): Promise<HoldGroup[]> {
+  const groups = await loadHolds();
+  const now = Date.now();
+  const current = groups.filter((g) => g.holds.some((h) => new Date(h.end).getTime() > now));
+  if (current.length !== groups.length) {
+    await saveHolds(current);
+  }
+
+  return current
+    .filter((g) => !account || g.account.toLowerCase() === account.toLowerCase())
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// ============================================================================
+// Holds
+// ============================================================================
+
+/**
+ * Place a tentative event on each slot and record them as one group.
+ *
+ * @param provider - The connection provider
+ * @param slots - Proposed slots to hold
+ * @param title - Title of the hold events
+ * @returns The recorded group; holds that could be created are kept even if others failed
+ */
+export async function placeHolds(
+  provider: ConnectionProvider,
+  slots: MeetingSlot[],
+  title: string
+): Promise<{ success: boolean; group?: HoldGroup; error?: string }> {
+  try {
+    const account = await provider.getCurrentEmail();
+    const holds: Hold[] = [];
+    let error: string | undefined;
+
+    for (const slot of slots) {
+      const result = await createEvent(provider, {
+        summary: title,
+        description: "Held for a proposed meeting time. Released when one of the proposed times is booked.",
+        start: { dateTime: slot.start },
+        end: { dateTime: slot.end },
+        tentative: true,
+      });
+      if (result.success && result.eventId) {
+        holds.push({ eventId: result.eventId, start: slot.start, end: slot.end });
+      } else {
+        error = result.error || "Failed to create hold";
+      }
+    }
+
+    if (holds.length === 0) {
+      return { success: false, error: error || "No slots to hold" };
+    }
+
+    const group: HoldGroup = { id: newHoldGroupId(), account, title, holds, createdAt: Date.now() };
+    const groups = await loadHolds();
+    groups.push(group);
+    await saveHolds(groups);
+
+    return { success: true, group, error };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Unknown error" };
+  }
+}
+
+/**
+ * Delete a group's hold events and remove it from the ledger. Holds that
+ * fail to delete stay in the ledger so the release can be retried.
+ *
+ * @param provider - Provider for the account the holds belong to
+ * @param id - Hold group ID (or unique prefix)
+ * @returns The group and how many holds were deleted
+ */
+export async function releaseHolds(
+  provider: ConnectionProvider,
+  id: string
+): Promise<{ success: boolean; group?: HoldGroup; released: number; error?: string }> {
+  try {
+    const groups = await loadHolds();
+    const matches = groups.filter((g) => g.id === id || g.id.startsWith(id));
+    const group = matches.find((g) => g.id === id) ?? (matches.length === 1 ? matches[0] : undefined);
+    if (!group) {
+      return { success: false, released: 0, error: matches.length > 1 ? `Ambiguous hold ID: ${id}` : `No holds with ID ${id}` };
+    }
+
+    const kept: Hold[] = [];
+    let error: string | undefined;
+    for (const hold of group.holds) {
+      const result = await deleteEvent(provider, hold.eventId);
+      // Already gone (deleted by hand) counts as released
+      if (!result.success && !/404|410|not ?found|deleted/i.test(result.error || "")) {
+        kept.push(hold);
+        error = result.error;
+      }
+    }
+
+    const remaining = groups.filter((g) => g.id !== group.id);
+    if (kept.length > 0) {
+      remaining.push({ ...group, holds: kept });
+    }
+    await saveHolds(remaining);
+
+    return { success: kept.length === 0, group, released: group.holds.length - kept.length, error };
+  } catch (e: any) {
+    return { success: false, released: 0, error: e.message || "Unknown error" };
+  }
+}
+
+/**
+ * Release hold groups where one of the held times has been booked: an
+ * event other than the holds, not declined, starting exactly when a held
+ * slot starts. Every hold in such a group is deleted.
+ *
+ * @param provider - The connection provider
+ * @returns The released groups and the events that booked them
+ */
+export async function releaseBookedHolds(provider: ConnectionProvider): Promise<ReleasedHolds[]> {
+  const account = await provider.getCurrentEmail();
+  const groups = await listHoldGroups(account);
+  const released: ReleasedHolds[] = [];
+
+  for (const group of groups) {
+    const starts = group.holds.map((h) => new Date(h.start).getTime());
+    const ends = group.holds.map((h) => new Date(h.end).getTime());
+    const events = await listEvents(provider, {
+      timeMin: new Date(Math.min(...starts)),
+      timeMax: new Date(Math.max(...ends)),
+      limit: 250,
+    });
+
+    const holdIds = new Set(group.holds.map((h) => h.eventId));
+    const booked = events.find(
+      (event) =>
+        !holdIds.has(event.id) &&
+        !event.allDay &&
+        event.status !== "cancelled" &&
+        event.responseStatus !== "declined" &&
+        !!event.start.dateTime &&
+        starts.includes(new Date(event.start.dateTime).getTime())
+    );
+    if (!booked) continue;
+
+    const result = await releaseHolds(provider, group.id);
+    if (result.released > 0) {
+      released.push({ group, booked });
+    }
+  }
+
+  return released;
+}
@@ -0,0 +1,292 @@
+/**
+ * Batch Module
+ *
+ * Groups many small API calls into a few HTTP round-trips:
+ * - Gmail batch requests (multipart/mixed, up to GMAIL_BATCH_LIMIT calls each)
+ * - MS Graph JSON $batch (up to MSGRAPH_BATCH_LIMIT calls each)
+ *
+ * Responses come back in request order. Items the server throttled (429/503)
+ * are sent again in a follow-up batch after a backoff. A single request is
+ * sent on its own, since batching it would only add overhead.
+ */
+
+import { apiFetch, backoffBeforeRetry, parseRetryAfter, toApiError } from "./http-client";
+import type { TokenInfo } from "./token-api";
+
+const GOOGLE_API_ORIGIN = "https://www.googleapis.com";
+const GMAIL_API_PATH = "/gmail/v1/users/me";
+const GMAIL_BATCH_URL = `${GOOGLE_API_ORIGIN}/batch/gmail/v1`;
+const MSGRAPH_API_BASE = "https://graph.microsoft.com/v1.0";
+
+/** Calls per Gmail batch (Google allows 100, but larger batches get rate limited) */
+export const GMAIL_BATCH_LIMIT = 50;
+
+/** Calls per MS Graph JSON batch */
+export const MSGRAPH_BATCH_LIMIT = 20;
+
+const THROTTLED_STATUSES = new Set([429, 503]);
+
+export interface BatchRequest {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  /**
+   * Path relative to the API base: "/threads/{id}?format=metadata" for Gmail
+   * (users/me), "/me/messages/{id}" for MS Graph
+   */
+  path: string;
+  body?: unknown;
+}
+
+export interface BatchResponse {
+  status: number;
+  /** Parsed JSON body (raw text if not JSON, null if empty) */
+  body: any;
+}
+
+/** One chunk's outcome: responses by index, or null on 401 */
+type ChunkResult = Map<number, BatchResponse & { retryAfterMs?: number | null }> | null;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function parseBody(text: string): any {
+  if (!text.trim()) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Run requests in chunks, resending throttled items until they succeed
+ * or retries run out.
+ */
+async function runBatches(
+  requests: BatchRequest[],
+  size: number,
+  sendChunk: (requests: BatchRequest[]) => Promise<ChunkResult>
+): Promise<BatchResponse[] | null> {
+  const responses: BatchResponse[] = new Array(requests.length);
+  let pending = requests.map((_, i) => i);
+
+  for (let attempt = 0; pending.length > 0; attempt++) {
+    const chunks = chunk(pending, size);
+    const results = await Promise.all(chunks.map((indexes) => sendChunk(indexes.map((i) => requests[i]!))));
+
+    const throttled: number[] = [];
+    let retryAfterMs: number | null = null;
+    for (let c = 0; c < chunks.length; c++) {
+      const result = results[c];
+      if (!result) return null;
+
+      chunks[c]!.forEach((requestIndex, position) => {
+        const response = result.get(position) ?? { status: 500, body: null };
+        responses[requestIndex] = { status: response.status, body: response.body };
+        if (THROTTLED_STATUSES.has(response.status)) {
+          throttled.push(requestIndex);
+          if (response.retryAfterMs != null) {
+            retryAfterMs = Math.max(retryAfterMs ?? 0, response.retryAfterMs);
+          }
+        }
+      });
+    }
+
+    if (throttled.length === 0 || !(await backoffBeforeRetry(attempt, retryAfterMs))) {
+      break;
+    }
+    pending = throttled;
+  }
+
+  return responses;
+}
+
+// ============================================================================
+// Gmail
+// ============================================================================
+
+function buildGmailBatchBody(requests: BatchRequest[], boundary: string): string {
+  let body = "";
+  requests.forEach((request, i) => {
+    body += `--${boundary}\r\n`;
+    body += "Content-Type: application/http\r\n";
+    body += `Content-ID: <item-${i}>\r\n\r\n`;
+    body += `${request.method} ${GMAIL_API_PATH}${request.path} HTTP/1.1\r\n`;
+    if (request.body !== undefined) {
+      body += "Content-Type: application/json\r\n\r\n";
+      body += `${JSON.stringify(request.body)}\r\n`;
+    } else {
+      body += "\r\n";
+    }
+  });
+  return `${body}--${boundary}--\r\n`;
+}
+
+/**
+ * Parse a Gmail multipart/mixed batch response.
+ *
+ * @param text - Response body
+ * @param boundary - Boundary from the response Content-Type
+ * @returns Responses keyed by the index in the Content-ID (response-item-N)
+ */
+export function parseGmailBatchResponse(
+  text: string,
+  boundary: string
+): Map<number, BatchResponse & { retryAfterMs?: number | null }> {
+  const responses = new Map<number, BatchResponse & { retryAfterMs?: number | null }>();
+
+  for (const part of text.split(`--${boundary}`)) {
+    const outerEnd = part.search(/\r?\n\r?\n/);
+    if (outerEnd === -1) continue;
+
+    const outerHeaders = part.slice(0, outerEnd);
+    const index = outerHeaders.match(/Content-ID:\s*<response-item-(\d+)>/i)?.[1];
+    if (index === undefined) continue;
+
+    const http = part.slice(outerEnd).replace(/^\r?\n\r?\n/, "");
+    const status = http.match(/^HTTP\/[\d.]+ (\d{3})/)?.[1];
+    if (!status) continue;
+
+    const headersEnd = http.search(/\r?\n\r?\n/);
+    const headers = headersEnd === -1 ? http : http.slice(0, headersEnd);
+    const body = headersEnd === -1 ? "" : http.slice(headersEnd).replace(/^\r?\n\r?\n/, "");
+
+    responses.set(Number(index), {
+      status: Number(status),
+      body: parseBody(body.replace(/\r?\n$/, "")),
+      retryAfterMs: parseRetryAfter(headers.match(/^Retry-After:\s*(.+?)\s*$/im)?.[1]),
+    });
+  }
+
+  return responses;
+}
+
+async function sendGmailChunk(token: TokenInfo, requests: BatchRequest[]): Promise<ChunkResult> {
+  if (requests.length === 1) {
+    const request = requests[0]!;
+    const response = await apiFetch("gmail", `${GOOGLE_API_ORIGIN}${GMAIL_API_PATH}${request.path}`, {
+      method: request.method,
+      headers: {
+        Authorization: `Bearer ${token.accessToken}`,
+        ...(request.body !== undefined ? { "Content-Type": "application/json" } : {}),
+      },
+      body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+    });
+    if (response.status === 401) return null;
+    return new Map([[0, { status: response.status, body: parseBody(await response.text()) }]]);
+  }
+
+  const boundary = `batch_${Math.random().toString(36).slice(2)}`;
+  const response = await apiFetch("gmail", GMAIL_BATCH_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token.accessToken}`,
+      "Content-Type": `multipart/mixed; boundary=${boundary}`,
+    },
+    body: buildGmailBatchBody(requests, boundary),
+  });
+
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    throw await toApiError("gmail", response);
+  }
+
+  const text = await response.text();
+  const responseBoundary =
+    response.headers.get("Content-Type")?.match(/boundary="?([^";]+)"?/)?.[1] ??
+    text.match(/^\s*--(\S+)/)?.[1] ??
+    boundary;
+  return parseGmailBatchResponse(text, responseBoundary);
+}
+
+/**
+ * Run Gmail API calls as batch requests.
+ *
+ * @param token - Token info with accessToken
+ * @param requests - Calls to make, with paths relative to users/me
+ * @returns One response per request, in order, or null on 401 unauthorized
+ */
+export async function gmailBatch(
+  token: TokenInfo,
+  requests: BatchRequest[]
+): Promise<BatchResponse[] | null> {
+  if (token.isMicrosoft) {
+    throw new Error("gmailBatch is Gmail-only. Use msgraphBatch for MS Graph.");
+  }
+  return runBatches(requests, GMAIL_BATCH_LIMIT, (chunk) => sendGmailChunk(token, chunk));
+}
+
+// ============================================================================
+// MS Graph
+// ============================================================================
+
+async function sendMsgraphChunk(token: TokenInfo, requests: BatchRequest[]): Promise<ChunkResult> {
+  if (requests.length === 1) {
+    const request = requests[0]!;
+    const response = await apiFetch("msgraph", `${MSGRAPH_API_BASE}${request.path}`, {
+      method: request.method,
+      headers: {
+        Authorization: `Bearer ${token.accessToken}`,
+        ...(request.body !== undefined ? { "Content-Type": "application/json" } : {}),
+      },
+      body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+    });
+    if (response.status === 401) return null;
+    return new Map([[0, { status: response.status, body: parseBody(await response.text()) }]]);
+  }
+
+  const response = await apiFetch("msgraph", `${MSGRAPH_API_BASE}/$batch`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token.accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      requests: requests.map((r, i) => ({
+        id: String(i),
+        method: r.method,
+        url: r.path,
+        ...(r.body !== undefined ? { body: r.body, headers: { "Content-Type": "application/json" } } : {}),
+      })),
+    }),
+  });
+
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    throw await toApiError("msgraph", response);
+  }
+
+  const result = (await response.json()) as {
+    responses?: Array<{ id: string; status: number; headers?: Record<string, string>; body?: unknown }>;
+  };
+  const responses: NonNullable<ChunkResult> = new Map();
+  for (const item of result.responses || []) {
+    responses.set(Number(item.id), {
+      status: item.status,
+      body: item.body ?? null,
+      retryAfterMs: parseRetryAfter(item.headers?.["Retry-After"] ?? item.headers?.["retry-after"]),
+    });
+  }
+  return responses;
+}
+
+/**
+ * Run MS Graph API calls as JSON $batch requests.
+ *
+ * @param token - Token info with accessToken
+ * @param requests - Calls to make, with paths relative to the API version
+ * @returns One response per request, in order, or null on 401 unauthorized
+ */
+export async function msgraphBatch(
+  token: TokenInfo,
+  requests: BatchRequest[]
+): Promise<BatchResponse[] | null> {
+  if (!token.isMicrosoft) {
+    throw new Error("msgraphBatch is MS Graph-only. Use gmailBatch for Gmail.");
+  }
+  return runBatches(requests, MSGRAPH_BATCH_LIMIT, (chunk) => sendMsgraphChunk(token, chunk));
+}
@@ -0,0 +1,624 @@
+/**
+ * Bulk Module
+ *
+ * Applies an action (archive, delete, mark read, star, label, ...) to every
+ * message matching a search query. Matches are listed page by page, then
+ * modified in batches with Gmail messages.batchModify or MS Graph $batch.
+ *
+ * Each run is journaled to bulk-runs/<id>.jsonl in the config directory so a
+ * run that dies halfway can be resumed without redoing finished batches, and
+ * logged as one operation in the operation log so it can be undone.
+ */
+
+import { appendFile, mkdir, readdir } from "node:fs/promises";
+import { msgraphBatch } from "./batch";
+import type { ConnectionProvider } from "./connection-provider";
+import { captureMessageSnapshots, recordBulkMessages } from "./history";
+import { resolveLabel } from "./labels";
+import {
+  batchModifyMessagesDirect,
+  getConfigDirPath,
+  getWellKnownFolder,
+  gmailFetch,
+  msgraphBatchDirect,
+  msgraphFetch,
+  GMAIL_BATCH_MODIFY_LIMIT,
+  MSGRAPH_BATCH_LIMIT,
+  type MSGraphBatchRequest,
+  type TokenInfo,
+} from "./token-api";
+
+export type BulkAction =
+  | "archive"
+  | "delete"
+  | "read"
+  | "unread"
+  | "star"
+  | "unstar"
+  | "label"
+  | "unlabel";
+
+export const BULK_ACTIONS: BulkAction[] = ["archive", "delete", "read", "unread", "star", "unstar", "label", "unlabel"];
+
+/**
+ * A bulk run as reconstructed from its journal
+ */
+export interface BulkRun {
+  id: string;
+  account: string;
+  action: BulkAction;
+  query: string;
+  /** Label ID for label/unlabel */
+  labelId?: string;
+  createdAt: number;
+  /** Matching message IDs (complete once listed is true) */
+  ids: string[];
+  /** Whether every page of matches has been listed */
+  listed: boolean;
+  /** Message IDs the action was applied to */
+  succeeded: string[];
+  /** Message IDs whose batch failed on the most recent attempt */
+  failed: string[];
+  finished: boolean;
+}
+
+export interface BulkProgress {
+  phase: "listing" | "applying";
+  /** Messages listed so far, or processed so far while applying */
+  done: number;
+  /** Total matches (known once listing is complete) */
+  total?: number;
+}
+
+export interface BulkOptions {
+  action: BulkAction;
+  query: string;
+  labelId?: string;
+  /** List matches without changing anything (nothing is journaled) */
+  dryRun?: boolean;
+  onProgress?: (progress: BulkProgress) => void;
+}
+
+export interface BulkResult {
+  success: boolean;
+  /** Journal ID (absent for dry runs) */
+  runId?: string;
+  /** Number of matching messages */
+  matched: number;
+  /** Messages the action has been applied to, including earlier attempts */
+  succeeded: number;
+  failed: number;
+  /** First few matches (dry runs only) */
+  sample?: MessagePreview[];
+  /** Operation log entry the run's changes were recorded in, for undo */
+  operationId?: string;
+  error?: string;
+}
+
+export interface MessagePreview {
+  id: string;
+  from: string;
+  subject: string;
+}
+
+type JournalEntry =
+  | { type: "run"; id: string; account: string; action: BulkAction; query: string; labelId?: string; createdAt: number }
+  | { type: "ids"; ids: string[] }
+  | { type: "listed"; total: number }
+  | { type: "batch"; ids: string[]; ok: boolean; error?: string }
+  | { type: "finished"; at: number };
+
+// ============================================================================
+// Journal
+// ============================================================================
+
+/**
+ * Get the directory holding bulk run journals
+ */
+export function getBulkRunsDir(): string {
+  return `${getConfigDirPath()}/bulk-runs`;
+}
+
+function journalPath(runId: string): string {
+  return `${getBulkRunsDir()}/${runId}.jsonl`;
+}
+
+async function appendJournal(runId: string, entry: JournalEntry): Promise<void> {
+  await appendFile(journalPath(runId), JSON.stringify(entry) + "\n");
+}
+
+/**
+ * Load a bulk run from its journal.
+ *
+ * @returns The run, or null if no journal exists for the ID
+ */
+export async function loadBulkRun(runId: string): Promise<BulkRun | null> {
+  const file = Bun.file(journalPath(runId));
+  if (!(await file.exists())) return null;
+
+  let run: BulkRun | null = null;
+  const succeeded = new Set<string>();
+  const failed = new Set<string>();
+
+  for (const line of (await file.text()).split("\n")) {
+    if (!line.trim()) continue;
+    let entry: JournalEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      // A crash mid-write can leave a truncated last line
+      continue;
+    }
+
+    if (entry.type === "run") {
+      const { type: _, ...meta } = entry;
+      run = { ...meta, ids: [], listed: false, succeeded: [], failed: [], finished: false };
+    } else if (!run) {
+      continue;
+    } else if (entry.type === "ids") {
+      run.ids.push(...entry.ids);
+    } else if (entry.type === "listed") {
+      run.listed = true;
+    } else if (entry.type === "batch") {
+      for (const id of entry.ids) {
+        if (entry.ok) {
+          succeeded.add(id);
+          failed.delete(id);
+        } else if (!succeeded.has(id)) {
+          failed.add(id);
+        }
+      }
+    } else if (entry.type === "finished") {
+      run.finished = true;
+    }
+  }
+
+  if (run) {
+    run.succeeded = Array.from(succeeded);
+    run.failed = Array.from(failed);
+  }
+  return run;
+}
+
+/**
+ * List journaled bulk runs, newest first.
+ *
+ * @param account - Only list runs for this account
+ */
+export async function listBulkRuns(account?: string): Promise<BulkRun[]> {
+  let files: string[];
+  try {
+    files = await readdir(getBulkRunsDir());
+  } catch {
+    return [];
+  }
+
+  const runs: BulkRun[] = [];
+  for (const file of files.filter((f) => f.endsWith(".jsonl"))) {
+    const run = await loadBulkRun(file.replace(/\.jsonl$/, ""));
+    if (run && (!account || run.account.toLowerCase() === account.toLowerCase())) {
+      runs.push(run);
+    }
+  }
+  return runs.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// ============================================================================
+// Listing
+// ============================================================================
+
+/**
+ * Page through every message matching a query.
+ *
+ * @param token - Token info
+ * @param query - Gmail search query, or MS Graph $search text
+ * @param onPage - Called with each page of message IDs
+ * @returns Total number of matching messages
+ */
+export async function listMatchingMessageIds(
+  token: TokenInfo,
+  query: string,
+  onPage: (ids: string[]) => Promise<void> | void
+): Promise<number> {
+  let total = 0;
+
+  if (token.isMicrosoft) {
+    let path: string | undefined = `/me/messages?$search="${encodeURIComponent(query)}"&$select=id&$top=250`;
+    while (path) {
+      const page = await msgraphFetch(token.accessToken, path);
+      if (!page) {
+        throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+      }
+      const ids = (page.value || []).map((m: { id: string }) => m.id);
+      total += ids.length;
+      await onPage(ids);
+      path = page["@odata.nextLink"]?.replace("https://graph.microsoft.com/v1.0", "");
+    }
+  } else {
+    let pageToken = "";
+    do {
+      const page = await gmailFetch(
+        token.accessToken,
+        `/messages?q=${encodeURIComponent(query)}&maxResults=500${pageToken ? `&pageToken=${pageToken}` : ""}`
+      );
+      if (!page) {
+        throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+      }
+      const ids = (page.messages || []).map((m: { id: string }) => m.id);
+      total += ids.length;
+      await onPage(ids);
+      pageToken = page.nextPageToken || "";
+    } while (pageToken);
+  }
+
+  return total;
+}
+
+/**
+ * Fetch sender and subject for a few messages.
+ */
+async function previewMessages(token: TokenInfo, ids: string[]): Promise<MessagePreview[]> {
+  const previews: MessagePreview[] = [];
+  for (const id of ids) {
+    if (token.isMicrosoft) {
+      const msg = await msgraphFetch(token.accessToken, `/me/messages/${id}?$select=subject,from`);
+      if (!msg) continue;
+      previews.push({ id, from: msg.from?.emailAddress?.address || "", subject: msg.subject || "(no subject)" });
+    } else {
+      const msg = await gmailFetch(
+        token.accessToken,
+        `/messages/${id}?format=metadata&metadataHeaders=Subject&metadataHeaders=From`
+      );
+      if (!msg) continue;
+      const headers: Array<{ name: string; value: string }> = msg.payload?.headers || [];
+      const get = (name: string) => headers.find((h) => h.name.toLowerCase() === name)?.value || "";
+      previews.push({ id, from: get("from"), subject: get("subject") || "(no subject)" });
+    }
+  }
+  return previews;
+}
+
+// ============================================================================
+// Applying
+// ============================================================================
+
+const GMAIL_LABEL_CHANGES: Record<Exclude<BulkAction, "label" | "unlabel">, [string[], string[]]> = {
+  archive: [[], ["INBOX"]],
+  delete: [["TRASH"], ["INBOX"]],
+  read: [[], ["UNREAD"]],
+  unread: [["UNREAD"], []],
+  star: [["STARRED"], []],
+  unstar: [[], ["STARRED"]],
+};
+
+type BatchApplier = { batchSize: number; apply: (ids: string[]) => Promise<string[]> };
+
+/**
+ * Add or remove an Outlook category. Graph replaces the whole categories
+ * list, so each batch reads the messages' current categories first.
+ */
+function createCategoryApplier(token: TokenInfo, category: string, add: boolean): BatchApplier {
+  return {
+    batchSize: MSGRAPH_BATCH_LIMIT,
+    apply: async (ids) => {
+      const current = await msgraphBatch(
+        token,
+        ids.map((id) => ({ method: "GET", path: `/me/messages/${id}?$select=categories` }))
+      );
+      if (!current) {
+        throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+      }
+
+      const failed: string[] = [];
+      const updates: MSGraphBatchRequest[] = [];
+      ids.forEach((id, i) => {
+        const response = current[i];
+        if (response?.status !== 200) {
+          failed.push(id);
+          return;
+        }
+        const names: string[] = response.body?.categories || [];
+        if (names.includes(category) === add) return;
+        const categories = add ? [...names, category] : names.filter((n) => n !== category);
+        updates.push({ id, method: "PATCH", url: `/me/messages/${id}`, body: { categories } });
+      });
+      if (updates.length === 0) return failed;
+
+      const statuses = await msgraphBatchDirect(token, updates);
+      if (!statuses) {
+        throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+      }
+      for (const { id } of updates) {
+        const status = statuses.get(id);
+        if (!status || status >= 300) failed.push(id);
+      }
+      return failed;
+    },
+  };
+}
+
+/**
+ * Build a function that applies the action to one batch of message IDs.
+ * Resolves anything the batches share (such as folder IDs) once up front.
+ */
+async function createBatchApplier(
+  provider: ConnectionProvider,
+  token: TokenInfo,
+  action: BulkAction,
+  labelId?: string
+): Promise<BatchApplier> {
+  if ((action === "label" || action === "unlabel") && !labelId) {
+    throw new Error(`--label is required for bulk ${action}`);
+  }
+
+  if (!token.isMicrosoft) {
+    const [add, remove] = action === "label" ? [[labelId!], []]
+      : action === "unlabel" ? [[], [labelId!]]
+      : GMAIL_LABEL_CHANGES[action];
+
+    return {
+      batchSize: GMAIL_BATCH_MODIFY_LIMIT,
+      apply: async (ids) => {
+        if (!(await batchModifyMessagesDirect(token, ids, add, remove))) {
+          throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+        }
+        return [];
+      },
+    };
+  }
+
+  let request: (id: string) => Omit<MSGraphBatchRequest, "id">;
+  switch (action) {
+    case "archive":
+    case "delete": {
+      const folder = await getWellKnownFolder(token, action === "archive" ? "archive" : "deleteditems");
+      if (!folder) {
+        throw new Error(`${action === "archive" ? "Archive" : "Deleted Items"} folder not found`);
+      }
+      request = (id) => ({ method: "POST", url: `/me/messages/${id}/move`, body: { destinationId: folder.id } });
+      break;
+    }
+    case "read":
+    case "unread":
+      request = (id) => ({ method: "PATCH", url: `/me/messages/${id}`, body: { isRead: action === "read" } });
+      break;
+    case "star":
+    case "unstar":
+      request = (id) => ({
+        method: "PATCH",
+        url: `/me/messages/${id}`,
+        body: { flag: { flagStatus: action === "star" ? "flagged" : "notFlagged" } },
+      });
+      break;
+    case "label":
+    case "unlabel": {
+      const resolved = await resolveLabel(provider, labelId!);
+      if (!resolved.success || !resolved.label) {
+        throw new Error(resolved.error || `Label "${labelId}" not found`);
+      }
+      const label = resolved.label;
+      if (label.kind === "category") {
+        return createCategoryApplier(token, label.name, action === "label");
+      }
+      if (action === "unlabel") {
+        throw new Error("Outlook messages always sit in a folder. Bulk label with a different folder to move them instead.");
+      }
+      // Folders: a message lives in one folder, so labeling moves it there
+      request = (id) => ({ method: "POST", url: `/me/messages/${id}/move`, body: { destinationId: label.id } });
+      break;
+    }
+  }
+
+  return {
+    batchSize: MSGRAPH_BATCH_LIMIT,
+    apply: async (ids) => {
+      const statuses = await msgraphBatchDirect(
+        token,
+        ids.map((id, i) => ({ id: String(i), ...request(id) }))
+      );
+      if (!statuses) {
+        throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+      }
+      // Report the IDs whose individual request failed
+      return ids.filter((_, i) => {
+        const status = statuses.get(String(i));
+        return !status || status >= 300;
+      });
+    },
+  };
+}
+
+/** Number of matches a dry run shows */
+const DRY_RUN_SAMPLE_SIZE = 10;
+
+function newRunId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * List (if needed) and apply a journaled run until it is finished.
+ */
+async function driveRun(
+  provider: ConnectionProvider,
+  token: TokenInfo,
+  run: BulkRun,
+  onProgress?: (progress: BulkProgress) => void
+): Promise<BulkResult> {
+  const result: BulkResult = { success: true, runId: run.id, matched: 0, succeeded: 0, failed: 0 };
+
+  try {
+    const applier = await createBatchApplier(provider, token, run.action, run.labelId);
+
+    if (!run.listed) {
+      // Re-list from scratch; pages already journaled are deduplicated
+      const known = new Set(run.ids);
+      await listMatchingMessageIds(token, run.query, async (ids) => {
+        const fresh = ids.filter((id) => !known.has(id));
+        fresh.forEach((id) => known.add(id));
+        if (fresh.length > 0) {
+          run.ids.push(...fresh);
+          await appendJournal(run.id, { type: "ids", ids: fresh });
+        }
+        onProgress?.({ phase: "listing", done: run.ids.length });
+      });
+      run.listed = true;
+      await appendJournal(run.id, { type: "listed", total: run.ids.length });
+    }
+
+    const succeeded = new Set(run.succeeded);
+    const pending = run.ids.filter((id) => !succeeded.has(id));
+    const failed = new Set<string>();
+    result.matched = run.ids.length;
+    onProgress?.({ phase: "applying", done: succeeded.size, total: run.ids.length });
+
+    for (let i = 0; i < pending.length; i += applier.batchSize) {
+      const batch = pending.slice(i, i + applier.batchSize);
+      // Failing to capture undo state only costs the history entry
+      const snapshots = await captureMessageSnapshots(token, run.action, batch, run.labelId).catch(() => null);
+      let failedIds: string[];
+      try {
+        failedIds = await applier.apply(batch);
+      } catch (e: any) {
+        await appendJournal(run.id, { type: "batch", ids: batch, ok: false, error: e.message });
+        throw e;
+      }
+
+      const failedSet = new Set(failedIds);
+      const okIds = batch.filter((id) => !failedSet.has(id));
+      if (okIds.length > 0) await appendJournal(run.id, { type: "batch", ids: okIds, ok: true });
+      if (failedIds.length > 0) await appendJournal(run.id, { type: "batch", ids: failedIds, ok: false });
+
+      if (snapshots && okIds.length > 0) {
+        const ok = new Set(okIds);
+        const operation = await recordBulkMessages(
+          { account: run.account, kind: run.action, labelId: run.labelId, bulkRunId: run.id },
+          snapshots.filter((m) => ok.has(m.messageId))
+        );
+        result.operationId = operation.id;
+      }
+
+      okIds.forEach((id) => succeeded.add(id));
+      failedIds.forEach((id) => failed.add(id));
+      onProgress?.({ phase: "applying", done: succeeded.size + failed.size, total: run.ids.length });
+    }
+
+    result.succeeded = succeeded.size;
+    result.failed = failed.size;
+    if (failed.size === 0) {
+      await appendJournal(run.id, { type: "finished", at: Date.now() });
+    } else {
+      result.success = false;
+      result.error = `${failed.size} message(s) failed; resume the run to retry them`;
+    }
+    return result;
+  } catch (e: any) {
+    const saved = await loadBulkRun(run.id);
+    return {
+      ...result,
+      success: false,
+      matched: run.ids.length,
+      succeeded: saved?.succeeded.length ?? 0,
+      failed: saved?.failed.length ?? 0,
+      error: e.message || "Unknown error",
+    };
+  }
+}
+
+/**
+ * Apply an action to every message matching a query.
+ *
+ * @param provider - Connection provider for the account
+ * @param options - Action, query and callbacks
+ */
+export async function runBulkAction(
+  provider: ConnectionProvider,
+  options: BulkOptions
+): Promise<BulkResult> {
+  try {
+    const token = await provider.getToken();
+
+    if (options.dryRun) {
+      // Validate the action up front so a dry run fails the same way a real one would
+      await createBatchApplier(provider, token, options.action, options.labelId);
+      const firstIds: string[] = [];
+      let listed = 0;
+      const matched = await listMatchingMessageIds(token, options.query, (ids) => {
+        if (firstIds.length < DRY_RUN_SAMPLE_SIZE) firstIds.push(...ids.slice(0, DRY_RUN_SAMPLE_SIZE - firstIds.length));
+        listed += ids.length;
+        options.onProgress?.({ phase: "listing", done: listed });
+      });
+      const sample = await previewMessages(token, firstIds);
+      return { success: true, matched, succeeded: 0, failed: 0, sample };
+    }
+
+    const run: BulkRun = {
+      id: newRunId(),
+      account: token.email,
+      action: options.action,
+      query: options.query,
+      labelId: options.labelId,
+      createdAt: Date.now(),
+      ids: [],
+      listed: false,
+      succeeded: [],
+      failed: [],
+      finished: false,
+    };
+
+    await mkdir(getBulkRunsDir(), { recursive: true });
+    await appendJournal(run.id, {
+      type: "run",
+      id: run.id,
+      account: run.account,
+      action: run.action,
+      query: run.query,
+      labelId: run.labelId,
+      createdAt: run.createdAt,
+    });
+
+    return driveRun(provider, token, run, options.onProgress);
+  } catch (e: any) {
+    return { success: false, matched: 0, succeeded: 0, failed: 0, error: e.message || "Unknown error" };
+  }
+}
+
+/**
+ * Resume an interrupted bulk run, retrying failed messages.
+ *
+ * @param provider - Connection provider for the run's account
+ * @param runId - Run to resume (default: the newest unfinished run for the account)
+ * @param onProgress - Progress callback
+ */
+export async function resumeBulkRun(
+  provider: ConnectionProvider,
+  runId?: string,
+  onProgress?: (progress: BulkProgress) => void
+): Promise<BulkResult> {
+  try {
+    const token = await provider.getToken();
+
+    const run = runId
+      ? await loadBulkRun(runId)
+      : (await listBulkRuns(token.email)).find((r) => !r.finished) ?? null;
+
+    if (!run) {
+      return {
+        success: false,
+        matched: 0,
+        succeeded: 0,
+        failed: 0,
+        error: runId ? `No bulk run with ID ${runId}` : "No unfinished bulk run to resume",
+      };
+    }
+    if (run.account.toLowerCase() !== token.email.toLowerCase()) {
+      return { success: false, runId: run.id, matched: 0, succeeded: 0, failed: 0, error: `Bulk run ${run.id} belongs to ${run.account}` };
+    }
+    if (run.finished) {
+      return { success: true, runId: run.id, matched: run.ids.length, succeeded: run.succeeded.length, failed: 0 };
+    }
+
+    return driveRun(provider, token, run, onProgress);
+  } catch (e: any) {
+    return { success: false, matched: 0, succeeded: 0, failed: 0, error: e.message || "Unknown error" };
+  }
+}
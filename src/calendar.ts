@@ -10,13 +10,25 @@ import {
   type CalendarEventDirect as CalendarEvent,
   type CreateCalendarEventInput as CreateEventInput,
   type UpdateCalendarEventInput as UpdateEventInput,
+  type CalendarRsvpResponse as RsvpResponse,
   type FreeBusySlot,
+  type AttendeeFreeBusy,
+  type TokenInfo,
   listCalendarEventsDirect,
   createCalendarEventDirect,
   updateCalendarEventDirect,
   deleteCalendarEventDirect,
+  respondToCalendarEventDirect,
+  findCalendarEventByUidDirect,
+  getCalendarEventDirect,
+  listEventInstancesDirect,
   getFreeBusyDirect,
+  getAttendeeFreeBusyDirect,
+  searchGmailDirect,
+  downloadAttachmentDirect,
 } from "./token-api";
+import { readThreadDirect } from "./read";
+import { parseIcs, formatIcs, icsDateToDate, type IcsDateTime, type IcsEvent } from "./ics";
 
 // Re-export the calendar event type for external use
 export type { CalendarEvent };
@@ -31,7 +43,7 @@ export interface CalendarResult {
 }
 
 // Re-export types for external use
-export type { FreeBusySlot, CreateEventInput, UpdateEventInput };
+export type { FreeBusySlot, AttendeeFreeBusy, CreateEventInput, UpdateEventInput, RsvpResponse };
 
 /**
  * Result of a free/busy query
@@ -201,3 +213,1130 @@ export async function getFreeBusy(
     return { busy: [], free: [] };
   }
 }
+
+// ============================================================================
+// Meeting Times
+// ============================================================================
+
+/**
+ * Working day as minutes since local midnight, e.g. 9-17 is { start: 540, end: 1020 }
+ */
+export interface WorkingHours {
+  start: number;
+  end: number;
+}
+
+/**
+ * Options for finding a common meeting time
+ */
+export interface FindTimeOptions {
+  /** Other attendees' email addresses; the current user is always included */
+  attendees: string[];
+  durationMinutes: number;
+  timeMin: Date;
+  timeMax: Date;
+  /** Default: 9-17 */
+  workingHours?: WorkingHours;
+  /** IANA zone the working hours are in (default: the system zone) */
+  timeZone?: string;
+  /** Spacing between candidate start times (default: 30) */
+  stepMinutes?: number;
+  /** Slots to return (default: 5) */
+  limit?: number;
+  /** At most this many slots on one day, to spread suggestions out (default: no limit) */
+  perDay?: number;
+}
+
+/**
+ * A candidate meeting slot. Higher scores rank first.
+ */
+export interface MeetingSlot extends FreeBusySlot {
+  score: number;
+}
+
+/**
+ * Result of a meeting time search
+ */
+export interface FindTimeResult {
+  success: boolean;
+  slots: MeetingSlot[];
+  /** Every attendee queried, with busy slots or the reason they couldn't be read */
+  attendees: AttendeeFreeBusy[];
+  error?: string;
+}
+
+const DEFAULT_WORKING_HOURS: WorkingHours = { start: 9 * 60, end: 17 * 60 };
+/** Gap kept free around a slot to earn the buffer bonus */
+const BUFFER_MS = 15 * 60 * 1000;
+
+/**
+ * Whether Intl knows a time zone name (IANA names; not Windows names).
+ */
+export function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date, weekday and minutes since midnight of an instant in a zone.
+ */
+export function zonedParts(instant: Date, timeZone: string): { date: string; weekday: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    weekday: "long",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || "";
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    weekday: get("weekday").toLowerCase(),
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+function clockTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}:00`;
+}
+
+/**
+ * An instant as wall-clock time in a zone, e.g. for recurring events that
+ * should keep their local time across daylight saving changes.
+ */
+export function toZonedDateTime(instant: Date, timeZone: string): { dateTime: string; timeZone: string } {
+  const { date, minutes } = zonedParts(instant, timeZone);
+  return { dateTime: `${date}T${clockTime(minutes)}`, timeZone };
+}
+
+/**
+ * Parse working hours: "9-17", "9:30-17:00" or "08:00-16:30".
+ *
+ * @returns The hours, or null if the value isn't a valid range
+ */
+export function parseWorkingHours(value: string): WorkingHours | null {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*-\s*(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  const start = Number(match[1]) * 60 + Number(match[2] || 0);
+  const end = Number(match[3]) * 60 + Number(match[4] || 0);
+  if (start >= end || end > 24 * 60) return null;
+  return { start, end };
+}
+
+/**
+ * Parse a search window: "today", "tomorrow", "this week", "next week",
+ * "next 3 days" / "3 days", "YYYY-MM-DD" or "YYYY-MM-DD..YYYY-MM-DD".
+ * Dates are local; windows that include today start now.
+ *
+ * @param value - Window description
+ * @param now - Current time (for tests)
+ * @returns The window, or null if the value isn't recognized
+ */
+export function parseWithin(value: string, now: Date = new Date()): { timeMin: Date; timeMax: Date } | null {
+  const text = value.trim().toLowerCase();
+  const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  const addDays = (d: Date, days: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+  const today = startOfDay(now);
+  // Days until next Monday (1..7)
+  const toMonday = ((8 - today.getDay()) % 7) || 7;
+
+  if (text === "today") return { timeMin: now, timeMax: addDays(today, 1) };
+  if (text === "tomorrow") return { timeMin: addDays(today, 1), timeMax: addDays(today, 2) };
+  if (text === "this week") return { timeMin: now, timeMax: addDays(today, toMonday) };
+  if (text === "next week") {
+    return { timeMin: addDays(today, toMonday), timeMax: addDays(today, toMonday + 7) };
+  }
+
+  const days = text.match(/^(?:next\s+)?(\d+)\s+days?$/);
+  if (days) {
+    return { timeMin: now, timeMax: addDays(today, Number(days[1])) };
+  }
+
+  const range = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:\s*\.\.\s*(\d{4})-(\d{2})-(\d{2}))?$/);
+  if (range) {
+    const first = new Date(Number(range[1]), Number(range[2]) - 1, Number(range[3]));
+    const last = range[4] ? new Date(Number(range[4]), Number(range[5]) - 1, Number(range[6])) : first;
+    if (last < first) return null;
+    return { timeMin: first < now ? now : first, timeMax: addDays(last, 1) };
+  }
+
+  return null;
+}
+
+/**
+ * Whether an attendee's published working hours cover a slot. Hours in a
+ * zone Intl doesn't know (Windows names from Outlook) aren't checked.
+ */
+function withinAttendeeHours(attendee: AttendeeFreeBusy, start: Date, durationMinutes: number): boolean {
+  const hours = attendee.workingHours;
+  if (!hours || !isTimeZone(hours.timeZone)) return true;
+
+  const local = zonedParts(start, hours.timeZone);
+  const [sh = 0, sm = 0] = hours.startTime.split(":").map(Number);
+  const [eh = 0, em = 0] = hours.endTime.split(":").map(Number);
+  return (
+    hours.daysOfWeek.includes(local.weekday) &&
+    local.minutes >= sh * 60 + sm &&
+    local.minutes + durationMinutes <= eh * 60 + em
+  );
+}
+
+/**
+ * Find slots when every attendee is free, within working hours on weekdays.
+ * Candidates are ranked by how soon they are, whether they fall in the
+ * middle of the working day, and whether they leave a buffer around
+ * everyone's other meetings; the best non-overlapping slots are returned.
+ *
+ * @param attendees - Busy slots per attendee (from getAttendeeFreeBusyDirect)
+ * @param options - Duration, window, working hours and time zone
+ * @returns Slots, best first
+ */
+export function findMeetingSlots(attendees: AttendeeFreeBusy[], options: FindTimeOptions): MeetingSlot[] {
+  const timeZone = options.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const hours = options.workingHours || DEFAULT_WORKING_HOURS;
+  const step = options.stepMinutes || 30;
+  const duration = options.durationMinutes * 60 * 1000;
+  const busy = attendees.flatMap((a) =>
+    a.busy.map((slot) => ({ start: new Date(slot.start).getTime(), end: new Date(slot.end).getTime() }))
+  );
+
+  const candidates: MeetingSlot[] = [];
+  const firstDay = zonedParts(options.timeMin, timeZone).date;
+  const lastDay = zonedParts(options.timeMax, timeZone).date;
+  const [y, m, d] = firstDay.split("-").map(Number) as [number, number, number];
+
+  for (let dayIndex = 0; ; dayIndex++) {
+    const day = new Date(Date.UTC(y, m - 1, d + dayIndex));
+    const date = day.toISOString().slice(0, 10);
+    if (date > lastDay) break;
+    if (day.getUTCDay() === 0 || day.getUTCDay() === 6) continue;
+
+    const dayStart = icsDateToDate({ dateTime: `${date}T${clockTime(hours.start)}`, timeZone })!.getTime();
+    const dayEnd = icsDateToDate({ dateTime: `${date}T${clockTime(hours.end)}`, timeZone })!.getTime();
+
+    for (let start = dayStart; start + duration <= dayEnd; start += step * 60 * 1000) {
+      const end = start + duration;
+      if (start < options.timeMin.getTime() || end > options.timeMax.getTime()) continue;
+      if (busy.some((b) => b.start < end && b.end > start)) continue;
+      if (!attendees.every((a) => withinAttendeeHours(a, new Date(start), options.durationMinutes))) continue;
+
+      let score = 100 - dayIndex * 10;
+      // Avoid the first and last hour of the working day
+      if (start - dayStart >= 60 * 60 * 1000 && dayEnd - end >= 60 * 60 * 1000) score += 10;
+      // Room to breathe before and after
+      if (!busy.some((b) => b.start < end + BUFFER_MS && b.end > start - BUFFER_MS)) score += 5;
+
+      candidates.push({ start: new Date(start).toISOString(), end: new Date(end).toISOString(), score });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score || a.start.localeCompare(b.start));
+
+  const slots: MeetingSlot[] = [];
+  const perDay = new Map<string, number>();
+  for (const candidate of candidates) {
+    if (slots.length >= (options.limit || 5)) break;
+    if (slots.some((s) => s.start < candidate.end && s.end > candidate.start)) continue;
+    const day = zonedParts(new Date(candidate.start), timeZone).date;
+    if (options.perDay && (perDay.get(day) || 0) >= options.perDay) continue;
+    perDay.set(day, (perDay.get(day) || 0) + 1);
+    slots.push(candidate);
+  }
+  return slots;
+}
+
+/**
+ * Find times when the user and every attendee are free, using Google
+ * Calendar freeBusy or MS Graph getSchedule.
+ *
+ * @param provider - The connection provider
+ * @param options - Attendees, duration, window and working hours
+ * @returns Ranked slots and each attendee's availability
+ */
+export async function findMeetingTimes(
+  provider: ConnectionProvider,
+  options: FindTimeOptions
+): Promise<FindTimeResult> {
+  try {
+    if (options.timeZone && !isTimeZone(options.timeZone)) {
+      return { success: false, slots: [], attendees: [], error: `Unknown time zone: ${options.timeZone}` };
+    }
+
+    const token = await provider.getToken();
+    const emails = [token.email, ...options.attendees].filter(
+      (email, i, all) => all.findIndex((e) => e.toLowerCase() === email.toLowerCase()) === i
+    );
+
+    const attendees = await getAttendeeFreeBusyDirect(
+      token,
+      emails,
+      options.timeMin.toISOString(),
+      options.timeMax.toISOString()
+    );
+
+    return { success: true, slots: findMeetingSlots(attendees, options), attendees };
+  } catch (e: any) {
+    return { success: false, slots: [], attendees: [], error: e.message || "Unknown error" };
+  }
+}
+
+// ============================================================================
+// Invitations
+// ============================================================================
+
+const RSVP_ALIASES: Record<string, RsvpResponse> = {
+  accept: "accepted",
+  accepted: "accepted",
+  yes: "accepted",
+  decline: "declined",
+  declined: "declined",
+  no: "declined",
+  tentative: "tentative",
+  maybe: "tentative",
+};
+
+/**
+ * Parse an RSVP given on the command line or by a tool: accept, decline or
+ * tentative (also yes/no/maybe).
+ *
+ * @returns The response, or null if the value isn't one
+ */
+export function parseRsvpResponse(value: string): RsvpResponse | null {
+  return RSVP_ALIASES[value.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Accept, decline or tentatively accept a calendar invitation. The
+ * organizer is notified.
+ *
+ * @param provider - The connection provider
+ * @param eventId - The ID of the event to respond to
+ * @param response - accepted, declined or tentative
+ * @param options - Optional note to the organizer and calendar ID (Google)
+ * @returns Result with success status
+ */
+export async function respondToEvent(
+  provider: ConnectionProvider,
+  eventId: string,
+  response: RsvpResponse,
+  options?: { comment?: string; calendarId?: string }
+): Promise<CalendarResult> {
+  try {
+    const token = await provider.getToken();
+    const success = await respondToCalendarEventDirect(token, eventId, response, options);
+
+    if (!success) {
+      return { success: false, error: "Failed to respond to event" };
+    }
+
+    return { success: true, eventId };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Unknown error" };
+  }
+}
+
+/**
+ * An invitation waiting for a response
+ */
+export interface Invitation {
+  /** Calendar event ID, needed to RSVP; unset for emailed invitations not in the calendar */
+  eventId?: string;
+  /** iCalendar UID */
+  uid?: string;
+  summary: string;
+  start: IcsDateTime;
+  end: IcsDateTime;
+  organizer?: { email: string; name?: string };
+  location?: string;
+  /** Found as a calendar event awaiting a response, or as an invitation email */
+  source: "calendar" | "email";
+  /** Thread of the invitation email */
+  threadId?: string;
+  /** Set by listInvitations callers that query several accounts */
+  account?: string;
+}
+
+/**
+ * Options for listing invitations
+ */
+export interface ListInvitationsOptions {
+  /** Start of the calendar window (default: now) */
+  timeMin?: Date;
+  /** End of the calendar window (default: 30 days from now) */
+  timeMax?: Date;
+  /** Invitation emails to scan (default: 20) */
+  limit?: number;
+}
+
+function isCalendarPart(mimeType: string, filename: string): boolean {
+  return /^(text\/calendar|application\/ics)/i.test(mimeType) || /\.ics$/i.test(filename);
+}
+
+/**
+ * Invitations (iTIP REQUEST events) in recent inbox emails, newest
+ * version of each UID only.
+ */
+async function findEmailedInvitations(token: TokenInfo, limit: number): Promise<Invitation[]> {
+  const threads = await searchGmailDirect(token, "label:INBOX filename:ics", limit);
+  const byUid = new Map<string, { invitation: Invitation; sequence: number }>();
+
+  for (const thread of threads) {
+    for (const message of await readThreadDirect(token, thread.id)) {
+      const texts = message.calendar ? [message.calendar] : [];
+      if (texts.length === 0) {
+        for (const att of message.attachments.filter((a) => isCalendarPart(a.mimeType, a.filename))) {
+          const content = await downloadAttachmentDirect(token, message.id, att.id);
+          texts.push(Buffer.from(content.data, "base64").toString("utf-8"));
+        }
+      }
+
+      for (const text of texts) {
+        const calendar = parseIcs(text);
+        if (calendar.method && calendar.method !== "REQUEST") continue;
+
+        for (const event of calendar.events) {
+          if (!event.uid || event.status === "CANCELLED") continue;
+          const existing = byUid.get(event.uid);
+          if (existing && existing.sequence > event.sequence) continue;
+          byUid.set(event.uid, {
+            sequence: event.sequence,
+            invitation: {
+              uid: event.uid,
+              summary: event.summary,
+              start: event.start,
+              end: event.end,
+              organizer: event.organizer,
+              location: event.location,
+              source: "email",
+              threadId: message.threadId,
+            },
+          });
+        }
+      }
+    }
+  }
+
+  return [...byUid.values()].map((entry) => entry.invitation);
+}
+
+function invitationTime(value: IcsDateTime): number {
+  return icsDateToDate(value)?.getTime() ?? 0;
+}
+
+/**
+ * List invitations waiting for a response: calendar events the user hasn't
+ * answered, plus invitations in inbox emails (text/calendar parts and .ics
+ * attachments) that aren't answered in the calendar. Emailed invitations are
+ * matched to calendar events by UID so they can be answered by event ID.
+ *
+ * Outlook files invitations in the calendar as they arrive, so only the
+ * calendar is checked for Microsoft accounts.
+ *
+ * @param provider - The connection provider
+ * @param options - Calendar window and number of emails to scan
+ * @returns Invitations, soonest first
+ */
+export async function listInvitations(
+  provider: ConnectionProvider,
+  options: ListInvitationsOptions = {}
+): Promise<Invitation[]> {
+  const token = await provider.getToken();
+  const now = new Date();
+  const timeMin = options.timeMin ?? now;
+  const timeMax = options.timeMax ?? new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
+
+  const events = await listCalendarEventsDirect(token, {
+    timeMin: timeMin.toISOString(),
+    timeMax: timeMax.toISOString(),
+    limit: 250,
+  });
+
+  const invitations: Invitation[] = events
+    .filter((e) => e.responseStatus === "needsAction" && e.status !== "cancelled")
+    .map((e) => ({
+      eventId: e.id,
+      uid: e.iCalUID,
+      summary: e.summary,
+      start: e.start,
+      end: e.end,
+      organizer: e.organizer && { email: e.organizer.email, name: e.organizer.displayName },
+      location: e.location,
+      source: "calendar" as const,
+    }));
+
+  if (!token.isMicrosoft) {
+    const known = new Set(events.map((e) => e.iCalUID).filter(Boolean));
+    for (const invitation of await findEmailedInvitations(token, options.limit ?? 20)) {
+      if (known.has(invitation.uid) || invitationTime(invitation.end || invitation.start) < now.getTime()) {
+        continue;
+      }
+      const event = await findCalendarEventByUidDirect(token, invitation.uid!);
+      if (event && event.responseStatus !== "needsAction") continue;
+      invitations.push({ ...invitation, eventId: event?.id });
+    }
+  }
+
+  return invitations.sort((a, b) => invitationTime(a.start) - invitationTime(b.start));
+}
+
+// ============================================================================
+// Import/Export
+// ============================================================================
+
+/**
+ * Options for exporting events
+ */
+export interface ExportEventsOptions {
+  timeMin: Date;
+  timeMax: Date;
+  calendarId?: string;
+  /** Maximum events to read from the calendar (default: 250) */
+  limit?: number;
+}
+
+/**
+ * Result of an export
+ */
+export interface ExportEventsResult {
+  success: boolean;
+  /** The .ics file contents */
+  ics: string;
+  /** Events written; a recurring event counts once */
+  count: number;
+  error?: string;
+}
+
+/**
+ * What an import did (or would do) with one event from the file
+ */
+export interface ImportChange {
+  uid: string;
+  summary: string;
+  action: "create" | "update" | "unchanged" | "skip";
+  /** Calendar event created or matched by UID */
+  eventId?: string;
+  /** Why the event was skipped */
+  reason?: string;
+  error?: string;
+}
+
+/**
+ * Options for importing an .ics file
+ */
+export interface ImportIcsOptions {
+  /** Report what would change without writing to the calendar */
+  dryRun?: boolean;
+  /** Calendar for new events (default: the primary calendar) */
+  calendarId?: string;
+}
+
+/**
+ * Result of an import
+ */
+export interface ImportIcsResult {
+  success: boolean;
+  changes: ImportChange[];
+  error?: string;
+}
+
+const PARTSTATS: Record<string, string> = {
+  needsAction: "NEEDS-ACTION",
+  accepted: "ACCEPTED",
+  declined: "DECLINED",
+  tentative: "TENTATIVE",
+};
+
+/**
+ * Convert an API start/end time to iCalendar: wall-clock time with a TZID
+ * for IANA zones, otherwise UTC. Graph returns times without an offset in
+ * the zone it names (usually "UTC").
+ */
+function toIcsDateTime(value: CalendarEvent["start"]): IcsDateTime {
+  if (value.date) return { date: value.date };
+  if (!value.dateTime) return {};
+
+  const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/.test(value.dateTime);
+  const wallTime = value.dateTime.slice(0, 19);
+  const zone = value.timeZone && value.timeZone !== "UTC" && isTimeZone(value.timeZone) ? value.timeZone : undefined;
+
+  if (zone && !hasOffset) return { dateTime: wallTime, timeZone: zone };
+  const instant = hasOffset
+    ? new Date(value.dateTime)
+    : icsDateToDate({ dateTime: wallTime, timeZone: value.timeZone || "UTC" })!;
+  if (zone) return toZonedDateTime(instant, zone);
+  return { dateTime: `${instant.toISOString().slice(0, 19)}Z` };
+}
+
+function toIcsEvent(event: CalendarEvent): IcsEvent {
+  return {
+    uid: event.iCalUID || `${event.id}@superhuman-cli`,
+    summary: event.summary,
+    description: event.description || undefined,
+    location: event.location || undefined,
+    start: toIcsDateTime(event.start),
+    end: toIcsDateTime(event.end),
+    organizer: event.organizer && { email: event.organizer.email, name: event.organizer.displayName || undefined },
+    attendees: (event.attendees || [])
+      .filter((a) => a.email)
+      .map((a) => ({
+        email: a.email,
+        name: a.displayName || undefined,
+        partstat: PARTSTATS[a.responseStatus || "needsAction"],
+      })),
+    status: event.status === "tentative" ? "TENTATIVE" : "CONFIRMED",
+    sequence: 0,
+    recurrence: event.recurrence,
+  };
+}
+
+/**
+ * Export events in a time range as an iCalendar (RFC 5545) file.
+ * Recurring events are written once, as the series with its RRULE;
+ * changes to single occurrences are not exported.
+ *
+ * @param provider - The connection provider
+ * @param options - Time range and calendar
+ * @returns The .ics text and how many events it contains
+ */
+export async function exportEvents(
+  provider: ConnectionProvider,
+  options: ExportEventsOptions
+): Promise<ExportEventsResult> {
+  try {
+    const token = await provider.getToken();
+    const events = await listCalendarEventsDirect(token, {
+      calendarId: options.calendarId,
+      timeMin: options.timeMin.toISOString(),
+      timeMax: options.timeMax.toISOString(),
+      limit: options.limit || 250,
+    });
+
+    const series = new Set<string>();
+    const icsEvents: IcsEvent[] = [];
+    for (const event of events) {
+      if (event.status === "cancelled") continue;
+      if (event.recurringEventId) {
+        if (series.has(event.recurringEventId)) continue;
+        const master = await getCalendarEventDirect(token, event.recurringEventId, event.calendarId);
+        if (master) {
+          series.add(event.recurringEventId);
+          icsEvents.push(toIcsEvent(master));
+          continue;
+        }
+      }
+      icsEvents.push(toIcsEvent(event));
+    }
+
+    return { success: true, ics: formatIcs({ events: icsEvents }), count: icsEvents.length };
+  } catch (e: any) {
+    return { success: false, ics: "", count: 0, error: e.message || "Unknown error" };
+  }
+}
+
+/**
+ * Convert an iCalendar time for the API. UTC and floating times (taken
+ * as local) are sent in UTC, as are zone names Google doesn't accept;
+ * Graph also takes Windows zone names.
+ */
+function toEventTime(value: IcsDateTime, isMicrosoft: boolean): IcsDateTime {
+  if (value.date) return { date: value.date };
+  const dateTime = value.dateTime || "";
+  if (value.timeZone && !dateTime.endsWith("Z") && (isMicrosoft || isTimeZone(value.timeZone))) {
+    return { dateTime, timeZone: value.timeZone };
+  }
+  const instant = icsDateToDate(value)!;
+  return { dateTime: instant.toISOString().slice(0, 19), timeZone: "UTC" };
+}
+
+/**
+ * The event's end, or its start when the file has no DTEND (the next day for all-day events).
+ */
+function icsEventEnd(event: IcsEvent): IcsDateTime {
+  if (event.end.date || event.end.dateTime) return event.end;
+  if (event.start.date) {
+    const [y, m, d] = event.start.date.split("-").map(Number) as [number, number, number];
+    return { date: new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10) };
+  }
+  return event.start;
+}
+
+function sameTime(a: IcsDateTime, b: IcsDateTime): boolean {
+  if (a.date || b.date) return a.date === b.date;
+  return icsDateToDate(a)?.getTime() === icsDateToDate(b)?.getTime();
+}
+
+/**
+ * Whether the calendar already has the file's version of an event.
+ */
+function isUnchanged(existing: CalendarEvent, event: IcsEvent): boolean {
+  return (
+    existing.summary === event.summary &&
+    (existing.location || "") === (event.location || "") &&
+    (existing.description || "").trim() === (event.description || "").trim() &&
+    sameTime(toIcsDateTime(existing.start), event.start) &&
+    sameTime(toIcsDateTime(existing.end), icsEventEnd(event))
+  );
+}
+
+/**
+ * Import events from an iCalendar file. Events are matched to the calendar
+ * by UID: new ones are created (keeping their UID), changed ones updated
+ * and the rest left alone, so importing the same file twice is harmless.
+ *
+ * Attendees are only imported into Google Calendar, without notifying
+ * them; Outlook would email every attendee an invitation. Changed
+ * occurrences (RECURRENCE-ID) and cancelled events are skipped.
+ *
+ * @param provider - The connection provider
+ * @param text - The .ics file contents
+ * @param options - Dry run and target calendar
+ * @returns One change per event in the file
+ */
+export async function importIcs(
+  provider: ConnectionProvider,
+  text: string,
+  options: ImportIcsOptions = {}
+): Promise<ImportIcsResult> {
+  try {
+    const calendar = parseIcs(text);
+    if (calendar.events.length === 0) {
+      return { success: false, changes: [], error: "No events found in the file" };
+    }
+
+    const token = await provider.getToken();
+    const changes: ImportChange[] = [];
+
+    for (const event of calendar.events) {
+      const change: ImportChange = { uid: event.uid, summary: event.summary, action: "skip" };
+      changes.push(change);
+
+      if (event.recurrenceId) {
+        change.reason = "changed occurrence of a recurring event";
+        continue;
+      }
+      if (event.status === "CANCELLED") {
+        change.reason = "cancelled";
+        continue;
+      }
+      if (!event.uid || (!event.start.date && !event.start.dateTime)) {
+        change.reason = "no UID or start time";
+        continue;
+      }
+
+      try {
+        const input = {
+          summary: event.summary,
+          description: event.description,
+          location: event.location,
+          start: toEventTime(event.start, token.isMicrosoft),
+          end: toEventTime(icsEventEnd(event), token.isMicrosoft),
+          recurrence: event.recurrence,
+          attendees: token.isMicrosoft
+            ? undefined
+            : event.attendees.map((a) => ({ email: a.email, displayName: a.name })),
+        };
+
+        const existing = await findCalendarEventByUidDirect(token, event.uid);
+        if (existing) {
+          change.eventId = existing.id;
+          if (isUnchanged(existing, event)) {
+            change.action = "unchanged";
+            continue;
+          }
+          change.action = "update";
+          if (!options.dryRun && !(await updateCalendarEventDirect(token, existing.id, input, existing.calendarId || undefined))) {
+            change.error = "Failed to update event";
+          }
+        } else {
+          change.action = "create";
+          if (!options.dryRun) {
+            const created = await createCalendarEventDirect(token, {
+              ...input,
+              calendarId: options.calendarId,
+              iCalUID: event.uid,
+            });
+            if (created) change.eventId = created.eventId;
+            else change.error = "Failed to create event";
+          }
+        }
+      } catch (e: any) {
+        change.error = e.message || "Unknown error";
+      }
+    }
+
+    const failed = changes.filter((c) => c.error);
+    return {
+      success: failed.length === 0,
+      changes,
+      error: failed.length > 0 ? `${failed.length} of ${changes.length} events failed` : undefined,
+    };
+  } catch (e: any) {
+    return { success: false, changes: [], error: e.message || "Unknown error" };
+  }
+}
+
+// ============================================================================
+// Recurring Events
+// ============================================================================
+
+/**
+ * Which occurrences of a recurring event an update or delete applies to
+ */
+export type RecurrenceScope = "instance" | "following" | "series";
+
+export const RECURRENCE_SCOPES: RecurrenceScope[] = ["instance", "following", "series"];
+
+const RRULE_WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+const DAY_NAMES = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+const ORDINALS: Record<string, number> = {
+  first: 1, "1st": 1, second: 2, "2nd": 2, third: 3, "3rd": 3, fourth: 4, "4th": 4, last: -1,
+};
+
+/**
+ * Parse a day name or abbreviation ("Mon", "tues", "Thursday") to an RRULE day.
+ */
+function parseWeekday(value: string): string | null {
+  const index = DAY_NAMES.findIndex((name) => value.length >= 2 && name.startsWith(value));
+  return index === -1 ? null : RRULE_WEEKDAYS[index]!;
+}
+
+function parseWeekdays(value: string): string[] | null {
+  const days = value.split(/\s*(?:,|\band\b|&)\s*/).filter(Boolean).map(parseWeekday);
+  return days.length > 0 && days.every(Boolean) ? (days as string[]) : null;
+}
+
+function compactUtc(instant: Date): string {
+  return `${instant.toISOString().slice(0, 19).replace(/[-:]/g, "")}Z`;
+}
+
+/**
+ * Parse a repeat rule into an RRULE, e.g. "weekly on Mon,Wed until 2026-12-31".
+ *
+ * Accepted forms: "daily", "weekdays", "weekly", "monthly", "yearly",
+ * "every 2 weeks", "every Monday"; weekly rules take "on Mon,Wed" and
+ * monthly rules "on the 15th" or "on the last Friday". Either may end with
+ * "until YYYY-MM-DD" or "10 times".
+ *
+ * @param value - The repeat rule
+ * @param options - allDay: UNTIL is a date; timeZone: zone "until" is read in (default: system)
+ * @returns The recurrence lines, or null if the rule isn't understood
+ */
+export function parseRepeat(
+  value: string,
+  options: { allDay?: boolean; timeZone?: string } = {}
+): string[] | null {
+  let rest = value.trim().toLowerCase().replace(/\s+/g, " ");
+
+  let end: string | undefined;
+  const until = rest.match(/ ?\buntil (\d{4}-\d{2}-\d{2})$/);
+  const count = rest.match(/ ?\b(?:for )?(\d+) times$/);
+  if (until) {
+    const date = until[1]!;
+    if (options.allDay) {
+      end = `UNTIL=${date.replace(/-/g, "")}`;
+    } else {
+      // The end of that day where the event happens
+      const timeZone = options.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const instant = icsDateToDate({ dateTime: `${date}T23:59:59`, timeZone });
+      if (!instant || isNaN(instant.getTime())) return null;
+      end = `UNTIL=${compactUtc(instant)}`;
+    }
+    rest = rest.slice(0, until.index);
+  } else if (count) {
+    if (Number(count[1]) < 1) return null;
+    end = `COUNT=${Number(count[1])}`;
+    rest = rest.slice(0, count.index);
+  }
+
+  const parts: string[] = [];
+  let match: RegExpMatchArray | null;
+  if ((match = rest.match(/^(?:every )?weekdays?$/))) {
+    parts.push("FREQ=WEEKLY", "BYDAY=MO,TU,WE,TH,FR");
+    rest = "";
+  } else if ((match = rest.match(/^(daily|weekly|monthly|yearly|annually)\b ?/))) {
+    parts.push(`FREQ=${match[1] === "annually" ? "YEARLY" : match[1]!.toUpperCase()}`);
+    rest = rest.slice(match[0].length);
+  } else if ((match = rest.match(/^every (?:(\d+|other) )?(day|week|month|year)s?\b ?/))) {
+    const interval = match[1] === "other" ? 2 : Number(match[1] || 1);
+    if (interval < 1) return null;
+    parts.push(`FREQ=${{ day: "DAILY", week: "WEEKLY", month: "MONTHLY", year: "YEARLY" }[match[2]!]}`);
+    if (interval > 1) parts.push(`INTERVAL=${interval}`);
+    rest = rest.slice(match[0].length);
+  } else if ((match = rest.match(/^every (.+)$/)) && parseWeekdays(match[1]!)) {
+    parts.push("FREQ=WEEKLY", `BYDAY=${parseWeekdays(match[1]!)!.join(",")}`);
+    rest = "";
+  } else {
+    return null;
+  }
+
+  if (rest) {
+    const on = rest.match(/^on (?:the )?(.+)$/);
+    if (!on) return null;
+    const spec = on[1]!;
+    const freq = parts[0];
+    const ordinal = spec.match(/^(\w+) (\w+)$/);
+    const dayOfMonth = spec.match(/^(\d{1,2})(?:st|nd|rd|th)?$/);
+
+    if (freq === "FREQ=WEEKLY" && parseWeekdays(spec)) {
+      parts.push(`BYDAY=${parseWeekdays(spec)!.join(",")}`);
+    } else if (freq === "FREQ=MONTHLY" && dayOfMonth && Number(dayOfMonth[1]) >= 1 && Number(dayOfMonth[1]) <= 31) {
+      parts.push(`BYMONTHDAY=${Number(dayOfMonth[1])}`);
+    } else if (freq === "FREQ=MONTHLY" && ordinal && ORDINALS[ordinal[1]!] && parseWeekday(ordinal[2]!)) {
+      parts.push(`BYDAY=${ORDINALS[ordinal[1]!]}${parseWeekday(ordinal[2]!)}`);
+    } else {
+      return null;
+    }
+  }
+
+  if (end) parts.push(end);
+  return [`RRULE:${parts.join(";")}`];
+}
+
+/**
+ * An event time as an instant (all-day dates are local midnight).
+ */
+function eventInstant(value: CalendarEvent["start"]): number {
+  return icsDateToDate(toIcsDateTime(value))?.getTime() ?? NaN;
+}
+
+/**
+ * The IANA zone a recurring event repeats in (the system zone when the
+ * event has none, or a Windows zone name from Outlook).
+ */
+function seriesTimeZone(event: CalendarEvent): string {
+  const zone = event.start.timeZone;
+  return zone && zone !== "UTC" && isTimeZone(zone) ? zone : Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function addDays(date: string, days: number): string {
+  const [y, m, d] = date.split("-").map(Number) as [number, number, number];
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Replace the RRULE's end (COUNT/UNTIL) in a recurrence.
+ */
+function withRuleEnd(recurrence: string[], end: string | null): string[] {
+  return recurrence.map((line) => {
+    if (!/^RRULE:/i.test(line)) return line;
+    const parts = line.slice(6).split(";").filter((part) => !/^(COUNT|UNTIL)=/i.test(part));
+    return `RRULE:${[...parts, ...(end ? [end] : [])].join(";")}`;
+  });
+}
+
+/**
+ * A recurring event and the occurrence a scoped change starts from.
+ */
+interface ScopeTarget {
+  /** The event the ID refers to (an occurrence or the series itself) */
+  event: CalendarEvent;
+  /** The series master, if the event is part of a recurring series */
+  series?: CalendarEvent;
+}
+
+async function resolveScopeTarget(
+  token: TokenInfo,
+  eventId: string,
+  scope: RecurrenceScope,
+  calendarId?: string
+): Promise<ScopeTarget> {
+  const event = await getCalendarEventDirect(token, eventId, calendarId);
+  if (!event) {
+    throw new Error(`Event not found: ${eventId}`);
+  }
+
+  if (!event.recurringEventId) {
+    if (event.recurrence?.length && scope === "instance") {
+      throw new Error("This is the whole series; pass the ID of one occurrence (from calendar list) to change just that one");
+    }
+    return { event, series: event.recurrence?.length ? event : undefined };
+  }
+
+  const series = await getCalendarEventDirect(token, event.recurringEventId, calendarId || event.calendarId || undefined);
+  if (!series) {
+    throw new Error(`Couldn't read the recurring series ${event.recurringEventId}`);
+  }
+  return { event, series };
+}
+
+/**
+ * End a series just before an occurrence, returning the recurrence for the
+ * occurrences from there on (COUNT reduced by the occurrences before it).
+ */
+async function splitSeries(
+  token: TokenInfo,
+  series: CalendarEvent,
+  splitAt: number
+): Promise<{ before: string[]; after: string[] }> {
+  const recurrence = series.recurrence || [];
+  const rule = recurrence.find((line) => /^RRULE:/i.test(line)) || "";
+  const count = rule.match(/;COUNT=(\d+)/i);
+
+  let after = recurrence;
+  if (count) {
+    const instances = await listEventInstancesDirect(
+      token,
+      series.id,
+      new Date(eventInstant(series.start)).toISOString(),
+      new Date(splitAt).toISOString(),
+      series.calendarId || undefined
+    );
+    const earlier = instances.filter((i) => eventInstant(i.originalStartTime || i.start) < splitAt).length;
+    after = withRuleEnd(recurrence, `COUNT=${Math.max(1, Number(count[1]) - earlier)}`);
+  }
+
+  // Outlook ends a series on a date in its own zone; Google takes the exact time
+  const previousDay = addDays(zonedParts(new Date(splitAt), seriesTimeZone(series)).date, -1).replace(/-/g, "");
+  const until = series.start.date || token.isMicrosoft ? previousDay : compactUtc(new Date(splitAt - 1000));
+  return { before: withRuleEnd(recurrence, `UNTIL=${until}`), after };
+}
+
+/**
+ * Move a series by as much as the given occurrence is being moved, so
+ * changing one occurrence's time with scope "series" keeps the series'
+ * start date.
+ */
+function shiftSeriesTimes(series: CalendarEvent, occurrence: CalendarEvent, updates: UpdateEventInput): UpdateEventInput {
+  if (series.start.date || occurrence.start.date || (!updates.start && !updates.end)) return updates;
+
+  const zone = seriesTimeZone(series);
+  const shifted = { ...updates };
+  if (updates.start?.dateTime) {
+    const delta = eventInstant(updates.start) - eventInstant(occurrence.start);
+    shifted.start = toZonedDateTime(new Date(eventInstant(series.start) + delta), zone);
+  }
+  if (updates.end?.dateTime) {
+    const delta = eventInstant(updates.end) - eventInstant(occurrence.end);
+    shifted.end = toZonedDateTime(new Date(eventInstant(series.end) + delta), zone);
+  }
+  return shifted;
+}
+
+/**
+ * Update an event, or part of the recurring series it belongs to.
+ *
+ * - instance: just this occurrence (it becomes an exception to the series)
+ * - following: this and later occurrences; the series is ended before this
+ *   occurrence and continued as a new series with the changes. Changes made
+ *   to single later occurrences are not carried over.
+ * - series: every occurrence; a new start/end moves the series by as much
+ *   as it moves this occurrence
+ *
+ * @param provider - The connection provider
+ * @param eventId - The event or occurrence ID (from calendar list)
+ * @param updates - The fields to update
+ * @param scope - Which occurrences to change (non-recurring events ignore it)
+ * @param calendarId - Optional calendar ID (Google)
+ * @returns Result with the ID of the event that was changed or created
+ */
+export async function updateEventInScope(
+  provider: ConnectionProvider,
+  eventId: string,
+  updates: UpdateEventInput,
+  scope: RecurrenceScope,
+  calendarId?: string
+): Promise<CalendarResult> {
+  try {
+    const token = await provider.getToken();
+    const { event, series } = await resolveScopeTarget(token, eventId, scope, calendarId);
+    const seriesCalendarId = series?.calendarId || calendarId;
+
+    if (!series || scope === "instance") {
+      const success = await updateCalendarEventDirect(token, event.id, updates, calendarId);
+      return success ? { success: true, eventId: event.id } : { success: false, error: "Failed to update event" };
+    }
+
+    const splitAt = eventInstant(event.originalStartTime || event.start);
+    if (scope === "series" || event.id === series.id || splitAt <= eventInstant(series.start)) {
+      const success = await updateCalendarEventDirect(token, series.id, shiftSeriesTimes(series, event, updates), seriesCalendarId);
+      return success ? { success: true, eventId: series.id } : { success: false, error: "Failed to update series" };
+    }
+
+    // This and following: continue the series from this occurrence as a new event
+    const { before, after } = await splitSeries(token, series, splitAt);
+    const zone = seriesTimeZone(series);
+    const duration = eventInstant(series.end) - eventInstant(series.start);
+    let start: CalendarEvent["start"];
+    let end: CalendarEvent["end"];
+    if (series.start.date) {
+      const date = event.originalStartTime?.date || event.start.date!;
+      start = updates.start?.date ? updates.start : { date };
+      end = updates.end?.date ? updates.end : { date: addDays(start.date!, Math.round(duration / 86400000)) };
+    } else {
+      const startAt = updates.start ? eventInstant(updates.start) : splitAt;
+      start = toZonedDateTime(new Date(startAt), zone);
+      end = toZonedDateTime(new Date(updates.end ? eventInstant(updates.end) : startAt + duration), zone);
+    }
+
+    const created = await createCalendarEventDirect(token, {
+      calendarId: seriesCalendarId,
+      summary: updates.summary ?? series.summary,
+      description: updates.description ?? (series.description || undefined),
+      location: updates.location ?? series.location,
+      start,
+      end,
+      attendees: updates.attendees ?? (series.attendees || []).map((a) => ({ email: a.email, displayName: a.displayName })),
+      recurrence: updates.recurrence ?? after,
+    });
+    if (!created) {
+      return { success: false, error: "Failed to create the new series" };
+    }
+
+    if (!(await updateCalendarEventDirect(token, series.id, { recurrence: before }, seriesCalendarId))) {
+      // Don't leave both series running
+      await deleteCalendarEventDirect(token, created.eventId, seriesCalendarId);
+      return { success: false, error: "Failed to end the original series" };
+    }
+
+    return { success: true, eventId: created.eventId };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Unknown error" };
+  }
+}
+
+/**
+ * Delete an event, or part of the recurring series it belongs to.
+ * "following" ends the series before this occurrence.
+ *
+ * @param provider - The connection provider
+ * @param eventId - The event or occurrence ID (from calendar list)
+ * @param scope - Which occurrences to delete (non-recurring events ignore it)
+ * @param calendarId - Optional calendar ID (Google)
+ * @returns Result with success status
+ */
+export async function deleteEventInScope(
+  provider: ConnectionProvider,
+  eventId: string,
+  scope: RecurrenceScope,
+  calendarId?: string
+): Promise<CalendarResult> {
+  try {
+    const token = await provider.getToken();
+    const { event, series } = await resolveScopeTarget(token, eventId, scope, calendarId);
+    const seriesCalendarId = series?.calendarId || calendarId;
+
+    if (!series || scope === "instance") {
+      const success = await deleteCalendarEventDirect(token, event.id, calendarId);
+      return success ? { success: true, eventId: event.id } : { success: false, error: "Failed to delete event" };
+    }
+
+    const splitAt = eventInstant(event.originalStartTime || event.start);
+    if (scope === "series" || event.id === series.id || splitAt <= eventInstant(series.start)) {
+      const success = await deleteCalendarEventDirect(token, series.id, seriesCalendarId);
+      return success ? { success: true, eventId: series.id } : { success: false, error: "Failed to delete series" };
+    }
+
+    const { before } = await splitSeries(token, series, splitAt);
+    const success = await updateCalendarEventDirect(token, series.id, { recurrence: before }, seriesCalendarId);
+    return success ? { success: true, eventId: series.id } : { success: false, error: "Failed to end the series" };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Unknown error" };
+  }
+}
@@ -10,6 +10,7 @@
  *   superhuman status
  */
 
+import { createInterface } from "node:readline/promises";
 import {
   connectToSuperhuman,
   disconnect,
@@ -19,12 +20,37 @@ import {
   unescapeString,
   type SuperhumanConnection,
 } from "./superhuman-api";
-import { listInbox, searchInbox } from "./inbox";
+import {
+  listInbox,
+  searchInbox,
+  listInboxAllAccounts,
+  searchInboxAllAccounts,
+  parseThreadRef,
+  formatThreadRef,
+  type InboxThread,
+} from "./inbox";
 import { listAccounts, listAccountsChrome, switchAccount, type Account } from "./accounts";
-import { replyToThread, replyAllToThread, forwardThread } from "./reply";
+import { replyToThread, replyAllToThread, forwardThread, buildForwardContent } from "./reply";
 import { archiveThread, deleteThread } from "./archive";
 import { markAsRead, markAsUnread } from "./read-status";
-import { listLabels, getThreadLabels, addLabel, removeLabel, starThread, unstarThread, listStarred } from "./labels";
+import { readThreadDirect, fromCachedMessage, type ThreadMessage } from "./read";
+import { renderMessageBody, renderThreadMarkdown, RENDER_FORMATS, type RenderFormat } from "./render";
+import {
+  listLabels,
+  getThreadLabels,
+  addLabel,
+  removeLabel,
+  starThread,
+  unstarThread,
+  listStarred,
+  resolveLabel,
+  createLabel,
+  renameLabel,
+  moveLabel,
+  recolorLabel,
+  deleteLabel,
+  type LabelChangeResult,
+} from "./labels";
 import { parseSnoozeTime, snoozeThreadViaProvider, unsnoozeThreadViaProvider, listSnoozedViaProvider } from "./snooze";
 import { listAttachments, downloadAttachment } from "./attachments";
 import {
@@ -33,14 +59,66 @@ import {
   updateEvent,
   deleteEvent as deleteCalendarEvent,
   getFreeBusy,
+  findMeetingTimes,
+  parseWithin,
+  parseWorkingHours,
+  respondToEvent,
+  parseRsvpResponse,
+  listInvitations,
+  exportEvents,
+  importIcs,
+  parseRepeat,
+  toZonedDateTime,
+  isTimeZone,
+  updateEventInScope,
+  deleteEventInScope,
+  RECURRENCE_SCOPES,
+  type RecurrenceScope,
   type CalendarEvent,
   type CreateEventInput,
   type UpdateEventInput,
+  type Invitation,
 } from "./calendar";
+import { icsDateToDate } from "./ics";
+import { proposeAvailability, placeHolds, listHoldGroups, releaseHolds, releaseBookedHolds } from "./availability";
 import { sendEmailViaProvider, createDraftViaProvider, updateDraftViaProvider, sendDraftByIdViaProvider, deleteDraftViaProvider } from "./send-api";
-import { createDraftWithUserInfo, getUserInfo, getUserInfoFromCache, sendDraftSuperhuman, updateDraftWithUserInfo, deleteDraftWithUserInfo, type Recipient, type UserInfo } from "./draft-api";
+import { createDraftWithUserInfo, getUserInfo, getUserInfoFromCache, sendDraftSuperhuman, updateDraftWithUserInfo, deleteDraftWithUserInfo, type DraftOptions, type Recipient, type UserInfo } from "./draft-api";
 import { searchContacts, resolveRecipient, type Contact } from "./contacts";
-import { listSnippets, findSnippet, applyVars, parseVars } from "./snippets";
+import { loadAttachment, type MimeAttachment } from "./mime";
+import { watchInbox } from "./watch";
+import { runTui } from "./tui";
+import { runBulkAction, resumeBulkRun, listBulkRuns, loadBulkRun, BULK_ACTIONS, type BulkAction, type BulkProgress, type BulkResult } from "./bulk";
+import { exportThreads, findThreadIds, EXPORT_FORMATS, type ExportFormat } from "./export";
+import { loadRules, evaluateRules, runRules, describeAction } from "./rules";
+import { withUndo, listOperations, findOperation, undoOperation, type Operation, type UndoLog } from "./history";
+import { parseSendTime, scheduleDraftSend, listScheduledSends } from "./scheduled";
+import {
+  openMailCache,
+  getMailCachePath,
+  getCachedInbox,
+  searchCachedThreads,
+  getCachedThreadMessages,
+  getSyncState,
+  listCachedMailAccounts,
+  syncMailCache,
+} from "./mail-cache";
+import {
+  listSnippets,
+  findSnippet,
+  applyVars,
+  parseVars,
+  findVariables,
+  missingVariables,
+  resolveSnippetVars,
+  createSnippet,
+  updateSnippet,
+  deleteSnippet,
+  exportSnippets,
+  readSnippetDir,
+  importSnippets,
+  type Snippet,
+  type SnippetInput,
+} from "./snippets";
 import {
   getToken,
   saveTokensToDisk,
@@ -55,7 +133,6 @@ import {
   hasCachedSuperhumanCredentials,
   getThreadInfoDirect,
   sendEmailDirect,
-  getThreadMessages,
   listDraftsDirect,
   extractTokenChrome,
   type TokenInfo,
@@ -144,23 +221,37 @@ ${colors.bold}COMMANDS${colors.reset}
   ${colors.cyan}send${colors.reset}                Compose and send, or send an existing draft
   ${colors.cyan}ai${colors.reset} <query>          Ask AI to search, compose, or answer questions
   ${colors.cyan}ai${colors.reset} <id> <query>     Ask AI about a specific email thread
+  ${colors.cyan}sync${colors.reset}                Sync inbox into the local offline cache
+  ${colors.cyan}watch${colors.reset}               Stream new/changed inbox threads as JSON lines
+  ${colors.cyan}tui${colors.reset}                 Interactive inbox with a reading pane and keyboard shortcuts
+  ${colors.cyan}invites${colors.reset}             List meeting invitations waiting for a response (calendar and inbox)
+  ${colors.cyan}export${colors.reset} <id>         Export thread(s) to eml, mbox, Markdown or printable HTML
+  ${colors.cyan}undo${colors.reset} [<op-id>]      Undo the last archive/delete/mark/label/star/snooze operation(s)
+  ${colors.cyan}history${colors.reset}             Show recent operations that can be undone
   ${colors.cyan}status${colors.reset}              Check Superhuman connection status
   ${colors.cyan}help${colors.reset}                Show this help message
 
 ${colors.bold}SUBCOMMAND GROUPS${colors.reset}
   ${colors.cyan}account${colors.reset}  list | switch <email|index> | auth
-  ${colors.cyan}calendar${colors.reset} list | create | update | delete | free
+  ${colors.cyan}calendar${colors.reset} list | create | update | delete | free | rsvp <id> accept|decline|tentative | find-time | propose | holds
+           export | import <file.ics>
   ${colors.cyan}draft${colors.reset}    list | create | update <id> | delete <id> | send <id>
-  ${colors.cyan}label${colors.reset}    list | get <id> | add <id> | remove <id>
+  ${colors.cyan}label${colors.reset}    list | get <id> | add <id> | remove <id> | create <name> | rename <label> <name>
+           move <label> <parent> | recolor <label> | delete <label>
   ${colors.cyan}mark${colors.reset}     read <id> | unread <id>
   ${colors.cyan}star${colors.reset}     add <id> | remove <id> | list
   ${colors.cyan}snooze${colors.reset}   set <id> --until <time> | cancel <id> | list
   ${colors.cyan}attachment${colors.reset} list <id> | download <id>
-  ${colors.cyan}snippet${colors.reset}  list | use <name>
+  ${colors.cyan}snippet${colors.reset}  list | use <name> | create <name> | edit <name> | delete <name>
+           export [--output <dir>] | import <dir>
   ${colors.cyan}contact${colors.reset}  search <query>
+  ${colors.cyan}rules${colors.reset}    run [--dry-run] | test <id>
+  ${colors.cyan}scheduled${colors.reset} list
+  ${colors.cyan}bulk${colors.reset}     <action> --query <q> | resume [<run-id>] | list
 
 ${colors.bold}OPTIONS${colors.reset}
   ${colors.cyan}--account <email>${colors.reset}  Account to operate on (default: current)
+  --all-accounts     Query every cached account, merged by date (for inbox/search/sync)
   --to <email|name>  Recipient email or name (names are resolved via contact search)
   --cc <email|name>  CC recipient (can be used multiple times)
   --bcc <email|name> BCC recipient (can be used multiple times)
@@ -168,29 +259,61 @@ ${colors.bold}OPTIONS${colors.reset}
   --body <text>      Email body (plain text, converted to HTML)
   --html <text>      Email body as HTML
   --send             Send immediately instead of saving as draft (for reply/reply-all/forward)
-  --vars <pairs>     Template variable substitution: "key1=val1,key2=val2" (for snippet use)
+  --vars <pairs>     Template variable substitution: "key1=val1,key2=val2" (for snippet use;
+                     {first_name}/{last_name}/{email} come from the recipient, others are prompted for)
+  --name <text>      New snippet name (for snippet edit)
+  --shared           Share the snippet with your team (--private to stop; for snippet create/edit)
   --provider <type>  Draft API: "superhuman" (default), "gmail", or "outlook"
+                     (for draft create, reply, reply-all, forward, snippet use)
   --native           Use native Superhuman API for draft update (auto-detected for draft00... IDs)
   --draft <id>       Draft ID to send (for send command)
   --thread <id>      Thread ID for reply/forward drafts (for draft send)
   --delay <seconds>  Delay before sending in seconds (for draft send, default: 20)
-  --label <id>       Label ID (for label add/remove)
+  --at <time>        Schedule the send: "tomorrow 9am", "friday 14:30", preset or ISO datetime
+  --in <duration>    Schedule the send relative to now: 30m, 2h, 1h30m, 3d
+  --attach <path>    Attach a file (can be used multiple times; send/reply/reply-all/forward/snippet use/draft create)
+  --label <label>    Label name, path (Clients/Acme) or ID (for label add/remove, bulk label/unlabel)
+  --color <color>    Label color: Gmail "#bg[/#text]" or Outlook category preset (for label create/recolor)
+  --category         Manage an Outlook category instead of a folder (for label create/recolor/delete)
   --until <time>     Snooze until: preset (tomorrow, next-week, weekend, evening) or ISO datetime
-  --output <path>    Output directory or file path (for attachment download)
+  --output <path>    Output directory or file path (for attachment download/export/snippet export/calendar export)
+  --format <format>  Export format: eml, mbox, md, pdf-ready-html (for export, default: eml)
+                     Body format: text, markdown, html (for read, default: text)
+                     Availability format: text, html (for calendar propose, default: text)
+                     Calendar format: ics (for calendar export, default: ics)
   --attachment <id>  Specific attachment ID (for attachment download)
-  --message <id>     Message ID (required with --attachment)
-  --limit <number>   Number of results (default: 10, for inbox/search)
+  --message <id>     Message ID (required with --attachment; for forward, the message to forward)
+  --all              Forward every message in the thread as a digest (for forward)
+  --limit <number>   Number of results (default: 10, for inbox/search/history; no cap for export --query)
   --include-done     Search all emails including archived/done (uses Gmail API directly)
   --context <number> Number of messages to show full body (default: all, for read)
+  --offline          Answer inbox/search/read from the local cache (see sync)
+  --full             Discard the sync cursor and re-sync from scratch (for sync)
+  --exec <command>   Shell command run per thread, JSON on stdin (for watch)
+  --interval <secs>  Poll interval in seconds (for watch, default: 30)
+  --dry-run          Show what would happen without changing anything (for rules run/bulk/snippet import/calendar import)
+  --last <n>         Undo the last N operations (for undo, default: 1)
   --json             Output as JSON
   --date <date>      Date for calendar (YYYY-MM-DD or "today", "tomorrow")
   --calendar <name>  Calendar name or ID (default: primary)
-  --range <days>     Days to show for calendar (default: 1)
+  --range <days>     Days to show or export for calendar (default: 1)
   --start <time>     Event start time (ISO datetime or natural: "2pm", "tomorrow 3pm")
   --end <time>       Event end time (ISO datetime, optional if --duration)
   --duration <mins>  Event duration in minutes (default: 30)
-  --title <text>     Event title (for calendar create/update)
-  --event <id>       Event ID (for calendar update/delete)
+  --title <text>     Event title (for calendar create/update, find-time --book, propose --hold)
+  --event <id>       Event ID (for calendar update/delete/rsvp)
+  --repeat <rule>    Make the event recurring: "weekly on Mon,Wed until 2026-12-31", "daily 10 times",
+                     "monthly on the last Friday" (for calendar create)
+  --scope <scope>    Occurrences of a recurring event to change: instance, following, series
+                     (for calendar update/delete, default: instance)
+  --comment <text>   Note to the organizer (for calendar rsvp)
+  --with <emails>    Attendees to meet with, comma-separated (for calendar find-time)
+  --within <window>  "today", "this week", "next week", "3 days" or "2026-10-20..2026-10-23" (default: next 5 days)
+  --working-hours <h> Working hours, e.g. 9-17 or 9:30-17:30 (default: 9-17)
+  --tz <zone>        Time zone for working hours or a repeating event, e.g. Europe/Berlin (default: system)
+  --book [n]         Book suggestion n (default: 1) and send invites (needs --title)
+  --days <n>         Working days to propose times on (for calendar propose, default: 5)
+  --hold             Place tentative holds on the proposed times (for calendar propose)
   --port <number>    CDP port (default: ${CDP_PORT})
 
 ${colors.bold}EXAMPLES${colors.reset}
@@ -204,16 +327,39 @@ ${colors.bold}EXAMPLES${colors.reset}
   ${colors.dim}# List recent emails${colors.reset}
   superhuman inbox
   superhuman inbox --limit 5 --json
+  superhuman inbox --all-accounts
 
   ${colors.dim}# Search emails${colors.reset}
   superhuman search "from:john subject:meeting"
   superhuman search "project update" --limit 20
   superhuman search "from:anthropic" --include-done
+  superhuman search "invoice" --all-accounts
+
+  ${colors.dim}# Follow up on a thread listed with --all-accounts (no --account needed)${colors.reset}
+  superhuman read user@example.com:<thread-id>
+  superhuman archive user@example.com:<thread-id>
 
   ${colors.dim}# Read an email thread${colors.reset}
   superhuman read <thread-id> --account user@example.com
   superhuman read <thread-id> --account user@example.com --context 3
   superhuman read <thread-id> --account user@example.com --json
+  superhuman read <thread-id> --account user@example.com --format markdown
+
+  ${colors.dim}# Offline cache${colors.reset}
+  superhuman sync --limit 200
+  superhuman sync --all-accounts
+  superhuman inbox --offline
+  superhuman search "from:john" --offline
+  superhuman read <thread-id> --offline
+
+  ${colors.dim}# Watch for new mail${colors.reset}
+  superhuman watch
+  superhuman watch --query "from:boss" --interval 10
+  superhuman watch --exec 'jq -r .subject | say'
+
+  ${colors.dim}# Interactive inbox (e archive, h snooze, r reply, l label, s star, tab next account)${colors.reset}
+  superhuman tui
+  superhuman tui --account work@example.com --limit 50
 
   ${colors.dim}# Reply to an email${colors.reset}
   superhuman reply <thread-id> --body "Thanks for the update!"
@@ -222,11 +368,20 @@ ${colors.bold}EXAMPLES${colors.reset}
   ${colors.dim}# Reply-all / Forward${colors.reset}
   superhuman reply-all <thread-id> --body "Thanks everyone!"
   superhuman forward <thread-id> --to colleague@example.com --body "FYI" --send
+  superhuman forward <thread-id> --to colleague@example.com --message <message-id>
+  superhuman forward <thread-id> --to colleague@example.com --all
 
   ${colors.dim}# Archive / Delete${colors.reset}
   superhuman archive <thread-id>
   superhuman delete <thread-id1> <thread-id2>
 
+  ${colors.dim}# Undo and history${colors.reset}
+  superhuman undo
+  superhuman undo --last 3
+  superhuman undo <op-id>
+  superhuman history
+  superhuman history --limit 20 --json
+
   ${colors.dim}# Mark as read/unread${colors.reset}
   superhuman mark read <thread-id>
   superhuman mark unread <thread-id1> <thread-id2>
@@ -236,7 +391,14 @@ ${colors.bold}EXAMPLES${colors.reset}
   superhuman label list --json
   superhuman label get <thread-id>
   superhuman label add <thread-id> --label Label_123
-  superhuman label remove <thread-id> --label Label_123
+  superhuman label add <thread-id> --label "Clients/Acme"
+  superhuman label remove <thread-id> --label Receipts
+  superhuman label add <thread-id> --label Urgent            ${colors.dim}# Outlook category${colors.reset}
+  superhuman label create "Clients/Acme" --color "#16a766"
+  superhuman label rename "Clients/Acme" "Acme Corp"
+  superhuman label move "Clients/Acme Corp" Archive          ${colors.dim}# "/" moves to the top level${colors.reset}
+  superhuman label delete Receipts
+  superhuman label create Urgent --category --color preset0   ${colors.dim}# Outlook category${colors.reset}
 
   ${colors.dim}# Star / Unstar${colors.reset}
   superhuman star add <thread-id>
@@ -252,6 +414,11 @@ ${colors.bold}EXAMPLES${colors.reset}
   superhuman snooze list
   superhuman snooze list --json
 
+  ${colors.dim}# Export threads${colors.reset}
+  superhuman export <thread-id> --format eml --output ./archive
+  superhuman export <thread-id> --format pdf-ready-html --output ./tickets
+  superhuman export --query "label:customers" --format mbox --output ./backup
+
   ${colors.dim}# Attachments${colors.reset}
   superhuman attachment list <thread-id>
   superhuman attachment list <thread-id> --json
@@ -264,10 +431,24 @@ ${colors.bold}EXAMPLES${colors.reset}
   superhuman calendar list --date tomorrow --range 7 --json
   superhuman calendar create --title "Meeting" --start "2pm" --duration 30
   superhuman calendar create --title "All Day" --date 2026-02-05
+  superhuman calendar create --title "Standup" --start "mon 9:30am" --duration 15 --repeat "weekly on Mon,Wed until 2026-12-31"
   superhuman calendar update --event <event-id> --title "New Title"
+  superhuman calendar update --event <occurrence-id> --start "10am" --scope following
   superhuman calendar delete --event <event-id>
+  superhuman calendar delete --event <occurrence-id> --scope series
   superhuman calendar free
   superhuman calendar free --date tomorrow --range 7
+  superhuman invites
+  superhuman calendar rsvp <event-id> accept
+  superhuman calendar rsvp <event-id> decline --comment "Out that week, sorry"
+  superhuman calendar find-time --with alice@x.com,bob@y.com --duration 45 --within "next week" --working-hours 9-17
+  superhuman calendar find-time --with alice@x.com --title "Sync" --book 2
+  superhuman calendar propose --duration 30 --days 5 --tz America/New_York
+  superhuman reply <thread-id> --body "Any of these work? $(superhuman calendar propose --hold --title 'Hold: Acme')"
+  superhuman calendar holds
+  superhuman calendar holds release <hold-id>
+  superhuman calendar export --range 30 --format ics --output work.ics
+  superhuman calendar import work.ics --dry-run
 
   ${colors.dim}# Contacts${colors.reset}
   superhuman contact search "john"
@@ -279,6 +460,18 @@ ${colors.bold}EXAMPLES${colors.reset}
   superhuman snippet use "zoom link" --to user@example.com
   superhuman snippet use "share recordings" --to user@example.com --vars "date=Feb 5,student_name=Jane"
   superhuman snippet use "share recordings" --to user@example.com --vars "date=Feb 5" --send
+  superhuman snippet use "intro" --to jane@example.com ${colors.dim}# Fills {first_name} etc. from contacts${colors.reset}
+  superhuman snippet create "zoom link" --subject "Call" --body "Join at {link}" --shared
+  superhuman snippet edit "zoom link" --name "zoom" --cc team@example.com
+  superhuman snippet delete "zoom"
+  superhuman snippet export --output ./snippets
+  superhuman snippet import ./snippets --dry-run
+
+  ${colors.dim}# Mail rules (rules.yaml in the config dir)${colors.reset}
+  superhuman rules run --dry-run
+  superhuman rules run --limit 50
+  superhuman rules run --query "from:noreply"
+  superhuman rules test <thread-id>
 
   ${colors.dim}# Ask AI (search, compose, or ask about a thread)${colors.reset}
   superhuman ai "find emails about the Stanford cover letter"
@@ -294,6 +487,7 @@ ${colors.bold}EXAMPLES${colors.reset}
   superhuman draft update <draft-id> --body "Updated content"
   superhuman draft update <draft-id> --subject "New Subject" --to new@example.com
   superhuman draft update draft00abc --native --subject "New" ${colors.dim}# Native Superhuman draft${colors.reset}
+  superhuman reply <thread-id> --body "Thanks!" --provider gmail ${colors.dim}# Gmail/Outlook draft instead of Superhuman${colors.reset}
   superhuman draft delete <draft-id>
   superhuman draft delete <draft-id1> <draft-id2> ${colors.dim}# Auto-detects native vs provider drafts${colors.reset}
   superhuman draft send <draft-id> --account=user@example.com --to=recipient@example.com --subject="Subject" --body="Body"
@@ -303,9 +497,25 @@ ${colors.bold}EXAMPLES${colors.reset}
   ${colors.dim}# Send an email immediately${colors.reset}
   superhuman send --to user@example.com --subject "Quick note" --body "FYI"
 
+  ${colors.dim}# Send with attachments${colors.reset}
+  superhuman send --to user@example.com --subject "Slides" --body "Attached" --attach deck.pdf --attach notes.txt
+  superhuman reply <thread-id> --body "Signed copy attached" --attach contract.pdf --send
+
   ${colors.dim}# Send an existing draft by ID${colors.reset}
   superhuman send --draft <draft-id>
 
+  ${colors.dim}# Scheduled send (reply, reply-all, forward and snippet use accept --at/--in too)${colors.reset}
+  superhuman send --to user@example.com --subject "Report" --body "Attached" --at "tomorrow 9am"
+  superhuman reply <thread-id> --body "Following up" --in 2h
+  superhuman scheduled list
+
+  ${colors.dim}# Bulk actions on every search match (archive, delete, read, unread, star, unstar, label, unlabel)${colors.reset}
+  superhuman bulk archive --query "from:noreply older_than:30d" --dry-run
+  superhuman bulk archive --query "from:noreply older_than:30d"
+  superhuman bulk label --query "from:billing@example.com" --label Billing
+  superhuman bulk resume
+  superhuman bulk list
+
 ${colors.bold}REQUIREMENTS${colors.reset}
   Superhuman must be running with remote debugging enabled:
   ${colors.dim}/Applications/Superhuman.app/Contents/MacOS/Superhuman --remote-debugging-port=${CDP_PORT}${colors.reset}
@@ -313,9 +523,12 @@ ${colors.bold}REQUIREMENTS${colors.reset}
 }
 
 // Commands that use noun+verb subcommand groups (e.g., "calendar create", "draft delete")
+const LABEL_LIFECYCLE_SUBCOMMANDS = new Set(["create", "rename", "move", "recolor", "delete"]);
+const SNIPPET_NAME_SUBCOMMANDS = new Set(["use", "create", "edit", "delete"]);
+
 const GROUPED_COMMANDS = new Set([
   "calendar", "draft", "label", "star", "snooze", "mark",
-  "attachment", "snippet", "account", "contact",
+  "attachment", "snippet", "account", "contact", "rules", "scheduled", "bulk",
 ]);
 
 interface CliOptions {
@@ -330,6 +543,7 @@ interface CliOptions {
   port: number;
   // inbox/search/read options
   limit: number;
+  limitSet: boolean; // --limit given explicitly (export has no cap otherwise)
   offset: number;
   query: string;
   threadId: string;
@@ -342,6 +556,7 @@ interface CliOptions {
   accountArg: string; // index or email for account command
   // reply/forward options
   send: boolean; // send immediately instead of saving as draft
+  all: boolean; // forward every message in the thread as a digest
   // draft update option
   updateDraftId: string; // draft ID to update (for draft command)
   // send draft option
@@ -351,23 +566,40 @@ interface CliOptions {
   sendDraftThreadId: string; // thread ID for reply/forward drafts (optional)
   sendDraftDelay: number; // delay in seconds for send-draft command (default: 20)
   // label options
-  labelId: string; // label ID for add-label/remove-label
+  labelId: string; // label name, path or ID for add-label/remove-label
+  labelArgs: string[]; // positional label names for label create/rename/move/recolor/delete
+  color: string; // label color for label create/recolor
+  category: boolean; // manage an Outlook category instead of a folder
   // snooze options
   snoozeUntil: string; // time to snooze until (preset or ISO datetime)
   // attachment options
   outputPath: string; // output directory or file path for downloads
   attachmentId: string; // specific attachment ID for single download
+  format: string; // export format (eml|mbox|md|pdf-ready-html) or read body format (text|markdown|html)
   messageId: string; // message ID for single attachment download
   // calendar options
   calendarArg: string; // calendar name or ID
   calendarDate: string; // date for calendar listing (YYYY-MM-DD or "today", "tomorrow")
   calendarRange: number; // number of days to show
-  allAccounts: boolean; // query all accounts for calendar
+  allAccounts: boolean; // query every cached account (inbox/search/sync/calendar list)
   eventStart: string; // event start time
   eventEnd: string; // event end time
   eventDuration: number; // event duration in minutes
   eventTitle: string; // event title
-  eventId: string; // event ID for update/delete
+  eventId: string; // event ID for update/delete/rsvp
+  rsvpResponse: string; // accept|decline|tentative (for calendar rsvp)
+  comment: string; // note to the organizer (for calendar rsvp)
+  withAttendees: string[]; // attendees to find a time with (for calendar find-time)
+  within: string; // search window: "next week", "3 days", "2026-10-20..2026-10-23" (for calendar find-time)
+  workingHours: string; // working hours, e.g. "9-17" (for calendar find-time)
+  timeZone: string; // IANA zone for working hours (for calendar find-time)
+  book: number; // book the Nth suggested slot, 0 = don't book (for calendar find-time)
+  days: number; // working days to propose times on (for calendar propose)
+  hold: boolean; // place tentative holds on proposed times (for calendar propose)
+  holdArgs: string[]; // positional args for calendar holds: release <group-id>
+  icsPath: string; // .ics file to import (for calendar import)
+  repeat: string; // recurrence rule, e.g. "weekly on Mon,Wed until 2026-12-31" (for calendar create)
+  scope: string; // instance|following|series (for calendar update/delete of recurring events)
   // contacts options
   contactsQuery: string; // search query for contacts
   // search options
@@ -377,10 +609,31 @@ interface CliOptions {
   // snippet options
   snippetQuery: string; // snippet name for fuzzy matching
   vars: string; // template variable substitution: "key1=val1,key2=val2"
+  snippetName: string; // new snippet name (for snippet edit)
+  shared: boolean | null; // --shared / --private team sharing (for snippet create/edit)
+  snippetDir: string; // directory of markdown snippets (for snippet import)
   // read options
   context: number; // number of messages to show full body for (0 = all)
+  // offline cache options
+  offline: boolean; // answer inbox/search/read from the local mail cache
+  full: boolean; // discard sync cursor and re-sync from scratch
+  // watch options
+  exec: string; // shell command to run for each new/changed thread
+  interval: number; // poll interval in seconds
+  // rules options
+  dryRun: boolean; // report matches without applying actions
+  // scheduled send options
+  sendAt: string; // send at this time ("tomorrow 9am", ISO datetime, ...)
+  sendIn: string; // send after this duration ("2h", "30m", ...)
+  // attachment upload option
+  attach: string[]; // file paths to attach (for send/reply/reply-all/forward/draft create)
+  bulkRunId: string; // bulk run ID for bulk resume
+  // undo options
+  operationId: string; // operation ID for undo
+  last: number; // undo the last N operations
   // draft provider option
   provider: "superhuman" | "gmail" | "outlook"; // which API to use for drafts (default: superhuman)
+  providerSet: boolean; // --provider given explicitly
   // native draft flag
   native: boolean; // use native Superhuman draft operations (for update/delete)
 }
@@ -397,6 +650,7 @@ function parseArgs(args: string[]): CliOptions {
     html: "",
     port: CDP_PORT,
     limit: 10,
+    limitSet: false,
     offset: 0,
     query: "",
     threadId: "",
@@ -406,15 +660,20 @@ function parseArgs(args: string[]): CliOptions {
     account: "",
     accountArg: "",
     send: false,
+    all: false,
     updateDraftId: "",
     sendDraftId: "",
     sendDraftDraftId: "",
     sendDraftThreadId: "",
     sendDraftDelay: 20,
     labelId: "",
+    labelArgs: [],
+    color: "",
+    category: false,
     snoozeUntil: "",
     outputPath: "",
     attachmentId: "",
+    format: "",
     messageId: "",
     calendarArg: "",
     calendarDate: "",
@@ -425,13 +684,41 @@ function parseArgs(args: string[]): CliOptions {
     eventDuration: 30,
     eventTitle: "",
     eventId: "",
+    rsvpResponse: "",
+    comment: "",
+    withAttendees: [],
+    within: "",
+    workingHours: "",
+    timeZone: "",
+    book: 0,
+    days: 5,
+    hold: false,
+    holdArgs: [],
+    icsPath: "",
+    repeat: "",
+    scope: "",
     contactsQuery: "",
     includeDone: false,
     aiQuery: "",
     snippetQuery: "",
     vars: "",
+    snippetName: "",
+    shared: null,
+    snippetDir: "",
     context: 0,
+    offline: false,
+    full: false,
+    exec: "",
+    interval: 30,
+    dryRun: false,
+    sendAt: "",
+    sendIn: "",
+    attach: [],
+    bulkRunId: "",
+    operationId: "",
+    last: 0,
     provider: "superhuman",
+    providerSet: false,
     native: false,
   };
 
@@ -491,6 +778,7 @@ function parseArgs(args: string[]): CliOptions {
           break;
         case "limit":
           options.limit = parseInt(value, 10);
+          options.limitSet = true;
           i += inc;
           break;
         case "offset":
@@ -513,6 +801,10 @@ function parseArgs(args: string[]): CliOptions {
           options.send = true;
           i += 1;
           break;
+        case "all":
+          options.all = true;
+          i += 1;
+          break;
         case "update":
           options.updateDraftId = unescapeString(value);
           i += inc;
@@ -525,6 +817,26 @@ function parseArgs(args: string[]): CliOptions {
           options.labelId = unescapeString(value);
           i += inc;
           break;
+        case "color":
+          options.color = unescapeString(value);
+          i += inc;
+          break;
+        case "category":
+          options.category = true;
+          i += 1;
+          break;
+        case "name":
+          options.snippetName = unescapeString(value);
+          i += inc;
+          break;
+        case "shared":
+          options.shared = true;
+          i += 1;
+          break;
+        case "private":
+          options.shared = false;
+          i += 1;
+          break;
         case "until":
           options.snoozeUntil = unescapeString(value);
           i += inc;
@@ -533,6 +845,10 @@ function parseArgs(args: string[]): CliOptions {
           options.outputPath = unescapeString(value);
           i += inc;
           break;
+        case "format":
+          options.format = unescapeString(value);
+          i += inc;
+          break;
         case "attachment":
           options.attachmentId = unescapeString(value);
           i += inc;
@@ -581,6 +897,55 @@ function parseArgs(args: string[]): CliOptions {
           options.eventId = unescapeString(value);
           i += inc;
           break;
+        case "comment":
+          options.comment = unescapeString(value);
+          i += inc;
+          break;
+        case "with":
+          options.withAttendees.push(...unescapeString(value).split(",").map((a) => a.trim()).filter(Boolean));
+          i += inc;
+          break;
+        case "within":
+          options.within = unescapeString(value);
+          i += inc;
+          break;
+        case "working-hours":
+          options.workingHours = unescapeString(value);
+          i += inc;
+          break;
+        case "tz":
+          options.timeZone = unescapeString(value);
+          i += inc;
+          break;
+        case "repeat":
+          options.repeat = unescapeString(value);
+          i += inc;
+          break;
+        case "scope":
+          options.scope = unescapeString(value);
+          i += inc;
+          break;
+        case "days":
+          options.days = parseInt(value, 10);
+          i += inc;
+          break;
+        case "hold":
+          options.hold = true;
+          i += 1;
+          break;
+        case "book":
+          // --book books the best slot; --book <n> picks the Nth suggestion
+          if (usedEqualsFormat) {
+            options.book = parseInt(value, 10);
+            i += 1;
+          } else if (value && /^\d+$/.test(value)) {
+            options.book = parseInt(value, 10);
+            i += 2;
+          } else {
+            options.book = 1;
+            i += 1;
+          }
+          break;
         case "account":
           options.account = unescapeString(value);
           i += inc;
@@ -589,6 +954,42 @@ function parseArgs(args: string[]): CliOptions {
           options.includeDone = true;
           i += 1;
           break;
+        case "offline":
+          options.offline = true;
+          i += 1;
+          break;
+        case "full":
+          options.full = true;
+          i += 1;
+          break;
+        case "exec":
+          options.exec = unescapeString(value);
+          i += inc;
+          break;
+        case "interval":
+          options.interval = parseInt(value, 10);
+          i += inc;
+          break;
+        case "dry-run":
+          options.dryRun = true;
+          i += 1;
+          break;
+        case "last":
+          options.last = parseInt(value, 10);
+          i += inc;
+          break;
+        case "at":
+          options.sendAt = unescapeString(value);
+          i += inc;
+          break;
+        case "in":
+          options.sendIn = unescapeString(value);
+          i += inc;
+          break;
+        case "attach":
+          options.attach.push(unescapeString(value));
+          i += inc;
+          break;
         case "vars":
           options.vars = unescapeString(value);
           i += inc;
@@ -596,6 +997,7 @@ function parseArgs(args: string[]): CliOptions {
         case "provider":
           if (value === "superhuman" || value === "gmail" || value === "outlook") {
             options.provider = value;
+            options.providerSet = true;
           } else {
             error(`Invalid provider: ${value}. Use 'superhuman', 'gmail', or 'outlook'`);
             process.exit(1);
@@ -653,7 +1055,7 @@ function parseArgs(args: string[]): CliOptions {
         options.aiQuery = unescapeString(arg);
       }
       i += 1;
-    } else if (options.command === "archive" || options.command === "delete") {
+    } else if (options.command === "archive" || options.command === "delete" || options.command === "export") {
       // Collect multiple thread IDs for bulk top-level operations
       options.threadIds.push(unescapeString(arg));
       i += 1;
@@ -673,6 +1075,10 @@ function parseArgs(args: string[]): CliOptions {
       // label add/remove <thread-id> [thread-id...]
       options.threadIds.push(unescapeString(arg));
       i += 1;
+    } else if (options.command === "label" && LABEL_LIFECYCLE_SUBCOMMANDS.has(options.subcommand)) {
+      // label create <name> | rename <label> <name> | move <label> <parent> | recolor/delete <label>
+      options.labelArgs.push(unescapeString(arg));
+      i += 1;
     } else if (options.command === "star" && (options.subcommand === "add" || options.subcommand === "remove")) {
       // star add/remove <thread-id> [thread-id...]
       options.threadIds.push(unescapeString(arg));
@@ -697,10 +1103,42 @@ function parseArgs(args: string[]): CliOptions {
       // contact search <query>
       options.contactsQuery = unescapeString(arg);
       i += 1;
-    } else if (options.command === "snippet" && options.subcommand === "use" && !options.snippetQuery) {
-      // snippet use <name>
+    } else if (options.command === "snippet" && SNIPPET_NAME_SUBCOMMANDS.has(options.subcommand) && !options.snippetQuery) {
+      // snippet use|create|edit|delete <name>
       options.snippetQuery = unescapeString(arg);
       i += 1;
+    } else if (options.command === "snippet" && options.subcommand === "import" && !options.snippetDir) {
+      // snippet import <dir>
+      options.snippetDir = unescapeString(arg);
+      i += 1;
+    } else if (options.command === "calendar" && options.subcommand === "holds") {
+      // calendar holds release <group-id>
+      options.holdArgs.push(unescapeString(arg));
+      i += 1;
+    } else if (options.command === "calendar" && options.subcommand === "import" && !options.icsPath) {
+      // calendar import <file.ics>
+      options.icsPath = unescapeString(arg);
+      i += 1;
+    } else if (options.command === "calendar" && options.subcommand === "rsvp" && (!options.eventId || !options.rsvpResponse)) {
+      // calendar rsvp <event-id> <accept|decline|tentative>
+      if (!options.eventId) {
+        options.eventId = unescapeString(arg);
+      } else {
+        options.rsvpResponse = unescapeString(arg);
+      }
+      i += 1;
+    } else if (options.command === "rules" && options.subcommand === "test" && !options.threadId) {
+      // rules test <thread-id>
+      options.threadId = unescapeString(arg);
+      i += 1;
+    } else if (options.command === "bulk" && options.subcommand === "resume" && !options.bulkRunId) {
+      // bulk resume <run-id>
+      options.bulkRunId = unescapeString(arg);
+      i += 1;
+    } else if (options.command === "undo" && !options.operationId) {
+      // undo <op-id>
+      options.operationId = unescapeString(arg);
+      i += 1;
     } else if (options.command === "draft" && options.subcommand === "update" && !options.updateDraftId) {
       // draft update <draft-id>
       options.updateDraftId = unescapeString(arg);
@@ -856,6 +1294,108 @@ async function resolveSuperhumanToken(account?: string): Promise<TokenInfo | nul
   return null;
 }
 
+/**
+ * Resolve --at / --in into a send time.
+ * Returns null when the send is not scheduled; exits on invalid input.
+ */
+function getScheduledSendTime(options: CliOptions): Date | null {
+  try {
+    return parseSendTime({ at: options.sendAt, in: options.sendIn });
+  } catch (e: any) {
+    error(e.message || "Invalid send time");
+    process.exit(1);
+  }
+}
+
+/**
+ * Read --attach files from disk. Exits if a file is missing.
+ * Scheduled sends go through Superhuman drafts, which can't carry attachments yet.
+ */
+async function loadAttachmentsOrExit(options: CliOptions): Promise<MimeAttachment[]> {
+  if (options.attach.length > 0 && (options.sendAt || options.sendIn)) {
+    error("--attach cannot be combined with --at/--in yet");
+    process.exit(1);
+  }
+
+  try {
+    return await Promise.all(options.attach.map((path) => loadAttachment(path)));
+  } catch (e: any) {
+    error(e.message || "Failed to read attachment");
+    process.exit(1);
+  }
+}
+
+/**
+ * Superhuman drafts can't carry attachments yet, so a draft with files is
+ * saved through Gmail/Outlook and won't show up among Superhuman's drafts.
+ * Exits when --provider superhuman was given explicitly; otherwise warns.
+ *
+ * @param attachmentCount - Files the draft would carry, including forwarded ones
+ */
+function checkDraftAttachments(options: CliOptions, attachmentCount: number): void {
+  if (attachmentCount === 0 || options.provider !== "superhuman") return;
+
+  if (options.providerSet) {
+    error("Superhuman drafts can't carry attachments yet; use --provider gmail or --provider outlook");
+    process.exit(1);
+  }
+  warn("Superhuman drafts can't carry attachments yet; saving a Gmail/Outlook draft, which won't appear in Superhuman's drafts");
+}
+
+/**
+ * Create a Superhuman draft and schedule it to be sent at sendAt.
+ * Exits if the draft cannot be created or the backend rejects the send.
+ */
+async function scheduleDraft(userInfo: UserInfo, draft: DraftOptions, sendAt: Date): Promise<void> {
+  const draftResult = await createDraftWithUserInfo(userInfo, { ...draft, scheduledFor: sendAt.toISOString() });
+  if (!draftResult.success || !draftResult.draftId || !draftResult.threadId) {
+    error(`Failed to create draft: ${draftResult.error}`);
+    process.exit(1);
+  }
+
+  const result = await scheduleDraftSend(
+    userInfo,
+    {
+      draftId: draftResult.draftId,
+      threadId: draftResult.threadId,
+      to: (draft.to || []).map((email) => ({ email })),
+      cc: draft.cc?.map((email) => ({ email })),
+      bcc: draft.bcc?.map((email) => ({ email })),
+      subject: draft.subject || "",
+      htmlBody: draft.body || "",
+    },
+    sendAt
+  );
+
+  if (!result.success || !result.scheduled) {
+    error(`Failed to schedule send: ${result.error}`);
+    process.exit(1);
+  }
+
+  success(`Scheduled for ${new Date(result.scheduled.sendAt).toLocaleString()}`);
+  log(`  ${colors.dim}Scheduled ID: ${result.scheduled.id}${colors.reset}`);
+  log(`  ${colors.dim}Account: ${userInfo.email}${colors.reset}`);
+}
+
+async function cmdScheduledList(options: CliOptions) {
+  const pending = await listScheduledSends(options.account || undefined);
+
+  if (options.json) {
+    console.log(JSON.stringify(pending, null, 2));
+  } else if (pending.length === 0) {
+    info("No pending scheduled sends");
+  } else {
+    console.log(`${colors.bold}Scheduled sends:${colors.reset}\n`);
+    for (const entry of pending) {
+      console.log(`  ${colors.cyan}${entry.id}${colors.reset}`);
+      console.log(`    Send at: ${new Date(entry.sendAt).toLocaleString()}`);
+      console.log(`    To: ${entry.to.join(", ")}`);
+      console.log(`    Subject: ${entry.subject || "(no subject)"}`);
+      console.log(`    ${colors.dim}Account: ${entry.account}${colors.reset}`);
+    }
+  }
+}
+
 async function cmdSnippets(options: CliOptions) {
   const { userInfo } = await resolveBackendUserInfo(options);
   const snippets = await listSnippets(userInfo);
@@ -883,10 +1423,67 @@ async function cmdSnippets(options: CliOptions) {
   }
 }
 
+/**
+ * Values for a snippet's variables: --vars, then the recipient's name and
+ * email, then answers typed at a prompt for anything still missing. Without
+ * a terminal to prompt on, missing variables are fatal when sending and a
+ * warning for drafts (which can still be edited).
+ */
+async function fillSnippetVarsOrExit(
+  options: CliOptions,
+  snippet: Snippet,
+  recipient: string | undefined,
+  sending: boolean
+): Promise<Record<string, string>> {
+  const variables = findVariables(snippet.subject, snippet.body);
+  let vars = options.vars ? parseVars(options.vars) : {};
+
+  if (missingVariables(variables, vars).length > 0 && recipient) {
+    const provider = await getProvider(options);
+    try {
+      vars = await resolveSnippetVars(provider, variables, vars, recipient);
+    } catch (e: any) {
+      warn(`Could not look up ${recipient}: ${e.message || "Unknown error"}`);
+    } finally {
+      await provider.disconnect();
+    }
+  }
+
+  const missing = missingVariables(variables, vars);
+  if (missing.length === 0) {
+    return vars;
+  }
+
+  if (process.stdin.isTTY && process.stdout.isTTY) {
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+    try {
+      for (const variable of missing) {
+        const answer = (await rl.question(`${variable.name}: `)).trim();
+        if (answer) vars[variable.name] = answer;
+      }
+    } finally {
+      rl.close();
+    }
+  }
+
+  const unfilled = missingVariables(variables, vars).map((v) => v.name);
+  if (unfilled.length > 0) {
+    const hint = `Pass them with --vars "${unfilled.map((name) => `${name}=...`).join(",")}"`;
+    if (sending) {
+      error(`Missing snippet variables: ${unfilled.join(", ")}`);
+      info(hint);
+      process.exit(1);
+    }
+    warn(`Leaving snippet variables unfilled in the draft: ${unfilled.join(", ")}`);
+    info(hint);
+  }
+  return vars;
+}
+
 async function cmdSnippet(options: CliOptions) {
   if (!options.snippetQuery) {
     error("Snippet name is required");
-    console.log(`Usage: superhuman snippet use <name> [--to <email>] [--vars "key=val,..."] [--send]`);
+    console.log(`Usage: superhuman snippet use <name> [--to <email>] [--vars "key=val,..."] [--attach <path>] [--provider <type>] [--send | --at <time> | --in <duration>]`);
     process.exit(1);
   }
 
@@ -909,28 +1506,52 @@ async function cmdSnippet(options: CliOptions) {
 
   info(`Using snippet: ${snippet.name}`);
 
+  // Merge recipients: CLI args override/extend snippet defaults
+  const to = options.to.length > 0 ? options.to : snippet.to;
+  const cc = options.cc.length > 0 ? options.cc : snippet.cc.length > 0 ? snippet.cc : undefined;
+  const bcc = options.bcc.length > 0 ? options.bcc : snippet.bcc.length > 0 ? snippet.bcc : undefined;
+  const sendAt = getScheduledSendTime(options);
+
   // Apply template variables
-  const vars = options.vars ? parseVars(options.vars) : {};
-  let body = snippet.body;
-  let subject = snippet.subject;
+  const vars = await fillSnippetVarsOrExit(options, snippet, to[0], Boolean(options.send || sendAt));
+  const body = applyVars(snippet.body, vars);
+  const subject = applyVars(snippet.subject, vars);
   if (Object.keys(vars).length > 0) {
-    body = applyVars(body, vars);
-    subject = applyVars(subject, vars);
     info(`Applied variables: ${Object.keys(vars).join(", ")}`);
   }
 
-  // Merge recipients: CLI args override/extend snippet defaults
-  const to = options.to.length > 0 ? options.to : snippet.to;
-  const cc = options.cc.length > 0 ? options.cc : snippet.cc.length > 0 ? snippet.cc : undefined;
-  const bcc = options.bcc.length > 0 ? options.bcc : snippet.bcc.length > 0 ? snippet.bcc : undefined;
+  const attachments = await loadAttachmentsOrExit(options);
+  if (!options.send && !sendAt) {
+    checkDraftAttachments(options, attachments.length);
+  }
 
-  if (options.send) {
-    // Send immediately
+  if (options.send || sendAt) {
+    // Send immediately (or at --at/--in)
     if (to.length === 0) {
       error("At least one recipient is required (--to or snippet default)");
       process.exit(1);
     }
 
+    if (sendAt) {
+      await scheduleDraft(userInfo, { to, cc, bcc, subject, body }, sendAt);
+      return;
+    }
+
+    if (attachments.length > 0) {
+      const provider = await getProvider(options);
+      const result = await sendEmailViaProvider(provider, { to, cc, bcc, subject, body, isHtml: true, attachments });
+      await provider.disconnect();
+
+      if (result.success) {
+        success(`Sent using snippet "${snippet.name}"`);
+        log(`  ${colors.dim}To: ${to.join(", ")}${colors.reset}`);
+        if (subject) log(`  ${colors.dim}Subject: ${subject}${colors.reset}`);
+      } else {
+        error(`Failed to send: ${result.error}`);
+      }
+      return;
+    }
+
     const toRecipients = to.map((email: string) => ({ email }));
     const ccRecipients = cc?.map((email: string) => ({ email }));
     const bccRecipients = bcc?.map((email: string) => ({ email }));
@@ -967,8 +1588,22 @@ async function cmdSnippet(options: CliOptions) {
     } else {
       error(`Failed to send: ${sendResult.error}`);
     }
+  } else if (options.provider !== "superhuman" || attachments.length > 0) {
+    // Gmail/Outlook draft via direct API
+    const provider = await getProvider(options);
+    const result = await createDraftViaProvider(provider, { to, cc, bcc, subject, body, isHtml: true, attachments });
+    await provider.disconnect();
+
+    if (result.success) {
+      success(`Draft created from snippet "${snippet.name}"`);
+      if (result.draftId) log(`  ${colors.dim}Draft ID: ${result.draftId}${colors.reset}`);
+      if (to.length > 0) log(`  ${colors.dim}To: ${to.join(", ")}${colors.reset}`);
+      if (subject) log(`  ${colors.dim}Subject: ${subject}${colors.reset}`);
+    } else {
+      error(`Failed to create draft: ${result.error}`);
+    }
   } else {
-    // Create draft
+    // Create native Superhuman draft
     const result = await createDraftWithUserInfo(userInfo, {
       to,
       cc,
@@ -991,74 +1626,245 @@ async function cmdSnippet(options: CliOptions) {
 
 
 
-async function cmdDraft(options: CliOptions) {
-  // If updating an existing draft
-  if (options.updateDraftId) {
-    const draftId = options.updateDraftId;
-    const isNativeDraft = draftId.startsWith("draft00");
+const SNIPPET_USAGE = `Usage:
+  superhuman snippet create <name> [--subject <text>] [--body <text> | --html <html>] [--to/--cc/--bcc <email>] [--shared]
+  superhuman snippet edit <name> [--name <new-name>] [--subject <text>] [--body <text> | --html <html>] [--to/--cc/--bcc <email>] [--shared | --private]
+  superhuman snippet delete <name>
+  superhuman snippet export [--output <dir>]
+  superhuman snippet import <dir> [--dry-run]`;
 
-    // Check for flag mismatch
-    if (options.native && !isNativeDraft) {
-      error("--native flag is only valid for native Superhuman draft IDs (starting with draft00)");
-      error(`Draft ID ${draftId} appears to be a provider draft ID`);
-      process.exit(1);
-    }
+/**
+ * Find the snippet a create/edit/delete command targets, by ID or exact
+ * name (case-insensitive). Exits if there is none.
+ */
+function findSnippetOrExit(snippets: Snippet[], query: string): Snippet {
+  const q = query.toLowerCase();
+  const snippet = snippets.find((s) => s.id === query || s.name.toLowerCase() === q);
+  if (!snippet) {
+    const suggestion = findSnippet(snippets, query);
+    error(`No snippet named "${query}"${suggestion ? ` (did you mean "${suggestion.name}"?)` : ""}`);
+    process.exit(1);
+  }
+  return snippet;
+}
 
-    // Native draft update path
-    if (options.native || isNativeDraft) {
-      const token = await resolveSuperhumanToken(options.account);
-      if (!token) {
-        error("No cached Superhuman credentials found");
-        error("Run 'superhuman account auth' first");
-        process.exit(1);
-      }
+/**
+ * Snippet fields given on the command line; unset options are left undefined.
+ */
+function snippetInputFromOptions(options: CliOptions): Partial<SnippetInput> {
+  return {
+    subject: options.subject || undefined,
+    body: options.html || (options.body ? textToHtml(options.body) : undefined),
+    to: options.to.length > 0 ? options.to : undefined,
+    cc: options.cc.length > 0 ? options.cc : undefined,
+    bcc: options.bcc.length > 0 ? options.bcc : undefined,
+    shared: options.shared ?? undefined,
+  };
+}
 
-      const userInfo = getUserInfoFromCache(token.userId, token.email, token.idToken);
+async function cmdSnippetCreate(options: CliOptions) {
+  if (!options.snippetQuery) {
+    error("Snippet name is required");
+    console.log(SNIPPET_USAGE);
+    process.exit(1);
+  }
 
-      // Use DraftService to get draft details for threadId
-      const draftService = new DraftService(userInfo);
-      const drafts = await draftService.listDrafts();
-      const draft = drafts.find(d => d.id === draftId);
+  const { userInfo } = await resolveBackendUserInfo(options);
+  const snippets = await listSnippets(userInfo);
+  if (snippets.some((s) => s.name.toLowerCase() === options.snippetQuery.toLowerCase())) {
+    error(`A snippet named "${options.snippetQuery}" already exists; use 'snippet edit' to change it`);
+    process.exit(1);
+  }
 
-      if (!draft) {
-        error(`Draft ${draftId} not found`);
-        process.exit(1);
-      }
+  const result = await createSnippet(userInfo, { ...snippetInputFromOptions(options), name: options.snippetQuery });
+  if (!result.success || !result.snippet) {
+    error(`Failed to create snippet: ${result.error}`);
+    process.exit(1);
+  }
 
-      // Use HTML body if provided, otherwise convert plain text to HTML (if body provided)
-      const bodyContent = options.html || (options.body ? textToHtml(options.body) : undefined);
+  if (options.json) {
+    console.log(JSON.stringify(result.snippet, null, 2));
+  } else {
+    success(`Created snippet: ${result.snippet.name}`);
+    log(`  ${colors.dim}ID: ${result.snippet.id}${colors.reset}`);
+    if (result.snippet.shared) log(`  ${colors.dim}Shared with your team${colors.reset}`);
+  }
+}
 
-      info(`Updating native draft ${draftId}...`);
-      const success = await updateDraftWithUserInfo(userInfo, draft.threadId, draftId, {
-        to: options.to.length > 0 ? options.to : undefined,
-        cc: options.cc.length > 0 ? options.cc : undefined,
-        bcc: options.bcc.length > 0 ? options.bcc : undefined,
-        subject: options.subject || undefined,
-        body: bodyContent,
-      });
+async function cmdSnippetEdit(options: CliOptions) {
+  if (!options.snippetQuery) {
+    error("Snippet name is required");
+    console.log(SNIPPET_USAGE);
+    process.exit(1);
+  }
 
-      if (success) {
-        log(`${colors.green}✓${colors.reset} Draft updated!`);
-        log(`  ${colors.dim}Draft ID: ${draftId}${colors.reset}`);
-        log(`  ${colors.dim}Account: ${token.email}${colors.reset}`);
-      }
-      return;
-    }
+  const changes = { ...snippetInputFromOptions(options), name: options.snippetName || undefined };
+  if (Object.values(changes).every((value) => value === undefined)) {
+    error("Nothing to change: pass --name, --subject, --body/--html, --to/--cc/--bcc, --shared or --private");
+    process.exit(1);
+  }
 
-    // Provider draft update path
-    const provider = await getProvider(options);
+  const { userInfo } = await resolveBackendUserInfo(options);
+  const snippet = findSnippetOrExit(await listSnippets(userInfo), options.snippetQuery);
 
-    // Resolve names to emails
-    const resolvedTo = options.to.length > 0 ? await resolveAllRecipientsViaProvider(provider, options.to) : undefined;
-    const resolvedCc = options.cc.length > 0 ? await resolveAllRecipientsViaProvider(provider, options.cc) : undefined;
-    const resolvedBcc = options.bcc.length > 0 ? await resolveAllRecipientsViaProvider(provider, options.bcc) : undefined;
+  const result = await updateSnippet(userInfo, snippet, changes);
+  if (!result.success || !result.snippet) {
+    error(`Failed to update snippet: ${result.error}`);
+    process.exit(1);
+  }
 
-    // Use HTML body if provided, otherwise convert plain text to HTML (if body provided)
-    const bodyContent = options.html || (options.body ? textToHtml(options.body) : undefined);
+  if (options.json) {
+    console.log(JSON.stringify(result.snippet, null, 2));
+  } else {
+    success(`Updated snippet: ${result.snippet.name}`);
+    log(`  ${colors.dim}ID: ${result.snippet.id}${colors.reset}`);
+  }
+}
 
-    info(`Updating draft ${options.updateDraftId}...`);
-    const result = await updateDraftViaProvider(provider, options.updateDraftId, {
-      to: resolvedTo,
+async function cmdSnippetDelete(options: CliOptions) {
+  if (!options.snippetQuery) {
+    error("Snippet name is required");
+    console.log(SNIPPET_USAGE);
+    process.exit(1);
+  }
+
+  const { userInfo } = await resolveBackendUserInfo(options);
+  const snippet = findSnippetOrExit(await listSnippets(userInfo), options.snippetQuery);
+
+  const result = await deleteSnippet(userInfo, snippet);
+  if (!result.success) {
+    error(`Failed to delete snippet: ${result.error}`);
+    process.exit(1);
+  }
+  success(`Deleted snippet: ${snippet.name}`);
+}
+
+async function cmdSnippetExport(options: CliOptions) {
+  const dir = options.outputPath || "snippets";
+  const { userInfo } = await resolveBackendUserInfo(options);
+  const snippets = await listSnippets(userInfo);
+
+  const paths = await exportSnippets(snippets, dir);
+  if (options.json) {
+    console.log(JSON.stringify(paths, null, 2));
+  } else {
+    success(`Exported ${paths.length} snippet(s) to ${dir}`);
+  }
+}
+
+async function cmdSnippetImport(options: CliOptions) {
+  if (!options.snippetDir) {
+    error("Directory is required");
+    console.log(SNIPPET_USAGE);
+    process.exit(1);
+  }
+
+  let files;
+  try {
+    files = await readSnippetDir(options.snippetDir);
+  } catch (e: any) {
+    error(e.message || "Failed to read snippets");
+    process.exit(1);
+  }
+
+  const { userInfo } = await resolveBackendUserInfo(options);
+  const changes = await importSnippets(userInfo, files, await listSnippets(userInfo), { dryRun: options.dryRun });
+
+  if (options.json) {
+    console.log(JSON.stringify(changes, null, 2));
+  } else {
+    const verbs = options.dryRun
+      ? { create: "Would create", update: "Would update", unchanged: "Unchanged" }
+      : { create: "Created", update: "Updated", unchanged: "Unchanged" };
+    for (const change of changes) {
+      if (change.error) {
+        error(`${change.name}: ${change.error}`);
+      } else if (change.action === "unchanged") {
+        log(`${colors.dim}${verbs.unchanged}: ${change.name}${colors.reset}`);
+      } else {
+        success(`${verbs[change.action]}: ${change.name}`);
+      }
+    }
+    const count = (action: string) => changes.filter((c) => c.action === action && !c.error).length;
+    log(`\n${count("create")} created, ${count("update")} updated, ${count("unchanged")} unchanged${options.dryRun ? " (dry run)" : ""}`);
+  }
+
+  if (changes.some((c) => c.error)) process.exit(1);
+}
+
+async function cmdDraft(options: CliOptions) {
+  // If updating an existing draft
+  if (options.updateDraftId) {
+    const draftId = options.updateDraftId;
+    const isNativeDraft = draftId.startsWith("draft00");
+
+    // Check for flag mismatch
+    if (options.native && !isNativeDraft) {
+      error("--native flag is only valid for native Superhuman draft IDs (starting with draft00)");
+      error(`Draft ID ${draftId} appears to be a provider draft ID`);
+      process.exit(1);
+    }
+
+    // Native draft update path
+    if (options.native || isNativeDraft) {
+      const token = await resolveSuperhumanToken(options.account);
+      if (!token) {
+        error("No cached Superhuman credentials found");
+        error("Run 'superhuman account auth' first");
+        process.exit(1);
+      }
+
+      if (options.attach.length > 0) {
+        error("Superhuman drafts can't carry attachments yet; attach files to a Gmail/Outlook draft instead");
+        process.exit(1);
+      }
+
+      const userInfo = getUserInfoFromCache(token.userId, token.email, token.idToken);
+
+      // The stored draft gives the threadId and the fields that aren't being changed
+      const draft = await new SuperhumanDraftProvider(token).getNativeDraft(draftId);
+      if (!draft) {
+        error(`Draft ${draftId} not found`);
+        process.exit(1);
+      }
+
+      // Use HTML body if provided, otherwise convert plain text to HTML (if body provided)
+      const bodyContent = options.html || (options.body ? textToHtml(options.body) : undefined);
+
+      info(`Updating native draft ${draftId}...`);
+      try {
+        await updateDraftWithUserInfo(userInfo, draft.threadId, draftId, {
+          to: options.to.length > 0 ? options.to : undefined,
+          cc: options.cc.length > 0 ? options.cc : undefined,
+          bcc: options.bcc.length > 0 ? options.bcc : undefined,
+          subject: options.subject || undefined,
+          body: bodyContent,
+        }, draft);
+      } catch (err) {
+        error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+
+      log(`${colors.green}✓${colors.reset} Draft updated!`);
+      log(`  ${colors.dim}Draft ID: ${draftId}${colors.reset}`);
+      log(`  ${colors.dim}Account: ${token.email}${colors.reset}`);
+      return;
+    }
+
+    // Provider draft update path
+    const provider = await getProvider(options);
+
+    // Resolve names to emails
+    const resolvedTo = options.to.length > 0 ? await resolveAllRecipientsViaProvider(provider, options.to) : undefined;
+    const resolvedCc = options.cc.length > 0 ? await resolveAllRecipientsViaProvider(provider, options.cc) : undefined;
+    const resolvedBcc = options.bcc.length > 0 ? await resolveAllRecipientsViaProvider(provider, options.bcc) : undefined;
+
+    // Use HTML body if provided, otherwise convert plain text to HTML (if body provided)
+    const bodyContent = options.html || (options.body ? textToHtml(options.body) : undefined);
+
+    info(`Updating draft ${options.updateDraftId}...`);
+    const result = await updateDraftViaProvider(provider, options.updateDraftId, {
+      to: resolvedTo,
       cc: resolvedCc,
       bcc: resolvedBcc,
       subject: options.subject || undefined,
@@ -1085,8 +1891,12 @@ async function cmdDraft(options: CliOptions) {
     process.exit(1);
   }
 
+  const attachments = await loadAttachmentsOrExit(options);
+  checkDraftAttachments(options, attachments.length);
+  const nativeDraft = options.provider === "superhuman" && attachments.length === 0;
+
   // Fast path: use cached Superhuman credentials (no CDP needed)
-  if (options.provider === "superhuman") {
+  if (nativeDraft) {
     const token = await resolveSuperhumanToken(options.account);
     if (token) {
       info("Creating draft via Superhuman API...");
@@ -1128,7 +1938,7 @@ async function cmdDraft(options: CliOptions) {
   // Use HTML body if provided, otherwise convert plain text to HTML
   const bodyContent = options.html || textToHtml(options.body);
 
-  if (options.provider === "superhuman") {
+  if (nativeDraft) {
     // Fallback: Superhuman via CDP provider
     info("Creating draft via Superhuman API (CDP)...");
 
@@ -1157,6 +1967,7 @@ async function cmdDraft(options: CliOptions) {
       subject: options.subject || "",
       body: bodyContent,
       isHtml: true,
+      attachments,
     });
 
     if (result.success) {
@@ -1196,12 +2007,11 @@ async function cmdDeleteDraft(options: CliOptions) {
 
     const userInfo = getUserInfoFromCache(token.userId, token.email, token.idToken);
 
-    // Use DraftService to get draft details for threadId
-    const draftService = new DraftService(userInfo);
-    const drafts = await draftService.listDrafts();
+    // The stored drafts give the threadId each draft is written under
+    const nativeProvider = new SuperhumanDraftProvider(token);
 
     for (const draftId of nativeDraftIds) {
-      const draft = drafts.find(d => d.id === draftId);
+      const draft = await nativeProvider.getNativeDraft(draftId);
 
       if (!draft) {
         error(`Native draft ${draftId} not found`);
@@ -1288,6 +2098,17 @@ async function cmdSendDraft(options: CliOptions) {
   // Build userInfo
   const userInfo = getUserInfoFromCache(token.userId, token.email, token.idToken);
 
+  // The thread comes from the stored draft (--thread overrides it)
+  const storedDraft = await new SuperhumanDraftProvider(token).getNativeDraft(draftId).catch(() => null);
+  const threadId = options.sendDraftThreadId || storedDraft?.threadId || draftId;
+
+  // The send payload for attachments hasn't been captured yet; sending without
+  // them would silently drop the files
+  if (storedDraft && storedDraft.attachments.length > 0) {
+    error(`Draft ${draftId} has attachments, which can't be sent through the API yet; send it from Superhuman`);
+    process.exit(1);
+  }
+
   // Build recipients
   const toRecipients: Recipient[] = options.to.map((email) => ({ email }));
   const ccRecipients: Recipient[] | undefined =
@@ -1298,11 +2119,42 @@ async function cmdSendDraft(options: CliOptions) {
   // Get body content (HTML or convert plain text)
   const htmlBody = options.html || textToHtml(options.body);
 
+  // --at/--in: schedule instead of using the --delay undo window.
+  // The draft is kept in Superhuman until the send goes out.
+  const sendAt = getScheduledSendTime(options);
+  if (sendAt) {
+    info(`Scheduling draft ${draftId.slice(-15)}...`);
+
+    const scheduleResult = await scheduleDraftSend(
+      userInfo,
+      {
+        draftId,
+        threadId,
+        to: toRecipients,
+        cc: ccRecipients,
+        bcc: bccRecipients,
+        subject: options.subject,
+        htmlBody,
+      },
+      sendAt
+    );
+
+    if (!scheduleResult.success || !scheduleResult.scheduled) {
+      error(`Failed to schedule draft: ${scheduleResult.error}`);
+      process.exit(1);
+    }
+
+    success(`Scheduled for ${new Date(scheduleResult.scheduled.sendAt).toLocaleString()}`);
+    log(`  ${colors.dim}Scheduled ID: ${scheduleResult.scheduled.id}${colors.reset}`);
+    log(`  ${colors.dim}Account: ${options.account}${colors.reset}`);
+    return;
+  }
+
   info(`Sending draft ${draftId.slice(-15)}...`);
 
   const result = await sendDraftSuperhuman(userInfo, {
     draftId,
-    threadId: options.sendDraftThreadId || draftId, // Use --thread if provided (for reply/forward), otherwise draftId
+    threadId,
     to: toRecipients,
     cc: ccRecipients,
     bcc: bccRecipients,
@@ -1321,7 +2173,6 @@ async function cmdSendDraft(options: CliOptions) {
 
     // Auto-delete the native draft after successful send (matches Superhuman app behavior)
     try {
-      const threadId = options.sendDraftThreadId || draftId;
       await deleteDraftWithUserInfo(userInfo, threadId, draftId);
     } catch {
       // Non-fatal: draft was sent successfully, cleanup failure is just cosmetic
@@ -1387,6 +2238,12 @@ async function cmdListDrafts(options: CliOptions) {
       log(`  Subject: ${draft.subject || "(no subject)"}`);
       log(`  Source: ${draft.source}`);
       log(`  To: ${draft.to.join(", ") || "(no recipients)"}`);
+      if (draft.attachments) {
+        log(`  Attachments: ${draft.attachments.join(", ")}`);
+      }
+      if (draft.scheduledFor) {
+        log(`  Scheduled: ${new Date(draft.scheduledFor).toLocaleString()}`);
+      }
       if (draft.from) {
         log(`  From: ${draft.from}`);
       }
@@ -1405,8 +2262,20 @@ async function cmdListDrafts(options: CliOptions) {
 }
 
 async function cmdSend(options: CliOptions) {
+  const sendAt = getScheduledSendTime(options);
+  const attachments = await loadAttachmentsOrExit(options);
+
   // If sending an existing draft by ID
   if (options.sendDraftId) {
+    if (sendAt) {
+      error("--at/--in cannot be combined with --draft; use 'superhuman draft send <draft-id> --at <time>'");
+      process.exit(1);
+    }
+    if (attachments.length > 0) {
+      error("--attach cannot be combined with --draft");
+      process.exit(1);
+    }
+
     const provider = await getProvider(options);
 
     info(`Sending draft ${options.sendDraftId}...`);
@@ -1441,6 +2310,19 @@ async function cmdSend(options: CliOptions) {
   // Use HTML body if provided, otherwise convert plain text to HTML
   const bodyContent = options.html || textToHtml(options.body);
 
+  // Scheduled sends go through Superhuman's delayed /messages/send
+  if (sendAt) {
+    await provider.disconnect();
+    const { userInfo } = await resolveBackendUserInfo(options);
+    info("Scheduling email...");
+    await scheduleDraft(
+      userInfo,
+      { to: resolvedTo, cc: resolvedCc, bcc: resolvedBcc, subject: options.subject || "", body: bodyContent },
+      sendAt
+    );
+    return;
+  }
+
   info("Sending email...");
   const result = await sendEmailViaProvider(provider, {
     to: resolvedTo,
@@ -1449,6 +2331,7 @@ async function cmdSend(options: CliOptions) {
     subject: options.subject || "",
     body: bodyContent,
     isHtml: true,
+    attachments,
   });
 
   if (result.success) {
@@ -1480,10 +2363,117 @@ function truncate(str: string | null | undefined, maxLen: number): string {
   return str.slice(0, maxLen - 1) + "…";
 }
 
-async function cmdInbox(options: CliOptions) {
-  const provider = await getProvider(options);
+/**
+ * Open the local mail cache for --offline reads.
+ * Uses --account, else the default account if it was synced, else the first
+ * synced account. Exits if no such account was ever synced.
+ */
+async function openOfflineCache(options: CliOptions) {
+  const db = await openMailCache();
+  await loadTokensFromDisk();
+  const synced = listCachedMailAccounts(db);
+  const defaultAccount = getCachedAccounts()[0];
+  const account = options.account || (defaultAccount && synced.includes(defaultAccount) ? defaultAccount : synced[0]);
+
+  if (!account || !getSyncState(db, account)) {
+    error(`No cached mail${account ? ` for ${account}` : ""}`);
+    info("Run 'superhuman sync' while online to populate the offline cache.");
+    db.close();
+    process.exit(1);
+  }
+
+  return { db, account };
+}
+
+/**
+ * Resolve qualified `account:threadId` references in threadId/threadIds,
+ * setting --account from them. Exits if they disagree with --account or
+ * with each other.
+ */
+function resolveThreadRefs(options: CliOptions): void {
+  const refs = [options.threadId, ...options.threadIds].filter(Boolean).map(parseThreadRef);
+  const accounts = [...new Set(refs.map((ref) => ref.account).filter((a): a is string => !!a))];
+  if (accounts.length === 0) return;
+
+  if (accounts.length > 1) {
+    error(`Thread references span several accounts (${accounts.join(", ")}); run one command per account`);
+    process.exit(1);
+  }
+  const account = accounts[0]!;
+  if (options.account && options.account.toLowerCase() !== account.toLowerCase()) {
+    error(`Thread reference is for ${account} but --account is ${options.account}`);
+    process.exit(1);
+  }
+
+  options.account = account;
+  if (options.threadId) {
+    options.threadId = parseThreadRef(options.threadId).threadId;
+  }
+  options.threadIds = options.threadIds.map((ref) => parseThreadRef(ref).threadId);
+}
+
+/**
+ * Print threads as a From/Subject/Date table. Threads from a multi-account
+ * listing also show the account and the `account:threadId` reference.
+ */
+function printThreadTable(threads: InboxThread[]): void {
+  const multi = threads.some((thread) => thread.account);
+  const accountHeader = multi ? ` ${"Account".padEnd(25)}` : "";
+  console.log(
+    `${colors.dim}${"From".padEnd(25)} ${"Subject".padEnd(40)} ${"Date".padEnd(10)}${accountHeader}${colors.reset}`
+  );
+  console.log(colors.dim + "─".repeat(multi ? 104 : 78) + colors.reset);
+
+  for (const thread of threads) {
+    const from = truncate(thread.from.name || thread.from.email, 24);
+    const subject = truncate(thread.subject, 39);
+    const date = formatDate(thread.date);
+    if (multi) {
+      console.log(`${from.padEnd(25)} ${subject.padEnd(40)} ${date.padEnd(10)} ${truncate(thread.account || "", 24)}`);
+      console.log(`${colors.dim}  ${formatThreadRef(thread)}${colors.reset}`);
+    } else {
+      console.log(`${from.padEnd(25)} ${subject.padEnd(40)} ${date}`);
+    }
+  }
+}
+
+/**
+ * Accounts for --all-accounts listings. Exits if none are cached.
+ */
+async function allCachedAccounts(): Promise<string[]> {
+  await loadTokensFromDisk();
+  const accounts = getCachedAccounts();
+  if (accounts.length === 0) {
+    error("No cached accounts. Run 'superhuman account auth' first.");
+    process.exit(1);
+  }
+  return accounts;
+}
+
+/**
+ * Warn about accounts a multi-account listing could not query.
+ */
+function warnAccountErrors(errors: Array<{ account: string; error: string }>): void {
+  for (const e of errors) {
+    warn(`${e.account}: ${e.error}`);
+  }
+}
 
-  const threads = await listInbox(provider, { limit: options.limit });
+async function cmdInbox(options: CliOptions) {
+  let threads;
+  if (options.allAccounts && !options.offline) {
+    const result = await listInboxAllAccounts(await allCachedAccounts(), { limit: options.limit });
+    warnAccountErrors(result.errors);
+    threads = result.threads;
+  } else if (options.offline) {
+    const { db, account } = await openOfflineCache(options);
+    threads = getCachedInbox(db, account, options.limit);
+    db.close();
+  } else {
+    const provider = await getProvider(options);
+    threads = await listInbox(provider, { limit: options.limit });
+    await provider.disconnect();
+  }
 
   if (options.json) {
     console.log(JSON.stringify(threads, null, 2));
@@ -1491,22 +2481,9 @@ async function cmdInbox(options: CliOptions) {
     if (threads.length === 0) {
       info("No emails in inbox");
     } else {
-      // Print header
-      console.log(
-        `${colors.dim}${"From".padEnd(25)} ${"Subject".padEnd(40)} ${"Date".padEnd(10)}${colors.reset}`
-      );
-      console.log(colors.dim + "─".repeat(78) + colors.reset);
-
-      for (const thread of threads) {
-        const from = truncate(thread.from.name || thread.from.email, 24);
-        const subject = truncate(thread.subject, 39);
-        const date = formatDate(thread.date);
-        console.log(`${from.padEnd(25)} ${subject.padEnd(40)} ${date}`);
-      }
+      printThreadTable(threads);
     }
   }
-
-  await provider.disconnect();
 }
 
 async function cmdSearch(options: CliOptions) {
@@ -1516,13 +2493,31 @@ async function cmdSearch(options: CliOptions) {
     process.exit(1);
   }
 
-  const provider = await getProvider(options);
-
-  const threads = await searchInbox(provider, {
-    query: options.query,
-    limit: options.limit,
-    includeDone: options.includeDone,
-  });
+  let threads;
+  if (options.allAccounts && !options.offline) {
+    const result = await searchInboxAllAccounts(await allCachedAccounts(), {
+      query: options.query,
+      limit: options.limit,
+      includeDone: options.includeDone,
+    });
+    warnAccountErrors(result.errors);
+    threads = result.threads;
+  } else if (options.offline) {
+    const { db, account } = await openOfflineCache(options);
+    threads = searchCachedThreads(db, account, options.query, {
+      limit: options.limit,
+      includeDone: options.includeDone,
+    });
+    db.close();
+  } else {
+    const provider = await getProvider(options);
+    threads = await searchInbox(provider, {
+      query: options.query,
+      limit: options.limit,
+      includeDone: options.includeDone,
+    });
+    await provider.disconnect();
+  }
 
   if (options.json) {
     console.log(JSON.stringify(threads, null, 2));
@@ -1531,24 +2526,12 @@ async function cmdSearch(options: CliOptions) {
       info(`No results for "${options.query}"`);
     } else {
       info(`Found ${threads.length} result(s) for "${options.query}":\n`);
-      console.log(
-        `${colors.dim}${"From".padEnd(25)} ${"Subject".padEnd(40)} ${"Date".padEnd(10)}${colors.reset}`
-      );
-      console.log(colors.dim + "─".repeat(78) + colors.reset);
-
-      for (const thread of threads) {
-        const from = truncate(thread.from.name || thread.from.email, 24);
-        const subject = truncate(thread.subject, 39);
-        const date = formatDate(thread.date);
-        console.log(`${from.padEnd(25)} ${subject.padEnd(40)} ${date}`);
-      }
+      printThreadTable(threads);
     }
   }
-
-  await provider.disconnect();
 }
 
-const READ_USAGE = `Usage: superhuman read <thread-id> [--account <email>] [--context N]`;
+const READ_USAGE = `Usage: superhuman read <thread-id> [--account <email>] [--context N] [--format text|markdown|html] [--offline]`;
 
 async function cmdRead(options: CliOptions) {
   if (!options.threadId) {
@@ -1557,19 +2540,33 @@ async function cmdRead(options: CliOptions) {
     process.exit(1);
   }
 
-  // Fast path: use cached credentials (no CDP needed) - same pattern as cmdReply
-  const token = await resolveSuperhumanToken(options.account);
-  if (!token) {
-    error("No cached credentials found. Run 'superhuman account auth' first.");
+  const format = (options.format || "text") as RenderFormat;
+  if (!RENDER_FORMATS.includes(format)) {
+    error(`Unknown read format: ${options.format}`);
+    console.log(READ_USAGE);
     process.exit(1);
   }
 
-  let messages;
-  try {
-    messages = await getThreadMessages(token, options.threadId);
-  } catch (e) {
-    error(`Failed to fetch thread: ${e instanceof Error ? e.message : e}`);
-    process.exit(1);
+  let messages: ThreadMessage[];
+  if (options.offline) {
+    const { db, account } = await openOfflineCache(options);
+    const threadId = options.threadId;
+    messages = getCachedThreadMessages(db, account, threadId).map((m) => fromCachedMessage(threadId, m));
+    db.close();
+  } else {
+    // Fast path: use cached credentials (no CDP needed) - same pattern as cmdReply
+    const token = await resolveSuperhumanToken(options.account);
+    if (!token) {
+      error("No cached credentials found. Run 'superhuman account auth' first.");
+      process.exit(1);
+    }
+
+    try {
+      messages = await readThreadDirect(token, options.threadId);
+    } catch (e) {
+      error(`Failed to fetch thread: ${e instanceof Error ? e.message : e}`);
+      process.exit(1);
+    }
   }
 
   if (options.json) {
@@ -1582,11 +2579,17 @@ async function cmdRead(options: CliOptions) {
     return;
   }
 
+  if (format === "markdown") {
+    console.log(renderThreadMarkdown(messages));
+    return;
+  }
+
+  const width = Math.min(process.stdout.columns || 80, 100);
   const contextCount = options.context;
   const separator = "\n" + colors.dim + "─".repeat(60) + colors.reset + "\n";
 
   for (let i = 0; i < messages.length; i++) {
-    const msg = messages[i];
+    const msg = messages[i]!;
     if (i > 0) {
       console.log(separator);
     }
@@ -1602,60 +2605,448 @@ async function cmdRead(options: CliOptions) {
     // When contextCount is 0 (default), show full body for all messages.
     // Otherwise, show full body only for the last N messages.
     const isWithinContext = contextCount === 0 || (messages.length - i) <= contextCount;
-    if (isWithinContext && msg.body) {
-      console.log(msg.body);
+    if (isWithinContext && (msg.textBody || msg.htmlBody)) {
+      console.log(renderMessageBody(msg, format, { width }));
     } else {
       console.log(msg.snippet);
     }
   }
 }
 
-async function cmdReply(options: CliOptions) {
-  if (!options.threadId) {
-    error("Thread ID is required");
-    console.log(`Usage: superhuman reply <thread-id> [--body "text"] [--send] [--account <email>]`);
+async function cmdSync(options: CliOptions) {
+  await loadTokensFromDisk();
+  const accounts = options.allAccounts
+    ? getCachedAccounts()
+    : [options.account || getCachedAccounts()[0]].filter((a): a is string => !!a);
+
+  if (accounts.length === 0) {
+    error("No cached accounts. Run 'superhuman account auth' first.");
     process.exit(1);
   }
 
-  // Fast path: use cached Superhuman credentials (no CDP needed)
-  {
-    const token = await resolveSuperhumanToken(options.account);
-    if (token) {
-      const body = options.body || "";
+  const db = await openMailCache();
+  const results = [];
+  let failed = false;
 
-      if (options.send) {
-        info(`Sending reply to thread ${options.threadId} via direct API...`);
+  for (const account of accounts) {
+    try {
+      const provider = new CachedTokenProvider(account);
+      const token = await provider.getToken();
+      const result = await syncMailCache(db, token, { limit: options.limit, full: options.full });
+      results.push(result);
+      if (!options.json) {
+        success(`${account}: ${result.mode} sync, ${result.threadsUpdated} updated, ${result.threadsRemoved} removed`);
+      }
+    } catch (e) {
+      failed = true;
+      error(`${account}: sync failed: ${e instanceof Error ? e.message : e}`);
+    }
+  }
 
-        const threadInfo = await getThreadInfoDirect(token, options.threadId);
-        if (!threadInfo) {
-          error("Could not get thread information");
-          process.exit(1);
-        }
+  db.close();
 
-        const subject = threadInfo.subject.startsWith("Re:")
-          ? threadInfo.subject
-          : `Re: ${threadInfo.subject}`;
+  if (options.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    info(`Cache: ${getMailCachePath()}`);
+  }
 
-        const result = await sendEmailDirect(token, {
-          to: [threadInfo.from],
-          subject,
-          body: textToHtml(body),
-          isHtml: true,
-          threadId: options.threadId,
-          inReplyTo: threadInfo.messageId || undefined,
-          references: threadInfo.references,
-        });
+  if (failed) process.exit(1);
+}
 
-        if (result) {
-          success("Reply sent!");
-          log(`  ${colors.dim}Account: ${token.email}${colors.reset}`);
-        } else {
-          error("Failed to send reply");
-        }
-        return;
-      } else {
-        // Create Superhuman draft
-        info(`Creating reply draft via Superhuman API...`);
+async function cmdTui(options: CliOptions) {
+  await loadTokensFromDisk();
+  const accounts = getCachedAccounts();
+  if (accounts.length === 0) {
+    error("No cached accounts. Run 'superhuman account auth' first.");
+    process.exit(1);
+  }
+  if (options.account && !accounts.includes(options.account)) {
+    error(`No cached credentials for ${options.account}`);
+    console.log(`Cached accounts: ${accounts.join(", ")}`);
+    process.exit(1);
+  }
+
+  try {
+    await runTui({ accounts, account: options.account || undefined, limit: options.limit });
+  } catch (e: any) {
+    error(e.message || "Unknown error");
+    process.exit(1);
+  }
+}
+
+async function cmdWatch(options: CliOptions) {
+  if (!options.interval || options.interval < 1) {
+    error("--interval must be a positive number of seconds");
+    console.log(`Usage: superhuman watch [--query <query>] [--exec <command>] [--interval <seconds>]`);
+    process.exit(1);
+  }
+
+  const provider = await getProvider(options);
+  const account = await provider.getCurrentEmail();
+  const controller = new AbortController();
+  process.on("SIGINT", () => controller.abort());
+  process.on("SIGTERM", () => controller.abort());
+
+  // stdout carries only JSON lines; status goes to stderr
+  console.error(`${colors.blue}ℹ${colors.reset} Watching ${account} (every ${options.interval}s, Ctrl+C to stop)`);
+
+  await watchInbox(provider, {
+    query: options.query || undefined,
+    intervalMs: options.interval * 1000,
+    signal: controller.signal,
+    onThread: async (thread) => {
+      const line = JSON.stringify(thread);
+      console.log(line);
+
+      if (options.exec) {
+        const proc = Bun.spawn(["sh", "-c", options.exec], {
+          stdin: new TextEncoder().encode(line + "\n"),
+          stdout: "inherit",
+          stderr: "inherit",
+          env: { ...process.env, SUPERHUMAN_THREAD_ID: thread.id, SUPERHUMAN_ACCOUNT: account },
+        });
+        const code = await proc.exited;
+        if (code !== 0) {
+          error(`--exec exited with code ${code} for thread ${thread.id}`);
+        }
+      }
+    },
+    onError: (e) => error(`Poll failed: ${e.message}`),
+  });
+
+  await provider.disconnect();
+}
+
+async function cmdExport(options: CliOptions) {
+  const usage = `Usage: superhuman export <thread-id> [thread-id...] --format eml|mbox|md|pdf-ready-html --output <dir>
+       superhuman export --query <query> --format mbox --output <dir> [--limit N]`;
+  const format = (options.format || "eml") as ExportFormat;
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    error(`Unknown export format: ${options.format}`);
+    console.log(usage);
+    process.exit(1);
+  }
+  if (options.threadIds.length === 0 && !options.query) {
+    error("At least one thread ID or --query is required");
+    console.log(usage);
+    process.exit(1);
+  }
+
+  const provider = await getProvider(options);
+  let threadIds = options.threadIds;
+
+  if (options.query) {
+    const token = await provider.getToken();
+    // Exports are backups: take every match unless --limit caps them
+    const limit = options.limitSet ? options.limit : Infinity;
+    threadIds = [...threadIds, ...await findThreadIds(token, options.query, limit)];
+    info(`${threadIds.length} thread(s) to export`);
+    if (threadIds.length >= limit) {
+      info(`Stopped at --limit ${limit}; raise it to export more`);
+    }
+  }
+
+  const outputDir = options.outputPath || ".";
+  const result = await exportThreads(provider, threadIds, {
+    format,
+    outputDir,
+    name: options.query && options.threadIds.length === 0 ? options.query : undefined,
+    onThread: (threadId, count) => {
+      if (threadIds.length > 1) info(`Exported ${threadId} (${count} message${count === 1 ? "" : "s"})`);
+    },
+  });
+
+  if (result.success) {
+    success(`Exported ${result.threads} thread(s), ${result.messages} message(s) as ${format}`);
+    if (format === "mbox" || result.files.length <= 5) {
+      for (const file of result.files) {
+        log(`  ${colors.dim}${file}${colors.reset}`);
+      }
+    } else {
+      log(`  ${colors.dim}${outputDir}${colors.reset}`);
+    }
+  } else {
+    error(`Export failed: ${result.error}`);
+    if (result.threads > 0) {
+      info(`${result.threads} thread(s) were exported before the failure`);
+    }
+  }
+
+  await provider.disconnect();
+}
+
+const BULK_USAGE = `Usage: superhuman bulk <${BULK_ACTIONS.join("|")}> --query <query> [--label <label>] [--dry-run]
+       superhuman bulk resume [<run-id>]
+       superhuman bulk list`;
+
+/**
+ * Render bulk progress on one stderr line.
+ */
+function printBulkProgress(progress: BulkProgress) {
+  const text = progress.phase === "listing"
+    ? `Listing matches... ${progress.done}`
+    : `Applying... ${progress.done}/${progress.total}`;
+  process.stderr.write(`\r${colors.dim}${text}${colors.reset}\x1b[K`);
+}
+
+function reportBulkResult(result: BulkResult, action: string) {
+  process.stderr.write("\r\x1b[K");
+  if (result.success) {
+    success(`${action}: ${result.succeeded} of ${result.matched} message(s) done`);
+  } else {
+    error(`Bulk ${action} stopped: ${result.error}`);
+    if (result.matched > 0) {
+      info(`${result.succeeded} of ${result.matched} message(s) done, ${result.failed} failed`);
+    }
+    if (result.runId) {
+      info(`Resume with: superhuman bulk resume ${result.runId}`);
+    }
+  }
+  if (result.runId) {
+    log(`  ${colors.dim}Run ID: ${result.runId}${colors.reset}`);
+  }
+  if (result.operationId) {
+    log(`${colors.dim}Undo with: superhuman undo ${result.operationId}${colors.reset}`);
+  }
+}
+
+async function cmdBulk(options: CliOptions) {
+  const action = options.subcommand as BulkAction;
+  if (!BULK_ACTIONS.includes(action)) {
+    error(`Unknown bulk action: ${options.subcommand || "(none)"}`);
+    console.log(BULK_USAGE);
+    process.exit(1);
+  }
+  if (!options.query) {
+    error("--query is required");
+    console.log(BULK_USAGE);
+    process.exit(1);
+  }
+
+  const provider = await getProvider(options);
+  const result = await runBulkAction(provider, {
+    action,
+    query: options.query,
+    labelId: options.labelId ? await resolveLabelOrExit(provider, options.labelId) : undefined,
+    dryRun: options.dryRun,
+    onProgress: printBulkProgress,
+  });
+
+  if (options.dryRun && result.success) {
+    process.stderr.write("\r\x1b[K");
+    info(`Dry run: ${action} would apply to ${result.matched} message(s)`);
+    for (const msg of result.sample || []) {
+      log(`  ${colors.dim}${msg.id}${colors.reset}  ${msg.from}  ${msg.subject}`);
+    }
+    if (result.matched > (result.sample?.length ?? 0)) {
+      log(`  ${colors.dim}...${colors.reset}`);
+    }
+  } else {
+    reportBulkResult(result, action);
+  }
+
+  await provider.disconnect();
+  if (!result.success) process.exit(1);
+}
+
+async function cmdBulkResume(options: CliOptions) {
+  let account = options.account;
+  if (options.bulkRunId) {
+    // Resume with the account the run was started from
+    const run = await loadBulkRun(options.bulkRunId);
+    if (!run) {
+      error(`No bulk run with ID ${options.bulkRunId}`);
+      process.exit(1);
+    }
+    account = run.account;
+  }
+
+  const provider = await getProvider({ ...options, account });
+  const result = await resumeBulkRun(provider, options.bulkRunId || undefined, printBulkProgress);
+  const run = result.runId ? await loadBulkRun(result.runId) : null;
+
+  reportBulkResult(result, run?.action || "resume");
+  await provider.disconnect();
+  if (!result.success) process.exit(1);
+}
+
+async function cmdBulkList(options: CliOptions) {
+  const runs = await listBulkRuns(options.account || undefined);
+
+  if (options.json) {
+    console.log(JSON.stringify(
+      runs.map(({ ids, succeeded, failed, ...run }) => ({
+        ...run,
+        matched: ids.length,
+        succeeded: succeeded.length,
+        failed: failed.length,
+      })),
+      null,
+      2
+    ));
+  } else if (runs.length === 0) {
+    info("No bulk runs");
+  } else {
+    console.log(`${colors.bold}Bulk runs:${colors.reset}\n`);
+    for (const run of runs) {
+      const status = run.finished ? `${colors.green}finished${colors.reset}` : `${colors.yellow}unfinished${colors.reset}`;
+      console.log(`  ${colors.cyan}${run.id}${colors.reset}  ${run.action}${run.labelId ? ` ${run.labelId}` : ""}  ${status}`);
+      console.log(`    Query: ${run.query}`);
+      console.log(`    Progress: ${run.succeeded.length}/${run.listed ? run.ids.length : `${run.ids.length}+`}${run.failed.length ? `, ${run.failed.length} failed` : ""}`);
+      console.log(`    ${colors.dim}${new Date(run.createdAt).toLocaleString()} · ${run.account}${colors.reset}`);
+    }
+  }
+}
+
+async function loadRulesOrExit() {
+  try {
+    return await loadRules();
+  } catch (e) {
+    error((e as Error).message);
+    info("Create rules.yaml in the config directory. See README for the format.");
+    process.exit(1);
+  }
+}
+
+async function cmdRulesRun(options: CliOptions) {
+  const { path, rules } = await loadRulesOrExit();
+  const provider = await getProvider(options);
+
+  const threads = options.query
+    ? await searchInbox(provider, { query: options.query, limit: options.limit, includeDone: options.includeDone })
+    : await listInbox(provider, { limit: options.limit });
+
+  if (!options.json) {
+    info(`${options.dryRun ? "Dry run: " : ""}${rules.length} rule(s) from ${path} against ${threads.length} thread(s)`);
+  }
+
+  const results = await runRules(provider, rules, threads, { dryRun: options.dryRun });
+
+  if (options.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else if (results.length === 0) {
+    info("No rules matched");
+  } else {
+    for (const result of results) {
+      console.log(`${colors.bold}${truncate(result.subject, 60)}${colors.reset} ${colors.dim}(${result.threadId})${colors.reset}`);
+      console.log(`  ${colors.cyan}Rule:${colors.reset} ${result.rule}`);
+      for (const action of result.actions) {
+        if (options.dryRun) {
+          console.log(`  ${colors.dim}would${colors.reset} ${action.action}`);
+        } else if (action.success) {
+          success(`  ${action.action}${action.operationId ? ` ${colors.dim}(undo: ${action.operationId})${colors.reset}` : ""}`);
+        } else {
+          error(`  ${action.action}: ${action.error || "failed"}`);
+        }
+      }
+    }
+  }
+
+  await provider.disconnect();
+}
+
+async function cmdRulesTest(options: CliOptions) {
+  if (!options.threadId) {
+    error("Thread ID is required");
+    console.log(`Usage: superhuman rules test <thread-id>`);
+    process.exit(1);
+  }
+
+  const { rules } = await loadRulesOrExit();
+  const provider = await getProvider(options);
+  const evaluations = await evaluateRules(provider, rules, options.threadId);
+
+  if (options.json) {
+    console.log(JSON.stringify(evaluations, null, 2));
+  } else {
+    for (const { rule, matched, conditions } of evaluations) {
+      const status = matched ? `${colors.green}MATCH${colors.reset}` : `${colors.dim}no match${colors.reset}`;
+      console.log(`${colors.bold}${rule.name}${colors.reset}: ${status}`);
+      for (const c of conditions) {
+        const mark = c.matched ? `${colors.green}✓${colors.reset}` : `${colors.red}✗${colors.reset}`;
+        console.log(`  ${mark} ${c.condition}: ${JSON.stringify(rule.match[c.condition])}`);
+      }
+      if (matched) {
+        console.log(`  ${colors.cyan}Actions:${colors.reset} ${rule.actions.map((a) => describeAction(a)).join(", ")}`);
+      }
+    }
+  }
+
+  await provider.disconnect();
+}
+
+async function cmdReply(options: CliOptions) {
+  if (!options.threadId) {
+    error("Thread ID is required");
+    console.log(`Usage: superhuman reply <thread-id> [--body "text"] [--attach <path>] [--send | --at <time> | --in <duration>] [--account <email>]`);
+    process.exit(1);
+  }
+
+  const sendAt = getScheduledSendTime(options);
+  const attachments = await loadAttachmentsOrExit(options);
+  if (!options.send && !sendAt) {
+    checkDraftAttachments(options, attachments.length);
+  }
+
+  // Fast path: native Superhuman drafts with cached credentials (no CDP needed).
+  // Scheduled sends always go through Superhuman.
+  if (options.provider === "superhuman" || sendAt) {
+    const token = await resolveSuperhumanToken(options.account);
+    if (token) {
+      const body = options.body || "";
+
+      if (options.send || sendAt) {
+        info(`${sendAt ? "Scheduling" : "Sending"} reply to thread ${options.threadId} via direct API...`);
+
+        const threadInfo = await getThreadInfoDirect(token, options.threadId);
+        if (!threadInfo) {
+          error("Could not get thread information");
+          process.exit(1);
+        }
+
+        const subject = threadInfo.subject.startsWith("Re:")
+          ? threadInfo.subject
+          : `Re: ${threadInfo.subject}`;
+
+        if (sendAt) {
+          const userInfo = getUserInfoFromCache(token.userId, token.email, token.idToken);
+          await scheduleDraft(userInfo, {
+            to: [threadInfo.from],
+            subject,
+            body: textToHtml(body),
+            action: "reply",
+            inReplyToThreadId: options.threadId,
+            inReplyToRfc822Id: threadInfo.messageId || undefined,
+            references: threadInfo.references,
+          }, sendAt);
+          return;
+        }
+
+        const result = await sendEmailDirect(token, {
+          to: [threadInfo.from],
+          subject,
+          body: textToHtml(body),
+          isHtml: true,
+          attachments,
+          threadId: options.threadId,
+          inReplyTo: threadInfo.messageId || undefined,
+          references: threadInfo.references,
+        });
+
+        if (result) {
+          success("Reply sent!");
+          log(`  ${colors.dim}Account: ${token.email}${colors.reset}`);
+        } else {
+          error("Failed to send reply");
+        }
+        return;
+      } else if (attachments.length === 0) {
+        // Native Superhuman drafts can't hold attachments; with --attach the
+        // draft is created through Gmail/Outlook below instead.
+        // Create Superhuman draft
+        info(`Creating reply draft via Superhuman API...`);
 
         const threadInfo = await getThreadInfoDirect(token, options.threadId);
         if (!threadInfo) {
@@ -1696,6 +3087,12 @@ async function cmdReply(options: CliOptions) {
     }
   }
 
+  // Scheduling needs Superhuman's backend; the CDP path can only send now
+  if (sendAt) {
+    error("Scheduled send requires cached Superhuman credentials. Run 'superhuman account auth' first.");
+    process.exit(1);
+  }
+
   // CDP path (fallback)
   const provider = await getProvider(options);
 
@@ -1703,7 +3100,7 @@ async function cmdReply(options: CliOptions) {
   const action = options.send ? "Sending" : "Creating draft for";
   info(`${action} reply to thread ${options.threadId}...`);
 
-  const result = await replyToThread(provider, options.threadId, body, options.send);
+  const result = await replyToThread(provider, options.threadId, body, options.send, { attachments });
 
   if (result.success) {
     if (options.send) {
@@ -1721,18 +3118,25 @@ async function cmdReply(options: CliOptions) {
 async function cmdReplyAll(options: CliOptions) {
   if (!options.threadId) {
     error("Thread ID is required");
-    console.log(`Usage: superhuman reply-all <thread-id> [--body "text"] [--send] [--account <email>]`);
+    console.log(`Usage: superhuman reply-all <thread-id> [--body "text"] [--attach <path>] [--send | --at <time> | --in <duration>] [--account <email>]`);
     process.exit(1);
   }
 
-  // Fast path: use cached Superhuman credentials (no CDP needed)
-  {
+  const sendAt = getScheduledSendTime(options);
+  const attachments = await loadAttachmentsOrExit(options);
+  if (!options.send && !sendAt) {
+    checkDraftAttachments(options, attachments.length);
+  }
+
+  // Fast path: native Superhuman drafts with cached credentials (no CDP needed).
+  // Scheduled sends always go through Superhuman.
+  if (options.provider === "superhuman" || sendAt) {
     const token = await resolveSuperhumanToken(options.account);
     if (token) {
       const body = options.body || "";
 
-      if (options.send) {
-        info(`Sending reply-all to thread ${options.threadId} via direct API...`);
+      if (options.send || sendAt) {
+        info(`${sendAt ? "Scheduling" : "Sending"} reply-all to thread ${options.threadId} via direct API...`);
 
         const threadInfo = await getThreadInfoDirect(token, options.threadId);
         if (!threadInfo) {
@@ -1754,11 +3158,26 @@ async function cmdReplyAll(options: CliOptions) {
         // Deduplicate recipients
         const uniqueRecipients = [...new Set(allRecipients.map(e => e.toLowerCase()))];
 
+        if (sendAt) {
+          const userInfo = getUserInfoFromCache(token.userId, token.email, token.idToken);
+          await scheduleDraft(userInfo, {
+            to: uniqueRecipients,
+            subject,
+            body: textToHtml(body),
+            action: "reply",
+            inReplyToThreadId: options.threadId,
+            inReplyToRfc822Id: threadInfo.messageId || undefined,
+            references: threadInfo.references,
+          }, sendAt);
+          return;
+        }
+
         const result = await sendEmailDirect(token, {
           to: uniqueRecipients,
           subject,
           body: textToHtml(body),
           isHtml: true,
+          attachments,
           threadId: options.threadId,
           inReplyTo: threadInfo.messageId || undefined,
           references: threadInfo.references,
@@ -1771,7 +3190,9 @@ async function cmdReplyAll(options: CliOptions) {
           error("Failed to send reply-all");
         }
         return;
-      } else {
+      } else if (attachments.length === 0) {
+        // Native Superhuman drafts can't hold attachments; with --attach the
+        // draft is created through Gmail/Outlook below instead.
         // Create Superhuman draft
         info(`Creating reply-all draft via Superhuman API...`);
 
@@ -1824,6 +3245,12 @@ async function cmdReplyAll(options: CliOptions) {
     }
   }
 
+  // Scheduling needs Superhuman's backend; the CDP path can only send now
+  if (sendAt) {
+    error("Scheduled send requires cached Superhuman credentials. Run 'superhuman account auth' first.");
+    process.exit(1);
+  }
+
   // CDP path (fallback)
   const provider = await getProvider(options);
 
@@ -1831,7 +3258,7 @@ async function cmdReplyAll(options: CliOptions) {
   const action = options.send ? "Sending" : "Creating draft for";
   info(`${action} reply-all to thread ${options.threadId}...`);
 
-  const result = await replyAllToThread(provider, options.threadId, body, options.send);
+  const result = await replyAllToThread(provider, options.threadId, body, options.send, { attachments });
 
   if (result.success) {
     if (options.send) {
@@ -1849,74 +3276,97 @@ async function cmdReplyAll(options: CliOptions) {
 async function cmdForward(options: CliOptions) {
   if (!options.threadId) {
     error("Thread ID is required");
-    console.log(`Usage: superhuman forward <thread-id> --to <email> [--body "text"] [--send] [--account <email>]`);
+    console.log(`Usage: superhuman forward <thread-id> --to <email> [--body "text"] [--message <id> | --all] [--attach <path>] [--send | --at <time> | --in <duration>] [--account <email>]`);
     process.exit(1);
   }
 
   if (options.to.length === 0) {
     error("Recipient is required (--to)");
-    console.log(`Usage: superhuman forward <thread-id> --to <email> [--body "text"] [--send] [--account <email>]`);
+    console.log(`Usage: superhuman forward <thread-id> --to <email> [--body "text"] [--message <id> | --all] [--attach <path>] [--send | --at <time> | --in <duration>] [--account <email>]`);
     process.exit(1);
   }
 
-  // Fast path: use cached Superhuman credentials (no CDP needed)
-  {
+  const sendAt = getScheduledSendTime(options);
+  const attachments = await loadAttachmentsOrExit(options);
+  if (!options.send && !sendAt) {
+    checkDraftAttachments(options, attachments.length);
+  }
+  const forwardOptions = { messageId: options.messageId || undefined, all: options.all, attachments };
+
+  // Fast path: native Superhuman drafts with cached credentials (no CDP needed).
+  // Scheduled sends always go through Superhuman.
+  if (options.provider === "superhuman" || sendAt) {
     const token = await resolveSuperhumanToken(options.account);
     if (token) {
-      const body = options.body || "";
+      const forward = await buildForwardContent(token, options.threadId, options.body || "", forwardOptions);
+      if (!forward.content) {
+        error(forward.error || "Could not get thread information");
+        process.exit(1);
+      }
+      const { subject, body } = forward.content;
+      const originalAttachments = forward.content.attachments;
 
-      if (options.send) {
-        info(`Forwarding thread ${options.threadId} via direct API...`);
+      if (options.send || sendAt) {
+        info(`${sendAt ? "Scheduling forward of" : "Forwarding"} thread ${options.threadId} via direct API...`);
 
-        const threadInfo = await getThreadInfoDirect(token, options.threadId);
-        if (!threadInfo) {
-          error("Could not get thread information");
-          process.exit(1);
+        if (sendAt) {
+          if (originalAttachments.length > 0) {
+            error("Forwarding a message with attachments cannot be combined with --at/--in yet");
+            process.exit(1);
+          }
+          const userInfo = getUserInfoFromCache(token.userId, token.email, token.idToken);
+          await scheduleDraft(userInfo, {
+            to: options.to,
+            subject,
+            body,
+            action: "forward",
+            inReplyToThreadId: options.threadId,
+          }, sendAt);
+          return;
         }
 
-        const subject = threadInfo.subject.startsWith("Fwd:")
-          ? threadInfo.subject
-          : `Fwd: ${threadInfo.subject}`;
-
         const result = await sendEmailDirect(token, {
           to: options.to,
           subject,
-          body: textToHtml(body),
+          body,
           isHtml: true,
+          attachments: [...originalAttachments, ...attachments],
           // Note: forwards don't need inReplyTo/references - they're new threads
         });
 
         if (result) {
           success("Forward sent!");
+          if (originalAttachments.length > 0) {
+            log(`  ${colors.dim}Forwarded attachments: ${originalAttachments.map((a) => a.filename).join(", ")}${colors.reset}`);
+          }
           log(`  ${colors.dim}Account: ${token.email}${colors.reset}`);
         } else {
           error("Failed to send forward");
         }
         return;
-      } else {
+      }
+
+      // Native Superhuman drafts can't hold attachments; with --attach or
+      // attachments on the original the draft is created through
+      // Gmail/Outlook below instead. --attach was checked above.
+      if (attachments.length === 0) {
+        checkDraftAttachments(options, originalAttachments.length);
+      }
+
+      if (attachments.length === 0 && originalAttachments.length === 0) {
         // Create Superhuman forward draft
         info(`Creating forward draft via Superhuman API...`);
 
-        const threadInfo = await getThreadInfoDirect(token, options.threadId);
-        if (!threadInfo) {
-          error("Could not get thread information");
-          process.exit(1);
-        }
-
         const userInfo = getUserInfoFromCache(
           token.userId,
           token.email,
           token.idToken
         );
 
-        const subject = threadInfo.subject.startsWith("Fwd:")
-          ? threadInfo.subject
-          : `Fwd: ${threadInfo.subject}`;
-
         const result = await createDraftWithUserInfo(userInfo, {
           to: options.to,
           subject,
-          body: textToHtml(body),
+          body,
           action: "forward",
           inReplyToThreadId: options.threadId,
         });
@@ -1934,6 +3384,12 @@ async function cmdForward(options: CliOptions) {
     }
   }
 
+  // Scheduling needs Superhuman's backend; the CDP path can only send now
+  if (sendAt) {
+    error("Scheduled send requires cached Superhuman credentials. Run 'superhuman account auth' first.");
+    process.exit(1);
+  }
+
   // CDP path (fallback)
   const provider = await getProvider(options);
 
@@ -1945,7 +3401,7 @@ async function cmdForward(options: CliOptions) {
   const action = options.send ? "Sending" : "Creating draft for";
   info(`${action} forward to ${toEmail}...`);
 
-  const result = await forwardThread(provider, options.threadId, toEmail, body, options.send);
+  const result = await forwardThread(provider, options.threadId, toEmail, body, options.send, forwardOptions);
 
   if (result.success) {
     if (options.send) {
@@ -1960,6 +3416,18 @@ async function cmdForward(options: CliOptions) {
   await provider.disconnect();
 }
 
+/**
+ * Print how to undo a logged command, or why it couldn't be logged.
+ * A command whose undo information was lost still succeeded, so this only warns.
+ */
+function printUndoHint(undo: UndoLog): void {
+  if (undo.undoError) {
+    warn(`Could not record undo information: ${undo.undoError}`);
+  } else if (undo.operation) {
+    log(`${colors.dim}Undo with: superhuman undo ${undo.operation.id}${colors.reset}`);
+  }
+}
+
 async function cmdArchive(options: CliOptions) {
   if (options.threadIds.length === 0) {
     error("At least one thread ID is required");
@@ -1968,25 +3436,31 @@ async function cmdArchive(options: CliOptions) {
   }
 
   const provider = await getProvider(options);
+  const undo = await withUndo(provider, "archive", options.threadIds, async () => {
+    const done: string[] = [];
 
-  let successCount = 0;
-  let failCount = 0;
+    let successCount = 0;
+    let failCount = 0;
 
-  for (const threadId of options.threadIds) {
-    const result = await archiveThread(provider, threadId);
-    if (result.success) {
-      success(`Archived: ${threadId}`);
-      successCount++;
-    } else {
-      error(`Failed to archive: ${threadId}`);
-      failCount++;
+    for (const threadId of options.threadIds) {
+      const result = await archiveThread(provider, threadId);
+      if (result.success) {
+        success(`Archived: ${threadId}`);
+        done.push(threadId);
+        successCount++;
+      } else {
+        error(`Failed to archive: ${threadId}`);
+        failCount++;
+      }
     }
-  }
 
-  if (options.threadIds.length > 1) {
-    log(`\n${successCount} archived, ${failCount} failed`);
-  }
+    if (options.threadIds.length > 1) {
+      log(`\n${successCount} archived, ${failCount} failed`);
+    }
 
+    return { done };
+  });
+  printUndoHint(undo);
   await provider.disconnect();
 }
 
@@ -1998,25 +3472,31 @@ async function cmdDelete(options: CliOptions) {
   }
 
   const provider = await getProvider(options);
+  const undo = await withUndo(provider, "delete", options.threadIds, async () => {
+    const done: string[] = [];
 
-  let successCount = 0;
-  let failCount = 0;
+    let successCount = 0;
+    let failCount = 0;
 
-  for (const threadId of options.threadIds) {
-    const result = await deleteThread(provider, threadId);
-    if (result.success) {
-      success(`Deleted: ${threadId}`);
-      successCount++;
-    } else {
-      error(`Failed to delete: ${threadId}`);
-      failCount++;
+    for (const threadId of options.threadIds) {
+      const result = await deleteThread(provider, threadId);
+      if (result.success) {
+        success(`Deleted: ${threadId}`);
+        done.push(threadId);
+        successCount++;
+      } else {
+        error(`Failed to delete: ${threadId}`);
+        failCount++;
+      }
     }
-  }
 
-  if (options.threadIds.length > 1) {
-    log(`\n${successCount} deleted, ${failCount} failed`);
-  }
+    if (options.threadIds.length > 1) {
+      log(`\n${successCount} deleted, ${failCount} failed`);
+    }
 
+    return { done };
+  });
+  printUndoHint(undo);
   await provider.disconnect();
 }
 
@@ -2028,25 +3508,31 @@ async function cmdMarkRead(options: CliOptions) {
   }
 
   const provider = await getProvider(options);
+  const undo = await withUndo(provider, "read", options.threadIds, async () => {
+    const done: string[] = [];
 
-  let successCount = 0;
-  let failCount = 0;
+    let successCount = 0;
+    let failCount = 0;
 
-  for (const threadId of options.threadIds) {
-    const result = await markAsRead(provider, threadId);
-    if (result.success) {
-      success(`Marked as read: ${threadId}`);
-      successCount++;
-    } else {
-      error(`Failed to mark as read: ${threadId}${result.error ? ` (${result.error})` : ""}`);
-      failCount++;
+    for (const threadId of options.threadIds) {
+      const result = await markAsRead(provider, threadId);
+      if (result.success) {
+        success(`Marked as read: ${threadId}`);
+        done.push(threadId);
+        successCount++;
+      } else {
+        error(`Failed to mark as read: ${threadId}${result.error ? ` (${result.error})` : ""}`);
+        failCount++;
+      }
     }
-  }
 
-  if (options.threadIds.length > 1) {
-    log(`\n${successCount} marked as read, ${failCount} failed`);
-  }
+    if (options.threadIds.length > 1) {
+      log(`\n${successCount} marked as read, ${failCount} failed`);
+    }
 
+    return { done };
+  });
+  printUndoHint(undo);
   await provider.disconnect();
 }
 
@@ -2058,25 +3544,31 @@ async function cmdMarkUnread(options: CliOptions) {
   }
 
   const provider = await getProvider(options);
+  const undo = await withUndo(provider, "unread", options.threadIds, async () => {
+    const done: string[] = [];
 
-  let successCount = 0;
-  let failCount = 0;
+    let successCount = 0;
+    let failCount = 0;
 
-  for (const threadId of options.threadIds) {
-    const result = await markAsUnread(provider, threadId);
-    if (result.success) {
-      success(`Marked as unread: ${threadId}`);
-      successCount++;
-    } else {
-      error(`Failed to mark as unread: ${threadId}${result.error ? ` (${result.error})` : ""}`);
-      failCount++;
+    for (const threadId of options.threadIds) {
+      const result = await markAsUnread(provider, threadId);
+      if (result.success) {
+        success(`Marked as unread: ${threadId}`);
+        done.push(threadId);
+        successCount++;
+      } else {
+        error(`Failed to mark as unread: ${threadId}${result.error ? ` (${result.error})` : ""}`);
+        failCount++;
+      }
     }
-  }
 
-  if (options.threadIds.length > 1) {
-    log(`\n${successCount} marked as unread, ${failCount} failed`);
-  }
+    if (options.threadIds.length > 1) {
+      log(`\n${successCount} marked as unread, ${failCount} failed`);
+    }
 
+    return { done };
+  });
+  printUndoHint(undo);
   await provider.disconnect();
 }
 
@@ -2093,7 +3585,8 @@ async function cmdLabels(options: CliOptions) {
     } else {
       console.log(`${colors.bold}Labels:${colors.reset}\n`);
       for (const label of labels) {
-        const typeInfo = label.type ? ` ${colors.dim}(${label.type})${colors.reset}` : "";
+        const kinds = [...new Set([label.kind, label.type].filter(Boolean))].join(", ");
+        const typeInfo = kinds ? ` ${colors.dim}(${kinds})${colors.reset}` : "";
         console.log(`  ${label.name}${typeInfo}`);
         console.log(`    ${colors.dim}ID: ${label.id}${colors.reset}`);
       }
@@ -2122,7 +3615,8 @@ async function cmdGetLabels(options: CliOptions) {
     } else {
       console.log(`${colors.bold}Labels on thread:${colors.reset}\n`);
       for (const label of labels) {
-        const typeInfo = label.type ? ` ${colors.dim}(${label.type})${colors.reset}` : "";
+        const kinds = [...new Set([label.kind, label.type].filter(Boolean))].join(", ");
+        const typeInfo = kinds ? ` ${colors.dim}(${kinds})${colors.reset}` : "";
         console.log(`  ${label.name}${typeInfo}`);
         console.log(`    ${colors.dim}ID: ${label.id}${colors.reset}`);
       }
@@ -2135,70 +3629,152 @@ async function cmdGetLabels(options: CliOptions) {
 async function cmdAddLabel(options: CliOptions) {
   if (options.threadIds.length === 0) {
     error("At least one thread ID is required");
-    console.log(`Usage: superhuman label add <thread-id> [thread-id...] --label <label-id>`);
+    console.log(`Usage: superhuman label add <thread-id> [thread-id...] --label <label>`);
     process.exit(1);
   }
 
   if (!options.labelId) {
-    error("Label ID is required (--label)");
-    console.log(`Usage: superhuman label add <thread-id> [thread-id...] --label <label-id>`);
+    error("Label is required (--label)");
+    console.log(`Usage: superhuman label add <thread-id> [thread-id...] --label <label>`);
     process.exit(1);
   }
 
   const provider = await getProvider(options);
+  const labelId = await resolveLabelOrExit(provider, options.labelId);
+  const undo = await withUndo(provider, "label", options.threadIds, async () => {
+    const done: string[] = [];
 
-  let successCount = 0;
-  let failCount = 0;
+    let successCount = 0;
+    let failCount = 0;
 
-  for (const threadId of options.threadIds) {
-    const result = await addLabel(provider, threadId, options.labelId);
-    if (result.success) {
-      success(`Added label to: ${threadId}`);
-      successCount++;
-    } else {
-      error(`Failed to add label to: ${threadId}${result.error ? ` (${result.error})` : ""}`);
-      failCount++;
+    for (const threadId of options.threadIds) {
+      const result = await addLabel(provider, threadId, labelId);
+      if (result.success) {
+        success(`Added label to: ${threadId}`);
+        done.push(threadId);
+        successCount++;
+      } else {
+        error(`Failed to add label to: ${threadId}${result.error ? ` (${result.error})` : ""}`);
+        failCount++;
+      }
     }
-  }
 
-  if (options.threadIds.length > 1) {
-    log(`\n${successCount} labeled, ${failCount} failed`);
-  }
+    if (options.threadIds.length > 1) {
+      log(`\n${successCount} labeled, ${failCount} failed`);
+    }
 
+    return { done, labelId };
+  });
+  printUndoHint(undo);
   await provider.disconnect();
 }
 
 async function cmdRemoveLabel(options: CliOptions) {
   if (options.threadIds.length === 0) {
     error("At least one thread ID is required");
-    console.log(`Usage: superhuman label remove <thread-id> [thread-id...] --label <label-id>`);
+    console.log(`Usage: superhuman label remove <thread-id> [thread-id...] --label <label>`);
     process.exit(1);
   }
 
   if (!options.labelId) {
-    error("Label ID is required (--label)");
-    console.log(`Usage: superhuman label remove <thread-id> [thread-id...] --label <label-id>`);
+    error("Label is required (--label)");
+    console.log(`Usage: superhuman label remove <thread-id> [thread-id...] --label <label>`);
     process.exit(1);
   }
 
   const provider = await getProvider(options);
+  const labelId = await resolveLabelOrExit(provider, options.labelId);
+  const undo = await withUndo(provider, "unlabel", options.threadIds, async () => {
+    const done: string[] = [];
 
-  let successCount = 0;
-  let failCount = 0;
+    let successCount = 0;
+    let failCount = 0;
 
-  for (const threadId of options.threadIds) {
-    const result = await removeLabel(provider, threadId, options.labelId);
-    if (result.success) {
-      success(`Removed label from: ${threadId}`);
-      successCount++;
-    } else {
-      error(`Failed to remove label from: ${threadId}${result.error ? ` (${result.error})` : ""}`);
-      failCount++;
+    for (const threadId of options.threadIds) {
+      const result = await removeLabel(provider, threadId, labelId);
+      if (result.success) {
+        success(`Removed label from: ${threadId}`);
+        done.push(threadId);
+        successCount++;
+      } else {
+        error(`Failed to remove label from: ${threadId}${result.error ? ` (${result.error})` : ""}`);
+        failCount++;
+      }
+    }
+
+    if (options.threadIds.length > 1) {
+      log(`\n${successCount} updated, ${failCount} failed`);
     }
+
+    return { done, labelId };
+  });
+  printUndoHint(undo);
+  await provider.disconnect();
+}
+
+/**
+ * Resolve a --label name, path or ID to a label ID, exiting if it can't be resolved.
+ */
+async function resolveLabelOrExit(provider: ConnectionProvider, nameOrId: string): Promise<string> {
+  const resolved = await resolveLabel(provider, nameOrId);
+  if (!resolved.label) {
+    error(resolved.error || `Label "${nameOrId}" not found`);
+    await provider.disconnect();
+    process.exit(1);
+  }
+  return resolved.label.id;
+}
+
+const LABEL_LIFECYCLE_USAGE = `Usage: superhuman label create <name> [--color <color>] [--category]
+       superhuman label rename <label> <new-name>
+       superhuman label move <label> <parent|/>
+       superhuman label recolor <label> --color <color> [--category]
+       superhuman label delete <label> [--category]`;
+
+async function cmdLabelLifecycle(options: CliOptions) {
+  const [target, argument] = options.labelArgs;
+  const needsArgument = options.subcommand === "rename" || options.subcommand === "move";
+  if (!target || (needsArgument && !argument) || (options.subcommand === "recolor" && !options.color)) {
+    error(`Missing arguments for label ${options.subcommand}`);
+    console.log(LABEL_LIFECYCLE_USAGE);
+    process.exit(1);
+  }
+
+  const provider = await getProvider(options);
+  const lifecycle = { category: options.category };
+
+  let result: LabelChangeResult;
+  switch (options.subcommand) {
+    case "create":
+      result = await createLabel(provider, target, { ...lifecycle, color: options.color || undefined });
+      break;
+    case "rename":
+      result = await renameLabel(provider, target, argument!, lifecycle);
+      break;
+    case "move":
+      result = await moveLabel(provider, target, argument === "/" ? "" : argument!);
+      break;
+    case "recolor":
+      result = await recolorLabel(provider, target, options.color, lifecycle);
+      break;
+    default:
+      result = await deleteLabel(provider, target, lifecycle);
+  }
+
+  if (!result.success) {
+    error(result.error || `Failed to ${options.subcommand} label`);
+    await provider.disconnect();
+    process.exit(1);
   }
 
-  if (options.threadIds.length > 1) {
-    log(`\n${successCount} updated, ${failCount} failed`);
+  if (options.json) {
+    console.log(JSON.stringify(result.label ?? { deleted: target }, null, 2));
+  } else if (result.label) {
+    const verb = { create: "Created", rename: "Renamed", move: "Moved", recolor: "Recolored" }[options.subcommand];
+    success(`${verb} ${result.label.type === "category" ? "category" : "label"}: ${result.label.name}`);
+    log(`  ${colors.dim}ID: ${result.label.id}${colors.reset}`);
+  } else {
+    success(`Deleted: ${target}`);
   }
 
   await provider.disconnect();
@@ -2212,25 +3788,31 @@ async function cmdStar(options: CliOptions) {
   }
 
   const provider = await getProvider(options);
+  const undo = await withUndo(provider, "star", options.threadIds, async () => {
+    const done: string[] = [];
 
-  let successCount = 0;
-  let failCount = 0;
+    let successCount = 0;
+    let failCount = 0;
 
-  for (const threadId of options.threadIds) {
-    const result = await starThread(provider, threadId);
-    if (result.success) {
-      success(`Starred thread: ${threadId}`);
-      successCount++;
-    } else {
-      error(`Failed to star thread: ${threadId}${result.error ? ` (${result.error})` : ""}`);
-      failCount++;
+    for (const threadId of options.threadIds) {
+      const result = await starThread(provider, threadId);
+      if (result.success) {
+        success(`Starred thread: ${threadId}`);
+        done.push(threadId);
+        successCount++;
+      } else {
+        error(`Failed to star thread: ${threadId}${result.error ? ` (${result.error})` : ""}`);
+        failCount++;
+      }
     }
-  }
 
-  if (options.threadIds.length > 1) {
-    log(`\n${successCount} starred, ${failCount} failed`);
-  }
+    if (options.threadIds.length > 1) {
+      log(`\n${successCount} starred, ${failCount} failed`);
+    }
 
+    return { done };
+  });
+  printUndoHint(undo);
   await provider.disconnect();
 }
 
@@ -2242,25 +3824,31 @@ async function cmdUnstar(options: CliOptions) {
   }
 
   const provider = await getProvider(options);
+  const undo = await withUndo(provider, "unstar", options.threadIds, async () => {
+    const done: string[] = [];
 
-  let successCount = 0;
-  let failCount = 0;
+    let successCount = 0;
+    let failCount = 0;
 
-  for (const threadId of options.threadIds) {
-    const result = await unstarThread(provider, threadId);
-    if (result.success) {
-      success(`Unstarred thread: ${threadId}`);
-      successCount++;
-    } else {
-      error(`Failed to unstar thread: ${threadId}${result.error ? ` (${result.error})` : ""}`);
-      failCount++;
+    for (const threadId of options.threadIds) {
+      const result = await unstarThread(provider, threadId);
+      if (result.success) {
+        success(`Unstarred thread: ${threadId}`);
+        done.push(threadId);
+        successCount++;
+      } else {
+        error(`Failed to unstar thread: ${threadId}${result.error ? ` (${result.error})` : ""}`);
+        failCount++;
+      }
     }
-  }
 
-  if (options.threadIds.length > 1) {
-    log(`\n${successCount} unstarred, ${failCount} failed`);
-  }
+    if (options.threadIds.length > 1) {
+      log(`\n${successCount} unstarred, ${failCount} failed`);
+    }
 
+    return { done };
+  });
+  printUndoHint(undo);
   await provider.disconnect();
 }
 
@@ -2309,27 +3897,30 @@ async function cmdSnooze(options: CliOptions) {
   }
 
   const provider = await getProvider(options);
-
-  let successCount = 0;
-  let failCount = 0;
-
-  const results = await snoozeThreadViaProvider(provider, options.threadIds, snoozeTime);
-  for (let i = 0; i < options.threadIds.length; i++) {
-    const threadId = options.threadIds[i];
-    const result = results[i];
-    if (result.success) {
-      success(`Snoozed thread: ${threadId} until ${snoozeTime.toLocaleString()}`);
-      successCount++;
-    } else {
-      error(`Failed to snooze thread: ${threadId}${result.error ? ` (${result.error})` : ""}`);
-      failCount++;
+  const undo = await withUndo(provider, "snooze", options.threadIds, async () => {
+    let successCount = 0;
+    let failCount = 0;
+
+    const results = await snoozeThreadViaProvider(provider, options.threadIds, snoozeTime);
+    for (let i = 0; i < options.threadIds.length; i++) {
+      const threadId = options.threadIds[i];
+      const result = results[i];
+      if (result.success) {
+        success(`Snoozed thread: ${threadId} until ${snoozeTime.toLocaleString()}`);
+        successCount++;
+      } else {
+        error(`Failed to snooze thread: ${threadId}${result.error ? ` (${result.error})` : ""}`);
+        failCount++;
+      }
     }
-  }
 
-  if (options.threadIds.length > 1) {
-    log(`\n${successCount} snoozed, ${failCount} failed`);
-  }
+    if (options.threadIds.length > 1) {
+      log(`\n${successCount} snoozed, ${failCount} failed`);
+    }
 
+    return { done: options.threadIds.filter((_, i) => results[i]?.success) };
+  });
+  printUndoHint(undo);
   await provider.disconnect();
 }
 
@@ -2341,27 +3932,30 @@ async function cmdUnsnooze(options: CliOptions) {
   }
 
   const provider = await getProvider(options);
-
-  let successCount = 0;
-  let failCount = 0;
-
-  const results = await unsnoozeThreadViaProvider(provider, options.threadIds);
-  for (let i = 0; i < options.threadIds.length; i++) {
-    const threadId = options.threadIds[i];
-    const result = results[i];
-    if (result.success) {
-      success(`Unsnoozed thread: ${threadId}`);
-      successCount++;
-    } else {
-      error(`Failed to unsnooze thread: ${threadId}${result.error ? ` (${result.error})` : ""}`);
-      failCount++;
+  const undo = await withUndo(provider, "unsnooze", options.threadIds, async () => {
+    let successCount = 0;
+    let failCount = 0;
+
+    const results = await unsnoozeThreadViaProvider(provider, options.threadIds);
+    for (let i = 0; i < options.threadIds.length; i++) {
+      const threadId = options.threadIds[i];
+      const result = results[i];
+      if (result.success) {
+        success(`Unsnoozed thread: ${threadId}`);
+        successCount++;
+      } else {
+        error(`Failed to unsnooze thread: ${threadId}${result.error ? ` (${result.error})` : ""}`);
+        failCount++;
+      }
     }
-  }
 
-  if (options.threadIds.length > 1) {
-    log(`\n${successCount} unsnoozed, ${failCount} failed`);
-  }
+    if (options.threadIds.length > 1) {
+      log(`\n${successCount} unsnoozed, ${failCount} failed`);
+    }
 
+    return { done: options.threadIds.filter((_, i) => results[i]?.success) };
+  });
+  printUndoHint(undo);
   await provider.disconnect();
 }
 
@@ -2389,6 +3983,87 @@ async function cmdSnoozed(options: CliOptions) {
   await provider.disconnect();
 }
 
+/**
+ * Describe a logged operation, e.g. "archive of 2 threads"
+ */
+function describeOperation(operation: Operation): string {
+  const count = operation.bulkRunId ? operation.messageCount ?? 0 : operation.threads.length;
+  const target = operation.bulkRunId
+    ? `${count} message${count === 1 ? "" : "s"} (bulk run ${operation.bulkRunId})`
+    : `${count} thread${count === 1 ? "" : "s"}`;
+  const label = operation.labelId ? ` ${operation.labelId}` : "";
+  return `${operation.kind}${label} of ${target}`;
+}
+
+async function cmdUndo(options: CliOptions) {
+  let operations: Operation[];
+
+  if (options.operationId) {
+    let operation;
+    try {
+      operation = await findOperation(options.operationId);
+    } catch (e: any) {
+      error(e.message || "Unknown error");
+      process.exit(1);
+    }
+    if (!operation) {
+      error(`No operation with ID ${options.operationId}`);
+      console.log(`Usage: superhuman undo [--last <n> | <op-id>]`);
+      process.exit(1);
+    }
+    operations = [operation];
+  } else {
+    const count = options.last || 1;
+    operations = (await listOperations(options.account || undefined))
+      .filter((o) => !o.undoneAt)
+      .slice(0, count);
+    if (operations.length === 0) {
+      info("Nothing to undo");
+      return;
+    }
+  }
+
+  let failCount = 0;
+
+  // Newest first, so overlapping operations unwind in reverse order
+  for (const operation of operations) {
+    const provider = await getProvider({ ...options, account: operation.account });
+    const result = await undoOperation(provider, operation);
+    if (result.success) {
+      success(`Undid ${describeOperation(operation)} (${operation.id})`);
+    } else {
+      error(`Failed to undo ${describeOperation(operation)} (${operation.id}): ${result.error}`);
+      failCount++;
+    }
+    await provider.disconnect();
+  }
+
+  if (failCount > 0) {
+    process.exit(1);
+  }
+}
+
+async function cmdHistory(options: CliOptions) {
+  const operations = await listOperations(options.account || undefined, options.limit);
+
+  if (options.json) {
+    console.log(JSON.stringify(operations, null, 2));
+  } else if (operations.length === 0) {
+    info("No operations recorded");
+  } else {
+    console.log(`${colors.bold}Recent operations:${colors.reset}\n`);
+    for (const operation of operations) {
+      const undone = operation.undoneAt ? ` ${colors.dim}(undone)${colors.reset}` : "";
+      console.log(`  ${colors.cyan}${operation.id}${colors.reset}  ${describeOperation(operation)}${undone}`);
+      console.log(`    ${new Date(operation.createdAt).toLocaleString()}`);
+      if (!operation.bulkRunId) {
+        console.log(`    Threads: ${operation.threads.map((t) => t.threadId).join(", ")}`);
+      }
+      console.log(`    ${colors.dim}Account: ${operation.account}${colors.reset}`);
+    }
+  }
+}
+
 function formatFileSize(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -2952,6 +4627,25 @@ async function cmdCalendarCreate(options: CliOptions) {
     process.exit(1);
   }
 
+  // Determine if this is an all-day event
+  const isAllDay = options.calendarDate && !options.eventStart;
+
+  // Recurring events repeat in a time zone, so they keep their local time across DST changes
+  const timeZone = options.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  let recurrence: string[] | null = null;
+  if (options.repeat) {
+    if (!isTimeZone(timeZone)) {
+      error(`Unknown time zone: ${timeZone}`);
+      process.exit(1);
+    }
+    recurrence = parseRepeat(options.repeat, { allDay: !!isAllDay, timeZone });
+    if (!recurrence) {
+      error(`Invalid --repeat: ${options.repeat}`);
+      info(`Examples: "daily", "weekdays", "weekly on Mon,Wed until 2026-12-31", "every 2 weeks 10 times", "monthly on the last Friday"`);
+      process.exit(1);
+    }
+  }
+
   const provider = await getProvider(options);
 
   const title = options.eventTitle || options.subject;
@@ -2966,9 +4660,6 @@ async function cmdCalendarCreate(options: CliOptions) {
     calendarId = options.calendarArg;
   }
 
-  // Determine if this is an all-day event
-  const isAllDay = options.calendarDate && !options.eventStart;
-
   if (isAllDay) {
     startTime = parseCalendarDate(options.calendarDate);
     endTime = new Date(startTime);
@@ -3001,6 +4692,14 @@ async function cmdCalendarCreate(options: CliOptions) {
       : { dateTime: endTime.toISOString() },
   };
 
+  if (recurrence) {
+    eventInput.recurrence = recurrence;
+    if (!isAllDay) {
+      eventInput.start = toZonedDateTime(startTime, timeZone);
+      eventInput.end = toZonedDateTime(endTime, timeZone);
+    }
+  }
+
   // Add attendees from --to option (resolve names to emails)
   if (options.to.length > 0) {
     const resolvedAttendees = await resolveAllRecipientsViaProvider(provider, options.to);
@@ -3014,14 +4713,28 @@ async function cmdCalendarCreate(options: CliOptions) {
     if (options.json) {
       console.log(JSON.stringify(result, null, 2));
     }
+    await releaseBookedHoldsWithNotice(provider);
   } else {
     error(`Failed to create event: ${result.error}`);
     if (result.error?.includes("no-auth")) {
       info("Calendar write access may not be authorized in Superhuman");
     }
   }
-
-  await provider.disconnect();
+
+  await provider.disconnect();
+}
+
+/**
+ * Validate --scope for calendar update/delete, exiting on unknown values
+ */
+function parseScopeOrExit(options: CliOptions): RecurrenceScope | null {
+  if (!options.scope) return null;
+  const scope = RECURRENCE_SCOPES.find((s) => s === options.scope.toLowerCase());
+  if (!scope) {
+    error(`Invalid --scope: ${options.scope} (expected ${RECURRENCE_SCOPES.join(", ")})`);
+    process.exit(1);
+  }
+  return scope;
 }
 
 async function cmdCalendarUpdate(options: CliOptions) {
@@ -3029,6 +4742,7 @@ async function cmdCalendarUpdate(options: CliOptions) {
     error("Event ID is required (--event)");
     process.exit(1);
   }
+  const scope = parseScopeOrExit(options);
 
   const provider = await getProvider(options);
 
@@ -3065,10 +4779,16 @@ async function cmdCalendarUpdate(options: CliOptions) {
     process.exit(1);
   }
 
-  const result = await updateEvent(provider, options.eventId, updates);
+  const result = scope
+    ? await updateEventInScope(provider, options.eventId, updates, scope)
+    : await updateEvent(provider, options.eventId, updates);
 
   if (result.success) {
-    success(`Event updated: ${result.eventId}`);
+    success(
+      scope === "following" && result.eventId !== options.eventId
+        ? `Updated this and following occurrences (new series): ${result.eventId}`
+        : `Event updated: ${result.eventId}`
+    );
     if (options.json) {
       console.log(JSON.stringify(result, null, 2));
     }
@@ -3082,18 +4802,97 @@ async function cmdCalendarUpdate(options: CliOptions) {
   await provider.disconnect();
 }
 
+async function cmdCalendarRsvp(options: CliOptions) {
+  const response = parseRsvpResponse(options.rsvpResponse);
+  if (!options.eventId || !response) {
+    error(options.eventId ? `Unknown response: ${options.rsvpResponse || "(none)"}` : "Event ID is required");
+    console.log(`Usage: superhuman calendar rsvp <event-id> accept|decline|tentative [--comment <text>]`);
+    process.exit(1);
+  }
+
+  const provider = await getProvider(options);
+
+  const result = await respondToEvent(provider, options.eventId, response, {
+    comment: options.comment || undefined,
+  });
+
+  if (result.success) {
+    success(`Responded ${response}: ${options.eventId}`);
+    if (options.comment) log(`  ${colors.dim}Comment: ${options.comment}${colors.reset}`);
+    if (response === "accepted") await releaseBookedHoldsWithNotice(provider);
+  } else {
+    error(`Failed to respond to event: ${result.error}`);
+    if (result.error?.includes("no-auth")) {
+      info("Calendar write access may not be authorized in Superhuman");
+    }
+  }
+
+  await provider.disconnect();
+}
+
+/**
+ * Format when an invitation starts, e.g. "Tue, Oct 20, 10:00 AM" or "Tue, Oct 20 (all day)"
+ */
+function formatInvitationTime(invitation: Invitation): string {
+  const start = icsDateToDate(invitation.start);
+  if (!start) return "(no time)";
+  const day = start.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" });
+  if (invitation.start.date) return `${day} (all day)`;
+  return `${day}, ${start.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
+}
+
+async function cmdInvites(options: CliOptions) {
+  const provider = await getProvider(options);
+  const invitations = await listInvitations(provider, { limit: options.limit });
+  await provider.disconnect();
+
+  if (options.json) {
+    console.log(JSON.stringify(invitations, null, 2));
+    return;
+  }
+
+  if (invitations.length === 0) {
+    info("No pending invitations");
+    return;
+  }
+
+  for (const invitation of invitations) {
+    console.log(`${colors.cyan}${formatInvitationTime(invitation)}${colors.reset} ${colors.bold}${invitation.summary || "(No title)"}${colors.reset}`);
+    if (invitation.organizer) {
+      const organizer = invitation.organizer.name
+        ? `${invitation.organizer.name} <${invitation.organizer.email}>`
+        : invitation.organizer.email;
+      console.log(`  ${colors.dim}From: ${organizer}${colors.reset}`);
+    }
+    if (invitation.location) {
+      console.log(`  ${colors.dim}Where: ${invitation.location}${colors.reset}`);
+    }
+    if (invitation.eventId) {
+      console.log(`  ${colors.dim}ID: ${invitation.eventId}${colors.reset}`);
+    } else {
+      console.log(`  ${colors.dim}Email: ${invitation.threadId} (not in your calendar)${colors.reset}`);
+    }
+  }
+
+  log(`\n${colors.dim}${invitations.length} pending invitation(s). Respond with: superhuman calendar rsvp <id> accept|decline|tentative${colors.reset}`);
+}
+
 async function cmdCalendarDelete(options: CliOptions) {
   if (!options.eventId) {
     error("Event ID is required (--event)");
     process.exit(1);
   }
+  const scope = parseScopeOrExit(options);
 
   const provider = await getProvider(options);
 
-  const result = await deleteCalendarEvent(provider, options.eventId);
+  const result = scope
+    ? await deleteEventInScope(provider, options.eventId, scope)
+    : await deleteCalendarEvent(provider, options.eventId);
 
   if (result.success) {
-    success(`Event deleted: ${options.eventId}`);
+    const what = scope === "series" ? "Series" : scope === "following" ? "This and following occurrences" : "Event";
+    success(`${what} deleted: ${result.eventId || options.eventId}`);
   } else {
     error(`Failed to delete event: ${result.error}`);
     if (result.error?.includes("no-auth")) {
@@ -3267,6 +5066,317 @@ async function cmdCalendarFree(options: CliOptions) {
   await provider.disconnect();
 }
 
+async function cmdCalendarFindTime(options: CliOptions) {
+  if (options.withAttendees.length === 0) {
+    error("At least one attendee is required (--with)");
+    console.log(`Usage: superhuman calendar find-time --with <emails> [--duration <mins>] [--within <window>] [--working-hours 9-17]`);
+    process.exit(1);
+  }
+
+  const window = parseWithin(options.within || "next 5 days");
+  if (!window) {
+    error(`Invalid --within: ${options.within}`);
+    info(`Use "today", "tomorrow", "this week", "next week", "3 days" or "2026-10-20..2026-10-23"`);
+    process.exit(1);
+  }
+
+  const workingHours = parseWorkingHours(options.workingHours || "9-17");
+  if (!workingHours) {
+    error(`Invalid --working-hours: ${options.workingHours} (expected e.g. 9-17 or 9:30-17:30)`);
+    process.exit(1);
+  }
+
+  if (options.book && !options.eventTitle && !options.subject) {
+    error("Event title is required to book (--title)");
+    process.exit(1);
+  }
+
+  const provider = await getProvider(options);
+  const attendees = await resolveAllRecipientsViaProvider(provider, options.withAttendees);
+
+  const result = await findMeetingTimes(provider, {
+    attendees,
+    durationMinutes: options.eventDuration,
+    timeMin: window.timeMin,
+    timeMax: window.timeMax,
+    workingHours,
+    timeZone: options.timeZone || undefined,
+  });
+
+  if (!result.success) {
+    error(`Failed to find a time: ${result.error}`);
+    await provider.disconnect();
+    process.exit(1);
+  }
+
+  if (options.json && !options.book) {
+    console.log(JSON.stringify(result, null, 2));
+    await provider.disconnect();
+    return;
+  }
+
+  for (const attendee of result.attendees.filter((a) => a.error)) {
+    warn(`Couldn't read ${attendee.email}'s calendar (${attendee.error}); treating them as free`);
+  }
+
+  if (result.slots.length === 0) {
+    info("No common free time in that window. Try a longer --within or wider --working-hours");
+    await provider.disconnect();
+    return;
+  }
+
+  const timeZone = options.timeZone || undefined;
+  const formatSlot = (slot: { start: string; end: string }) => {
+    const start = new Date(slot.start);
+    const end = new Date(slot.end);
+    const day = start.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric", timeZone });
+    const time = (d: Date) => d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", timeZone });
+    return `${day}, ${time(start)} - ${time(end)}`;
+  };
+
+  if (!options.book) {
+    console.log(`\n${colors.bold}Suggested times (${options.eventDuration} min, ${attendees.length + 1} people):${colors.reset}`);
+    result.slots.forEach((slot, i) => {
+      console.log(`  ${colors.cyan}${i + 1}.${colors.reset} ${formatSlot(slot)}`);
+    });
+    log(`\n${colors.dim}Book one with: superhuman calendar find-time ... --title <title> --book <n>${colors.reset}`);
+    await provider.disconnect();
+    return;
+  }
+
+  const slot = result.slots[options.book - 1];
+  if (!slot) {
+    error(`No suggestion #${options.book} (found ${result.slots.length})`);
+    await provider.disconnect();
+    process.exit(1);
+  }
+
+  const booked = await createEvent(provider, {
+    summary: options.eventTitle || options.subject,
+    description: options.body || undefined,
+    start: { dateTime: slot.start },
+    end: { dateTime: slot.end },
+    attendees: attendees.map((email) => ({ email })),
+    sendInvites: true,
+  });
+
+  if (booked.success) {
+    success(`Booked ${formatSlot(slot)}: ${booked.eventId}`);
+    log(`  ${colors.dim}Invites sent to ${attendees.join(", ")}${colors.reset}`);
+    if (options.json) {
+      console.log(JSON.stringify({ ...booked, slot }, null, 2));
+    }
+    await releaseBookedHoldsWithNotice(provider);
+  } else {
+    error(`Failed to book: ${booked.error}`);
+  }
+
+  await provider.disconnect();
+}
+
+/**
+ * Release holds from `calendar propose --hold` once one of the held times is booked
+ *
+ * @param notice - Where to report released holds (default: stdout)
+ */
+async function releaseBookedHoldsWithNotice(
+  provider: ConnectionProvider,
+  notice: (message: string) => void = info
+): Promise<void> {
+  try {
+    for (const { group, booked } of await releaseBookedHolds(provider)) {
+      notice(`Released ${group.holds.length} hold(s) "${group.title}": "${booked.summary || "(No title)"}" was booked`);
+    }
+  } catch (e) {
+    notice(`Could not check holds: ${(e as Error).message}`);
+  }
+}
+
+async function cmdCalendarPropose(options: CliOptions) {
+  const workingHours = parseWorkingHours(options.workingHours || "9-17");
+  if (!workingHours) {
+    error(`Invalid --working-hours: ${options.workingHours} (expected e.g. 9-17 or 9:30-17:30)`);
+    process.exit(1);
+  }
+  if (options.format && options.format !== "text" && options.format !== "html") {
+    error(`Invalid --format: ${options.format} (expected text or html)`);
+    process.exit(1);
+  }
+
+  const provider = await getProvider(options);
+  // stdout is reserved for the availability block
+  await releaseBookedHoldsWithNotice(provider, (message) => console.error(`${colors.blue}ℹ${colors.reset} ${message}`));
+
+  const proposal = await proposeAvailability(provider, {
+    durationMinutes: options.eventDuration,
+    days: options.days,
+    timeZone: options.timeZone || undefined,
+    workingHours,
+    limit: options.limit,
+  });
+
+  if (!proposal.success) {
+    error(`Failed to propose times: ${proposal.error}`);
+    await provider.disconnect();
+    process.exit(1);
+  }
+
+  if (proposal.slots.length === 0) {
+    error(`No free ${options.eventDuration} min slots in the next ${options.days} working days`);
+    await provider.disconnect();
+    return;
+  }
+
+  let holds: Awaited<ReturnType<typeof placeHolds>> | null = null;
+  if (options.hold) {
+    holds = await placeHolds(provider, proposal.slots, options.eventTitle || options.subject || "Hold");
+  }
+  await provider.disconnect();
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...proposal, holds: holds?.group ?? null }, null, 2));
+  } else {
+    // Only the block goes to stdout, so it can be captured into --body or --vars
+    console.log(options.format === "html" ? proposal.html : proposal.text);
+  }
+
+  if (holds?.group) {
+    console.error(`${colors.green}✓${colors.reset} Held ${holds.group.holds.length} slot(s) as "${holds.group.title}" (${holds.group.id}); released when one of them is booked`);
+  }
+  if (holds?.error) {
+    console.error(`${colors.red}✗${colors.reset} ${holds.group ? "Some holds failed" : "Failed to place holds"}: ${holds.error}`);
+  }
+}
+
+async function cmdCalendarHolds(options: CliOptions) {
+  const [action, id] = options.holdArgs;
+  const provider = await getProvider(options);
+
+  if (action === "release") {
+    if (!id) {
+      error("Hold ID is required");
+      log(`Usage: superhuman calendar holds release <hold-id>`);
+      await provider.disconnect();
+      process.exit(1);
+    }
+    const result = await releaseHolds(provider, id);
+    await provider.disconnect();
+    if (result.success) {
+      success(`Released ${result.released} hold(s)${result.group ? ` "${result.group.title}"` : ""}`);
+    } else {
+      error(`Failed to release holds: ${result.error}`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (action) {
+    error(`Unknown holds action: ${action}`);
+    log(`Usage: superhuman calendar holds [release <hold-id>]`);
+    await provider.disconnect();
+    process.exit(1);
+  }
+
+  await releaseBookedHoldsWithNotice(provider);
+  const groups = await listHoldGroups(await provider.getCurrentEmail());
+  await provider.disconnect();
+
+  if (options.json) {
+    console.log(JSON.stringify(groups, null, 2));
+    return;
+  }
+
+  if (groups.length === 0) {
+    info("No holds");
+    return;
+  }
+
+  for (const group of groups) {
+    console.log(`${colors.cyan}${group.id}${colors.reset} ${colors.bold}${group.title}${colors.reset}`);
+    for (const hold of group.holds) {
+      const start = new Date(hold.start);
+      console.log(`  ${colors.dim}${start.toLocaleString()} - ${new Date(hold.end).toLocaleTimeString()}${colors.reset}`);
+    }
+  }
+}
+
+async function cmdCalendarExport(options: CliOptions) {
+  if (options.format && options.format !== "ics") {
+    error(`Invalid --format: ${options.format} (calendar export only supports ics)`);
+    process.exit(1);
+  }
+
+  const timeMin = options.calendarDate ? parseCalendarDate(options.calendarDate) : new Date();
+  timeMin.setHours(0, 0, 0, 0);
+  const timeMax = new Date(timeMin);
+  timeMax.setDate(timeMax.getDate() + options.calendarRange);
+
+  const provider = await getProvider(options);
+  let calendarId: string | null = null;
+  if (options.calendarArg && provider instanceof CDPConnectionProvider) {
+    calendarId = await resolveCalendarId(provider.getConnection(), options.calendarArg);
+  } else if (options.calendarArg) {
+    calendarId = options.calendarArg;
+  }
+
+  const result = await exportEvents(provider, { timeMin, timeMax, calendarId: calendarId || undefined });
+  await provider.disconnect();
+
+  if (!result.success) {
+    error(`Failed to export calendar: ${result.error}`);
+    process.exit(1);
+  }
+
+  if (options.outputPath) {
+    await Bun.write(options.outputPath, result.ics);
+    success(`Exported ${result.count} event(s) to ${options.outputPath}`);
+  } else {
+    process.stdout.write(result.ics);
+  }
+}
+
+async function cmdCalendarImport(options: CliOptions) {
+  if (!options.icsPath) {
+    error("File is required");
+    log(`Usage: superhuman calendar import <file.ics> [--dry-run] [--json]`);
+    process.exit(1);
+  }
+
+  const file = Bun.file(options.icsPath);
+  if (!(await file.exists())) {
+    error(`File not found: ${options.icsPath}`);
+    process.exit(1);
+  }
+
+  const provider = await getProvider(options);
+  const result = await importIcs(provider, await file.text(), { dryRun: options.dryRun });
+  await provider.disconnect();
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else if (result.changes.length === 0) {
+    error(`Failed to import calendar: ${result.error}`);
+  } else {
+    const verbs = options.dryRun
+      ? { create: "Would create", update: "Would update", unchanged: "Unchanged", skip: "Skipped" }
+      : { create: "Created", update: "Updated", unchanged: "Unchanged", skip: "Skipped" };
+    for (const change of result.changes) {
+      const name = change.summary || change.uid;
+      if (change.error) {
+        error(`${name}: ${change.error}`);
+      } else if (change.action === "unchanged" || change.action === "skip") {
+        log(`${colors.dim}${verbs[change.action]}: ${name}${change.reason ? ` (${change.reason})` : ""}${colors.reset}`);
+      } else {
+        success(`${verbs[change.action]}: ${name}`);
+      }
+    }
+    const count = (action: string) => result.changes.filter((c) => c.action === action && !c.error).length;
+    log(`\n${count("create")} created, ${count("update")} updated, ${count("unchanged")} unchanged, ${count("skip")} skipped${options.dryRun ? " (dry run)" : ""}`);
+  }
+
+  if (!result.success) process.exit(1);
+}
+
 async function main() {
   const args = process.argv.slice(2);
 
@@ -3282,6 +5392,7 @@ async function main() {
   }
 
   const options = parseArgs(args);
+  resolveThreadRefs(options);
 
   switch (options.command) {
     case "help":
@@ -3324,6 +5435,26 @@ async function main() {
       await cmdRead(options);
       break;
 
+    case "sync":
+      await cmdSync(options);
+      break;
+
+    case "watch":
+      await cmdWatch(options);
+      break;
+
+    case "tui":
+      await cmdTui(options);
+      break;
+
+    case "invites":
+      await cmdInvites(options);
+      break;
+
+    case "export":
+      await cmdExport(options);
+      break;
+
     case "reply":
       await cmdReply(options);
       break;
@@ -3360,7 +5491,7 @@ async function main() {
       }
       break;
 
-    // label list|get|add|remove
+    // label list|get|add|remove|create|rename|move|recolor|delete
     case "label":
       switch (options.subcommand) {
         case "list":
@@ -3375,9 +5506,16 @@ async function main() {
         case "remove":
           await cmdRemoveLabel(options);
           break;
+        case "create":
+        case "rename":
+        case "move":
+        case "recolor":
+        case "delete":
+          await cmdLabelLifecycle(options);
+          break;
         default:
           error(`Unknown subcommand: label ${options.subcommand || "(none)"}`);
-          log(`Usage: superhuman label list|get|add|remove`);
+          log(`Usage: superhuman label list|get|add|remove|create|rename|move|recolor|delete`);
           process.exit(1);
       }
       break;
@@ -3436,7 +5574,7 @@ async function main() {
       }
       break;
 
-    // calendar list|create|update|delete|free
+    // calendar list|create|update|delete|free|rsvp|find-time|propose|holds|export|import
     case "calendar":
       switch (options.subcommand) {
         case "list":
@@ -3455,9 +5593,27 @@ async function main() {
         case "free":
           await cmdCalendarFree(options);
           break;
+        case "rsvp":
+          await cmdCalendarRsvp(options);
+          break;
+        case "find-time":
+          await cmdCalendarFindTime(options);
+          break;
+        case "propose":
+          await cmdCalendarPropose(options);
+          break;
+        case "holds":
+          await cmdCalendarHolds(options);
+          break;
+        case "export":
+          await cmdCalendarExport(options);
+          break;
+        case "import":
+          await cmdCalendarImport(options);
+          break;
         default:
           error(`Unknown subcommand: calendar ${options.subcommand}`);
-          log(`Usage: superhuman calendar list|create|update|delete|free`);
+          log(`Usage: superhuman calendar list|create|update|delete|free|rsvp|find-time|propose|holds|export|import`);
           process.exit(1);
       }
       break;
@@ -3488,13 +5644,79 @@ async function main() {
         case "use":
           await cmdSnippet(options);
           break;
+        case "create":
+          await cmdSnippetCreate(options);
+          break;
+        case "edit":
+          await cmdSnippetEdit(options);
+          break;
+        case "delete":
+          await cmdSnippetDelete(options);
+          break;
+        case "export":
+          await cmdSnippetExport(options);
+          break;
+        case "import":
+          await cmdSnippetImport(options);
+          break;
         default:
           error(`Unknown subcommand: snippet ${options.subcommand || "(none)"}`);
-          log(`Usage: superhuman snippet list|use`);
+          log(`Usage: superhuman snippet list|use|create|edit|delete|export|import`);
+          process.exit(1);
+      }
+      break;
+
+    // rules run|test
+    case "rules":
+      switch (options.subcommand) {
+        case "run":
+          await cmdRulesRun(options);
+          break;
+        case "test":
+          await cmdRulesTest(options);
+          break;
+        default:
+          error(`Unknown subcommand: rules ${options.subcommand || "(none)"}`);
+          log(`Usage: superhuman rules run|test`);
           process.exit(1);
       }
       break;
 
+    // bulk <action>|resume|list
+    case "bulk":
+      switch (options.subcommand) {
+        case "resume":
+          await cmdBulkResume(options);
+          break;
+        case "list":
+          await cmdBulkList(options);
+          break;
+        default:
+          await cmdBulk(options);
+      }
+      break;
+
+    // undo [--last N | <op-id>]
+    case "undo":
+      await cmdUndo(options);
+      break;
+
+    case "history":
+      await cmdHistory(options);
+      break;
+
+    // scheduled list
+    case "scheduled":
+      switch (options.subcommand) {
+        case "list":
+          await cmdScheduledList(options);
+          break;
+        default:
+          error(`Unknown subcommand: scheduled ${options.subcommand || "(none)"}`);
+          log(`Usage: superhuman scheduled list`);
+          process.exit(1);
+      }
+      break;
 
     // draft create|update|delete|send
     case "draft":
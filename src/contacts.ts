@@ -84,3 +84,29 @@ export async function resolveRecipient(
 
   return recipient;
 }
+
+/**
+ * Resolve a recipient string to a contact, including the display name when
+ * one is known.
+ *
+ * Names are resolved like resolveRecipient(). Email addresses are looked up
+ * in contacts to find their name; when there is no exact match the contact
+ * has the email only.
+ *
+ * @param provider - The connection provider
+ * @param recipient - Email address or name to resolve
+ * @returns The resolved contact; its email is the original input if not resolved
+ */
+export async function resolveRecipientContact(
+  provider: ConnectionProvider,
+  recipient: string
+): Promise<Contact> {
+  if (!recipient.includes("@")) {
+    const first = (await searchContacts(provider, recipient, { limit: 1 }))[0];
+    return first && first.email ? first : { email: recipient };
+  }
+
+  const contacts = await searchContacts(provider, recipient, { limit: 5 });
+  const match = contacts.find((c) => c.email.toLowerCase() === recipient.toLowerCase());
+  return match ? { ...match, email: recipient } : { email: recipient };
+}
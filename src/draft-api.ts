@@ -1,10 +1,13 @@
 /**
  * Direct Superhuman Draft API
  *
- * Creates drafts via /v3/userdata.writeMessage without CDP UI manipulation.
+ * Creates, updates and sends native drafts via /v3/userdata.writeMessage and
+ * /messages/send without CDP UI manipulation. Native drafts show up in
+ * Superhuman's compose UI on every device.
  */
 
 import { SuperhumanConnection } from "./superhuman-api";
+import { apiFetch } from "./http-client";
 
 const SUPERHUMAN_BACKEND = "https://mail.superhuman.com/~backend";
 
@@ -27,16 +30,40 @@ function generateRfc822Id(): string {
   return `<${random}.${uuid}@we.are.superhuman.com>`;
 }
 
+/**
+ * File attached to a native draft in Superhuman's compose UI.
+ * Drafts written by the CLI keep the attachments they already have but
+ * cannot add new ones; files go through Gmail/Outlook drafts instead.
+ */
+export interface DraftAttachment {
+  /** ID the file was uploaded under */
+  uuid: string;
+  name: string;
+  type: string;
+  size: number;
+  inline: boolean;
+  /** Content-ID for inline images referenced as cid:<cid> in the body */
+  cid: string | null;
+}
+
+export type DraftAction = "compose" | "reply" | "forward" | "snippet";
+
 export interface DraftOptions {
   to?: string[];
   cc?: string[];
   bcc?: string[];
   subject?: string;
   body?: string; // HTML body
-  action?: "compose" | "reply" | "forward";
+  action?: DraftAction;
+  /** Snippet name (snippets are drafts with action "snippet") */
+  name?: string | null;
+  /** Share a snippet with the user's Superhuman team */
+  sharedWithTeam?: boolean;
   inReplyToThreadId?: string;
   inReplyToRfc822Id?: string;
   references?: string[];
+  /** ISO time of a pending scheduled send, shown in Superhuman's compose UI */
+  scheduledFor?: string | null;
 }
 
 export interface DraftResult {
@@ -46,6 +73,31 @@ export interface DraftResult {
   error?: string;
 }
 
+/**
+ * A native draft as stored at users/{userId}/threads/{threadId}/messages/{draftId}/draft
+ */
+export interface NativeDraft {
+  id: string;
+  threadId: string;
+  action: DraftAction;
+  name: string | null;
+  sharedWithTeam?: boolean;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  body: string;
+  snippet: string;
+  inReplyToRfc822Id: string | null;
+  references: string[];
+  attachments: DraftAttachment[];
+  clientCreatedAt: string;
+  date: string;
+  rfc822Id: string;
+  scheduledFor: string | null;
+}
+
 export interface UserInfo {
   userId: string;
   email: string;
@@ -114,6 +166,100 @@ export async function getUserInfo(conn: SuperhumanConnection): Promise<UserInfo>
   return value;
 }
 
+// =============================================================================
+// Draft Writes
+// =============================================================================
+
+/**
+ * Build the stored draft value. Fields missing from options keep their
+ * value from `existing`, so an update only changes what was passed.
+ */
+function buildDraftValue(
+  userInfo: UserInfo,
+  threadId: string,
+  draftId: string,
+  options: DraftOptions,
+  existing?: Partial<NativeDraft>
+) {
+  const now = new Date().toISOString();
+  const to = options.to ?? existing?.to ?? [];
+  const cc = options.cc ?? existing?.cc ?? [];
+  const body = options.body ?? existing?.body ?? "";
+  const action = options.action || existing?.action || "compose";
+  const attachments = existing?.attachments ?? [];
+
+  return {
+    id: draftId,
+    threadId: threadId,
+    action,
+    name: options.name !== undefined ? options.name : existing?.name ?? null,
+    ...(action === "snippet" && { sharedWithTeam: options.sharedWithTeam ?? existing?.sharedWithTeam ?? false }),
+    from: existing?.from || `${userInfo.email.split("@")[0]} <${userInfo.email}>`,
+    to,
+    cc,
+    bcc: options.bcc ?? existing?.bcc ?? [],
+    subject: options.subject ?? existing?.subject ?? "",
+    body,
+    snippet: body.replace(/<[^>]*>/g, "").substring(0, 100),
+    inReplyToRfc822Id: options.inReplyToRfc822Id || existing?.inReplyToRfc822Id || null,
+    labelIds: ["DRAFT"],
+    clientCreatedAt: existing?.clientCreatedAt || now,
+    date: now,
+    fingerprint: {
+      to: to.join(","),
+      cc: cc.join(","),
+      attachments: attachments.map((a) => a.uuid).join(","),
+    },
+    lastSessionId: crypto.randomUUID(),
+    quotedContent: "",
+    quotedContentInlined: false,
+    references: options.references ?? existing?.references ?? [],
+    reminder: null,
+    rfc822Id: existing?.rfc822Id || generateRfc822Id(),
+    attachments,
+    scheduledFor: options.scheduledFor !== undefined ? options.scheduledFor : existing?.scheduledFor ?? null,
+    scheduledReplyInterruptedAt: null,
+    schemaVersion: 3,
+    totalComposeSeconds: 0,
+    timeZone: userInfo.timeZone,
+  };
+}
+
+/**
+ * Write the draft value via /v3/userdata.writeMessage.
+ * Creating and updating a draft are the same write; only the IDs differ.
+ */
+async function writeDraft(
+  userInfo: UserInfo,
+  threadId: string,
+  draftId: string,
+  options: DraftOptions,
+  existing?: Partial<NativeDraft>
+): Promise<void> {
+  const requestBody = {
+    writes: [
+      {
+        path: `users/${userInfo.userId}/threads/${threadId}/messages/${draftId}/draft`,
+        value: buildDraftValue(userInfo, threadId, draftId, options, existing),
+      },
+    ],
+  };
+
+  const response = await apiFetch("superhuman", `${SUPERHUMAN_BACKEND}/v3/userdata.writeMessage`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "text/plain;charset=UTF-8",
+      Authorization: `Bearer ${userInfo.token}`,
+    },
+    body: JSON.stringify(requestBody),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`API error ${response.status}: ${text}`);
+  }
+}
+
 /**
  * Core function to create a draft with pre-extracted user info.
  * Can be used with cached credentials (no CDP needed).
@@ -125,73 +271,7 @@ export async function createDraftWithUserInfo(
   try {
     const draftId = generateDraftId();
     const threadId = options.inReplyToThreadId || generateDraftId();
-    const now = new Date().toISOString();
-
-    // Format recipients
-    const formatRecipients = (emails?: string[]): string[] => {
-      if (!emails || emails.length === 0) return [];
-      return emails;
-    };
-
-    const draftValue = {
-      id: draftId,
-      threadId: threadId,
-      action: options.action || "compose",
-      name: null,
-      from: `${userInfo.email.split("@")[0]} <${userInfo.email}>`,
-      to: formatRecipients(options.to),
-      cc: formatRecipients(options.cc),
-      bcc: formatRecipients(options.bcc),
-      subject: options.subject || "",
-      body: options.body || "",
-      snippet: (options.body || "").replace(/<[^>]*>/g, "").substring(0, 100),
-      inReplyToRfc822Id: options.inReplyToRfc822Id || null,
-      labelIds: ["DRAFT"],
-      clientCreatedAt: now,
-      date: now,
-      fingerprint: {
-        to: (options.to || []).join(","),
-        cc: (options.cc || []).join(","),
-        attachments: "",
-      },
-      lastSessionId: crypto.randomUUID(),
-      quotedContent: "",
-      quotedContentInlined: false,
-      references: options.references || [],
-      reminder: null,
-      rfc822Id: generateRfc822Id(),
-      scheduledFor: null,
-      scheduledReplyInterruptedAt: null,
-      schemaVersion: 3,
-      totalComposeSeconds: 0,
-      timeZone: userInfo.timeZone,
-    };
-
-    const requestBody = {
-      writes: [
-        {
-          path: `users/${userInfo.userId}/threads/${threadId}/messages/${draftId}/draft`,
-          value: draftValue,
-        },
-      ],
-    };
-
-    const response = await fetch(`${SUPERHUMAN_BACKEND}/v3/userdata.writeMessage`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "text/plain;charset=UTF-8",
-        Authorization: `Bearer ${userInfo.token}`,
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      const text = await response.text();
-      return {
-        success: false,
-        error: `API error ${response.status}: ${text}`,
-      };
-    }
+    await writeDraft(userInfo, threadId, draftId, options);
 
     return {
       success: true,
@@ -228,67 +308,7 @@ export async function updateDraftDirect(
 ): Promise<DraftResult> {
   try {
     const userInfo = await getUserInfo(conn);
-    const now = new Date().toISOString();
-
-    const draftValue = {
-      id: draftId,
-      threadId: threadId,
-      action: options.action || "compose",
-      name: null,
-      from: `${userInfo.email.split("@")[0]} <${userInfo.email}>`,
-      to: options.to || [],
-      cc: options.cc || [],
-      bcc: options.bcc || [],
-      subject: options.subject || "",
-      body: options.body || "",
-      snippet: (options.body || "").replace(/<[^>]*>/g, "").substring(0, 100),
-      inReplyToRfc822Id: options.inReplyToRfc822Id || null,
-      labelIds: ["DRAFT"],
-      clientCreatedAt: now,
-      date: now,
-      fingerprint: {
-        to: (options.to || []).join(","),
-        cc: (options.cc || []).join(","),
-        attachments: "",
-      },
-      lastSessionId: crypto.randomUUID(),
-      quotedContent: "",
-      quotedContentInlined: false,
-      references: [],
-      reminder: null,
-      rfc822Id: generateRfc822Id(),
-      scheduledFor: null,
-      scheduledReplyInterruptedAt: null,
-      schemaVersion: 3,
-      totalComposeSeconds: 0,
-      timeZone: userInfo.timeZone,
-    };
-
-    const requestBody = {
-      writes: [
-        {
-          path: `users/${userInfo.userId}/threads/${threadId}/messages/${draftId}/draft`,
-          value: draftValue,
-        },
-      ],
-    };
-
-    const response = await fetch(`${SUPERHUMAN_BACKEND}/v3/userdata.writeMessage`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "text/plain;charset=UTF-8",
-        Authorization: `Bearer ${userInfo.token}`,
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      const text = await response.text();
-      return {
-        success: false,
-        error: `API error ${response.status}: ${text}`,
-      };
-    }
+    await writeDraft(userInfo, threadId, draftId, options);
 
     return {
       success: true,
@@ -344,6 +364,8 @@ export interface SendDraftResult {
   success: boolean;
   /** Unix timestamp (ms) when email will be sent */
   sendAt?: number;
+  /** superhuman_id of the outgoing message (identifies a scheduled send) */
+  superhumanId?: string;
   error?: string;
 }
 
@@ -351,79 +373,18 @@ export interface SendDraftResult {
  * Update an existing draft by writing to its draft path with existing IDs.
  * Core function to update a draft with pre-extracted user info.
  * Can be used with cached credentials (no CDP needed).
+ *
+ * @param existing - The draft as currently stored; fields not in options keep these values
  */
 export async function updateDraftWithUserInfo(
   userInfo: UserInfo,
   threadId: string,
   draftId: string,
-  options: DraftOptions
+  options: DraftOptions,
+  existing?: Partial<NativeDraft>
 ): Promise<boolean> {
   try {
-    const now = new Date().toISOString();
-
-    // Format recipients
-    const formatRecipients = (emails?: string[]): string[] => {
-      if (!emails || emails.length === 0) return [];
-      return emails;
-    };
-
-    const draftValue = {
-      id: draftId,
-      threadId: threadId,
-      action: options.action || "compose",
-      name: null,
-      from: `${userInfo.email.split("@")[0]} <${userInfo.email}>`,
-      to: formatRecipients(options.to),
-      cc: formatRecipients(options.cc),
-      bcc: formatRecipients(options.bcc),
-      subject: options.subject || "",
-      body: options.body || "",
-      snippet: (options.body || "").replace(/<[^>]*>/g, "").substring(0, 100),
-      inReplyToRfc822Id: options.inReplyToRfc822Id || null,
-      labelIds: ["DRAFT"],
-      clientCreatedAt: now,
-      date: now,
-      fingerprint: {
-        to: (options.to || []).join(","),
-        cc: (options.cc || []).join(","),
-        attachments: "",
-      },
-      lastSessionId: crypto.randomUUID(),
-      quotedContent: "",
-      quotedContentInlined: false,
-      references: [],
-      reminder: null,
-      rfc822Id: generateRfc822Id(),
-      scheduledFor: null,
-      scheduledReplyInterruptedAt: null,
-      schemaVersion: 3,
-      totalComposeSeconds: 0,
-      timeZone: userInfo.timeZone,
-    };
-
-    const requestBody = {
-      writes: [
-        {
-          path: `users/${userInfo.userId}/threads/${threadId}/messages/${draftId}/draft`,
-          value: draftValue,
-        },
-      ],
-    };
-
-    const response = await fetch(`${SUPERHUMAN_BACKEND}/v3/userdata.writeMessage`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "text/plain;charset=UTF-8",
-        Authorization: `Bearer ${userInfo.token}`,
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`API error ${response.status}: ${text}`);
-    }
-
+    await writeDraft(userInfo, threadId, draftId, options, existing);
     return true;
   } catch (error) {
     throw new Error(
@@ -454,7 +415,7 @@ export async function deleteDraftWithUserInfo(
       ],
     };
 
-    const response = await fetch(`${SUPERHUMAN_BACKEND}/v3/userdata.writeMessage`, {
+    const response = await apiFetch("superhuman", `${SUPERHUMAN_BACKEND}/v3/userdata.writeMessage`, {
       method: "POST",
       headers: {
         "Content-Type": "text/plain;charset=UTF-8",
@@ -533,7 +494,7 @@ export async function sendDraftSuperhuman(
       is_multi_recipient: options.to.length > 1,
     };
 
-    const response = await fetch(`${SUPERHUMAN_BACKEND}/messages/send`, {
+    const response = await apiFetch("superhuman", `${SUPERHUMAN_BACKEND}/messages/send`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -554,6 +515,7 @@ export async function sendDraftSuperhuman(
     return {
       success: true,
       sendAt: data.send_at,
+      superhumanId,
     };
   } catch (error) {
     return {
@@ -0,0 +1,413 @@
+/**
+ * Export Module
+ *
+ * Exports threads as raw .eml files, a single mbox, Markdown, or
+ * self-contained HTML suited to "Print to PDF". Messages are fetched as raw
+ * RFC 822 (Gmail format=raw, MS Graph $value) so attachments come along.
+ */
+
+import { appendFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import type { ConnectionProvider } from "./connection-provider";
+import { htmlToPlainText, parseMimeMessage, type ParsedMimeMessage } from "./mime";
+import {
+  getConversationMessageIds,
+  getRawMessageDirect,
+  gmailFetch,
+  msgraphFetch,
+  type TokenInfo,
+} from "./token-api";
+
+export type ExportFormat = "eml" | "mbox" | "md" | "pdf-ready-html";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["eml", "mbox", "md", "pdf-ready-html"];
+
+/**
+ * A message downloaded for export
+ */
+export interface ExportedMessage {
+  id: string;
+  /** Raw RFC 822 bytes */
+  raw: Uint8Array;
+  parsed: ParsedMimeMessage;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Directory to write into (created if missing) */
+  outputDir: string;
+  /** mbox file name without extension (default: thread ID, or "export" for several threads) */
+  name?: string;
+  /** Called after each thread is written */
+  onThread?: (threadId: string, messageCount: number) => void;
+}
+
+export interface ExportResult {
+  success: boolean;
+  threads: number;
+  messages: number;
+  /** Files written (one mbox, or one entry per .eml/.md/.html) */
+  files: string[];
+  error?: string;
+}
+
+// ============================================================================
+// Fetching
+// ============================================================================
+
+/**
+ * Download every message in a thread as raw RFC 822, oldest first.
+ */
+export async function fetchThreadMessages(
+  token: TokenInfo,
+  threadId: string
+): Promise<ExportedMessage[]> {
+  let messageIds: string[];
+  if (token.isMicrosoft) {
+    messageIds = await getConversationMessageIds(token, threadId);
+  } else {
+    const thread = await gmailFetch(token.accessToken, `/threads/${threadId}?format=minimal`);
+    messageIds = (thread?.messages || []).map((m: { id: string }) => m.id);
+  }
+
+  const messages: ExportedMessage[] = [];
+  for (const id of messageIds) {
+    const raw = await getRawMessageDirect(token, id);
+    if (!raw) {
+      throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+    }
+    messages.push({ id, raw, parsed: parseMimeMessage(raw) });
+  }
+
+  // MS Graph doesn't guarantee conversation order
+  return messages.sort((a, b) => messageTime(a) - messageTime(b));
+}
+
+function messageTime(message: ExportedMessage): number {
+  const time = new Date(message.parsed.headers.date || "").getTime();
+  return isNaN(time) ? 0 : time;
+}
+
+/**
+ * Find thread IDs matching a search query, following result pages.
+ * Unlike searchInbox this doesn't fetch thread summaries, so it scales to
+ * whole labels and folders.
+ *
+ * @param token - Token info
+ * @param query - Gmail search query, or MS Graph $search text
+ * @param limit - Maximum number of threads (Infinity for all)
+ */
+export async function findThreadIds(
+  token: TokenInfo,
+  query: string,
+  limit: number
+): Promise<string[]> {
+  const ids = new Set<string>();
+
+  if (token.isMicrosoft) {
+    let path: string | undefined =
+      `/me/messages?$search="${encodeURIComponent(query)}"&$select=id,conversationId&$top=100`;
+    while (path && ids.size < limit) {
+      const page = await msgraphFetch(token.accessToken, path);
+      if (!page) break;
+      for (const msg of page.value || []) {
+        if (ids.size >= limit) break;
+        ids.add(msg.conversationId);
+      }
+      path = page["@odata.nextLink"]?.replace("https://graph.microsoft.com/v1.0", "");
+    }
+  } else {
+    let pageToken = "";
+    do {
+      const maxResults = Math.min(500, limit - ids.size);
+      const page = await gmailFetch(
+        token.accessToken,
+        `/threads?q=${encodeURIComponent(query)}&maxResults=${maxResults}${pageToken ? `&pageToken=${pageToken}` : ""}`
+      );
+      if (!page) break;
+      for (const thread of page.threads || []) {
+        ids.add(thread.id);
+      }
+      pageToken = page.nextPageToken || "";
+    } while (pageToken && ids.size < limit);
+  }
+
+  return Array.from(ids).slice(0, limit);
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/** asctime() format used on mbox "From " lines, in UTC */
+function asctime(date: Date): string {
+  const day = String(date.getUTCDate()).padStart(2, " ");
+  const time = date.toISOString().slice(11, 19);
+  return `${DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${day} ${time} ${date.getUTCFullYear()}`;
+}
+
+/**
+ * Format one message as an mboxrd entry: a "From " separator line, the
+ * message with LF line endings and ">From " quoting, and a blank line.
+ */
+export function toMboxEntry(message: ExportedMessage): Uint8Array {
+  const sender = message.parsed.headers.from?.match(/<([^>]+)>/)?.[1]
+    || message.parsed.headers.from?.trim()
+    || "MAILER-DAEMON";
+  const time = messageTime(message);
+  const separator = `From ${sender} ${asctime(time ? new Date(time) : new Date())}\n`;
+
+  // latin1 keeps 8-bit bytes intact through the string round trip
+  let body = Buffer.from(message.raw).toString("latin1")
+    .replace(/\r\n/g, "\n")
+    .replace(/^(>*From )/gm, ">$1");
+  if (!body.endsWith("\n")) body += "\n";
+
+  return new Uint8Array(Buffer.from(`${separator}${body}\n`, "latin1"));
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Make a string safe to use as a file name.
+ */
+export function safeFileName(name: string): string {
+  return name.replace(/[\/\\:*?"<>|\x00-\x1f]+/g, "_").trim().slice(0, 120) || "untitled";
+}
+
+/**
+ * Links to a message's saved attachments, relative to the thread file
+ */
+type AttachmentLinks = Array<{ name: string; path: string }>;
+
+const HEADER_FIELDS: Array<[string, string]> = [
+  ["from", "From"],
+  ["to", "To"],
+  ["cc", "Cc"],
+  ["date", "Date"],
+];
+
+/**
+ * Render a thread as Markdown.
+ *
+ * @param messages - Thread messages, oldest first
+ * @param attachments - Saved attachments per message (same order as messages)
+ */
+export function renderThreadMarkdown(messages: ExportedMessage[], attachments: AttachmentLinks[]): string {
+  const subject = messages[0]?.parsed.headers.subject || "(no subject)";
+  const sections = messages.map((message, i) => {
+    const { headers, text, html } = message.parsed;
+    const lines = HEADER_FIELDS
+      .filter(([key]) => headers[key])
+      .map(([key, label]) => `**${label}:** ${headers[key]}  `);
+
+    const body = (text ?? htmlToPlainText(html ?? "")).replace(/\r\n/g, "\n").trim();
+    lines.push("", body || "_(no content)_");
+
+    const files = attachments[i] || [];
+    if (files.length > 0) {
+      lines.push("", "**Attachments:**");
+      for (const file of files) {
+        lines.push(`- [${file.name}](${encodeURI(file.path)})`);
+      }
+    }
+    return lines.join("\n");
+  });
+
+  return `# ${subject}\n\n${sections.join("\n\n---\n\n")}\n`;
+}
+
+const PRINT_STYLES = `
+  @page { margin: 18mm; }
+  body { font: 11pt/1.45 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #111; max-width: 820px; margin: 0 auto; }
+  h1 { font-size: 16pt; margin: 0 0 16px; }
+  .message + .message { border-top: 1px solid #ccc; margin-top: 24px; padding-top: 16px; }
+  .headers { border-collapse: collapse; margin-bottom: 12px; break-inside: avoid; }
+  .headers th { text-align: left; color: #555; font-weight: 600; padding: 0 10px 2px 0; vertical-align: top; white-space: nowrap; }
+  .body img { max-width: 100%; height: auto; }
+  .body pre { white-space: pre-wrap; font: inherit; }
+  .attachments { margin-top: 12px; color: #555; }
+  @media print { a { color: inherit; } }
+`;
+
+/**
+ * Reduce an email's HTML to printable body markup: drop the document
+ * wrapper, scripts and event handlers, and embed cid: images as data URIs.
+ */
+function printableBody(parsed: ParsedMimeMessage): string {
+  if (parsed.html === undefined) {
+    return `<pre>${escapeHtml(parsed.text ?? "")}</pre>`;
+  }
+
+  const cids = new Map(
+    parsed.attachments
+      .filter((a) => a.contentId)
+      .map((a) => [a.contentId!, `data:${a.contentType || "application/octet-stream"};base64,${Buffer.from(a.data).toString("base64")}`])
+  );
+
+  return parsed.html
+    .replace(/<(script|head|title)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<\/?(html|body|!doctype)[^>]*>/gi, "")
+    .replace(/\son\w+\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, "")
+    .replace(/(["'])cid:([^"']+)\1/gi, (match, quote: string, cid: string) => {
+      const uri = cids.get(cid);
+      return uri ? `${quote}${uri}${quote}` : match;
+    });
+}
+
+/**
+ * Render a thread as a standalone HTML document laid out for printing to PDF.
+ *
+ * @param messages - Thread messages, oldest first
+ * @param attachments - Saved attachments per message (same order as messages)
+ */
+export function renderThreadHtml(messages: ExportedMessage[], attachments: AttachmentLinks[]): string {
+  const subject = escapeHtml(messages[0]?.parsed.headers.subject || "(no subject)");
+  const sections = messages.map((message, i) => {
+    const { headers } = message.parsed;
+    const rows = HEADER_FIELDS
+      .filter(([key]) => headers[key])
+      .map(([key, label]) => `<tr><th>${label}</th><td>${escapeHtml(headers[key]!)}</td></tr>`)
+      .join("");
+
+    const files = attachments[i] || [];
+    const links = files.length > 0
+      ? `<div class="attachments">Attachments: ${files.map((f) => `<a href="${escapeHtml(encodeURI(f.path))}">${escapeHtml(f.name)}</a>`).join(", ")}</div>`
+      : "";
+
+    return `<section class="message">\n<table class="headers">${rows}</table>\n<div class="body">${printableBody(message.parsed)}</div>\n${links}\n</section>`;
+  });
+
+  return [
+    "<!DOCTYPE html>",
+    `<html><head><meta charset="utf-8"><title>${subject}</title><style>${PRINT_STYLES}</style></head>`,
+    `<body>\n<h1>${subject}</h1>\n${sections.join("\n")}\n</body></html>`,
+    "",
+  ].join("\n");
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Write each message's attachments into dir/attachments.
+ * Inline cid: images are skipped for HTML, which embeds them instead.
+ */
+async function saveAttachments(
+  dir: string,
+  messages: ExportedMessage[],
+  format: ExportFormat
+): Promise<AttachmentLinks[]> {
+  const links: AttachmentLinks[] = [];
+  const used = new Set<string>();
+
+  for (const [i, message] of messages.entries()) {
+    const saved: AttachmentLinks = [];
+    for (const att of message.parsed.attachments) {
+      if (format === "pdf-ready-html" && att.contentId) continue;
+
+      // A message can carry several attachments with the same name
+      const baseName = `${String(i + 1).padStart(2, "0")}-${safeFileName(att.filename)}`;
+      let fileName = baseName;
+      for (let n = 2; used.has(fileName); n++) {
+        fileName = baseName.replace(/(\.[^.]*)?$/, `-${n}$1`);
+      }
+      used.add(fileName);
+
+      await mkdir(join(dir, "attachments"), { recursive: true });
+      await Bun.write(join(dir, "attachments", fileName), att.data);
+      saved.push({ name: att.filename, path: `attachments/${fileName}` });
+    }
+    links.push(saved);
+  }
+
+  return links;
+}
+
+/**
+ * Export threads to disk.
+ *
+ * Layout under outputDir:
+ *   eml             <thread-id>/01.eml, 02.eml, ...
+ *   mbox            <name>.mbox (all threads in one file)
+ *   md              <thread-id>/thread.md + attachments/
+ *   pdf-ready-html  <thread-id>/thread.html + attachments/
+ *
+ * @param provider - Connection provider for the account
+ * @param threadIds - Threads to export
+ * @param options - Format and destination
+ */
+export async function exportThreads(
+  provider: ConnectionProvider,
+  threadIds: string[],
+  options: ExportOptions
+): Promise<ExportResult> {
+  const result: ExportResult = { success: true, threads: 0, messages: 0, files: [] };
+
+  try {
+    const token = await provider.getToken();
+    await mkdir(options.outputDir, { recursive: true });
+
+    let mboxPath = "";
+    if (options.format === "mbox") {
+      const name = options.name || (threadIds.length === 1 ? threadIds[0]! : "export");
+      mboxPath = join(options.outputDir, `${safeFileName(name)}.mbox`);
+      await Bun.write(mboxPath, "");
+      result.files.push(mboxPath);
+    }
+
+    for (const threadId of threadIds) {
+      const messages = await fetchThreadMessages(token, threadId);
+      if (messages.length === 0) {
+        throw new Error(`Thread ${threadId} not found`);
+      }
+
+      const threadDir = join(options.outputDir, safeFileName(threadId));
+      switch (options.format) {
+        case "mbox":
+          for (const message of messages) {
+            await appendFile(mboxPath, toMboxEntry(message));
+          }
+          break;
+        case "eml":
+          await mkdir(threadDir, { recursive: true });
+          for (const [i, message] of messages.entries()) {
+            const path = join(threadDir, `${String(i + 1).padStart(2, "0")}.eml`);
+            await Bun.write(path, message.raw);
+            result.files.push(path);
+          }
+          break;
+        case "md":
+        case "pdf-ready-html": {
+          await mkdir(threadDir, { recursive: true });
+          const links = await saveAttachments(threadDir, messages, options.format);
+          const path = join(threadDir, options.format === "md" ? "thread.md" : "thread.html");
+          await Bun.write(
+            path,
+            options.format === "md" ? renderThreadMarkdown(messages, links) : renderThreadHtml(messages, links)
+          );
+          result.files.push(path);
+          break;
+        }
+      }
+
+      result.threads += 1;
+      result.messages += messages.length;
+      options.onThread?.(threadId, messages.length);
+    }
+
+    return result;
+  } catch (e: any) {
+    return { ...result, success: false, error: e.message || "Unknown error" };
+  }
+}
@@ -0,0 +1,671 @@
+/**
+ * History Module
+ *
+ * Local log of mutating thread operations (archive, delete, mark read/unread,
+ * label add/remove, star/unstar, snooze/unsnooze) together with the state each
+ * thread was in before the operation. Undoing an operation restores that state
+ * through the same modifyThreadLabels / moveMessageToFolder / updateMessage
+ * calls the operations themselves use.
+ *
+ * Bulk runs work on messages rather than threads; each run is logged as one
+ * operation, and the snapshots of the messages it changed are appended batch
+ * by batch to a file of their own in operation-log/.
+ *
+ * The log is stored in operation-log.json in the config directory and keeps
+ * the most recent MAX_OPERATIONS entries.
+ */
+
+import { appendFile, mkdir, rm } from "node:fs/promises";
+import { gmailBatch, msgraphBatch } from "./batch";
+import type { ConnectionProvider } from "./connection-provider";
+import {
+  batchModifyMessagesDirect,
+  getConfigDirPath,
+  gmailFetch,
+  GMAIL_BATCH_MODIFY_LIMIT,
+  listConversationMessagesMsGraph,
+  modifyThreadLabels,
+  moveMessageToFolder,
+  updateMessage,
+  type TokenInfo,
+} from "./token-api";
+import {
+  listSnoozedDirect,
+  snoozeThreadViaProvider,
+  unsnoozeThreadViaProvider,
+} from "./snooze";
+
+export type OperationKind =
+  | "archive"
+  | "delete"
+  | "read"
+  | "unread"
+  | "star"
+  | "unstar"
+  | "label"
+  | "unlabel"
+  | "snooze"
+  | "unsnooze";
+
+/**
+ * State of one MS Graph message before an operation.
+ * Messages get a new ID when moved, so they are matched by internetMessageId.
+ */
+export interface MessageState {
+  internetMessageId: string;
+  parentFolderId: string;
+  isRead: boolean;
+  flagStatus: string;
+  /** Outlook category names on the message */
+  categories?: string[];
+}
+
+export interface ThreadSnapshot {
+  threadId: string;
+  /** Gmail: label IDs on the thread before the operation */
+  labelIds?: string[];
+  /** MS Graph: state of each message in the conversation before the operation */
+  messages?: MessageState[];
+  /** Snooze time (ISO) the thread had before the operation, if it was snoozed */
+  snoozedUntil?: string;
+}
+
+/**
+ * State of one message before a bulk operation
+ */
+export interface MessageSnapshot {
+  messageId: string;
+  /** Gmail: which of the labels the operation touches the message had */
+  labelIds?: string[];
+  /** MS Graph: state of the message */
+  state?: MessageState;
+}
+
+export interface Operation {
+  id: string;
+  account: string;
+  kind: OperationKind;
+  /** Label ID for label/unlabel */
+  labelId?: string;
+  createdAt: number;
+  /** Threads the operation succeeded on, with their previous state */
+  threads: ThreadSnapshot[];
+  /** Bulk run the operation was logged for */
+  bulkRunId?: string;
+  /** Number of messages a bulk run succeeded on; see loadBulkSnapshots */
+  messageCount?: number;
+  /** When the operation was undone */
+  undoneAt?: number;
+}
+
+export interface UndoResult {
+  success: boolean;
+  /** Thread IDs (message IDs for bulk runs) whose previous state was restored */
+  restored: string[];
+  error?: string;
+}
+
+/** Number of operations kept in the log */
+const MAX_OPERATIONS = 200;
+
+const SNOOZE_KINDS: OperationKind[] = ["snooze", "unsnooze"];
+
+// ============================================================================
+// Log
+// ============================================================================
+
+/**
+ * Get the path of the operation log
+ */
+export function getOperationLogPath(): string {
+  return `${getConfigDirPath()}/operation-log.json`;
+}
+
+async function loadLog(): Promise<Operation[]> {
+  const file = Bun.file(getOperationLogPath());
+  if (!(await file.exists())) return [];
+  try {
+    return (await file.json()) as Operation[];
+  } catch {
+    return [];
+  }
+}
+
+function bulkSnapshotsPath(operationId: string): string {
+  return `${getConfigDirPath()}/operation-log/${operationId}.jsonl`;
+}
+
+async function saveLog(entries: Operation[]): Promise<void> {
+  await mkdir(getConfigDirPath(), { recursive: true });
+  await Bun.write(getOperationLogPath(), JSON.stringify(entries.slice(-MAX_OPERATIONS), null, 2));
+
+  for (const dropped of entries.slice(0, -MAX_OPERATIONS)) {
+    if (dropped.bulkRunId) await rm(bulkSnapshotsPath(dropped.id), { force: true });
+  }
+}
+
+function newOperationId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Append an operation to the log.
+ *
+ * @param entry - The operation without ID and timestamp
+ * @returns The recorded operation
+ */
+export async function recordOperation(
+  entry: Omit<Operation, "id" | "createdAt" | "undoneAt">
+): Promise<Operation> {
+  const operation: Operation = { id: newOperationId(), createdAt: Date.now(), ...entry };
+  const entries = await loadLog();
+  entries.push(operation);
+  await saveLog(entries);
+  return operation;
+}
+
+/**
+ * Add the messages one batch of a bulk run changed to the run's operation,
+ * creating the operation on the run's first batch. The snapshots are
+ * appended to the operation's own file, so the log only grows by a count.
+ *
+ * @param entry - The operation without ID, timestamp and snapshots
+ * @param messages - Snapshots of the messages the batch changed
+ * @returns The updated operation
+ */
+export async function recordBulkMessages(
+  entry: Omit<Operation, "id" | "createdAt" | "undoneAt" | "threads" | "messageCount"> & { bulkRunId: string },
+  messages: MessageSnapshot[]
+): Promise<Operation> {
+  const entries = await loadLog();
+  let operation = entries.find((e) => e.bulkRunId === entry.bulkRunId);
+  if (!operation) {
+    operation = { id: newOperationId(), createdAt: Date.now(), ...entry, threads: [], messageCount: 0 };
+    entries.push(operation);
+  }
+
+  await mkdir(`${getConfigDirPath()}/operation-log`, { recursive: true });
+  await appendFile(bulkSnapshotsPath(operation.id), messages.map((m) => JSON.stringify(m) + "\n").join(""));
+  operation.messageCount = (operation.messageCount ?? 0) + messages.length;
+  await saveLog(entries);
+  return operation;
+}
+
+/**
+ * Load the message snapshots recorded for a bulk run's operation.
+ */
+export async function loadBulkSnapshots(operation: Operation): Promise<MessageSnapshot[]> {
+  const file = Bun.file(bulkSnapshotsPath(operation.id));
+  if (!(await file.exists())) return [];
+  return (await file.text())
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as MessageSnapshot);
+}
+
+/**
+ * List logged operations, newest first.
+ *
+ * @param account - Only list operations on this account
+ * @param limit - Maximum number of operations to return
+ */
+export async function listOperations(account?: string, limit?: number): Promise<Operation[]> {
+  const entries = (await loadLog())
+    .filter((e) => !account || e.account.toLowerCase() === account.toLowerCase())
+    .reverse();
+  return limit ? entries.slice(0, limit) : entries;
+}
+
+/**
+ * Find a logged operation by ID or unique ID prefix.
+ */
+export async function findOperation(id: string): Promise<Operation | null> {
+  const entries = await loadLog();
+  const exact = entries.find((e) => e.id === id);
+  if (exact) return exact;
+
+  const matches = entries.filter((e) => e.id.startsWith(id));
+  if (matches.length > 1) {
+    throw new Error(`Ambiguous operation ID: ${id}`);
+  }
+  return matches[0] ?? null;
+}
+
+async function markUndone(id: string): Promise<void> {
+  const entries = await loadLog();
+  const entry = entries.find((e) => e.id === id);
+  if (entry) {
+    entry.undoneAt = Date.now();
+    await saveLog(entries);
+  }
+}
+
+// ============================================================================
+// Snapshots
+// ============================================================================
+
+const MESSAGE_STATE_FIELDS = "internetMessageId,parentFolderId,isRead,flag,categories";
+
+function toMessageState(m: any): MessageState {
+  return {
+    internetMessageId: m.internetMessageId,
+    parentFolderId: m.parentFolderId,
+    isRead: !!m.isRead,
+    flagStatus: m.flag?.flagStatus || "notFlagged",
+    categories: m.categories || [],
+  };
+}
+
+async function getGmailThreadLabelIds(token: TokenInfo, threadId: string): Promise<string[]> {
+  const thread = await gmailFetch(token.accessToken, `/threads/${threadId}?format=minimal`);
+  if (!thread?.messages) {
+    throw new Error(`Thread ${threadId} not found`);
+  }
+
+  const labelIds = new Set<string>();
+  for (const message of thread.messages) {
+    for (const labelId of message.labelIds || []) {
+      labelIds.add(labelId);
+    }
+  }
+  return [...labelIds];
+}
+
+async function getConversationState(
+  token: TokenInfo,
+  conversationId: string
+): Promise<Array<MessageState & { id: string }>> {
+  const messages = await listConversationMessagesMsGraph(token, conversationId, `id,${MESSAGE_STATE_FIELDS}`);
+  return messages.map((m) => ({ id: m.id, ...toMessageState(m) }));
+}
+
+/**
+ * Capture the state of threads before an operation so it can be undone.
+ *
+ * @param provider - The connection provider
+ * @param kind - The operation about to run
+ * @param threadIds - Threads the operation will touch
+ * @returns One snapshot per thread, in order
+ */
+export async function captureSnapshots(
+  provider: ConnectionProvider,
+  kind: OperationKind,
+  threadIds: string[]
+): Promise<ThreadSnapshot[]> {
+  const token = await provider.getToken();
+
+  if (SNOOZE_KINDS.includes(kind)) {
+    if (!token.idToken) return threadIds.map((threadId) => ({ threadId }));
+    const snoozed = await listSnoozedDirect({ token: token.idToken, email: token.email }, 200);
+    return threadIds.map((threadId) => ({
+      threadId,
+      snoozedUntil: snoozed.find((t) => t.id === threadId)?.snoozeUntil,
+    }));
+  }
+
+  const snapshots: ThreadSnapshot[] = [];
+  for (const threadId of threadIds) {
+    if (token.isMicrosoft) {
+      const messages = await getConversationState(token, threadId);
+      snapshots.push({
+        threadId,
+        messages: messages.map(({ id: _id, ...state }) => state),
+      });
+    } else {
+      snapshots.push({ threadId, labelIds: await getGmailThreadLabelIds(token, threadId) });
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * Capture the state of messages before one batch of a bulk run.
+ * Messages whose state can't be read are left out.
+ *
+ * @param token - Token of the run's account
+ * @param kind - The operation about to run
+ * @param messageIds - Messages the batch will touch
+ * @param labelId - Label ID for label/unlabel
+ */
+export async function captureMessageSnapshots(
+  token: TokenInfo,
+  kind: OperationKind,
+  messageIds: string[],
+  labelId?: string
+): Promise<MessageSnapshot[]> {
+  if (token.isMicrosoft) {
+    const responses = await msgraphBatch(
+      token,
+      messageIds.map((id) => ({ method: "GET", path: `/me/messages/${id}?$select=${MESSAGE_STATE_FIELDS}` }))
+    );
+    if (!responses) {
+      throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+    }
+    return messageIds.flatMap((messageId, i) =>
+      responses[i]?.status === 200 ? [{ messageId, state: toMessageState(responses[i]!.body) }] : []
+    );
+  }
+
+  const touched = touchedLabelIds(kind, labelId);
+  const responses = await gmailBatch(
+    token,
+    messageIds.map((id) => ({ method: "GET", path: `/messages/${id}?format=minimal` }))
+  );
+  if (!responses) {
+    throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+  }
+  // Only the touched labels matter for undo, which keeps the log small
+  return messageIds.flatMap((messageId, i) => {
+    if (responses[i]?.status !== 200) return [];
+    const labelIds: string[] = responses[i]!.body?.labelIds || [];
+    return [{ messageId, labelIds: labelIds.filter((l) => touched.includes(l)) }];
+  });
+}
+
+// ============================================================================
+// Logged runs
+// ============================================================================
+
+/**
+ * What a run passed to withUndo reports back
+ */
+export interface UndoableRun {
+  /** Threads the run succeeded on; only these are logged */
+  done: string[];
+  /** Label ID for label/unlabel */
+  labelId?: string;
+}
+
+export interface UndoLog {
+  /** The logged operation, or null when nothing was logged */
+  operation: Operation | null;
+  /** Why undo information couldn't be captured or recorded */
+  undoError?: string;
+}
+
+/**
+ * Run a mutating operation and log it so it can be undone: the threads'
+ * state is captured first, then the operation is recorded for the threads
+ * it succeeded on. Failing to capture or record undo information never
+ * fails the run; it is reported in undoError instead.
+ *
+ * @param provider - Connection provider for the account
+ * @param kind - The operation about to run
+ * @param threadIds - Threads the operation will touch
+ * @param run - Applies the operation
+ * @returns The run's result together with the logged operation
+ */
+export async function withUndo<T extends UndoableRun>(
+  provider: ConnectionProvider,
+  kind: OperationKind,
+  threadIds: string[],
+  run: () => Promise<T>
+): Promise<T & UndoLog> {
+  let snapshots: ThreadSnapshot[] | null = null;
+  let undoError: string | undefined;
+  try {
+    snapshots = await captureSnapshots(provider, kind, threadIds);
+  } catch (e: any) {
+    undoError = e.message || "Unknown error";
+  }
+
+  const result = await run();
+  if (!snapshots || result.done.length === 0) {
+    return { ...result, operation: null, undoError };
+  }
+
+  try {
+    const token = await provider.getToken();
+    const operation = await recordOperation({
+      account: token.email,
+      kind,
+      labelId: result.labelId,
+      threads: snapshots.filter((s) => result.done.includes(s.threadId)),
+    });
+    return { ...result, operation };
+  } catch (e: any) {
+    return { ...result, operation: null, undoError: e.message || "Unknown error" };
+  }
+}
+
+// ============================================================================
+// Undo
+// ============================================================================
+
+/**
+ * Gmail labels an operation adds or removes
+ */
+function touchedLabelIds(kind: OperationKind, labelId?: string): string[] {
+  switch (kind) {
+    case "archive":
+      return ["INBOX"];
+    case "delete":
+      return ["INBOX", "TRASH"];
+    case "read":
+    case "unread":
+      return ["UNREAD"];
+    case "star":
+    case "unstar":
+      return ["STARRED"];
+    case "label":
+    case "unlabel":
+      return labelId ? [labelId] : [];
+    default:
+      return [];
+  }
+}
+
+async function restoreGmailThread(
+  token: TokenInfo,
+  operation: Operation,
+  snapshot: ThreadSnapshot
+): Promise<void> {
+  const before = new Set(snapshot.labelIds || []);
+  const touched = touchedLabelIds(operation.kind, operation.labelId);
+  const add = touched.filter((labelId) => before.has(labelId));
+  const remove = touched.filter((labelId) => !before.has(labelId));
+
+  if (!(await modifyThreadLabels(token, snapshot.threadId, add, remove))) {
+    throw new Error("Failed to restore labels");
+  }
+}
+
+function sameCategories(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((name) => b.includes(name));
+}
+
+async function restoreMsgraphThread(
+  token: TokenInfo,
+  operation: Operation,
+  snapshot: ThreadSnapshot
+): Promise<void> {
+  const current = await getConversationState(token, snapshot.threadId);
+  const byInternetMessageId = new Map(current.map((m) => [m.internetMessageId, m]));
+
+  for (const before of snapshot.messages || []) {
+    const now = byInternetMessageId.get(before.internetMessageId);
+    // Permanently deleted since the operation; nothing left to restore
+    if (!now) continue;
+    await restoreMsgraphMessage(token, operation.kind, before, now);
+  }
+}
+
+async function restoreMsgraphMessage(
+  token: TokenInfo,
+  kind: OperationKind,
+  before: MessageState,
+  now: MessageState & { id: string }
+): Promise<void> {
+  let ok = true;
+  if ((kind === "archive" || kind === "delete") && now.parentFolderId !== before.parentFolderId) {
+    ok = await moveMessageToFolder(token, now.id, before.parentFolderId);
+  } else if ((kind === "read" || kind === "unread") && now.isRead !== before.isRead) {
+    ok = await updateMessage(token, now.id, { isRead: before.isRead });
+  } else if ((kind === "star" || kind === "unstar") && now.flagStatus !== before.flagStatus) {
+    ok = await updateMessage(token, now.id, { flag: { flagStatus: before.flagStatus } });
+  } else if (kind === "label" || kind === "unlabel") {
+    // Folder labels move the message; category labels change its categories
+    if (now.parentFolderId !== before.parentFolderId) {
+      ok = await moveMessageToFolder(token, now.id, before.parentFolderId);
+    } else if (before.categories && !sameCategories(now.categories || [], before.categories)) {
+      ok = await updateMessage(token, now.id, { categories: before.categories });
+    }
+  }
+  if (!ok) {
+    throw new Error(`Failed to restore message ${now.id}`);
+  }
+}
+
+/**
+ * Restore the messages of a bulk run. Gmail messages are grouped by the
+ * label change they need and restored with batchModify; Outlook messages
+ * are looked up by internetMessageId, since moving them changed their IDs.
+ *
+ * @returns Message IDs restored, and an error per message or group that failed
+ */
+async function restoreBulkMessages(
+  token: TokenInfo,
+  operation: Operation
+): Promise<{ restored: string[]; errors: string[] }> {
+  const restored: string[] = [];
+  const errors: string[] = [];
+  const messages = await loadBulkSnapshots(operation);
+
+  if (!token.isMicrosoft) {
+    const touched = touchedLabelIds(operation.kind, operation.labelId);
+    const groups = new Map<string, { add: string[]; remove: string[]; ids: string[] }>();
+    for (const { messageId, labelIds = [] } of messages) {
+      const add = touched.filter((l) => labelIds.includes(l));
+      const remove = touched.filter((l) => !labelIds.includes(l));
+      const key = JSON.stringify([add, remove]);
+      const group = groups.get(key) ?? { add, remove, ids: [] };
+      group.ids.push(messageId);
+      groups.set(key, group);
+    }
+
+    for (const { add, remove, ids } of groups.values()) {
+      for (let i = 0; i < ids.length; i += GMAIL_BATCH_MODIFY_LIMIT) {
+        const chunk = ids.slice(i, i + GMAIL_BATCH_MODIFY_LIMIT);
+        try {
+          if (!(await batchModifyMessagesDirect(token, chunk, add, remove))) {
+            throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+          }
+          restored.push(...chunk);
+        } catch (e: any) {
+          errors.push(`${chunk.length} message(s): ${e.message || "Unknown error"}`);
+        }
+      }
+    }
+    return { restored, errors };
+  }
+
+  const snapshots = messages.filter((m): m is MessageSnapshot & { state: MessageState } => !!m.state);
+  const responses = await msgraphBatch(
+    token,
+    snapshots.map(({ state }) => ({
+      method: "GET",
+      path: `/me/messages?$filter=${encodeURIComponent(`internetMessageId eq '${state.internetMessageId.replace(/'/g, "''")}'`)}&$select=id,${MESSAGE_STATE_FIELDS}`,
+    }))
+  );
+  if (!responses) {
+    throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+  }
+
+  for (const [i, { messageId, state }] of snapshots.entries()) {
+    const response = responses[i];
+    if (response?.status !== 200) {
+      errors.push(`${messageId}: lookup failed (HTTP ${response?.status})`);
+      continue;
+    }
+    const found = response.body?.value?.[0];
+    try {
+      // Permanently deleted since the run; nothing left to restore
+      if (found) await restoreMsgraphMessage(token, operation.kind, state, { id: found.id, ...toMessageState(found) });
+      restored.push(messageId);
+    } catch (e: any) {
+      errors.push(`${messageId}: ${e.message || "Unknown error"}`);
+    }
+  }
+  return { restored, errors };
+}
+
+async function restoreSnooze(
+  provider: ConnectionProvider,
+  operation: Operation,
+  snapshot: ThreadSnapshot
+): Promise<void> {
+  if (operation.kind === "snooze") {
+    const [cancelled] = await unsnoozeThreadViaProvider(provider, [snapshot.threadId]);
+    if (!cancelled?.success) {
+      throw new Error(cancelled?.error || "Failed to unsnooze");
+    }
+  }
+
+  if (!snapshot.snoozedUntil) return;
+  if (new Date(snapshot.snoozedUntil).getTime() <= Date.now()) {
+    if (operation.kind === "unsnooze") {
+      throw new Error(`Original snooze time ${new Date(snapshot.snoozedUntil).toLocaleString()} has passed`);
+    }
+    return;
+  }
+
+  const [snoozed] = await snoozeThreadViaProvider(provider, [snapshot.threadId], snapshot.snoozedUntil);
+  if (!snoozed?.success) {
+    throw new Error(snoozed?.error || "Failed to snooze");
+  }
+}
+
+/**
+ * Undo a logged operation by restoring each thread's previous state.
+ * The operation is marked undone only when every thread was restored,
+ * so a partially failed undo can be retried.
+ *
+ * @param provider - Connection provider for the operation's account
+ * @param operation - The operation to undo
+ * @returns Result with the restored thread IDs
+ */
+export async function undoOperation(
+  provider: ConnectionProvider,
+  operation: Operation
+): Promise<UndoResult> {
+  if (operation.undoneAt) {
+    return { success: false, restored: [], error: `Operation ${operation.id} was already undone` };
+  }
+
+  const restored: string[] = [];
+  const errors: string[] = [];
+
+  try {
+    const token = await provider.getToken();
+
+    for (const snapshot of operation.threads) {
+      try {
+        if (SNOOZE_KINDS.includes(operation.kind)) {
+          await restoreSnooze(provider, operation, snapshot);
+        } else if (token.isMicrosoft) {
+          await restoreMsgraphThread(token, operation, snapshot);
+        } else {
+          await restoreGmailThread(token, operation, snapshot);
+        }
+        restored.push(snapshot.threadId);
+      } catch (e: any) {
+        errors.push(`${snapshot.threadId}: ${e.message || "Unknown error"}`);
+      }
+    }
+
+    if (operation.messageCount) {
+      const bulk = await restoreBulkMessages(token, operation);
+      restored.push(...bulk.restored);
+      errors.push(...bulk.errors);
+    }
+  } catch (e: any) {
+    return { success: false, restored, error: e.message || "Unknown error" };
+  }
+
+  if (errors.length > 0) {
+    return { success: false, restored, error: errors.join("; ") };
+  }
+
+  await markUndone(operation.id);
+  return { success: true, restored };
+}
@@ -0,0 +1,391 @@
+/**
+ * HTTP Client Module
+ *
+ * Shared request layer for the Gmail, MS Graph, Google Calendar and
+ * Superhuman backend APIs. Every API call goes through apiFetch, which:
+ *
+ * - refreshes the OAuth access token once on 401 and retries the request
+ * - retries rate-limited and transiently failing requests (429, 503, Gmail
+ *   rateLimitExceeded 403s; 502, 504 and network errors for idempotent
+ *   methods only) with exponential backoff and jitter, honoring Retry-After
+ * - caps the number of concurrent requests per provider
+ *
+ * Error responses can be turned into an ApiError carrying the status,
+ * the provider's error code and the request ID.
+ */
+
+export type ApiProvider = "gmail" | "msgraph" | "gcal" | "superhuman";
+
+export interface HttpClientConfig {
+  /** Retries after the first attempt for retryable failures */
+  maxRetries: number;
+  /** Delay before the first retry; doubles with each attempt */
+  baseDelayMs: number;
+  /** Upper bound for a single wait, including Retry-After */
+  maxDelayMs: number;
+  /** Concurrent requests allowed per provider */
+  concurrency: Record<ApiProvider, number>;
+  /** Wait function (replaced in tests) */
+  sleep: (ms: number) => Promise<void>;
+}
+
+/**
+ * Exchanges an expired access token for a fresh one.
+ * Returns null when the token cannot be refreshed.
+ */
+export type TokenRefresher = (accessToken: string) => Promise<string | null>;
+
+const DEFAULT_CONFIG: HttpClientConfig = {
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 60_000,
+  // MS Graph throttles above 4 concurrent requests per mailbox
+  concurrency: { gmail: 10, msgraph: 4, gcal: 10, superhuman: 6 },
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+const PROVIDER_LABELS: Record<ApiProvider, string> = {
+  gmail: "Gmail",
+  msgraph: "MS Graph",
+  gcal: "Google Calendar",
+  superhuman: "Superhuman",
+};
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+/**
+ * Statuses that mean the request was not processed, so even a POST
+ * (e.g. a send) can be repeated safely. Gateway errors and dropped
+ * connections are only retried for idempotent methods.
+ */
+const NOT_PROCESSED_STATUSES = new Set([429, 503]);
+
+/** Providers whose Bearer tokens are OAuth access tokens that can be refreshed */
+const OAUTH_PROVIDERS = new Set<ApiProvider>(["gmail", "msgraph", "gcal"]);
+
+let config: HttpClientConfig = { ...DEFAULT_CONFIG };
+let tokenRefresher: TokenRefresher | null = null;
+
+/** Access tokens that were refreshed, mapped to their replacement */
+const replacedTokens = new Map<string, string>();
+/** In-flight refreshes, so concurrent 401s share one refresh */
+const pendingRefreshes = new Map<string, Promise<string | null>>();
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Override client settings (retry counts, delays, concurrency).
+ *
+ * @param overrides - Settings to change; the rest keep their current values
+ */
+export function configureHttpClient(overrides: Partial<HttpClientConfig>): void {
+  config = {
+    ...config,
+    ...overrides,
+    concurrency: { ...config.concurrency, ...overrides.concurrency },
+  };
+}
+
+/**
+ * Restore default settings, forget refreshed tokens and detach
+ * concurrency limits from requests still in flight.
+ * Useful for testing.
+ */
+export function resetHttpClient(): void {
+  config = { ...DEFAULT_CONFIG };
+  limiters = new Map();
+  replacedTokens.clear();
+  pendingRefreshes.clear();
+}
+
+/**
+ * Register the function used to refresh access tokens on 401.
+ */
+export function setTokenRefresher(refresher: TokenRefresher | null): void {
+  tokenRefresher = refresher;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error response from one of the APIs
+ */
+export class ApiError extends Error {
+  readonly provider: ApiProvider;
+  readonly status: number;
+  readonly statusText: string;
+  /** Provider error code, e.g. "ErrorItemNotFound" or "rateLimitExceeded" */
+  readonly code?: string;
+  /** Request ID for support tickets (MS Graph request-id header) */
+  readonly requestId?: string;
+  /** Error message from the response body */
+  readonly detail?: string;
+
+  constructor(fields: {
+    provider: ApiProvider;
+    status: number;
+    statusText: string;
+    code?: string;
+    requestId?: string;
+    detail?: string;
+  }) {
+    const detail = [fields.detail, fields.code && fields.code !== fields.detail ? `(${fields.code})` : ""]
+      .filter(Boolean)
+      .join(" ");
+    super(
+      `${PROVIDER_LABELS[fields.provider]} API error: ${fields.status} ${fields.statusText}${detail ? ` - ${detail}` : ""}`
+    );
+    this.name = "ApiError";
+    this.provider = fields.provider;
+    this.status = fields.status;
+    this.statusText = fields.statusText;
+    this.code = fields.code;
+    this.requestId = fields.requestId;
+    this.detail = fields.detail;
+  }
+}
+
+/**
+ * Extract the error code and message from an error body.
+ *
+ * Gmail/Calendar: { error: { code, message, status, errors: [{ reason }] } }
+ * MS Graph:       { error: { code, message, innerError: { "request-id" } } }
+ * Superhuman:     { error: "message" } or { code, message }
+ */
+function parseErrorBody(body: any): { code?: string; message?: string; requestId?: string } {
+  if (!body || typeof body !== "object") return {};
+  const err = body.error;
+
+  if (typeof err === "string") {
+    return { message: err, code: typeof body.code === "string" ? body.code : undefined };
+  }
+  if (err && typeof err === "object") {
+    const reason = err.errors?.[0]?.reason;
+    const code = reason || (typeof err.code === "string" ? err.code : err.status);
+    return {
+      code,
+      message: err.message,
+      requestId: err.innerError?.["request-id"],
+    };
+  }
+  return { code: body.code, message: body.message };
+}
+
+/**
+ * Build an ApiError from a non-2xx response.
+ * Reads the response body, so call it at most once per response.
+ *
+ * @param provider - API the response came from
+ * @param response - The error response
+ */
+export async function toApiError(provider: ApiProvider, response: Response): Promise<ApiError> {
+  let text = "";
+  try {
+    text = await response.text();
+  } catch {}
+
+  let parsed: ReturnType<typeof parseErrorBody> = {};
+  try {
+    parsed = parseErrorBody(JSON.parse(text));
+  } catch {
+    parsed = { message: text.trim().slice(0, 500) || undefined };
+  }
+
+  return new ApiError({
+    provider,
+    status: response.status,
+    statusText: response.statusText,
+    code: parsed.code,
+    requestId: response.headers?.get("request-id") || response.headers?.get("x-request-id") || parsed.requestId,
+    detail: parsed.message,
+  });
+}
+
+// ============================================================================
+// Concurrency
+// ============================================================================
+
+interface Limiter {
+  active: number;
+  waiting: Array<() => void>;
+}
+
+let limiters = new Map<ApiProvider, Limiter>();
+
+async function acquireSlot(provider: ApiProvider): Promise<Limiter> {
+  let limiter = limiters.get(provider);
+  if (!limiter) {
+    limiter = { active: 0, waiting: [] };
+    limiters.set(provider, limiter);
+  }
+
+  if (limiter.active < config.concurrency[provider]) {
+    limiter.active++;
+  } else {
+    await new Promise<void>((resolve) => limiter.waiting.push(resolve));
+  }
+  return limiter;
+}
+
+function releaseSlot(limiter: Limiter): void {
+  const next = limiter.waiting.shift();
+  if (next) {
+    // Hand the slot straight to the next waiter
+    next();
+  } else {
+    limiter.active--;
+  }
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+function getBearerToken(headers: RequestInit["headers"]): string | null {
+  if (!headers) return null;
+  const match = new Headers(headers).get("Authorization")?.match(/^Bearer (.+)$/);
+  return match?.[1] ?? null;
+}
+
+function withBearerToken(init: RequestInit, token: string): RequestInit {
+  if (init.headers instanceof Headers || Array.isArray(init.headers)) {
+    const headers = new Headers(init.headers);
+    headers.set("Authorization", `Bearer ${token}`);
+    return { ...init, headers };
+  }
+  return { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` } };
+}
+
+async function refreshToken(accessToken: string): Promise<string | null> {
+  if (!tokenRefresher) return null;
+
+  let pending = pendingRefreshes.get(accessToken);
+  if (!pending) {
+    pending = tokenRefresher(accessToken).finally(() => pendingRefreshes.delete(accessToken));
+    pendingRefreshes.set(accessToken, pending);
+  }
+
+  const refreshed = await pending;
+  if (refreshed) {
+    replacedTokens.set(accessToken, refreshed);
+  }
+  return refreshed;
+}
+
+/**
+ * Parse Retry-After (delay in seconds or an HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Gmail and Calendar report quota errors as 403 with a rate limit reason.
+ */
+async function isRateLimitedForbidden(provider: ApiProvider, response: Response): Promise<boolean> {
+  if (response.status !== 403 || (provider !== "gmail" && provider !== "gcal")) return false;
+  try {
+    const body: any = await response.clone().json();
+    const reason = body?.error?.errors?.[0]?.reason;
+    return reason === "rateLimitExceeded" || reason === "userRateLimitExceeded";
+  } catch {
+    return false;
+  }
+}
+
+function backoffDelay(attempt: number): number {
+  const exponential = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  // Equal jitter: half fixed, half random
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * Wait before retrying part of a request (e.g. throttled items of a batch)
+ * with the same backoff apiFetch uses.
+ *
+ * @param attempt - Number of retries already made
+ * @param retryAfterMs - Server-requested delay, if any
+ * @returns false (without waiting) once retries are exhausted
+ */
+export async function backoffBeforeRetry(attempt: number, retryAfterMs?: number | null): Promise<boolean> {
+  if (attempt >= config.maxRetries) return false;
+  const delay = retryAfterMs != null ? Math.min(retryAfterMs, config.maxDelayMs) : backoffDelay(attempt);
+  await config.sleep(delay);
+  return true;
+}
+
+/**
+ * Send a request to one of the APIs.
+ *
+ * Returns the final response, which may still be an error (after retries
+ * are exhausted, or a 401 that could not be fixed by refreshing). Callers
+ * check response.ok as with fetch, and can use toApiError for details.
+ * Network errors are rethrown once retries are exhausted.
+ *
+ * @param provider - Which API the request goes to (for concurrency limits and refresh)
+ * @param url - Full request URL
+ * @param init - fetch options; string/binary bodies can be resent on retry
+ * @returns The response
+ */
+export async function apiFetch(
+  provider: ApiProvider,
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  let request = init;
+  const original = getBearerToken(init.headers);
+  const replacement = original ? replacedTokens.get(original) : undefined;
+  if (replacement) {
+    request = withBearerToken(init, replacement);
+  }
+
+  const method = (init.method || "GET").toUpperCase();
+  const idempotent = method !== "POST" && method !== "PATCH";
+  let refreshed = false;
+  let attempt = 0;
+
+  while (true) {
+    let response: Response;
+    const limiter = await acquireSlot(provider);
+    try {
+      response = await fetch(url, request);
+    } catch (e) {
+      if (!idempotent || attempt >= config.maxRetries) throw e;
+      await config.sleep(backoffDelay(attempt++));
+      continue;
+    } finally {
+      releaseSlot(limiter);
+    }
+
+    if (response.status === 401 && !refreshed && OAUTH_PROVIDERS.has(provider)) {
+      refreshed = true;
+      const current = getBearerToken(request.headers);
+      const fresh = current ? await refreshToken(current) : null;
+      if (fresh) {
+        request = withBearerToken(request, fresh);
+        continue;
+      }
+      return response;
+    }
+
+    const retryable =
+      (idempotent ? RETRYABLE_STATUSES : NOT_PROCESSED_STATUSES).has(response.status) ||
+      (await isRateLimitedForbidden(provider, response));
+    if (!retryable || attempt >= config.maxRetries) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers?.get("Retry-After"));
+    const delay = retryAfter !== null ? Math.min(retryAfter, config.maxDelayMs) : backoffDelay(attempt);
+    attempt++;
+    await config.sleep(delay);
+  }
+}
@@ -0,0 +1,444 @@
+/**
+ * iCalendar Module
+ *
+ * Parses iCalendar (RFC 5545) text as sent in meeting invitations:
+ * text/calendar mail parts and .ics attachments. Also writes .ics files
+ * for calendar export.
+ */
+
+/**
+ * Start or end of an event, in the same shape as calendar API events.
+ * Times with a TZID keep the local wall-clock time plus the zone name.
+ */
+export interface IcsDateTime {
+  dateTime?: string;
+  date?: string;
+  timeZone?: string;
+}
+
+export interface IcsAttendee {
+  email: string;
+  name?: string;
+  /** PARTSTAT: NEEDS-ACTION, ACCEPTED, DECLINED, TENTATIVE, ... */
+  partstat?: string;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: IcsDateTime;
+  end: IcsDateTime;
+  organizer?: { email: string; name?: string };
+  attendees: IcsAttendee[];
+  /** STATUS: CONFIRMED, TENTATIVE or CANCELLED */
+  status?: string;
+  sequence: number;
+  /** RRULE/RDATE/EXDATE lines */
+  recurrence?: string[];
+  /** Set on a changed occurrence of a recurring event: the occurrence it replaces */
+  recurrenceId?: IcsDateTime;
+}
+
+export interface IcsCalendar {
+  /** iTIP method: REQUEST for invitations, CANCEL, REPLY, PUBLISH, ... */
+  method?: string;
+  events: IcsEvent[];
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Split iCalendar text into logical lines, joining folded continuation lines.
+ */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim());
+}
+
+/**
+ * Parse `NAME;PARAM=value;PARAM="quoted:value":VALUE`.
+ */
+function parseProperty(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let sep = -1;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (c === '"') inQuotes = !inQuotes;
+    else if (c === ":" && !inQuotes) {
+      sep = i;
+      break;
+    }
+  }
+  if (sep < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, sep).match(/(?:[^;"]|"[^"]*")+/g) || [];
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const eq = raw.indexOf("=");
+    if (eq > 0) {
+      params[raw.slice(0, eq).toUpperCase()] = raw.slice(eq + 1).replace(/^"|"$/g, "");
+    }
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(sep + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+function stripMailto(value: string): string {
+  return value.replace(/^mailto:/i, "").trim();
+}
+
+/**
+ * Parse a DTSTART/DTEND value: dates become YYYY-MM-DD, UTC times ISO
+ * strings, and TZID/floating times local ISO strings without an offset.
+ */
+function parseDateValue(prop: IcsProperty): IcsDateTime {
+  const value = prop.value.trim();
+  const date = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (date || prop.params.VALUE === "DATE") {
+    return { date: date ? `${date[1]}-${date[2]}-${date[3]}` : value };
+  }
+
+  const time = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!time) {
+    return { dateTime: value };
+  }
+  const local = `${time[1]}-${time[2]}-${time[3]}T${time[4]}:${time[5]}:${time[6]}`;
+  if (time[7]) {
+    return { dateTime: `${local}Z` };
+  }
+  return prop.params.TZID ? { dateTime: local, timeZone: prop.params.TZID } : { dateTime: local };
+}
+
+/**
+ * Parse iCalendar text. Only VEVENT components are returned; VTIMEZONE,
+ * VALARM and other components are skipped.
+ *
+ * @param text - Contents of a text/calendar part or .ics file
+ * @returns The iTIP method and the events
+ */
+export function parseIcs(text: string): IcsCalendar {
+  const calendar: IcsCalendar = { events: [] };
+  // Components nested inside the current VEVENT (VALARM) are skipped
+  let event: IcsEvent | null = null;
+  let nested = 0;
+
+  for (const line of unfoldLines(text)) {
+    const prop = parseProperty(line);
+    if (!prop) continue;
+
+    if (prop.name === "BEGIN") {
+      if (prop.value.toUpperCase() === "VEVENT" && !event) {
+        event = { uid: "", summary: "", start: {}, end: {}, attendees: [], sequence: 0 };
+      } else if (event) {
+        nested++;
+      }
+      continue;
+    }
+    if (prop.name === "END") {
+      if (event && nested > 0) {
+        nested--;
+      } else if (event && prop.value.toUpperCase() === "VEVENT") {
+        calendar.events.push(event);
+        event = null;
+      }
+      continue;
+    }
+
+    if (!event) {
+      if (prop.name === "METHOD") calendar.method = prop.value.trim().toUpperCase();
+      continue;
+    }
+    if (nested > 0) continue;
+
+    switch (prop.name) {
+      case "UID":
+        event.uid = prop.value.trim();
+        break;
+      case "SUMMARY":
+        event.summary = unescapeText(prop.value);
+        break;
+      case "DESCRIPTION":
+        event.description = unescapeText(prop.value);
+        break;
+      case "LOCATION":
+        event.location = unescapeText(prop.value);
+        break;
+      case "DTSTART":
+        event.start = parseDateValue(prop);
+        break;
+      case "DTEND":
+        event.end = parseDateValue(prop);
+        break;
+      case "RECURRENCE-ID":
+        event.recurrenceId = parseDateValue(prop);
+        break;
+      case "STATUS":
+        event.status = prop.value.trim().toUpperCase();
+        break;
+      case "SEQUENCE":
+        event.sequence = parseInt(prop.value, 10) || 0;
+        break;
+      case "ORGANIZER":
+        event.organizer = { email: stripMailto(prop.value), name: prop.params.CN };
+        break;
+      case "ATTENDEE":
+        event.attendees.push({ email: stripMailto(prop.value), name: prop.params.CN, partstat: prop.params.PARTSTAT });
+        break;
+      case "RRULE":
+      case "RDATE":
+      case "EXDATE":
+        (event.recurrence ??= []).push(line);
+        break;
+    }
+  }
+
+  return calendar;
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in minutes.
+ * Unknown zone names (e.g. Windows names like "Pacific Standard Time")
+ * throw, so callers fall back to local time.
+ */
+function timeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return (asUtc - instant.getTime()) / 60000;
+}
+
+/**
+ * Convert an IcsDateTime to a Date. All-day dates and floating times are
+ * local; times with an unknown TZID are treated as local too.
+ */
+export function icsDateToDate(value: IcsDateTime): Date | null {
+  if (value.date) {
+    const [y, m, d] = value.date.split("-").map(Number);
+    return new Date(y!, m! - 1, d!);
+  }
+  if (!value.dateTime) return null;
+
+  const match = value.dateTime.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})$/);
+  if (!match) {
+    const date = new Date(value.dateTime);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const [y, mo, d, h, mi, s] = match.slice(1).map(Number) as [number, number, number, number, number, number];
+  if (value.timeZone) {
+    try {
+      const guess = Date.UTC(y, mo - 1, d, h, mi, s);
+      return new Date(guess - timeZoneOffset(new Date(guess), value.timeZone) * 60000);
+    } catch {
+      // Not an IANA zone name
+    }
+  }
+  return new Date(y, mo - 1, d, h, mi, s);
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Quote a parameter value that contains ":", ";" or ",".
+ */
+function paramValue(value: string): string {
+  const clean = value.replace(/"/g, "'");
+  return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+/**
+ * Fold a content line into 75-octet lines (RFC 5545 section 3.1).
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const lines: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    if (size + charSize > (lines.length === 0 ? 75 : 74)) {
+      lines.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  lines.push(current);
+  return lines.join("\r\n ");
+}
+
+function compactDate(value: string): string {
+  return value.replace(/[-:]/g, "").replace(/\.\d+/, "");
+}
+
+/**
+ * Format DTSTART/DTEND/RECURRENCE-ID: dates as VALUE=DATE, zoned times
+ * with TZID, UTC times with a Z suffix.
+ */
+function formatDateProp(name: string, value: IcsDateTime): string | null {
+  if (value.date) return `${name};VALUE=DATE:${compactDate(value.date)}`;
+  if (!value.dateTime) return null;
+  if (value.timeZone) return `${name};TZID=${paramValue(value.timeZone)}:${compactDate(value.dateTime)}`;
+  return `${name}:${compactDate(value.dateTime)}`;
+}
+
+function formatOffset(minutes: number): string {
+  const abs = Math.abs(minutes);
+  return `${minutes < 0 ? "-" : "+"}${String(Math.floor(abs / 60)).padStart(2, "0")}${String(abs % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Build a VTIMEZONE for an IANA zone from the offset changes Intl reports
+ * in the given years (one observance per change, no RRULE).
+ *
+ * @returns The component lines, or null for zones Intl doesn't know
+ */
+function formatTimeZone(timeZone: string, fromYear: number, toYear: number): string[] | null {
+  const offsetAt = (time: number) => timeZoneOffset(new Date(time), timeZone);
+  let initial: number;
+  try {
+    initial = offsetAt(Date.UTC(fromYear, 0, 1));
+  } catch {
+    return null;
+  }
+
+  const changes: Array<{ at: number; from: number; to: number }> = [];
+  const day = 24 * 60 * 60 * 1000;
+  let previous = initial;
+  for (let time = Date.UTC(fromYear, 0, 2); time <= Date.UTC(toYear + 1, 0, 1); time += day) {
+    const offset = offsetAt(time);
+    if (offset === previous) continue;
+    // Narrow the change down to the minute
+    let lo = time - day;
+    let hi = time;
+    while (hi - lo > 60000) {
+      const mid = lo + Math.floor((hi - lo) / 120000) * 60000;
+      if (offsetAt(mid) === previous) lo = mid;
+      else hi = mid;
+    }
+    changes.push({ at: hi, from: previous, to: offset });
+    previous = offset;
+  }
+
+  const localStart = (at: number, offset: number) => compactDate(new Date(at + offset * 60000).toISOString().slice(0, 19));
+  const observance = (type: string, start: string, from: number, to: number) => [
+    `BEGIN:${type}`,
+    `DTSTART:${start}`,
+    `TZOFFSETFROM:${formatOffset(from)}`,
+    `TZOFFSETTO:${formatOffset(to)}`,
+    `END:${type}`,
+  ];
+
+  const highest = Math.max(initial, ...changes.map((c) => c.to));
+  const lines = [`BEGIN:VTIMEZONE`, `TZID:${paramValue(timeZone)}`];
+  lines.push(
+    ...observance(
+      changes.length > 0 && initial === highest ? "DAYLIGHT" : "STANDARD",
+      `${fromYear}0101T000000`,
+      initial,
+      initial
+    )
+  );
+  for (const change of changes) {
+    lines.push(...observance(change.to > change.from ? "DAYLIGHT" : "STANDARD", localStart(change.at, change.from), change.from, change.to));
+  }
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+const PRODID = "-//superhuman-cli//Calendar Export//EN";
+
+/**
+ * Write an iCalendar file. A VTIMEZONE is included for every TZID used,
+ * covering the years the events start in and the year after.
+ *
+ * @param calendar - The method (optional) and events to write
+ * @param now - DTSTAMP for the events (for tests)
+ * @returns .ics text with CRLF line endings
+ */
+export function formatIcs(calendar: IcsCalendar, now: Date = new Date()): string {
+  const stamp = `${compactDate(now.toISOString().slice(0, 19))}Z`;
+  const events: string[] = [];
+
+  for (const event of calendar.events) {
+    const lines = ["BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+    for (const line of [
+      formatDateProp("DTSTART", event.start),
+      formatDateProp("DTEND", event.end),
+      event.recurrenceId ? formatDateProp("RECURRENCE-ID", event.recurrenceId) : null,
+    ]) {
+      if (line) lines.push(line);
+    }
+    lines.push(...(event.recurrence || []));
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.organizer) {
+      const cn = event.organizer.name ? `;CN=${paramValue(event.organizer.name)}` : "";
+      lines.push(`ORGANIZER${cn}:mailto:${event.organizer.email}`);
+    }
+    for (const attendee of event.attendees) {
+      const cn = attendee.name ? `;CN=${paramValue(attendee.name)}` : "";
+      const partstat = attendee.partstat ? `;PARTSTAT=${attendee.partstat}` : "";
+      lines.push(`ATTENDEE${cn};ROLE=REQ-PARTICIPANT${partstat}:mailto:${attendee.email}`);
+    }
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    if (event.sequence) lines.push(`SEQUENCE:${event.sequence}`);
+    lines.push("END:VEVENT");
+    events.push(...lines);
+  }
+
+  // Every TZID referenced (DTSTART/DTEND and EXDATE/RDATE lines) needs a VTIMEZONE
+  const zones = new Set<string>();
+  for (const line of events) {
+    const match = line.match(/;TZID=("[^"]+"|[^:;]+)/);
+    if (match) zones.add(match[1]!.replace(/"/g, ""));
+  }
+  const years = calendar.events
+    .map((e) => Number((e.start.dateTime || e.start.date || "").slice(0, 4)))
+    .filter((y) => y > 0);
+  const fromYear = years.length > 0 ? Math.min(...years) : now.getUTCFullYear();
+  const toYear = (years.length > 0 ? Math.max(...years) : now.getUTCFullYear()) + 1;
+
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODID}`, "CALSCALE:GREGORIAN"];
+  if (calendar.method) lines.push(`METHOD:${calendar.method}`);
+  for (const zone of zones) {
+    lines.push(...(formatTimeZone(zone, fromYear, toYear) || []));
+  }
+  lines.push(...events, "END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
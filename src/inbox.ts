@@ -4,11 +4,12 @@
  * Functions for listing and searching inbox threads via direct Gmail/MS Graph API.
  */
 
-import type { ConnectionProvider } from "./connection-provider";
+import { CachedTokenProvider, type ConnectionProvider } from "./connection-provider";
 import {
   searchGmailDirect,
   listInboxDirect,
 } from "./token-api";
+import { apiFetch } from "./http-client";
 
 export interface InboxThread {
   id: string;
@@ -21,6 +22,8 @@ export interface InboxThread {
   snippet: string;
   labelIds: string[];
   messageCount: number;
+  /** Account the thread belongs to (set by the multi-account listings) */
+  account?: string;
 }
 
 export interface ListInboxOptions {
@@ -41,6 +44,65 @@ export interface SearchOptions {
   includeDone?: boolean;
 }
 
+/**
+ * A single term of a Gmail-style search query.
+ * `op` is the lowercased operator ("from", "subject", ...) or "" for free text.
+ */
+export interface SearchTerm {
+  op: string;
+  value: string;
+}
+
+/**
+ * Split a Gmail-style query into terms, keeping quoted phrases together.
+ *
+ * e.g. `from:john "status update"` -> [{op:"from",value:"john"}, {op:"",value:"status update"}]
+ */
+export function parseSearchQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  for (const raw of query.match(/(?:[^\s"]+:)?"[^"]*"|\S+/g) || []) {
+    const opMatch = raw.match(/^(\w+):(.*)$/);
+    const op = opMatch ? opMatch[1]!.toLowerCase() : "";
+    const value = (opMatch ? opMatch[2]! : raw).replace(/^"|"$/g, "");
+    if (value) {
+      terms.push({ op, value });
+    }
+  }
+  return terms;
+}
+
+/**
+ * Check whether a thread summary matches a Gmail-style query locally.
+ *
+ * Supports `from:`, `subject:`, `label:` and free-text terms (matched
+ * case-insensitively against subject, sender and snippet). Other operators
+ * are ignored.
+ */
+export function threadMatchesQuery(thread: InboxThread, query: string): boolean {
+  const contains = (haystack: string, needle: string) =>
+    haystack.toLowerCase().includes(needle.toLowerCase());
+
+  return parseSearchQuery(query).every(({ op, value }) => {
+    switch (op) {
+      case "":
+        return (
+          contains(thread.subject, value) ||
+          contains(thread.snippet, value) ||
+          contains(thread.from.email, value) ||
+          contains(thread.from.name, value)
+        );
+      case "from":
+        return contains(thread.from.email, value) || contains(thread.from.name, value);
+      case "subject":
+        return contains(thread.subject, value);
+      case "label":
+        return thread.labelIds.some((l) => l.toLowerCase() === value.toLowerCase());
+      default:
+        return true;
+    }
+  });
+}
+
 /**
  * List threads from the current inbox view
  */
@@ -77,7 +139,8 @@ export async function searchInbox(
       // MS Graph: search within inbox folder
       // Note: MS Graph $search works across all messages, so we use folder filter
       const path = `/me/mailFolders/Inbox/messages?$search="${encodeURIComponent(query)}"&$top=${limit}&$select=id,conversationId,subject,from,receivedDateTime,bodyPreview`;
-      const response = await fetch(
+      const response = await apiFetch(
+        "msgraph",
         `https://graph.microsoft.com/v1.0${path}`,
         {
           headers: { Authorization: `Bearer ${token.accessToken}` },
@@ -144,3 +207,108 @@ export async function searchInbox(
     }
   }
 }
+
+// ============================================================================
+// Multiple Accounts
+// ============================================================================
+
+export interface AccountError {
+  account: string;
+  error: string;
+}
+
+export interface MultiAccountResult {
+  /** Threads from every account, newest first, each tagged with `account` */
+  threads: InboxThread[];
+  /** Accounts that could not be queried */
+  errors: AccountError[];
+}
+
+/**
+ * Run a thread query against each account in parallel and merge the results.
+ * An account that fails is reported in `errors` and does not fail the others.
+ */
+async function fanOut(
+  accounts: string[],
+  limit: number,
+  query: (provider: ConnectionProvider) => Promise<InboxThread[]>
+): Promise<MultiAccountResult> {
+  const threads: InboxThread[] = [];
+  const errors: AccountError[] = [];
+
+  await Promise.all(
+    accounts.map(async (account) => {
+      try {
+        const results = await query(new CachedTokenProvider(account));
+        threads.push(...results.map((thread) => ({ ...thread, account })));
+      } catch (e: any) {
+        errors.push({ account, error: e.message || "Unknown error" });
+      }
+    })
+  );
+
+  const time = (thread: InboxThread) => new Date(thread.date).getTime() || 0;
+  threads.sort((a, b) => time(b) - time(a));
+  errors.sort((a, b) => accounts.indexOf(a.account) - accounts.indexOf(b.account));
+
+  return { threads: threads.slice(0, limit), errors };
+}
+
+/**
+ * List inbox threads across several accounts, merged by date.
+ *
+ * @param accounts - Account emails with cached tokens
+ * @param options - `limit` applies to the merged list
+ * @returns The newest threads overall, plus any per-account failures
+ */
+export async function listInboxAllAccounts(
+  accounts: string[],
+  options: ListInboxOptions = {}
+): Promise<MultiAccountResult> {
+  const limit = options.limit ?? 10;
+  return fanOut(accounts, limit, (provider) => listInbox(provider, { limit }));
+}
+
+/**
+ * Search threads across several accounts, merged by date.
+ *
+ * @param accounts - Account emails with cached tokens
+ * @param options - Same as searchInbox; `limit` applies to the merged list
+ * @returns The newest matches overall, plus any per-account failures
+ */
+export async function searchInboxAllAccounts(
+  accounts: string[],
+  options: SearchOptions
+): Promise<MultiAccountResult> {
+  const limit = options.limit ?? 10;
+  return fanOut(accounts, limit, (provider) => searchInbox(provider, { ...options, limit }));
+}
+
+/**
+ * A thread ID, optionally qualified with the account it belongs to.
+ */
+export interface ThreadRef {
+  account?: string;
+  threadId: string;
+}
+
+/**
+ * Split a qualified `account:threadId` reference, as printed by
+ * `inbox --all-accounts`. Plain thread IDs are returned unchanged.
+ *
+ * e.g. `me@example.com:19c2fbf72ffde347` -> {account:"me@example.com", threadId:"19c2fbf72ffde347"}
+ */
+export function parseThreadRef(ref: string): ThreadRef {
+  const match = ref.match(/^([^\s:@]+@[^\s:@]+):(.+)$/);
+  if (!match) {
+    return { threadId: ref };
+  }
+  return { account: match[1]!, threadId: match[2]! };
+}
+
+/**
+ * Format a thread reference that follow-up commands accept without --account.
+ */
+export function formatThreadRef(thread: InboxThread): string {
+  return thread.account ? `${thread.account}:${thread.id}` : thread.id;
+}
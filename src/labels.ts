@@ -2,22 +2,44 @@
  * Labels Module
  *
  * Functions for managing email labels/folders via direct Gmail/MS Graph API.
- * Supports both Microsoft/Outlook accounts (via MS Graph folders) and Gmail accounts (via Gmail labels).
+ * Supports both Microsoft/Outlook accounts (via MS Graph folders and categories)
+ * and Gmail accounts (via Gmail labels).
+ *
+ * On Outlook a message sits in exactly one folder but can carry any number of
+ * categories from the master category list, so categories are the closest
+ * match to Gmail labels. Labels carry a `kind` to tell the two apart.
  */
 
 import type { ConnectionProvider } from "./connection-provider";
 import {
   modifyThreadLabels,
   updateMessage,
+  moveMessageToFolder,
   listLabelsDirect,
+  msgraphFetch,
   searchGmailDirect,
   getConversationMessageIds,
+  listConversationMessagesMsGraph,
 } from "./token-api";
+import { apiFetch, toApiError } from "./http-client";
+import type { TokenInfo } from "./token-api";
+
+const GMAIL_API_BASE = "https://www.googleapis.com/gmail/v1/users/me";
+const MSGRAPH_API_BASE = "https://graph.microsoft.com/v1.0";
+
+/**
+ * What a label is: a Gmail label, or an Outlook mail folder or category
+ */
+export type LabelKind = "label" | "folder" | "category";
 
 export interface Label {
   id: string;
+  /** Display name; nested labels and folders use their full path ("Clients/Acme") */
   name: string;
   type?: string;
+  kind?: LabelKind;
+  /** Gmail label background color or Outlook category color */
+  color?: string;
 }
 
 export interface LabelResult {
@@ -25,15 +47,50 @@ export interface LabelResult {
   error?: string;
 }
 
+export interface ResolveLabelResult {
+  success: boolean;
+  label?: Label;
+  error?: string;
+}
+
+export interface LabelChangeResult {
+  success: boolean;
+  /** The label as it is after the change (not set for delete) */
+  label?: Label;
+  error?: string;
+}
+
+export interface LabelLifecycleOptions {
+  /** Work on an Outlook category (master category list) instead of a mail folder */
+  category?: boolean;
+}
+
+export interface CreateLabelOptions extends LabelLifecycleOptions {
+  /**
+   * Gmail: "#background" or "#background/#text" from Gmail's label palette.
+   * Outlook categories: a preset such as "preset0".
+   */
+  color?: string;
+}
+
 /**
- * List all available labels/folders in the account
+ * List all available labels/folders in the account.
+ * Microsoft accounts list mail folders followed by the master category list.
  *
  * @param provider - The connection provider
- * @returns Array of labels with id and name
+ * @returns Array of labels with id, name and kind
  */
 export async function listLabels(provider: ConnectionProvider): Promise<Label[]> {
   const token = await provider.getToken();
-  return listLabelsDirect(token);
+  const labels: Label[] = (await listLabelsDirect(token)).map((l) => ({
+    ...l,
+    kind: token.isMicrosoft ? "folder" : "label",
+  }));
+
+  if (!token.isMicrosoft) {
+    return labels;
+  }
+  return [...labels, ...(await listCategories(token))];
 }
 
 /**
@@ -50,36 +107,28 @@ export async function getThreadLabels(
   const token = await provider.getToken();
 
   // Get all labels to build name mapping
-  const allLabels = await listLabelsDirect(token);
+  const allLabels = await listLabels(provider);
   const labelMap = new Map(allLabels.map((l) => [l.id, l]));
 
   if (token.isMicrosoft) {
-    // For MS Graph, we need to get the message and check its folder
-    const messageIds = await getConversationMessageIds(token, threadId);
-    if (messageIds.length === 0) {
-      return [];
-    }
-
-    // MS Graph messages have parentFolderId
-    const response = await fetch(
-      `https://graph.microsoft.com/v1.0/me/messages/${messageIds[0]}?$select=parentFolderId`,
-      {
-        headers: { Authorization: `Bearer ${token.accessToken}` },
-      }
-    );
+    // MS Graph: the folders the conversation's messages sit in, plus their categories
+    const messages = await getConversationCategories(token, threadId);
+    const labels: Label[] = [];
 
-    if (!response.ok) {
-      return [];
+    for (const folderId of new Set(messages.map((m) => m.parentFolderId))) {
+      labels.push(labelMap.get(folderId) || { id: folderId, name: folderId, kind: "folder" });
+    }
+    for (const name of new Set(messages.flatMap((m) => m.categories))) {
+      labels.push(
+        allLabels.find((l) => l.kind === "category" && l.name === name) || { id: name, name, kind: "category" }
+      );
     }
 
-    const msg = await response.json() as { parentFolderId?: string };
-    const folderId = msg.parentFolderId;
-    const folder = labelMap.get(folderId);
-
-    return folder ? [folder] : [];
+    return labels;
   } else {
     // Gmail: Get thread to get labelIds
-    const response = await fetch(
+    const response = await apiFetch(
+      "gmail",
       `https://www.googleapis.com/gmail/v1/users/me/threads/${threadId}?format=minimal`,
       {
         headers: { Authorization: `Bearer ${token.accessToken}` },
@@ -93,16 +142,19 @@ export async function getThreadLabels(
     const thread = await response.json() as { messages?: Array<{ labelIds?: string[] }> };
     const labelIds = thread.messages?.[0]?.labelIds || [];
 
-    return labelIds.map((id: string) => labelMap.get(id) || { id, name: id });
+    return labelIds.map((id: string) => labelMap.get(id) || { id, name: id, kind: "label" });
   }
 }
 
 /**
  * Add a label to a thread (server-persisted)
  *
+ * On Microsoft accounts a category is added to every message in the
+ * conversation; a folder moves the messages into it.
+ *
  * @param provider - The connection provider
  * @param threadId - The thread ID to add the label to
- * @param labelId - The label ID to add
+ * @param labelId - The label ID to add (category ID or name on Microsoft)
  * @returns Result with success status
  */
 export async function addLabel(
@@ -114,13 +166,24 @@ export async function addLabel(
     const token = await provider.getToken();
 
     if (token.isMicrosoft) {
-      // Microsoft: Move messages to the folder (label = folder in MS)
-      // This is complex because MS Graph doesn't have a direct "add label" concept
-      // For folders, adding a label means moving to that folder
-      return {
-        success: false,
-        error: "Adding labels to Microsoft accounts not yet supported via direct API. Use folders instead.",
-      };
+      const category = await findCategory(token, labelId);
+      if (category) {
+        return updateConversationCategories(token, threadId, (names) =>
+          names.includes(category.name) ? null : [...names, category.name]
+        );
+      }
+
+      // Folders: a message lives in one folder, so adding one moves it there
+      const messageIds = await getConversationMessageIds(token, threadId);
+      if (messageIds.length === 0) {
+        return { success: false, error: "No messages found in conversation" };
+      }
+      for (const messageId of messageIds) {
+        if (!(await moveMessageToFolder(token, messageId, labelId))) {
+          return { success: false, error: `Failed to move message ${messageId}` };
+        }
+      }
+      return { success: true };
     } else {
       // Gmail: Add label via threads.modify
       const success = await modifyThreadLabels(token, threadId, [labelId], []);
@@ -134,9 +197,12 @@ export async function addLabel(
 /**
  * Remove a label from a thread (server-persisted)
  *
+ * On Microsoft accounts only categories can be removed; messages always
+ * sit in a folder.
+ *
  * @param provider - The connection provider
  * @param threadId - The thread ID to remove the label from
- * @param labelId - The label ID to remove
+ * @param labelId - The label ID to remove (category ID or name on Microsoft)
  * @returns Result with success status
  */
 export async function removeLabel(
@@ -148,10 +214,16 @@ export async function removeLabel(
     const token = await provider.getToken();
 
     if (token.isMicrosoft) {
-      return {
-        success: false,
-        error: "Removing labels from Microsoft accounts not yet supported via direct API.",
-      };
+      const category = await findCategory(token, labelId);
+      if (!category) {
+        return {
+          success: false,
+          error: "Outlook messages always sit in a folder. Add a different folder label to move them instead.",
+        };
+      }
+      return updateConversationCategories(token, threadId, (names) =>
+        names.includes(category.name) ? names.filter((n) => n !== category.name) : null
+      );
     } else {
       // Gmail: Remove label via threads.modify
       const success = await modifyThreadLabels(token, threadId, [], [labelId]);
@@ -258,7 +330,8 @@ export async function listStarred(
 
     if (token.isMicrosoft) {
       // MS Graph: Search for flagged messages
-      const response = await fetch(
+      const response = await apiFetch(
+        "msgraph",
         `https://graph.microsoft.com/v1.0/me/messages?$filter=flag/flagStatus eq 'flagged'&$top=${limit}&$select=conversationId`,
         {
           headers: { Authorization: `Bearer ${token.accessToken}` },
@@ -292,3 +365,473 @@ export async function listStarred(
     return [];
   }
 }
+
+// ============================================================================
+// Outlook Categories
+// ============================================================================
+
+/**
+ * List the Outlook master category list as labels.
+ */
+async function listCategories(token: TokenInfo): Promise<Label[]> {
+  const result = await msgraphFetch(token.accessToken, "/me/outlook/masterCategories");
+  const categories = result?.value || [];
+  return categories.map((c: any) => ({
+    id: c.id,
+    name: c.displayName,
+    type: "category",
+    kind: "category",
+    color: c.color,
+  }));
+}
+
+/**
+ * Find a master category by ID or name (messages reference categories by name).
+ */
+async function findCategory(token: TokenInfo, idOrName: string): Promise<Label | undefined> {
+  const categories = await listCategories(token);
+  return categories.find((c) => c.id === idOrName) || categories.find((c) => c.name === idOrName);
+}
+
+async function getConversationCategories(
+  token: TokenInfo,
+  conversationId: string
+): Promise<Array<{ id: string; parentFolderId: string; categories: string[] }>> {
+  const messages = await listConversationMessagesMsGraph(token, conversationId, "id,parentFolderId,categories");
+  return messages.map((m) => ({
+    id: m.id,
+    parentFolderId: m.parentFolderId,
+    categories: m.categories || [],
+  }));
+}
+
+/**
+ * Rewrite the categories of every message in a conversation.
+ * `change` returns the new category names, or null to leave a message alone.
+ */
+async function updateConversationCategories(
+  token: TokenInfo,
+  conversationId: string,
+  change: (names: string[]) => string[] | null
+): Promise<LabelResult> {
+  const messages = await getConversationCategories(token, conversationId);
+  if (messages.length === 0) {
+    return { success: false, error: "No messages found in conversation" };
+  }
+
+  for (const message of messages) {
+    const categories = change(message.categories);
+    if (categories && !(await updateMessage(token, message.id, { categories }))) {
+      return { success: false, error: `Failed to update message ${message.id}` };
+    }
+  }
+  return { success: true };
+}
+
+// ============================================================================
+// Label Resolution
+// ============================================================================
+
+function normalizeLabelPath(path: string): string {
+  return path
+    .split("/")
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .join("/");
+}
+
+/**
+ * Resolve a label ID, name or path ("Clients/Acme") against a list of labels.
+ *
+ * IDs and exact names win; otherwise the name is matched case-insensitively
+ * and must be unambiguous.
+ *
+ * @param labels - Labels of the account (from listLabels)
+ * @param nameOrId - Label ID, name or path
+ * @returns Result with the matching label, or an error if none or several match
+ */
+export function resolveLabelIn(labels: Label[], nameOrId: string): ResolveLabelResult {
+  const path = normalizeLabelPath(nameOrId);
+  const exact = labels.find((l) => l.id === nameOrId) || labels.find((l) => l.name === path);
+  if (exact) {
+    return { success: true, label: exact };
+  }
+
+  const lower = path.toLowerCase();
+  const matches = labels.filter((l) => l.name.toLowerCase() === lower);
+  if (matches.length === 1) {
+    return { success: true, label: matches[0] };
+  }
+  if (matches.length > 1) {
+    return {
+      success: false,
+      error: `Label "${nameOrId}" is ambiguous: ${matches.map((l) => `${l.name} (${l.id})`).join(", ")}`,
+    };
+  }
+  return { success: false, error: `Label "${nameOrId}" not found` };
+}
+
+/**
+ * Resolve a label ID, name or path ("Clients/Acme") for the provider's account.
+ *
+ * @param provider - The connection provider
+ * @param nameOrId - Label ID, name or path
+ * @returns Result with the matching label
+ */
+export async function resolveLabel(
+  provider: ConnectionProvider,
+  nameOrId: string
+): Promise<ResolveLabelResult> {
+  try {
+    return resolveLabelIn(await listLabels(provider), nameOrId);
+  } catch (e: any) {
+    return { success: false, error: e.message || "Unknown error" };
+  }
+}
+
+// ============================================================================
+// Label Lifecycle (create, rename, move, recolor, delete)
+// ============================================================================
+
+/**
+ * Call the Gmail or MS Graph API for label management.
+ * Returns the parsed JSON body (null when empty, e.g. after DELETE).
+ */
+async function labelRequest(
+  token: TokenInfo,
+  method: "GET" | "POST" | "PATCH" | "DELETE",
+  path: string,
+  body?: unknown
+): Promise<any> {
+  const provider = token.isMicrosoft ? "msgraph" : "gmail";
+  const base = token.isMicrosoft ? MSGRAPH_API_BASE : GMAIL_API_BASE;
+  const response = await apiFetch(provider, `${base}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token.accessToken}`,
+      ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (response.status === 401) {
+    throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+  }
+  if (!response.ok) {
+    throw await toApiError(provider, response);
+  }
+
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
+}
+
+function parseGmailColor(color: string): { backgroundColor: string; textColor: string } {
+  const [backgroundColor, textColor = "#ffffff"] = color.split("/").map((c) => c.trim());
+  return { backgroundColor: backgroundColor!, textColor };
+}
+
+function parentPath(path: string): string {
+  return path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+}
+
+function leafName(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+/**
+ * Rename a Gmail label and every label nested under it.
+ */
+async function renameGmailLabelTree(
+  token: TokenInfo,
+  labels: Label[],
+  label: Label,
+  newPath: string
+): Promise<Label> {
+  const children = labels.filter((l) => l.name.startsWith(`${label.name}/`));
+  const updated = await labelRequest(token, "PATCH", `/labels/${label.id}`, { name: newPath });
+  for (const child of children) {
+    await labelRequest(token, "PATCH", `/labels/${child.id}`, {
+      name: newPath + child.name.slice(label.name.length),
+    });
+  }
+  return { id: updated.id, name: updated.name, type: updated.type, kind: "label" };
+}
+
+async function resolveForChange(
+  token: TokenInfo,
+  nameOrId: string,
+  options: LabelLifecycleOptions
+): Promise<{ labels: Label[]; label?: Label; error?: string }> {
+  const labels = options.category
+    ? await listCategories(token)
+    : (await listLabelsDirect(token)).map((l): Label => ({ ...l, kind: token.isMicrosoft ? "folder" : "label" }));
+  const resolved = resolveLabelIn(labels, nameOrId);
+  return { labels, label: resolved.label, error: resolved.error };
+}
+
+/**
+ * Create a label (Gmail), mail folder or category (Outlook).
+ *
+ * Paths such as "Clients/Acme" create nested labels/folders; missing parents
+ * are created too.
+ *
+ * @param provider - The connection provider
+ * @param path - Label name or path
+ * @param options - Color, and whether to create an Outlook category
+ * @returns Result with the created label
+ */
+export async function createLabel(
+  provider: ConnectionProvider,
+  path: string,
+  options: CreateLabelOptions = {}
+): Promise<LabelChangeResult> {
+  try {
+    const token = await provider.getToken();
+    const name = normalizeLabelPath(path);
+    if (!name) {
+      return { success: false, error: "Label name is required" };
+    }
+
+    if (options.category) {
+      if (!token.isMicrosoft) {
+        return { success: false, error: "Categories are only available on Microsoft accounts" };
+      }
+      const category = await labelRequest(token, "POST", "/me/outlook/masterCategories", {
+        displayName: name,
+        ...(options.color ? { color: options.color } : {}),
+      });
+      return {
+        success: true,
+        label: { id: category.id, name: category.displayName, type: "category", kind: "category", color: category.color },
+      };
+    }
+
+    if (token.isMicrosoft && options.color) {
+      return { success: false, error: "Outlook folders have no color. Use --category to create a colored category." };
+    }
+
+    const labels = await listLabelsDirect(token);
+    if (labels.some((l) => l.name.toLowerCase() === name.toLowerCase())) {
+      return { success: false, error: `Label "${name}" already exists` };
+    }
+
+    // Create each missing level of the path, parents first
+    const segments = name.split("/");
+    let parent: Label | undefined;
+    let created: Label | undefined;
+    for (let i = 0; i < segments.length; i++) {
+      const levelPath = segments.slice(0, i + 1).join("/");
+      const existing = labels.find((l) => l.name.toLowerCase() === levelPath.toLowerCase());
+      if (existing) {
+        parent = existing;
+        continue;
+      }
+
+      const isLeaf = i === segments.length - 1;
+      if (token.isMicrosoft) {
+        const folder = await labelRequest(
+          token,
+          "POST",
+          parent ? `/me/mailFolders/${parent.id}/childFolders` : "/me/mailFolders",
+          { displayName: segments[i] }
+        );
+        created = { id: folder.id, name: levelPath, type: "folder", kind: "folder" };
+      } else {
+        const label = await labelRequest(token, "POST", "/labels", {
+          name: levelPath,
+          labelListVisibility: "labelShow",
+          messageListVisibility: "show",
+          ...(isLeaf && options.color ? { color: parseGmailColor(options.color) } : {}),
+        });
+        created = {
+          id: label.id,
+          name: label.name,
+          type: label.type,
+          kind: "label",
+          ...(label.color?.backgroundColor ? { color: label.color.backgroundColor } : {}),
+        };
+      }
+      labels.push(created);
+      parent = created;
+    }
+
+    return { success: true, label: created };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Unknown error" };
+  }
+}
+
+/**
+ * Rename a label, folder or category, keeping it under the same parent.
+ * Nested labels move along with it.
+ *
+ * @param provider - The connection provider
+ * @param nameOrId - Label ID, name or path
+ * @param newName - New name for the last path segment (use moveLabel to change the parent)
+ * @param options - Whether the label is an Outlook category
+ * @returns Result with the renamed label
+ */
+export async function renameLabel(
+  provider: ConnectionProvider,
+  nameOrId: string,
+  newName: string,
+  options: LabelLifecycleOptions = {}
+): Promise<LabelChangeResult> {
+  try {
+    const token = await provider.getToken();
+    const name = newName.trim();
+    if (!name || name.includes("/")) {
+      return { success: false, error: "New name must be a single name without '/'; use 'label move' to change the parent" };
+    }
+    if (options.category) {
+      return { success: false, error: "Outlook categories cannot be renamed. Create a new category instead." };
+    }
+
+    const { labels, label, error } = await resolveForChange(token, nameOrId, options);
+    if (!label) {
+      return { success: false, error };
+    }
+    if (label.type === "system") {
+      return { success: false, error: `System label ${label.name} cannot be renamed` };
+    }
+
+    const parent = parentPath(label.name);
+    const newPath = parent ? `${parent}/${name}` : name;
+
+    if (token.isMicrosoft) {
+      await labelRequest(token, "PATCH", `/me/mailFolders/${label.id}`, { displayName: name });
+      return { success: true, label: { ...label, name: newPath } };
+    }
+
+    return { success: true, label: await renameGmailLabelTree(token, labels, label, newPath) };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Unknown error" };
+  }
+}
+
+/**
+ * Move a label or folder under another one (nesting), or to the top level.
+ *
+ * @param provider - The connection provider
+ * @param nameOrId - Label ID, name or path to move
+ * @param newParent - Parent label ID, name or path; empty for the top level
+ * @returns Result with the moved label
+ */
+export async function moveLabel(
+  provider: ConnectionProvider,
+  nameOrId: string,
+  newParent: string
+): Promise<LabelChangeResult> {
+  try {
+    const token = await provider.getToken();
+    const { labels, label, error } = await resolveForChange(token, nameOrId, {});
+    if (!label) {
+      return { success: false, error };
+    }
+    if (label.type === "system") {
+      return { success: false, error: `System label ${label.name} cannot be moved` };
+    }
+
+    let parent: Label | undefined;
+    if (normalizeLabelPath(newParent)) {
+      const resolved = resolveLabelIn(labels, newParent);
+      if (!resolved.label) {
+        return { success: false, error: resolved.error };
+      }
+      parent = resolved.label;
+      if (parent.id === label.id || parent.name.startsWith(`${label.name}/`)) {
+        return { success: false, error: `Cannot move ${label.name} into itself` };
+      }
+    }
+
+    const newPath = parent ? `${parent.name}/${leafName(label.name)}` : leafName(label.name);
+
+    if (token.isMicrosoft) {
+      const folder = await labelRequest(token, "POST", `/me/mailFolders/${label.id}/move`, {
+        destinationId: parent ? parent.id : "msgfolderroot",
+      });
+      return { success: true, label: { id: folder?.id || label.id, name: newPath, type: "folder", kind: "folder" } };
+    }
+
+    return { success: true, label: await renameGmailLabelTree(token, labels, label, newPath) };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Unknown error" };
+  }
+}
+
+/**
+ * Change the color of a Gmail label or Outlook category.
+ *
+ * @param provider - The connection provider
+ * @param nameOrId - Label ID, name or path
+ * @param color - Gmail "#background[/#text]" or an Outlook category preset ("preset0")
+ * @param options - Whether the label is an Outlook category
+ * @returns Result with the updated label
+ */
+export async function recolorLabel(
+  provider: ConnectionProvider,
+  nameOrId: string,
+  color: string,
+  options: LabelLifecycleOptions = {}
+): Promise<LabelChangeResult> {
+  try {
+    const token = await provider.getToken();
+    if (token.isMicrosoft && !options.category) {
+      return { success: false, error: "Outlook folders have no color. Use --category to recolor a category." };
+    }
+
+    const { label, error } = await resolveForChange(token, nameOrId, options);
+    if (!label) {
+      return { success: false, error };
+    }
+
+    if (options.category) {
+      await labelRequest(token, "PATCH", `/me/outlook/masterCategories/${label.id}`, { color });
+      return { success: true, label: { ...label, color } };
+    }
+
+    const updated = await labelRequest(token, "PATCH", `/labels/${label.id}`, { color: parseGmailColor(color) });
+    return { success: true, label: { ...label, color: updated?.color?.backgroundColor || color } };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Unknown error" };
+  }
+}
+
+/**
+ * Delete a label, folder or category.
+ *
+ * Gmail keeps nested labels and removes the label from its messages.
+ * Outlook moves the folder, with its subfolders and messages, to Deleted Items.
+ *
+ * @param provider - The connection provider
+ * @param nameOrId - Label ID, name or path
+ * @param options - Whether the label is an Outlook category
+ * @returns Result with success status
+ */
+export async function deleteLabel(
+  provider: ConnectionProvider,
+  nameOrId: string,
+  options: LabelLifecycleOptions = {}
+): Promise<LabelChangeResult> {
+  try {
+    const token = await provider.getToken();
+    const { label, error } = await resolveForChange(token, nameOrId, options);
+    if (!label) {
+      return { success: false, error };
+    }
+    if (label.type === "system") {
+      return { success: false, error: `System label ${label.name} cannot be deleted` };
+    }
+
+    if (options.category) {
+      await labelRequest(token, "DELETE", `/me/outlook/masterCategories/${label.id}`);
+    } else if (token.isMicrosoft) {
+      await labelRequest(token, "DELETE", `/me/mailFolders/${label.id}`);
+    } else {
+      await labelRequest(token, "DELETE", `/labels/${label.id}`);
+    }
+    return { success: true };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Unknown error" };
+  }
+}
@@ -0,0 +1,654 @@
+/**
+ * Mail Cache Module
+ *
+ * Local SQLite store for inbox threads and message bodies, kept next to
+ * tokens.json in the config directory. Synced incrementally via the Gmail
+ * history API (historyId) or MS Graph delta queries, and used to answer
+ * inbox/search/read when running with --offline.
+ */
+
+import { Database } from "bun:sqlite";
+import { parseSearchQuery, type InboxThread } from "./inbox";
+import {
+  getConfigDirPath,
+  getGmailHistoryDirect,
+  getGmailHistoryIdDirect,
+  getMSGraphInboxDeltaDirect,
+  getThreadMessages,
+  getThreadSummaryDirect,
+  listInboxDirect,
+  listMSGraphInboxMessagesDirect,
+  type FullThreadMessage,
+  type MSGraphDeltaMessage,
+  type TokenInfo,
+} from "./token-api";
+import { ApiError } from "./http-client";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS threads (
+  account TEXT NOT NULL,
+  id TEXT NOT NULL,
+  subject TEXT NOT NULL DEFAULT '',
+  from_email TEXT NOT NULL DEFAULT '',
+  from_name TEXT NOT NULL DEFAULT '',
+  date TEXT NOT NULL DEFAULT '',
+  date_ms INTEGER NOT NULL DEFAULT 0,
+  snippet TEXT NOT NULL DEFAULT '',
+  label_ids TEXT NOT NULL DEFAULT '[]',
+  message_count INTEGER NOT NULL DEFAULT 0,
+  in_inbox INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (account, id)
+);
+CREATE TABLE IF NOT EXISTS messages (
+  account TEXT NOT NULL,
+  id TEXT NOT NULL,
+  thread_id TEXT NOT NULL,
+  subject TEXT NOT NULL DEFAULT '',
+  body TEXT NOT NULL DEFAULT '',
+  from_email TEXT NOT NULL DEFAULT '',
+  from_name TEXT NOT NULL DEFAULT '',
+  to_json TEXT NOT NULL DEFAULT '[]',
+  cc_json TEXT NOT NULL DEFAULT '[]',
+  date TEXT NOT NULL DEFAULT '',
+  date_ms INTEGER NOT NULL DEFAULT 0,
+  snippet TEXT NOT NULL DEFAULT '',
+  unread INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (account, id)
+);
+CREATE INDEX IF NOT EXISTS messages_by_thread ON messages (account, thread_id);
+CREATE TABLE IF NOT EXISTS sync_state (
+  account TEXT PRIMARY KEY,
+  is_microsoft INTEGER NOT NULL DEFAULT 0,
+  history_id TEXT,
+  delta_link TEXT,
+  last_sync INTEGER NOT NULL DEFAULT 0
+);
+`;
+
+/**
+ * Sync bookkeeping for one account.
+ */
+export interface SyncState {
+  account: string;
+  isMicrosoft: boolean;
+  historyId: string | null; // Gmail: last seen historyId
+  deltaLink: string | null; // MS Graph: @odata.deltaLink for the Inbox folder
+  lastSync: number; // Unix timestamp (ms)
+}
+
+export interface SyncOptions {
+  /** Number of inbox threads (Gmail) or messages (MS Graph) to fetch on a full (initial) sync. Default 50. */
+  limit?: number;
+  /** Discard the stored cursor and re-sync from scratch. */
+  full?: boolean;
+}
+
+export interface SyncResult {
+  account: string;
+  mode: "full" | "incremental";
+  threadsUpdated: number;
+  threadsRemoved: number;
+}
+
+export interface CacheSearchOptions {
+  limit?: number;
+  /** Include threads that are no longer in the inbox (archived/done). */
+  includeDone?: boolean;
+}
+
+/**
+ * Get the path to the mail cache database.
+ */
+export function getMailCachePath(): string {
+  return `${getConfigDirPath()}/mail-cache.db`;
+}
+
+/**
+ * Open (and create if needed) the mail cache database.
+ *
+ * @param path - Database path (default: mail-cache.db in the config dir)
+ */
+export async function openMailCache(path: string = getMailCachePath()): Promise<Database> {
+  if (path !== ":memory:") {
+    const { mkdir } = await import("node:fs/promises");
+    await mkdir(getConfigDirPath(), { recursive: true });
+  }
+  const db = new Database(path, { create: true });
+  db.exec("PRAGMA journal_mode = WAL;");
+  db.exec(SCHEMA);
+  return db;
+}
+
+// ============================================================================
+// Reads
+// ============================================================================
+
+interface ThreadRow {
+  id: string;
+  subject: string;
+  from_email: string;
+  from_name: string;
+  date: string;
+  snippet: string;
+  label_ids: string;
+  message_count: number;
+}
+
+interface MessageRow {
+  id: string;
+  thread_id: string;
+  subject: string;
+  body: string;
+  from_email: string;
+  from_name: string;
+  to_json: string;
+  cc_json: string;
+  date: string;
+  date_ms: number;
+  snippet: string;
+  unread: number;
+}
+
+function rowToThread(row: ThreadRow): InboxThread {
+  return {
+    id: row.id,
+    subject: row.subject,
+    from: { email: row.from_email, name: row.from_name },
+    date: row.date,
+    snippet: row.snippet,
+    labelIds: JSON.parse(row.label_ids),
+    messageCount: row.message_count,
+  };
+}
+
+function rowToMessage(row: MessageRow): FullThreadMessage {
+  return {
+    message_id: row.id,
+    subject: row.subject,
+    body: row.body,
+    from: { email: row.from_email, name: row.from_name },
+    to: JSON.parse(row.to_json),
+    cc: JSON.parse(row.cc_json),
+    date: row.date,
+    snippet: row.snippet,
+  };
+}
+
+/**
+ * List cached inbox threads, newest first.
+ */
+export function getCachedInbox(db: Database, account: string, limit: number = 10): InboxThread[] {
+  const rows = db
+    .query(
+      `SELECT * FROM threads WHERE account = ? AND in_inbox = 1 ORDER BY date_ms DESC LIMIT ?`
+    )
+    .all(account, limit) as ThreadRow[];
+  return rows.map(rowToThread);
+}
+
+/**
+ * Escape LIKE wildcards so `%` and `_` in a query match literally (with ESCAPE '\').
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Search cached threads.
+ *
+ * Supports a subset of Gmail query syntax: `from:`, `to:`, `subject:` and
+ * `label:` operators plus free-text terms (matched against subject, sender,
+ * snippet and message bodies). Other operators are ignored.
+ */
+export function searchCachedThreads(
+  db: Database,
+  account: string,
+  query: string,
+  options: CacheSearchOptions = {}
+): InboxThread[] {
+  const { limit = 10, includeDone = false } = options;
+  const where: string[] = ["t.account = ?"];
+  const params: Array<string | number> = [account];
+
+  if (!includeDone) {
+    where.push("t.in_inbox = 1");
+  }
+
+  for (const { op, value } of parseSearchQuery(query)) {
+    const like = `%${escapeLike(value)}%`;
+
+    switch (op) {
+      case "":
+        where.push(
+          `(t.subject LIKE ? ESCAPE '\\' OR t.snippet LIKE ? ESCAPE '\\' OR t.from_email LIKE ? ESCAPE '\\' OR t.from_name LIKE ? ESCAPE '\\'
+            OR EXISTS (SELECT 1 FROM messages m WHERE m.account = t.account AND m.thread_id = t.id AND m.body LIKE ? ESCAPE '\\'))`
+        );
+        params.push(like, like, like, like, like);
+        break;
+      case "from":
+        where.push(
+          `(t.from_email LIKE ? ESCAPE '\\' OR t.from_name LIKE ? ESCAPE '\\'
+            OR EXISTS (SELECT 1 FROM messages m WHERE m.account = t.account AND m.thread_id = t.id AND (m.from_email LIKE ? ESCAPE '\\' OR m.from_name LIKE ? ESCAPE '\\')))`
+        );
+        params.push(like, like, like, like);
+        break;
+      case "to":
+        where.push(
+          `EXISTS (SELECT 1 FROM messages m WHERE m.account = t.account AND m.thread_id = t.id AND (m.to_json LIKE ? ESCAPE '\\' OR m.cc_json LIKE ? ESCAPE '\\'))`
+        );
+        params.push(like, like);
+        break;
+      case "subject":
+        where.push("t.subject LIKE ? ESCAPE '\\'");
+        params.push(like);
+        break;
+      case "label":
+        where.push("t.label_ids LIKE ? ESCAPE '\\'");
+        params.push(`%"${escapeLike(value)}"%`);
+        break;
+      default:
+        // Unsupported operator (e.g. older_than:, has:) - ignore offline
+        break;
+    }
+  }
+
+  params.push(limit);
+  const rows = db
+    .query(`SELECT t.* FROM threads t WHERE ${where.join(" AND ")} ORDER BY t.date_ms DESC LIMIT ?`)
+    .all(...params) as ThreadRow[];
+  return rows.map(rowToThread);
+}
+
+/**
+ * Get cached messages for a thread, oldest first.
+ */
+export function getCachedThreadMessages(
+  db: Database,
+  account: string,
+  threadId: string
+): FullThreadMessage[] {
+  const rows = db
+    .query(`SELECT * FROM messages WHERE account = ? AND thread_id = ? ORDER BY date_ms ASC`)
+    .all(account, threadId) as MessageRow[];
+  return rows.map(rowToMessage);
+}
+
+/**
+ * Get sync bookkeeping for an account, or null if it was never synced.
+ */
+export function getSyncState(db: Database, account: string): SyncState | null {
+  const row = db
+    .query(`SELECT * FROM sync_state WHERE account = ?`)
+    .get(account) as {
+      account: string;
+      is_microsoft: number;
+      history_id: string | null;
+      delta_link: string | null;
+      last_sync: number;
+    } | null;
+
+  if (!row) return null;
+  return {
+    account: row.account,
+    isMicrosoft: row.is_microsoft === 1,
+    historyId: row.history_id,
+    deltaLink: row.delta_link,
+    lastSync: row.last_sync,
+  };
+}
+
+/**
+ * List accounts that have been synced into the cache.
+ */
+export function listCachedMailAccounts(db: Database): string[] {
+  const rows = db.query(`SELECT account FROM sync_state ORDER BY account`).all() as Array<{ account: string }>;
+  return rows.map((r) => r.account);
+}
+
+// ============================================================================
+// Writes
+// ============================================================================
+
+function toDateMs(date: string): number {
+  const ms = Date.parse(date);
+  return Number.isNaN(ms) ? 0 : ms;
+}
+
+/**
+ * Insert or replace a thread summary.
+ */
+export function upsertThread(db: Database, account: string, thread: InboxThread, inInbox: boolean): void {
+  db.query(
+    `INSERT OR REPLACE INTO threads
+      (account, id, subject, from_email, from_name, date, date_ms, snippet, label_ids, message_count, in_inbox)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    account,
+    thread.id,
+    thread.subject,
+    thread.from.email,
+    thread.from.name,
+    thread.date,
+    toDateMs(thread.date),
+    thread.snippet,
+    JSON.stringify(thread.labelIds),
+    thread.messageCount,
+    inInbox ? 1 : 0
+  );
+}
+
+function upsertMessage(
+  db: Database,
+  account: string,
+  threadId: string,
+  msg: FullThreadMessage,
+  unread: boolean = false
+): void {
+  db.query(
+    `INSERT OR REPLACE INTO messages
+      (account, id, thread_id, subject, body, from_email, from_name, to_json, cc_json, date, date_ms, snippet, unread)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    account,
+    msg.message_id,
+    threadId,
+    msg.subject,
+    msg.body,
+    msg.from.email,
+    msg.from.name,
+    JSON.stringify(msg.to),
+    JSON.stringify(msg.cc),
+    msg.date,
+    toDateMs(msg.date),
+    msg.snippet,
+    unread ? 1 : 0
+  );
+}
+
+/**
+ * Replace all cached messages of a thread.
+ */
+export function replaceThreadMessages(
+  db: Database,
+  account: string,
+  threadId: string,
+  messages: FullThreadMessage[]
+): void {
+  db.transaction(() => {
+    db.query(`DELETE FROM messages WHERE account = ? AND thread_id = ?`).run(account, threadId);
+    for (const msg of messages) {
+      upsertMessage(db, account, threadId, msg);
+    }
+  })();
+}
+
+/**
+ * Remove a thread and its messages from the cache.
+ */
+export function removeThread(db: Database, account: string, threadId: string): void {
+  db.transaction(() => {
+    db.query(`DELETE FROM messages WHERE account = ? AND thread_id = ?`).run(account, threadId);
+    db.query(`DELETE FROM threads WHERE account = ? AND id = ?`).run(account, threadId);
+  })();
+}
+
+/**
+ * Drop everything cached for an account (threads, messages and sync cursor).
+ */
+export function clearAccount(db: Database, account: string): void {
+  db.transaction(() => {
+    db.query(`DELETE FROM messages WHERE account = ?`).run(account);
+    db.query(`DELETE FROM threads WHERE account = ?`).run(account);
+    db.query(`DELETE FROM sync_state WHERE account = ?`).run(account);
+  })();
+}
+
+function saveSyncState(db: Database, state: SyncState): void {
+  db.query(
+    `INSERT OR REPLACE INTO sync_state (account, is_microsoft, history_id, delta_link, last_sync)
+     VALUES (?, ?, ?, ?, ?)`
+  ).run(state.account, state.isMicrosoft ? 1 : 0, state.historyId, state.deltaLink, state.lastSync);
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+/**
+ * Sync the cache for one account.
+ *
+ * The first sync (or one with `full: true`) fetches the newest `limit` inbox
+ * threads. Later syncs only fetch threads that changed since the stored
+ * Gmail historyId / MS Graph deltaLink. An expired cursor falls back to a
+ * full sync.
+ *
+ * @param db - Open mail cache
+ * @param token - Token for the account to sync
+ * @param options - Sync options
+ */
+export async function syncMailCache(
+  db: Database,
+  token: TokenInfo,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  if (options.full) {
+    clearAccount(db, token.email);
+  }
+  if (token.isMicrosoft) {
+    return syncMSGraph(db, token, options.limit ?? 50);
+  }
+  return syncGmail(db, token, options.limit ?? 50);
+}
+
+function isStatusError(e: unknown, status: number): boolean {
+  return e instanceof ApiError && e.status === status;
+}
+
+async function fullSyncGmail(db: Database, token: TokenInfo, limit: number): Promise<SyncResult> {
+  const account = token.email;
+  const historyId = await getGmailHistoryIdDirect(token);
+
+  const threads = await listInboxDirect(token, limit);
+  db.transaction(() => {
+    db.query(`DELETE FROM messages WHERE account = ?`).run(account);
+    db.query(`DELETE FROM threads WHERE account = ?`).run(account);
+  })();
+
+  for (const thread of threads) {
+    upsertThread(db, account, thread, true);
+    replaceThreadMessages(db, account, thread.id, await getThreadMessages(token, thread.id));
+  }
+
+  saveSyncState(db, { account, isMicrosoft: false, historyId, deltaLink: null, lastSync: Date.now() });
+
+  return { account, mode: "full", threadsUpdated: threads.length, threadsRemoved: 0 };
+}
+
+async function syncGmail(db: Database, token: TokenInfo, limit: number): Promise<SyncResult> {
+  const account = token.email;
+  const state = getSyncState(db, account);
+  if (!state?.historyId) {
+    return fullSyncGmail(db, token, limit);
+  }
+
+  const history = await getGmailHistoryDirect(token, state.historyId);
+  if (!history) {
+    // Stored historyId is too old - start over
+    return fullSyncGmail(db, token, limit);
+  }
+
+  let threadsUpdated = 0;
+  let threadsRemoved = 0;
+
+  for (const { threadId, inInbox: inboxChange } of history.changes) {
+    let summary = null;
+    try {
+      summary = await getThreadSummaryDirect(token, threadId);
+    } catch (e) {
+      if (!isStatusError(e, 404)) throw e;
+    }
+
+    if (!summary) {
+      removeThread(db, account, threadId);
+      threadsRemoved++;
+      continue;
+    }
+
+    const existing = db
+      .query(`SELECT in_inbox FROM threads WHERE account = ? AND id = ?`)
+      .get(account, threadId) as { in_inbox: number } | null;
+    const inInbox = inboxChange ?? existing?.in_inbox === 1;
+
+    upsertThread(db, account, summary, inInbox);
+    replaceThreadMessages(db, account, threadId, await getThreadMessages(token, threadId));
+    threadsUpdated++;
+  }
+
+  saveSyncState(db, {
+    account,
+    isMicrosoft: false,
+    historyId: history.historyId,
+    deltaLink: null,
+    lastSync: Date.now(),
+  });
+
+  return { account, mode: "incremental", threadsUpdated, threadsRemoved };
+}
+
+function mapGraphAddress(r?: { emailAddress?: { address?: string; name?: string } }): { email: string; name: string } {
+  return { email: r?.emailAddress?.address || "", name: r?.emailAddress?.name || "" };
+}
+
+/**
+ * Rebuild a conversation's thread summary from its cached messages.
+ */
+function rebuildGraphThread(db: Database, account: string, conversationId: string): boolean {
+  const rows = db
+    .query(`SELECT * FROM messages WHERE account = ? AND thread_id = ? ORDER BY date_ms DESC`)
+    .all(account, conversationId) as MessageRow[];
+
+  const latest = rows[0];
+  if (!latest) {
+    db.query(`DELETE FROM threads WHERE account = ? AND id = ?`).run(account, conversationId);
+    return false;
+  }
+
+  upsertThread(
+    db,
+    account,
+    {
+      id: conversationId,
+      subject: latest.subject || "(no subject)",
+      from: { email: latest.from_email, name: latest.from_name },
+      date: latest.date,
+      snippet: latest.snippet,
+      labelIds: latest.unread ? ["UNREAD"] : [],
+      messageCount: rows.length,
+    },
+    true
+  );
+  return true;
+}
+
+/**
+ * Store Graph messages (and drop removed ones), then rebuild the affected threads.
+ */
+function applyGraphMessages(
+  db: Database,
+  account: string,
+  messages: MSGraphDeltaMessage[],
+  removedIds: string[]
+): Pick<SyncResult, "threadsUpdated" | "threadsRemoved"> {
+  const affected = new Set<string>();
+
+  for (const id of removedIds) {
+    const existing = db
+      .query(`SELECT thread_id FROM messages WHERE account = ? AND id = ?`)
+      .get(account, id) as { thread_id: string } | null;
+    if (existing) {
+      db.query(`DELETE FROM messages WHERE account = ? AND id = ?`).run(account, id);
+      affected.add(existing.thread_id);
+    }
+  }
+
+  for (const msg of messages) {
+    if (!msg.conversationId) continue;
+    upsertMessage(
+      db,
+      account,
+      msg.conversationId,
+      {
+        message_id: msg.id,
+        subject: msg.subject || "",
+        body: msg.body?.content || "",
+        from: mapGraphAddress(msg.from),
+        to: (msg.toRecipients || []).map(mapGraphAddress),
+        cc: (msg.ccRecipients || []).map(mapGraphAddress),
+        date: msg.receivedDateTime || "",
+        snippet: msg.bodyPreview || "",
+      },
+      msg.isRead === false
+    );
+    affected.add(msg.conversationId);
+  }
+
+  let threadsUpdated = 0;
+  let threadsRemoved = 0;
+  for (const conversationId of affected) {
+    if (rebuildGraphThread(db, account, conversationId)) {
+      threadsUpdated++;
+    } else {
+      threadsRemoved++;
+    }
+  }
+  return { threadsUpdated, threadsRemoved };
+}
+
+async function fullSyncMSGraph(db: Database, token: TokenInfo, limit: number): Promise<SyncResult> {
+  const account = token.email;
+  // Take the cursor first so changes made while listing show up in the next sync
+  const delta = await getMSGraphInboxDeltaDirect(token, "latest");
+  if (!delta) {
+    throw new Error("MS Graph rejected the initial delta query");
+  }
+
+  const messages = await listMSGraphInboxMessagesDirect(token, limit);
+  clearAccount(db, account);
+  const counts = applyGraphMessages(db, account, messages, []);
+
+  saveSyncState(db, {
+    account,
+    isMicrosoft: true,
+    historyId: null,
+    deltaLink: delta.deltaLink,
+    lastSync: Date.now(),
+  });
+
+  return { account, mode: "full", ...counts };
+}
+
+async function syncMSGraph(db: Database, token: TokenInfo, limit: number): Promise<SyncResult> {
+  const account = token.email;
+  const state = getSyncState(db, account);
+  if (!state?.deltaLink) {
+    return fullSyncMSGraph(db, token, limit);
+  }
+
+  const delta = await getMSGraphInboxDeltaDirect(token, state.deltaLink);
+  if (!delta) {
+    // Delta token expired - start over
+    return fullSyncMSGraph(db, token, limit);
+  }
+
+  const counts = applyGraphMessages(db, account, delta.messages, delta.removedIds);
+
+  saveSyncState(db, {
+    account,
+    isMicrosoft: true,
+    historyId: null,
+    deltaLink: delta.deltaLink,
+    lastSync: Date.now(),
+  });
+
+  return { account, mode: "incremental", ...counts };
+}
@@ -0,0 +1,133 @@
+/**
+ * MCP Resources for Superhuman CLI
+ *
+ * Exposes the inbox and individual threads as subscribable MCP resources.
+ * While at least one client subscription is active, a watcher polls for
+ * mailbox changes and sends notifications/resources/updated.
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { listInbox } from "../inbox";
+import { readThread } from "../read";
+import { watchInbox } from "../watch";
+import { getMcpProvider } from "./tools";
+
+export const INBOX_RESOURCE_URI = "superhuman://inbox";
+const THREAD_RESOURCE_PREFIX = "superhuman://threads/";
+
+/** Poll interval for the subscription watcher */
+const WATCH_INTERVAL_MS = 30000;
+
+/**
+ * Read callback for superhuman://inbox
+ */
+export async function readInboxResource(uri: URL) {
+  const provider = await getMcpProvider();
+  try {
+    const threads = await listInbox(provider, { limit: 25 });
+    return {
+      contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(threads, null, 2) }],
+    };
+  } finally {
+    await provider.disconnect();
+  }
+}
+
+/**
+ * Read callback for superhuman://threads/{threadId}
+ */
+export async function readThreadResource(uri: URL, variables: { threadId?: string | string[] }) {
+  const threadId = Array.isArray(variables.threadId) ? variables.threadId[0] : variables.threadId;
+  if (!threadId) {
+    throw new Error(`Invalid thread resource URI: ${uri.href}`);
+  }
+
+  const provider = await getMcpProvider();
+  try {
+    const messages = await readThread(provider, decodeURIComponent(threadId));
+    return {
+      contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(messages, null, 2) }],
+    };
+  } finally {
+    await provider.disconnect();
+  }
+}
+
+/**
+ * Register inbox/thread resources and subscription handling on a server.
+ *
+ * Clients subscribe to superhuman://inbox (any inbox change) or
+ * superhuman://threads/{threadId} (changes to one thread).
+ */
+export function registerInboxResources(server: McpServer, intervalMs: number = WATCH_INTERVAL_MS): void {
+  server.registerResource(
+    "inbox",
+    INBOX_RESOURCE_URI,
+    {
+      description: "Recent inbox threads (JSON, InboxThread shape). Subscribe to get notified of new or changed threads.",
+      mimeType: "application/json",
+    },
+    readInboxResource
+  );
+
+  server.registerResource(
+    "thread",
+    new ResourceTemplate(`${THREAD_RESOURCE_PREFIX}{threadId}`, { list: undefined }),
+    {
+      description: "Messages of a single thread (JSON). Subscribe to get notified when the thread changes.",
+      mimeType: "application/json",
+    },
+    readThreadResource
+  );
+
+  const subscriptions = new Set<string>();
+  let watcher: AbortController | null = null;
+
+  const startWatcher = async () => {
+    if (watcher) return;
+    const controller = new AbortController();
+    watcher = controller;
+
+    try {
+      const provider = await getMcpProvider();
+      watchInbox(provider, {
+        intervalMs,
+        signal: controller.signal,
+        onThread: async (thread) => {
+          if (subscriptions.has(INBOX_RESOURCE_URI)) {
+            await server.server.sendResourceUpdated({ uri: INBOX_RESOURCE_URI });
+          }
+          const threadUri = `${THREAD_RESOURCE_PREFIX}${encodeURIComponent(thread.id)}`;
+          if (subscriptions.has(threadUri)) {
+            await server.server.sendResourceUpdated({ uri: threadUri });
+          }
+        },
+        onError: (e) => console.error(`Inbox watcher poll failed: ${e.message}`),
+      })
+        .catch((e) => console.error(`Inbox watcher stopped: ${e instanceof Error ? e.message : e}`))
+        .finally(() => {
+          provider.disconnect();
+          if (watcher === controller) watcher = null;
+        });
+    } catch (e) {
+      if (watcher === controller) watcher = null;
+      console.error(`Could not start inbox watcher: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    await startWatcher();
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    if (subscriptions.size === 0 && watcher) {
+      watcher.abort();
+      watcher = null;
+    }
+    return {};
+  });
+}
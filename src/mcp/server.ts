@@ -15,6 +15,8 @@ import {
   SnoozeSchema, UnsnoozeSchema, SnoozedSchema,
   AttachmentsSchema, DownloadAttachmentSchema,
   CalendarListSchema, CalendarCreateSchema, CalendarUpdateSchema, CalendarDeleteSchema, CalendarFreeBusySchema,
+  CalendarRsvpSchema, InvitesSchema, CalendarFindTimeSchema, CalendarProposeSchema,
+  CalendarExportSchema, CalendarImportSchema,
   draftHandler, sendHandler, searchHandler, inboxHandler, readHandler,
   accountsHandler, switchAccountHandler, replyHandler, replyAllHandler, forwardHandler,
   archiveHandler, deleteHandler,
@@ -23,15 +25,20 @@ import {
   snoozeHandler, unsnoozeHandler, snoozedHandler,
   attachmentsHandler, downloadAttachmentHandler,
   calendarListHandler, calendarCreateHandler, calendarUpdateHandler, calendarDeleteHandler, calendarFreeBusyHandler,
-  SnippetsSchema, UseSnippetSchema,
-  snippetsHandler, useSnippetHandler,
+  calendarRsvpHandler, invitesHandler, calendarFindTimeHandler, calendarProposeHandler,
+  calendarExportHandler, calendarImportHandler,
+  SnippetsSchema, UseSnippetSchema, SnippetVariablesSchema,
+  snippetsHandler, useSnippetHandler, snippetVariablesHandler,
+  ScheduleSendSchema, ScheduledListSchema,
+  scheduleSendHandler, scheduledListHandler,
   AskAISchema, askAIHandler,
 } from "./tools";
+import { registerInboxResources } from "./resources";
 
 function createMcpServer(): McpServer {
   const server = new McpServer(
     { name: "superhuman-cli", version: "1.0.0" },
-    { capabilities: { tools: {} } }
+    { capabilities: { tools: {}, resources: { subscribe: true } } }
   );
 
   server.registerTool(
@@ -73,7 +80,7 @@ function createMcpServer(): McpServer {
   server.registerTool(
     "superhuman_read",
     {
-      description: "Read a specific email thread by ID. Returns all messages in the thread with full details.",
+      description: "Read a specific email thread by ID. Returns the thread as Markdown: each message's headers, body (links as footnotes, quoted history collapsed) and attachments.",
       inputSchema: ReadSchema,
     },
     readHandler
@@ -118,7 +125,7 @@ function createMcpServer(): McpServer {
   server.registerTool(
     "superhuman_forward",
     {
-      description: "Forward an email thread to a new recipient. Creates a draft by default, or sends immediately with send=true. Includes the original message with forwarding headers.",
+      description: "Forward an email thread to a new recipient. Creates a draft by default, or sends immediately with send=true. Includes the original message with forwarding headers (sender, date, recipients, Cc) and its attachments. Use messageId to forward a specific message or all=true for the whole thread.",
       inputSchema: ForwardSchema,
     },
     forwardHandler
@@ -163,7 +170,7 @@ function createMcpServer(): McpServer {
   server.registerTool(
     "superhuman_labels",
     {
-      description: "List all available labels/folders in the Superhuman account. Returns label IDs and names.",
+      description: "List all available labels/folders in the Superhuman account. Returns label IDs, names and kind (label, or folder/category on Outlook).",
       inputSchema: LabelsSchema,
     },
     labelsHandler
@@ -172,7 +179,7 @@ function createMcpServer(): McpServer {
   server.registerTool(
     "superhuman_get_labels",
     {
-      description: "Get all labels on a specific email thread. Returns label IDs and names for the thread.",
+      description: "Get all labels on a specific email thread. Returns label IDs, names and kind for the thread (Outlook threads have folders and categories).",
       inputSchema: GetLabelsSchema,
     },
     getLabelsHandler
@@ -280,7 +287,7 @@ function createMcpServer(): McpServer {
   server.registerTool(
     "superhuman_calendar_create",
     {
-      description: "Create a new calendar event in Superhuman. Supports timed events and all-day events with optional attendees.",
+      description: "Create a new calendar event in Superhuman. Supports timed events and all-day events with optional attendees, and recurring events via a repeat rule.",
       inputSchema: CalendarCreateSchema,
     },
     calendarCreateHandler
@@ -289,7 +296,7 @@ function createMcpServer(): McpServer {
   server.registerTool(
     "superhuman_calendar_update",
     {
-      description: "Update an existing calendar event in Superhuman. Can modify title, times, description, or attendees.",
+      description: "Update an existing calendar event in Superhuman. Can modify title, times, description, or attendees. For recurring events, scope picks one occurrence, this and following, or the whole series.",
       inputSchema: CalendarUpdateSchema,
     },
     calendarUpdateHandler
@@ -298,7 +305,7 @@ function createMcpServer(): McpServer {
   server.registerTool(
     "superhuman_calendar_delete",
     {
-      description: "Delete a calendar event from Superhuman by its event ID.",
+      description: "Delete a calendar event from Superhuman by its event ID. For recurring events, scope picks one occurrence, this and following, or the whole series.",
       inputSchema: CalendarDeleteSchema,
     },
     calendarDeleteHandler
@@ -313,6 +320,60 @@ function createMcpServer(): McpServer {
     calendarFreeBusyHandler
   );
 
+  server.registerTool(
+    "superhuman_calendar_find_time",
+    {
+      description: "Find times when you and every attendee are free, within working hours on weekdays, using each attendee's calendar free/busy. Returns ranked slots (best first); set book and title to create the event in the chosen slot and send invites.",
+      inputSchema: CalendarFindTimeSchema,
+    },
+    calendarFindTimeHandler
+  );
+
+  server.registerTool(
+    "superhuman_calendar_propose",
+    {
+      description: "Propose times you are free over the next working days, formatted as text and HTML ready to paste into a reply or pass as a snippet variable. Optionally places tentative holds on the proposed times; holds are released once one of the times is booked (an event starting at a held time).",
+      inputSchema: CalendarProposeSchema,
+    },
+    calendarProposeHandler
+  );
+
+  server.registerTool(
+    "superhuman_calendar_export",
+    {
+      description: "Export calendar events as an iCalendar (.ics) file, with recurrence rules, attendees and time zones. Recurring events appear once, as the series.",
+      inputSchema: CalendarExportSchema,
+    },
+    calendarExportHandler
+  );
+
+  server.registerTool(
+    "superhuman_calendar_import",
+    {
+      description: "Import events from iCalendar (.ics) text. Events are matched by UID: new ones are created, changed ones updated and unchanged ones left alone, so re-importing a file is safe. Use dryRun to preview.",
+      inputSchema: CalendarImportSchema,
+    },
+    calendarImportHandler
+  );
+
+  server.registerTool(
+    "superhuman_calendar_rsvp",
+    {
+      description: "Accept, decline or tentatively accept a calendar invitation. The organizer is notified, with the optional comment.",
+      inputSchema: CalendarRsvpSchema,
+    },
+    calendarRsvpHandler
+  );
+
+  server.registerTool(
+    "superhuman_invites",
+    {
+      description: "List meeting invitations waiting for a response: calendar events not yet answered, plus invitations found in inbox emails (.ics). Returns event IDs for superhuman_calendar_rsvp; emailed invitations missing from the calendar have no event ID.",
+      inputSchema: InvitesSchema,
+    },
+    invitesHandler
+  );
+
   server.registerTool(
     "superhuman_snippets",
     {
@@ -325,12 +386,39 @@ function createMcpServer(): McpServer {
   server.registerTool(
     "superhuman_snippet",
     {
-      description: "Use a snippet to compose or send an email. Fuzzy-matches snippet by name, applies template variables, and creates a draft or sends immediately.",
+      description: "Use a snippet to compose or send an email. Fuzzy-matches snippet by name, applies template variables (use superhuman_snippet_variables to see which are required), and creates a draft, sends immediately, or schedules the send with 'at'/'in'.",
       inputSchema: UseSnippetSchema,
     },
     useSnippetHandler
   );
 
+  server.registerTool(
+    "superhuman_snippet_variables",
+    {
+      description: "List the template variables a snippet uses, with their formats and defaults. Shows which ones are filled from the recipient's contact (first_name, last_name, name, email) and which must be passed as 'vars' to superhuman_snippet. Sending fails while required variables are missing.",
+      inputSchema: SnippetVariablesSchema,
+    },
+    snippetVariablesHandler
+  );
+
+  server.registerTool(
+    "superhuman_schedule_send",
+    {
+      description: "Schedule an email (new message, reply, reply-all or forward) to be sent later instead of immediately. Returns a scheduled ID that superhuman_scheduled_list shows until the send time.",
+      inputSchema: ScheduleSendSchema,
+    },
+    scheduleSendHandler
+  );
+
+  server.registerTool(
+    "superhuman_scheduled_list",
+    {
+      description: "List pending scheduled sends that have not gone out yet.",
+      inputSchema: ScheduledListSchema,
+    },
+    scheduledListHandler
+  );
+
   server.registerTool(
     "superhuman_ask_ai",
     {
@@ -340,6 +428,8 @@ function createMcpServer(): McpServer {
     askAIHandler
   );
 
+  registerInboxResources(server);
+
   return server;
 }
 
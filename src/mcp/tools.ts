@@ -13,24 +13,50 @@ import {
 } from "../superhuman-api";
 import { listInbox, searchInbox, type SearchOptions } from "../inbox";
 import { readThread } from "../read";
+import { renderThreadMarkdown } from "../render";
 import { listAccounts, switchAccount } from "../accounts";
 import { replyToThread, replyAllToThread, forwardThread } from "../reply";
 import { archiveThread, deleteThread } from "../archive";
 import { markAsRead, markAsUnread } from "../read-status";
-import { listLabels, getThreadLabels, addLabel, removeLabel, starThread, unstarThread, listStarred } from "../labels";
+import { listLabels, getThreadLabels, addLabel, removeLabel, starThread, unstarThread, listStarred, resolveLabel } from "../labels";
 import { parseSnoozeTime, snoozeThreadViaProvider, unsnoozeThreadViaProvider, listSnoozedViaProvider } from "../snooze";
 import { listAttachments, downloadAttachment } from "../attachments";
+import { withUndo, type UndoLog } from "../history";
 import {
   listEvents,
   createEvent,
   updateEvent,
   deleteEvent as deleteCalendarEvent,
   getFreeBusy,
+  findMeetingTimes,
+  parseWithin,
+  parseWorkingHours,
+  respondToEvent,
+  parseRsvpResponse,
+  listInvitations,
+  exportEvents,
+  importIcs,
+  parseRepeat,
+  toZonedDateTime,
+  isTimeZone,
+  updateEventInScope,
+  deleteEventInScope,
   type CreateEventInput,
   type UpdateEventInput,
 } from "../calendar";
-import { listSnippets, findSnippet, applyVars, parseVars } from "../snippets";
-import { getUserInfo, getUserInfoFromCache, createDraftWithUserInfo, sendDraftSuperhuman } from "../draft-api";
+import { proposeAvailability, placeHolds, releaseBookedHolds } from "../availability";
+import {
+  listSnippets,
+  findSnippet,
+  applyVars,
+  parseVars,
+  findVariables,
+  missingVariables,
+  resolveSnippetVars,
+  type SnippetVariable,
+} from "../snippets";
+import { getUserInfo, getUserInfoFromCache, createDraftWithUserInfo, sendDraftSuperhuman, type DraftOptions } from "../draft-api";
+import { parseSendTime, scheduleDraftSend, listScheduledSends } from "../scheduled";
 import { sendEmailViaProvider, createDraftViaProvider } from "../send-api";
 import { CDPConnectionProvider, resolveProvider, type ConnectionProvider } from "../connection-provider";
 import {
@@ -39,6 +65,7 @@ import {
   getCachedAccounts,
   hasCachedSuperhumanCredentials,
   askAISearch,
+  getThreadInfoDirect,
   type TokenInfo,
 } from "../token-api";
 
@@ -134,6 +161,8 @@ export const ForwardSchema = z.object({
   toEmail: z.string().describe("Email address to forward to"),
   body: z.string().describe("Message body to include before the forwarded content"),
   send: z.boolean().optional().describe("Send immediately instead of creating draft (default: false)"),
+  messageId: z.string().optional().describe("Forward this message instead of the thread's latest one"),
+  all: z.boolean().optional().describe("Forward every message in the thread as one digest (default: false)"),
 });
 
 /**
@@ -181,7 +210,7 @@ export const GetLabelsSchema = z.object({
  */
 export const AddLabelSchema = z.object({
   threadIds: z.array(z.string()).describe("Thread ID(s) to add the label to"),
-  labelId: z.string().describe("The label ID to add"),
+  labelId: z.string().describe("The label to add: name, path (Clients/Acme) or ID"),
 });
 
 /**
@@ -189,7 +218,7 @@ export const AddLabelSchema = z.object({
  */
 export const RemoveLabelSchema = z.object({
   threadIds: z.array(z.string()).describe("Thread ID(s) to remove the label from"),
-  labelId: z.string().describe("The label ID to remove"),
+  labelId: z.string().describe("The label to remove: name, path (Clients/Acme) or ID"),
 });
 
 /**
@@ -272,8 +301,15 @@ export const CalendarCreateSchema = z.object({
   description: z.string().optional().describe("Event description"),
   attendees: z.array(z.string()).optional().describe("List of attendee email addresses"),
   allDay: z.boolean().optional().describe("Whether this is an all-day event (if true, use date format YYYY-MM-DD for startTime)"),
+  repeat: z.string().optional().describe("Make the event recurring, e.g. 'weekly on Mon,Wed until 2026-12-31', 'daily 10 times', 'monthly on the last Friday'"),
+  timeZone: z.string().optional().describe("IANA time zone a recurring event repeats in, e.g. 'Europe/Berlin' (default: the server's zone)"),
 });
 
+const RecurrenceScopeSchema = z
+  .enum(["instance", "following", "series"])
+  .optional()
+  .describe("For an occurrence of a recurring event: change just this occurrence (default), this and following occurrences, or the whole series");
+
 /**
  * Zod schema for updating a calendar event
  */
@@ -284,6 +320,7 @@ export const CalendarUpdateSchema = z.object({
   endTime: z.string().optional().describe("New end time as ISO datetime"),
   description: z.string().optional().describe("New event description"),
   attendees: z.array(z.string()).optional().describe("New list of attendee email addresses"),
+  scope: RecurrenceScopeSchema,
 });
 
 /**
@@ -291,6 +328,23 @@ export const CalendarUpdateSchema = z.object({
  */
 export const CalendarDeleteSchema = z.object({
   eventId: z.string().describe("The event ID to delete"),
+  scope: RecurrenceScopeSchema,
+});
+
+/**
+ * Zod schema for responding to a calendar invitation
+ */
+export const CalendarRsvpSchema = z.object({
+  eventId: z.string().describe("The event ID to respond to (from superhuman_invites or superhuman_calendar_list)"),
+  response: z.enum(["accept", "decline", "tentative"]).describe("How to respond"),
+  comment: z.string().optional().describe("Optional note to the organizer"),
+});
+
+/**
+ * Zod schema for listing pending invitations
+ */
+export const InvitesSchema = z.object({
+  days: z.number().optional().describe("How many days ahead to look in the calendar (default: 30)"),
 });
 
 /**
@@ -301,6 +355,48 @@ export const CalendarFreeBusySchema = z.object({
   timeMax: z.string().describe("End of time range as ISO datetime"),
 });
 
+/**
+ * Zod schema for finding a common meeting time
+ */
+export const CalendarFindTimeSchema = z.object({
+  attendees: z.array(z.string()).describe("Attendee email addresses (you are always included)"),
+  durationMinutes: z.number().optional().describe("Meeting length in minutes (default: 30)"),
+  within: z.string().optional().describe("Window to search: 'today', 'tomorrow', 'this week', 'next week', '3 days' or '2026-10-20..2026-10-23' (default: next 5 days)"),
+  workingHours: z.string().optional().describe("Working hours such as '9-17' or '9:30-17:30' (default: 9-17)"),
+  timeZone: z.string().optional().describe("IANA time zone for working hours, e.g. 'Europe/Berlin' (default: the server's zone)"),
+  book: z.number().optional().describe("Book the Nth suggested slot (1 = best) and send invites; requires title"),
+  title: z.string().optional().describe("Event title when booking"),
+  description: z.string().optional().describe("Event description when booking"),
+});
+
+/**
+ * Zod schema for proposing meeting times
+ */
+export const CalendarProposeSchema = z.object({
+  durationMinutes: z.number().optional().describe("Meeting length in minutes (default: 30)"),
+  days: z.number().optional().describe("Working days to cover, starting today (default: 5)"),
+  timeZone: z.string().optional().describe("IANA time zone for working hours and the formatted times, e.g. 'America/New_York' (default: the server's zone)"),
+  workingHours: z.string().optional().describe("Working hours such as '9-17' or '9:30-17:30' (default: 9-17)"),
+  hold: z.boolean().optional().describe("Place tentative holds on the proposed times; they are released when one of the times is booked"),
+  title: z.string().optional().describe("Title of the hold events (default: 'Hold')"),
+});
+
+/**
+ * Zod schema for exporting calendar events as iCalendar
+ */
+export const CalendarExportSchema = z.object({
+  date: z.string().optional().describe("First day to export (YYYY-MM-DD, default: today)"),
+  range: z.number().optional().describe("Number of days to export (default: 30)"),
+});
+
+/**
+ * Zod schema for importing an iCalendar file
+ */
+export const CalendarImportSchema = z.object({
+  ics: z.string().describe("Contents of the .ics file"),
+  dryRun: z.boolean().optional().describe("Report what would be created or updated without changing the calendar"),
+});
+
 type TextContent = { type: "text"; text: string };
 type ToolResult = { content: TextContent[]; isError?: boolean };
 
@@ -316,7 +412,7 @@ function errorResult(message: string): ToolResult {
  * Get a ConnectionProvider for MCP tools.
  * Prefers cached tokens; falls back to CDP.
  */
-async function getMcpProvider(): Promise<ConnectionProvider> {
+export async function getMcpProvider(): Promise<ConnectionProvider> {
   const provider = await resolveProvider({ port: CDP_PORT });
   if (provider) return provider;
 
@@ -327,6 +423,14 @@ async function getMcpProvider(): Promise<ConnectionProvider> {
   return new CDPConnectionProvider(conn);
 }
 
+/**
+ * A line telling how to undo a logged tool call, or "" when nothing was
+ * logged. Lost undo information doesn't fail the tool, which already ran.
+ */
+function undoHint(undo: UndoLog): string {
+  return undo.operation ? `\nUndo with: superhuman undo ${undo.operation.id}` : "";
+}
+
 /**
  * Handler for superhuman_draft tool
  */
@@ -490,16 +594,8 @@ export async function readHandler(args: z.infer<typeof ReadSchema>): Promise<Too
       return errorResult(`Thread not found: ${args.threadId}`);
     }
 
-    const messagesText = messages
-      .map((msg, i) => {
-        const from = msg.from.name ? `${msg.from.name} <${msg.from.email}>` : msg.from.email;
-        const to = msg.to.map(r => r.email).join(", ");
-        const cc = msg.cc.length > 0 ? `\nCc: ${msg.cc.map(r => r.email).join(", ")}` : "";
-        return `--- Message ${i + 1} ---\nFrom: ${from}\nTo: ${to}${cc}\nDate: ${msg.date}\nSubject: ${msg.subject}\n\n${msg.snippet}`;
-      })
-      .join("\n\n");
-
-    return successResult(`Thread: ${messages[0].subject}\n\n${messagesText}`);
+    // Markdown keeps structure and links without spending tokens on HTML markup
+    return successResult(renderThreadMarkdown(messages));
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
     return errorResult(`Failed to read thread: ${message}`);
@@ -663,7 +759,10 @@ export async function forwardHandler(args: z.infer<typeof ForwardSchema>): Promi
   try {
     provider = await getMcpProvider();
     const send = args.send ?? false;
-    const result = await forwardThread(provider, args.threadId, args.toEmail, args.body, send);
+    const result = await forwardThread(provider, args.threadId, args.toEmail, args.body, send, {
+      messageId: args.messageId,
+      all: args.all,
+    });
 
     if (!result.success) {
       throw new Error(result.error || "Failed to create forward");
@@ -693,24 +792,29 @@ export async function archiveHandler(args: z.infer<typeof ArchiveSchema>): Promi
   let provider: ConnectionProvider | null = null;
 
   try {
-    provider = await getMcpProvider();
-    const results: { threadId: string; success: boolean }[] = [];
-
-    for (const threadId of args.threadIds) {
-      const result = await archiveThread(provider, threadId);
-      results.push({ threadId, success: result.success });
-    }
+    const connected = await getMcpProvider();
+    provider = connected;
+    const { results, ...logged } = await withUndo(connected, "archive", args.threadIds, async () => {
+      const results: { threadId: string; success: boolean }[] = [];
+
+      for (const threadId of args.threadIds) {
+        const result = await archiveThread(connected, threadId);
+        results.push({ threadId, success: result.success });
+      }
 
+      return { results, done: results.filter((r) => r.success).map((r) => r.threadId) };
+    });
+    const undo = undoHint(logged);
     const succeeded = results.filter((r) => r.success).length;
     const failed = results.filter((r) => !r.success).length;
 
     if (failed === 0) {
-      return successResult(`Archived ${succeeded} thread(s) successfully`);
+      return successResult(`Archived ${succeeded} thread(s) successfully${undo}`);
     } else if (succeeded === 0) {
       return errorResult(`Failed to archive all ${failed} thread(s)`);
     } else {
       const failedIds = results.filter((r) => !r.success).map((r) => r.threadId).join(", ");
-      return successResult(`Archived ${succeeded} thread(s), failed to archive ${failed}: ${failedIds}`);
+      return successResult(`Archived ${succeeded} thread(s), failed to archive ${failed}: ${failedIds}${undo}`);
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -731,24 +835,29 @@ export async function deleteHandler(args: z.infer<typeof DeleteSchema>): Promise
   let provider: ConnectionProvider | null = null;
 
   try {
-    provider = await getMcpProvider();
-    const results: { threadId: string; success: boolean }[] = [];
-
-    for (const threadId of args.threadIds) {
-      const result = await deleteThread(provider, threadId);
-      results.push({ threadId, success: result.success });
-    }
+    const connected = await getMcpProvider();
+    provider = connected;
+    const { results, ...logged } = await withUndo(connected, "delete", args.threadIds, async () => {
+      const results: { threadId: string; success: boolean }[] = [];
+
+      for (const threadId of args.threadIds) {
+        const result = await deleteThread(connected, threadId);
+        results.push({ threadId, success: result.success });
+      }
 
+      return { results, done: results.filter((r) => r.success).map((r) => r.threadId) };
+    });
+    const undo = undoHint(logged);
     const succeeded = results.filter((r) => r.success).length;
     const failed = results.filter((r) => !r.success).length;
 
     if (failed === 0) {
-      return successResult(`Deleted ${succeeded} thread(s) successfully`);
+      return successResult(`Deleted ${succeeded} thread(s) successfully${undo}`);
     } else if (succeeded === 0) {
       return errorResult(`Failed to delete all ${failed} thread(s)`);
     } else {
       const failedIds = results.filter((r) => !r.success).map((r) => r.threadId).join(", ");
-      return successResult(`Deleted ${succeeded} thread(s), failed to delete ${failed}: ${failedIds}`);
+      return successResult(`Deleted ${succeeded} thread(s), failed to delete ${failed}: ${failedIds}${undo}`);
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -769,24 +878,29 @@ export async function markReadHandler(args: z.infer<typeof MarkReadSchema>): Pro
   let provider: ConnectionProvider | null = null;
 
   try {
-    provider = await getMcpProvider();
-    const results: { threadId: string; success: boolean }[] = [];
-
-    for (const threadId of args.threadIds) {
-      const result = await markAsRead(provider, threadId);
-      results.push({ threadId, success: result.success });
-    }
+    const connected = await getMcpProvider();
+    provider = connected;
+    const { results, ...logged } = await withUndo(connected, "read", args.threadIds, async () => {
+      const results: { threadId: string; success: boolean }[] = [];
+
+      for (const threadId of args.threadIds) {
+        const result = await markAsRead(connected, threadId);
+        results.push({ threadId, success: result.success });
+      }
 
+      return { results, done: results.filter((r) => r.success).map((r) => r.threadId) };
+    });
+    const undo = undoHint(logged);
     const succeeded = results.filter((r) => r.success).length;
     const failed = results.filter((r) => !r.success).length;
 
     if (failed === 0) {
-      return successResult(`Marked ${succeeded} thread(s) as read`);
+      return successResult(`Marked ${succeeded} thread(s) as read${undo}`);
     } else if (succeeded === 0) {
       return errorResult(`Failed to mark all ${failed} thread(s) as read`);
     } else {
       const failedIds = results.filter((r) => !r.success).map((r) => r.threadId).join(", ");
-      return successResult(`Marked ${succeeded} thread(s) as read, failed on ${failed}: ${failedIds}`);
+      return successResult(`Marked ${succeeded} thread(s) as read, failed on ${failed}: ${failedIds}${undo}`);
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -807,24 +921,29 @@ export async function markUnreadHandler(args: z.infer<typeof MarkUnreadSchema>):
   let provider: ConnectionProvider | null = null;
 
   try {
-    provider = await getMcpProvider();
-    const results: { threadId: string; success: boolean }[] = [];
-
-    for (const threadId of args.threadIds) {
-      const result = await markAsUnread(provider, threadId);
-      results.push({ threadId, success: result.success });
-    }
+    const connected = await getMcpProvider();
+    provider = connected;
+    const { results, ...logged } = await withUndo(connected, "unread", args.threadIds, async () => {
+      const results: { threadId: string; success: boolean }[] = [];
+
+      for (const threadId of args.threadIds) {
+        const result = await markAsUnread(connected, threadId);
+        results.push({ threadId, success: result.success });
+      }
 
+      return { results, done: results.filter((r) => r.success).map((r) => r.threadId) };
+    });
+    const undo = undoHint(logged);
     const succeeded = results.filter((r) => r.success).length;
     const failed = results.filter((r) => !r.success).length;
 
     if (failed === 0) {
-      return successResult(`Marked ${succeeded} thread(s) as unread`);
+      return successResult(`Marked ${succeeded} thread(s) as unread${undo}`);
     } else if (succeeded === 0) {
       return errorResult(`Failed to mark all ${failed} thread(s) as unread`);
     } else {
       const failedIds = results.filter((r) => !r.success).map((r) => r.threadId).join(", ");
-      return successResult(`Marked ${succeeded} thread(s) as unread, failed on ${failed}: ${failedIds}`);
+      return successResult(`Marked ${succeeded} thread(s) as unread, failed on ${failed}: ${failedIds}${undo}`);
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -850,7 +969,8 @@ export async function labelsHandler(_args: z.infer<typeof LabelsSchema>): Promis
 
     const labelsText = labels
       .map((l) => {
-        const typeInfo = l.type ? ` (${l.type})` : "";
+        const kinds = [...new Set([l.kind, l.type].filter(Boolean))].join(", ");
+        const typeInfo = kinds ? ` (${kinds})` : "";
         return `- ${l.name}${typeInfo}\n  ID: ${l.id}`;
       })
       .join("\n");
@@ -880,7 +1000,8 @@ export async function getLabelsHandler(args: z.infer<typeof GetLabelsSchema>): P
 
     const labelsText = labels
       .map((l) => {
-        const typeInfo = l.type ? ` (${l.type})` : "";
+        const kinds = [...new Set([l.kind, l.type].filter(Boolean))].join(", ");
+        const typeInfo = kinds ? ` (${kinds})` : "";
         return `- ${l.name}${typeInfo}\n  ID: ${l.id}`;
       })
       .join("\n");
@@ -905,24 +1026,34 @@ export async function addLabelHandler(args: z.infer<typeof AddLabelSchema>): Pro
   let provider: ConnectionProvider | null = null;
 
   try {
-    provider = await getMcpProvider();
-    const results: { threadId: string; success: boolean }[] = [];
-
-    for (const threadId of args.threadIds) {
-      const result = await addLabel(provider, threadId, args.labelId);
-      results.push({ threadId, success: result.success });
+    const connected = await getMcpProvider();
+    provider = connected;
+    const resolved = await resolveLabel(connected, args.labelId);
+    if (!resolved.label) {
+      return errorResult(resolved.error || `Label "${args.labelId}" not found`);
     }
+    const labelId = resolved.label.id;
+    const { results, ...logged } = await withUndo(connected, "label", args.threadIds, async () => {
+      const results: { threadId: string; success: boolean }[] = [];
 
+      for (const threadId of args.threadIds) {
+        const result = await addLabel(connected, threadId, labelId);
+        results.push({ threadId, success: result.success });
+      }
+
+      return { results, done: results.filter((r) => r.success).map((r) => r.threadId), labelId };
+    });
+    const undo = undoHint(logged);
     const succeeded = results.filter((r) => r.success).length;
     const failed = results.filter((r) => !r.success).length;
 
     if (failed === 0) {
-      return successResult(`Added label to ${succeeded} thread(s)`);
+      return successResult(`Added label to ${succeeded} thread(s)${undo}`);
     } else if (succeeded === 0) {
       return errorResult(`Failed to add label to all ${failed} thread(s)`);
     } else {
       const failedIds = results.filter((r) => !r.success).map((r) => r.threadId).join(", ");
-      return successResult(`Added label to ${succeeded} thread(s), failed on ${failed}: ${failedIds}`);
+      return successResult(`Added label to ${succeeded} thread(s), failed on ${failed}: ${failedIds}${undo}`);
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -943,24 +1074,34 @@ export async function removeLabelHandler(args: z.infer<typeof RemoveLabelSchema>
   let provider: ConnectionProvider | null = null;
 
   try {
-    provider = await getMcpProvider();
-    const results: { threadId: string; success: boolean }[] = [];
-
-    for (const threadId of args.threadIds) {
-      const result = await removeLabel(provider, threadId, args.labelId);
-      results.push({ threadId, success: result.success });
+    const connected = await getMcpProvider();
+    provider = connected;
+    const resolved = await resolveLabel(connected, args.labelId);
+    if (!resolved.label) {
+      return errorResult(resolved.error || `Label "${args.labelId}" not found`);
     }
+    const labelId = resolved.label.id;
+    const { results, ...logged } = await withUndo(connected, "unlabel", args.threadIds, async () => {
+      const results: { threadId: string; success: boolean }[] = [];
 
+      for (const threadId of args.threadIds) {
+        const result = await removeLabel(connected, threadId, labelId);
+        results.push({ threadId, success: result.success });
+      }
+
+      return { results, done: results.filter((r) => r.success).map((r) => r.threadId), labelId };
+    });
+    const undo = undoHint(logged);
     const succeeded = results.filter((r) => r.success).length;
     const failed = results.filter((r) => !r.success).length;
 
     if (failed === 0) {
-      return successResult(`Removed label from ${succeeded} thread(s)`);
+      return successResult(`Removed label from ${succeeded} thread(s)${undo}`);
     } else if (succeeded === 0) {
       return errorResult(`Failed to remove label from all ${failed} thread(s)`);
     } else {
       const failedIds = results.filter((r) => !r.success).map((r) => r.threadId).join(", ");
-      return successResult(`Removed label from ${succeeded} thread(s), failed on ${failed}: ${failedIds}`);
+      return successResult(`Removed label from ${succeeded} thread(s), failed on ${failed}: ${failedIds}${undo}`);
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -981,24 +1122,29 @@ export async function starHandler(args: z.infer<typeof StarSchema>): Promise<Too
   let provider: ConnectionProvider | null = null;
 
   try {
-    provider = await getMcpProvider();
-    const results: { threadId: string; success: boolean; error?: string }[] = [];
-
-    for (const threadId of args.threadIds) {
-      const result = await starThread(provider, threadId);
-      results.push({ threadId, success: result.success, error: result.error });
-    }
+    const connected = await getMcpProvider();
+    provider = connected;
+    const { results, ...logged } = await withUndo(connected, "star", args.threadIds, async () => {
+      const results: { threadId: string; success: boolean; error?: string }[] = [];
+
+      for (const threadId of args.threadIds) {
+        const result = await starThread(connected, threadId);
+        results.push({ threadId, success: result.success, error: result.error });
+      }
 
+      return { results, done: results.filter((r) => r.success).map((r) => r.threadId) };
+    });
+    const undo = undoHint(logged);
     const succeeded = results.filter((r) => r.success).length;
     const failed = results.filter((r) => !r.success).length;
 
     if (failed === 0) {
-      return successResult(`Starred ${succeeded} thread(s)`);
+      return successResult(`Starred ${succeeded} thread(s)${undo}`);
     } else if (succeeded === 0) {
       return errorResult(`Failed to star all ${failed} thread(s)`);
     } else {
       const failedIds = results.filter((r) => !r.success).map((r) => r.threadId).join(", ");
-      return successResult(`Starred ${succeeded} thread(s), failed on ${failed}: ${failedIds}`);
+      return successResult(`Starred ${succeeded} thread(s), failed on ${failed}: ${failedIds}${undo}`);
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -1019,24 +1165,29 @@ export async function unstarHandler(args: z.infer<typeof UnstarSchema>): Promise
   let provider: ConnectionProvider | null = null;
 
   try {
-    provider = await getMcpProvider();
-    const results: { threadId: string; success: boolean; error?: string }[] = [];
-
-    for (const threadId of args.threadIds) {
-      const result = await unstarThread(provider, threadId);
-      results.push({ threadId, success: result.success, error: result.error });
-    }
+    const connected = await getMcpProvider();
+    provider = connected;
+    const { results, ...logged } = await withUndo(connected, "unstar", args.threadIds, async () => {
+      const results: { threadId: string; success: boolean; error?: string }[] = [];
+
+      for (const threadId of args.threadIds) {
+        const result = await unstarThread(connected, threadId);
+        results.push({ threadId, success: result.success, error: result.error });
+      }
 
+      return { results, done: results.filter((r) => r.success).map((r) => r.threadId) };
+    });
+    const undo = undoHint(logged);
     const succeeded = results.filter((r) => r.success).length;
     const failed = results.filter((r) => !r.success).length;
 
     if (failed === 0) {
-      return successResult(`Unstarred ${succeeded} thread(s)`);
+      return successResult(`Unstarred ${succeeded} thread(s)${undo}`);
     } else if (succeeded === 0) {
       return errorResult(`Failed to unstar all ${failed} thread(s)`);
     } else {
       const failedIds = results.filter((r) => !r.success).map((r) => r.threadId).join(", ");
-      return successResult(`Unstarred ${succeeded} thread(s), failed on ${failed}: ${failedIds}`);
+      return successResult(`Unstarred ${succeeded} thread(s), failed on ${failed}: ${failedIds}${undo}`);
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -1092,20 +1243,25 @@ export async function snoozeHandler(args: z.infer<typeof SnoozeSchema>): Promise
   let provider: ConnectionProvider | null = null;
 
   try {
-    provider = await getMcpProvider();
+    const connected = await getMcpProvider();
+    provider = connected;
 
-    const results = await snoozeThreadViaProvider(provider, args.threadIds, snoozeTime);
+    const { results, ...logged } = await withUndo(connected, "snooze", args.threadIds, async () => {
+      const results = await snoozeThreadViaProvider(connected, args.threadIds, snoozeTime);
+      return { results, done: args.threadIds.filter((_, i) => results[i]?.success) };
+    });
+    const undo = undoHint(logged);
 
     const succeeded = results.filter((r) => r.success).length;
     const failed = results.filter((r) => !r.success).length;
 
     if (failed === 0) {
-      return successResult(`Snoozed ${succeeded} thread(s) until ${snoozeTime.toISOString()}`);
+      return successResult(`Snoozed ${succeeded} thread(s) until ${snoozeTime.toISOString()}${undo}`);
     } else if (succeeded === 0) {
       return errorResult(`Failed to snooze all ${failed} thread(s)`);
     } else {
       const failedThreads = args.threadIds.filter((_, i) => !results[i].success).join(", ");
-      return successResult(`Snoozed ${succeeded} thread(s), failed on ${failed}: ${failedThreads}`);
+      return successResult(`Snoozed ${succeeded} thread(s), failed on ${failed}: ${failedThreads}${undo}`);
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -1126,20 +1282,25 @@ export async function unsnoozeHandler(args: z.infer<typeof UnsnoozeSchema>): Pro
   let provider: ConnectionProvider | null = null;
 
   try {
-    provider = await getMcpProvider();
+    const connected = await getMcpProvider();
+    provider = connected;
 
-    const results = await unsnoozeThreadViaProvider(provider, args.threadIds);
+    const { results, ...logged } = await withUndo(connected, "unsnooze", args.threadIds, async () => {
+      const results = await unsnoozeThreadViaProvider(connected, args.threadIds);
+      return { results, done: args.threadIds.filter((_, i) => results[i]?.success) };
+    });
+    const undo = undoHint(logged);
 
     const succeeded = results.filter((r) => r.success).length;
     const failed = results.filter((r) => !r.success).length;
 
     if (failed === 0) {
-      return successResult(`Unsnoozed ${succeeded} thread(s)`);
+      return successResult(`Unsnoozed ${succeeded} thread(s)${undo}`);
     } else if (succeeded === 0) {
       return errorResult(`Failed to unsnooze all ${failed} thread(s)`);
     } else {
       const failedThreads = args.threadIds.filter((_, i) => !results[i].success).join(", ");
-      return successResult(`Unsnoozed ${succeeded} thread(s), failed on ${failed}: ${failedThreads}`);
+      return successResult(`Unsnoozed ${succeeded} thread(s), failed on ${failed}: ${failedThreads}${undo}`);
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -1331,13 +1492,32 @@ export async function calendarCreateHandler(args: z.infer<typeof CalendarCreateS
       attendees: args.attendees?.map(email => ({ email })),
     };
 
+    if (args.repeat) {
+      const timeZone = args.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+      if (!isTimeZone(timeZone)) {
+        return errorResult(`Unknown time zone: ${timeZone}`);
+      }
+      const recurrence = parseRepeat(args.repeat, { allDay: args.allDay, timeZone });
+      if (!recurrence) {
+        return errorResult(`Invalid repeat rule: ${args.repeat}`);
+      }
+      eventInput.recurrence = recurrence;
+      // Repeat in a zone so occurrences keep their local time across DST changes
+      if (!args.allDay) {
+        eventInput.start = toZonedDateTime(startTime, timeZone);
+        eventInput.end = toZonedDateTime(endTime, timeZone);
+      }
+    }
+
     const result = await createEvent(provider, eventInput);
 
     if (result.success) {
+      const released = await releaseBookedHolds(provider).catch(() => []);
       return successResult(JSON.stringify({
         success: true,
         eventId: result.eventId,
         message: "Event created successfully",
+        releasedHolds: released.map(({ group }) => group.id),
       }));
     } else {
       return errorResult(`Failed to create event: ${result.error}`);
@@ -1366,7 +1546,9 @@ export async function calendarUpdateHandler(args: z.infer<typeof CalendarUpdateS
     if (args.endTime) updates.end = { dateTime: new Date(args.endTime).toISOString() };
     if (args.attendees) updates.attendees = args.attendees.map(email => ({ email }));
 
-    const result = await updateEvent(provider, args.eventId, updates);
+    const result = args.scope
+      ? await updateEventInScope(provider, args.eventId, updates, args.scope)
+      : await updateEvent(provider, args.eventId, updates);
 
     if (result.success) {
       return successResult(JSON.stringify({
@@ -1393,12 +1575,14 @@ export async function calendarDeleteHandler(args: z.infer<typeof CalendarDeleteS
 
   try {
     provider = await getMcpProvider();
-    const result = await deleteCalendarEvent(provider, args.eventId);
+    const result = args.scope
+      ? await deleteEventInScope(provider, args.eventId, args.scope)
+      : await deleteCalendarEvent(provider, args.eventId);
 
     if (result.success) {
       return successResult(JSON.stringify({
         success: true,
-        message: `Event ${args.eventId} deleted successfully`,
+        message: `Event ${result.eventId || args.eventId} deleted successfully`,
       }));
     } else {
       return errorResult(`Failed to delete event: ${result.error}`);
@@ -1433,6 +1617,235 @@ export async function calendarFreeBusyHandler(args: z.infer<typeof CalendarFreeB
   }
 }
 
+/**
+ * Handler for superhuman_calendar_find_time tool
+ */
+export async function calendarFindTimeHandler(args: z.infer<typeof CalendarFindTimeSchema>): Promise<ToolResult> {
+  let provider: ConnectionProvider | null = null;
+
+  try {
+    const window = parseWithin(args.within || "next 5 days");
+    if (!window) {
+      return errorResult(`Invalid window: ${args.within}`);
+    }
+    const workingHours = parseWorkingHours(args.workingHours || "9-17");
+    if (!workingHours) {
+      return errorResult(`Invalid working hours: ${args.workingHours}`);
+    }
+    if (args.book && !args.title) {
+      return errorResult("A title is required to book a slot");
+    }
+
+    provider = await getMcpProvider();
+    const result = await findMeetingTimes(provider, {
+      attendees: args.attendees,
+      durationMinutes: args.durationMinutes || 30,
+      timeMin: window.timeMin,
+      timeMax: window.timeMax,
+      workingHours,
+      timeZone: args.timeZone,
+    });
+
+    if (!result.success) {
+      return errorResult(`Failed to find a time: ${result.error}`);
+    }
+
+    const unavailable = result.attendees
+      .filter((a) => a.error)
+      .map((a) => ({ email: a.email, error: a.error }));
+
+    if (!args.book) {
+      return successResult(JSON.stringify({ slots: result.slots, unavailable }, null, 2));
+    }
+
+    const slot = result.slots[args.book - 1];
+    if (!slot) {
+      return errorResult(`No suggestion #${args.book} (found ${result.slots.length})`);
+    }
+
+    const booked = await createEvent(provider, {
+      summary: args.title!,
+      description: args.description,
+      start: { dateTime: slot.start },
+      end: { dateTime: slot.end },
+      attendees: args.attendees.map((email) => ({ email })),
+      sendInvites: true,
+    });
+
+    if (booked.success) {
+      return successResult(JSON.stringify({
+        success: true,
+        eventId: booked.eventId,
+        slot,
+        unavailable,
+        message: `Booked ${slot.start} - ${slot.end} and sent invites`,
+      }));
+    } else {
+      return errorResult(`Failed to book: ${booked.error}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return errorResult(`Failed to find a meeting time: ${message}`);
+  } finally {
+    if (provider) await provider.disconnect();
+  }
+}
+
+/**
+ * Handler for superhuman_calendar_propose tool
+ */
+export async function calendarProposeHandler(args: z.infer<typeof CalendarProposeSchema>): Promise<ToolResult> {
+  let provider: ConnectionProvider | null = null;
+
+  try {
+    const workingHours = parseWorkingHours(args.workingHours || "9-17");
+    if (!workingHours) {
+      return errorResult(`Invalid working hours: ${args.workingHours}`);
+    }
+
+    provider = await getMcpProvider();
+    await releaseBookedHolds(provider).catch(() => []);
+
+    const proposal = await proposeAvailability(provider, {
+      durationMinutes: args.durationMinutes || 30,
+      days: args.days,
+      timeZone: args.timeZone,
+      workingHours,
+    });
+    if (!proposal.success) {
+      return errorResult(`Failed to propose times: ${proposal.error}`);
+    }
+
+    const holds = args.hold && proposal.slots.length > 0
+      ? await placeHolds(provider, proposal.slots, args.title || "Hold")
+      : null;
+
+    return successResult(JSON.stringify({
+      slots: proposal.slots,
+      timeZone: proposal.timeZone,
+      text: proposal.text,
+      html: proposal.html,
+      holds: holds?.group ?? null,
+      holdError: holds?.error,
+    }, null, 2));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return errorResult(`Failed to propose times: ${message}`);
+  } finally {
+    if (provider) await provider.disconnect();
+  }
+}
+
+/**
+ * Handler for superhuman_calendar_export tool
+ */
+export async function calendarExportHandler(args: z.infer<typeof CalendarExportSchema>): Promise<ToolResult> {
+  let provider: ConnectionProvider | null = null;
+
+  try {
+    const dateMatch = args.date?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (args.date && !dateMatch) {
+      return errorResult(`Invalid date: ${args.date} (expected YYYY-MM-DD)`);
+    }
+    // Local midnight, as for calendar list
+    const timeMin = dateMatch
+      ? new Date(parseInt(dateMatch[1]!), parseInt(dateMatch[2]!) - 1, parseInt(dateMatch[3]!))
+      : new Date(new Date().setHours(0, 0, 0, 0));
+    const timeMax = new Date(timeMin);
+    timeMax.setDate(timeMax.getDate() + (args.range || 30));
+
+    provider = await getMcpProvider();
+    const result = await exportEvents(provider, { timeMin, timeMax });
+    if (!result.success) {
+      return errorResult(`Failed to export calendar: ${result.error}`);
+    }
+
+    return successResult(result.ics);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return errorResult(`Failed to export calendar: ${message}`);
+  } finally {
+    if (provider) await provider.disconnect();
+  }
+}
+
+/**
+ * Handler for superhuman_calendar_import tool
+ */
+export async function calendarImportHandler(args: z.infer<typeof CalendarImportSchema>): Promise<ToolResult> {
+  let provider: ConnectionProvider | null = null;
+
+  try {
+    provider = await getMcpProvider();
+    const result = await importIcs(provider, args.ics, { dryRun: args.dryRun });
+    if (result.changes.length === 0) {
+      return errorResult(`Failed to import calendar: ${result.error}`);
+    }
+
+    const text = JSON.stringify(result, null, 2);
+    return result.success ? successResult(text) : errorResult(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return errorResult(`Failed to import calendar: ${message}`);
+  } finally {
+    if (provider) await provider.disconnect();
+  }
+}
+
+/**
+ * Handler for superhuman_calendar_rsvp tool
+ */
+export async function calendarRsvpHandler(args: z.infer<typeof CalendarRsvpSchema>): Promise<ToolResult> {
+  let provider: ConnectionProvider | null = null;
+
+  try {
+    provider = await getMcpProvider();
+    const response = parseRsvpResponse(args.response);
+    if (!response) {
+      return errorResult(`Unknown response: ${args.response}`);
+    }
+
+    const result = await respondToEvent(provider, args.eventId, response, { comment: args.comment });
+
+    if (result.success) {
+      return successResult(JSON.stringify({
+        success: true,
+        eventId: args.eventId,
+        response,
+        message: `Responded ${response} to event ${args.eventId}`,
+      }));
+    } else {
+      return errorResult(`Failed to respond to event: ${result.error}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return errorResult(`Failed to respond to calendar event: ${message}`);
+  } finally {
+    if (provider) await provider.disconnect();
+  }
+}
+
+/**
+ * Handler for superhuman_invites tool
+ */
+export async function invitesHandler(args: z.infer<typeof InvitesSchema>): Promise<ToolResult> {
+  let provider: ConnectionProvider | null = null;
+
+  try {
+    provider = await getMcpProvider();
+    const timeMin = new Date();
+    const timeMax = new Date(timeMin.getTime() + (args.days || 30) * 24 * 60 * 60 * 1000);
+    const invitations = await listInvitations(provider, { timeMin, timeMax });
+
+    return successResult(JSON.stringify(invitations, null, 2));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return errorResult(`Failed to list invitations: ${message}`);
+  } finally {
+    if (provider) await provider.disconnect();
+  }
+}
+
 // =============================================================================
 // Snippets Tools
 // =============================================================================
@@ -1444,10 +1857,30 @@ export const UseSnippetSchema = z.object({
   to: z.string().optional().describe("Recipient email address (overrides snippet default)"),
   cc: z.string().optional().describe("CC recipient email (overrides snippet default)"),
   bcc: z.string().optional().describe("BCC recipient email (overrides snippet default)"),
-  vars: z.string().optional().describe("Template variables as 'key1=val1,key2=val2'"),
+  vars: z.string().optional().describe("Template variables as 'key1=val1,key2=val2' (first_name, last_name, name and email are filled from the recipient's contact when omitted; see superhuman_snippet_variables)"),
   send: z.boolean().optional().describe("Send immediately instead of creating draft (default: false)"),
+  at: z.string().optional().describe("Schedule the send instead: 'tomorrow 9am', 'friday 14:30' or an ISO datetime"),
+  in: z.string().optional().describe("Schedule the send after this long, e.g. '30m', '2h'"),
 });
 
+export const SnippetVariablesSchema = z.object({
+  name: z.string().describe("Snippet name to search for (fuzzy match)"),
+  to: z.string().optional().describe("Recipient email address, used to fill first_name, last_name, name and email (default: the snippet's first To)"),
+  vars: z.string().optional().describe("Values already known, as 'key1=val1,key2=val2'"),
+});
+
+/**
+ * Describe a snippet variable for tool output, e.g. "date (format: weekday, default: tomorrow)".
+ */
+function describeVariable(variable: SnippetVariable, vars: Record<string, string>): string {
+  const details = [
+    variable.format && `format: ${variable.format}`,
+    variable.default !== undefined && `default: ${variable.default || "(empty)"}`,
+    vars[variable.name] !== undefined && `value: ${vars[variable.name]}`,
+  ].filter(Boolean);
+  return details.length > 0 ? `${variable.name} (${details.join(", ")})` : variable.name;
+}
+
 /**
  * Get UserInfo from a ConnectionProvider (prefers cached tokens, falls back to CDP).
  */
@@ -1516,30 +1949,55 @@ export async function useSnippetHandler(args: z.infer<typeof UseSnippetSchema>):
       return errorResult(`No snippet matching "${args.name}". Available: ${available}`);
     }
 
-    // Apply template variables
-    const vars = args.vars ? parseVars(args.vars) : {};
-    let body = snippet.body;
-    let subject = snippet.subject;
-    if (Object.keys(vars).length > 0) {
-      body = applyVars(body, vars);
-      subject = applyVars(subject, vars);
-    }
-
     // Merge recipients
     const to = args.to ? [args.to] : snippet.to;
     const cc = args.cc ? [args.cc] : snippet.cc.length > 0 ? snippet.cc : undefined;
     const bcc = args.bcc ? [args.bcc] : snippet.bcc.length > 0 ? snippet.bcc : undefined;
 
-    if (args.send) {
+    const sendAt = parseSendTime({ at: args.at, in: args.in });
+
+    // Apply template variables
+    const variables = findVariables(snippet.subject, snippet.body);
+    const vars = await resolveSnippetVars(provider, variables, args.vars ? parseVars(args.vars) : {}, to[0]);
+    const missing = missingVariables(variables, vars).map((v) => v.name);
+    const body = applyVars(snippet.body, vars);
+    const subject = applyVars(snippet.subject, vars);
+
+    if (args.send || sendAt) {
       if (to.length === 0) {
         return errorResult("At least one recipient is required (provide 'to' or snippet must have default recipients)");
       }
+      if (missing.length > 0) {
+        return errorResult(`Missing snippet variables: ${missing.join(", ")}. Provide them in 'vars'.`);
+      }
 
       const draftResult = await createDraftWithUserInfo(userInfo, { to, cc, bcc, subject, body });
       if (!draftResult.success || !draftResult.draftId || !draftResult.threadId) {
         return errorResult(`Failed to create draft: ${draftResult.error}`);
       }
 
+      if (sendAt) {
+        const scheduleResult = await scheduleDraftSend(
+          userInfo,
+          {
+            draftId: draftResult.draftId,
+            threadId: draftResult.threadId,
+            to: to.map((email) => ({ email })),
+            cc: cc?.map((email) => ({ email })),
+            bcc: bcc?.map((email) => ({ email })),
+            subject,
+            htmlBody: body,
+          },
+          sendAt
+        );
+        if (!scheduleResult.success || !scheduleResult.scheduled) {
+          return errorResult(`Failed to schedule send: ${scheduleResult.error}`);
+        }
+        return successResult(
+          `Scheduled snippet "${snippet.name}" to ${to.join(", ")} for ${new Date(scheduleResult.scheduled.sendAt).toISOString()}\nScheduled ID: ${scheduleResult.scheduled.id}`
+        );
+      }
+
       const sendResult = await sendDraftSuperhuman(userInfo, {
         draftId: draftResult.draftId,
         threadId: draftResult.threadId,
@@ -1559,8 +2017,9 @@ export async function useSnippetHandler(args: z.infer<typeof UseSnippetSchema>):
     } else {
       const result = await createDraftWithUserInfo(userInfo, { to, cc, bcc, subject, body });
       if (result.success) {
+        const unfilled = missing.length > 0 ? `\nUnfilled variables: ${missing.join(", ")}` : "";
         return successResult(
-          `Draft created from snippet "${snippet.name}"\nDraft ID: ${result.draftId}\nTo: ${to.join(", ")}\nSubject: ${subject || "(none)"}`
+          `Draft created from snippet "${snippet.name}"\nDraft ID: ${result.draftId}\nTo: ${to.join(", ")}\nSubject: ${subject || "(none)"}${unfilled}`
         );
       } else {
         return errorResult(`Failed to create draft: ${result.error}`);
@@ -1574,6 +2033,186 @@ export async function useSnippetHandler(args: z.infer<typeof UseSnippetSchema>):
   }
 }
 
+/**
+ * Handler for superhuman_snippet_variables tool - list the variables a snippet needs
+ */
+export async function snippetVariablesHandler(args: z.infer<typeof SnippetVariablesSchema>): Promise<ToolResult> {
+  let provider: ConnectionProvider | null = null;
+
+  try {
+    provider = await getMcpProvider();
+    const userInfo = await getUserInfoFromProvider(provider);
+    const snippets = await listSnippets(userInfo);
+    const snippet = findSnippet(snippets, args.name);
+
+    if (!snippet) {
+      const available = snippets.map((s) => s.name).join(", ");
+      return errorResult(`No snippet matching "${args.name}". Available: ${available}`);
+    }
+
+    const variables = findVariables(snippet.subject, snippet.body);
+    if (variables.length === 0) {
+      return successResult(`Snippet "${snippet.name}" has no variables`);
+    }
+
+    const recipient = args.to || snippet.to[0];
+    const vars = await resolveSnippetVars(provider, variables, args.vars ? parseVars(args.vars) : {}, recipient);
+    const missing = missingVariables(variables, vars);
+    const filled = variables.filter((v) => !missing.includes(v));
+
+    const lines = [`Snippet "${snippet.name}" variables:`];
+    lines.push(`\nRequired (pass in 'vars'):`);
+    lines.push(...(missing.length > 0 ? missing.map((v) => `- ${describeVariable(v, vars)}`) : ["- (none)"]));
+    if (filled.length > 0) {
+      lines.push(`\nFilled${recipient ? ` (recipient: ${recipient})` : ""} or defaulted:`);
+      lines.push(...filled.map((v) => `- ${describeVariable(v, vars)}`));
+    }
+    return successResult(lines.join("\n"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return errorResult(`Failed to get snippet variables: ${message}`);
+  } finally {
+    if (provider) await provider.disconnect();
+  }
+}
+
+// =============================================================================
+// Scheduled Send Tools
+// =============================================================================
+
+export const ScheduleSendSchema = z.object({
+  action: z.enum(["compose", "reply", "reply_all", "forward"]).optional().describe("What to send (default: compose)"),
+  threadId: z.string().optional().describe("Thread ID (required for reply, reply_all and forward)"),
+  to: z.string().optional().describe("Recipient email address (required for compose and forward)"),
+  cc: z.string().optional().describe("CC recipient email address (compose only)"),
+  bcc: z.string().optional().describe("BCC recipient email address (compose only)"),
+  subject: z.string().optional().describe("Email subject (compose only; replies and forwards reuse the thread subject)"),
+  body: z.string().describe("Email body content (plain text)"),
+  at: z.string().optional().describe("When to send: 'tomorrow 9am', 'friday 14:30', a snooze preset or an ISO datetime"),
+  in: z.string().optional().describe("Send after this long instead of at a fixed time, e.g. '30m', '2h', '1d'"),
+});
+
+export const ScheduledListSchema = z.object({});
+
+/**
+ * Build the Superhuman draft for a scheduled send from tool arguments.
+ */
+async function buildScheduledDraft(
+  token: TokenInfo,
+  args: z.infer<typeof ScheduleSendSchema>
+): Promise<DraftOptions> {
+  const action = args.action ?? "compose";
+  const body = textToHtml(args.body);
+
+  if (action === "compose") {
+    if (!args.to) throw new Error("'to' is required for compose");
+    return {
+      to: [args.to],
+      cc: args.cc ? [args.cc] : undefined,
+      bcc: args.bcc ? [args.bcc] : undefined,
+      subject: args.subject || "",
+      body,
+    };
+  }
+
+  if (!args.threadId) throw new Error(`'threadId' is required for ${action}`);
+  const threadInfo = await getThreadInfoDirect(token, args.threadId);
+  if (!threadInfo) throw new Error(`Could not get thread information for ${args.threadId}`);
+
+  if (action === "forward") {
+    if (!args.to) throw new Error("'to' is required for forward");
+    return {
+      to: [args.to],
+      subject: threadInfo.subject.startsWith("Fwd:") ? threadInfo.subject : `Fwd: ${threadInfo.subject}`,
+      body,
+      action: "forward",
+      inReplyToThreadId: args.threadId,
+    };
+  }
+
+  let to = [threadInfo.from];
+  if (action === "reply_all") {
+    const all = [threadInfo.from, ...threadInfo.to, ...threadInfo.cc]
+      .filter((email) => email && email.toLowerCase() !== token.email.toLowerCase());
+    to = [...new Set(all.map((e) => e.toLowerCase()))];
+  }
+
+  return {
+    to,
+    subject: threadInfo.subject.startsWith("Re:") ? threadInfo.subject : `Re: ${threadInfo.subject}`,
+    body,
+    action: "reply",
+    inReplyToThreadId: args.threadId,
+    inReplyToRfc822Id: threadInfo.messageId || undefined,
+    references: threadInfo.references,
+  };
+}
+
+/**
+ * Handler for superhuman_schedule_send tool
+ */
+export async function scheduleSendHandler(args: z.infer<typeof ScheduleSendSchema>): Promise<ToolResult> {
+  try {
+    const sendAt = parseSendTime({ at: args.at, in: args.in });
+    if (!sendAt) {
+      return errorResult("Either 'at' or 'in' is required");
+    }
+
+    const token = await resolveSuperhumanToken();
+    if (!token) {
+      return errorResult("No Superhuman credentials found. Run 'superhuman account auth' first.");
+    }
+    const userInfo = getUserInfoFromCache(token.userId!, token.email, token.idToken!);
+
+    const draft = await buildScheduledDraft(token, args);
+    const draftResult = await createDraftWithUserInfo(userInfo, draft);
+    if (!draftResult.success || !draftResult.draftId || !draftResult.threadId) {
+      return errorResult(`Failed to create draft: ${draftResult.error}`);
+    }
+
+    const result = await scheduleDraftSend(
+      userInfo,
+      {
+        draftId: draftResult.draftId,
+        threadId: draftResult.threadId,
+        to: (draft.to || []).map((email) => ({ email })),
+        cc: draft.cc?.map((email) => ({ email })),
+        bcc: draft.bcc?.map((email) => ({ email })),
+        subject: draft.subject || "",
+        htmlBody: draft.body || "",
+      },
+      sendAt
+    );
+
+    if (!result.success || !result.scheduled) {
+      return errorResult(`Failed to schedule send: ${result.error}`);
+    }
+
+    return successResult(
+      `Scheduled for ${new Date(result.scheduled.sendAt).toISOString()}\nScheduled ID: ${result.scheduled.id}\nTo: ${result.scheduled.to.join(", ")}\nSubject: ${result.scheduled.subject || "(none)"}\nAccount: ${token.email}`
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return errorResult(`Failed to schedule send: ${message}`);
+  }
+}
+
+/**
+ * Handler for superhuman_scheduled_list tool
+ */
+export async function scheduledListHandler(_args: z.infer<typeof ScheduledListSchema>): Promise<ToolResult> {
+  try {
+    const pending = await listScheduledSends();
+    if (pending.length === 0) {
+      return successResult("No pending scheduled sends");
+    }
+    return successResult(JSON.stringify(pending, null, 2));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return errorResult(`Failed to list scheduled sends: ${message}`);
+  }
+}
+
 // ========== AI Search ==========
 
 export const AskAISchema = {
@@ -0,0 +1,516 @@
+/**
+ * MIME Module
+ *
+ * RFC 5322 / RFC 2045 message composer used for Gmail raw sends and drafts.
+ * Produces multipart/alternative (text + HTML), multipart/related (inline CID
+ * images) and multipart/mixed (attachments), and encodes non-ASCII headers
+ * per RFC 2047 and attachment filenames per RFC 2231.
+ *
+ * Also parses raw messages back into headers, bodies and attachments for
+ * thread export.
+ */
+
+import { basename } from "node:path";
+
+/**
+ * A file attached to an outgoing message
+ */
+export interface MimeAttachment {
+  /** File name shown to the recipient */
+  filename: string;
+  /** MIME type (default: application/octet-stream) */
+  contentType?: string;
+  /** Raw file content */
+  data: Uint8Array;
+  /** Content-ID for inline images referenced as cid:<contentId> in the HTML body */
+  contentId?: string;
+  /** Render inline instead of as a download (implied by contentId) */
+  inline?: boolean;
+}
+
+/**
+ * Options for composing a MIME message
+ */
+export interface MimeComposeOptions {
+  from: string;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  replyTo?: string[];
+  subject: string;
+  /** HTML body */
+  html?: string;
+  /** Plain-text body (generated from html when omitted) */
+  text?: string;
+  inReplyTo?: string;
+  references?: string[];
+  /** Extra headers, e.g. { "X-Campaign": "q3" } */
+  headers?: Record<string, string>;
+  attachments?: MimeAttachment[];
+}
+
+// ============================================================================
+// Header Encoding
+// ============================================================================
+
+/** Longest UTF-8 chunk that fits in one 75-char "=?UTF-8?B?...?=" word */
+const ENCODED_WORD_MAX_BYTES = 45;
+
+function isAscii(value: string): boolean {
+  return /^[\x00-\x7f]*$/.test(value);
+}
+
+/**
+ * Encode a header value as RFC 2047 encoded-words if it contains non-ASCII.
+ * Long values are split on character boundaries into folded words.
+ */
+export function encodeHeaderValue(value: string): string {
+  if (isAscii(value)) return value;
+
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char) > ENCODED_WORD_MAX_BYTES) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words
+    .map((w) => `=?UTF-8?B?${Buffer.from(w).toString("base64")}?=`)
+    .join("\r\n ");
+}
+
+/**
+ * Encode one address ("Name <email>" or bare email) for a header.
+ * Non-ASCII display names become encoded-words; names with specials are quoted.
+ */
+export function encodeAddress(address: string): string {
+  const match = address.trim().match(/^(.*?)\s*<([^>]+)>$/);
+  if (!match) return address.trim();
+
+  const name = match[1]!.replace(/^"(.*)"$/, "$1").trim();
+  const email = match[2]!.trim();
+  if (!name) return email;
+  if (!isAscii(name)) return `${encodeHeaderValue(name)} <${email}>`;
+  if (/[()<>\[\]:;@\\,."]/.test(name)) return `"${name.replace(/(["\\])/g, "\\$1")}" <${email}>`;
+  return `${name} <${email}>`;
+}
+
+function encodeAddressList(addresses: string[]): string {
+  return addresses.map(encodeAddress).join(", ");
+}
+
+function formatMessageId(id: string): string {
+  return id.startsWith("<") ? id : `<${id}>`;
+}
+
+/**
+ * Build Content-Type / Content-Disposition filename parameters.
+ * Non-ASCII names use RFC 2231 (filename*) plus an encoded-word fallback.
+ */
+function filenameParams(filename: string): { name: string; filename: string } {
+  if (isAscii(filename)) {
+    const quoted = `"${filename.replace(/(["\\])/g, "\\$1")}"`;
+    return { name: `name=${quoted}`, filename: `filename=${quoted}` };
+  }
+  const encodedWord = encodeHeaderValue(filename).replace(/\r\n /g, "");
+  return {
+    name: `name="${encodedWord}"`,
+    filename: `filename*=UTF-8''${encodeURIComponent(filename)}`,
+  };
+}
+
+// ============================================================================
+// Body Encoding
+// ============================================================================
+
+function wrapBase64(data: Uint8Array | string): string {
+  const b64 = Buffer.from(data).toString("base64");
+  return b64.match(/.{1,76}/g)?.join("\r\n") ?? "";
+}
+
+/**
+ * Pick a transfer encoding for a text part: 7bit when it is plain ASCII with
+ * short lines, base64 otherwise.
+ */
+function encodeTextBody(content: string): { encoding: string; body: string } {
+  const normalized = content.replace(/\r?\n/g, "\r\n");
+  if (isAscii(normalized) && normalized.split("\r\n").every((line) => line.length <= 998)) {
+    return { encoding: "7bit", body: normalized };
+  }
+  return { encoding: "base64", body: wrapBase64(normalized) };
+}
+
+/**
+ * Derive a plain-text alternative from an HTML body.
+ */
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h[1-6]|tr|blockquote)>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// ============================================================================
+// Part Tree
+// ============================================================================
+
+type MimePart =
+  | { headers: string[]; body: string }
+  | { multipart: "mixed" | "alternative" | "related"; parts: MimePart[] };
+
+let boundaryCounter = 0;
+
+function newBoundary(): string {
+  boundaryCounter += 1;
+  return `----=_Part_${boundaryCounter}_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function textPart(subtype: "plain" | "html", content: string): MimePart {
+  const { encoding, body } = encodeTextBody(content);
+  return {
+    headers: [
+      `Content-Type: text/${subtype}; charset=utf-8`,
+      `Content-Transfer-Encoding: ${encoding}`,
+    ],
+    body,
+  };
+}
+
+function attachmentPart(att: MimeAttachment): MimePart {
+  const params = filenameParams(att.filename);
+  const inline = att.inline || !!att.contentId;
+  const headers = [
+    `Content-Type: ${att.contentType || "application/octet-stream"}; ${params.name}`,
+    `Content-Disposition: ${inline ? "inline" : "attachment"}; ${params.filename}`,
+    "Content-Transfer-Encoding: base64",
+  ];
+  if (att.contentId) {
+    headers.push(`Content-ID: ${formatMessageId(att.contentId)}`);
+  }
+  return { headers, body: wrapBase64(att.data) };
+}
+
+function renderPart(part: MimePart): { headers: string[]; body: string } {
+  if ("headers" in part) return part;
+
+  const boundary = newBoundary();
+  const lines: string[] = [];
+  for (const child of part.parts) {
+    const rendered = renderPart(child);
+    lines.push(`--${boundary}`, ...rendered.headers, "", rendered.body);
+  }
+  lines.push(`--${boundary}--`);
+
+  return {
+    headers: [`Content-Type: multipart/${part.multipart}; boundary="${boundary}"`],
+    body: lines.join("\r\n"),
+  };
+}
+
+// ============================================================================
+// Composer
+// ============================================================================
+
+/**
+ * Compose a complete RFC 5322 message.
+ *
+ * Layout (each level only when needed):
+ *   multipart/mixed
+ *     multipart/related
+ *       multipart/alternative (text/plain, text/html)
+ *       inline images (Content-ID)
+ *     attachments
+ *
+ * @returns The raw message with CRLF line endings
+ */
+export function composeMimeMessage(options: MimeComposeOptions): string {
+  const headers: string[] = [
+    "MIME-Version: 1.0",
+    `From: ${encodeAddress(options.from)}`,
+    `To: ${encodeAddressList(options.to)}`,
+  ];
+
+  if (options.cc && options.cc.length > 0) {
+    headers.push(`Cc: ${encodeAddressList(options.cc)}`);
+  }
+  if (options.bcc && options.bcc.length > 0) {
+    headers.push(`Bcc: ${encodeAddressList(options.bcc)}`);
+  }
+  if (options.replyTo && options.replyTo.length > 0) {
+    headers.push(`Reply-To: ${encodeAddressList(options.replyTo)}`);
+  }
+
+  headers.push(`Subject: ${encodeHeaderValue(options.subject.replace(/[\r\n]+/g, " "))}`);
+
+  if (options.inReplyTo) {
+    headers.push(`In-Reply-To: ${formatMessageId(options.inReplyTo)}`);
+  }
+  if (options.references && options.references.length > 0) {
+    headers.push(`References: ${options.references.map(formatMessageId).join(" ")}`);
+  }
+
+  for (const [name, value] of Object.entries(options.headers || {})) {
+    if (!/^[!-9;-~]+$/.test(name)) {
+      throw new Error(`Invalid header name: ${name}`);
+    }
+    headers.push(`${name}: ${encodeHeaderValue(value.replace(/[\r\n]+/g, " "))}`);
+  }
+
+  // Body: text and/or HTML
+  let content: MimePart;
+  if (options.html !== undefined) {
+    const text = options.text ?? htmlToPlainText(options.html);
+    content = { multipart: "alternative", parts: [textPart("plain", text), textPart("html", options.html)] };
+  } else {
+    content = textPart("plain", options.text ?? "");
+  }
+
+  const attachments = options.attachments || [];
+  const inline = attachments.filter((a) => a.contentId);
+  const regular = attachments.filter((a) => !a.contentId);
+
+  if (inline.length > 0) {
+    content = { multipart: "related", parts: [content, ...inline.map(attachmentPart)] };
+  }
+  if (regular.length > 0) {
+    content = { multipart: "mixed", parts: [content, ...regular.map(attachmentPart)] };
+  }
+
+  const rendered = renderPart(content);
+  return [...headers, ...rendered.headers, "", rendered.body].join("\r\n");
+}
+
+/**
+ * Base64url-encode a raw message (the format of Gmail's "raw" field).
+ */
+export function toBase64Url(raw: string): string {
+  return Buffer.from(raw)
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Read a file from disk as an attachment.
+ * The content type is guessed from the file extension.
+ *
+ * @param path - Path to the file
+ * @param contentId - Optional Content-ID to embed it as an inline image
+ */
+export async function loadAttachment(path: string, contentId?: string): Promise<MimeAttachment> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new Error(`Attachment not found: ${path}`);
+  }
+
+  return {
+    filename: basename(path),
+    contentType: file.type.split(";")[0] || "application/octet-stream",
+    data: new Uint8Array(await file.arrayBuffer()),
+    contentId,
+  };
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * A raw message decoded into its headers, bodies and attachments
+ */
+export interface ParsedMimeMessage {
+  /** Top-level headers keyed by lowercase name (first occurrence, decoded) */
+  headers: Record<string, string>;
+  /** First text/plain body part */
+  text?: string;
+  /** First text/html body part */
+  html?: string;
+  /** Attachments and inline parts (inline images carry their contentId) */
+  attachments: MimeAttachment[];
+}
+
+interface RawPart {
+  headers: Array<[string, string]>;
+  /** Body as a binary (latin1) string so 8-bit bytes survive */
+  body: string;
+}
+
+function splitPart(binary: string): RawPart {
+  // A part may start with the blank line when it has no headers
+  const match = binary.match(/^\r?\n|\r?\n\r?\n/);
+  const headEnd = match?.index ?? binary.length;
+  const head = binary.slice(0, headEnd);
+  const body = match ? binary.slice(headEnd + match[0].length) : "";
+
+  const headers: Array<[string, string]> = [];
+  for (const line of head.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    headers.push([line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim()]);
+  }
+  return { headers, body };
+}
+
+function getPartHeader(part: RawPart, name: string): string {
+  return part.headers.find(([n]) => n === name)?.[1] ?? "";
+}
+
+function decodeCharset(bytes: Uint8Array, charset = "utf-8"): string {
+  try {
+    // Bun's TextDecoder accepts every WHATWG label; its typings list only three
+    return new TextDecoder(charset as Bun.Encoding).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+function decodeQuotedPrintable(binary: string, header = false): Uint8Array {
+  const text = (header ? binary.replace(/_/g, " ") : binary).replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const hex = text.slice(i + 1, i + 3);
+    if (text[i] === "=" && /^[0-9a-f]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decode RFC 2047 encoded-words (and raw UTF-8 bytes) in a header value.
+ */
+export function decodeHeaderValue(value: string): string {
+  const text = isAscii(value) ? value : Buffer.from(value, "latin1").toString("utf8");
+  return text
+    .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?[^?]+\?[bq]\?[^?]*\?=)/gi, "$1")
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([bq])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, data: string) => {
+      const bytes = encoding.toLowerCase() === "b"
+        ? new Uint8Array(Buffer.from(data, "base64"))
+        : decodeQuotedPrintable(data, true);
+      return decodeCharset(bytes, charset);
+    });
+}
+
+/**
+ * Parse "type/subtype; key=value; ..." into a value and lowercase params.
+ * RFC 2231 continuations (name*0, name*1) are joined and charset''value
+ * forms decoded; plain values may carry RFC 2047 encoded-words.
+ */
+function parseParams(header: string): { value: string; params: Record<string, string> } {
+  const [value = "", ...rest] = header.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  const continuations: Record<string, string[]> = {};
+
+  for (const item of rest) {
+    const eq = item.indexOf("=");
+    if (eq < 0) continue;
+    let key = item.slice(0, eq).trim().toLowerCase();
+    let val = item.slice(eq + 1).trim().replace(/^"(.*)"$/, "$1").replace(/\\(.)/g, "$1");
+
+    const extended = key.endsWith("*");
+    if (extended) key = key.slice(0, -1);
+    if (extended && /^[\w-]*'[\w-]*'/.test(val)) {
+      const [charset, , encoded = ""] = val.split("'");
+      val = decodeCharset(decodeQuotedPrintable(encoded.replace(/%/g, "=")), charset || "utf-8");
+    } else if (extended) {
+      val = decodeURIComponent(val);
+    } else {
+      val = decodeHeaderValue(val);
+    }
+
+    const continuation = key.match(/^(.+)\*(\d+)$/);
+    if (continuation) {
+      (continuations[continuation[1]!] ||= [])[+continuation[2]!] = val;
+    } else {
+      params[key] = val;
+    }
+  }
+
+  for (const [key, parts] of Object.entries(continuations)) {
+    params[key] ??= parts.join("");
+  }
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function decodePartBody(part: RawPart): Uint8Array {
+  const encoding = getPartHeader(part, "content-transfer-encoding").toLowerCase();
+  if (encoding === "base64") {
+    return new Uint8Array(Buffer.from(part.body.replace(/\s+/g, ""), "base64"));
+  }
+  if (encoding === "quoted-printable") {
+    return decodeQuotedPrintable(part.body);
+  }
+  return new Uint8Array(Buffer.from(part.body, "latin1"));
+}
+
+function walkPart(part: RawPart, result: ParsedMimeMessage): void {
+  const contentType = parseParams(getPartHeader(part, "content-type") || "text/plain");
+  const disposition = parseParams(getPartHeader(part, "content-disposition"));
+
+  if (contentType.value.startsWith("multipart/") && contentType.params.boundary) {
+    const boundary = contentType.params.boundary.replace(/[.*+?^$()|[\]{}\\]/g, "\\$&");
+    const sections = part.body.split(new RegExp(`(?:^|\\r?\\n)--${boundary}`));
+    // sections[0] is the preamble; the closing delimiter leaves "--" + epilogue
+    for (const section of sections.slice(1)) {
+      if (section.startsWith("--")) break;
+      walkPart(splitPart(section.replace(/^[ \t]*\r?\n/, "")), result);
+    }
+    return;
+  }
+
+  const filename = disposition.params.filename || contentType.params.name || "";
+  const contentId = getPartHeader(part, "content-id").replace(/^<|>$/g, "") || undefined;
+  const isText = contentType.value === "text/plain" || contentType.value === "text/html";
+
+  if (isText && disposition.value !== "attachment" && !filename) {
+    const text = decodeCharset(decodePartBody(part), contentType.params.charset);
+    if (contentType.value === "text/html") {
+      result.html ??= text;
+    } else {
+      result.text ??= text;
+    }
+    return;
+  }
+
+  result.attachments.push({
+    filename: filename || (contentType.value === "message/rfc822" ? "message.eml" : "attachment"),
+    contentType: contentType.value,
+    data: decodePartBody(part),
+    contentId,
+    inline: disposition.value === "inline",
+  });
+}
+
+/**
+ * Parse a raw RFC 5322 message.
+ *
+ * @param raw - Message bytes (e.g. Gmail format=raw or Graph $value)
+ */
+export function parseMimeMessage(raw: Uint8Array): ParsedMimeMessage {
+  const root = splitPart(Buffer.from(raw).toString("latin1"));
+  const result: ParsedMimeMessage = { headers: {}, attachments: [] };
+
+  for (const [name, value] of root.headers) {
+    result.headers[name] ??= decodeHeaderValue(value);
+  }
+
+  walkPart(root, result);
+  return result;
+}
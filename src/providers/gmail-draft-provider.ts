@@ -6,6 +6,7 @@
 
 import type { Draft, IDraftProvider } from "../services/draft-service";
 import type { TokenInfo } from "../token-api";
+import { apiFetch } from "../http-client";
 
 const GMAIL_API = "https://www.googleapis.com/gmail/v1/users/me";
 
@@ -138,7 +139,7 @@ export class GmailDraftProvider implements IDraftProvider {
 
   private async gmailFetch(path: string): Promise<unknown> {
     const url = `${GMAIL_API}${path}`;
-    const response = await fetch(url, {
+    const response = await apiFetch("gmail", url, {
       headers: {
         Authorization: `Bearer ${this.token.accessToken}`,
       },
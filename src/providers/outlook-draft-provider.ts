@@ -6,6 +6,7 @@
 
 import type { Draft, IDraftProvider } from "../services/draft-service";
 import type { TokenInfo } from "../token-api";
+import { apiFetch } from "../http-client";
 
 const GRAPH_API = "https://graph.microsoft.com/v1.0";
 
@@ -64,7 +65,7 @@ export class OutlookDraftProvider implements IDraftProvider {
 
   private async msgraphFetch(path: string): Promise<unknown> {
     const url = `${GRAPH_API}${path}`;
-    const response = await fetch(url, {
+    const response = await apiFetch("msgraph", url, {
       headers: {
         Authorization: `Bearer ${this.token.accessToken}`,
       },
@@ -7,28 +7,20 @@
 import type { Draft, IDraftProvider } from "../services/draft-service";
 import type { TokenInfo } from "../token-api";
 import {
-  createDraftWithUserInfo,
   updateDraftWithUserInfo,
   deleteDraftWithUserInfo,
   getUserInfoFromCache,
+  type NativeDraft,
 } from "../draft-api";
+import { apiFetch } from "../http-client";
 
 const SUPERHUMAN_API = "https://mail.superhuman.com/~backend/v3";
 
 /**
  * Superhuman API response types
  */
-interface SuperhumanDraft {
-  id: string;
-  subject: string;
-  to: string[];
-  from: string;
-  snippet: string;
-  date: string;
-}
-
 interface SuperhumanMessage {
-  draft: SuperhumanDraft;
+  draft: Partial<NativeDraft> & { id: string };
 }
 
 interface SuperhumanThread {
@@ -49,6 +41,7 @@ export class SuperhumanDraftProvider implements IDraftProvider {
   readonly source: Draft["source"] = "native";
   private token: TokenInfo;
   private draftCache: Map<string, Draft> = new Map(); // Cache drafts by ID for update/delete
+  private nativeCache: Map<string, NativeDraft> = new Map(); // Full stored drafts, merged into on update
 
   constructor(token: TokenInfo) {
     this.token = token;
@@ -62,7 +55,7 @@ export class SuperhumanDraftProvider implements IDraftProvider {
       return [];
     }
 
-    const response = await fetch(`${SUPERHUMAN_API}/userdata.getThreads`, {
+    const response = await apiFetch("superhuman", `${SUPERHUMAN_API}/userdata.getThreads`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${authToken}`,
@@ -90,6 +83,18 @@ export class SuperhumanDraftProvider implements IDraftProvider {
     return drafts;
   }
 
+  /**
+   * Get a draft as stored by Superhuman, with body, Cc/Bcc and attachments.
+   *
+   * @returns The draft, or null if it is not among the account's drafts
+   */
+  async getNativeDraft(draftId: string): Promise<NativeDraft | null> {
+    if (!this.nativeCache.has(draftId)) {
+      await this.listDrafts();
+    }
+    return this.nativeCache.get(draftId) ?? null;
+  }
+
   async updateDraft(draftId: string, updates: Partial<Draft>): Promise<boolean> {
     // 1. Try to get existing draft from cache first (avoids extra fetch)
     let existingDraft = this.draftCache.get(draftId);
@@ -117,11 +122,11 @@ export class SuperhumanDraftProvider implements IDraftProvider {
       this.token.email.split("@")[0] // Use email prefix as display name
     );
 
-    // 3. Merge updates with existing draft
-    const mergedDraft = {
-      to: updates.to || existingDraft.to,
-      subject: updates.subject || existingDraft.subject,
-      body: updates.preview || existingDraft.preview, // preview maps to body
+    // 3. Only the changed fields are passed; the rest is kept from the stored draft
+    const changes = {
+      to: updates.to,
+      subject: updates.subject || undefined,
+      body: updates.preview || undefined, // preview maps to body
     };
 
     // 4. Use the threadId from the existing draft (critical for correct path!)
@@ -131,7 +136,7 @@ export class SuperhumanDraftProvider implements IDraftProvider {
     }
 
     // 5. Call updateDraftWithUserInfo (reuses existing IDs - same endpoint as CREATE!)
-    await updateDraftWithUserInfo(userInfo, threadId, draftId, mergedDraft);
+    await updateDraftWithUserInfo(userInfo, threadId, draftId, changes, this.nativeCache.get(draftId));
 
     // 6. Update cache with merged draft
     this.draftCache.set(draftId, {
@@ -180,6 +185,7 @@ export class SuperhumanDraftProvider implements IDraftProvider {
 
     // 5. Remove from cache
     this.draftCache.delete(draftId);
+    this.nativeCache.delete(draftId);
 
     return true;
   }
@@ -191,9 +197,10 @@ export class SuperhumanDraftProvider implements IDraftProvider {
       const threadId = threadItem.thread?.id;
       const messages = threadItem.thread?.messages || {};
 
-      for (const [messageId, message] of Object.entries(messages)) {
+      for (const message of Object.values(messages)) {
         if (message.draft) {
           const draft = message.draft;
+          const attachments = draft.attachments || [];
           drafts.push({
             id: draft.id,
             subject: draft.subject || "(no subject)",
@@ -203,6 +210,28 @@ export class SuperhumanDraftProvider implements IDraftProvider {
             timestamp: draft.date || "",
             source: "native",
             threadId: threadId, // Capture threadId for update/delete operations
+            attachments: attachments.length > 0 ? attachments.map((a) => a.name) : undefined,
+            scheduledFor: draft.scheduledFor || undefined,
+          });
+          this.nativeCache.set(draft.id, {
+            action: "compose",
+            name: null,
+            from: "",
+            to: [],
+            cc: [],
+            bcc: [],
+            subject: "",
+            body: "",
+            snippet: "",
+            inReplyToRfc822Id: null,
+            references: [],
+            clientCreatedAt: "",
+            date: "",
+            rfc822Id: "",
+            scheduledFor: null,
+            ...draft,
+            threadId: draft.threadId || threadId || "",
+            attachments,
           });
         }
       }
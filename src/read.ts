@@ -2,10 +2,31 @@
  * Read Module
  *
  * Functions for reading thread/message content via direct Gmail / MS Graph APIs.
+ * Both providers return the same ThreadMessage shape, so `read --json` output
+ * does not depend on the account type.
  */
 
 import type { ConnectionProvider } from "./connection-provider";
-import { gmailFetch, msgraphFetch } from "./token-api";
+import { htmlToPlainText } from "./mime";
+import {
+  gmailFetch,
+  msgraphFetch,
+  listConversationMessagesMsGraph,
+  type FullThreadMessage,
+  type TokenInfo,
+} from "./token-api";
+
+export type MessageImportance = "low" | "normal" | "high";
+
+export interface ThreadMessageAttachment {
+  /** Attachment ID, as used by `attachment download` */
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  /** Embedded in the HTML body (cid: image) rather than attached */
+  inline: boolean;
+}
 
 export interface ThreadMessage {
   id: string;
@@ -17,8 +38,20 @@ export interface ThreadMessage {
   };
   to: Array<{ email: string; name: string }>;
   cc: Array<{ email: string; name: string }>;
+  /** ISO 8601 timestamp */
   date: string;
   snippet: string;
+  /** Plain-text body (derived from the HTML body if the message has no text part) */
+  textBody: string;
+  /** HTML body, empty for plain-text messages */
+  htmlBody: string;
+  attachments: ThreadMessageAttachment[];
+  importance: MessageImportance;
+  isRead: boolean;
+  /** Starred (Gmail) or flagged (Outlook) */
+  flagged: boolean;
+  /** Inline text/calendar part of a meeting invitation (Gmail), as iCalendar text */
+  calendar?: string;
 }
 
 /**
@@ -50,6 +83,14 @@ function parseRecipientList(
     .filter((r) => r.email);
 }
 
+/**
+ * Normalize a date header or timestamp to ISO 8601 (unparseable values pass through).
+ */
+function toIsoDate(value: string): string {
+  const time = new Date(value).getTime();
+  return isNaN(time) ? value : new Date(time).toISOString();
+}
+
 /**
  * Read all messages in a thread via direct API calls (Gmail or MS Graph).
  */
@@ -58,14 +99,127 @@ export async function readThread(
   threadId: string
 ): Promise<ThreadMessage[]> {
   const token = await provider.getToken();
+  return readThreadDirect(token, threadId);
+}
 
+/**
+ * Read all messages in a thread, oldest first, using a token directly.
+ *
+ * @param token - Token info with accessToken and isMicrosoft flag
+ * @param threadId - Gmail thread ID or MS Graph conversation ID
+ * @returns Messages with bodies, attachment metadata, importance and flags
+ */
+export async function readThreadDirect(
+  token: TokenInfo,
+  threadId: string
+): Promise<ThreadMessage[]> {
   if (token.isMicrosoft) {
-    return readThreadMSGraph(token.accessToken, threadId);
+    return readThreadMSGraph(token, threadId);
   } else {
     return readThreadGmail(token.accessToken, threadId);
   }
 }
 
+/**
+ * Convert a message from the offline mail cache, which keeps only the
+ * text body, to the ThreadMessage shape.
+ */
+export function fromCachedMessage(threadId: string, message: FullThreadMessage): ThreadMessage {
+  return {
+    id: message.message_id,
+    threadId,
+    subject: message.subject || "(no subject)",
+    from: message.from,
+    to: message.to,
+    cc: message.cc,
+    date: toIsoDate(message.date),
+    snippet: message.snippet,
+    textBody: message.body,
+    htmlBody: "",
+    attachments: [],
+    importance: "normal",
+    isRead: true,
+    flagged: false,
+  };
+}
+
+// ============================================================================
+// Gmail
+// ============================================================================
+
+interface GmailPart {
+  mimeType?: string;
+  filename?: string;
+  headers?: Array<{ name: string; value: string }>;
+  body?: { attachmentId?: string; size?: number; data?: string };
+  parts?: GmailPart[];
+}
+
+/**
+ * Walk a Gmail payload, collecting the first text, HTML and calendar
+ * bodies and all attachments.
+ */
+function extractGmailContent(payload: GmailPart): {
+  textBody: string;
+  htmlBody: string;
+  attachments: ThreadMessageAttachment[];
+  calendar?: string;
+} {
+  let textBody = "";
+  let htmlBody = "";
+  let calendar = "";
+  const attachments: ThreadMessageAttachment[] = [];
+
+  function walk(part: GmailPart): void {
+    const header = (name: string) =>
+      part.headers?.find((h) => h.name.toLowerCase() === name)?.value || "";
+    const disposition = header("content-disposition");
+
+    if (part.filename && part.body?.attachmentId) {
+      attachments.push({
+        id: part.body.attachmentId,
+        filename: part.filename,
+        mimeType: part.mimeType || "application/octet-stream",
+        size: part.body.size || 0,
+        inline: /^inline/i.test(disposition) || (!disposition && !!header("content-id")),
+      });
+    } else if (part.body?.data && !/^attachment/i.test(disposition)) {
+      const content = Buffer.from(part.body.data, "base64url").toString("utf-8");
+      if (part.mimeType === "text/plain" && !textBody) {
+        textBody = content;
+      } else if (part.mimeType === "text/html" && !htmlBody) {
+        htmlBody = content;
+      } else if (part.mimeType === "text/calendar" && !calendar) {
+        calendar = content;
+      }
+    }
+
+    for (const child of part.parts || []) {
+      walk(child);
+    }
+  }
+  walk(payload);
+
+  return {
+    textBody: textBody || htmlToPlainText(htmlBody),
+    htmlBody,
+    attachments,
+    ...(calendar && { calendar }),
+  };
+}
+
+/**
+ * Importance from the Importance or X-Priority header (1-2 high, 4-5 low).
+ */
+function gmailImportance(importance: string, priority: string): MessageImportance {
+  const value = importance.toLowerCase();
+  if (value === "high" || value === "low") return value;
+  const level = parseInt(priority, 10);
+  if (level === 1 || level === 2) return "high";
+  if (level === 4 || level === 5) return "low";
+  return "normal";
+}
+
 /**
  * Read thread messages from Gmail API.
  */
@@ -94,6 +248,8 @@ async function readThreadGmail(
     };
 
     const fromParsed = parseRecipient(getHeader("From"));
+    const labelIds: string[] = msg.labelIds || [];
+    const content = extractGmailContent(msg.payload || {});
 
     return {
       id: msg.id,
@@ -102,43 +258,48 @@ async function readThreadGmail(
       from: fromParsed,
       to: parseRecipientList(getHeader("To")),
       cc: parseRecipientList(getHeader("Cc")),
-      date: getHeader("Date"),
+      date: msg.internalDate
+        ? new Date(Number(msg.internalDate)).toISOString()
+        : toIsoDate(getHeader("Date")),
       snippet: msg.snippet || "",
+      ...content,
+      importance: gmailImportance(getHeader("Importance"), getHeader("X-Priority")),
+      isRead: !labelIds.includes("UNREAD"),
+      flagged: labelIds.includes("STARRED"),
     };
   });
 }
 
+// ============================================================================
+// MS Graph
+// ============================================================================
+
+const MSGRAPH_MESSAGE_FIELDS =
+  "id,conversationId,subject,from,toRecipients,ccRecipients,receivedDateTime,sentDateTime," +
+  "bodyPreview,body,importance,isRead,flag,hasAttachments";
+const MSGRAPH_ATTACHMENT_EXPAND = "attachments($select=id,name,contentType,size,isInline)";
+
 /**
  * Read thread messages from MS Graph API.
- * Uses client-side filter by conversationId because $filter on conversationId
- * at /me/messages level returns an InefficientFilter error.
+ * Pages through the whole conversation across all folders, Sent Items included.
  */
 async function readThreadMSGraph(
-  accessToken: string,
+  token: TokenInfo,
   conversationId: string
 ): Promise<ThreadMessage[]> {
-  const path = `/me/messages?$select=id,subject,from,toRecipients,ccRecipients,receivedDateTime,bodyPreview,conversationId&$top=50&$orderby=receivedDateTime desc`;
-  const result = await msgraphFetch(accessToken, path);
-
-  let messages: any[] = [];
-  if (result?.value) {
-    messages = result.value.filter(
-      (m: any) => m.conversationId === conversationId
-    );
-    // Sort oldest first for thread reading order
-    messages.sort(
-      (a: any, b: any) =>
-        new Date(a.receivedDateTime).getTime() -
-        new Date(b.receivedDateTime).getTime()
-    );
-  }
+  let messages = await listConversationMessagesMsGraph(
+    token,
+    conversationId,
+    MSGRAPH_MESSAGE_FIELDS,
+    MSGRAPH_ATTACHMENT_EXPAND
+  );
 
   // Fallback: if conversationId is actually a message ID, fetch it directly
   if (messages.length === 0) {
     try {
       const msg = await msgraphFetch(
-        accessToken,
-        `/me/messages/${conversationId}?$select=id,subject,from,toRecipients,ccRecipients,receivedDateTime,bodyPreview,conversationId`
+        token.accessToken,
+        `/me/messages/${conversationId}?$select=${MSGRAPH_MESSAGE_FIELDS}&$expand=${MSGRAPH_ATTACHMENT_EXPAND}`
       );
       if (msg) {
         messages = [msg];
@@ -153,6 +314,8 @@ async function readThreadMSGraph(
       email: r?.emailAddress?.address || "",
       name: r?.emailAddress?.name || "",
     });
+    const isHtml = msg.body?.contentType?.toLowerCase() === "html";
+    const content: string = msg.body?.content || "";
 
     return {
       id: msg.id,
@@ -161,8 +324,20 @@ async function readThreadMSGraph(
       from: mapRecipient(msg.from),
       to: (msg.toRecipients || []).map(mapRecipient),
       cc: (msg.ccRecipients || []).map(mapRecipient),
-      date: msg.receivedDateTime || "",
+      date: toIsoDate(msg.receivedDateTime || msg.sentDateTime || ""),
       snippet: msg.bodyPreview || "",
+      textBody: isHtml ? htmlToPlainText(content) : content,
+      htmlBody: isHtml ? content : "",
+      attachments: (msg.attachments || []).map((att: any) => ({
+        id: att.id,
+        filename: att.name || "attachment",
+        mimeType: att.contentType || "application/octet-stream",
+        size: att.size || 0,
+        inline: !!att.isInline,
+      })),
+      importance: msg.importance || "normal",
+      isRead: msg.isRead !== false,
+      flagged: msg.flag?.flagStatus === "flagged",
     };
   });
 }
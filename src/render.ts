@@ -0,0 +1,602 @@
+/**
+ * Render Module
+ *
+ * Turns email HTML into readable terminal text or compact Markdown:
+ * - links become numbered footnotes
+ * - quoted reply history (gmail_quote, Outlook divRplyFwdMsg) is collapsed
+ * - lists, blockquotes, preformatted text and data tables keep their shape
+ * - layout tables (newsletters) are flattened into paragraphs
+ * - images are shown as placeholders
+ *
+ * Text output is wrapped to a width; Markdown is left unwrapped.
+ */
+
+import type { ThreadMessage } from "./read";
+
+export type RenderFormat = "text" | "markdown" | "html";
+
+export const RENDER_FORMATS: RenderFormat[] = ["text", "markdown", "html"];
+
+export interface RenderOptions {
+  /** Wrap width for text output (default 80, 0 disables wrapping) */
+  width?: number;
+  /** Keep quoted reply history instead of collapsing it */
+  keepQuotes?: boolean;
+}
+
+/** Shown in place of collapsed reply history */
+export const QUOTE_PLACEHOLDER = "[quoted text hidden]";
+
+const DEFAULT_WIDTH = 80;
+
+// ============================================================================
+// HTML Parsing
+// ============================================================================
+
+type HtmlNode =
+  | { type: "text"; text: string }
+  | { type: "element"; tag: string; attrs: Record<string, string>; children: HtmlNode[] };
+
+type HtmlElement = Extract<HtmlNode, { type: "element" }>;
+
+const VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr",
+]);
+
+/** Elements whose content is never rendered */
+const SKIPPED_TAGS = new Set(["head", "script", "style", "title", "template", "noscript", "svg"]);
+
+const BLOCK_TAGS = new Set([
+  "address", "article", "aside", "blockquote", "center", "dd", "div", "dl", "dt", "figcaption", "figure",
+  "footer", "form", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "li", "main", "nav", "ol", "p",
+  "pre", "section", "table", "tbody", "td", "tfoot", "th", "thead", "tr", "ul", "body", "html",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", copy: "©", reg: "®", trade: "™",
+  mdash: "—", ndash: "–", hellip: "…", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", bull: "•",
+  middot: "·", laquo: "«", raquo: "»", euro: "€", pound: "£", zwnj: "", zwj: "", shy: "",
+};
+
+/**
+ * Decode HTML character references.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s=/"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  for (const match of source.matchAll(pattern)) {
+    attrs[match[1]!.toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+/**
+ * Parse HTML into a lenient element tree. Unclosed elements are closed by
+ * their parent's end tag; stray end tags are ignored.
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { type: "element", tag: "#root", attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const token = /<!--[\s\S]*?-->|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|[^<]+|</g;
+
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(html))) {
+    const [text, endTag, startTag, attrSource] = match;
+    const current = stack[stack.length - 1]!;
+
+    if (endTag) {
+      const tag = endTag.toLowerCase();
+      const index = stack.map((el) => el.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+    } else if (startTag) {
+      const tag = startTag.toLowerCase();
+      const element: HtmlElement = { type: "element", tag, attrs: parseAttributes(attrSource ?? ""), children: [] };
+      current.children.push(element);
+
+      if (SKIPPED_TAGS.has(tag)) {
+        // Raw text elements: skip straight to the closing tag
+        const close = html.toLowerCase().indexOf(`</${tag}`, token.lastIndex);
+        token.lastIndex = close === -1 ? html.length : close;
+      } else if (!VOID_TAGS.has(tag) && !attrSource?.trimEnd().endsWith("/")) {
+        stack.push(element);
+      }
+    } else if (!text.startsWith("<!") || text === "<") {
+      current.children.push({ type: "text", text: decodeEntities(text) });
+    }
+  }
+
+  return root;
+}
+
+function hasClass(element: HtmlElement, name: string): boolean {
+  return (element.attrs.class || "").split(/\s+/).includes(name);
+}
+
+function textContent(node: HtmlNode): string {
+  return node.type === "text" ? node.text : node.children.map(textContent).join("");
+}
+
+// ============================================================================
+// Quote Collapsing
+// ============================================================================
+
+/**
+ * Whether an element starts quoted reply history
+ */
+function isQuoteStart(element: HtmlElement): boolean {
+  return (
+    hasClass(element, "gmail_quote") ||
+    hasClass(element, "gmail_extra") ||
+    hasClass(element, "yahoo_quoted") ||
+    element.attrs.id === "divRplyFwdMsg" ||
+    (element.tag === "blockquote" && element.attrs.type === "cite")
+  );
+}
+
+/**
+ * Remove quoted reply history from the tree. Outlook puts the original
+ * message after #divRplyFwdMsg as siblings, so everything from the marker
+ * to the end of its parent goes.
+ *
+ * @returns Whether anything was removed
+ */
+function collapseQuotes(element: HtmlElement): boolean {
+  for (let i = 0; i < element.children.length; i++) {
+    const child = element.children[i]!;
+    if (child.type !== "element") continue;
+
+    if (isQuoteStart(child)) {
+      // Outlook separates the history with an <hr> right before the marker
+      let start = i;
+      while (start > 0) {
+        const previous = element.children[start - 1]!;
+        const isRule = previous.type === "element" && (previous.tag === "hr" || previous.attrs.id === "appendonsend");
+        const isBlank = previous.type === "text" && !previous.text.trim();
+        if (!isRule && !isBlank) break;
+        start--;
+      }
+      element.children.splice(start);
+      return true;
+    }
+    if (collapseQuotes(child)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Remove quoted history from a plain-text body: "On ... wrote:" followed by
+ * "> " lines, or an "-----Original Message-----" / Outlook "From:" separator.
+ *
+ * @returns The body up to the quote, and whether anything was removed
+ */
+export function collapseTextQuotes(text: string): { text: string; collapsed: boolean } {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i]!.trim();
+    const next = lines[i + 1]?.trim() || "";
+    const isQuote =
+      (/^On .+wrote:$/.test(line) && (next.startsWith(">") || !next)) ||
+      /^-{2,}\s*Original Message\s*-{2,}$/i.test(line) ||
+      (/^_{10,}$/.test(line) && /^From:/.test(next)) ||
+      (line.startsWith(">") && lines.slice(i).every((l) => !l.trim() || l.trim().startsWith(">")));
+    if (isQuote) {
+      return { text: lines.slice(0, i).join("\n").trimEnd(), collapsed: true };
+    }
+  }
+  return { text, collapsed: false };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+interface RenderContext {
+  markdown: boolean;
+  /** Wrap width for the current block, 0 for none */
+  width: number;
+  /** Footnote URLs, numbered from 1 */
+  links: string[];
+  pre: boolean;
+}
+
+function isBlock(node: HtmlNode): boolean {
+  return node.type === "element" && (BLOCK_TAGS.has(node.tag) || node.tag === "#root");
+}
+
+/**
+ * Add a link footnote and return its number (identical URLs share one).
+ */
+function footnote(ctx: RenderContext, url: string): number {
+  const existing = ctx.links.indexOf(url);
+  if (existing !== -1) return existing + 1;
+  ctx.links.push(url);
+  return ctx.links.length;
+}
+
+function renderLink(element: HtmlElement, ctx: RenderContext): string {
+  const label = renderInline(element.children, ctx).trim();
+  const href = (element.attrs.href || "").trim();
+  if (!href || href.startsWith("#") || /^javascript:/i.test(href)) {
+    return label;
+  }
+
+  const target = href.replace(/^mailto:/i, "");
+  if (!label || label === href || label === target) {
+    return target;
+  }
+  const n = footnote(ctx, href);
+  return ctx.markdown ? `[${label}][${n}]` : `${label} [${n}]`;
+}
+
+function renderImage(element: HtmlElement): string {
+  const { width, height } = element.attrs;
+  // Tracking pixels
+  if (width === "1" || height === "1" || width === "0" || height === "0") {
+    return "";
+  }
+  const alt = (element.attrs.alt || element.attrs.title || "").replace(/\s+/g, " ").trim();
+  return alt ? `[image: ${alt}]` : "[image]";
+}
+
+function emphasize(text: string, marker: string, ctx: RenderContext): string {
+  if (!ctx.markdown || !text.trim()) return text;
+  // Keep surrounding spaces outside the markers
+  const [, lead, inner, trail] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return `${lead}${marker}${inner}${marker}${trail}`;
+}
+
+/**
+ * Render inline content. Whitespace collapses outside <pre>; <br> becomes "\n".
+ */
+function renderInline(nodes: HtmlNode[], ctx: RenderContext): string {
+  let out = "";
+  for (const node of nodes) {
+    if (node.type === "text") {
+      out += ctx.pre ? node.text : node.text.replace(/\s+/g, " ");
+      continue;
+    }
+
+    switch (node.tag) {
+      case "br":
+        out += "\n";
+        break;
+      case "a":
+        out += renderLink(node, ctx);
+        break;
+      case "img":
+        out += renderImage(node);
+        break;
+      case "b":
+      case "strong":
+        out += emphasize(renderInline(node.children, ctx), "**", ctx);
+        break;
+      case "i":
+      case "em":
+        out += emphasize(renderInline(node.children, ctx), "_", ctx);
+        break;
+      case "code":
+        out += ctx.markdown && !ctx.pre ? `\`${textContent(node)}\`` : textContent(node);
+        break;
+      default:
+        if (SKIPPED_TAGS.has(node.tag)) break;
+        // Block elements nested in inline content are rendered on their own lines
+        out += isBlock(node) ? `\n${renderBlocks(node.children, ctx).join("\n")}\n` : renderInline(node.children, ctx);
+    }
+  }
+  return out;
+}
+
+/**
+ * Wrap text to a width at word boundaries. Long words (URLs) are not split.
+ */
+export function wrapText(text: string, width: number): string {
+  if (width <= 0) return text;
+
+  return text
+    .split("\n")
+    .map((line) => {
+      if (line.length <= width) return line;
+      const wrapped: string[] = [];
+      let current = "";
+      for (const word of line.split(" ")) {
+        if (current && current.length + 1 + word.length > width) {
+          wrapped.push(current);
+          current = word;
+        } else {
+          current = current ? `${current} ${word}` : word;
+        }
+      }
+      wrapped.push(current);
+      return wrapped.join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * Tidy inline output into a paragraph: trim each line and drop blank runs.
+ */
+function paragraph(text: string, ctx: RenderContext): string {
+  const lines = text
+    .split("\n")
+    .map((line) => line.replace(/ {2,}/g, " ").trim())
+    .filter((line, i, all) => line || (i > 0 && all[i - 1]));
+  const joined = lines.join("\n").trim();
+  return ctx.markdown ? joined : wrapText(joined, ctx.width);
+}
+
+function prefixLines(text: string, first: string, rest: string = first): string {
+  return text
+    .split("\n")
+    .map((line, i) => `${i === 0 ? first : rest}${line}`.trimEnd())
+    .join("\n");
+}
+
+function renderList(element: HtmlElement, ctx: RenderContext): string {
+  const ordered = element.tag === "ol";
+  let n = Number(element.attrs.start) || 1;
+  const items: string[] = [];
+
+  for (const child of element.children) {
+    if (child.type !== "element") continue;
+    if (child.tag !== "li") {
+      // Nested list placed directly in the list (common in pasted HTML)
+      if (child.tag === "ul" || child.tag === "ol") {
+        items.push(prefixLines(renderList(child, ctx), "  "));
+      }
+      continue;
+    }
+
+    const marker = ordered ? `${n++}. ` : ctx.markdown ? "- " : "• ";
+    const indent = " ".repeat(marker.length);
+    const body = renderBlocks(child.children, { ...ctx, width: ctx.width && Math.max(ctx.width - marker.length, 20) });
+    items.push(prefixLines(body.join("\n") || "", marker, indent));
+  }
+
+  return items.join("\n");
+}
+
+function tableRows(element: HtmlElement): HtmlElement[][] {
+  const rows: HtmlElement[][] = [];
+  for (const child of element.children) {
+    if (child.type !== "element") continue;
+    if (child.tag === "tr") {
+      rows.push(child.children.filter((c): c is HtmlElement => c.type === "element" && (c.tag === "td" || c.tag === "th")));
+    } else if (child.tag === "thead" || child.tag === "tbody" || child.tag === "tfoot") {
+      rows.push(...tableRows(child));
+    }
+  }
+  return rows;
+}
+
+/**
+ * Whether a table holds data rather than page layout: more than one column
+ * and no block content (paragraphs, nested tables, lists) in its cells.
+ */
+function isDataTable(rows: HtmlElement[][]): boolean {
+  if (rows.length === 0 || Math.max(...rows.map((r) => r.length)) < 2) {
+    return false;
+  }
+  const hasBlocks = (node: HtmlNode): boolean =>
+    node.type === "element" &&
+    ((node.tag !== "br" && BLOCK_TAGS.has(node.tag) && node.tag !== "div" && node.tag !== "span") ||
+      node.children.some(hasBlocks));
+  return rows.every((row) => row.every((cell) => !cell.children.some(hasBlocks)));
+}
+
+function renderTable(element: HtmlElement, ctx: RenderContext): string[] {
+  const rows = tableRows(element);
+
+  if (!isDataTable(rows)) {
+    // Layout table: render each cell's content in reading order
+    return rows.flatMap((row) => row.flatMap((cell) => renderBlocks(cell.children, ctx)));
+  }
+
+  const cells = rows.map((row) =>
+    row.map((cell) => paragraph(renderInline(cell.children, ctx), { ...ctx, width: 0 }).replace(/\n/g, " "))
+  );
+  const columns = Math.max(...cells.map((r) => r.length));
+  for (const row of cells) {
+    while (row.length < columns) row.push("");
+  }
+
+  if (ctx.markdown) {
+    const line = (row: string[]) => `| ${row.map((c) => c.replace(/\|/g, "\\|")).join(" | ")} |`;
+    return [[line(cells[0]!), `|${" --- |".repeat(columns)}`, ...cells.slice(1).map(line)].join("\n")];
+  }
+
+  const widths = Array.from({ length: columns }, (_, c) => Math.max(...cells.map((row) => row[c]!.length)));
+  const total = widths.reduce((sum, w) => sum + w, 0) + 2 * (columns - 1);
+  if (ctx.width && total > ctx.width) {
+    // Too wide for the terminal: one "cell | cell" line per row
+    return [cells.map((row) => wrapText(row.filter(Boolean).join(" | "), ctx.width)).join("\n")];
+  }
+  return [cells.map((row) => row.map((c, i) => c.padEnd(widths[i]!)).join("  ").trimEnd()).join("\n")];
+}
+
+/**
+ * Render a list of nodes as blocks (paragraphs, lists, tables, ...).
+ */
+function renderBlocks(nodes: HtmlNode[], ctx: RenderContext): string[] {
+  const blocks: string[] = [];
+  let inline: HtmlNode[] = [];
+
+  const flush = () => {
+    const text = paragraph(renderInline(inline, ctx), ctx);
+    if (text) blocks.push(text);
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (!isBlock(node) || node.type !== "element") {
+      inline.push(node);
+      continue;
+    }
+    flush();
+
+    switch (node.tag) {
+      case "h1":
+      case "h2":
+      case "h3":
+      case "h4":
+      case "h5":
+      case "h6": {
+        const text = paragraph(renderInline(node.children, ctx), { ...ctx, width: 0 }).replace(/\n/g, " ");
+        if (!text) break;
+        const level = Number(node.tag[1]);
+        if (ctx.markdown) {
+          blocks.push(`${"#".repeat(level)} ${text}`);
+        } else if (level <= 2) {
+          // Underline top-level headings, setext style
+          const underline = (level === 1 ? "=" : "-").repeat(Math.min(text.length, ctx.width || text.length));
+          blocks.push(`${text}\n${underline}`);
+        } else {
+          blocks.push(text);
+        }
+        break;
+      }
+      case "ul":
+      case "ol": {
+        const list = renderList(node, ctx);
+        if (list.trim()) blocks.push(list);
+        break;
+      }
+      case "blockquote": {
+        const inner = renderBlocks(node.children, { ...ctx, width: ctx.width && Math.max(ctx.width - 2, 20) });
+        if (inner.length > 0) blocks.push(prefixLines(inner.join("\n\n"), "> "));
+        break;
+      }
+      case "pre": {
+        const text = renderInline(node.children, { ...ctx, pre: true }).replace(/^\n|\s+$/g, "");
+        if (text) blocks.push(ctx.markdown ? `\`\`\`\n${text}\n\`\`\`` : text);
+        break;
+      }
+      case "hr":
+        blocks.push(ctx.markdown ? "---" : "-".repeat(Math.min(ctx.width || 40, 40)));
+        break;
+      case "table":
+        blocks.push(...renderTable(node, ctx));
+        break;
+      default:
+        blocks.push(...renderBlocks(node.children, ctx));
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Append link footnotes to rendered output.
+ */
+function withFootnotes(body: string, ctx: RenderContext): string {
+  if (ctx.links.length === 0) return body;
+  const notes = ctx.links.map((url, i) => (ctx.markdown ? `[${i + 1}]: ${url}` : `[${i + 1}] ${url}`));
+  return `${body}\n\n${notes.join("\n")}`;
+}
+
+/**
+ * Render email HTML as wrapped terminal text or Markdown.
+ *
+ * @param html - Message HTML
+ * @param format - "text" or "markdown"
+ * @param options - Wrap width and quote handling
+ * @returns Rendered body with link footnotes at the end
+ */
+export function renderHtml(html: string, format: "text" | "markdown", options: RenderOptions = {}): string {
+  const root = parseHtml(html);
+  const collapsed = !options.keepQuotes && collapseQuotes(root);
+  const ctx: RenderContext = {
+    markdown: format === "markdown",
+    width: options.width ?? DEFAULT_WIDTH,
+    links: [],
+    pre: false,
+  };
+
+  const blocks = renderBlocks(root.children, ctx);
+  if (collapsed) blocks.push(QUOTE_PLACEHOLDER);
+  return withFootnotes(blocks.join("\n\n"), ctx);
+}
+
+/**
+ * Render a message body in the requested format. HTML bodies go through
+ * renderHtml; plain-text bodies are quote-collapsed and wrapped.
+ *
+ * @param message - Message with textBody and htmlBody
+ * @param format - "text", "markdown" or "html" (raw HTML, or the text body if none)
+ * @param options - Wrap width and quote handling
+ * @returns Rendered body
+ */
+export function renderMessageBody(
+  message: Pick<ThreadMessage, "textBody" | "htmlBody">,
+  format: RenderFormat,
+  options: RenderOptions = {}
+): string {
+  if (format === "html") {
+    return message.htmlBody || message.textBody;
+  }
+  if (message.htmlBody) {
+    return renderHtml(message.htmlBody, format, options);
+  }
+
+  let text = message.textBody.replace(/\r\n/g, "\n").trim();
+  if (!options.keepQuotes) {
+    const result = collapseTextQuotes(text);
+    text = result.collapsed ? `${result.text}\n\n${QUOTE_PLACEHOLDER}` : result.text;
+  }
+  return format === "text" ? wrapText(text, options.width ?? DEFAULT_WIDTH) : text;
+}
+
+function formatAddress(address: { email: string; name: string }): string {
+  return address.name ? `${address.name} <${address.email}>` : address.email;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Render a whole thread as Markdown: one section per message with its
+ * headers, rendered body and attachment list.
+ *
+ * @param messages - Thread messages, oldest first
+ * @param options - Quote handling (Markdown is not wrapped)
+ * @returns Markdown document
+ */
+export function renderThreadMarkdown(messages: ThreadMessage[], options: RenderOptions = {}): string {
+  const subject = messages[0]?.subject || "(no subject)";
+  const sections = messages.map((message) => {
+    const lines = [`**From:** ${formatAddress(message.from)}  `];
+    if (message.to.length > 0) lines.push(`**To:** ${message.to.map(formatAddress).join(", ")}  `);
+    if (message.cc.length > 0) lines.push(`**Cc:** ${message.cc.map(formatAddress).join(", ")}  `);
+    lines.push(`**Date:** ${message.date}  `);
+    if (message.subject !== subject) lines.push(`**Subject:** ${message.subject}  `);
+
+    const body = renderMessageBody(message, "markdown", options);
+    lines.push("", body || "_(no content)_");
+
+    const files = message.attachments.filter((a) => !a.inline);
+    if (files.length > 0) {
+      lines.push("", "**Attachments:**");
+      for (const file of files) {
+        lines.push(`- ${file.filename} (${formatSize(file.size)})`);
+      }
+    }
+    return lines.join("\n");
+  });
+
+  return `# ${subject}\n\n${sections.join("\n\n---\n\n")}\n`;
+}
@@ -12,9 +12,15 @@ import {
   sendEmailWithToken,
   createReplyDraftWithToken,
   createDraftWithToken,
-  getThreadInfoForReplyWithToken,
 } from "./send-api.js";
-import { getThreadMessages } from "./token-api";
+import {
+  getThreadMessages,
+  getThreadDirect,
+  downloadAttachmentDirect,
+  type FullThreadMessage,
+  type TokenInfo,
+} from "./token-api";
+import type { MimeAttachment } from "./mime";
 
 export interface ReplyResult {
   success: boolean;
@@ -23,6 +29,11 @@ export interface ReplyResult {
   error?: string;
 }
 
+export interface ReplyOptions {
+  /** Files to attach to the reply or forward */
+  attachments?: MimeAttachment[];
+}
+
 /**
  * Reply to a thread (reply to sender only).
  *
@@ -32,9 +43,10 @@ export async function replyToThread(
   provider: ConnectionProvider,
   threadId: string,
   body: string,
-  send: boolean = false
+  send: boolean = false,
+  options: ReplyOptions = {}
 ): Promise<ReplyResult> {
-  return replyImpl(provider, threadId, body, send, false);
+  return replyImpl(provider, threadId, body, send, false, options);
 }
 
 /**
@@ -46,9 +58,10 @@ export async function replyAllToThread(
   provider: ConnectionProvider,
   threadId: string,
   body: string,
-  send: boolean = false
+  send: boolean = false,
+  options: ReplyOptions = {}
 ): Promise<ReplyResult> {
-  return replyImpl(provider, threadId, body, send, true);
+  return replyImpl(provider, threadId, body, send, true, options);
 }
 
 /**
@@ -59,11 +72,12 @@ async function replyImpl(
   threadId: string,
   body: string,
   send: boolean,
-  replyAll: boolean
+  replyAll: boolean,
+  options: ReplyOptions
 ): Promise<ReplyResult> {
   const token = await provider.getToken();
   const htmlBody = textToHtml(body);
-  const opts = { replyAll, isHtml: true };
+  const opts = { replyAll, isHtml: true, attachments: options.attachments };
 
   if (send) {
     const result = await sendReplyWithToken(token, threadId, htmlBody, opts);
@@ -80,18 +94,103 @@ async function replyImpl(
   return { success: false, error: result.error };
 }
 
+export interface ForwardOptions extends ReplyOptions {
+  /** Forward this message instead of the thread's latest one */
+  messageId?: string;
+  /** Forward every message in the thread as one digest, oldest first */
+  all?: boolean;
+}
+
+/**
+ * Subject, body and files of a forward, ready to send or save as a draft
+ */
+export interface ForwardContent {
+  subject: string;
+  /** HTML body: the user's note followed by the quoted original message(s) */
+  body: string;
+  /** Attachments of the forwarded message(s) */
+  attachments: MimeAttachment[];
+}
+
+export interface ForwardContentResult {
+  success: boolean;
+  content?: ForwardContent;
+  error?: string;
+}
+
+/**
+ * Build the content of a forward from the original message(s).
+ *
+ * Quotes the original sender, date, recipients and Cc, and downloads the
+ * original attachments so they are re-attached to the forward.
+ *
+ * @param token - OAuth token info
+ * @param threadId - The thread ID to forward
+ * @param body - The message body to include before the forwarded content
+ * @param options - Which message(s) to forward
+ * @returns Result with the forward content, or an error if the thread or message was not found
+ */
+export async function buildForwardContent(
+  token: TokenInfo,
+  threadId: string,
+  body: string,
+  options: ForwardOptions = {}
+): Promise<ForwardContentResult> {
+  try {
+    const messages = await getThreadMessages(token, threadId);
+    if (messages.length === 0) {
+      return { success: false, error: "Could not get thread messages for forward" };
+    }
+
+    let forwarded: FullThreadMessage[];
+    if (options.all) {
+      forwarded = messages;
+    } else if (options.messageId) {
+      const message = messages.find((m) => m.message_id === options.messageId);
+      if (!message) {
+        return { success: false, error: `Message ${options.messageId} not found in thread ${threadId}` };
+      }
+      forwarded = [message];
+    } else {
+      forwarded = [messages[messages.length - 1]!];
+    }
+
+    // Build subject with Fwd: prefix
+    const originalSubject = forwarded[0]!.subject || messages[0]!.subject;
+    const subject = /^fwd?:/i.test(originalSubject) ? originalSubject : `Fwd: ${originalSubject}`;
+
+    const parts: string[] = [];
+    if (body) {
+      parts.push(`<div>${textToHtml(body)}</div>`);
+      parts.push("<br>");
+    }
+    parts.push(...forwarded.map(buildForwardBlock));
+
+    const attachments = await getOriginalAttachments(
+      token,
+      threadId,
+      forwarded.map((m) => m.message_id)
+    );
+
+    return { success: true, content: { subject, body: parts.join("\n"), attachments } };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Unknown error" };
+  }
+}
+
 /**
  * Forward a thread
  *
- * Fetches the original message content and constructs a forwarded email
- * with proper "Forwarded message" header. Uses direct API for both
- * sending and draft creation.
+ * Quotes the original message with a "Forwarded message" header block
+ * (real sender, date, recipients and Cc) and carries its attachments.
+ * Uses direct API for both sending and draft creation.
  *
  * @param provider - Connection provider for token resolution
  * @param threadId - The thread ID to forward
  * @param toEmail - The email address to forward to
  * @param body - The message body to include before the forwarded content
  * @param send - If true, send immediately; if false, save as draft
+ * @param options - Extra attachments and which message(s) to forward
  * @returns Result with success status, optional draft ID, and error message if failed
  */
 export async function forwardThread(
@@ -99,45 +198,26 @@ export async function forwardThread(
   threadId: string,
   toEmail: string,
   body: string,
-  send: boolean = false
+  send: boolean = false,
+  options: ForwardOptions = {}
 ): Promise<ReplyResult> {
   const token = await provider.getToken();
 
-  // Get thread info for headers (subject, from, to, date)
-  const threadInfo = await getThreadInfoForReplyWithToken(token, threadId);
-  if (!threadInfo) {
-    return { success: false, error: "Could not get thread information for forward" };
+  const forward = await buildForwardContent(token, threadId, body, options);
+  if (!forward.content) {
+    return { success: false, error: forward.error };
   }
 
-  // Get thread messages for the original body content
-  const messages = await getThreadMessages(token, threadId);
-  const lastMessage = messages.length > 0 ? messages[messages.length - 1] : null;
-  const originalBody = lastMessage?.body || "";
-
-  // Build subject with Fwd: prefix
-  const subject = threadInfo.subject.startsWith("Fwd:")
-    ? threadInfo.subject
-    : `Fwd: ${threadInfo.subject}`;
-
-  // Build the forwarded message body
-  const userHtml = body ? textToHtml(body) : "";
-  const forwardBody = buildForwardBody({
-    userHtml,
-    from: threadInfo.replyTo || "unknown",
-    date: new Date().toUTCString(), // Best effort; threadInfo doesn't have date
-    subject: threadInfo.subject,
-    to: threadInfo.allTo.join(", ") || "unknown",
-    originalBody,
-  });
+  const email = {
+    to: [toEmail],
+    subject: forward.content.subject,
+    body: forward.content.body,
+    isHtml: true,
+    attachments: [...forward.content.attachments, ...(options.attachments || [])],
+  };
 
   if (send) {
-    const result = await sendEmailWithToken(token, {
-      to: [toEmail],
-      subject,
-      body: forwardBody,
-      isHtml: true,
-    });
-
+    const result = await sendEmailWithToken(token, email);
     if (result.success) {
       return { success: true, messageId: result.messageId };
     }
@@ -145,13 +225,7 @@ export async function forwardThread(
   }
 
   // Draft mode
-  const result = await createDraftWithToken(token, {
-    to: [toEmail],
-    subject,
-    body: forwardBody,
-    isHtml: true,
-  });
-
+  const result = await createDraftWithToken(token, email);
   if (result.success) {
     return { success: true, draftId: result.draftId };
   }
@@ -159,40 +233,73 @@ export async function forwardThread(
 }
 
 /**
- * Build the forwarded message HTML body.
+ * Build the "Forwarded message" block for one original message.
  */
-function buildForwardBody(opts: {
-  userHtml: string;
-  from: string;
-  date: string;
-  subject: string;
-  to: string;
-  originalBody: string;
-}): string {
+function buildForwardBlock(message: FullThreadMessage): string {
   const parts: string[] = [];
 
-  if (opts.userHtml) {
-    parts.push(`<div>${opts.userHtml}</div>`);
-    parts.push("<br>");
-  }
-
   parts.push("<div>---------- Forwarded message ---------</div>");
-  parts.push(`<div>From: ${escapeHtml(opts.from)}</div>`);
-  parts.push(`<div>Date: ${escapeHtml(opts.date)}</div>`);
-  parts.push(`<div>Subject: ${escapeHtml(opts.subject)}</div>`);
-  parts.push(`<div>To: ${escapeHtml(opts.to)}</div>`);
+  parts.push(`<div>From: ${escapeHtml(formatAddress(message.from))}</div>`);
+  parts.push(`<div>Date: ${escapeHtml(formatForwardDate(message.date))}</div>`);
+  parts.push(`<div>Subject: ${escapeHtml(message.subject)}</div>`);
+  parts.push(`<div>To: ${escapeHtml(message.to.map(formatAddress).join(", "))}</div>`);
+  if (message.cc.length > 0) {
+    parts.push(`<div>Cc: ${escapeHtml(message.cc.map(formatAddress).join(", "))}</div>`);
+  }
   parts.push("<br>");
 
-  // If originalBody already contains HTML, use it as-is; otherwise wrap in div
-  if (opts.originalBody.includes("<")) {
-    parts.push(`<div>${opts.originalBody}</div>`);
+  // If the body already contains HTML, use it as-is; otherwise wrap in div
+  if (message.body.includes("<")) {
+    parts.push(`<div>${message.body}</div>`);
   } else {
-    parts.push(`<div>${textToHtml(opts.originalBody)}</div>`);
+    parts.push(`<div>${textToHtml(message.body)}</div>`);
   }
+  parts.push("<br>");
 
   return parts.join("\n");
 }
 
+/**
+ * Download the attachments of the given messages so they can be re-attached.
+ */
+async function getOriginalAttachments(
+  token: TokenInfo,
+  threadId: string,
+  messageIds: string[]
+): Promise<MimeAttachment[]> {
+  const thread = await getThreadDirect(token, threadId);
+  if (!thread) return [];
+
+  const attachments: MimeAttachment[] = [];
+  for (const message of thread.messages.filter((m) => messageIds.includes(m.id))) {
+    for (const att of message.attachments) {
+      const { data } = await downloadAttachmentDirect(token, message.id, att.attachmentId);
+      // Item and reference attachments (Outlook) have no file content to copy
+      if (!data) continue;
+      attachments.push({
+        filename: att.filename || "attachment",
+        contentType: att.mimeType,
+        data: new Uint8Array(Buffer.from(data, "base64")),
+      });
+    }
+  }
+  return attachments;
+}
+
+function formatAddress(address: { email: string; name: string }): string {
+  return address.name ? `${address.name} <${address.email}>` : address.email;
+}
+
+/**
+ * Gmail dates are RFC 2822 already; MS Graph sends ISO 8601.
+ */
+function formatForwardDate(date: string): string {
+  if (/^\d{4}-\d{2}-\d{2}T/.test(date)) {
+    return new Date(date).toUTCString();
+  }
+  return date || "unknown";
+}
+
 /**
  * Escape HTML special characters to prevent injection.
  */
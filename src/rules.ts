@@ -0,0 +1,510 @@
+/**
+ * Rules Module
+ *
+ * Local mail rules (filters). Rules live in rules.yaml / rules.json in the
+ * config directory, match threads on sender, recipients, subject, label,
+ * attachment presence or body, and apply existing actions: archive, label,
+ * star, snooze, mark read, or reply with a snippet.
+ *
+ * Thread data is fetched through the provider-agnostic modules, so rules
+ * behave the same for Gmail and Microsoft accounts.
+ */
+
+import type { ConnectionProvider } from "./connection-provider";
+import { archiveThread } from "./archive";
+import { addLabel, getThreadLabels, listLabels, resolveLabelIn, starThread, type Label } from "./labels";
+import { markAsRead } from "./read-status";
+import { parseSnoozeTime, snoozeThreadViaProvider } from "./snooze";
+import { listAttachments } from "./attachments";
+import { replyToThread } from "./reply";
+import { listSnippets, findSnippet, applyVars, findVariables, missingVariables, recipientVars, resolveSnippetVars } from "./snippets";
+import { getUserInfoFromCache } from "./draft-api";
+import { getConfigDirPath, getThreadMessages, type FullThreadMessage } from "./token-api";
+import { withUndo, type OperationKind } from "./history";
+
+/**
+ * Conditions a thread must satisfy. All given conditions must match.
+ *
+ * String conditions are case-insensitive substring matches, or regular
+ * expressions when written as `/pattern/`. `body` is always a regular
+ * expression.
+ */
+export interface RuleMatch {
+  from?: string;
+  /** Matches any To/Cc recipient */
+  to?: string;
+  subject?: string;
+  /** Label/folder name or ID on the thread */
+  label?: string;
+  hasAttachment?: boolean;
+  body?: string;
+}
+
+export type RuleAction =
+  | "archive"
+  | "star"
+  | "markRead"
+  | { addLabel: string }
+  | { snooze: string }
+  | { reply: { snippet: string; send?: boolean; vars?: Record<string, string> } };
+
+export interface Rule {
+  name: string;
+  match: RuleMatch;
+  actions: RuleAction[];
+  /** Skip the remaining rules for a thread once this rule matched */
+  stop?: boolean;
+  enabled?: boolean;
+}
+
+export interface RulesFile {
+  rules: Rule[];
+}
+
+export interface ConditionResult {
+  condition: keyof RuleMatch;
+  matched: boolean;
+}
+
+export interface RuleEvaluation {
+  rule: Rule;
+  matched: boolean;
+  conditions: ConditionResult[];
+}
+
+export interface ActionResult {
+  action: string;
+  success: boolean;
+  error?: string;
+  /** Operation log entry for undo (not set for replies) */
+  operationId?: string;
+}
+
+export interface ThreadRuleResult {
+  threadId: string;
+  subject: string;
+  rule: string;
+  actions: ActionResult[];
+}
+
+export interface RunRulesOptions {
+  /** Report what would happen without applying actions */
+  dryRun?: boolean;
+}
+
+const RULES_FILE_NAMES = ["rules.yaml", "rules.yml", "rules.json"];
+
+/**
+ * Get the path to the rules file.
+ * Returns the first existing rules.yaml / rules.yml / rules.json, else rules.yaml.
+ */
+export async function getRulesFilePath(): Promise<string> {
+  const dir = getConfigDirPath();
+  for (const name of RULES_FILE_NAMES) {
+    if (await Bun.file(`${dir}/${name}`).exists()) {
+      return `${dir}/${name}`;
+    }
+  }
+  return `${dir}/${RULES_FILE_NAMES[0]}`;
+}
+
+function getRulesStateFile(): string {
+  return `${getConfigDirPath()}/rules-state.json`;
+}
+
+/**
+ * Validate parsed rules file content.
+ * Throws an Error describing the first problem found.
+ */
+export function validateRules(data: unknown): Rule[] {
+  const rules = (data as RulesFile | null)?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error("Rules file must contain a top-level 'rules' list");
+  }
+
+  const validConditions = new Set(["from", "to", "subject", "label", "hasAttachment", "body"]);
+  const names = new Set<string>();
+
+  rules.forEach((rule: any, i: number) => {
+    const where = `Rule ${i + 1}${rule?.name ? ` ("${rule.name}")` : ""}`;
+    if (!rule || typeof rule.name !== "string" || !rule.name) {
+      throw new Error(`${where}: 'name' is required`);
+    }
+    if (names.has(rule.name)) {
+      throw new Error(`${where}: duplicate rule name`);
+    }
+    names.add(rule.name);
+
+    if (!rule.match || typeof rule.match !== "object" || Object.keys(rule.match).length === 0) {
+      throw new Error(`${where}: 'match' must have at least one condition`);
+    }
+    for (const [key, value] of Object.entries(rule.match)) {
+      if (!validConditions.has(key)) {
+        throw new Error(`${where}: unknown condition '${key}'`);
+      }
+      if (key === "hasAttachment" ? typeof value !== "boolean" : typeof value !== "string") {
+        throw new Error(`${where}: invalid value for '${key}'`);
+      }
+      if (key === "body" || (typeof value === "string" && /^\/.*\/$/.test(value))) {
+        try {
+          toRegExp(value as string, true);
+        } catch {
+          throw new Error(`${where}: invalid regular expression for '${key}'`);
+        }
+      }
+    }
+
+    if (!Array.isArray(rule.actions) || rule.actions.length === 0) {
+      throw new Error(`${where}: 'actions' must be a non-empty list`);
+    }
+    for (const action of rule.actions) {
+      if (!describeAction(action)) {
+        throw new Error(`${where}: unknown action ${JSON.stringify(action)}`);
+      }
+    }
+  });
+
+  return rules as Rule[];
+}
+
+/**
+ * Load and validate rules from the rules file.
+ *
+ * @param path - Rules file path (default: see getRulesFilePath)
+ */
+export async function loadRules(path?: string): Promise<{ path: string; rules: Rule[] }> {
+  const rulesPath = path || (await getRulesFilePath());
+  const file = Bun.file(rulesPath);
+  if (!(await file.exists())) {
+    throw new Error(`No rules file found at ${rulesPath}`);
+  }
+
+  const text = await file.text();
+  let data: unknown;
+  try {
+    data = rulesPath.endsWith(".json") ? JSON.parse(text) : Bun.YAML.parse(text);
+  } catch (e) {
+    throw new Error(`Could not parse ${rulesPath}: ${(e as Error).message}`);
+  }
+
+  return { path: rulesPath, rules: validateRules(data) };
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function toRegExp(pattern: string, alwaysRegex = false): RegExp | null {
+  const slashed = pattern.match(/^\/(.*)\/$/);
+  if (slashed) return new RegExp(slashed[1]!, "i");
+  if (alwaysRegex) return new RegExp(pattern, "i");
+  return null;
+}
+
+function matchesText(pattern: string, values: string[], alwaysRegex = false): boolean {
+  const regex = toRegExp(pattern, alwaysRegex);
+  if (regex) {
+    return values.some((v) => regex.test(v));
+  }
+  const needle = pattern.toLowerCase();
+  return values.some((v) => v.toLowerCase().includes(needle));
+}
+
+function formatAddress(a: { email: string; name: string }): string {
+  return a.name ? `${a.name} <${a.email}>` : a.email;
+}
+
+/**
+ * Lazily-fetched thread data. Each part is fetched at most once and only
+ * when a condition needs it.
+ */
+class ThreadContext {
+  private messages?: Promise<FullThreadMessage[]>;
+  private labels?: Promise<Label[]>;
+  private attachmentCount?: Promise<number>;
+
+  constructor(private provider: ConnectionProvider, readonly threadId: string) {}
+
+  getMessages(): Promise<FullThreadMessage[]> {
+    this.messages ??= this.provider.getToken().then((token) => getThreadMessages(token, this.threadId));
+    return this.messages;
+  }
+
+  getLabels(): Promise<Label[]> {
+    this.labels ??= getThreadLabels(this.provider, this.threadId);
+    return this.labels;
+  }
+
+  getAttachmentCount(): Promise<number> {
+    this.attachmentCount ??= listAttachments(this.provider, this.threadId).then((a) => a.length);
+    return this.attachmentCount;
+  }
+}
+
+async function evaluateCondition(
+  ctx: ThreadContext,
+  condition: keyof RuleMatch,
+  value: string | boolean
+): Promise<boolean> {
+  switch (condition) {
+    case "from": {
+      const messages = await ctx.getMessages();
+      return matchesText(value as string, messages.map((m) => formatAddress(m.from)));
+    }
+    case "to": {
+      const messages = await ctx.getMessages();
+      const recipients = messages.flatMap((m) => [...m.to, ...m.cc]).map(formatAddress);
+      return matchesText(value as string, recipients);
+    }
+    case "subject": {
+      const messages = await ctx.getMessages();
+      return matchesText(value as string, messages.map((m) => m.subject));
+    }
+    case "body": {
+      const messages = await ctx.getMessages();
+      return matchesText(value as string, messages.map((m) => m.body || m.snippet), true);
+    }
+    case "label": {
+      const labels = await ctx.getLabels();
+      return labels.some((l) => matchesText(value as string, [l.name]) || l.id === value);
+    }
+    case "hasAttachment": {
+      const count = await ctx.getAttachmentCount();
+      return (count > 0) === value;
+    }
+  }
+}
+
+async function evaluateWithContext(ctx: ThreadContext, rules: Rule[]): Promise<RuleEvaluation[]> {
+  const evaluations: RuleEvaluation[] = [];
+  for (const rule of rules) {
+    if (rule.enabled === false) continue;
+
+    const conditions: ConditionResult[] = [];
+    for (const [condition, value] of Object.entries(rule.match) as Array<[keyof RuleMatch, string | boolean]>) {
+      conditions.push({ condition, matched: await evaluateCondition(ctx, condition, value) });
+    }
+    evaluations.push({ rule, matched: conditions.every((c) => c.matched), conditions });
+  }
+  return evaluations;
+}
+
+/**
+ * Evaluate every enabled rule against a thread, reporting each condition.
+ * Used by `rules test`; does not apply any actions.
+ */
+export async function evaluateRules(
+  provider: ConnectionProvider,
+  rules: Rule[],
+  threadId: string
+): Promise<RuleEvaluation[]> {
+  return evaluateWithContext(new ThreadContext(provider, threadId), rules);
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/**
+ * Human-readable description of an action, or null if it is not a valid action.
+ */
+export function describeAction(action: RuleAction): string | null {
+  if (action === "archive" || action === "star" || action === "markRead") {
+    return action;
+  }
+  if (action && typeof action === "object") {
+    if ("addLabel" in action && typeof action.addLabel === "string") {
+      return `addLabel ${action.addLabel}`;
+    }
+    if ("snooze" in action && typeof action.snooze === "string") {
+      return `snooze ${action.snooze}`;
+    }
+    if ("reply" in action && typeof action.reply?.snippet === "string") {
+      return `reply with snippet "${action.reply.snippet}"${action.reply.send ? " (send)" : " (draft)"}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * The undoable operation an action performs; replies can't be undone
+ */
+function operationKind(action: RuleAction): OperationKind | null {
+  if (action === "archive") return "archive";
+  if (action === "star") return "star";
+  if (action === "markRead") return "read";
+  if ("addLabel" in action) return "label";
+  if ("snooze" in action) return "snooze";
+  return null;
+}
+
+/**
+ * Apply an action and log it in the operation log so it can be undone.
+ * Failing to log it doesn't block the action.
+ */
+async function applyLoggedAction(
+  provider: ConnectionProvider,
+  ctx: ThreadContext,
+  action: RuleAction,
+  getLabels: () => Promise<Label[]>
+): Promise<{ success: boolean; error?: string; operationId?: string }> {
+  const kind = operationKind(action);
+  if (!kind) {
+    return applyAction(provider, ctx, action, getLabels);
+  }
+
+  const logged = await withUndo(provider, kind, [ctx.threadId], async () => {
+    const result = await applyAction(provider, ctx, action, getLabels);
+    return { ...result, done: result.success ? [ctx.threadId] : [] };
+  });
+  return { success: logged.success, error: logged.error, operationId: logged.operation?.id };
+}
+
+/**
+ * Apply one action to the thread in ctx. A snippet reply fails, without
+ * sending or saving anything, when a variable in the snippet has no value:
+ * recipient variables are filled in from the sender being replied to, the
+ * rest must be given in the action's vars or have a default.
+ */
+async function applyAction(
+  provider: ConnectionProvider,
+  ctx: ThreadContext,
+  action: RuleAction,
+  getLabels: () => Promise<Label[]>
+): Promise<{ success: boolean; error?: string; labelId?: string }> {
+  const { threadId } = ctx;
+  if (action === "archive") {
+    return archiveThread(provider, threadId);
+  }
+  if (action === "star") {
+    return starThread(provider, threadId);
+  }
+  if (action === "markRead") {
+    return markAsRead(provider, threadId);
+  }
+  if ("addLabel" in action) {
+    const labelId = resolveLabelIn(await getLabels(), action.addLabel).label?.id || action.addLabel;
+    return { ...(await addLabel(provider, threadId, labelId)), labelId };
+  }
+  if ("snooze" in action) {
+    const [result] = await snoozeThreadViaProvider(provider, [threadId], parseSnoozeTime(action.snooze));
+    return result ?? { success: false, error: "No snooze result" };
+  }
+
+  // reply with snippet
+  const token = await provider.getToken();
+  if (!token.userId || !token.idToken) {
+    return { success: false, error: "Snippet replies need Superhuman credentials. Run 'superhuman account auth'." };
+  }
+  const userInfo = getUserInfoFromCache(token.userId, token.email, token.idToken);
+  const snippet = findSnippet(await listSnippets(userInfo), action.reply.snippet);
+  if (!snippet) {
+    return { success: false, error: `No snippet matching "${action.reply.snippet}"` };
+  }
+
+  // The reply goes to the sender of the latest message; the name in its From
+  // header is used before looking the sender up in contacts
+  const variables = findVariables(snippet.body);
+  const messages = await ctx.getMessages();
+  const sender = messages[messages.length - 1]?.from;
+  let vars = { ...(sender && recipientVars(sender)), ...action.reply.vars };
+  if (sender && missingVariables(variables, vars).length > 0) {
+    vars = await resolveSnippetVars(provider, variables, vars, sender.email).catch(() => vars);
+  }
+
+  const missing = missingVariables(variables, vars).map((v) => v.name);
+  if (missing.length > 0) {
+    return { success: false, error: `Missing snippet variables: ${missing.join(", ")} (set them in the reply's vars)` };
+  }
+
+  return replyToThread(provider, threadId, applyVars(snippet.body, vars), action.reply.send ?? false);
+}
+
+// ============================================================================
+// Running
+// ============================================================================
+
+type RulesState = Record<string, string[]>; // rule name -> thread IDs already processed
+
+async function loadRulesState(): Promise<RulesState> {
+  const file = Bun.file(getRulesStateFile());
+  if (!(await file.exists())) return {};
+  try {
+    return (await file.json()) as RulesState;
+  } catch {
+    return {};
+  }
+}
+
+async function saveRulesState(state: RulesState): Promise<void> {
+  const { mkdir } = await import("node:fs/promises");
+  await mkdir(getConfigDirPath(), { recursive: true });
+  await Bun.write(getRulesStateFile(), JSON.stringify(state, null, 2));
+}
+
+/**
+ * Run rules against threads and apply the actions of matching rules.
+ *
+ * A rule is applied to a thread only once; processed (rule, thread) pairs are
+ * remembered in rules-state.json so repeated runs don't e.g. reply twice.
+ * A pair is only remembered once every action succeeded, so a failed rule is
+ * retried on the next run. With dryRun, nothing is applied or remembered.
+ *
+ * @param provider - Connection provider
+ * @param rules - Rules to run, in order
+ * @param threads - Threads to process (id and subject)
+ * @param options - Run options
+ * @returns One entry per (thread, matched rule)
+ */
+export async function runRules(
+  provider: ConnectionProvider,
+  rules: Rule[],
+  threads: Array<{ id: string; subject: string }>,
+  options: RunRulesOptions = {}
+): Promise<ThreadRuleResult[]> {
+  const state = options.dryRun ? {} : await loadRulesState();
+  const results: ThreadRuleResult[] = [];
+
+  let labels: Promise<Label[]> | undefined;
+  const getLabels = () => (labels ??= listLabels(provider));
+
+  for (const thread of threads) {
+    const ctx = new ThreadContext(provider, thread.id);
+
+    for (const rule of rules) {
+      if (rule.enabled === false) continue;
+      if (state[rule.name]?.includes(thread.id)) continue;
+
+      const [evaluation] = await evaluateWithContext(ctx, [rule]);
+      if (!evaluation?.matched) continue;
+
+      const actions: ActionResult[] = [];
+      for (const action of rule.actions) {
+        const description = describeAction(action) || "unknown";
+        if (options.dryRun) {
+          actions.push({ action: description, success: true });
+          continue;
+        }
+        try {
+          const result = await applyLoggedAction(provider, ctx, action, getLabels);
+          actions.push({ action: description, success: result.success, error: result.error, operationId: result.operationId });
+        } catch (e) {
+          actions.push({ action: description, success: false, error: (e as Error).message || "Unknown error" });
+        }
+      }
+
+      results.push({ threadId: thread.id, subject: thread.subject, rule: rule.name, actions });
+
+      if (!options.dryRun && actions.every((a) => a.success)) {
+        (state[rule.name] ??= []).push(thread.id);
+      }
+      if (rule.stop) break;
+    }
+  }
+
+  if (!options.dryRun) {
+    await saveRulesState(state);
+  }
+
+  return results;
+}
@@ -0,0 +1,258 @@
+/**
+ * Scheduled Send Module
+ *
+ * Schedules outgoing mail by sending a Superhuman draft with a delay through
+ * /messages/send, and keeps a local ledger (scheduled-sends.json) of pending
+ * sends so they can be listed until their send time.
+ */
+
+import {
+  sendDraftSuperhuman,
+  type SendDraftOptions,
+  type UserInfo,
+} from "./draft-api";
+import { getSnoozeTimeFromPreset, type SnoozePreset } from "./snooze";
+import { getConfigDirPath } from "./token-api";
+
+/**
+ * A send accepted by the Superhuman backend but not yet delivered
+ */
+export interface ScheduledSend {
+  /** superhuman_id of the outgoing message */
+  id: string;
+  /** Account the message is sent from */
+  account: string;
+  draftId: string;
+  threadId: string;
+  to: string[];
+  subject: string;
+  /** Unix timestamp (ms) when the message will be sent */
+  sendAt: number;
+  /** Unix timestamp (ms) when the send was scheduled */
+  createdAt: number;
+}
+
+export interface ScheduleSendResult {
+  success: boolean;
+  scheduled?: ScheduledSend;
+  error?: string;
+}
+
+// ============================================================================
+// Time Parsing
+// ============================================================================
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/**
+ * Parse a relative duration such as "2h", "45m", "1h30m" or "3 days".
+ *
+ * @returns Duration in milliseconds
+ */
+export function parseDuration(input: string): number {
+  const text = input.trim().toLowerCase();
+  const pattern = /(\d+)\s*(seconds?|secs?|s|minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|w)\s*/g;
+
+  let total = 0;
+  let consumed = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index !== consumed) break;
+    const unit = match[2]!.startsWith("mi") ? "m" : match[2]!.charAt(0);
+    total += parseInt(match[1]!, 10) * DURATION_UNITS[unit]!;
+    consumed += match[0].length;
+  }
+
+  if (consumed === 0 || consumed !== text.length || total <= 0) {
+    throw new Error(`Invalid duration: ${input} (examples: 30m, 2h, 1h30m, 3d)`);
+  }
+  return total;
+}
+
+/**
+ * Parse an absolute send time.
+ *
+ * Supports snooze presets ("tomorrow", "evening", "next-week", "weekend"),
+ * ISO datetimes, and "[today|tomorrow|<weekday>] <time>" such as
+ * "tomorrow 9am", "friday 14:30" or "5pm". A bare weekday means 9 AM on
+ * that day; a bare time that has already passed today means the same time
+ * tomorrow.
+ */
+export function parseSendAt(input: string, now: Date = new Date()): Date {
+  let text = input.trim().toLowerCase();
+
+  const presets: SnoozePreset[] = ["tomorrow", "next-week", "weekend", "evening"];
+  if (presets.includes(text as SnoozePreset)) {
+    return getSnoozeTimeFromPreset(text as SnoozePreset);
+  }
+
+  // A bare weekday means 9 AM on that day, like the snooze presets
+  if (WEEKDAYS.some((d) => d === text || d.slice(0, 3) === text)) {
+    text = `${text} 9am`;
+  }
+
+  // "YYYY-MM-DD HH:MM" in local time
+  const local = text.match(/^(\d{4})-(\d{2})-(\d{2})[ t](\d{1,2}):(\d{2})$/);
+  if (local) {
+    return new Date(+local[1]!, +local[2]! - 1, +local[3]!, +local[4]!, +local[5]!);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}t/.test(text)) {
+    const iso = new Date(input.trim());
+    if (!isNaN(iso.getTime())) return iso;
+  }
+
+  const match = text.match(/^(?:(today|tomorrow|sun|mon|tue|wed|thu|fri|sat)[a-z]*\s+)?(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) {
+    throw new Error(`Invalid send time: ${input} (examples: "tomorrow 9am", "friday 14:30", 2026-03-01T09:00)`);
+  }
+
+  const [, day, hourStr, minuteStr, meridiem] = match;
+  let hours = parseInt(hourStr!, 10);
+  const minutes = minuteStr ? parseInt(minuteStr, 10) : 0;
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) {
+    throw new Error(`Invalid send time: ${input}`);
+  }
+
+  const result = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+  if (day === "tomorrow") {
+    result.setDate(result.getDate() + 1);
+  } else if (day && day !== "today") {
+    const target = WEEKDAYS.findIndex((d) => d.startsWith(day));
+    let offset = (target - now.getDay() + 7) % 7;
+    if (offset === 0 && result <= now) offset = 7;
+    result.setDate(result.getDate() + offset);
+  } else if (!day && result <= now) {
+    result.setDate(result.getDate() + 1);
+  }
+
+  return result;
+}
+
+/**
+ * Resolve --at / --in style options into a send time.
+ *
+ * @returns The send time, or null if neither option is set
+ */
+export function parseSendTime(
+  options: { at?: string; in?: string },
+  now: Date = new Date()
+): Date | null {
+  if (options.at && options.in) {
+    throw new Error("Use either --at or --in, not both");
+  }
+  if (options.in) {
+    return new Date(now.getTime() + parseDuration(options.in));
+  }
+  if (options.at) {
+    const sendAt = parseSendAt(options.at, now);
+    if (sendAt.getTime() <= now.getTime()) {
+      throw new Error(`Send time is in the past: ${sendAt.toLocaleString()}`);
+    }
+    return sendAt;
+  }
+  return null;
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+/**
+ * Get the path of the scheduled sends ledger
+ */
+export function getScheduledSendsPath(): string {
+  return `${getConfigDirPath()}/scheduled-sends.json`;
+}
+
+async function loadLedger(): Promise<ScheduledSend[]> {
+  const file = Bun.file(getScheduledSendsPath());
+  if (!(await file.exists())) return [];
+  try {
+    return (await file.json()) as ScheduledSend[];
+  } catch {
+    return [];
+  }
+}
+
+async function saveLedger(entries: ScheduledSend[]): Promise<void> {
+  const { mkdir } = await import("node:fs/promises");
+  await mkdir(getConfigDirPath(), { recursive: true });
+  await Bun.write(getScheduledSendsPath(), JSON.stringify(entries, null, 2));
+}
+
+/**
+ * List pending scheduled sends, soonest first.
+ * Entries whose send time has passed are dropped from the ledger.
+ *
+ * @param account - Only list sends from this account
+ */
+export async function listScheduledSends(account?: string): Promise<ScheduledSend[]> {
+  const entries = await loadLedger();
+  const now = Date.now();
+  const pending = entries.filter((e) => e.sendAt > now);
+  if (pending.length !== entries.length) {
+    await saveLedger(pending);
+  }
+
+  return pending
+    .filter((e) => !account || e.account.toLowerCase() === account.toLowerCase())
+    .sort((a, b) => a.sendAt - b.sendAt);
+}
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * Send a Superhuman draft at a later time and record it in the ledger.
+ *
+ * @param userInfo - User credentials from getUserInfoFromCache()
+ * @param options - Draft content (delay is computed from sendAt)
+ * @param sendAt - When the message should go out
+ */
+export async function scheduleDraftSend(
+  userInfo: UserInfo,
+  options: Omit<SendDraftOptions, "delay">,
+  sendAt: Date
+): Promise<ScheduleSendResult> {
+  const delay = Math.ceil((sendAt.getTime() - Date.now()) / 1000);
+  if (delay <= 0) {
+    return { success: false, error: "Send time is in the past" };
+  }
+
+  try {
+    const result = await sendDraftSuperhuman(userInfo, { ...options, delay });
+    if (!result.success || !result.superhumanId) {
+      return { success: false, error: result.error || "Send was not accepted" };
+    }
+
+    const scheduled: ScheduledSend = {
+      id: result.superhumanId,
+      account: userInfo.email,
+      draftId: options.draftId,
+      threadId: options.threadId,
+      to: options.to.map((r) => r.email),
+      subject: options.subject,
+      sendAt: result.sendAt ?? sendAt.getTime(),
+      createdAt: Date.now(),
+    };
+
+    const entries = await loadLedger();
+    entries.push(scheduled);
+    await saveLedger(entries);
+
+    return { success: true, scheduled };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Unknown error" };
+  }
+}
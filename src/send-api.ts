@@ -10,6 +10,7 @@
 
 import type { ConnectionProvider } from "./connection-provider";
 import type { TokenInfo } from "./token-api";
+import type { MimeAttachment } from "./mime";
 import {
   sendEmailDirect,
   createDraftDirect,
@@ -43,6 +44,12 @@ export interface SendEmailOptions {
   inReplyTo?: string;
   /** References header values (for threading) */
   references?: string[];
+  /** Reply-To addresses (optional) */
+  replyTo?: string[];
+  /** Extra headers (MS Graph only accepts X- headers) */
+  headers?: Record<string, string>;
+  /** Files to attach (optional) */
+  attachments?: MimeAttachment[];
 }
 
 /**
@@ -127,6 +134,9 @@ export async function sendEmailWithToken(
     threadId: options.threadId,
     inReplyTo: options.inReplyTo,
     references: options.references,
+    replyTo: options.replyTo,
+    headers: options.headers,
+    attachments: options.attachments,
   });
 
   if (!result) {
@@ -161,6 +171,9 @@ export async function createDraftWithToken(
     threadId: options.threadId,
     inReplyTo: options.inReplyTo,
     references: options.references,
+    replyTo: options.replyTo,
+    headers: options.headers,
+    attachments: options.attachments,
   });
 
   if (!result) {
@@ -192,6 +205,7 @@ export async function sendReplyWithToken(
     cc?: string[];
     bcc?: string[];
     isHtml?: boolean;
+    attachments?: MimeAttachment[];
   }
 ): Promise<SendResult> {
   const result = await sendReplyDirect(token, threadId, body, options);
@@ -225,6 +239,7 @@ export async function createReplyDraftWithToken(
     cc?: string[];
     bcc?: string[];
     isHtml?: boolean;
+    attachments?: MimeAttachment[];
   }
 ): Promise<DraftResult> {
   const result = await createReplyDraftDirect(token, threadId, body, options);
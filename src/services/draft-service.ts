@@ -16,6 +16,8 @@ export interface Draft {
   timestamp: string;
   source: "gmail" | "outlook" | "native";
   threadId?: string; // Optional: used by native Superhuman drafts for update/delete
+  attachments?: string[]; // File names, native Superhuman drafts only
+  scheduledFor?: string; // Pending scheduled send time, native Superhuman drafts only
 }
 
 /**
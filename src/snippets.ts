@@ -2,10 +2,21 @@
  * Snippets API
  *
  * Fetches and manages Superhuman snippets (reusable email templates).
- * Snippets are stored as drafts with action: "snippet" in the backend.
+ * Snippets are stored as drafts with action: "snippet" in the backend, so
+ * they are written and deleted through the same userdata paths as drafts.
  */
 
-import type { UserInfo } from "./draft-api";
+import { mkdir, readdir } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  createDraftWithUserInfo,
+  updateDraftWithUserInfo,
+  deleteDraftWithUserInfo,
+  type UserInfo,
+} from "./draft-api";
+import { apiFetch } from "./http-client";
+import type { ConnectionProvider } from "./connection-provider";
+import { resolveRecipientContact } from "./contacts";
 
 const SUPERHUMAN_BACKEND = "https://mail.superhuman.com/~backend";
 
@@ -19,6 +30,8 @@ export interface Snippet {
   to: string[];
   cc: string[];
   bcc: string[];
+  /** Shared with the user's Superhuman team */
+  shared: boolean;
   sends: number;
   lastSentAt: string | null;
 }
@@ -35,6 +48,7 @@ interface DraftEntry {
     to?: string[];
     cc?: string[];
     bcc?: string[];
+    sharedWithTeam?: boolean;
   };
   snippetAnalytics?: {
     sends?: number;
@@ -46,6 +60,7 @@ interface GetThreadsResponse {
   // v3 format: threadList with messages as an object keyed by draft ID
   threadList?: Array<{
     thread: {
+      id?: string;
       historyId?: number;
       messages: Record<string, DraftEntry>;
     };
@@ -66,7 +81,7 @@ export async function listSnippets(
 ): Promise<Snippet[]> {
   const limit = options?.limit ?? 100;
 
-  const response = await fetch(`${SUPERHUMAN_BACKEND}/v3/userdata.getThreads`, {
+  const response = await apiFetch("superhuman", `${SUPERHUMAN_BACKEND}/v3/userdata.getThreads`, {
     method: "POST",
     headers: {
       "Content-Type": "text/plain;charset=UTF-8",
@@ -88,31 +103,31 @@ export async function listSnippets(
 
   const snippets: Snippet[] = [];
 
-  // Collect all draft entries from either response format
-  const entries: DraftEntry[] = [];
+  // Collect all draft entries (with their thread ID) from either response format
+  const entries: Array<{ entry: DraftEntry; threadId?: string }> = [];
 
   if (data.threadList) {
     // v3 format: threadList[].thread.messages is an object keyed by draft ID
     for (const item of data.threadList) {
       for (const entry of Object.values(item.thread.messages)) {
-        entries.push(entry);
+        entries.push({ entry, threadId: item.thread.id });
       }
     }
   } else if (data.threads) {
     // Legacy format: threads[].messages is an array
     for (const thread of data.threads) {
       for (const entry of thread.messages) {
-        entries.push(entry);
+        entries.push({ entry, threadId: thread.id });
       }
     }
   }
 
-  for (const entry of entries) {
+  for (const { entry, threadId } of entries) {
     const draft = entry.draft;
     if (draft?.action === "snippet") {
       snippets.push({
         id: draft.id,
-        threadId: draft.threadId || "",
+        threadId: draft.threadId || threadId || "",
         name: draft.name || "(untitled)",
         body: draft.body,
         subject: draft.subject || "",
@@ -120,6 +135,7 @@ export async function listSnippets(
         to: draft.to || [],
         cc: draft.cc || [],
         bcc: draft.bcc || [],
+        shared: draft.sharedWithTeam ?? false,
         sends: entry.snippetAnalytics?.sends ?? 0,
         lastSentAt: entry.snippetAnalytics?.lastSentAt ?? null,
       });
@@ -143,26 +159,591 @@ export function findSnippet(snippets: Snippet[], query: string): Snippet | null
 }
 
 /**
- * Replace {var_name} template variables in text.
+ * Replace {var_name} template variables in text. Placeholders may carry a
+ * formatter and a default (see findVariables); placeholders with neither a
+ * value nor a default are left as they are.
+ *
+ * @param text - Subject or body of a snippet
+ * @param vars - Values by variable name
+ * @param now - Reference time for the "today"/"tomorrow" defaults
  */
-export function applyVars(text: string, vars: Record<string, string>): string {
-  return text.replace(/\{(\w+)\}/g, (match, key) => vars[key] ?? match);
+export function applyVars(text: string, vars: Record<string, string>, now: Date = new Date()): string {
+  return text.replace(placeholderPattern(), (match, name: string, format?: string, fallback?: string) => {
+    if (vars[name] !== undefined) {
+      return format ? FORMATTERS[format]!(vars[name]) : vars[name];
+    }
+    if (fallback === undefined) return match;
+    const date = dateDefault(fallback, now);
+    if (date) return FORMATTERS[format ?? "date"]!(date);
+    return format ? FORMATTERS[format]!(fallback) : fallback;
+  });
 }
 
 /**
  * Parse --vars "key1=val1,key2=val2" into a Record.
+ * A comma not followed by "key=" belongs to the previous value, so values
+ * such as "Tue, Oct 20: 10:00 AM" (see calendar propose) stay whole.
  */
 export function parseVars(varsStr: string): Record<string, string> {
   const vars: Record<string, string> = {};
   if (!varsStr) return vars;
 
+  let lastKey: string | null = null;
   for (const pair of varsStr.split(",")) {
-    const eqIdx = pair.indexOf("=");
-    if (eqIdx > 0) {
-      const key = pair.slice(0, eqIdx).trim();
-      const value = pair.slice(eqIdx + 1).trim();
-      vars[key] = value;
+    const match = pair.match(/^\s*([\w.-]+)\s*=/);
+    if (match) {
+      lastKey = match[1]!;
+      vars[lastKey] = pair.slice(match[0].length).trim();
+    } else if (lastKey) {
+      vars[lastKey] = `${vars[lastKey]},${pair.trimEnd()}`;
+    }
+  }
+  return vars;
+}
+
+// ============================================================================
+// Template Variables
+// ============================================================================
+
+/**
+ * A {placeholder} found in a snippet.
+ *
+ * Placeholders are written `{name}`, `{name|default}`, `{name:format}` or
+ * `{name:format|default}`, e.g. `{date:weekday|tomorrow}`.
+ */
+export interface SnippetVariable {
+  name: string;
+  /** Formatter applied to the value (see SNIPPET_FORMATTERS) */
+  format?: string;
+  /** Used when no value is given; "today" and "tomorrow" become dates (long form unless formatted) */
+  default?: string;
+}
+
+const MONTH_DAY_YEAR: Intl.DateTimeFormatOptions = { month: "long", day: "numeric", year: "numeric" };
+
+/**
+ * Parse a variable value as a date. Plain YYYY-MM-DD values are read as
+ * local dates rather than UTC midnight.
+ */
+function parseDateValue(value: string): Date | null {
+  const ymd = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = ymd ? new Date(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3])) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function formatDateValue(value: string, format: (date: Date) => string): string {
+  const date = parseDateValue(value);
+  return date ? format(date) : value;
+}
+
+function isoDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+const FORMATTERS: Record<string, (value: string) => string> = {
+  upper: (value) => value.toUpperCase(),
+  lower: (value) => value.toLowerCase(),
+  title: (value) => value.toLowerCase().replace(/(^|[\s-])(\p{L})/gu, (_, sep, c: string) => sep + c.toUpperCase()),
+  date: (value) => formatDateValue(value, (d) => d.toLocaleDateString("en-US", MONTH_DAY_YEAR)),
+  weekday: (value) => formatDateValue(value, (d) => d.toLocaleDateString("en-US", { weekday: "long" })),
+  iso: (value) => formatDateValue(value, isoDate),
+};
+
+/** Formatter names accepted after the colon in a placeholder */
+export const SNIPPET_FORMATTERS = Object.keys(FORMATTERS);
+
+/**
+ * Match {name}, {name|default}, {name:format} and {name:format|default}.
+ * Only known formatters match, so CSS such as `{margin:0}` is left alone.
+ */
+function placeholderPattern(): RegExp {
+  return new RegExp(`\\{(\\w+)(?::(${SNIPPET_FORMATTERS.join("|")}))?(?:\\|([^{}|]*))?\\}`, "g");
+}
+
+/**
+ * The "today" and "tomorrow" defaults as YYYY-MM-DD, or null for any other
+ * default (which is used as written).
+ */
+function dateDefault(fallback: string, now: Date): string | null {
+  const keyword = fallback.trim().toLowerCase();
+  if (keyword !== "today" && keyword !== "tomorrow") return null;
+  return isoDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() + (keyword === "tomorrow" ? 1 : 0)));
+}
+
+/**
+ * List the variables used in a snippet's texts, in order of first use.
+ * A variable used several times is listed once, with the first format and
+ * default given for it.
+ *
+ * @param texts - Subject, body, ...
+ */
+export function findVariables(...texts: string[]): SnippetVariable[] {
+  const found = new Map<string, SnippetVariable>();
+  for (const text of texts) {
+    for (const match of text.matchAll(placeholderPattern())) {
+      const [, name, format, fallback] = match;
+      const existing = found.get(name!);
+      if (!existing) {
+        found.set(name!, { name: name!, format, default: fallback });
+      } else {
+        existing.format ??= format;
+        existing.default ??= fallback;
+      }
     }
   }
+  return [...found.values()];
+}
+
+/**
+ * Variables that have neither a value in `vars` nor a default.
+ */
+export function missingVariables(variables: SnippetVariable[], vars: Record<string, string>): SnippetVariable[] {
+  return variables.filter((v) => vars[v.name] === undefined && v.default === undefined);
+}
+
+/**
+ * Variables filled in from the recipient: first_name, last_name, name and
+ * email. Name parts are only set when the contact has a name.
+ *
+ * @param contact - The resolved recipient from resolveRecipientContact()
+ */
+export function recipientVars(contact: { email: string; name?: string }): Record<string, string> {
+  const vars: Record<string, string> = { email: contact.email };
+  const name = contact.name?.trim();
+  if (name) {
+    const [first, ...rest] = name.split(/\s+/);
+    vars.name = name;
+    vars.first_name = first!;
+    if (rest.length > 0) vars.last_name = rest.join(" ");
+  }
   return vars;
 }
+
+/** Variables recipientVars() can fill in */
+const RECIPIENT_VARIABLES = new Set(["first_name", "last_name", "name", "email"]);
+
+/**
+ * Values for a snippet's variables: the given values, plus first_name,
+ * last_name, name and email from the first recipient when the snippet uses
+ * them and they weren't given. The contact lookup is skipped when no
+ * recipient variable is needed.
+ *
+ * @param provider - Connection used to look up the recipient
+ * @param variables - Variables from findVariables()
+ * @param vars - Values given by the caller, which take precedence
+ * @param recipient - First To recipient (email or name)
+ */
+export async function resolveSnippetVars(
+  provider: ConnectionProvider,
+  variables: SnippetVariable[],
+  vars: Record<string, string>,
+  recipient?: string
+): Promise<Record<string, string>> {
+  const needsRecipient = variables.some((v) => RECIPIENT_VARIABLES.has(v.name) && vars[v.name] === undefined);
+  if (!needsRecipient || !recipient) {
+    return vars;
+  }
+
+  const contact = await resolveRecipientContact(provider, recipient);
+  return { ...recipientVars(contact), ...vars };
+}
+
+// ============================================================================
+// Authoring
+// ============================================================================
+
+/**
+ * Fields of a snippet that can be written
+ */
+export interface SnippetInput {
+  name: string;
+  subject?: string;
+  /** HTML body; may contain {var} placeholders */
+  body?: string;
+  /** Default recipients filled in when the snippet is used */
+  to?: string[];
+  cc?: string[];
+  bcc?: string[];
+  /** Share with the user's Superhuman team */
+  shared?: boolean;
+}
+
+export interface SnippetResult {
+  success: boolean;
+  snippet?: Snippet;
+  error?: string;
+}
+
+function previewText(html: string): string {
+  return html.replace(/<[^>]*>/g, "").substring(0, 100);
+}
+
+/**
+ * Create a snippet.
+ *
+ * @param userInfo - User credentials from getUserInfoFromCache()
+ * @param input - Name, content and default recipients
+ * @returns Result with the new snippet
+ */
+export async function createSnippet(userInfo: UserInfo, input: SnippetInput): Promise<SnippetResult> {
+  const name = input.name.trim();
+  if (!name) {
+    return { success: false, error: "Snippet name is required" };
+  }
+
+  const snippet: Snippet = {
+    id: "",
+    threadId: "",
+    name,
+    body: input.body ?? "",
+    subject: input.subject ?? "",
+    snippet: previewText(input.body ?? ""),
+    to: input.to ?? [],
+    cc: input.cc ?? [],
+    bcc: input.bcc ?? [],
+    shared: input.shared ?? false,
+    sends: 0,
+    lastSentAt: null,
+  };
+
+  const result = await createDraftWithUserInfo(userInfo, {
+    action: "snippet",
+    name,
+    subject: snippet.subject,
+    body: snippet.body,
+    to: snippet.to,
+    cc: snippet.cc,
+    bcc: snippet.bcc,
+    sharedWithTeam: snippet.shared,
+  });
+  if (!result.success || !result.draftId || !result.threadId) {
+    return { success: false, error: result.error || "Failed to create snippet" };
+  }
+
+  return { success: true, snippet: { ...snippet, id: result.draftId, threadId: result.threadId } };
+}
+
+/**
+ * Update a snippet. Fields missing from `changes` are kept.
+ *
+ * @param userInfo - User credentials from getUserInfoFromCache()
+ * @param snippet - The snippet as returned by listSnippets()
+ * @param changes - Fields to change
+ * @returns Result with the updated snippet
+ */
+export async function updateSnippet(
+  userInfo: UserInfo,
+  snippet: Snippet,
+  changes: Partial<SnippetInput>
+): Promise<SnippetResult> {
+  if (!snippet.threadId) {
+    return { success: false, error: `Snippet "${snippet.name}" has no thread ID and can't be updated` };
+  }
+  if (changes.name !== undefined && !changes.name.trim()) {
+    return { success: false, error: "Snippet name can't be empty" };
+  }
+
+  try {
+    await updateDraftWithUserInfo(
+      userInfo,
+      snippet.threadId,
+      snippet.id,
+      {
+        action: "snippet",
+        name: changes.name?.trim(),
+        subject: changes.subject,
+        body: changes.body,
+        to: changes.to,
+        cc: changes.cc,
+        bcc: changes.bcc,
+        sharedWithTeam: changes.shared,
+      },
+      { ...snippet, action: "snippet", sharedWithTeam: snippet.shared }
+    );
+  } catch (e: any) {
+    return { success: false, error: e.message || "Unknown error" };
+  }
+
+  const updated: Snippet = {
+    ...snippet,
+    name: changes.name?.trim() ?? snippet.name,
+    subject: changes.subject ?? snippet.subject,
+    body: changes.body ?? snippet.body,
+    to: changes.to ?? snippet.to,
+    cc: changes.cc ?? snippet.cc,
+    bcc: changes.bcc ?? snippet.bcc,
+    shared: changes.shared ?? snippet.shared,
+  };
+  return { success: true, snippet: { ...updated, snippet: previewText(updated.body) } };
+}
+
+/**
+ * Delete a snippet.
+ *
+ * @param userInfo - User credentials from getUserInfoFromCache()
+ * @param snippet - The snippet as returned by listSnippets()
+ */
+export async function deleteSnippet(userInfo: UserInfo, snippet: Snippet): Promise<SnippetResult> {
+  if (!snippet.threadId) {
+    return { success: false, error: `Snippet "${snippet.name}" has no thread ID and can't be deleted` };
+  }
+
+  try {
+    await deleteDraftWithUserInfo(userInfo, snippet.threadId, snippet.id);
+    return { success: true, snippet };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Unknown error" };
+  }
+}
+
+// ============================================================================
+// Markdown Files
+// ============================================================================
+
+/**
+ * A snippet read from a markdown file
+ */
+export interface SnippetFile {
+  path: string;
+  /** Snippet ID from the front-matter, set for files written by exportSnippets() */
+  id?: string;
+  input: SnippetInput;
+}
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/;
+
+/**
+ * Quote a front-matter value when it would not survive an unquoted round trip.
+ */
+function frontMatterValue(value: string): string {
+  return /^\s|\s$|^["'\[{#]|^$/.test(value) ? JSON.stringify(value) : value;
+}
+
+function parseFrontMatterValue(raw: string): string {
+  const value = raw.trim();
+  if (value.startsWith('"')) return JSON.parse(value) as string;
+  if (value.startsWith("'") && value.endsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+  return value;
+}
+
+function parseFrontMatterList(raw: string): string[] {
+  const value = raw.trim().replace(/^\[|\]$/g, "");
+  return value
+    .split(",")
+    .map((item) => parseFrontMatterValue(item))
+    .filter(Boolean);
+}
+
+/**
+ * Format a snippet as markdown with front-matter. The body is kept as HTML,
+ * which markdown allows, so an export/import round trip is lossless.
+ */
+export function formatSnippetFile(snippet: Snippet): string {
+  const lines = [
+    "---",
+    `id: ${snippet.id}`,
+    `name: ${frontMatterValue(snippet.name)}`,
+    `subject: ${frontMatterValue(snippet.subject)}`,
+    `to: ${snippet.to.join(", ")}`,
+    `cc: ${snippet.cc.join(", ")}`,
+    `bcc: ${snippet.bcc.join(", ")}`,
+    `shared: ${snippet.shared}`,
+    "---",
+    snippet.body,
+  ];
+  return lines.join("\n").replace(/\n*$/, "\n");
+}
+
+/**
+ * Parse a markdown snippet file. Bodies without HTML tags are converted
+ * from markdown to HTML.
+ *
+ * @throws If the front-matter is missing or has no name
+ */
+export function parseSnippetFile(text: string, path: string = ""): SnippetFile {
+  const match = text.match(FRONT_MATTER);
+  if (!match) {
+    throw new Error(`${path || "Snippet file"}: missing front-matter (--- name: ... ---)`);
+  }
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1]!.split(/\r?\n/)) {
+    const sep = line.indexOf(":");
+    if (sep > 0) {
+      fields[line.slice(0, sep).trim().toLowerCase()] = line.slice(sep + 1);
+    }
+  }
+
+  const name = parseFrontMatterValue(fields.name ?? "");
+  if (!name) {
+    throw new Error(`${path || "Snippet file"}: front-matter has no name`);
+  }
+
+  const body = match[2]!.trim();
+  const input: SnippetInput = {
+    name,
+    subject: parseFrontMatterValue(fields.subject ?? ""),
+    body: /<[a-z][^>]*>/i.test(body) ? body : markdownToHtml(body),
+    to: parseFrontMatterList(fields.to ?? ""),
+    cc: parseFrontMatterList(fields.cc ?? ""),
+    bcc: parseFrontMatterList(fields.bcc ?? ""),
+    shared: /^(true|yes)$/i.test((fields.shared ?? "").trim()),
+  };
+  const id = parseFrontMatterValue(fields.id ?? "");
+
+  return { path, id: id || undefined, input };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function inlineMarkdown(text: string): string {
+  return escapeHtml(text)
+    .replace(/`([^`]+)`/g, "<code>$1</code>")
+    .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^*\w])[*_]([^*_]+)[*_](?![*\w])/g, "$1<em>$2</em>")
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<a href="$2">$1</a>');
+}
+
+/**
+ * Convert the markdown used in snippet files to HTML: paragraphs, line
+ * breaks, bullet and numbered lists, bold, italics, code and links.
+ */
+export function markdownToHtml(markdown: string): string {
+  const blocks = markdown.trim().split(/\n\s*\n/);
+  return blocks
+    .filter((block) => block.trim())
+    .map((block) => {
+      const lines = block.split("\n").map((line) => line.trim());
+      if (lines.every((line) => /^[-*]\s+/.test(line))) {
+        return `<ul>${lines.map((line) => `<li>${inlineMarkdown(line.replace(/^[-*]\s+/, ""))}</li>`).join("")}</ul>`;
+      }
+      if (lines.every((line) => /^\d+\.\s+/.test(line))) {
+        return `<ol>${lines.map((line) => `<li>${inlineMarkdown(line.replace(/^\d+\.\s+/, ""))}</li>`).join("")}</ol>`;
+      }
+      return `<p>${lines.map(inlineMarkdown).join("<br>")}</p>`;
+    })
+    .join("");
+}
+
+/**
+ * File name for a snippet: its name lowercased, with runs of other
+ * characters replaced by "-".
+ */
+export function snippetFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "snippet"}.md`;
+}
+
+/**
+ * Write each snippet to `<dir>/<name>.md`.
+ *
+ * @returns Paths of the written files
+ */
+export async function exportSnippets(snippets: Snippet[], dir: string): Promise<string[]> {
+  await mkdir(dir, { recursive: true });
+
+  const used = new Set<string>();
+  const paths: string[] = [];
+  for (const snippet of snippets) {
+    let fileName = snippetFileName(snippet.name);
+    for (let n = 2; used.has(fileName); n++) {
+      fileName = snippetFileName(snippet.name).replace(/\.md$/, `-${n}.md`);
+    }
+    used.add(fileName);
+
+    const path = join(dir, fileName);
+    await Bun.write(path, formatSnippetFile(snippet));
+    paths.push(path);
+  }
+  return paths;
+}
+
+/**
+ * Read every `.md` file in a directory as a snippet, in file name order.
+ */
+export async function readSnippetDir(dir: string): Promise<SnippetFile[]> {
+  const names = (await readdir(dir)).filter((name) => name.endsWith(".md")).sort();
+  const files: SnippetFile[] = [];
+  for (const name of names) {
+    const path = join(dir, name);
+    files.push(parseSnippetFile(await Bun.file(path).text(), path));
+  }
+  return files;
+}
+
+/**
+ * What importing one file did (or would do, in a dry run)
+ */
+export interface SnippetImportChange {
+  path: string;
+  name: string;
+  action: "create" | "update" | "unchanged";
+  /** Set when the write failed */
+  error?: string;
+}
+
+function sameList(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((item, i) => item.toLowerCase() === b[i]!.toLowerCase());
+}
+
+function snippetMatchesInput(snippet: Snippet, input: SnippetInput): boolean {
+  return (
+    snippet.name === input.name &&
+    snippet.subject === (input.subject ?? "") &&
+    snippet.body.trim() === (input.body ?? "").trim() &&
+    sameList(snippet.to, input.to ?? []) &&
+    sameList(snippet.cc, input.cc ?? []) &&
+    sameList(snippet.bcc, input.bcc ?? []) &&
+    snippet.shared === (input.shared ?? false)
+  );
+}
+
+/**
+ * Sync a directory of markdown snippet files into Superhuman.
+ *
+ * Each file is matched to an existing snippet by the `id` in its
+ * front-matter, then by name (case-insensitive). Matched snippets are
+ * updated when they differ; unmatched files create new snippets. Snippets
+ * without a file are left alone.
+ *
+ * @param userInfo - User credentials from getUserInfoFromCache()
+ * @param files - Files from readSnippetDir()
+ * @param existing - Current snippets from listSnippets()
+ * @param options - dryRun reports the changes without writing them
+ */
+export async function importSnippets(
+  userInfo: UserInfo,
+  files: SnippetFile[],
+  existing: Snippet[],
+  options: { dryRun?: boolean } = {}
+): Promise<SnippetImportChange[]> {
+  const changes: SnippetImportChange[] = [];
+
+  for (const file of files) {
+    const { input } = file;
+    const match =
+      existing.find((s) => file.id && s.id === file.id) ||
+      existing.find((s) => s.name.toLowerCase() === input.name.toLowerCase());
+
+    const change: SnippetImportChange = {
+      path: file.path,
+      name: input.name,
+      action: !match ? "create" : snippetMatchesInput(match, input) ? "unchanged" : "update",
+    };
+    changes.push(change);
+    if (options.dryRun || change.action === "unchanged") continue;
+
+    const result = match ? await updateSnippet(userInfo, match, input) : await createSnippet(userInfo, input);
+    if (!result.success) {
+      change.error = result.error;
+    }
+  }
+
+  return changes;
+}
@@ -8,7 +8,8 @@
  */
 
 import type { SuperhumanTokenInfo, TokenInfo } from "./token-api";
-import { superhumanFetch, gmailFetch, msgraphFetch } from "./token-api";
+import { superhumanFetch } from "./token-api";
+import { gmailBatch, msgraphBatch } from "./batch";
 import type { ConnectionProvider } from "./connection-provider";
 
 export interface SnoozeResult {
@@ -222,24 +223,40 @@ export async function listSnoozedDirect(
 // ============================================================================
 
 /**
- * Get message IDs for a thread using direct Gmail/MS Graph API.
+ * Get the message IDs of several threads, fetched in batch requests.
+ * Returns one list per thread ID, in order (empty when the thread has no messages).
  */
-async function getThreadMessageIds(
+async function getThreadsMessageIds(
   token: TokenInfo,
-  threadId: string
-): Promise<string[]> {
+  threadIds: string[]
+): Promise<string[][]> {
+  if (threadIds.length === 0) return [];
+
   if (token.isMicrosoft) {
-    // MS Graph: search messages by conversationId
-    const result = await msgraphFetch(token.accessToken, `/me/messages?$top=50&$select=id,conversationId&$orderby=receivedDateTime desc`);
-    if (!result?.value) return [];
-    return result.value
-      .filter((m: any) => m.conversationId === threadId)
-      .map((m: any) => m.id);
+    // MS Graph: filter messages by conversationId
+    const responses = await msgraphBatch(
+      token,
+      threadIds.map((threadId) => ({
+        method: "GET",
+        path: `/me/messages?$filter=${encodeURIComponent(`conversationId eq '${threadId}'`)}&$select=id`,
+      }))
+    );
+    return threadIds.map((_, i) => {
+      const response = responses?.[i];
+      if (response?.status !== 200 || !response.body?.value) return [];
+      return response.body.value.map((m: any) => m.id);
+    });
   } else {
     // Gmail: GET /threads/{threadId} to get message list
-    const result = await gmailFetch(token.accessToken, `/threads/${threadId}?format=minimal`);
-    if (!result?.messages) return [];
-    return result.messages.map((m: any) => m.id);
+    const responses = await gmailBatch(
+      token,
+      threadIds.map((threadId) => ({ method: "GET", path: `/threads/${threadId}?format=minimal` }))
+    );
+    return threadIds.map((_, i) => {
+      const response = responses?.[i];
+      if (response?.status !== 200 || !response.body?.messages) return [];
+      return response.body.messages.map((m: any) => m.id);
+    });
   }
 }
 
@@ -268,9 +285,11 @@ export async function snoozeThreadViaProvider(
   const triggerAt = typeof snoozeUntil === "string" ? snoozeUntil : snoozeUntil.toISOString();
   const results: SnoozeResult[] = [];
 
-  for (const threadId of threadIds) {
-    // Get message IDs for the thread
-    const messageIds = await getThreadMessageIds(token, threadId);
+  // Get message IDs for all threads up front
+  const threadMessageIds = await getThreadsMessageIds(token, threadIds);
+
+  for (const [i, threadId] of threadIds.entries()) {
+    const messageIds = threadMessageIds[i] ?? [];
     if (messageIds.length === 0) {
       results.push({ success: false, error: "No messages found in thread" });
       continue;
@@ -9,6 +9,10 @@ import type { SuperhumanConnection, ChromeExtConnection } from "./superhuman-api
 import { listAccounts, switchAccount } from "./accounts";
 import type { Contact } from "./contacts";
 import type { InboxThread } from "./inbox";
+import { composeMimeMessage, toBase64Url, type MimeAttachment } from "./mime";
+import { apiFetch, setTokenRefresher, toApiError, ApiError } from "./http-client";
+import { gmailBatch, msgraphBatch, MSGRAPH_BATCH_LIMIT } from "./batch";
+import { icsDateToDate } from "./ics";
 
 export interface TokenInfo {
   accessToken: string;
@@ -597,6 +601,29 @@ export async function getCachedToken(email: string): Promise<TokenInfo | undefin
   return token;
 }
 
+/**
+ * Refresh the cached token that owns an access token the API rejected.
+ * Registered with the HTTP client, which calls it on 401.
+ *
+ * @param accessToken - The rejected access token
+ * @returns The new access token, or null if it could not be refreshed
+ */
+async function refreshCachedAccessToken(accessToken: string): Promise<string | null> {
+  for (const [email, token] of tokenCache) {
+    if (token.accessToken !== accessToken) continue;
+
+    const refreshed = await refreshAccessToken(token);
+    if (!refreshed) return null;
+
+    tokenCache.set(email, refreshed);
+    await saveTokensToDisk();
+    return refreshed.accessToken;
+  }
+  return null;
+}
+
+setTokenRefresher(refreshCachedAccessToken);
+
 /**
  * Get list of cached account emails.
  */
@@ -621,6 +648,14 @@ export function getTokensFilePath(): string {
   return getTokensFile();
 }
 
+/**
+ * Get the path to the config directory.
+ * Other local state (e.g. the mail cache) lives next to tokens.json.
+ */
+export function getConfigDirPath(): string {
+  return getConfigDir();
+}
+
 const GMAIL_API_BASE = "https://www.googleapis.com/gmail/v1/users/me";
 const MSGRAPH_API_BASE = "https://graph.microsoft.com/v1.0";
 
@@ -630,7 +665,8 @@ const MSGRAPH_API_BASE = "https://graph.microsoft.com/v1.0";
  * @param token - OAuth access token
  * @param path - API path (e.g., "/profile", "/messages")
  * @param options - Additional fetch options
- * @returns Response JSON or null on 401 unauthorized
+ * @returns Response JSON or null on 401 unauthorized (after a failed token refresh)
+ * @throws ApiError on other error responses
  */
 export async function gmailFetch(
   token: string,
@@ -639,7 +675,7 @@ export async function gmailFetch(
 ): Promise<any | null> {
   const url = `${GMAIL_API_BASE}${path}`;
 
-  const response = await fetch(url, {
+  const response = await apiFetch("gmail", url, {
     ...options,
     headers: {
       ...options?.headers,
@@ -647,13 +683,13 @@ export async function gmailFetch(
     },
   });
 
-  // Return null on unauthorized (caller should refresh token)
+  // Return null on unauthorized (the token could not be refreshed)
   if (response.status === 401) {
     return null;
   }
 
   if (!response.ok) {
-    throw new Error(`Gmail API error: ${response.status} ${response.statusText}`);
+    throw await toApiError("gmail", response);
   }
 
   return response.json();
@@ -665,7 +701,8 @@ export async function gmailFetch(
  * @param token - OAuth access token
  * @param path - API path (e.g., "/me", "/me/contacts")
  * @param options - Additional fetch options
- * @returns Response JSON or null on 401 unauthorized
+ * @returns Response JSON or null on 401 unauthorized (after a failed token refresh)
+ * @throws ApiError on other error responses
  */
 export async function msgraphFetch(
   token: string,
@@ -674,7 +711,7 @@ export async function msgraphFetch(
 ): Promise<any | null> {
   const url = `${MSGRAPH_API_BASE}${path}`;
 
-  const response = await fetch(url, {
+  const response = await apiFetch("msgraph", url, {
     ...options,
     headers: {
       ...options?.headers,
@@ -682,13 +719,13 @@ export async function msgraphFetch(
     },
   });
 
-  // Return null on unauthorized (caller should refresh token)
+  // Return null on unauthorized (the token could not be refreshed)
   if (response.status === 401) {
     return null;
   }
 
   if (!response.ok) {
-    throw new Error(`MS Graph API error: ${response.status} ${response.statusText}`);
+    throw await toApiError("msgraph", response);
   }
 
   return response.json();
@@ -725,7 +762,8 @@ export async function searchContactsDirect(
   } else {
     // Gmail People API (Google Contacts)
     // Note: Gmail API doesn't have direct contact search, use Google People API
-    const response = await fetch(
+    const response = await apiFetch(
+      "gmail",
       `https://people.googleapis.com/v1/people:searchContacts?query=${encodeURIComponent(query)}&readMask=names,emailAddresses&pageSize=${limit}`,
       {
         headers: {
@@ -842,47 +880,91 @@ export async function searchGmailDirect(
   const threadIdSet = new Set(searchResult.messages.map(m => m.threadId));
   const threadIds = Array.from(threadIdSet);
 
-  // Step 3: Fetch thread details for each unique thread
-  const threads: InboxThread[] = [];
+  // Step 3: Fetch thread details for all unique threads in one batch
+  const threads = await getThreadSummariesDirect(token, threadIds.slice(0, limit));
+  return threads.filter((thread): thread is InboxThread => thread !== null);
+}
 
-  for (const threadId of threadIds.slice(0, limit)) {
-    const threadPath = `/threads/${threadId}?format=metadata&metadataHeaders=Subject&metadataHeaders=From&metadataHeaders=Date`;
-    const threadResult = await gmailFetch(token.accessToken, threadPath) as GmailThreadResponse | null;
+/**
+ * Fetch a single Gmail thread as an InboxThread summary.
+ *
+ * Uses the metadata format so only the Subject/From/Date headers are returned.
+ *
+ * @param token - Token info with accessToken
+ * @param threadId - Gmail thread ID
+ * @returns InboxThread built from the last message, or null if not found
+ */
+export async function getThreadSummaryDirect(
+  token: TokenInfo,
+  threadId: string
+): Promise<InboxThread | null> {
+  const threadResult = await gmailFetch(token.accessToken, threadSummaryPath(threadId)) as GmailThreadResponse | null;
+  return toThreadSummary(threadResult);
+}
 
-    if (!threadResult || !threadResult.messages || threadResult.messages.length === 0) {
-      continue;
-    }
+/**
+ * Fetch several Gmail threads as InboxThread summaries using batch requests.
+ *
+ * @param token - Token info with accessToken
+ * @param threadIds - Gmail thread IDs
+ * @returns One summary per thread ID, in order (null where not found)
+ */
+export async function getThreadSummariesDirect(
+  token: TokenInfo,
+  threadIds: string[]
+): Promise<Array<InboxThread | null>> {
+  if (threadIds.length === 0) return [];
 
-    // Get the last message in the thread for display
-    const lastMessage = threadResult.messages[threadResult.messages.length - 1];
-    const headers = lastMessage.payload.headers;
+  const responses = await gmailBatch(
+    token,
+    threadIds.map((threadId) => ({ method: "GET", path: threadSummaryPath(threadId) }))
+  );
+  if (!responses) return threadIds.map(() => null);
 
-    // Extract headers
-    const subjectHeader = headers.find(h => h.name.toLowerCase() === "subject");
-    const fromHeader = headers.find(h => h.name.toLowerCase() === "from");
-    const dateHeader = headers.find(h => h.name.toLowerCase() === "date");
+  return responses.map((response) =>
+    response.status === 200 ? toThreadSummary(response.body as GmailThreadResponse) : null
+  );
+}
 
-    // Parse the From header (format: "Name <email>" or just "email")
-    const fromValue = fromHeader?.value || "";
-    const fromMatch = fromValue.match(/^(?:"?([^"<]*)"?\s*)?<?([^>]+)>?$/);
-    const fromName = fromMatch?.[1]?.trim() || "";
-    const fromEmail = fromMatch?.[2]?.trim() || fromValue;
+function threadSummaryPath(threadId: string): string {
+  return `/threads/${threadId}?format=metadata&metadataHeaders=Subject&metadataHeaders=From&metadataHeaders=Date`;
+}
 
-    threads.push({
-      id: threadResult.id,
-      subject: subjectHeader?.value || "(no subject)",
-      from: {
-        email: fromEmail,
-        name: fromName,
-      },
-      date: dateHeader?.value || new Date(parseInt(lastMessage.internalDate)).toISOString(),
-      snippet: lastMessage.snippet || "",
-      labelIds: lastMessage.labelIds || [],
-      messageCount: threadResult.messages.length,
-    });
+/**
+ * Build an InboxThread from a metadata-format Gmail thread.
+ */
+function toThreadSummary(threadResult: GmailThreadResponse | null): InboxThread | null {
+  if (!threadResult || !threadResult.messages || threadResult.messages.length === 0) {
+    return null;
   }
 
-  return threads;
+  // Get the last message in the thread for display
+  const lastMessage = threadResult.messages[threadResult.messages.length - 1];
+  const headers = lastMessage.payload.headers;
+
+  // Extract headers
+  const subjectHeader = headers.find(h => h.name.toLowerCase() === "subject");
+  const fromHeader = headers.find(h => h.name.toLowerCase() === "from");
+  const dateHeader = headers.find(h => h.name.toLowerCase() === "date");
+
+  // Parse the From header (format: "Name <email>" or just "email")
+  const fromValue = fromHeader?.value || "";
+  const fromMatch = fromValue.match(/^(?:"?([^"<]*)"?\s*)?<?([^>]+)>?$/);
+  const fromName = fromMatch?.[1]?.trim() || "";
+  const fromEmail = fromMatch?.[2]?.trim() || fromValue;
+
+  return {
+    id: threadResult.id,
+    subject: subjectHeader?.value || "(no subject)",
+    from: {
+      email: fromEmail,
+      name: fromName,
+    },
+    date: dateHeader?.value || new Date(parseInt(lastMessage.internalDate)).toISOString(),
+    snippet: lastMessage.snippet || "",
+    labelIds: lastMessage.labelIds || [],
+    messageCount: threadResult.messages.length,
+  };
 }
 
 /**
@@ -958,8 +1040,11 @@ async function searchMSGraphDirect(
  */
 export interface Label {
   id: string;
+  /** Display name; nested labels and folders use their full path ("Clients/Acme") */
   name: string;
   type?: string;
+  /** Gmail label background color or Outlook category color */
+  color?: string;
 }
 
 /**
@@ -1044,8 +1129,91 @@ export async function modifyThreadLabels(
   return result !== null;
 }
 
+/** Gmail messages.batchModify accepts at most this many IDs per call */
+export const GMAIL_BATCH_MODIFY_LIMIT = 1000;
+
+export { MSGRAPH_BATCH_LIMIT };
+
+/**
+ * Add/remove labels on many messages at once via Gmail messages.batchModify.
+ *
+ * @param token - Token info with accessToken
+ * @param messageIds - Up to GMAIL_BATCH_MODIFY_LIMIT message IDs
+ * @param addLabelIds - Labels to add
+ * @param removeLabelIds - Labels to remove
+ * @returns true on success, false on 401 unauthorized
+ */
+export async function batchModifyMessagesDirect(
+  token: TokenInfo,
+  messageIds: string[],
+  addLabelIds: string[],
+  removeLabelIds: string[]
+): Promise<boolean> {
+  if (token.isMicrosoft) {
+    throw new Error("batchModifyMessagesDirect is Gmail-only. Use msgraphBatchDirect for MS Graph.");
+  }
+
+  // batchModify answers 204 No Content, so gmailFetch's JSON parsing can't be used
+  const response = await apiFetch("gmail", `${GMAIL_API_BASE}/messages/batchModify`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token.accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ ids: messageIds, addLabelIds, removeLabelIds }),
+  });
+
+  if (response.status === 401) {
+    return false;
+  }
+
+  if (!response.ok) {
+    throw await toApiError("gmail", response);
+  }
+
+  return true;
+}
+
+/**
+ * One request inside an MS Graph JSON batch
+ */
+export interface MSGraphBatchRequest {
+  id: string;
+  method: "GET" | "POST" | "PATCH" | "DELETE";
+  /** Path relative to the API version, e.g. "/me/messages/{id}" */
+  url: string;
+  body?: unknown;
+}
+
+/**
+ * Run MS Graph requests through JSON $batch (MSGRAPH_BATCH_LIMIT per call).
+ *
+ * @param token - Token info with accessToken
+ * @param requests - Requests to run
+ * @returns HTTP status per request ID, or null on 401 unauthorized
+ */
+export async function msgraphBatchDirect(
+  token: TokenInfo,
+  requests: MSGraphBatchRequest[]
+): Promise<Map<string, number> | null> {
+  if (!token.isMicrosoft) {
+    throw new Error("msgraphBatchDirect is MS Graph-only. Use batchModifyMessagesDirect for Gmail.");
+  }
+
+  const responses = await msgraphBatch(
+    token,
+    requests.map((r) => ({ method: r.method, path: r.url, body: r.body }))
+  );
+
+  if (!responses) {
+    return null;
+  }
+
+  return new Map(requests.map((r, i) => [r.id, responses[i]!.status]));
+}
+
 /**
- * Update message properties via MS Graph (isRead, flag, etc.).
+ * Update message properties via MS Graph (isRead, flag, categories, etc.).
  *
  * @param token - Token info with accessToken
  * @param messageId - The MS Graph message ID
@@ -1055,7 +1223,7 @@ export async function modifyThreadLabels(
 export async function updateMessage(
   token: TokenInfo,
   messageId: string,
-  updates: { isRead?: boolean; flag?: { flagStatus: string } }
+  updates: { isRead?: boolean; flag?: { flagStatus: string }; categories?: string[] }
 ): Promise<boolean> {
   if (!token.isMicrosoft) {
     throw new Error("updateMessage is MS Graph-only. Use modifyThreadLabels for Gmail.");
@@ -1106,18 +1274,8 @@ export async function moveMessageToFolder(
  */
 export async function listLabelsDirect(token: TokenInfo): Promise<Label[]> {
   if (token.isMicrosoft) {
-    // MS Graph: List mail folders
-    const result = await msgraphFetch(token.accessToken, "/me/mailFolders?$top=100");
-
-    if (!result || !result.value) {
-      return [];
-    }
-
-    return result.value.map((f: any) => ({
-      id: f.id,
-      name: f.displayName,
-      type: "folder",
-    }));
+    // MS Graph: List mail folders, walking into child folders
+    return listMsGraphFolders(token, "/me/mailFolders?$top=100", "");
   } else {
     // Gmail: List labels
     const result = await gmailFetch(token.accessToken, "/labels");
@@ -1130,10 +1288,38 @@ export async function listLabelsDirect(token: TokenInfo): Promise<Label[]> {
       id: l.id,
       name: l.name,
       type: l.type,
+      ...(l.color?.backgroundColor ? { color: l.color.backgroundColor } : {}),
     }));
   }
 }
 
+/**
+ * List MS Graph mail folders under a path, named by their full path.
+ */
+async function listMsGraphFolders(token: TokenInfo, path: string, parentPath: string): Promise<Label[]> {
+  const folders: Label[] = [];
+  let next: string | undefined = path;
+
+  while (next) {
+    const result = await msgraphFetch(token.accessToken, next);
+    if (!result || !result.value) {
+      break;
+    }
+
+    for (const f of result.value) {
+      const name = parentPath ? `${parentPath}/${f.displayName}` : f.displayName;
+      folders.push({ id: f.id, name, type: "folder" });
+      if (f.childFolderCount > 0) {
+        folders.push(...(await listMsGraphFolders(token, `/me/mailFolders/${f.id}/childFolders?$top=100`, name)));
+      }
+    }
+
+    next = result["@odata.nextLink"]?.replace(MSGRAPH_API_BASE, "");
+  }
+
+  return folders;
+}
+
 /**
  * Get a specific folder by well-known name (MS Graph).
  *
@@ -1222,6 +1408,238 @@ export async function listInboxDirect(
   }
 }
 
+// ============================================================================
+// Incremental Change Tracking (Gmail history / MS Graph delta)
+// ============================================================================
+
+/**
+ * A thread touched by a Gmail history record.
+ */
+export interface HistoryThreadChange {
+  threadId: string;
+  /** true/false when INBOX was added/removed, undefined if unchanged */
+  inInbox?: boolean;
+}
+
+/**
+ * Result of a Gmail history query.
+ */
+export interface GmailHistoryResult {
+  changes: HistoryThreadChange[];
+  historyId: string;
+}
+
+interface GmailHistoryMessage {
+  message: { id: string; threadId: string; labelIds?: string[] };
+}
+
+interface GmailHistoryResponse {
+  history?: Array<{
+    messagesAdded?: GmailHistoryMessage[];
+    messagesDeleted?: GmailHistoryMessage[];
+    labelsAdded?: Array<GmailHistoryMessage & { labelIds: string[] }>;
+    labelsRemoved?: Array<GmailHistoryMessage & { labelIds: string[] }>;
+  }>;
+  nextPageToken?: string;
+  historyId: string;
+}
+
+/**
+ * Get the current Gmail historyId (starting point for getGmailHistoryDirect).
+ *
+ * @param token - Token info
+ * @returns The mailbox's current historyId
+ */
+export async function getGmailHistoryIdDirect(token: TokenInfo): Promise<string> {
+  const profile = await gmailFetch(token.accessToken, "/profile");
+  if (!profile) {
+    throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+  }
+  return String(profile.historyId);
+}
+
+/**
+ * List threads changed since a Gmail historyId, following all pages.
+ *
+ * @param token - Token info
+ * @param startHistoryId - historyId from a previous sync
+ * @param labelId - Only return history records touching this label (e.g. "INBOX")
+ * @returns Changed threads and the new historyId, or null if startHistoryId has expired
+ */
+export async function getGmailHistoryDirect(
+  token: TokenInfo,
+  startHistoryId: string,
+  labelId?: string
+): Promise<GmailHistoryResult | null> {
+  const changes = new Map<string, boolean | undefined>();
+  const touch = (threadId: string, inInbox?: boolean) => {
+    if (inInbox !== undefined || !changes.has(threadId)) {
+      changes.set(threadId, inInbox ?? changes.get(threadId));
+    }
+  };
+
+  let historyId = startHistoryId;
+  let pageToken: string | undefined;
+  do {
+    let path = `/history?startHistoryId=${startHistoryId}`;
+    if (labelId) path += `&labelId=${encodeURIComponent(labelId)}`;
+    if (pageToken) path += `&pageToken=${pageToken}`;
+
+    let page: GmailHistoryResponse | null;
+    try {
+      page = await gmailFetch(token.accessToken, path);
+    } catch (e) {
+      // 404 means startHistoryId is too old; caller must resync
+      if (e instanceof ApiError && e.status === 404) {
+        return null;
+      }
+      throw e;
+    }
+    if (!page) {
+      throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+    }
+
+    for (const entry of page.history || []) {
+      for (const { message } of entry.messagesAdded || []) {
+        touch(message.threadId, message.labelIds?.includes("INBOX") ? true : undefined);
+      }
+      for (const { message } of entry.messagesDeleted || []) {
+        touch(message.threadId);
+      }
+      for (const item of entry.labelsAdded || []) {
+        touch(item.message.threadId, item.labelIds.includes("INBOX") ? true : undefined);
+      }
+      for (const item of entry.labelsRemoved || []) {
+        touch(item.message.threadId, item.labelIds.includes("INBOX") ? false : undefined);
+      }
+    }
+
+    historyId = page.historyId || historyId;
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+
+  return {
+    changes: Array.from(changes, ([threadId, inInbox]) => ({ threadId, inInbox })),
+    historyId,
+  };
+}
+
+/**
+ * A message returned by an MS Graph delta query.
+ */
+export interface MSGraphDeltaMessage {
+  id: string;
+  conversationId?: string;
+  subject?: string;
+  body?: { content?: string };
+  bodyPreview?: string;
+  from?: { emailAddress?: { address?: string; name?: string } };
+  toRecipients?: Array<{ emailAddress?: { address?: string; name?: string } }>;
+  ccRecipients?: Array<{ emailAddress?: { address?: string; name?: string } }>;
+  receivedDateTime?: string;
+  isRead?: boolean;
+  "@removed"?: { reason: string };
+}
+
+/**
+ * Result of an MS Graph Inbox delta query.
+ */
+export interface MSGraphDeltaResult {
+  messages: MSGraphDeltaMessage[];
+  removedIds: string[];
+  deltaLink: string;
+}
+
+const MSGRAPH_INBOX_DELTA_PATH =
+  "/me/mailFolders/Inbox/messages/delta?$select=id,conversationId,subject,body,bodyPreview,from,toRecipients,ccRecipients,receivedDateTime,isRead";
+
+/**
+ * Run an MS Graph delta query on the Inbox folder, following all pages.
+ *
+ * @param token - Token info
+ * @param deltaLink - deltaLink from a previous query; omit for an initial (full) query,
+ *                    or pass "latest" to only obtain a deltaLink for the current state
+ * @returns Changed and removed messages plus the next deltaLink, or null if deltaLink has expired
+ */
+export async function getMSGraphInboxDeltaDirect(
+  token: TokenInfo,
+  deltaLink?: string
+): Promise<MSGraphDeltaResult | null> {
+  let path: string | undefined;
+  if (!deltaLink) {
+    path = MSGRAPH_INBOX_DELTA_PATH;
+  } else if (deltaLink === "latest") {
+    path = `${MSGRAPH_INBOX_DELTA_PATH}&$deltatoken=latest`;
+  } else {
+    path = deltaLink.replace(MSGRAPH_API_BASE, "");
+  }
+
+  const messages: MSGraphDeltaMessage[] = [];
+  const removedIds: string[] = [];
+  let nextDeltaLink = deltaLink || "";
+
+  while (path) {
+    let page: { value?: MSGraphDeltaMessage[]; "@odata.nextLink"?: string; "@odata.deltaLink"?: string } | null;
+    try {
+      page = await msgraphFetch(token.accessToken, path, {
+        headers: { Prefer: "odata.maxpagesize=50" },
+      });
+    } catch (e) {
+      // 410 Gone means the delta token expired; caller must resync
+      if (e instanceof ApiError && e.status === 410) {
+        return null;
+      }
+      throw e;
+    }
+    if (!page) {
+      throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+    }
+
+    for (const msg of page.value || []) {
+      if (msg["@removed"]) {
+        removedIds.push(msg.id);
+      } else {
+        messages.push(msg);
+      }
+    }
+
+    path = page["@odata.nextLink"]?.replace(MSGRAPH_API_BASE, "");
+    nextDeltaLink = page["@odata.deltaLink"] || nextDeltaLink;
+  }
+
+  return { messages, removedIds, deltaLink: nextDeltaLink };
+}
+
+/**
+ * List the newest Inbox messages with the same fields as an Inbox delta query.
+ * Graph may return fewer messages per page than asked for, so pages are
+ * followed via @odata.nextLink until limit is reached.
+ *
+ * @param token - Token info
+ * @param limit - Maximum messages to return
+ * @returns Messages, newest first
+ */
+export async function listMSGraphInboxMessagesDirect(
+  token: TokenInfo,
+  limit: number
+): Promise<MSGraphDeltaMessage[]> {
+  const select = MSGRAPH_INBOX_DELTA_PATH.split("$select=")[1];
+  const messages: MSGraphDeltaMessage[] = [];
+  let path: string | undefined =
+    `/me/mailFolders/Inbox/messages?$top=${limit}&$orderby=receivedDateTime desc&$select=${select}`;
+
+  while (path && messages.length < limit) {
+    const page = await msgraphFetch(token.accessToken, path);
+    if (!page) {
+      throw new Error(`Token for ${token.email} was rejected. Run 'superhuman account auth' to re-authenticate.`);
+    }
+    messages.push(...(page.value || []));
+    path = page["@odata.nextLink"]?.replace(MSGRAPH_API_BASE, "");
+  }
+
+  return messages.slice(0, limit);
+}
+
 /**
  * Get a Gmail thread with full message details including attachments.
  *
@@ -1242,16 +1660,15 @@ export async function getThreadDirect(
 } | null> {
   if (token.isMicrosoft) {
     // MS Graph: Get conversation messages
-    const path = `/me/messages?$filter=conversationId eq '${threadId}'&$select=id,hasAttachments&$expand=attachments`;
-    const result = await msgraphFetch(token.accessToken, path);
+    const messages = await listConversationMessagesMsGraph(token, threadId, "id,receivedDateTime,hasAttachments", "attachments");
 
-    if (!result || !result.value) {
+    if (messages.length === 0) {
       return null;
     }
 
     return {
       id: threadId,
-      messages: result.value.map((msg: any) => ({
+      messages: messages.map((msg: any) => ({
         id: msg.id,
         labelIds: [],
         attachments: (msg.attachments || []).map((att: any) => ({
@@ -1380,6 +1797,45 @@ export async function downloadAttachmentDirect(
   }
 }
 
+/**
+ * Download a message as raw RFC 822 bytes (headers, body and attachments).
+ * Gmail returns it via format=raw; MS Graph via the message's $value.
+ *
+ * @param token - Token info
+ * @param messageId - The message ID
+ * @returns Raw message bytes or null on 401 unauthorized
+ */
+export async function getRawMessageDirect(
+  token: TokenInfo,
+  messageId: string
+): Promise<Uint8Array | null> {
+  if (token.isMicrosoft) {
+    // MS Graph: $value returns the MIME content, not JSON
+    const response = await apiFetch("msgraph", `${MSGRAPH_API_BASE}/me/messages/${messageId}/$value`, {
+      headers: { Authorization: `Bearer ${token.accessToken}` },
+    });
+
+    if (response.status === 401) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw await toApiError("msgraph", response);
+    }
+
+    return new Uint8Array(await response.arrayBuffer());
+  } else {
+    // Gmail: raw is the whole message as URL-safe base64
+    const result = await gmailFetch(token.accessToken, `/messages/${messageId}?format=raw`);
+
+    if (!result) {
+      return null;
+    }
+
+    return new Uint8Array(Buffer.from(result.raw || "", "base64url"));
+  }
+}
+
 /**
  * Get message IDs for a conversation (MS Graph helper).
  * MS Graph operations work on messages, not threads/conversations.
@@ -1406,6 +1862,46 @@ export async function getConversationMessageIds(
   return result.value.map((m: any) => m.id);
 }
 
+/**
+ * List every message in an MS Graph conversation, oldest first.
+ *
+ * /me/messages spans all folders, so replies in Sent Items and messages
+ * that were archived or moved are included. Pages are followed via
+ * @odata.nextLink. Graph rejects $orderby combined with a conversationId
+ * filter ("InefficientFilter"), so messages are sorted here.
+ *
+ * @param token - Token info with accessToken
+ * @param conversationId - The conversation ID
+ * @param select - Comma-separated fields to $select
+ * @param expand - Optional $expand clause (e.g. "attachments($select=id,name)")
+ * @returns Raw MS Graph message objects
+ */
+export async function listConversationMessagesMsGraph(
+  token: TokenInfo,
+  conversationId: string,
+  select: string,
+  expand?: string
+): Promise<any[]> {
+  if (!token.isMicrosoft) {
+    throw new Error("listConversationMessagesMsGraph is MS Graph-only");
+  }
+
+  const messages: any[] = [];
+  let path: string | undefined =
+    `/me/messages?$filter=conversationId eq '${conversationId}'&$select=${select}` +
+    `${expand ? `&$expand=${expand}` : ""}&$top=50`;
+
+  while (path) {
+    const page = await msgraphFetch(token.accessToken, path);
+    if (!page?.value) break;
+    messages.push(...page.value);
+    path = page["@odata.nextLink"]?.replace(MSGRAPH_API_BASE, "");
+  }
+
+  const time = (m: any) => new Date(m.receivedDateTime || m.sentDateTime || 0).getTime();
+  return messages.sort((a, b) => time(a) - time(b));
+}
+
 /**
  * Add an attachment to a draft via MS Graph API.
  *
@@ -1606,7 +2102,8 @@ export async function addAttachmentToGmailDraft(
     updateBody.message.threadId = message.threadId;
   }
 
-  const response = await fetch(
+  const response = await apiFetch(
+    "gmail",
     `https://www.googleapis.com/gmail/v1/users/me${updatePath}`,
     {
       method: "PUT",
@@ -1678,6 +2175,12 @@ export interface CalendarEventDirect {
   }>;
   recurrence?: string[];
   recurringEventId?: string;
+  /** For an instance of a recurring event: when it was scheduled before being moved */
+  originalStartTime?: {
+    dateTime?: string;
+    date?: string;
+    timeZone?: string;
+  };
   htmlLink?: string;
   conferenceData?: Record<string, unknown>;
   status?: "confirmed" | "tentative" | "cancelled";
@@ -1686,8 +2189,18 @@ export interface CalendarEventDirect {
   isOrganizer?: boolean;
   provider?: "google" | "microsoft";
   location?: string;
+  /** iCalendar UID shared by every copy of the event (invites, other calendars) */
+  iCalUID?: string;
+  organizer?: { email: string; displayName?: string };
+  /** The signed-in user's response, when they were invited rather than organizing */
+  responseStatus?: "needsAction" | "accepted" | "declined" | "tentative";
 }
 
+/**
+ * Response to a calendar invitation.
+ */
+export type CalendarRsvpResponse = "accepted" | "declined" | "tentative";
+
 /**
  * Input for creating a calendar event.
  */
@@ -1708,6 +2221,16 @@ export interface CreateCalendarEventInput {
   attendees?: Array<{ email: string; displayName?: string }>;
   recurrence?: string[];
   location?: string;
+  /** Email invitations to attendees (Google only sends them when asked; Outlook always does) */
+  sendInvites?: boolean;
+  /** Mark the event tentative, e.g. a hold on a proposed time */
+  tentative?: boolean;
+  /**
+   * Keep this iCalendar UID (calendar import). Google imports the event
+   * under it; Outlook can't set UIDs, so it is stored in an extended
+   * property that findCalendarEventByUidDirect also searches.
+   */
+  iCalUID?: string;
 }
 
 /**
@@ -1749,6 +2272,31 @@ export interface FreeBusySlot {
   end: string;
 }
 
+/**
+ * Working hours published by an attendee (MS Graph getSchedule only).
+ */
+export interface AttendeeWorkingHours {
+  /** Lowercase day names, e.g. ["monday", "tuesday"] */
+  daysOfWeek: string[];
+  /** Local start time, "HH:MM:SS" */
+  startTime: string;
+  /** Local end time, "HH:MM:SS" */
+  endTime: string;
+  /** Zone name as published; Windows names (e.g. "Pacific Standard Time") are not IANA */
+  timeZone: string;
+}
+
+/**
+ * Busy slots of one attendee.
+ */
+export interface AttendeeFreeBusy {
+  email: string;
+  busy: FreeBusySlot[];
+  workingHours?: AttendeeWorkingHours;
+  /** Set when the attendee's calendar couldn't be read (not shared, unknown address) */
+  error?: string;
+}
+
 /**
  * Make a fetch call to Google Calendar API.
  */
@@ -1759,7 +2307,7 @@ async function gcalFetch(
 ): Promise<any | null> {
   const url = `${GOOGLE_CALENDAR_API_BASE}${path}`;
 
-  const response = await fetch(url, {
+  const response = await apiFetch("gcal", url, {
     ...options,
     headers: {
       ...options?.headers,
@@ -1777,8 +2325,7 @@ async function gcalFetch(
   }
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Google Calendar API error: ${response.status} ${response.statusText} - ${errorText}`);
+    throw await toApiError("gcal", response);
   }
 
   return response.json();
@@ -1827,37 +2374,7 @@ export async function listCalendarEventsDirect(
       return [];
     }
 
-    return result.value.map((e: any) => ({
-      id: e.id,
-      calendarId: calendarId,
-      summary: e.subject || "",
-      description: e.bodyPreview || e.body?.content || "",
-      start: {
-        dateTime: e.start?.dateTime,
-        timeZone: e.start?.timeZone,
-        date: e.isAllDay ? e.start?.dateTime?.split("T")[0] : undefined,
-      },
-      end: {
-        dateTime: e.end?.dateTime,
-        timeZone: e.end?.timeZone,
-        date: e.isAllDay ? e.end?.dateTime?.split("T")[0] : undefined,
-      },
-      attendees: (e.attendees || []).map((a: any) => ({
-        email: a.emailAddress?.address || "",
-        displayName: a.emailAddress?.name || "",
-        responseStatus: mapMsResponseStatus(a.status?.response),
-        organizer: e.organizer?.emailAddress?.address === a.emailAddress?.address,
-      })),
-      recurrence: e.recurrence ? [JSON.stringify(e.recurrence)] : undefined,
-      recurringEventId: e.seriesMasterId,
-      htmlLink: e.webLink,
-      conferenceData: e.onlineMeeting,
-      status: e.isCancelled ? "cancelled" : "confirmed",
-      allDay: e.isAllDay,
-      isOrganizer: e.isOrganizer,
-      provider: "microsoft",
-      location: e.location?.displayName,
-    }));
+    return result.value.map((e: any) => mapMsCalendarEvent(e, calendarId!));
   } else {
     // Google Calendar: Get events list
     const calendarId = options?.calendarId || "primary";
@@ -1869,42 +2386,97 @@ export async function listCalendarEventsDirect(
       return [];
     }
 
-    return result.items.map((e: any) => ({
-      id: e.id,
-      calendarId: calendarId,
-      summary: e.summary || "",
-      description: e.description || "",
-      start: {
-        dateTime: e.start?.dateTime,
-        date: e.start?.date,
-        timeZone: e.start?.timeZone,
-      },
-      end: {
-        dateTime: e.end?.dateTime,
-        date: e.end?.date,
-        timeZone: e.end?.timeZone,
-      },
-      attendees: (e.attendees || []).map((a: any) => ({
-        email: a.email || "",
-        displayName: a.displayName || "",
-        responseStatus: a.responseStatus || "needsAction",
-        organizer: a.organizer,
-        self: a.self,
-      })),
-      recurrence: e.recurrence,
-      recurringEventId: e.recurringEventId,
-      htmlLink: e.htmlLink,
-      conferenceData: e.conferenceData,
-      status: e.status || "confirmed",
-      visibility: e.visibility,
-      allDay: !!e.start?.date,
-      isOrganizer: e.organizer?.self,
-      provider: "google",
-      location: e.location,
-    }));
+    return result.items.map((e: any) => mapGoogleCalendarEvent(e, calendarId));
   }
 }
 
+/**
+ * Map an MS Graph event to CalendarEventDirect.
+ */
+function mapMsCalendarEvent(e: any, calendarId: string): CalendarEventDirect {
+  return {
+    id: e.id,
+    calendarId: calendarId,
+    summary: e.subject || "",
+    description: e.bodyPreview || e.body?.content || "",
+    start: {
+      dateTime: e.start?.dateTime,
+      timeZone: e.start?.timeZone,
+      date: e.isAllDay ? e.start?.dateTime?.split("T")[0] : undefined,
+    },
+    end: {
+      dateTime: e.end?.dateTime,
+      timeZone: e.end?.timeZone,
+      date: e.isAllDay ? e.end?.dateTime?.split("T")[0] : undefined,
+    },
+    attendees: (e.attendees || []).map((a: any) => ({
+      email: a.emailAddress?.address || "",
+      displayName: a.emailAddress?.name || "",
+      responseStatus: mapMsResponseStatus(a.status?.response),
+      organizer: e.organizer?.emailAddress?.address === a.emailAddress?.address,
+    })),
+    recurrence: e.recurrence ? fromMsGraphRecurrence(e.recurrence) : undefined,
+    recurringEventId: e.seriesMasterId,
+    originalStartTime: e.originalStart ? { dateTime: e.originalStart } : undefined,
+    htmlLink: e.webLink,
+    conferenceData: e.onlineMeeting,
+    status: e.isCancelled ? "cancelled" : "confirmed",
+    allDay: e.isAllDay,
+    isOrganizer: e.isOrganizer,
+    provider: "microsoft",
+    location: e.location?.displayName,
+    iCalUID: e.iCalUId,
+    organizer: e.organizer?.emailAddress
+      ? { email: e.organizer.emailAddress.address || "", displayName: e.organizer.emailAddress.name || "" }
+      : undefined,
+    responseStatus: e.isOrganizer ? undefined : mapMsResponseStatus(e.responseStatus?.response),
+  };
+}
+
+/**
+ * Map a Google Calendar API event to CalendarEventDirect.
+ */
+function mapGoogleCalendarEvent(e: any, calendarId: string): CalendarEventDirect {
+  const self = (e.attendees || []).find((a: any) => a.self);
+  return {
+    id: e.id,
+    calendarId: calendarId,
+    summary: e.summary || "",
+    description: e.description || "",
+    start: {
+      dateTime: e.start?.dateTime,
+      date: e.start?.date,
+      timeZone: e.start?.timeZone,
+    },
+    end: {
+      dateTime: e.end?.dateTime,
+      date: e.end?.date,
+      timeZone: e.end?.timeZone,
+    },
+    attendees: (e.attendees || []).map((a: any) => ({
+      email: a.email || "",
+      displayName: a.displayName || "",
+      responseStatus: a.responseStatus || "needsAction",
+      organizer: a.organizer,
+      self: a.self,
+    })),
+    recurrence: e.recurrence,
+    recurringEventId: e.recurringEventId,
+    originalStartTime: e.originalStartTime,
+    htmlLink: e.htmlLink,
+    conferenceData: e.conferenceData,
+    status: e.status || "confirmed",
+    visibility: e.visibility,
+    allDay: !!e.start?.date,
+    isOrganizer: e.organizer?.self,
+    provider: "google",
+    location: e.location,
+    iCalUID: e.iCalUID,
+    organizer: e.organizer?.email ? { email: e.organizer.email, displayName: e.organizer.displayName || "" } : undefined,
+    responseStatus: self && !e.organizer?.self ? self.responseStatus || "needsAction" : undefined,
+  };
+}
+
 /**
  * Map MS Graph response status to our format.
  */
@@ -1949,6 +2521,159 @@ function toMsGraphAttendees(
   }));
 }
 
+/**
+ * Extended property holding the iCalendar UID of events imported into Outlook.
+ */
+const MS_ICS_UID_PROPERTY = "String {00020329-0000-0000-C000-000000000046} Name SuperhumanCliIcsUid";
+
+const RRULE_DAYS: Record<string, string> = {
+  MO: "monday",
+  TU: "tuesday",
+  WE: "wednesday",
+  TH: "thursday",
+  FR: "friday",
+  SA: "saturday",
+  SU: "sunday",
+};
+
+const MS_WEEK_INDEX: Record<string, string> = { "1": "first", "2": "second", "3": "third", "4": "fourth", "-1": "last" };
+
+const MS_FREQUENCIES: Record<string, string> = {
+  daily: "DAILY",
+  weekly: "WEEKLY",
+  absoluteMonthly: "MONTHLY",
+  relativeMonthly: "MONTHLY",
+  absoluteYearly: "YEARLY",
+  relativeYearly: "YEARLY",
+};
+
+/**
+ * The date an RRULE's UNTIL falls on in the series' zone; Graph ends
+ * series on a date. Windows zone names are left as the UTC date.
+ */
+function untilDate(until: string, timeZone?: string): string {
+  const date = `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`;
+  const time = until.match(/T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!time || !timeZone) return date;
+  try {
+    return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(
+      new Date(`${date}T${time[1]}:${time[2]}:${time[3]}Z`)
+    );
+  } catch {
+    return date;
+  }
+}
+
+/**
+ * Convert an RRULE to an MS Graph recurrence. Graph has no equivalent for
+ * EXDATE/RDATE or rules such as BYSETPOS and hourly repeats.
+ *
+ * @throws If the rule can't be expressed in Graph
+ */
+function toMsGraphRecurrence(
+  recurrence: string[],
+  start: { dateTime?: string; date?: string; timeZone?: string }
+): Record<string, unknown> | undefined {
+  const line = recurrence.find((r) => /^RRULE:/i.test(r));
+  if (!line) return undefined;
+
+  const rule: Record<string, string> = {};
+  for (const part of line.slice(6).split(";")) {
+    const [key = "", value = ""] = part.split("=");
+    rule[key.toUpperCase()] = value.toUpperCase();
+  }
+  const unsupported = () => new Error(`Outlook can't repeat events by ${line.slice(6)}`);
+  const known = ["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "BYMONTH", "COUNT", "UNTIL", "WKST"];
+  if (Object.keys(rule).some((key) => !known.includes(key))) throw unsupported();
+
+  const startDate = (start.date || start.dateTime || "").slice(0, 10);
+  const [, month = 1, day = 1] = startDate.split("-").map(Number);
+  const byDay = (rule.BYDAY || "").split(",").filter(Boolean).map((d) => d.match(/^([+-]?\d)?(MO|TU|WE|TH|FR|SA|SU)$/));
+  if (byDay.some((m) => !m)) throw unsupported();
+  const days = byDay.map((m) => RRULE_DAYS[m![2]!]!);
+  const ordinal = byDay.find((m) => m![1])?.[1]?.replace("+", "");
+
+  const pattern: Record<string, unknown> = { interval: Number(rule.INTERVAL || 1) };
+  switch (rule.FREQ) {
+    case "DAILY":
+      pattern.type = "daily";
+      break;
+    case "WEEKLY": {
+      const weekday = Object.values(RRULE_DAYS)[(new Date(`${startDate}T00:00:00Z`).getUTCDay() + 6) % 7]!;
+      pattern.type = "weekly";
+      pattern.daysOfWeek = days.length > 0 ? days : [weekday];
+      pattern.firstDayOfWeek = RRULE_DAYS[rule.WKST || "SU"] || "sunday";
+      break;
+    }
+    case "MONTHLY":
+    case "YEARLY": {
+      const yearly = rule.FREQ === "YEARLY";
+      if (ordinal) {
+        if (!MS_WEEK_INDEX[ordinal]) throw unsupported();
+        pattern.type = yearly ? "relativeYearly" : "relativeMonthly";
+        pattern.daysOfWeek = days;
+        pattern.index = MS_WEEK_INDEX[ordinal];
+      } else if (days.length > 0) {
+        throw unsupported();
+      } else {
+        pattern.type = yearly ? "absoluteYearly" : "absoluteMonthly";
+        pattern.dayOfMonth = Number(rule.BYMONTHDAY || day);
+      }
+      if (yearly) pattern.month = Number(rule.BYMONTH || month);
+      break;
+    }
+    default:
+      throw unsupported();
+  }
+
+  const range: Record<string, unknown> = { type: "noEnd", startDate };
+  if (start.timeZone) range.recurrenceTimeZone = start.timeZone;
+  if (rule.COUNT) {
+    range.type = "numbered";
+    range.numberOfOccurrences = Number(rule.COUNT);
+  } else if (rule.UNTIL) {
+    range.type = "endDate";
+    range.endDate = untilDate(rule.UNTIL, start.timeZone);
+  }
+
+  return { pattern, range };
+}
+
+/**
+ * Convert an MS Graph recurrence to RRULE lines like Google Calendar's.
+ */
+function fromMsGraphRecurrence(recurrence: any): string[] | undefined {
+  const pattern = recurrence?.pattern;
+  const freq = MS_FREQUENCIES[pattern?.type];
+  if (!freq) return undefined;
+
+  const parts = [`FREQ=${freq}`];
+  if (pattern.interval > 1) parts.push(`INTERVAL=${pattern.interval}`);
+  if (freq === "YEARLY" && pattern.month) parts.push(`BYMONTH=${pattern.month}`);
+  if (pattern.type.startsWith("absolute")) parts.push(`BYMONTHDAY=${pattern.dayOfMonth}`);
+
+  const days = (pattern.daysOfWeek || []).map((d: string) =>
+    Object.keys(RRULE_DAYS).find((key) => RRULE_DAYS[key] === d.toLowerCase())
+  );
+  if (pattern.type === "weekly" && days.length > 0) {
+    parts.push(`BYDAY=${days.join(",")}`);
+  } else if (pattern.type.startsWith("relative")) {
+    const index = Object.keys(MS_WEEK_INDEX).find((key) => MS_WEEK_INDEX[key] === pattern.index) || "1";
+    parts.push(`BYDAY=${days.map((d: string) => `${index}${d}`).join(",")}`);
+  }
+
+  const range = recurrence.range;
+  if (range?.type === "numbered") {
+    parts.push(`COUNT=${range.numberOfOccurrences}`);
+  } else if (range?.type === "endDate" && range.endDate) {
+    // The end of that day in the series' zone
+    const end = icsDateToDate({ dateTime: `${range.endDate}T23:59:59`, timeZone: range.recurrenceTimeZone || "UTC" })!;
+    parts.push(`UNTIL=${end.toISOString().slice(0, 19).replace(/[-:]/g, "")}Z`);
+  }
+
+  return [`RRULE:${parts.join(";")}`];
+}
+
 /**
  * Create a calendar event directly via Google Calendar or MS Graph API.
  *
@@ -1982,6 +2707,9 @@ export async function createCalendarEventDirect(
       attendees: toMsGraphAttendees(event.attendees),
       location: event.location ? { displayName: event.location } : undefined,
       isAllDay: !!event.start.date && !event.start.dateTime,
+      showAs: event.tentative ? "tentative" : undefined,
+      recurrence: event.recurrence ? toMsGraphRecurrence(event.recurrence, event.start) : undefined,
+      singleValueExtendedProperties: event.iCalUID ? [{ id: MS_ICS_UID_PROPERTY, value: event.iCalUID }] : undefined,
     };
 
     const path = `/me/calendars/${calendarId}/events`;
@@ -2011,9 +2739,14 @@ export async function createCalendarEventDirect(
       })),
       recurrence: event.recurrence,
       location: event.location,
+      status: event.tentative ? "tentative" : undefined,
+      iCalUID: event.iCalUID,
     };
 
-    const path = `/calendars/${encodeURIComponent(calendarId)}/events`;
+    // events/import keeps the given UID; insert always assigns a new one
+    const path = event.iCalUID
+      ? `/calendars/${encodeURIComponent(calendarId)}/events/import`
+      : `/calendars/${encodeURIComponent(calendarId)}/events${event.sendInvites ? "?sendUpdates=all" : ""}`;
     const result = await gcalFetch(token.accessToken, path, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
@@ -2053,6 +2786,11 @@ export async function updateCalendarEventDirect(
     if (updates.end) msUpdates.end = toMsGraphDateTime(updates.end, true);
     if (updates.attendees) msUpdates.attendees = toMsGraphAttendees(updates.attendees);
     if (updates.location) msUpdates.location = { displayName: updates.location };
+    if (updates.recurrence) {
+      // The pattern starts on the event's date, so look it up when the start isn't changing
+      const start = updates.start || (await msgraphFetch(token.accessToken, `/me/events/${eventId}?$select=start`))?.start;
+      msUpdates.recurrence = toMsGraphRecurrence(updates.recurrence, start || {});
+    }
 
     const path = `/me/events/${eventId}`;
     const result = await msgraphFetch(token.accessToken, path, {
@@ -2080,36 +2818,198 @@ export async function updateCalendarEventDirect(
  * Delete a calendar event directly via Google Calendar or MS Graph API.
  *
  * @param token - Token info
- * @param eventId - The event ID to delete
- * @param calendarId - Optional calendar ID (required for Google Calendar)
- * @returns true on success
+ * @param eventId - The event ID to delete
+ * @param calendarId - Optional calendar ID (required for Google Calendar)
+ * @returns true on success
+ */
+export async function deleteCalendarEventDirect(
+  token: TokenInfo,
+  eventId: string,
+  calendarId?: string
+): Promise<boolean> {
+  if (token.isMicrosoft) {
+    // MS Graph: Delete event
+    const path = `/me/events/${eventId}`;
+    const response = await apiFetch("msgraph", `${MSGRAPH_API_BASE}${path}`, {
+      method: "DELETE",
+      headers: {
+        Authorization: `Bearer ${token.accessToken}`,
+      },
+    });
+
+    // 204 No Content = success
+    return response.status === 204 || response.ok;
+  } else {
+    // Google Calendar: Delete event
+    const calId = calendarId || "primary";
+    const path = `/calendars/${encodeURIComponent(calId)}/events/${eventId}`;
+    const result = await gcalFetch(token.accessToken, path, {
+      method: "DELETE",
+    });
+
+    return result !== null;
+  }
+}
+
+const MS_RSVP_ACTIONS: Record<CalendarRsvpResponse, string> = {
+  accepted: "accept",
+  declined: "decline",
+  tentative: "tentativelyAccept",
+};
+
+/**
+ * Respond to a calendar invitation directly via Google Calendar or MS Graph API.
+ *
+ * Google has no RSVP endpoint: the user's own attendee entry is patched and
+ * the organizer is notified with sendUpdates=all. Graph has
+ * accept/decline/tentativelyAccept actions that email the organizer.
+ *
+ * @param token - Token info
+ * @param eventId - The event ID to respond to
+ * @param response - accepted, declined or tentative
+ * @param options - Optional note to the organizer and calendar ID (Google)
+ * @returns true on success
+ */
+export async function respondToCalendarEventDirect(
+  token: TokenInfo,
+  eventId: string,
+  response: CalendarRsvpResponse,
+  options?: { comment?: string; calendarId?: string }
+): Promise<boolean> {
+  if (token.isMicrosoft) {
+    const path = `/me/events/${eventId}/${MS_RSVP_ACTIONS[response]}`;
+    const result = await apiFetch("msgraph", `${MSGRAPH_API_BASE}${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token.accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ comment: options?.comment || "", sendResponse: true }),
+    });
+
+    if (result.status === 401) {
+      return false;
+    }
+    if (!result.ok) {
+      throw await toApiError("msgraph", result);
+    }
+    // 202 Accepted = success
+    return true;
+  } else {
+    const calId = options?.calendarId || "primary";
+    const path = `/calendars/${encodeURIComponent(calId)}/events/${eventId}`;
+    const event = await gcalFetch(token.accessToken, path);
+    if (!event) {
+      return false;
+    }
+    if (event.organizer?.self) {
+      throw new Error("You are the organizer of this event");
+    }
+
+    const attendees: any[] = event.attendees || [];
+    let self = attendees.find((a) => a.self || a.email?.toLowerCase() === token.email.toLowerCase());
+    if (!self) {
+      self = { email: token.email };
+      attendees.push(self);
+    }
+    self.responseStatus = response;
+    if (options?.comment !== undefined) {
+      self.comment = options.comment;
+    }
+
+    const result = await gcalFetch(token.accessToken, `${path}?sendUpdates=all`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ attendees }),
+    });
+
+    return result !== null;
+  }
+}
+
+/**
+ * Get one calendar event, e.g. the series a recurring instance belongs to.
+ *
+ * @param token - Token info
+ * @param eventId - The event ID
+ * @param calendarId - Calendar ID (Google, default: primary)
+ * @returns The event, or null if it doesn't exist
+ */
+export async function getCalendarEventDirect(
+  token: TokenInfo,
+  eventId: string,
+  calendarId?: string
+): Promise<CalendarEventDirect | null> {
+  if (token.isMicrosoft) {
+    const event = await msgraphFetch(token.accessToken, `/me/events/${eventId}`);
+    return event ? mapMsCalendarEvent(event, calendarId || "") : null;
+  } else {
+    const calId = calendarId || "primary";
+    const event = await gcalFetch(token.accessToken, `/calendars/${encodeURIComponent(calId)}/events/${eventId}`);
+    return event ? mapGoogleCalendarEvent(event, calId) : null;
+  }
+}
+
+/**
+ * List the occurrences of a recurring event in a time range, including
+ * occurrences that were moved or (on Google) cancelled.
+ *
+ * @param token - Token info
+ * @param seriesId - ID of the recurring event (the series master)
+ * @param timeMin - Start of time range (ISO string)
+ * @param timeMax - End of time range (ISO string)
+ * @param calendarId - Calendar ID (Google, default: primary)
+ * @returns The occurrences
+ */
+export async function listEventInstancesDirect(
+  token: TokenInfo,
+  seriesId: string,
+  timeMin: string,
+  timeMax: string,
+  calendarId?: string
+): Promise<CalendarEventDirect[]> {
+  if (token.isMicrosoft) {
+    const path = `/me/events/${seriesId}/instances?startDateTime=${encodeURIComponent(timeMin)}&endDateTime=${encodeURIComponent(timeMax)}&$top=1000`;
+    const result = await msgraphFetch(token.accessToken, path);
+    return (result?.value || []).map((e: any) => mapMsCalendarEvent(e, calendarId || ""));
+  } else {
+    const calId = calendarId || "primary";
+    const path = `/calendars/${encodeURIComponent(calId)}/events/${seriesId}/instances?timeMin=${encodeURIComponent(timeMin)}&timeMax=${encodeURIComponent(timeMax)}&maxResults=2500&showDeleted=true`;
+    const result = await gcalFetch(token.accessToken, path);
+    return (result?.items || []).map((e: any) => mapGoogleCalendarEvent(e, calId));
+  }
+}
+
+/**
+ * Find a calendar event by its iCalendar UID (from an emailed invitation).
+ *
+ * @param token - Token info
+ * @param uid - The UID from the invitation's VEVENT
+ * @returns The event, or null if it isn't in the calendar
  */
-export async function deleteCalendarEventDirect(
+export async function findCalendarEventByUidDirect(
   token: TokenInfo,
-  eventId: string,
-  calendarId?: string
-): Promise<boolean> {
+  uid: string
+): Promise<CalendarEventDirect | null> {
   if (token.isMicrosoft) {
-    // MS Graph: Delete event
-    const path = `/me/events/${eventId}`;
-    const response = await fetch(`${MSGRAPH_API_BASE}${path}`, {
-      method: "DELETE",
-      headers: {
-        Authorization: `Bearer ${token.accessToken}`,
-      },
-    });
-
-    // 204 No Content = success
-    return response.status === 204 || response.ok;
+    const quoted = uid.replace(/'/g, "''");
+    const filter = encodeURIComponent(`iCalUId eq '${quoted}'`);
+    const result = await msgraphFetch(token.accessToken, `/me/events?$filter=${filter}&$top=1`);
+    let event = result?.value?.[0];
+    if (!event) {
+      // Events imported from another calendar keep their UID in an extended property
+      const imported = encodeURIComponent(
+        `singleValueExtendedProperties/Any(ep: ep/id eq '${MS_ICS_UID_PROPERTY}' and ep/value eq '${quoted}')`
+      );
+      const importedResult = await msgraphFetch(token.accessToken, `/me/events?$filter=${imported}&$top=1`);
+      event = importedResult?.value?.[0];
+    }
+    return event ? mapMsCalendarEvent(event, "") : null;
   } else {
-    // Google Calendar: Delete event
-    const calId = calendarId || "primary";
-    const path = `/calendars/${encodeURIComponent(calId)}/events/${eventId}`;
-    const result = await gcalFetch(token.accessToken, path, {
-      method: "DELETE",
-    });
-
-    return result !== null;
+    const path = `/calendars/primary/events?iCalUID=${encodeURIComponent(uid)}&maxResults=1`;
+    const result = await gcalFetch(token.accessToken, path);
+    const event = result?.items?.[0];
+    return event ? mapGoogleCalendarEvent(event, "primary") : null;
   }
 }
 
@@ -2207,6 +3107,83 @@ export async function getFreeBusyDirect(
   }
 }
 
+/**
+ * Get busy slots for several attendees via Google Calendar freeBusy or
+ * MS Graph getSchedule. Slot times are ISO strings in UTC.
+ *
+ * @param token - Token info
+ * @param emails - Attendee email addresses (include the user's own)
+ * @param timeMin - Start of time range (ISO string)
+ * @param timeMax - End of time range (ISO string)
+ * @returns One entry per email, in the same order
+ */
+export async function getAttendeeFreeBusyDirect(
+  token: TokenInfo,
+  emails: string[],
+  timeMin: string,
+  timeMax: string
+): Promise<AttendeeFreeBusy[]> {
+  if (token.isMicrosoft) {
+    // MS Graph: getSchedule takes wall-clock times in the given zone
+    const toGraphTime = (iso: string) => new Date(iso).toISOString().replace(/Z$/, "");
+    const body = {
+      schedules: emails,
+      startTime: { dateTime: toGraphTime(timeMin), timeZone: "UTC" },
+      endTime: { dateTime: toGraphTime(timeMax), timeZone: "UTC" },
+      availabilityViewInterval: 15,
+    };
+
+    const result = await msgraphFetch(token.accessToken, "/me/calendar/getSchedule", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Prefer: 'outlook.timezone="UTC"' },
+      body: JSON.stringify(body),
+    });
+
+    const schedules: any[] = result?.value || [];
+    return emails.map((email) => {
+      const schedule = schedules.find((s) => s.scheduleId?.toLowerCase() === email.toLowerCase());
+      if (!schedule || schedule.error) {
+        return { email, busy: [], error: schedule?.error?.message || "No schedule returned" };
+      }
+      const hours = schedule.workingHours;
+      return {
+        email,
+        busy: (schedule.scheduleItems || [])
+          .filter((item: any) => item.status !== "free")
+          .map((item: any) => ({
+            start: `${item.start?.dateTime?.replace(/Z$/, "")}Z`,
+            end: `${item.end?.dateTime?.replace(/Z$/, "")}Z`,
+          })),
+        workingHours: hours?.daysOfWeek
+          ? {
+              daysOfWeek: hours.daysOfWeek.map((d: string) => d.toLowerCase()),
+              startTime: hours.startTime,
+              endTime: hours.endTime,
+              timeZone: hours.timeZone?.name || "UTC",
+            }
+          : undefined,
+      };
+    });
+  } else {
+    // Google Calendar: one freeBusy query with a calendar per attendee
+    const result = await gcalFetch(token.accessToken, "/freeBusy", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ timeMin, timeMax, items: emails.map((id) => ({ id })) }),
+    });
+
+    const calendars: Record<string, any> = result?.calendars || {};
+    return emails.map((email) => {
+      const key = Object.keys(calendars).find((id) => id.toLowerCase() === email.toLowerCase());
+      const calendar = key ? calendars[key] : undefined;
+      if (!calendar || calendar.errors?.length) {
+        return { email, busy: [], error: calendar?.errors?.[0]?.reason || "No free/busy returned" };
+      }
+      return { email, busy: (calendar.busy || []).map((slot: any) => ({ start: slot.start, end: slot.end })) };
+    });
+  }
+}
+
 // ============================================================================
 // Direct Send/Draft API Functions
 // ============================================================================
@@ -2219,11 +3196,38 @@ export interface MimeMessageOptions {
   to: string[];
   cc?: string[];
   bcc?: string[];
+  replyTo?: string[];
   subject: string;
   body: string;
   isHtml?: boolean;
   inReplyTo?: string;
   references?: string[];
+  /** Extra headers, e.g. { "X-Campaign": "q3" } */
+  headers?: Record<string, string>;
+  /** Files to attach; entries with a contentId are embedded inline */
+  attachments?: MimeAttachment[];
+}
+
+/**
+ * Build an RFC 2822 MIME message (CRLF line endings, not encoded).
+ * HTML bodies are sent as multipart/alternative with a plain-text part.
+ */
+export function buildRawMimeMessage(options: MimeMessageOptions): string {
+  const isHtml = options.isHtml !== false;
+  return composeMimeMessage({
+    from: options.from,
+    to: options.to,
+    cc: options.cc,
+    bcc: options.bcc,
+    replyTo: options.replyTo,
+    subject: options.subject,
+    html: isHtml ? options.body : undefined,
+    text: isHtml ? undefined : options.body,
+    inReplyTo: options.inReplyTo,
+    references: options.references,
+    headers: options.headers,
+    attachments: options.attachments,
+  });
 }
 
 /**
@@ -2231,60 +3235,7 @@ export interface MimeMessageOptions {
  * This is the format required by Gmail API for sending/creating drafts.
  */
 export function buildMimeMessage(options: MimeMessageOptions): string {
-  const headers: string[] = [
-    "MIME-Version: 1.0",
-    `From: ${options.from}`,
-    `To: ${options.to.join(", ")}`,
-  ];
-
-  if (options.cc && options.cc.length > 0) {
-    headers.push(`Cc: ${options.cc.join(", ")}`);
-  }
-
-  if (options.bcc && options.bcc.length > 0) {
-    headers.push(`Bcc: ${options.bcc.join(", ")}`);
-  }
-
-  headers.push(`Subject: ${options.subject}`);
-
-  // Content type based on whether body is HTML
-  if (options.isHtml !== false) {
-    headers.push("Content-Type: text/html; charset=utf-8");
-  } else {
-    headers.push("Content-Type: text/plain; charset=utf-8");
-  }
-
-  // Add threading headers for replies
-  if (options.inReplyTo) {
-    // Ensure Message-ID format with angle brackets
-    const formattedReplyTo = options.inReplyTo.startsWith("<")
-      ? options.inReplyTo
-      : `<${options.inReplyTo}>`;
-    headers.push(`In-Reply-To: ${formattedReplyTo}`);
-  }
-
-  if (options.references && options.references.length > 0) {
-    // Format references with angle brackets if needed
-    const formattedRefs = options.references
-      .map((r) => (r.startsWith("<") ? r : `<${r}>`))
-      .join(" ");
-    headers.push(`References: ${formattedRefs}`);
-  }
-
-  // Add empty line separator and body
-  headers.push("");
-  headers.push(options.body);
-
-  const rawEmail = headers.join("\r\n");
-
-  // Base64url encode the email
-  const base64Email = Buffer.from(rawEmail)
-    .toString("base64")
-    .replace(/\+/g, "-")
-    .replace(/\//g, "_")
-    .replace(/=+$/, "");
-
-  return base64Email;
+  return toBase64Url(buildRawMimeMessage(options));
 }
 
 /**
@@ -2294,12 +3245,15 @@ export interface SendEmailDirectOptions {
   to: string[];
   cc?: string[];
   bcc?: string[];
+  replyTo?: string[];
   subject: string;
   body: string;
   isHtml?: boolean;
   threadId?: string;
   inReplyTo?: string;
   references?: string[];
+  headers?: Record<string, string>;
+  attachments?: MimeAttachment[];
 }
 
 /**
@@ -2570,6 +3524,245 @@ export async function listDraftsDirect(
   }
 }
 
+// ============================================================================
+// Message Upload Helpers
+// ============================================================================
+
+const GMAIL_UPLOAD_BASE = "https://www.googleapis.com/upload/gmail/v1/users/me";
+
+/** Encoded messages larger than this go through Gmail's resumable upload */
+const GMAIL_SIMPLE_UPLOAD_LIMIT = 5 * 1024 * 1024;
+
+/** MS Graph caps request bodies at 4 MB; bigger attachments use upload sessions */
+const MSGRAPH_INLINE_ATTACHMENT_LIMIT = 3 * 1024 * 1024;
+
+/** Upload session chunk size (MS Graph requires a multiple of 320 KiB) */
+const MSGRAPH_UPLOAD_CHUNK_SIZE = 320 * 1024 * 10;
+
+/**
+ * Upload a raw RFC 2822 message through Gmail's resumable media upload.
+ *
+ * @param accessToken - OAuth access token
+ * @param path - "/messages/send" or "/drafts"
+ * @param raw - Raw message (not base64 encoded)
+ * @param metadata - Resource metadata sent with the session (e.g. threadId)
+ * @returns Response JSON or null on 401 unauthorized
+ */
+async function gmailResumableUpload(
+  accessToken: string,
+  path: string,
+  raw: string,
+  metadata: Record<string, unknown>
+): Promise<any | null> {
+  const bytes = Buffer.from(raw);
+
+  const session = await apiFetch("gmail", `${GMAIL_UPLOAD_BASE}${path}?uploadType=resumable`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json; charset=UTF-8",
+      "X-Upload-Content-Type": "message/rfc822",
+      "X-Upload-Content-Length": String(bytes.length),
+    },
+    body: JSON.stringify(metadata),
+  });
+
+  if (session.status === 401) return null;
+  if (!session.ok) {
+    throw await toApiError("gmail", session);
+  }
+
+  const uploadUrl = session.headers.get("Location");
+  if (!uploadUrl) {
+    throw new Error("Gmail resumable upload did not return a session URL");
+  }
+
+  const upload = await apiFetch("gmail", uploadUrl, {
+    method: "PUT",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "message/rfc822",
+    },
+    body: bytes,
+  });
+
+  if (upload.status === 401) return null;
+  if (!upload.ok) {
+    throw await toApiError("gmail", upload);
+  }
+
+  return upload.json();
+}
+
+/**
+ * Send a message or create a draft through Gmail.
+ * Small messages use the JSON "raw" field; large ones use resumable upload.
+ *
+ * @param token - Token info
+ * @param kind - "send" for /messages/send, "draft" for /drafts
+ * @param options - Email options
+ * @returns Response JSON (Message or Draft) or null on 401 unauthorized
+ */
+async function gmailPostMessage(
+  token: TokenInfo,
+  kind: "send" | "draft",
+  options: SendEmailDirectOptions
+): Promise<any | null> {
+  const raw = buildRawMimeMessage({
+    from: token.email,
+    to: options.to,
+    cc: options.cc,
+    bcc: options.bcc,
+    replyTo: options.replyTo,
+    subject: options.subject,
+    body: options.body,
+    isHtml: options.isHtml,
+    inReplyTo: options.inReplyTo,
+    references: options.references,
+    headers: options.headers,
+    attachments: options.attachments,
+  });
+
+  const path = kind === "send" ? "/messages/send" : "/drafts";
+  const threadRef = options.threadId ? { threadId: options.threadId } : {};
+  const encoded = toBase64Url(raw);
+
+  if (encoded.length > GMAIL_SIMPLE_UPLOAD_LIMIT) {
+    return gmailResumableUpload(token.accessToken, path, raw, kind === "send" ? threadRef : { message: threadRef });
+  }
+
+  const payload = kind === "send"
+    ? { raw: encoded, ...threadRef }
+    : { message: { raw: encoded, ...threadRef } };
+
+  return gmailFetch(token.accessToken, path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+}
+
+function toMsgraphRecipients(emails: string[]): Array<{ emailAddress: { address: string } }> {
+  return emails.map((email) => ({ emailAddress: { address: email } }));
+}
+
+/**
+ * Build an MS Graph message resource (attachments are added separately).
+ * MS Graph only accepts custom internet headers starting with "X-".
+ */
+function buildMsgraphMessage(options: SendEmailDirectOptions): Record<string, unknown> {
+  const message: Record<string, unknown> = {
+    subject: options.subject,
+    body: {
+      contentType: options.isHtml !== false ? "HTML" : "Text",
+      content: options.body,
+    },
+    toRecipients: toMsgraphRecipients(options.to),
+  };
+
+  if (options.cc && options.cc.length > 0) {
+    message.ccRecipients = toMsgraphRecipients(options.cc);
+  }
+
+  if (options.bcc && options.bcc.length > 0) {
+    message.bccRecipients = toMsgraphRecipients(options.bcc);
+  }
+
+  if (options.replyTo && options.replyTo.length > 0) {
+    message.replyTo = toMsgraphRecipients(options.replyTo);
+  }
+
+  const headers = Object.entries(options.headers || {});
+  if (headers.length > 0) {
+    const invalid = headers.find(([name]) => !/^x-/i.test(name));
+    if (invalid) {
+      throw new Error(`MS Graph only supports custom headers starting with X- (got ${invalid[0]})`);
+    }
+    message.internetMessageHeaders = headers.map(([name, value]) => ({ name, value }));
+  }
+
+  return message;
+}
+
+/**
+ * Attach files to an MS Graph draft.
+ * Small files are posted directly; large ones go through an upload session.
+ *
+ * @param token - Token info
+ * @param messageId - Draft message ID
+ * @param attachments - Files to attach
+ */
+export async function addMsgraphAttachments(
+  token: TokenInfo,
+  messageId: string,
+  attachments: MimeAttachment[]
+): Promise<void> {
+  let inlineBytes = 0;
+
+  for (const att of attachments) {
+    const size = att.data.byteLength;
+    const isInline = att.inline || !!att.contentId;
+
+    if (inlineBytes + size <= MSGRAPH_INLINE_ATTACHMENT_LIMIT) {
+      inlineBytes += size;
+      const result = await msgraphFetch(token.accessToken, `/me/messages/${messageId}/attachments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          "@odata.type": "#microsoft.graph.fileAttachment",
+          name: att.filename,
+          contentType: att.contentType || "application/octet-stream",
+          contentBytes: Buffer.from(att.data).toString("base64"),
+          isInline,
+          ...(att.contentId ? { contentId: att.contentId } : {}),
+        }),
+      });
+      if (!result) {
+        throw new Error(`Failed to attach ${att.filename}`);
+      }
+      continue;
+    }
+
+    const session = await msgraphFetch(
+      token.accessToken,
+      `/me/messages/${messageId}/attachments/createUploadSession`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          AttachmentItem: {
+            attachmentType: "file",
+            name: att.filename,
+            size,
+            contentType: att.contentType || "application/octet-stream",
+            isInline,
+            ...(att.contentId ? { contentId: att.contentId } : {}),
+          },
+        }),
+      }
+    );
+    if (!session?.uploadUrl) {
+      throw new Error(`Failed to start upload session for ${att.filename}`);
+    }
+
+    // The upload URL is pre-authorized; sending a bearer token makes it fail
+    for (let start = 0; start < size; start += MSGRAPH_UPLOAD_CHUNK_SIZE) {
+      const end = Math.min(start + MSGRAPH_UPLOAD_CHUNK_SIZE, size);
+      const response = await apiFetch("msgraph", session.uploadUrl, {
+        method: "PUT",
+        headers: {
+          "Content-Length": String(end - start),
+          "Content-Range": `bytes ${start}-${end - 1}/${size}`,
+        },
+        body: att.data.slice(start, end),
+      });
+      if (!response.ok) {
+        throw await toApiError("msgraph", response);
+      }
+    }
+  }
+}
+
 /**
  * Create a draft via direct Gmail/MS Graph API.
  *
@@ -2583,70 +3776,26 @@ export async function createDraftDirect(
 ): Promise<{ draftId: string; messageId?: string } | null> {
   if (token.isMicrosoft) {
     // MS Graph: POST /me/messages (creates draft in Drafts folder)
-    const message: Record<string, unknown> = {
-      subject: options.subject,
-      body: {
-        contentType: options.isHtml !== false ? "HTML" : "Text",
-        content: options.body,
-      },
-      toRecipients: options.to.map((email) => ({
-        emailAddress: { address: email },
-      })),
-    };
-
-    if (options.cc && options.cc.length > 0) {
-      message.ccRecipients = options.cc.map((email) => ({
-        emailAddress: { address: email },
-      }));
-    }
-
-    if (options.bcc && options.bcc.length > 0) {
-      message.bccRecipients = options.bcc.map((email) => ({
-        emailAddress: { address: email },
-      }));
-    }
-
     // Note: MS Graph doesn't support custom In-Reply-To/References headers
     // Threading is handled by conversationId automatically
-
     const result = await msgraphFetch(token.accessToken, "/me/messages", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(message),
+      body: JSON.stringify(buildMsgraphMessage(options)),
     });
 
     if (!result || !result.id) {
       return null;
     }
 
+    if (options.attachments && options.attachments.length > 0) {
+      await addMsgraphAttachments(token, result.id, options.attachments);
+    }
+
     return { draftId: result.id, messageId: result.id };
   } else {
     // Gmail: POST /drafts with raw MIME message
-    const mimeMessage = buildMimeMessage({
-      from: token.email,
-      to: options.to,
-      cc: options.cc,
-      bcc: options.bcc,
-      subject: options.subject,
-      body: options.body,
-      isHtml: options.isHtml,
-      inReplyTo: options.inReplyTo,
-      references: options.references,
-    });
-
-    const payload: Record<string, unknown> = {
-      message: { raw: mimeMessage },
-    };
-
-    if (options.threadId) {
-      (payload.message as Record<string, unknown>).threadId = options.threadId;
-    }
-
-    const result = await gmailFetch(token.accessToken, "/drafts", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
-    });
+    const result = await gmailPostMessage(token, "draft", options);
 
     if (!result || !result.id) {
       return null;
@@ -2668,37 +3817,33 @@ export async function sendEmailDirect(
   options: SendEmailDirectOptions
 ): Promise<{ messageId: string; threadId?: string } | null> {
   if (token.isMicrosoft) {
-    // MS Graph: POST /me/sendMail
-    const message: Record<string, unknown> = {
-      subject: options.subject,
-      body: {
-        contentType: options.isHtml !== false ? "HTML" : "Text",
-        content: options.body,
-      },
-      toRecipients: options.to.map((email) => ({
-        emailAddress: { address: email },
-      })),
-    };
+    // MS Graph: attachments can exceed sendMail's request limit, so
+    // messages with files are built as a draft and then sent
+    if (options.attachments && options.attachments.length > 0) {
+      const draft = await createDraftDirect(token, options);
+      if (!draft) {
+        return null;
+      }
 
-    if (options.cc && options.cc.length > 0) {
-      message.ccRecipients = options.cc.map((email) => ({
-        emailAddress: { address: email },
-      }));
-    }
+      const response = await apiFetch("msgraph", `${MSGRAPH_API_BASE}/me/messages/${draft.draftId}/send`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token.accessToken}` },
+      });
 
-    if (options.bcc && options.bcc.length > 0) {
-      message.bccRecipients = options.bcc.map((email) => ({
-        emailAddress: { address: email },
-      }));
+      if (response.status === 202 || response.ok) {
+        return { messageId: draft.draftId, threadId: options.threadId };
+      }
+      return null;
     }
 
-    const response = await fetch(`${MSGRAPH_API_BASE}/me/sendMail`, {
+    // MS Graph: POST /me/sendMail
+    const response = await apiFetch("msgraph", `${MSGRAPH_API_BASE}/me/sendMail`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${token.accessToken}`,
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ message }),
+      body: JSON.stringify({ message: buildMsgraphMessage(options) }),
     });
 
     // sendMail returns 202 Accepted with no body on success
@@ -2709,29 +3854,7 @@ export async function sendEmailDirect(
     return null;
   } else {
     // Gmail: POST /messages/send with raw MIME message
-    const mimeMessage = buildMimeMessage({
-      from: token.email,
-      to: options.to,
-      cc: options.cc,
-      bcc: options.bcc,
-      subject: options.subject,
-      body: options.body,
-      isHtml: options.isHtml,
-      inReplyTo: options.inReplyTo,
-      references: options.references,
-    });
-
-    const payload: Record<string, unknown> = { raw: mimeMessage };
-
-    if (options.threadId) {
-      payload.threadId = options.threadId;
-    }
-
-    const result = await gmailFetch(token.accessToken, "/messages/send", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
-    });
+    const result = await gmailPostMessage(token, "send", options);
 
     if (!result || !result.id) {
       return null;
@@ -2760,6 +3883,7 @@ export async function createReplyDraftDirect(
     cc?: string[];
     bcc?: string[];
     isHtml?: boolean;
+    attachments?: MimeAttachment[];
   }
 ): Promise<{ draftId: string; messageId?: string } | null> {
   if (token.isMicrosoft) {
@@ -2813,6 +3937,10 @@ export async function createReplyDraftDirect(
       body: JSON.stringify(patchBody),
     });
 
+    if (options?.attachments && options.attachments.length > 0) {
+      await addMsgraphAttachments(token, draftResult.id, options.attachments);
+    }
+
     return { draftId: draftResult.id, messageId: draftResult.id };
   } else {
     // Gmail: Get thread info and create draft with threading headers
@@ -2866,6 +3994,7 @@ export async function createReplyDraftDirect(
       threadId,
       inReplyTo: threadInfo.messageId || undefined,
       references: threadInfo.references,
+      attachments: options?.attachments,
     });
   }
 }
@@ -2889,6 +4018,7 @@ export async function sendReplyDirect(
     cc?: string[];
     bcc?: string[];
     isHtml?: boolean;
+    attachments?: MimeAttachment[];
   }
 ): Promise<{ messageId: string; threadId?: string } | null> {
   if (token.isMicrosoft) {
@@ -2900,7 +4030,7 @@ export async function sendReplyDirect(
 
     // Send the draft
     const sendPath = `/me/messages/${draftResult.draftId}/send`;
-    const response = await fetch(`${MSGRAPH_API_BASE}${sendPath}`, {
+    const response = await apiFetch("msgraph", `${MSGRAPH_API_BASE}${sendPath}`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${token.accessToken}`,
@@ -2962,6 +4092,7 @@ export async function sendReplyDirect(
       threadId,
       inReplyTo: threadInfo.messageId || undefined,
       references: threadInfo.references,
+      attachments: options?.attachments,
     });
   }
 }
@@ -3080,7 +4211,8 @@ export async function updateDraftDirect(
       (payload.message as Record<string, unknown>).threadId = existing.message.threadId;
     }
 
-    const result = await fetch(
+    const result = await apiFetch(
+      "gmail",
       `https://www.googleapis.com/gmail/v1/users/me/drafts/${draftId}`,
       {
         method: "PUT",
@@ -3111,7 +4243,7 @@ export async function deleteDraftDirect(
 ): Promise<boolean> {
   if (token.isMicrosoft) {
     // MS Graph: DELETE /me/messages/{id}
-    const response = await fetch(`${MSGRAPH_API_BASE}/me/messages/${draftId}`, {
+    const response = await apiFetch("msgraph", `${MSGRAPH_API_BASE}/me/messages/${draftId}`, {
       method: "DELETE",
       headers: {
         Authorization: `Bearer ${token.accessToken}`,
@@ -3121,7 +4253,7 @@ export async function deleteDraftDirect(
     return response.status === 204 || response.ok;
   } else {
     // Gmail: DELETE /drafts/{id}
-    const response = await fetch(`${GMAIL_API_BASE}/drafts/${draftId}`, {
+    const response = await apiFetch("gmail", `${GMAIL_API_BASE}/drafts/${draftId}`, {
       method: "DELETE",
       headers: {
         Authorization: `Bearer ${token.accessToken}`,
@@ -3145,7 +4277,7 @@ export async function sendDraftDirect(
 ): Promise<{ messageId: string; threadId?: string } | null> {
   if (token.isMicrosoft) {
     // MS Graph: POST /me/messages/{id}/send
-    const response = await fetch(`${MSGRAPH_API_BASE}/me/messages/${draftId}/send`, {
+    const response = await apiFetch("msgraph", `${MSGRAPH_API_BASE}/me/messages/${draftId}/send`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${token.accessToken}`,
@@ -3332,7 +4464,7 @@ export async function superhumanFetch(
 ): Promise<any | null> {
   const url = `${SUPERHUMAN_BACKEND_BASE}${path}`;
 
-  const response = await fetch(url, {
+  const response = await apiFetch("superhuman", url, {
     ...options,
     headers: {
       ...options?.headers,
@@ -3346,8 +4478,7 @@ export async function superhumanFetch(
   }
 
   if (!response.ok) {
-    const errorText = await response.text().catch(() => "Unknown error");
-    throw new Error(`Superhuman API error: ${response.status} ${response.statusText} - ${errorText}`);
+    throw await toApiError("superhuman", response);
   }
 
   // Some endpoints return empty response
@@ -3550,20 +4681,8 @@ async function getThreadMessagesMsGraph(
   token: TokenInfo,
   threadId: string
 ): Promise<FullThreadMessage[]> {
-  // The $filter on conversationId at /me/messages level returns "InefficientFilter",
-  // so we fetch recent messages and filter client-side by conversationId.
   const selectFields = "id,subject,body,conversationId,receivedDateTime,from,toRecipients,ccRecipients,bodyPreview";
-  const recentPath = `/me/messages?$select=${selectFields}&$top=50&$orderby=receivedDateTime desc`;
-  const recentResult = await msgraphFetch(token.accessToken, recentPath);
-
-  let messages: any[] = [];
-  if (recentResult?.value) {
-    messages = recentResult.value.filter((m: any) => m.conversationId === threadId);
-    // Sort oldest first for thread context
-    messages.sort((a: any, b: any) =>
-      new Date(a.receivedDateTime).getTime() - new Date(b.receivedDateTime).getTime()
-    );
-  }
+  let messages = await listConversationMessagesMsGraph(token, threadId, selectFields);
 
   // Fallback: if threadId is actually a message ID, fetch it directly
   if (messages.length === 0) {
@@ -3713,7 +4832,7 @@ export async function askAI(
 
   const url = `${SUPERHUMAN_BACKEND_BASE}/v3/ai.compose`;
 
-  const fetchResponse = await fetch(url, {
+  const fetchResponse = await apiFetch("superhuman", url, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${superhumanToken}`,
@@ -3878,7 +4997,7 @@ export async function askAISearch(
 
   const url = `${SUPERHUMAN_BACKEND_BASE}/v3/ai.askAIProxy`;
 
-  const fetchResponse = await fetch(url, {
+  const fetchResponse = await apiFetch("superhuman", url, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${superhumanToken}`,
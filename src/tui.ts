@@ -0,0 +1,573 @@
+/**
+ * TUI Module
+ *
+ * Keyboard-driven inbox for the terminal (`superhuman tui`): a thread list,
+ * a reading pane and Superhuman-style shortcuts. Built on the same
+ * inbox/read/archive/snooze/reply/labels functions as the one-shot commands,
+ * with one CachedTokenProvider per account from tokens.json.
+ *
+ * The screen is redrawn from a TuiState after every key. Key handling
+ * (handleKey) and drawing (renderScreen) don't touch the terminal, so both
+ * can be driven from tests; runTui wires them to stdin/stdout.
+ */
+
+import { CachedTokenProvider } from "./connection-provider";
+import type { ConnectionProvider } from "./connection-provider";
+import { listInbox, type InboxThread } from "./inbox";
+import { readThread, type ThreadMessage } from "./read";
+import { archiveThread } from "./archive";
+import { parseSnoozeTime, snoozeThreadViaProvider } from "./snooze";
+import { replyToThread } from "./reply";
+import { addLabel, resolveLabel, starThread, unstarThread } from "./labels";
+import { withUndo, type OperationKind } from "./history";
+import { renderMessageBody } from "./render";
+
+export interface TuiActionResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Mail operations the TUI performs, per account email.
+ */
+export interface TuiActions {
+  listInbox(account: string, limit: number): Promise<InboxThread[]>;
+  readThread(account: string, threadId: string): Promise<ThreadMessage[]>;
+  archive(account: string, threadId: string): Promise<TuiActionResult>;
+  snooze(account: string, threadId: string, until: Date): Promise<TuiActionResult>;
+  reply(account: string, threadId: string, body: string): Promise<TuiActionResult>;
+  label(account: string, threadId: string, label: string): Promise<TuiActionResult>;
+  star(account: string, threadId: string, starred: boolean): Promise<TuiActionResult>;
+}
+
+export type TuiPromptKind = "snooze" | "reply" | "label";
+
+export interface TuiState {
+  accounts: string[];
+  /** Index into accounts */
+  account: number;
+  threads: InboxThread[];
+  /** Index into threads */
+  selected: number;
+  /** Loaded messages by thread ID */
+  messages: Map<string, ThreadMessage[]>;
+  /** Reading pane scroll offset in lines */
+  scroll: number;
+  prompt: { kind: TuiPromptKind; input: string } | null;
+  status: string;
+  showHelp: boolean;
+  quit: boolean;
+}
+
+export interface TuiOptions {
+  /** Accounts to switch between (from tokens.json) */
+  accounts: string[];
+  /** Account to start with (default: the first) */
+  account?: string;
+  /** Threads to load per inbox (default: 50) */
+  limit?: number;
+  /** Override the mail operations (tests) */
+  actions?: TuiActions;
+}
+
+const DEFAULT_LIMIT = 50;
+
+const PROMPTS: Record<TuiPromptKind, string> = {
+  snooze: "Snooze until (tomorrow, evening, weekend, next-week or ISO time):",
+  reply: "Reply (Enter sends):",
+  label: "Label (name, path or ID):",
+};
+
+const HELP =
+  "j/k move  space/b scroll  e archive  h snooze  r reply  l label  s star  tab account  g refresh  ? help  q quit";
+
+const KEYS = {
+  up: "\x1b[A",
+  down: "\x1b[B",
+  pageUp: "\x1b[5~",
+  pageDown: "\x1b[6~",
+  enter: "\r",
+  escape: "\x1b",
+  backspace: "\x7f",
+  tab: "\t",
+  ctrlC: "\x03",
+};
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/**
+ * Default TUI actions, backed by cached tokens. Archive, snooze, label and
+ * star are recorded in the operation log so `superhuman undo` can revert them.
+ */
+export function createTuiActions(): TuiActions {
+  const providers = new Map<string, ConnectionProvider>();
+  const provider = (account: string): ConnectionProvider => {
+    let existing = providers.get(account);
+    if (!existing) {
+      existing = new CachedTokenProvider(account);
+      providers.set(account, existing);
+    }
+    return existing;
+  };
+
+  /**
+   * Run an operation with undo logging. Failing to log it doesn't block
+   * the operation.
+   */
+  async function logged(
+    account: string,
+    kind: OperationKind,
+    threadId: string,
+    run: () => Promise<TuiActionResult>,
+    labelId?: string
+  ): Promise<TuiActionResult> {
+    const { result } = await withUndo(provider(account), kind, [threadId], async () => {
+      const result = await run();
+      return { result, done: result.success ? [threadId] : [], labelId };
+    });
+    return result;
+  }
+
+  return {
+    listInbox: (account, limit) => listInbox(provider(account), { limit }),
+    readThread: (account, threadId) => readThread(provider(account), threadId),
+    archive: (account, threadId) =>
+      logged(account, "archive", threadId, () => archiveThread(provider(account), threadId)),
+    snooze: (account, threadId, until) =>
+      logged(account, "snooze", threadId, async () => {
+        const [result] = await snoozeThreadViaProvider(provider(account), [threadId], until);
+        return result ?? { success: false, error: "Snooze failed" };
+      }),
+    reply: (account, threadId, body) => replyToThread(provider(account), threadId, body, true),
+    label: async (account, threadId, label) => {
+      const resolved = await resolveLabel(provider(account), label);
+      if (!resolved.label) {
+        return { success: false, error: resolved.error };
+      }
+      const labelId = resolved.label.id;
+      return logged(account, "label", threadId, () => addLabel(provider(account), threadId, labelId), labelId);
+    },
+    star: (account, threadId, starred) =>
+      logged(account, starred ? "star" : "unstar", threadId, () =>
+        starred ? starThread(provider(account), threadId) : unstarThread(provider(account), threadId)
+      ),
+  };
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+/**
+ * Create the initial TUI state.
+ *
+ * @param accounts - Accounts to switch between
+ * @param account - Account to start with (default: the first)
+ */
+export function createTuiState(accounts: string[], account?: string): TuiState {
+  return {
+    accounts,
+    account: Math.max(0, account ? accounts.indexOf(account) : 0),
+    threads: [],
+    selected: 0,
+    messages: new Map(),
+    scroll: 0,
+    prompt: null,
+    status: "",
+    showHelp: false,
+    quit: false,
+  };
+}
+
+function currentAccount(state: TuiState): string {
+  return state.accounts[state.account]!;
+}
+
+function selectedThread(state: TuiState): InboxThread | undefined {
+  return state.threads[state.selected];
+}
+
+/**
+ * Load the inbox of the current account.
+ */
+export async function loadInbox(state: TuiState, actions: TuiActions, limit: number = DEFAULT_LIMIT): Promise<void> {
+  state.status = `Loading ${currentAccount(state)}...`;
+  try {
+    state.threads = await actions.listInbox(currentAccount(state), limit);
+    state.selected = Math.min(state.selected, Math.max(state.threads.length - 1, 0));
+    state.messages.clear();
+    state.scroll = 0;
+    state.status = `${state.threads.length} threads`;
+  } catch (e: any) {
+    state.threads = [];
+    state.status = `Failed to load inbox: ${e.message || "Unknown error"}`;
+  }
+}
+
+/**
+ * Load the selected thread into the reading pane, if it isn't loaded yet.
+ */
+export async function loadSelectedThread(state: TuiState, actions: TuiActions): Promise<void> {
+  const thread = selectedThread(state);
+  if (!thread || state.messages.has(thread.id)) return;
+
+  try {
+    state.messages.set(thread.id, await actions.readThread(currentAccount(state), thread.id));
+  } catch (e: any) {
+    state.status = `Failed to read thread: ${e.message || "Unknown error"}`;
+  }
+}
+
+/**
+ * Drop a thread that left the inbox (archived, snoozed) and keep the
+ * selection on the next one.
+ */
+function removeSelected(state: TuiState): void {
+  const thread = selectedThread(state);
+  if (!thread) return;
+  state.threads.splice(state.selected, 1);
+  state.messages.delete(thread.id);
+  state.selected = Math.min(state.selected, Math.max(state.threads.length - 1, 0));
+  state.scroll = 0;
+}
+
+function select(state: TuiState, index: number): void {
+  const next = Math.min(Math.max(index, 0), Math.max(state.threads.length - 1, 0));
+  if (next !== state.selected) {
+    state.selected = next;
+    state.scroll = 0;
+  }
+}
+
+async function submitPrompt(state: TuiState, actions: TuiActions): Promise<void> {
+  const prompt = state.prompt!;
+  const thread = selectedThread(state);
+  const input = prompt.input.trim();
+  state.prompt = null;
+  if (!thread || !input) return;
+
+  const account = currentAccount(state);
+  let result: TuiActionResult = { success: true };
+  try {
+    switch (prompt.kind) {
+      case "snooze": {
+        const until = parseSnoozeTime(input);
+        result = await actions.snooze(account, thread.id, until);
+        if (result.success) {
+          removeSelected(state);
+          state.status = `Snoozed until ${until.toLocaleString()}`;
+        }
+        break;
+      }
+      case "reply":
+        result = await actions.reply(account, thread.id, input);
+        if (result.success) {
+          state.messages.delete(thread.id);
+          state.status = "Reply sent";
+        }
+        break;
+      case "label":
+        result = await actions.label(account, thread.id, input);
+        if (result.success) state.status = `Labeled ${input}`;
+        break;
+    }
+  } catch (e: any) {
+    result = { success: false, error: e.message || "Unknown error" };
+  }
+
+  if (!result.success) {
+    state.status = `Failed to ${prompt.kind}: ${result.error || "Unknown error"}`;
+  }
+}
+
+/**
+ * Apply one key press to the state, running mail operations as needed.
+ *
+ * @param state - TUI state (mutated)
+ * @param key - A key as read from a raw-mode terminal ("j", "\x1b[A", "\r", ...)
+ * @param actions - Mail operations
+ * @param limit - Threads to load when the inbox is refreshed
+ */
+export async function handleKey(
+  state: TuiState,
+  key: string,
+  actions: TuiActions,
+  limit: number = DEFAULT_LIMIT
+): Promise<void> {
+  if (key === KEYS.ctrlC) {
+    state.quit = true;
+    return;
+  }
+
+  if (state.prompt) {
+    if (key === KEYS.escape) {
+      state.prompt = null;
+      state.status = "Cancelled";
+    } else if (key === KEYS.enter) {
+      await submitPrompt(state, actions);
+    } else if (key === KEYS.backspace || key === "\b") {
+      state.prompt.input = state.prompt.input.slice(0, -1);
+    } else if (!key.startsWith("\x1b") && key >= " ") {
+      state.prompt.input += key;
+    }
+    return;
+  }
+
+  const thread = selectedThread(state);
+  switch (key) {
+    case "q":
+      state.quit = true;
+      break;
+    case "j":
+    case KEYS.down:
+      select(state, state.selected + 1);
+      break;
+    case "k":
+    case KEYS.up:
+      select(state, state.selected - 1);
+      break;
+    case " ":
+    case KEYS.pageDown:
+      state.scroll += 10;
+      break;
+    case "b":
+    case KEYS.pageUp:
+      state.scroll = Math.max(0, state.scroll - 10);
+      break;
+    case "?":
+      state.showHelp = !state.showHelp;
+      break;
+    case "g":
+      await loadInbox(state, actions, limit);
+      break;
+    case KEYS.tab:
+      if (state.accounts.length > 1) {
+        state.account = (state.account + 1) % state.accounts.length;
+        state.selected = 0;
+        await loadInbox(state, actions, limit);
+      } else {
+        state.status = "Only one account in tokens.json";
+      }
+      break;
+    case "e": {
+      if (!thread) break;
+      const result = await actions.archive(currentAccount(state), thread.id);
+      if (result.success) {
+        removeSelected(state);
+        state.status = "Archived";
+      } else {
+        state.status = `Failed to archive: ${result.error || "Unknown error"}`;
+      }
+      break;
+    }
+    case "s": {
+      if (!thread) break;
+      await loadSelectedThread(state, actions);
+      const starred = (state.messages.get(thread.id) || []).some((m) => m.flagged);
+      const result = await actions.star(currentAccount(state), thread.id, !starred);
+      if (result.success) {
+        state.messages.delete(thread.id);
+        state.status = starred ? "Unstarred" : "Starred";
+      } else {
+        state.status = `Failed to ${starred ? "unstar" : "star"}: ${result.error || "Unknown error"}`;
+      }
+      break;
+    }
+    case "h":
+    case "r":
+    case "l":
+      if (thread) {
+        state.prompt = { kind: key === "h" ? "snooze" : key === "r" ? "reply" : "label", input: "" };
+      }
+      break;
+  }
+}
+
+// ============================================================================
+// Drawing
+// ============================================================================
+
+const ANSI = {
+  reset: "\x1b[0m",
+  bold: "\x1b[1m",
+  dim: "\x1b[2m",
+  inverse: "\x1b[7m",
+  cyan: "\x1b[36m",
+};
+
+/**
+ * Truncate or pad plain text to exactly `width` columns.
+ */
+function fit(text: string, width: number): string {
+  const flat = text.replace(/[\r\n\t]+/g, " ");
+  if (width <= 0) return "";
+  return flat.length > width ? `${flat.slice(0, width - 1)}…` : flat.padEnd(width);
+}
+
+function formatListDate(date: string): string {
+  const parsed = new Date(date);
+  if (isNaN(parsed.getTime())) return "";
+  const now = new Date();
+  return parsed.toDateString() === now.toDateString()
+    ? parsed.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })
+    : parsed.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+function listLines(state: TuiState, width: number, height: number): string[] {
+  if (state.threads.length === 0) {
+    return [fit(" Inbox zero", width)];
+  }
+
+  // Keep the selection visible
+  const first = Math.max(0, Math.min(state.selected - Math.floor(height / 2), state.threads.length - height));
+  return state.threads.slice(first, first + height).map((thread, i) => {
+    const unread = thread.labelIds.includes("UNREAD");
+    const date = formatListDate(thread.date).padStart(7);
+    const from = fit(thread.from.name || thread.from.email, 16);
+    const line = fit(`${unread ? "●" : " "} ${from} ${fit(thread.subject, Math.max(width - 28, 0))}${date}`, width);
+    if (first + i === state.selected) return `${ANSI.inverse}${line}${ANSI.reset}`;
+    return unread ? `${ANSI.bold}${line}${ANSI.reset}` : line;
+  });
+}
+
+function readingLines(state: TuiState, width: number): string[] {
+  const thread = selectedThread(state);
+  if (!thread) return [];
+  const messages = state.messages.get(thread.id);
+  if (!messages) return [`${ANSI.dim}Loading...${ANSI.reset}`];
+
+  const lines: string[] = [`${ANSI.bold}${fit(thread.subject, width).trimEnd()}${ANSI.reset}`, ""];
+  for (const message of messages) {
+    const from = message.from.name ? `${message.from.name} <${message.from.email}>` : message.from.email;
+    lines.push(`${ANSI.cyan}${fit(from, width - 20).trimEnd()}${ANSI.reset}  ${ANSI.dim}${new Date(message.date).toLocaleString()}${ANSI.reset}`);
+    const body = renderMessageBody(message, "text", { width }) || message.snippet;
+    lines.push("", ...body.split("\n").map((line) => fit(line, width).trimEnd()));
+    const files = message.attachments.filter((a) => !a.inline).map((a) => a.filename);
+    if (files.length > 0) {
+      lines.push("", `${ANSI.dim}${fit(`Attachments: ${files.join(", ")}`, width).trimEnd()}${ANSI.reset}`);
+    }
+    lines.push(`${ANSI.dim}${"─".repeat(width)}${ANSI.reset}`);
+  }
+  return lines;
+}
+
+/**
+ * Draw the screen for a state: header, thread list, reading pane and a
+ * status/prompt line.
+ *
+ * @param state - TUI state
+ * @param width - Terminal columns
+ * @param height - Terminal rows
+ * @returns One string per terminal row (may contain ANSI styling)
+ */
+export function renderScreen(state: TuiState, width: number, height: number): string[] {
+  const bodyHeight = Math.max(height - 2, 1);
+  const listWidth = Math.min(Math.max(Math.floor(width * 0.4), 30), 60);
+  const paneWidth = Math.max(width - listWidth - 3, 10);
+
+  const accountInfo = state.accounts.length > 1 ? ` [${state.account + 1}/${state.accounts.length}]` : "";
+  const header = `${ANSI.inverse}${fit(` superhuman  ${currentAccount(state)}${accountInfo}`, width)}${ANSI.reset}`;
+
+  const list = listLines(state, listWidth, bodyHeight);
+  const reading = readingLines(state, paneWidth);
+  state.scroll = Math.min(state.scroll, Math.max(reading.length - bodyHeight, 0));
+  const pane = reading.slice(state.scroll, state.scroll + bodyHeight);
+
+  const rows: string[] = [header];
+  for (let i = 0; i < bodyHeight; i++) {
+    rows.push(`${list[i] ?? " ".repeat(listWidth)} ${ANSI.dim}│${ANSI.reset} ${pane[i] ?? ""}`);
+  }
+
+  if (state.prompt) {
+    // Show the end of long input, where the cursor is
+    const line = `${PROMPTS[state.prompt.kind]} ${state.prompt.input}`.replace(/[\r\n\t]+/g, " ");
+    rows.push(`${line.slice(-(width - 1))}█`);
+  } else {
+    rows.push(`${ANSI.dim}${fit(state.showHelp || !state.status ? HELP : `${state.status}   (? for keys)`, width)}${ANSI.reset}`);
+  }
+  return rows;
+}
+
+// ============================================================================
+// Terminal
+// ============================================================================
+
+/**
+ * Split raw terminal input into keys (escape sequences stay whole).
+ */
+export function splitKeys(input: string): string[] {
+  return input.match(/\x1b\[[0-9;]*[A-Za-z~]|\x1bO[A-Za-z]|[\s\S]/gu) || [];
+}
+
+/**
+ * Run the TUI until the user quits.
+ *
+ * @param options - Accounts, starting account and inbox size
+ */
+export async function runTui(options: TuiOptions): Promise<void> {
+  const { stdin, stdout } = process;
+  if (!stdin.isTTY || !stdout.isTTY) {
+    throw new Error("superhuman tui needs an interactive terminal");
+  }
+  if (options.accounts.length === 0) {
+    throw new Error("No cached accounts. Run 'superhuman account auth' first.");
+  }
+
+  const actions = options.actions ?? createTuiActions();
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const state = createTuiState(options.accounts, options.account);
+
+  const draw = () => {
+    const rows = renderScreen(state, stdout.columns || 80, stdout.rows || 24);
+    stdout.write(`\x1b[H${rows.join("\x1b[K\r\n")}\x1b[K\x1b[J`);
+  };
+
+  // Alternate screen, hidden cursor
+  stdout.write("\x1b[?1049h\x1b[?25l");
+  stdin.setRawMode(true);
+  stdin.setEncoding("utf8");
+  stdin.resume();
+  stdout.on("resize", draw);
+
+  try {
+    draw();
+    await loadInbox(state, actions, limit);
+    draw();
+    await loadSelectedThread(state, actions);
+    draw();
+
+    // Keys are handled one at a time, in order
+    const keys: string[] = [];
+    let wake: (() => void) | null = null;
+    const onData = (chunk: string) => {
+      keys.push(...splitKeys(chunk));
+      wake?.();
+    };
+    stdin.on("data", onData);
+
+    while (!state.quit) {
+      const key = keys.shift();
+      if (key === undefined) {
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = null;
+        continue;
+      }
+
+      await handleKey(state, key, actions, limit);
+      draw();
+      if (!state.prompt && keys.length === 0) {
+        await loadSelectedThread(state, actions);
+        draw();
+      }
+    }
+
+    stdin.off("data", onData);
+  } finally {
+    stdout.off("resize", draw);
+    stdin.setRawMode(false);
+    stdin.pause();
+    stdout.write("\x1b[?25h\x1b[?1049l");
+  }
+}
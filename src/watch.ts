@@ -0,0 +1,175 @@
+/**
+ * Watch Module
+ *
+ * Long-running new-mail watcher. Polls the Gmail history API or the MS Graph
+ * Inbox delta query and reports every new or changed inbox thread as an
+ * InboxThread.
+ */
+
+import type { ConnectionProvider } from "./connection-provider";
+import { threadMatchesQuery, type InboxThread } from "./inbox";
+import {
+  getConversationMessageIds,
+  getGmailHistoryDirect,
+  getGmailHistoryIdDirect,
+  getMSGraphInboxDeltaDirect,
+  getThreadSummariesDirect,
+  type TokenInfo,
+} from "./token-api";
+
+/**
+ * Position in the mailbox change stream.
+ * Gmail uses a historyId, MS Graph a deltaLink.
+ */
+export type WatchCursor =
+  | { kind: "gmail"; historyId: string }
+  | { kind: "msgraph"; deltaLink: string };
+
+export interface WatchOptions {
+  /** Only report threads matching this Gmail-style query (evaluated locally) */
+  query?: string;
+  /** Poll interval in milliseconds (default: 30000) */
+  intervalMs?: number;
+  /** Stop watching when aborted */
+  signal?: AbortSignal;
+  /** Called once per new or changed thread */
+  onThread: (thread: InboxThread) => void | Promise<void>;
+  /** Called when a poll fails; the watcher keeps going. Default: rethrow. */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Get a cursor pointing at the current state of the mailbox.
+ * Only changes made after this point are reported by pollInboxChanges.
+ */
+export async function getWatchCursor(token: TokenInfo): Promise<WatchCursor> {
+  if (token.isMicrosoft) {
+    const delta = await getMSGraphInboxDeltaDirect(token, "latest");
+    if (!delta) {
+      throw new Error("MS Graph rejected the delta query");
+    }
+    return { kind: "msgraph", deltaLink: delta.deltaLink };
+  }
+  return { kind: "gmail", historyId: await getGmailHistoryIdDirect(token) };
+}
+
+/**
+ * Fetch inbox threads that changed since a cursor.
+ *
+ * An expired cursor is replaced by a fresh one and no threads are reported
+ * for that poll. If a changed thread can't be fetched the poll throws, so the
+ * caller keeps its cursor and picks the changes up on the next poll.
+ *
+ * @returns Changed threads (newest first) and the cursor for the next poll
+ */
+export async function pollInboxChanges(
+  token: TokenInfo,
+  cursor: WatchCursor
+): Promise<{ threads: InboxThread[]; cursor: WatchCursor }> {
+  if (cursor.kind === "gmail") {
+    const history = await getGmailHistoryDirect(token, cursor.historyId, "INBOX");
+    if (!history) {
+      return { threads: [], cursor: await getWatchCursor(token) };
+    }
+
+    const threadIds = history.changes.map((change) => change.threadId);
+    const summaries = await getThreadSummariesDirect(token, threadIds);
+    const failed = threadIds.filter((_, i) => !summaries[i]);
+    if (failed.length > 0) {
+      throw new Error(`Failed to fetch changed threads: ${failed.join(", ")}`);
+    }
+
+    return {
+      threads: sortNewestFirst(summaries as InboxThread[]),
+      cursor: { kind: "gmail", historyId: history.historyId },
+    };
+  }
+
+  const delta = await getMSGraphInboxDeltaDirect(token, cursor.deltaLink);
+  if (!delta) {
+    return { threads: [], cursor: await getWatchCursor(token) };
+  }
+
+  // Keep the latest changed message per conversation
+  const latestByConversation = new Map<string, (typeof delta.messages)[number]>();
+  for (const msg of delta.messages) {
+    if (!msg.conversationId) continue;
+    const existing = latestByConversation.get(msg.conversationId);
+    if (!existing || (msg.receivedDateTime || "") > (existing.receivedDateTime || "")) {
+      latestByConversation.set(msg.conversationId, msg);
+    }
+  }
+
+  const threads: InboxThread[] = [];
+  for (const [conversationId, msg] of latestByConversation) {
+    const messageIds = await getConversationMessageIds(token, conversationId);
+    threads.push({
+      id: conversationId,
+      subject: msg.subject || "(no subject)",
+      from: {
+        email: msg.from?.emailAddress?.address || "",
+        name: msg.from?.emailAddress?.name || "",
+      },
+      date: msg.receivedDateTime || "",
+      snippet: msg.bodyPreview || "",
+      labelIds: msg.isRead === false ? ["UNREAD"] : [],
+      messageCount: Math.max(messageIds.length, 1),
+    });
+  }
+
+  return { threads: sortNewestFirst(threads), cursor: { kind: "msgraph", deltaLink: delta.deltaLink } };
+}
+
+function sortNewestFirst(threads: InboxThread[]): InboxThread[] {
+  return threads.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Watch the inbox until the signal is aborted.
+ *
+ * The token is re-read from the provider on every poll so cached tokens are
+ * refreshed as they expire.
+ */
+export async function watchInbox(
+  provider: ConnectionProvider,
+  options: WatchOptions
+): Promise<void> {
+  const { query, intervalMs = 30000, signal, onThread, onError } = options;
+
+  let cursor = await getWatchCursor(await provider.getToken());
+
+  while (!signal?.aborted) {
+    await sleep(intervalMs, signal);
+    if (signal?.aborted) break;
+
+    try {
+      const token = await provider.getToken();
+      const result = await pollInboxChanges(token, cursor);
+      cursor = result.cursor;
+
+      for (const thread of result.threads) {
+        if (query && !threadMatchesQuery(thread, query)) continue;
+        await onThread(thread);
+      }
+    } catch (e) {
+      const err = e instanceof Error ? e : new Error(String(e));
+      if (!onError) throw err;
+      onError(err);
+    }
+  }
+}